@@ -0,0 +1,60 @@
+import { config } from '@/config/env';
+
+// Chains the platform knows by name (ZetaChain plus supported destination chains)
+export const CHAIN_NAMES: { [key: number]: string } = {
+  1: 'Ethereum',
+  137: 'Polygon',
+  56: 'BSC',
+  7000: 'ZetaChain',
+  7001: 'ZetaChain Testnet',
+  11155111: 'Ethereum Sepolia',
+  80002: 'Polygon Amoy',
+  97: 'BSC Testnet',
+  84532: 'Base Sepolia',
+};
+
+/**
+ * Get chain name from chain ID
+ */
+export const getChainName = (chainId: number): string => {
+  return CHAIN_NAMES[chainId] || `Chain ${chainId}`;
+};
+
+/**
+ * Check whether a chain ID is one the platform knows
+ */
+export const isKnownChain = (chainId: number): boolean => {
+  return CHAIN_NAMES[chainId] !== undefined;
+};
+
+/**
+ * Get the configured RPC URL for a chain, if any
+ */
+export const getRpcUrl = (chainId: number): string | undefined => {
+  const rpcUrls: { [key: number]: string | undefined } = {
+    [Number(config.blockchain.zetachain.chainId)]: config.blockchain.zetachain.rpcUrl,
+    11155111: config.blockchain.rpcUrls.ethereumSepolia,
+    84532: config.blockchain.rpcUrls.baseSepolia,
+    97: config.blockchain.rpcUrls.bscTestnet,
+    80002: config.blockchain.rpcUrls.polygonAmoy,
+  };
+
+  return rpcUrls[chainId];
+};
+
+// Destination chains served by a CrossChainMinter deployment
+export const DESTINATION_CHAIN_IDS = [11155111, 84532, 97, 80002];
+
+/**
+ * Get the configured CrossChainMinter address for a destination chain, if any
+ */
+export const getMinterAddress = (chainId: number): string | undefined => {
+  const minters: { [key: number]: string | undefined } = {
+    11155111: config.blockchain.crossChainMinters.ethereumSepolia,
+    84532: config.blockchain.crossChainMinters.baseSepolia,
+    97: config.blockchain.crossChainMinters.bscTestnet,
+    80002: config.blockchain.crossChainMinters.polygonAmoy,
+  };
+
+  return minters[chainId];
+};
\ No newline at end of file
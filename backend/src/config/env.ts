@@ -1,11 +1,184 @@
 import dotenv from 'dotenv';
 import Joi from 'joi';
+import type { SignOptions } from 'jsonwebtoken';
 
 // Load environment variables
 dotenv.config();
 
+// Environment variables once validated, with defaults applied
+interface EnvVars {
+  NODE_ENV: 'development' | 'production' | 'test';
+  PORT: number;
+  HOST: string;
+
+  // Database
+  MONGODB_URI: string;
+  MONGODB_TEST_URI?: string;
+
+  // Redis
+  REDIS_URL?: string;
+  REDIS_PASSWORD?: string;
+
+  // JWT
+  JWT_SECRET: string;
+  JWT_EXPIRE: NonNullable<SignOptions['expiresIn']>;
+  JWT_REFRESH_SECRET: string;
+  JWT_REFRESH_EXPIRE: NonNullable<SignOptions['expiresIn']>;
+
+  // Wallet auth challenges
+  AUTH_CHALLENGE_TTL_MS: number;
+  SIWE_DOMAINS: string;
+  SIWE_URI: string;
+  SIWE_STATEMENT: string;
+
+  // AI Configuration
+  GEMINI_API_KEY: string;
+  GEMINI_MODEL: string;
+  OPENAI_API_KEY?: string;
+  OPENAI_IMAGE_MODEL: string;
+
+  // Image generation providers
+  IMAGE_PROVIDER: 'openai' | 'stability' | 'local' | 'test';
+  IMAGE_PROVIDER_FALLBACKS: string;
+  IMAGE_GENERATION_TIMEOUT: number;
+  STABILITY_API_KEY?: string;
+  STABILITY_API_URL: string;
+  STABILITY_MODEL: string;
+  LOCAL_SD_URL?: string;
+  LOCAL_SD_API: 'comfyui' | 'automatic1111';
+  LOCAL_SD_MODEL: string;
+
+  // Multi-variant generation
+  GENERATION_DEFAULT_VARIANTS: number;
+  GENERATION_MAX_VARIANTS: number;
+  GENERATION_MAX_REGENERATIONS: number;
+  GENERATION_DRAFT_TTL_HOURS: number;
+  GENERATION_CACHE_ENABLED: boolean;
+  GENERATION_CACHE_TTL_HOURS: number;
+  GENERATION_CACHE_REUSE_DEFAULT: boolean;
+
+  // Content moderation
+  MODERATION_ENABLED: boolean;
+  MODERATION_CLASSIFIERS: string;
+  MODERATION_RULES_FILE?: string;
+  MODERATION_BLOCKED_TERMS: string;
+  MODERATION_REVIEW_TERMS: string;
+  MODERATION_OPENAI_MODEL: string;
+  MODERATION_REVIEW_TTL_HOURS: number;
+  DUPLICATE_DETECTION_ENABLED: boolean;
+  DUPLICATE_PHASH_THRESHOLD: number;
+  DUPLICATE_ACTION: 'review' | 'block';
+
+  // Cost accounting and quotas
+  USAGE_TRACKING_ENABLED: boolean;
+  USAGE_PRICING_FILE?: string;
+  QUOTAS_ENABLED: boolean;
+  QUOTA_DEFAULT_TIER: string;
+  QUOTA_TIERS_FILE?: string;
+
+  // IPFS
+  PINATA_API_KEY: string;
+  PINATA_API_SECRET: string;
+  PINATA_JWT?: string;
+  KUBO_API_URL?: string;
+  KUBO_GATEWAY_URL?: string;
+  PINNING_PROVIDERS: string;
+  IPFS_GATEWAYS: string;
+  IPFS_GATEWAY_TIMEOUT: number;
+  PIN_RECONCILE_ENABLED: boolean;
+  PIN_RECONCILE_INTERVAL_MS: number;
+  PIN_RECONCILE_BATCH_SIZE: number;
+  PIN_RECHECK_HOURS: number;
+  FREEZE_MAX_TOKENS: number;
+  FREEZE_MAX_BYTES: number;
+  METADATA_PROFILE: 'opensea' | 'erc1155' | 'rarible';
+
+  // Blockchain
+  ZETACHAIN_RPC_URL: string;
+  ZETACHAIN_CHAIN_ID: number;
+  CHAINWEAVE_CONTRACT_ADDRESS: string;
+  BACKEND_PRIVATE_KEY: string;
+  OWNER_PRIVATE_KEY?: string;
+
+  // CrossChain Minter Contract Addresses
+  ETHEREUM_SEPOLIA_MINTER?: string;
+  BASE_SEPOLIA_MINTER?: string;
+  BSC_TESTNET_MINTER?: string;
+  POLYGON_AMOY_MINTER?: string;
+
+  // Destination chain RPC endpoints (used for contract wallet signature checks)
+  ETHEREUM_SEPOLIA_RPC_URL?: string;
+  BASE_SEPOLIA_RPC_URL?: string;
+  BSC_TESTNET_RPC_URL?: string;
+  POLYGON_AMOY_RPC_URL?: string;
+
+  // Rate limiting
+  RATE_LIMIT_WINDOW_MS: number;
+  RATE_LIMIT_MAX_REQUESTS: number;
+
+  // CORS
+  CORS_ORIGIN: string;
+
+  // Admin wallets
+  ADMIN_WALLETS: string;
+
+  // Logging
+  LOG_LEVEL: 'error' | 'warn' | 'info' | 'debug';
+  LOG_FILE: string;
+
+  // Health check
+  HEALTH_CHECK_INTERVAL: number;
+  HEALTH_CHECK_TIMEOUT_MS: number;
+  HEALTH_MAX_BLOCK_AGE_SECONDS: number;
+  HEALTH_MAX_INDEXER_LAG_BLOCKS: number;
+
+  // Response cache (public read endpoints)
+  RESPONSE_CACHE_ENABLED: boolean;
+  RESPONSE_CACHE_MAX_ENTRIES: number;
+
+  // AI settings
+  AI_GENERATION_TIMEOUT: number;
+  MAX_PROMPT_LENGTH: number;
+  MIN_PROMPT_LENGTH: number;
+
+  // File upload
+  MAX_FILE_SIZE: number;
+  ALLOWED_FILE_TYPES: string;
+
+  // Webhooks
+  WEBHOOK_SECRET?: string;
+  WEBHOOKS_ENABLED: boolean;
+  WEBHOOK_TIMEOUT_MS: number;
+  WEBHOOK_POLL_INTERVAL_MS: number;
+  WEBHOOK_CONCURRENCY: number;
+  WEBHOOK_MAX_ATTEMPTS: number;
+  WEBHOOK_BACKOFF_BASE_MS: number;
+  WEBHOOK_BACKOFF_MAX_MS: number;
+  WEBHOOK_DISABLE_AFTER_FAILURES: number;
+  WEBHOOK_MAX_ENDPOINTS: number;
+  WEBHOOK_LOG_RETENTION_DAYS: number;
+
+  // Generation queue
+  QUEUE_ENABLED: boolean;
+  QUEUE_CONCURRENCY: number;
+  QUEUE_POLL_INTERVAL_MS: number;
+  QUEUE_LEASE_MS: number;
+  QUEUE_HEARTBEAT_MS: number;
+  QUEUE_MAX_ATTEMPTS: number;
+  QUEUE_BACKOFF_BASE_MS: number;
+  QUEUE_BACKOFF_MAX_MS: number;
+
+  // Contract event indexer
+  INDEXER_ENABLED: boolean;
+  INDEXER_CONFIRMATIONS: number;
+  INDEXER_BLOCK_CHUNK_SIZE: number;
+  INDEXER_POLL_INTERVAL_MS: number;
+  INDEXER_START_BLOCK?: number;
+  INDEXER_MAX_EVENT_ATTEMPTS: number;
+}
+
 // Environment variables validation schema
-const envSchema = Joi.object({
+const envSchema = Joi.object<EnvVars>({
   NODE_ENV: Joi.string().valid('development', 'production', 'test').default('development'),
   PORT: Joi.number().default(5000),
   HOST: Joi.string().default('localhost'),
@@ -19,25 +192,82 @@ const envSchema = Joi.object({
   }),
   
   // Redis
-  REDIS_URL: Joi.string().default('redis://localhost:6379'),
+  REDIS_URL: Joi.string().optional(),
   REDIS_PASSWORD: Joi.string().allow('').optional(),
   
   // JWT
   JWT_SECRET: Joi.string().required(),
-  JWT_EXPIRE: Joi.string().default('7d'),
+  JWT_EXPIRE: Joi.string().default('15m'),
   JWT_REFRESH_SECRET: Joi.string().required(),
   JWT_REFRESH_EXPIRE: Joi.string().default('30d'),
   
+  // Wallet auth challenges
+  AUTH_CHALLENGE_TTL_MS: Joi.number().min(10000).default(300000), // 5 minutes
+  SIWE_DOMAINS: Joi.string().default('localhost:3000'),
+  SIWE_URI: Joi.string().uri().default('http://localhost:3000'),
+  SIWE_STATEMENT: Joi.string().default('Sign in to ChainWeave AI to authenticate your wallet.'),
+  
   // AI Configuration
   GEMINI_API_KEY: Joi.string().required(),
   GEMINI_MODEL: Joi.string().default('gemini-1.5-flash'),
   OPENAI_API_KEY: Joi.string().optional(),
+  OPENAI_IMAGE_MODEL: Joi.string().default('dall-e-3'),
+  
+  // Image generation providers
+  IMAGE_PROVIDER: Joi.string().valid('openai', 'stability', 'local', 'test').default('openai'),
+  IMAGE_PROVIDER_FALLBACKS: Joi.string().default(''),
+  IMAGE_GENERATION_TIMEOUT: Joi.number().default(120000),
+  STABILITY_API_KEY: Joi.string().optional(),
+  STABILITY_API_URL: Joi.string().uri().default('https://api.stability.ai'),
+  STABILITY_MODEL: Joi.string().default('core'),
+  LOCAL_SD_URL: Joi.string().uri().optional(),
+  LOCAL_SD_API: Joi.string().valid('comfyui', 'automatic1111').default('comfyui'),
+  LOCAL_SD_MODEL: Joi.string().default('sd_xl_base_1.0.safetensors'),
+  
+  // Multi-variant generation
+  GENERATION_DEFAULT_VARIANTS: Joi.number().integer().min(1).default(1),
+  GENERATION_MAX_VARIANTS: Joi.number().integer().min(1).max(10).default(4),
+  GENERATION_MAX_REGENERATIONS: Joi.number().integer().min(0).default(3),
+  GENERATION_DRAFT_TTL_HOURS: Joi.number().min(1).default(72),
+  GENERATION_CACHE_ENABLED: Joi.boolean().default(true),
+  GENERATION_CACHE_TTL_HOURS: Joi.number().min(1).default(720),
+  GENERATION_CACHE_REUSE_DEFAULT: Joi.boolean().default(false),
+
+  // Content moderation
+  MODERATION_ENABLED: Joi.boolean().default(true),
+  MODERATION_CLASSIFIERS: Joi.string().default('rules'),
+  MODERATION_RULES_FILE: Joi.string().optional(),
+  MODERATION_BLOCKED_TERMS: Joi.string().allow('').default(''),
+  MODERATION_REVIEW_TERMS: Joi.string().allow('').default(''),
+  MODERATION_OPENAI_MODEL: Joi.string().default('omni-moderation-latest'),
+  MODERATION_REVIEW_TTL_HOURS: Joi.number().min(1).default(168),
+  DUPLICATE_DETECTION_ENABLED: Joi.boolean().default(true),
+  DUPLICATE_PHASH_THRESHOLD: Joi.number().integer().min(0).max(7).default(5),
+  DUPLICATE_ACTION: Joi.string().valid('review', 'block').default('review'),
+
+  // Cost accounting and quotas
+  USAGE_TRACKING_ENABLED: Joi.boolean().default(true),
+  USAGE_PRICING_FILE: Joi.string().optional(),
+  QUOTAS_ENABLED: Joi.boolean().default(true),
+  QUOTA_DEFAULT_TIER: Joi.string().default('free'),
+  QUOTA_TIERS_FILE: Joi.string().optional(),
   
   // IPFS
   PINATA_API_KEY: Joi.string().required(),
   PINATA_API_SECRET: Joi.string().required(),
   PINATA_JWT: Joi.string().optional(),
-  NFT_STORAGE_API_KEY: Joi.string().optional(),
+  KUBO_API_URL: Joi.string().uri().optional(),
+  KUBO_GATEWAY_URL: Joi.string().uri().optional(),
+  PINNING_PROVIDERS: Joi.string().default('pinata'),
+  IPFS_GATEWAYS: Joi.string().default('https://gateway.pinata.cloud,https://ipfs.io,https://dweb.link'),
+  IPFS_GATEWAY_TIMEOUT: Joi.number().default(15000),
+  PIN_RECONCILE_ENABLED: Joi.boolean().default(true),
+  PIN_RECONCILE_INTERVAL_MS: Joi.number().min(60000).default(3600000),
+  PIN_RECONCILE_BATCH_SIZE: Joi.number().integer().min(1).default(50),
+  PIN_RECHECK_HOURS: Joi.number().min(1).default(24),
+  FREEZE_MAX_TOKENS: Joi.number().integer().min(1).default(1000),
+  FREEZE_MAX_BYTES: Joi.number().integer().min(1048576).default(268435456),
+  METADATA_PROFILE: Joi.string().valid('opensea', 'erc1155', 'rarible').default('opensea'),
   
   // Blockchain
   ZETACHAIN_RPC_URL: Joi.string().uri().required(),
@@ -51,6 +281,12 @@ const envSchema = Joi.object({
   BASE_SEPOLIA_MINTER: Joi.string().optional(),
   BSC_TESTNET_MINTER: Joi.string().optional(),
   POLYGON_AMOY_MINTER: Joi.string().optional(),
+
+  // Destination chain RPC endpoints (used for contract wallet signature checks)
+  ETHEREUM_SEPOLIA_RPC_URL: Joi.string().uri().optional(),
+  BASE_SEPOLIA_RPC_URL: Joi.string().uri().optional(),
+  BSC_TESTNET_RPC_URL: Joi.string().uri().optional(),
+  POLYGON_AMOY_RPC_URL: Joi.string().uri().optional(),
   
   // Rate limiting
   RATE_LIMIT_WINDOW_MS: Joi.number().default(900000),
@@ -68,6 +304,13 @@ const envSchema = Joi.object({
   
   // Health check
   HEALTH_CHECK_INTERVAL: Joi.number().default(30000),
+  HEALTH_CHECK_TIMEOUT_MS: Joi.number().integer().min(100).default(3000),
+  HEALTH_MAX_BLOCK_AGE_SECONDS: Joi.number().integer().min(1).default(300),
+  HEALTH_MAX_INDEXER_LAG_BLOCKS: Joi.number().integer().min(1).default(200),
+  
+  // Response cache (public read endpoints)
+  RESPONSE_CACHE_ENABLED: Joi.boolean().default(true),
+  RESPONSE_CACHE_MAX_ENTRIES: Joi.number().integer().min(1).default(1000),
   
   // AI settings
   AI_GENERATION_TIMEOUT: Joi.number().default(30000),
@@ -79,15 +322,45 @@ const envSchema = Joi.object({
   ALLOWED_FILE_TYPES: Joi.string().default('image/jpeg,image/png,image/webp'),
   
   // Webhooks
-  WEBHOOK_SECRET: Joi.string().optional(),
+  WEBHOOK_SECRET: Joi.string().min(32).optional(),
+  WEBHOOKS_ENABLED: Joi.boolean().default(true),
+  WEBHOOK_TIMEOUT_MS: Joi.number().min(1000).default(10000),
+  WEBHOOK_POLL_INTERVAL_MS: Joi.number().min(500).default(5000),
+  WEBHOOK_CONCURRENCY: Joi.number().integer().min(1).default(4),
+  WEBHOOK_MAX_ATTEMPTS: Joi.number().integer().min(1).default(8),
+  WEBHOOK_BACKOFF_BASE_MS: Joi.number().default(10000),
+  WEBHOOK_BACKOFF_MAX_MS: Joi.number().default(21600000),
+  WEBHOOK_DISABLE_AFTER_FAILURES: Joi.number().integer().min(1).default(20),
+  WEBHOOK_MAX_ENDPOINTS: Joi.number().integer().min(1).default(10),
+  WEBHOOK_LOG_RETENTION_DAYS: Joi.number().min(1).default(30),
+  
+  // Generation queue
+  QUEUE_ENABLED: Joi.boolean().default(true),
+  QUEUE_CONCURRENCY: Joi.number().integer().min(1).default(2),
+  QUEUE_POLL_INTERVAL_MS: Joi.number().default(2000),
+  QUEUE_LEASE_MS: Joi.number().default(60000),
+  QUEUE_HEARTBEAT_MS: Joi.number().default(15000),
+  QUEUE_MAX_ATTEMPTS: Joi.number().integer().min(1).default(5),
+  QUEUE_BACKOFF_BASE_MS: Joi.number().default(5000),
+  QUEUE_BACKOFF_MAX_MS: Joi.number().default(300000),
+  
+  // Contract event indexer
+  INDEXER_ENABLED: Joi.boolean().default(true),
+  INDEXER_CONFIRMATIONS: Joi.number().integer().min(0).default(3),
+  INDEXER_BLOCK_CHUNK_SIZE: Joi.number().integer().min(1).default(2000),
+  INDEXER_POLL_INTERVAL_MS: Joi.number().default(5000),
+  INDEXER_START_BLOCK: Joi.number().integer().min(0).optional(),
+  INDEXER_MAX_EVENT_ATTEMPTS: Joi.number().integer().min(1).default(5),
 }).unknown();
 
-const { error, value: envVars } = envSchema.validate(process.env);
+const validation = envSchema.validate(process.env);
 
-if (error) {
-  throw new Error(`Config validation error: ${error.message}`);
+if (validation.error) {
+  throw new Error(`Config validation error: ${validation.error.message}`);
 }
 
+const envVars = validation.value;
+
 export const config = {
   env: envVars.NODE_ENV,
   port: envVars.PORT,
@@ -110,6 +383,15 @@ export const config = {
     refreshExpire: envVars.JWT_REFRESH_EXPIRE,
   },
   
+  auth: {
+    challengeTtlMs: envVars.AUTH_CHALLENGE_TTL_MS,
+    siwe: {
+      domains: envVars.SIWE_DOMAINS.split(',').map((d: string) => d.trim()).filter((d: string) => d.length > 0),
+      uri: envVars.SIWE_URI,
+      statement: envVars.SIWE_STATEMENT,
+    },
+  },
+  
   ai: {
     gemini: {
       apiKey: envVars.GEMINI_API_KEY,
@@ -117,11 +399,63 @@ export const config = {
     },
     openai: {
       apiKey: envVars.OPENAI_API_KEY,
+      imageModel: envVars.OPENAI_IMAGE_MODEL,
+    },
+    images: {
+      provider: envVars.IMAGE_PROVIDER,
+      fallbacks: envVars.IMAGE_PROVIDER_FALLBACKS.split(',').map((p: string) => p.trim()).filter((p: string) => p.length > 0),
+      timeout: envVars.IMAGE_GENERATION_TIMEOUT,
+      stability: {
+        apiKey: envVars.STABILITY_API_KEY,
+        apiUrl: envVars.STABILITY_API_URL,
+        model: envVars.STABILITY_MODEL,
+      },
+      local: {
+        url: envVars.LOCAL_SD_URL,
+        api: envVars.LOCAL_SD_API,
+        model: envVars.LOCAL_SD_MODEL,
+      },
+    },
+    variants: {
+      default: Math.min(envVars.GENERATION_DEFAULT_VARIANTS, envVars.GENERATION_MAX_VARIANTS),
+      max: envVars.GENERATION_MAX_VARIANTS,
+      maxRegenerations: envVars.GENERATION_MAX_REGENERATIONS,
+      draftTtlMs: envVars.GENERATION_DRAFT_TTL_HOURS * 60 * 60 * 1000,
+    },
+    cache: {
+      enabled: envVars.GENERATION_CACHE_ENABLED,
+      ttlMs: envVars.GENERATION_CACHE_TTL_HOURS * 60 * 60 * 1000,
+      reuseByDefault: envVars.GENERATION_CACHE_REUSE_DEFAULT,
     },
     timeout: envVars.AI_GENERATION_TIMEOUT,
     maxPromptLength: envVars.MAX_PROMPT_LENGTH,
     minPromptLength: envVars.MIN_PROMPT_LENGTH,
   },
+
+  moderation: {
+    enabled: envVars.MODERATION_ENABLED,
+    classifiers: envVars.MODERATION_CLASSIFIERS.split(',').map((c: string) => c.trim()).filter((c: string) => c.length > 0),
+    rulesFile: envVars.MODERATION_RULES_FILE,
+    blockedTerms: envVars.MODERATION_BLOCKED_TERMS.split(',').map((t: string) => t.trim()).filter((t: string) => t.length > 0),
+    reviewTerms: envVars.MODERATION_REVIEW_TERMS.split(',').map((t: string) => t.trim()).filter((t: string) => t.length > 0),
+    openaiModel: envVars.MODERATION_OPENAI_MODEL,
+    reviewTtlMs: envVars.MODERATION_REVIEW_TTL_HOURS * 60 * 60 * 1000,
+    duplicates: {
+      enabled: envVars.DUPLICATE_DETECTION_ENABLED,
+      threshold: envVars.DUPLICATE_PHASH_THRESHOLD,
+      action: envVars.DUPLICATE_ACTION as 'review' | 'block',
+    },
+  },
+
+  usage: {
+    enabled: envVars.USAGE_TRACKING_ENABLED,
+    pricingFile: envVars.USAGE_PRICING_FILE,
+    quotas: {
+      enabled: envVars.QUOTAS_ENABLED,
+      defaultTier: envVars.QUOTA_DEFAULT_TIER,
+      tiersFile: envVars.QUOTA_TIERS_FILE,
+    },
+  },
   
   ipfs: {
     pinata: {
@@ -129,9 +463,27 @@ export const config = {
       apiSecret: envVars.PINATA_API_SECRET,
       jwt: envVars.PINATA_JWT,
     },
-    nftStorage: {
-      apiKey: envVars.NFT_STORAGE_API_KEY,
+    kubo: {
+      apiUrl: envVars.KUBO_API_URL,
+      gatewayUrl: envVars.KUBO_GATEWAY_URL,
     },
+    // The first configured provider stores uploads, the rest pin them by CID
+    providers: envVars.PINNING_PROVIDERS.split(',').map((p: string) => p.trim()).filter((p: string) => p.length > 0),
+    gateways: envVars.IPFS_GATEWAYS.split(',').map((g: string) => g.trim().replace(/\/+$/, '')).filter((g: string) => g.length > 0),
+    gatewayTimeout: envVars.IPFS_GATEWAY_TIMEOUT,
+    reconcile: {
+      enabled: envVars.PIN_RECONCILE_ENABLED,
+      intervalMs: envVars.PIN_RECONCILE_INTERVAL_MS,
+      batchSize: envVars.PIN_RECONCILE_BATCH_SIZE,
+      recheckMs: envVars.PIN_RECHECK_HOURS * 60 * 60 * 1000,
+    },
+    // Freezing packs a whole collection in memory, so its size is capped
+    freeze: {
+      maxTokens: envVars.FREEZE_MAX_TOKENS,
+      maxBytes: envVars.FREEZE_MAX_BYTES,
+    },
+    // Marketplace format token metadata is pinned in, unless a request picks another
+    metadataProfile: envVars.METADATA_PROFILE as 'opensea' | 'erc1155' | 'rarible',
   },
   
   blockchain: {
@@ -148,6 +500,12 @@ export const config = {
       bscTestnet: envVars.BSC_TESTNET_MINTER,
       polygonAmoy: envVars.POLYGON_AMOY_MINTER,
     },
+    rpcUrls: {
+      ethereumSepolia: envVars.ETHEREUM_SEPOLIA_RPC_URL,
+      baseSepolia: envVars.BASE_SEPOLIA_RPC_URL,
+      bscTestnet: envVars.BSC_TESTNET_RPC_URL,
+      polygonAmoy: envVars.POLYGON_AMOY_RPC_URL,
+    },
   },
   
   rateLimit: {
@@ -169,7 +527,18 @@ export const config = {
   },
   
   healthCheck: {
+    // Results are cached for this long, so probes do not hit every dependency each time
     interval: envVars.HEALTH_CHECK_INTERVAL,
+    timeoutMs: envVars.HEALTH_CHECK_TIMEOUT_MS,
+    // A latest block older than this means the RPC node has stopped following the chain
+    maxBlockAgeSeconds: envVars.HEALTH_MAX_BLOCK_AGE_SECONDS,
+    maxIndexerLagBlocks: envVars.HEALTH_MAX_INDEXER_LAG_BLOCKS,
+  },
+  
+  responseCache: {
+    enabled: envVars.RESPONSE_CACHE_ENABLED,
+    // Only bounds the in-process store; Redis entries just expire
+    maxEntries: envVars.RESPONSE_CACHE_MAX_ENTRIES,
   },
   
   upload: {
@@ -178,7 +547,39 @@ export const config = {
   },
   
   webhook: {
+    // Endpoint signing secrets are derived from this one, so webhooks stay off without it
     secret: envVars.WEBHOOK_SECRET,
+    enabled: envVars.WEBHOOKS_ENABLED && !!envVars.WEBHOOK_SECRET,
+    timeoutMs: envVars.WEBHOOK_TIMEOUT_MS,
+    pollIntervalMs: envVars.WEBHOOK_POLL_INTERVAL_MS,
+    concurrency: envVars.WEBHOOK_CONCURRENCY,
+    maxAttempts: envVars.WEBHOOK_MAX_ATTEMPTS,
+    backoffBaseMs: envVars.WEBHOOK_BACKOFF_BASE_MS,
+    backoffMaxMs: envVars.WEBHOOK_BACKOFF_MAX_MS,
+    // Consecutive failed attempts after which an endpoint is disabled
+    disableAfterFailures: envVars.WEBHOOK_DISABLE_AFTER_FAILURES,
+    maxEndpoints: envVars.WEBHOOK_MAX_ENDPOINTS,
+    retentionDays: envVars.WEBHOOK_LOG_RETENTION_DAYS,
+  },
+  
+  queue: {
+    enabled: envVars.QUEUE_ENABLED,
+    concurrency: envVars.QUEUE_CONCURRENCY,
+    pollIntervalMs: envVars.QUEUE_POLL_INTERVAL_MS,
+    leaseMs: envVars.QUEUE_LEASE_MS,
+    heartbeatMs: envVars.QUEUE_HEARTBEAT_MS,
+    maxAttempts: envVars.QUEUE_MAX_ATTEMPTS,
+    backoffBaseMs: envVars.QUEUE_BACKOFF_BASE_MS,
+    backoffMaxMs: envVars.QUEUE_BACKOFF_MAX_MS,
+  },
+  
+  indexer: {
+    enabled: envVars.INDEXER_ENABLED,
+    confirmations: envVars.INDEXER_CONFIRMATIONS,
+    chunkSize: envVars.INDEXER_BLOCK_CHUNK_SIZE,
+    pollIntervalMs: envVars.INDEXER_POLL_INTERVAL_MS,
+    startBlock: envVars.INDEXER_START_BLOCK,
+    maxEventAttempts: envVars.INDEXER_MAX_EVENT_ATTEMPTS,
   },
 } as const;
 
@@ -0,0 +1,65 @@
+import { createClient } from 'redis';
+import { config } from '@/config/env';
+import { logger } from '@/utils/logger';
+
+export type RedisClient = ReturnType<typeof createClient>;
+
+let client: RedisClient | null = null;
+let connecting: Promise<RedisClient> | null = null;
+
+/**
+ * Whether a Redis URL is configured for this deployment
+ */
+export const isRedisConfigured = (): boolean => !!config.redis.url;
+
+/**
+ * Get the shared Redis client, connecting lazily on first use
+ */
+export const getRedisClient = async (): Promise<RedisClient> => {
+  if (client?.isOpen) {
+    return client;
+  }
+
+  if (!config.redis.url) {
+    throw new Error('Redis is not configured');
+  }
+
+  if (!connecting) {
+    const redisClient = createClient(config.redis.password
+      ? { url: config.redis.url, password: config.redis.password }
+      : { url: config.redis.url });
+
+    redisClient.on('error', (error) => {
+      logger.error('Redis connection error:', error);
+    });
+
+    redisClient.on('reconnecting', () => {
+      logger.warn('Redis reconnecting');
+    });
+
+    connecting = redisClient.connect()
+      .then(() => {
+        client = redisClient;
+        logger.info('Successfully connected to Redis');
+        return redisClient;
+      })
+      .finally(() => {
+        connecting = null;
+      });
+  }
+
+  return connecting;
+};
+
+export const disconnectFromRedis = async (): Promise<void> => {
+  try {
+    if (client?.isOpen) {
+      await client.quit();
+      logger.info('Disconnected from Redis');
+    }
+  } catch (error) {
+    logger.error('Error disconnecting from Redis:', error);
+  } finally {
+    client = null;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { config } from '@/config/env';
+import { IUser, Permission, UserAccess, UserRole } from '@/types';
+
+// Permissions each role grants (admins hold every permission)
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.ADMIN]: Object.values(Permission),
+  [UserRole.MODERATOR]: [
+    Permission.USERS_READ,
+    Permission.REQUESTS_READ,
+    Permission.COLLECTIONS_MANAGE,
+    Permission.MODERATION_REVIEW,
+  ],
+  [UserRole.SUPPORT]: [
+    Permission.USERS_READ,
+    Permission.REQUESTS_READ,
+    Permission.REQUESTS_MANAGE,
+    Permission.USAGE_READ,
+  ],
+};
+
+/**
+ * Whether the wallet is listed in ADMIN_WALLETS. Those wallets are always
+ * admins, so a deployment can bootstrap its first admin without the database.
+ */
+export const isBootstrapAdmin = (walletAddress: string): boolean =>
+  config.admin.wallets.map((w: string) => w.toLowerCase()).includes(walletAddress.toLowerCase());
+
+/**
+ * Roles and permissions a user holds: their persisted roles, the permissions
+ * those roles grant and any granted directly
+ */
+export const getUserAccess = (user: Pick<IUser, 'walletAddress'> & Partial<Pick<IUser, 'roles' | 'permissions'>>): UserAccess => {
+  const roles = new Set<UserRole>(user.roles || []);
+  if (isBootstrapAdmin(user.walletAddress)) {
+    roles.add(UserRole.ADMIN);
+  }
+
+  const permissions = new Set<Permission>(user.permissions || []);
+  for (const role of roles) {
+    for (const permission of ROLE_PERMISSIONS[role] || []) {
+      permissions.add(permission);
+    }
+  }
+
+  return {
+    roles: [...roles],
+    permissions: [...permissions],
+  };
+};
\ No newline at end of file
@@ -1,23 +1,52 @@
 import { Response } from 'express';
-import { AuthenticatedRequest } from '@/types';
+import {
+  AuthenticatedRequest,
+  MetadataValidationBody,
+  NFTMetadata,
+  NFTRequestBody,
+  PromptSuggestionsBody,
+  RequestStatus,
+  UsageItem,
+} from '@/types';
 import { aiService } from '@/services/AIService';
 import { nftRequestService } from '@/services/NFTRequestService';
+import { imageProviderRegistry } from '@/services/ImageProviderService';
+import { usageService } from '@/services/UsageService';
+import { metadataService } from '@/services/MetadataService';
+import { getReferenceUploads } from '@/middleware/upload';
 import { logger } from '@/utils/logger';
 
 export class AIController {
   /**
-   * Generate NFT artwork using AI
+   * Queue AI artwork generation for a new NFT request
    */
   public async generateNFTArtwork(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      const { prompt, style, destinationChainId, recipient } = req.body;
+      const {
+        prompt, style, destinationChainId, recipient, attributes, provider, model, size, quality, variants,
+        referenceMode, referenceStrength, reuseCached, metadataProfile,
+      } = req.body as NFTRequestBody;
       const walletAddress = req.user!.walletAddress;
+      const uploads = getReferenceUploads(req);
+
+      // Optional generation parameters, already validated and normalized
+      const generationParams = {
+        ...(attributes ? { attributes } : {}),
+        ...(provider ? { provider } : {}),
+        ...(model ? { model } : {}),
+        ...(size ? { size } : {}),
+        ...(quality ? { quality } : {}),
+        ...(variants ? { variants } : {}),
+        ...(metadataProfile ? { metadataProfile } : {}),
+      };
 
       logger.info('AI artwork generation request', {
         walletAddress,
         prompt: prompt.substring(0, 50) + '...',
         style,
+        provider,
         destinationChainId,
+        referenceMode: uploads.referenceImage ? referenceMode || 'variation' : undefined,
       });
 
       // Create NFT request first
@@ -25,45 +54,33 @@ export class AIController {
         prompt,
         destinationChainId,
         recipient: recipient || walletAddress,
-      });
+        style: style || 'digital-art',
+        ...generationParams,
+        ...(referenceMode ? { referenceMode } : {}),
+        ...(referenceStrength !== undefined ? { referenceStrength } : {}),
+        ...(reuseCached !== undefined ? { reuseCached } : {}),
+      }, uploads);
 
       if (!requestResult.success || !requestResult.data) {
-        res.status(400).json({
+        res.status(requestResult.code === 'CONTENT_BLOCKED' ? 422 : 400).json({
           success: false,
           error: requestResult.error || 'Failed to create NFT request',
         });
         return;
       }
 
-      // Generate AI artwork
-      const aiResult = await aiService.generateNFTArtwork({
-        prompt,
-        style: style || 'digital-art',
-      });
-
-      if (!aiResult.success || !aiResult.data) {
-        res.status(500).json({
-          success: false,
-          error: aiResult.error || 'AI generation failed',
-        });
-        return;
-      }
-
-      // Return response in format expected by frontend
-      res.status(200).json({
+      // The generation queue makes the artwork; progress is followed through
+      // GET /requests/:requestId and the event stream
+      res.status(202).json({
         success: true,
         data: {
-          requestId: requestResult.data._id,
-          artwork: {
-            imageUrl: aiResult.data.imageUrl,
-            ipfsHash: aiResult.data.ipfsHash,
-            tokenURI: aiResult.data.tokenURI,
-            metadata: aiResult.data.metadata,
-            processingTime: aiResult.data.processingTime,
-          },
+          requestId: requestResult.data.requestId,
+          status: requestResult.data.status,
           request: requestResult.data,
         },
-        message: 'AI artwork generated successfully',
+        message: requestResult.data.status === RequestStatus.UNDER_REVIEW
+          ? 'Request is held for content review'
+          : 'Artwork generation queued',
       });
 
     } catch (error) {
@@ -84,7 +101,7 @@ export class AIController {
    */
   public async generatePromptSuggestions(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      const { userInput, style } = req.body;
+      const { userInput, style } = req.body as PromptSuggestionsBody;
 
       logger.info('Generating prompt suggestions', {
         userInput,
@@ -92,7 +109,9 @@ export class AIController {
         authenticated: !!req.user,
       });
 
-      const suggestions = await aiService.generatePromptSuggestions(userInput, style);
+      const usage: UsageItem[] = [];
+      const suggestions = await aiService.generatePromptSuggestions(userInput, style, usage);
+      await usageService.record(usage, { walletAddress: req.user?.walletAddress });
 
       if (!suggestions.success) {
         res.status(500).json({
@@ -159,7 +178,9 @@ export class AIController {
         return;
       }
 
-      const analysis = await aiService.analyzeArtPreferences(recentPrompts);
+      const usage: UsageItem[] = [];
+      const analysis = await aiService.analyzeArtPreferences(recentPrompts, usage);
+      await usageService.record(usage, { walletAddress });
 
       if (!analysis.success) {
         res.status(500).json({
@@ -192,6 +213,62 @@ export class AIController {
     }
   }
 
+  /**
+   * List the image generation providers configured on this server
+   */
+  public getImageProviders(_req: AuthenticatedRequest, res: Response): void {
+    try {
+      res.status(200).json({
+        success: true,
+        data: imageProviderRegistry.getAvailableProviders(),
+      });
+
+    } catch (error) {
+      logger.error('Failed to list image providers', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list image providers',
+      });
+    }
+  }
+
+  /**
+   * Validate NFT metadata against the schema and preview it in a marketplace profile
+   */
+  public validateMetadata(req: AuthenticatedRequest, res: Response): void {
+    try {
+      const { metadata, profile, tokenId } = req.body as MetadataValidationBody;
+      const validation = metadataService.validate(metadata);
+
+      if (!validation.isValid) {
+        res.status(422).json({
+          success: false,
+          error: 'Metadata validation failed',
+          details: validation.errors,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: metadataService.format(metadata as NFTMetadata, profile, tokenId),
+      });
+
+    } catch (error) {
+      logger.error('Metadata validation failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Metadata validation failed',
+      });
+    }
+  }
+
   /**
    * AI service health check
    */
@@ -199,11 +276,15 @@ export class AIController {
     try {
       const health = await aiService.healthCheck();
 
-      res.status(health.status === 'available' ? 200 : 503).json({
-        success: health.status === 'available',
+      const usable = health.status === 'available' || health.status === 'degraded';
+
+      res.status(usable ? 200 : 503).json({
+        success: usable,
         data: {
           status: health.status,
           model: health.model,
+          imageProvider: health.imageProvider,
+          ...(health.warnings ? { warnings: health.warnings } : {}),
           timestamp: new Date().toISOString(),
         },
         error: health.error,
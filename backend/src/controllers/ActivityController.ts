@@ -1,7 +1,9 @@
 import { Response } from 'express';
-import { AuthenticatedRequest, PaginationQuery } from '@/types';
+import { AuthenticatedRequest, NotificationType, PaginationQuery } from '@/types';
 import { nftRequestService } from '@/services/NFTRequestService';
-import { userService } from '@/services/UserService';
+import { notificationService, NotificationQuery } from '@/services/NotificationService';
+import { likeService } from '@/services/LikeService';
+import { getChainName } from '@/config/chains';
 import { logger } from '@/utils/logger';
 
 interface ActivityItem {
@@ -16,6 +18,9 @@ interface ActivityItem {
   buyer?: string;
   chain: string;
   hash: string | undefined;
+  requestId?: string;
+  likes?: number;
+  likedByMe?: boolean;
 }
 
 export class ActivityController {
@@ -56,6 +61,11 @@ export class ActivityController {
         return;
       }
 
+      const likedIds = await likeService.getLikedRequestIds(
+        req.user._id.toString(),
+        requestsResult.data.requests.map(request => request.requestId)
+      );
+
       // Transform requests into activity items
       const activities: ActivityItem[] = requestsResult.data.requests.map((request, index) => ({
         id: index + 1,
@@ -68,6 +78,9 @@ export class ActivityController {
         nft: request.metadata?.name || 'AI Generated Artwork',
         chain: this.getChainName(request.destinationChainId),
         hash: request.blockchainData?.transactionHash,
+        requestId: request.requestId,
+        likes: request.likeCount || 0,
+        likedByMe: likedIds.has(request.requestId),
       }));
 
       res.status(200).json({
@@ -166,48 +179,26 @@ export class ActivityController {
         return;
       }
 
-      // Get user stats to create personalized notifications
-      const userStats = await userService.getUserStats(req.user._id.toString());
-      
-      const notifications = [
-        {
-          id: 1,
-          type: 'success',
-          title: 'NFT Generation Complete',
-          message: 'Your AI-generated NFT "Cosmic Dragon" has been minted successfully!',
-          timestamp: new Date().toISOString(),
-          read: false,
-          actionUrl: '/dashboard/collection',
-        },
-        {
-          id: 2,
-          type: 'info',
-          title: 'Welcome to ChainWeave AI',
-          message: `You have created ${userStats.success ? userStats.data?.completedRequests || 0 : 0} NFTs so far. Start creating more amazing AI-powered NFTs with Google Gemini AI!`,
-          timestamp: new Date(Date.now() - 60000).toISOString(),
-          read: false,
-          actionUrl: '/ai/generate',
-        },
-      ];
+      const query: NotificationQuery = {
+        page: parseInt(req.query['page'] as string) || 1,
+        limit: parseInt(req.query['limit'] as string) || 20,
+        unreadOnly: req.query['unreadOnly'] === 'true',
+      };
+      if (req.query['type']) query.type = req.query['type'] as NotificationType;
 
-      if (userStats.success && userStats.data && userStats.data.completedRequests >= 5) {
-        notifications.push({
-          id: 3,
-          type: 'achievement',
-          title: 'NFT Creator Badge Unlocked!',
-          message: `Congratulations! You've created ${userStats.data.completedRequests} AI NFTs. You're becoming a true digital artist!`,
-          timestamp: new Date(Date.now() - 120000).toISOString(),
-          read: false,
-          actionUrl: '/dashboard/achievements',
+      const result = await notificationService.getNotifications(req.user._id.toString(), query);
+
+      if (!result.success || !result.data) {
+        res.status(500).json({
+          success: false,
+          error: result.error || 'Failed to retrieve notifications',
         });
+        return;
       }
 
       res.status(200).json({
         success: true,
-        data: {
-          notifications,
-          unreadCount: notifications.filter(n => !n.read).length,
-        },
+        data: result.data,
         message: 'Notifications retrieved successfully',
       });
 
@@ -239,7 +230,17 @@ export class ActivityController {
 
       const { notificationId } = req.params;
 
-      // For now, just return success - would implement notification system
+      const result = await notificationService.markAsRead(req.user._id.toString(), notificationId!);
+
+      if (!result.success) {
+        const status = result.code === 'NOT_FOUND' ? 404 : result.code === 'INVALID_ID' ? 400 : 500;
+        res.status(status).json({
+          success: false,
+          error: result.error || 'Failed to mark notification as read',
+        });
+        return;
+      }
+
       logger.info('Notification marked as read', {
         userId: req.user._id,
         notificationId,
@@ -247,6 +248,7 @@ export class ActivityController {
 
       res.status(200).json({
         success: true,
+        data: result.data,
         message: 'Notification marked as read',
       });
 
@@ -263,6 +265,48 @@ export class ActivityController {
     }
   }
 
+  /**
+   * Mark all notifications as read
+   */
+  public async markAllNotificationsRead(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+        return;
+      }
+
+      const result = await notificationService.markAllAsRead(req.user._id.toString());
+
+      if (!result.success) {
+        res.status(500).json({
+          success: false,
+          error: result.error || 'Failed to mark notifications as read',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: result.data,
+        message: 'All notifications marked as read',
+      });
+
+    } catch (error) {
+      logger.error('Error marking all notifications as read', {
+        userId: req.user?._id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to mark notifications as read',
+      });
+    }
+  }
+
   /**
    * Helper methods
    */
@@ -298,17 +342,6 @@ export class ActivityController {
   }
 
   private getChainName(chainId: number): string {
-    const chainMap: { [key: number]: string } = {
-      1: 'Ethereum',
-      137: 'Polygon', 
-      56: 'BSC',
-      7000: 'ZetaChain',
-      7001: 'ZetaChain Testnet',
-      11155111: 'Ethereum Sepolia',
-      80002: 'Polygon Amoy',
-      97: 'BSC Testnet',
-      84532: 'Base Sepolia',
-    };
-    return chainMap[chainId] || `Chain ${chainId}`;
+    return getChainName(chainId);
   }
 }
\ No newline at end of file
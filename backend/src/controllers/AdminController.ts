@@ -0,0 +1,286 @@
+import { Response } from 'express';
+import { getUserAccess, ROLE_PERMISSIONS } from '@/config/roles';
+import { adminService, AdminRequestFilters, AdminUserFilters, StaffActor } from '@/services/AdminService';
+import { auditService, AuditLogFilters } from '@/services/AuditService';
+import {
+  AdminActionBody,
+  AuthenticatedRequest,
+  ApiResponse,
+  AuditAction,
+  AuditTargetType,
+  Permission,
+  RequestStatus,
+  ServiceResponse,
+  UserAccessBody,
+  UserRole,
+} from '@/types';
+import { logger } from '@/utils/logger';
+
+export class AdminController {
+  /**
+   * Roles, the permissions each grants, and the caller's own access
+   */
+  public getRoles(req: AuthenticatedRequest, res: Response): void {
+    res.status(200).json({
+      success: true,
+      data: {
+        roles: ROLE_PERMISSIONS,
+        permissions: Object.values(Permission),
+        access: getUserAccess(req.user!),
+      },
+    } as ApiResponse);
+  }
+
+  /**
+   * Users, including deactivated ones
+   */
+  public async listUsers(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const page = parseInt(req.query['page'] as string) || 1;
+      const limit = parseInt(req.query['limit'] as string) || 20;
+
+      const filters: AdminUserFilters = {
+        ...(req.query['query'] ? { query: req.query['query'] as string } : {}),
+        ...(req.query['role'] ? { role: req.query['role'] as UserRole } : {}),
+        ...(req.query['isActive'] !== undefined ? { isActive: req.query['isActive'] === 'true' } : {}),
+      };
+
+      const result = await adminService.listUsers(filters, { page, limit });
+      this.sendResult(res, result);
+
+    } catch (error) {
+      this.handleError(res, 'listUsers', error);
+    }
+  }
+
+  /**
+   * One user with their access and request counts
+   */
+  public async getUser(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const result = await adminService.getUser(req.params['walletAddress']!);
+      this.sendResult(res, result);
+
+    } catch (error) {
+      this.handleError(res, 'getUser', error);
+    }
+  }
+
+  /**
+   * Deactivate a user and end their sessions
+   */
+  public async deactivateUser(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.setUserActive(req, res, false);
+  }
+
+  /**
+   * Reactivate a deactivated user
+   */
+  public async reactivateUser(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.setUserActive(req, res, true);
+  }
+
+  /**
+   * Replace a user's roles and directly granted permissions
+   */
+  public async updateUserAccess(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { roles, permissions, reason } = req.body as UserAccessBody;
+
+      const result = await adminService.updateUserAccess(
+        this.getActor(req),
+        req.params['walletAddress']!,
+        {
+          ...(roles ? { roles } : {}),
+          ...(permissions ? { permissions } : {}),
+        },
+        reason
+      );
+      this.sendResult(res, result, 'Access updated');
+
+    } catch (error) {
+      this.handleError(res, 'updateUserAccess', error);
+    }
+  }
+
+  /**
+   * Requests across every wallet
+   */
+  public async listRequests(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const page = parseInt(req.query['page'] as string) || 1;
+      const limit = parseInt(req.query['limit'] as string) || 20;
+
+      const filters: AdminRequestFilters = {
+        ...(req.query['status'] ? { status: req.query['status'] as RequestStatus } : {}),
+        ...(req.query['walletAddress'] ? { walletAddress: req.query['walletAddress'] as string } : {}),
+        ...(req.query['from'] ? { from: new Date(req.query['from'] as string) } : {}),
+        ...(req.query['to'] ? { to: new Date(req.query['to'] as string) } : {}),
+      };
+
+      const result = await adminService.listRequests(filters, { page, limit });
+      this.sendResult(res, result);
+
+    } catch (error) {
+      this.handleError(res, 'listRequests', error);
+    }
+  }
+
+  /**
+   * Put a failed or stalled request back on the generation queue
+   */
+  public async retryRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const result = await adminService.retryRequest(
+        this.getActor(req),
+        req.params['requestId']!,
+        (req.body as AdminActionBody).reason
+      );
+      this.sendResult(res, result, 'Request queued for retry');
+
+    } catch (error) {
+      this.handleError(res, 'retryRequest', error);
+    }
+  }
+
+  /**
+   * Fail a request that has not finished
+   */
+  public async failRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const result = await adminService.failRequest(
+        this.getActor(req),
+        req.params['requestId']!,
+        // The route requires a reason for failing a request
+        (req.body as Required<AdminActionBody>).reason
+      );
+      this.sendResult(res, result, 'Request failed');
+
+    } catch (error) {
+      this.handleError(res, 'failRequest', error);
+    }
+  }
+
+  /**
+   * Feature a collection
+   */
+  public async featureCollection(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.setCollectionFeatured(req, res, true);
+  }
+
+  /**
+   * Take a collection off the featured list
+   */
+  public async unfeatureCollection(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.setCollectionFeatured(req, res, false);
+  }
+
+  /**
+   * Audit log of staff actions
+   */
+  public async getAuditLogs(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const page = parseInt(req.query['page'] as string) || 1;
+      const limit = parseInt(req.query['limit'] as string) || 20;
+
+      const filters: AuditLogFilters = {
+        ...(req.query['actorWallet'] ? { actorWallet: req.query['actorWallet'] as string } : {}),
+        ...(req.query['action'] ? { action: req.query['action'] as AuditAction } : {}),
+        ...(req.query['targetType'] ? { targetType: req.query['targetType'] as AuditTargetType } : {}),
+        ...(req.query['targetId'] ? { targetId: req.query['targetId'] as string } : {}),
+        ...(req.query['from'] ? { from: new Date(req.query['from'] as string) } : {}),
+        ...(req.query['to'] ? { to: new Date(req.query['to'] as string) } : {}),
+      };
+
+      const result = await auditService.getLogs(filters, { page, limit });
+      this.sendResult(res, result);
+
+    } catch (error) {
+      this.handleError(res, 'getAuditLogs', error);
+    }
+  }
+
+  private async setUserActive(req: AuthenticatedRequest, res: Response, active: boolean): Promise<void> {
+    try {
+      const result = await adminService.setUserActive(
+        this.getActor(req),
+        req.params['walletAddress']!,
+        active,
+        (req.body as AdminActionBody).reason
+      );
+      this.sendResult(res, result, active ? 'User reactivated' : 'User deactivated');
+
+    } catch (error) {
+      this.handleError(res, active ? 'reactivateUser' : 'deactivateUser', error);
+    }
+  }
+
+  private async setCollectionFeatured(req: AuthenticatedRequest, res: Response, featured: boolean): Promise<void> {
+    try {
+      const result = await adminService.setCollectionFeatured(
+        this.getActor(req),
+        req.params['collectionId']!,
+        featured,
+        (req.body as AdminActionBody).reason
+      );
+      this.sendResult(res, result, featured ? 'Collection featured' : 'Collection removed from featured');
+
+    } catch (error) {
+      this.handleError(res, featured ? 'featureCollection' : 'unfeatureCollection', error);
+    }
+  }
+
+  // Routes are behind a role or permission guard, so the user is always set
+  private getActor(req: AuthenticatedRequest): StaffActor {
+    return {
+      walletAddress: req.user!.walletAddress,
+      ip: req.ip,
+      access: getUserAccess(req.user!),
+    };
+  }
+
+  private sendResult<T>(res: Response, result: ServiceResponse<T>, message?: string): void {
+    if (!result.success) {
+      res.status(this.getStatusCodeForError(result.code)).json({
+        success: false,
+        error: result.error,
+      } as ApiResponse);
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: result.data,
+      ...(message ? { message } : {}),
+    } as ApiResponse<T>);
+  }
+
+  private handleError(res: Response, handler: string, error: unknown): void {
+    logger.error(`Error in ${handler} controller`, {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    } as ApiResponse);
+  }
+
+  private getStatusCodeForError(code?: string): number {
+    switch (code) {
+      case 'NOT_FOUND':
+        return 404;
+      case 'FORBIDDEN':
+        return 403;
+      case 'SELF_ACTION':
+      case 'INVALID_STATUS':
+      case 'JOB_RUNNING':
+        return 409;
+      default:
+        return 500;
+    }
+  }
+}
+
+// Export singleton instance
+export const adminController = new AdminController();
\ No newline at end of file
@@ -1,15 +1,18 @@
 import { Request, Response } from 'express';
+import { hasPermission } from '@/middleware/auth';
 import { analyticsService } from '@/services/AnalyticsService';
-import { AuthenticatedRequest, ApiResponse } from '@/types';
+import { AuthenticatedRequest, ApiResponse, Permission } from '@/types';
 import { logger } from '@/utils/logger';
 
 export class AnalyticsController {
   /**
    * Get dashboard data
    */
-  public async getDashboardData(_req: Request, res: Response): Promise<void> {
+  public async getDashboardData(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      const result = await analyticsService.getDashboardData();
+      // Provider spend is only shown to staff who can read usage
+      const includeCosts = hasPermission(req, Permission.USAGE_READ);
+      const result = await analyticsService.getDashboardData({ includeCosts });
 
       if (!result.success) {
         res.status(400).json({
@@ -19,6 +22,10 @@ export class AnalyticsController {
         return;
       }
 
+      if (includeCosts) {
+        res.set('Cache-Control', 'private, no-store');
+      }
+
       res.status(200).json({
         success: true,
         data: result.data,
@@ -1,9 +1,13 @@
 import { Request, Response } from 'express';
-import { ethers } from 'ethers';
-import { AuthenticatedRequest } from '@/types';
+import { AuthenticatedRequest, ChallengeBody, ConnectWalletBody, RefreshTokenBody, SessionRevocationReason } from '@/types';
 import { userService } from '@/services/UserService';
-import { generateToken } from '@/middleware/auth';
+import { authChallengeService } from '@/services/AuthChallengeService';
+import { signatureVerificationService } from '@/services/SignatureVerificationService';
+import { sessionService } from '@/services/SessionService';
 import { logger } from '@/utils/logger';
+import { parseSiweMessage, validateSiweMessage } from '@/utils/siwe';
+import { config } from '@/config/env';
+import { CHAIN_NAMES } from '@/config/chains';
 
 export class AuthController {
   /**
@@ -11,7 +15,10 @@ export class AuthController {
    */
   public async getChallenge(req: Request, res: Response): Promise<void> {
     try {
-      const { walletAddress } = req.body;
+      const { walletAddress, chainId: requestedChainId } = req.body as ChallengeBody;
+      const chainId = requestedChainId !== undefined
+        ? Number(requestedChainId)
+        : Number(config.blockchain.zetachain.chainId);
 
       if (!walletAddress || !/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
         res.status(400).json({
@@ -21,20 +28,36 @@ export class AuthController {
         return;
       }
 
-      // Generate unique challenge message
-      const nonce = Math.random().toString(36).substring(2, 15);
-      const timestamp = Date.now();
-      const challenge = `Welcome to ChainWeave AI!\n\nSign this message to authenticate your wallet.\n\nWallet: ${walletAddress}\nNonce: ${nonce}\nTimestamp: ${timestamp}`;
+      if (!this.getSignInChainIds().includes(chainId)) {
+        res.status(400).json({
+          success: false,
+          error: `Chain ${chainId} is not supported for sign-in`,
+        });
+        return;
+      }
+
+      // Issue a single-use SIWE challenge that expires after the configured TTL
+      const result = await authChallengeService.issueChallenge(
+        walletAddress,
+        chainId,
+        this.resolveSignInDomain(req)
+      );
+
+      if (!result.success || !result.data) {
+        res.status(500).json({
+          success: false,
+          error: result.error || 'Failed to generate challenge',
+        });
+        return;
+      }
 
-      // Store challenge temporarily (in production, use Redis)
-      // For now, we'll include it in the response for frontend to sign
-      
       res.status(200).json({
         success: true,
         data: {
-          challenge,
-          nonce,
-          timestamp,
+          challenge: result.data.message,
+          nonce: result.data.nonce,
+          timestamp: result.data.issuedAt.getTime(),
+          expiresAt: result.data.expiresAt.toISOString(),
         },
         message: 'Authentication challenge generated',
       });
@@ -56,7 +79,7 @@ export class AuthController {
    */
   public async connectWallet(req: Request, res: Response): Promise<void> {
     try {
-      const { walletAddress, signature, challenge, username, email } = req.body;
+      const { walletAddress, signature, challenge, username, email } = req.body as ConnectWalletBody;
 
       logger.info('Wallet connection request with signature', {
         walletAddress,
@@ -65,21 +88,37 @@ export class AuthController {
         hasSignature: !!signature,
       });
 
-      // Verify signature if provided (production mode)
-      if (signature && challenge) {
-        const isValidSignature = await this.verifyWalletSignature(
-          walletAddress,
-          challenge,
-          signature
-        );
-
-        if (!isValidSignature) {
-          res.status(401).json({
-            success: false,
-            error: 'Invalid wallet signature',
-          });
-          return;
-        }
+      if (!signature || !challenge) {
+        res.status(401).json({
+          success: false,
+          error: 'Signed challenge is required',
+        });
+        return;
+      }
+
+      // Consume the issued challenge first so it can never be used twice
+      const challengeResult = await authChallengeService.consumeChallenge(walletAddress, challenge);
+
+      if (!challengeResult.success) {
+        res.status(401).json({
+          success: false,
+          error: challengeResult.error,
+        });
+        return;
+      }
+
+      const verification = await this.verifyWalletSignature(
+        walletAddress,
+        challenge,
+        signature
+      );
+
+      if (!verification.isValid) {
+        res.status(401).json({
+          success: false,
+          error: verification.error || 'Invalid wallet signature',
+        });
+        return;
       }
 
       // Create or get user
@@ -110,12 +149,27 @@ export class AuthController {
         }
       }
 
-      // Generate JWT token
-      const token = generateToken(walletAddress, user._id.toString());
+      // Start a new session with an access/refresh token pair
+      const sessionResult = await sessionService.createSession(
+        user._id.toString(),
+        walletAddress,
+        this.getSessionContext(req)
+      );
+
+      if (!sessionResult.success || !sessionResult.data) {
+        res.status(500).json({
+          success: false,
+          error: sessionResult.error || 'Failed to create session',
+        });
+        return;
+      }
+
+      const tokens = sessionResult.data;
 
       logger.info('Wallet connected successfully', {
         walletAddress,
         userId: user._id,
+        sessionId: tokens.sessionId,
       });
 
       res.status(200).json({
@@ -131,8 +185,11 @@ export class AuthController {
             createdAt: user.createdAt,
             lastActivity: user.updatedAt,
           },
-          token,
-          expiresIn: '7d',
+          token: tokens.accessToken,
+          expiresAt: tokens.accessTokenExpiresAt.toISOString(),
+          refreshToken: tokens.refreshToken,
+          refreshTokenExpiresAt: tokens.refreshTokenExpiresAt.toISOString(),
+          sessionId: tokens.sessionId,
         },
         message: 'Wallet connected successfully',
       });
@@ -197,122 +254,342 @@ export class AuthController {
   }
 
   /**
-   * Refresh authentication token
+   * Rotate a refresh token into a new access/refresh token pair
    */
-  public async refreshToken(req: AuthenticatedRequest, res: Response): Promise<void> {
+  public async refreshToken(req: Request, res: Response): Promise<void> {
     try {
-      const authHeader = req.header('Authorization');
-      const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
+      const { refreshToken } = req.body as RefreshTokenBody;
+
+      const result = await sessionService.rotateRefreshToken(refreshToken, this.getSessionContext(req));
 
-      if (!token) {
+      if (!result.success || !result.data) {
+        res.status(result.code ? 401 : 500).json({
+          success: false,
+          error: result.error || 'Token refresh failed',
+          code: result.code,
+        });
+        return;
+      }
+
+      logger.info('Token refreshed successfully', {
+        sessionId: result.data.sessionId,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          token: result.data.accessToken,
+          expiresAt: result.data.accessTokenExpiresAt.toISOString(),
+          refreshToken: result.data.refreshToken,
+          refreshTokenExpiresAt: result.data.refreshTokenExpiresAt.toISOString(),
+          sessionId: result.data.sessionId,
+        },
+        message: 'Token refreshed successfully',
+      });
+
+    } catch (error) {
+      logger.error('Token refresh failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Token refresh failed',
+      });
+    }
+  }
+
+  /**
+   * Logout: revoke the current session and its access token
+   */
+  public async logout(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user || !req.sessionId) {
         res.status(401).json({
           success: false,
-          error: 'No token provided for refresh',
+          error: 'Authentication required',
         });
         return;
       }
 
-      // If user is already authenticated via middleware, generate new token
-      if (req.user) {
-        const newToken = generateToken(req.user.walletAddress, req.user._id.toString());
+      const result = await sessionService.revokeSession(
+        req.user._id.toString(),
+        req.sessionId,
+        SessionRevocationReason.LOGOUT
+      );
 
-        logger.info('Token refreshed successfully', {
-          walletAddress: req.user.walletAddress,
-          userId: req.user._id,
+      // The session may already be gone; the presented token must still stop working
+      if (req.tokenId && req.tokenExpiresAt) {
+        await sessionService.revokeAccessToken(req.tokenId, req.tokenExpiresAt);
+      }
+
+      if (!result.success && result.code !== 'SESSION_NOT_FOUND') {
+        res.status(500).json({
+          success: false,
+          error: result.error || 'Logout failed',
         });
+        return;
+      }
 
-        res.status(200).json({
-          success: true,
-          data: {
-            token: newToken,
-            expiresIn: '7d',
-          },
-          message: 'Token refreshed successfully',
+      logger.info('User logout', {
+        walletAddress: req.user.walletAddress,
+        userId: req.user._id,
+        sessionId: req.sessionId,
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Logged out successfully',
+      });
+
+    } catch (error) {
+      logger.error('Logout failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Logout failed',
+      });
+    }
+  }
+
+  /**
+   * List the authenticated user's active sessions
+   */
+  public async getSessions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
         });
         return;
       }
 
-      res.status(401).json({
+      const result = await sessionService.listSessions(req.user._id.toString(), req.sessionId);
+
+      if (!result.success) {
+        res.status(500).json({
+          success: false,
+          error: result.error || 'Failed to retrieve sessions',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          sessions: result.data,
+        },
+        message: 'Sessions retrieved successfully',
+      });
+
+    } catch (error) {
+      logger.error('Get sessions failed', {
+        userId: req.user?._id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      res.status(500).json({
         success: false,
-        error: 'Invalid token for refresh',
+        error: 'Failed to retrieve sessions',
+      });
+    }
+  }
+
+  /**
+   * Revoke one of the authenticated user's sessions
+   */
+  public async revokeSession(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const { sessionId } = req.params;
+
+      const result = await sessionService.revokeSession(req.user._id.toString(), sessionId!);
+
+      if (!result.success) {
+        res.status(result.code === 'SESSION_NOT_FOUND' ? 404 : 500).json({
+          success: false,
+          error: result.error || 'Failed to revoke session',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Session revoked successfully',
       });
 
     } catch (error) {
-      logger.error('Token refresh failed', {
+      logger.error('Revoke session failed', {
+        userId: req.user?._id,
+        sessionId: req.params['sessionId'],
         error: error instanceof Error ? error.message : 'Unknown error',
       });
 
       res.status(500).json({
         success: false,
-        error: 'Token refresh failed',
+        error: 'Failed to revoke session',
       });
     }
   }
 
   /**
-   * Logout (mainly for cleanup)
+   * Revoke every session of the authenticated user except the current one
    */
-  public async logout(req: AuthenticatedRequest, res: Response): Promise<void> {
+  public async revokeOtherSessions(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      if (req.user) {
-        logger.info('User logout', {
-          walletAddress: req.user.walletAddress,
-          userId: req.user._id,
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
         });
+        return;
+      }
+
+      const result = await sessionService.revokeAllSessions(req.user._id.toString(), req.sessionId);
+
+      if (!result.success) {
+        res.status(500).json({
+          success: false,
+          error: result.error || 'Failed to revoke sessions',
+        });
+        return;
       }
 
       res.status(200).json({
         success: true,
-        message: 'Logged out successfully',
+        data: result.data,
+        message: 'Other sessions revoked successfully',
       });
 
     } catch (error) {
-      logger.error('Logout failed', {
+      logger.error('Revoke sessions failed', {
+        userId: req.user?._id,
         error: error instanceof Error ? error.message : 'Unknown error',
       });
 
       res.status(500).json({
         success: false,
-        error: 'Logout failed',
+        error: 'Failed to revoke sessions',
       });
     }
   }
 
   /**
-   * Verify wallet signature (following hello project patterns)
+   * Verify a signed SIWE (EIP-4361) message: every field is checked against
+   * this server's domain, URI and supported chains before the signer is recovered
    */
   private async verifyWalletSignature(
     walletAddress: string,
     message: string,
     signature: string
-  ): Promise<boolean> {
+  ): Promise<{ isValid: boolean; error?: string }> {
     try {
-      // Verify signature using ethers
-      const signerAddress = ethers.verifyMessage(message, signature);
-      
-      // Check if recovered address matches provided wallet address
-      const isValid = signerAddress.toLowerCase() === walletAddress.toLowerCase();
-      
-      if (isValid) {
+      const fields = parseSiweMessage(message);
+      if (!fields) {
+        return { isValid: false, error: 'Malformed Sign-In with Ethereum message' };
+      }
+
+      const validation = validateSiweMessage(fields, {
+        domains: [...config.auth.siwe.domains],
+        uri: config.auth.siwe.uri,
+        chainIds: this.getSignInChainIds(),
+        address: walletAddress,
+      });
+
+      if (!validation.isValid) {
+        logger.warn('SIWE message validation failed', {
+          walletAddress,
+          error: validation.error,
+        });
+        return validation;
+      }
+
+      // ECDSA recovery for EOAs, EIP-1271 / ERC-6492 for contract wallets
+      const result = await signatureVerificationService.verifyMessage(
+        walletAddress,
+        message,
+        signature,
+        fields.chainId
+      );
+
+      if (result.isValid) {
         logger.info('Wallet signature verified successfully', {
           walletAddress,
-          signerAddress,
+          signatureType: result.type,
+          chainId: fields.chainId,
         });
       } else {
         logger.warn('Wallet signature verification failed', {
           walletAddress,
-          signerAddress,
+          chainId: fields.chainId,
+          error: result.error,
         });
       }
 
-      return isValid;
+      return result.isValid
+        ? { isValid: true }
+        : { isValid: false, error: result.error || 'Invalid wallet signature' };
 
     } catch (error) {
       logger.error('Signature verification error', {
         walletAddress,
         error: error instanceof Error ? error.message : 'Unknown error',
       });
-      return false;
+      return { isValid: false, error: 'Invalid wallet signature' };
+    }
+  }
+
+  /**
+   * Device and network details recorded with a session
+   */
+  private getSessionContext(req: Request): { userAgent?: string; ipAddress?: string } {
+    const context: { userAgent?: string; ipAddress?: string } = {};
+    const userAgent = req.get('User-Agent');
+
+    if (userAgent) context.userAgent = userAgent;
+    if (req.ip) context.ipAddress = req.ip;
+
+    return context;
+  }
+
+  /**
+   * Chains a SIWE message may be bound to: ZetaChain and the supported destination chains
+   */
+  private getSignInChainIds(): number[] {
+    const chainIds = Object.keys(CHAIN_NAMES).map(Number);
+    const zetachainId = Number(config.blockchain.zetachain.chainId);
+
+    return chainIds.includes(zetachainId) ? chainIds : [...chainIds, zetachainId];
+  }
+
+  /**
+   * Bind the challenge to the requesting origin when it is an allowed domain
+   */
+  private resolveSignInDomain(req: Request): string {
+    const domains: readonly string[] = config.auth.siwe.domains;
+    const origin = req.get('Origin');
+
+    if (origin) {
+      try {
+        const host = new URL(origin).host;
+        if (domains.includes(host)) {
+          return host;
+        }
+      } catch {
+        // Fall through to the default domain
+      }
     }
+
+    return domains[0] || 'localhost:3000';
   }
 }
\ No newline at end of file
@@ -361,6 +361,59 @@ export class CollectionController {
     }
   }
 
+  /**
+   * Freeze collection metadata into one IPFS directory
+   */
+  public async freezeMetadata(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        } as ApiResponse);
+        return;
+      }
+
+      const { collectionId } = req.params;
+
+      const result = await collectionService.freezeMetadata(collectionId!, req.user.walletAddress);
+
+      if (!result.success) {
+        const statusCode = result.error?.includes('not found') ? 404 :
+                          result.error?.includes('Unauthorized') ? 403 :
+                          result.error?.includes('already frozen') ? 409 :
+                          result.code === 'INVALID_METADATA' || result.code === 'DUPLICATE_TOKEN_ID' ? 422 :
+                          result.code === 'COLLECTION_TOO_LARGE' ? 413 :
+                          result.error?.includes('Invalid') ? 400 :
+                          result.error?.includes('no minted tokens') ? 400 : 502;
+        res.status(statusCode).json({
+          success: false,
+          error: result.error,
+          ...(result.details ? { details: result.details } : {}),
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: result.data,
+        message: 'Collection metadata frozen successfully',
+      } as ApiResponse);
+
+    } catch (error) {
+      logger.error('Error in freezeMetadata controller', {
+        collectionId: req.params['collectionId'],
+        userId: req.user?._id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      } as ApiResponse);
+    }
+  }
+
   /**
    * Get collection statistics
    */
@@ -0,0 +1,45 @@
+import { Request, Response } from 'express';
+import { healthService } from '@/services/HealthService';
+import { ApiResponse } from '@/types';
+import { logger } from '@/utils/logger';
+
+export class HealthController {
+  /**
+   * Liveness probe: answers as long as the process is running
+   */
+  public getLiveness(_req: Request, res: Response): void {
+    res.status(200).json({
+      success: true,
+      message: 'ChainWeave AI Backend is healthy',
+      ...healthService.getLiveness(),
+    });
+  }
+
+  /**
+   * Readiness probe: 503 while a critical dependency is down. Degraded
+   * dependencies are reported but still count as ready.
+   */
+  public async getReadiness(_req: Request, res: Response): Promise<void> {
+    try {
+      const health = await healthService.getReadiness();
+
+      res.status(health.status === 'unhealthy' ? 503 : 200).json({
+        success: health.status !== 'unhealthy',
+        data: health,
+      } as ApiResponse);
+
+    } catch (error) {
+      logger.error('Readiness check failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      res.status(503).json({
+        success: false,
+        error: 'Health check failed',
+      } as ApiResponse);
+    }
+  }
+}
+
+// Export singleton instance
+export const healthController = new HealthController();
\ No newline at end of file
@@ -0,0 +1,252 @@
+import { Response } from 'express';
+import { moderationService, ModerationDecisionFilters } from '@/services/ModerationService';
+import { nftRequestService } from '@/services/NFTRequestService';
+import { AuthenticatedRequest, ApiResponse, ModerationAction, ModerationReviewBody, ModerationSubject } from '@/types';
+import { logger } from '@/utils/logger';
+
+export class ModerationController {
+  /**
+   * Rule set and classifiers currently in use
+   */
+  public getRules(_req: AuthenticatedRequest, res: Response): void {
+    try {
+      res.status(200).json({
+        success: true,
+        data: {
+          classifiers: moderationService.getActiveClassifiers().map(classifier => classifier.name),
+          rules: moderationService.getRules(),
+        },
+      } as ApiResponse);
+
+    } catch (error) {
+      logger.error('Error in getRules controller', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Decisions waiting for an admin
+   */
+  public async getReviewQueue(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const page = parseInt(req.query['page'] as string) || 1;
+      const limit = parseInt(req.query['limit'] as string) || 20;
+
+      const result = await moderationService.getReviewQueue({ page, limit });
+
+      if (!result.success) {
+        res.status(500).json({
+          success: false,
+          error: result.error,
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: result.data,
+      } as ApiResponse);
+
+    } catch (error) {
+      logger.error('Error in getReviewQueue controller', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Audit log of moderation decisions
+   */
+  public async getDecisions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const page = parseInt(req.query['page'] as string) || 1;
+      const limit = parseInt(req.query['limit'] as string) || 20;
+
+      const filters: ModerationDecisionFilters = {
+        ...(req.query['requestId'] ? { requestId: req.query['requestId'] as string } : {}),
+        ...(req.query['walletAddress'] ? { walletAddress: req.query['walletAddress'] as string } : {}),
+        ...(req.query['subject'] ? { subject: req.query['subject'] as ModerationSubject } : {}),
+        ...(req.query['action'] ? { action: req.query['action'] as ModerationAction } : {}),
+      };
+
+      const result = await moderationService.getDecisions(filters, { page, limit });
+
+      if (!result.success) {
+        res.status(500).json({
+          success: false,
+          error: result.error,
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: result.data,
+      } as ApiResponse);
+
+    } catch (error) {
+      logger.error('Error in getDecisions controller', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Get a single decision
+   */
+  public async getDecision(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { decisionId } = req.params;
+      const result = await moderationService.getDecision(decisionId!);
+
+      if (!result.success) {
+        res.status(this.getStatusCodeForError(result.code)).json({
+          success: false,
+          error: result.error,
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: result.data,
+      } as ApiResponse);
+
+    } catch (error) {
+      logger.error('Error in getDecision controller', {
+        decisionId: req.params['decisionId'],
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Image held for review
+   */
+  public async getDecisionImage(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { decisionId } = req.params;
+      const result = await moderationService.getDecisionImage(decisionId!);
+
+      if (!result.success || !result.data) {
+        res.status(this.getStatusCodeForError(result.code)).json({
+          success: false,
+          error: result.error,
+        } as ApiResponse);
+        return;
+      }
+
+      res.set('Content-Type', result.data.contentType);
+      res.set('Cache-Control', 'private, no-store');
+      res.status(200).send(result.data.data);
+
+    } catch (error) {
+      logger.error('Error in getDecisionImage controller', {
+        decisionId: req.params['decisionId'],
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Approve flagged content and let the request continue
+   */
+  public async approveDecision(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.reviewDecision(req, res, true);
+  }
+
+  /**
+   * Reject flagged content and end the request
+   */
+  public async rejectDecision(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.reviewDecision(req, res, false);
+  }
+
+  private async reviewDecision(req: AuthenticatedRequest, res: Response, approved: boolean): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        } as ApiResponse);
+        return;
+      }
+
+      const { decisionId } = req.params;
+      const { note } = req.body as ModerationReviewBody;
+
+      const result = await nftRequestService.resolveModerationReview(
+        decisionId!,
+        req.user.walletAddress,
+        approved,
+        note
+      );
+
+      if (!result.success) {
+        res.status(this.getStatusCodeForError(result.code)).json({
+          success: false,
+          error: result.error,
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: result.data,
+        message: approved ? 'Content approved' : 'Content rejected',
+      } as ApiResponse);
+
+    } catch (error) {
+      logger.error('Error in reviewDecision controller', {
+        decisionId: req.params['decisionId'],
+        approved,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      } as ApiResponse);
+    }
+  }
+
+  private getStatusCodeForError(code?: string): number {
+    switch (code) {
+      case 'NOT_FOUND':
+        return 404;
+      case 'INVALID_STATUS':
+        return 409;
+      default:
+        return 500;
+    }
+  }
+}
+
+// Export singleton instance
+export const moderationController = new ModerationController();
\ No newline at end of file
@@ -1,7 +1,10 @@
 import { Request, Response } from 'express';
 import { nftRequestService } from '@/services/NFTRequestService';
-import { AuthenticatedRequest, ApiResponse, NFTRequestBody, PaginationQuery } from '@/types';
+import { likeService } from '@/services/LikeService';
+import { AuthenticatedRequest, ApiResponse, NFTRequestBody, PaginationQuery, ToggleLikeBody, VariantSelectionBody } from '@/types';
 import { RequestStatus } from '@/types';
+import { getChainName } from '@/config/chains';
+import { getReferenceUploads } from '@/middleware/upload';
 import { logger } from '@/utils/logger';
 import { validationResult } from 'express-validator';
 
@@ -10,18 +13,7 @@ export class NFTRequestController {
    * Get chain name from chain ID
    */
   private getChainName(chainId: number): string {
-    const chainMap: { [key: number]: string } = {
-      1: 'Ethereum',
-      137: 'Polygon', 
-      56: 'BSC',
-      7000: 'ZetaChain',
-      7001: 'ZetaChain Testnet',
-      11155111: 'Ethereum Sepolia',
-      80002: 'Polygon Amoy',
-      97: 'BSC Testnet',
-      84532: 'Base Sepolia',
-    };
-    return chainMap[chainId] || `Chain ${chainId}`;
+    return getChainName(chainId);
   }
   /**
    * Create a new NFT request
@@ -48,10 +40,15 @@ export class NFTRequestController {
       }
 
       const requestData: NFTRequestBody = req.body;
-      const result = await nftRequestService.createRequest(req.user.walletAddress, requestData);
+      const result = await nftRequestService.createRequest(
+        req.user.walletAddress,
+        requestData,
+        getReferenceUploads(req)
+      );
 
       if (!result.success) {
-        const statusCode = result.error?.includes('not supported') ? 400 : 
+        const statusCode = result.code === 'CONTENT_BLOCKED' ? 422 :
+                          result.error?.includes('not supported') ? 400 : 
                           result.error?.includes('not found') ? 404 : 400;
         res.status(statusCode).json({
           success: false,
@@ -85,7 +82,9 @@ export class NFTRequestController {
           ipfsHash: nftData.aiGenerationData?.ipfsHash,
           metadata: nftData.metadata,
         },
-        message: 'NFT request created successfully',
+        message: nftData.status === RequestStatus.UNDER_REVIEW
+          ? 'NFT request created and held for content review'
+          : 'NFT request created successfully',
       } as ApiResponse);
 
     } catch (error) {
@@ -192,7 +191,7 @@ export class NFTRequestController {
   /**
    * Get requests by wallet address (public)
    */
-  public async getRequestsByWallet(req: Request, res: Response): Promise<void> {
+  public async getRequestsByWallet(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const { walletAddress } = req.params;
 
@@ -205,7 +204,7 @@ export class NFTRequestController {
 
       const result = await nftRequestService.getRequestsByWallet(walletAddress!, pagination);
 
-      if (!result.success) {
+      if (!result.success || !result.data) {
         res.status(400).json({
           success: false,
           error: result.error,
@@ -213,10 +212,18 @@ export class NFTRequestController {
         return;
       }
 
+      const likedIds = await likeService.getLikedRequestIds(
+        req.user?._id?.toString(),
+        result.data.requests.map(request => request.requestId)
+      );
+
       res.status(200).json({
         success: true,
-        data: result.data?.requests,
-        pagination: result.data?.pagination,
+        data: result.data.requests.map(request => ({
+          ...request,
+          likedByMe: likedIds.has(request.requestId),
+        })),
+        pagination: result.data.pagination,
       } as ApiResponse);
 
     } catch (error) {
@@ -305,7 +312,7 @@ export class NFTRequestController {
       if (!result.success) {
         const statusCode = result.error?.includes('not found') ? 404 :
                           result.error?.includes('Unauthorized') ? 403 :
-                          result.error?.includes('cannot be cancelled') ? 409 : 400;
+                          result.error?.includes('cannot be cancelled') || result.code === 'JOB_RUNNING' ? 409 : 400;
         res.status(statusCode).json({
           success: false,
           error: result.error,
@@ -380,6 +387,143 @@ export class NFTRequestController {
     }
   }
 
+  /**
+   * List the candidate images of a multi-variant request
+   */
+  public async getVariants(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        } as ApiResponse);
+        return;
+      }
+
+      const { requestId } = req.params;
+      const result = await nftRequestService.getVariants(requestId!, req.user.walletAddress);
+
+      if (!result.success || !result.data) {
+        res.status(this.getStatusCodeForError(result.code)).json({
+          success: false,
+          error: result.error,
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...result.data,
+          variants: result.data.variants.map(variant => ({
+            ...variant,
+            imageUrl: `${req.baseUrl}/${requestId}/variants/${variant.id}/image`,
+          })),
+        },
+      } as ApiResponse);
+
+    } catch (error) {
+      logger.error('Error in getVariants controller', {
+        requestId: req.params['requestId'],
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Serve the image of a draft variant
+   */
+  public async getVariantImage(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        } as ApiResponse);
+        return;
+      }
+
+      const { requestId, variantId } = req.params;
+      const result = await nftRequestService.getVariantImage(requestId!, variantId!, req.user.walletAddress);
+
+      if (!result.success || !result.data) {
+        res.status(this.getStatusCodeForError(result.code)).json({
+          success: false,
+          error: result.error,
+        } as ApiResponse);
+        return;
+      }
+
+      res.set('Content-Type', result.data.contentType);
+      res.set('Cache-Control', 'private, max-age=3600');
+      res.status(200).send(result.data.data);
+
+    } catch (error) {
+      logger.error('Error in getVariantImage controller', {
+        requestId: req.params['requestId'],
+        variantId: req.params['variantId'],
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Pick the variant to mint, or ask for a new round of variants
+   */
+  public async submitSelection(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        } as ApiResponse);
+        return;
+      }
+
+      const { requestId } = req.params;
+      const { variantId, regenerate } = req.body as VariantSelectionBody;
+
+      const result = regenerate === true
+        ? await nftRequestService.regenerateVariants(requestId!, req.user.walletAddress)
+        : await nftRequestService.selectVariant(requestId!, variantId!, req.user.walletAddress);
+
+      if (!result.success) {
+        res.status(this.getStatusCodeForError(result.code)).json({
+          success: false,
+          error: result.error,
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(202).json({
+        success: true,
+        message: regenerate === true ? 'New variants are being generated' : 'Variant selected for minting',
+      } as ApiResponse);
+
+    } catch (error) {
+      logger.error('Error in submitSelection controller', {
+        requestId: req.params['requestId'],
+        userId: req.user?._id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      } as ApiResponse);
+    }
+  }
+
   /**
    * Search requests by prompt
    */
@@ -461,7 +605,7 @@ export class NFTRequestController {
   }
 
   /**
-   * Process pending requests (admin/system only)
+   * Queue pending requests for the generation worker (admin/system only)
    */
   public async processPendingRequests(req: Request, res: Response): Promise<void> {
     try {
@@ -488,7 +632,7 @@ export class NFTRequestController {
       res.status(200).json({
         success: true,
         data: result.data,
-        message: `Processed ${result.data?.processed} requests, ${result.data?.failed} failed`,
+        message: `Queued ${result.data?.enqueued} requests, ${result.data?.skipped} already queued or running`,
       } as ApiResponse);
 
     } catch (error) {
@@ -534,6 +678,11 @@ export class NFTRequestController {
         return;
       }
 
+      const likedIds = await likeService.getLikedRequestIds(
+        req.user._id.toString(),
+        result.data.requests.map(nft => nft.requestId)
+      );
+
       // Format NFTs for frontend compatibility
       const formattedNFTs = result.data.requests.map(nft => ({
         id: nft._id,
@@ -542,7 +691,8 @@ export class NFTRequestController {
         description: nft.metadata?.description || '',
         price: '0 ETH', // Default since these are generated, not marketplace items
         usdPrice: '$0.00',
-        likes: 0, // Would come from a likes system
+        likes: nft.likeCount || 0,
+        likedByMe: likedIds.has(nft.requestId),
         views: 0, // Would come from analytics
         chain: this.getChainName(nft.destinationChainId),
         status: this.mapStatusToFrontend(nft.status),
@@ -580,6 +730,26 @@ export class NFTRequestController {
     }
   }
 
+  /**
+   * Map a service error code to an HTTP status
+   */
+  private getStatusCodeForError(code?: string): number {
+    switch (code) {
+      case 'NOT_FOUND':
+        return 404;
+      case 'FORBIDDEN':
+        return 403;
+      case 'INVALID_STATUS':
+      case 'LIMIT_REACHED':
+      case 'JOB_RUNNING':
+        return 409;
+      case 'CONTENT_BLOCKED':
+        return 422;
+      default:
+        return 500;
+    }
+  }
+
   /**
    * Map backend status to frontend expected status
    */
@@ -587,11 +757,14 @@ export class NFTRequestController {
     const statusMap: { [key in RequestStatus]: string } = {
       [RequestStatus.PENDING]: 'Processing',
       [RequestStatus.PROCESSING]: 'Processing', 
+      [RequestStatus.AWAITING_SELECTION]: 'Awaiting Selection',
+      [RequestStatus.UNDER_REVIEW]: 'Under Review',
       [RequestStatus.AI_COMPLETED]: 'Minting',
       [RequestStatus.CROSS_CHAIN_PENDING]: 'Minting',
       [RequestStatus.COMPLETED]: 'Owned',
       [RequestStatus.FAILED]: 'Failed',
       [RequestStatus.CANCELLED]: 'Cancelled',
+      [RequestStatus.REJECTED]: 'Rejected',
     };
     return statusMap[status] || 'Unknown';
   }
@@ -608,7 +781,8 @@ export class NFTRequestController {
   }
 
   /**
-   * Like/unlike NFT
+   * Like/unlike NFT. With `liked` in the body the like is set to that state
+   * (safe to repeat); without it the current state is flipped.
    */
   public async toggleLike(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
@@ -620,13 +794,27 @@ export class NFTRequestController {
         return;
       }
 
-      const { requestId: _requestId } = req.params;
+      const { requestId } = req.params;
+      const { liked } = req.body as ToggleLikeBody;
+
+      const result = await likeService.setLike(
+        req.user._id.toString(),
+        requestId!,
+        typeof liked === 'boolean' ? liked : undefined
+      );
+
+      if (!result.success || !result.data) {
+        res.status(result.code === 'NOT_FOUND' ? 404 : 500).json({
+          success: false,
+          error: result.error,
+        } as ApiResponse);
+        return;
+      }
 
-      // For now, just return success - would implement like system
       res.status(200).json({
         success: true,
-        data: { liked: true, totalLikes: 1 },
-        message: 'NFT liked successfully',
+        data: result.data,
+        message: result.data.liked ? 'NFT liked successfully' : 'NFT unliked successfully',
       } as ApiResponse);
 
     } catch (error) {
@@ -640,6 +828,53 @@ export class NFTRequestController {
       } as ApiResponse);
     }
   }
+
+  /**
+   * Get the NFTs the current user has liked
+   */
+  public async getFavorites(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        } as ApiResponse);
+        return;
+      }
+
+      const pagination: PaginationQuery = {
+        page: parseInt(req.query['page'] as string) || 1,
+        limit: parseInt(req.query['limit'] as string) || 20,
+      };
+
+      const result = await likeService.getFavorites(req.user._id.toString(), pagination);
+
+      if (!result.success || !result.data) {
+        res.status(500).json({
+          success: false,
+          error: result.error,
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: result.data.favorites.map(request => ({ ...request, likedByMe: true })),
+        pagination: result.data.pagination,
+      } as ApiResponse);
+
+    } catch (error) {
+      logger.error('Error getting favorites', {
+        userId: req.user?._id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      } as ApiResponse);
+    }
+  }
 }
 
 // Export singleton instance
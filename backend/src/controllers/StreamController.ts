@@ -0,0 +1,83 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '@/types';
+import { realtimeService, RealtimeEvent } from '@/services/RealtimeService';
+import { logger } from '@/utils/logger';
+
+// Open streams allowed per wallet (one per tab/device is plenty)
+const MAX_STREAMS_PER_WALLET = 5;
+
+// Comment line sent periodically so proxies keep the connection open
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+export class StreamController {
+  /**
+   * Server-Sent Events stream of request status transitions, on-chain
+   * events and notifications for the authenticated wallet
+   */
+  public streamEvents(req: AuthenticatedRequest, res: Response): void {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated',
+      });
+      return;
+    }
+
+    const walletAddress: string = req.user.walletAddress;
+
+    if (realtimeService.getSubscriberCount(walletAddress) >= MAX_STREAMS_PER_WALLET) {
+      res.status(429).json({
+        success: false,
+        error: 'Too many open event streams',
+      });
+      return;
+    }
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      // no-transform keeps the compression middleware from buffering events
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    let eventId = 0;
+    const send = (event: RealtimeEvent): void => {
+      eventId++;
+      res.write(`id: ${eventId}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    res.write('retry: 5000\n\n');
+    res.write(`event: ready\ndata: ${JSON.stringify({ walletAddress })}\n\n`);
+
+    const heartbeat = setInterval(() => {
+      res.write(': ping\n\n');
+    }, HEARTBEAT_INTERVAL_MS);
+
+    let closed = false;
+    let expiryTimer: NodeJS.Timeout | null = null;
+    const close = (): void => {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      if (expiryTimer) clearTimeout(expiryTimer);
+      unsubscribe();
+      res.end();
+    };
+
+    const unsubscribe = realtimeService.subscribe(walletAddress, send, close);
+
+    // The stream must not outlive the token that opened it; clients reconnect with a fresh one
+    if (req.tokenExpiresAt) {
+      expiryTimer = setTimeout(close, Math.max(0, req.tokenExpiresAt.getTime() - Date.now()));
+    }
+
+    req.on('close', close);
+
+    logger.info('Event stream opened', {
+      userId: req.user._id,
+      walletAddress,
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,148 @@
+import { Response } from 'express';
+import { auditService } from '@/services/AuditService';
+import { usageService } from '@/services/UsageService';
+import { AuthenticatedRequest, ApiResponse, QuotaTierBody } from '@/types';
+import { logger } from '@/utils/logger';
+
+export class UsageController {
+  /**
+   * Quota tiers and their limits
+   */
+  public getTiers(_req: AuthenticatedRequest, res: Response): void {
+    res.status(200).json({
+      success: true,
+      data: usageService.getTiers(),
+    } as ApiResponse);
+  }
+
+  /**
+   * Current user's usage and remaining allowance
+   */
+  public async getMyAllowance(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        } as ApiResponse);
+        return;
+      }
+
+      const result = await usageService.getAllowance(req.user.walletAddress, req.user.tier);
+
+      if (!result.success) {
+        res.status(500).json({
+          success: false,
+          error: result.error,
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: result.data,
+      } as ApiResponse);
+
+    } catch (error) {
+      logger.error('Error in getMyAllowance controller', {
+        walletAddress: req.user?.walletAddress,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Usage and remaining allowance of any wallet
+   */
+  public async getAllowance(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { walletAddress } = req.params;
+      const result = await usageService.getAllowance(walletAddress!);
+
+      if (!result.success) {
+        res.status(500).json({
+          success: false,
+          error: result.error,
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: result.data,
+      } as ApiResponse);
+
+    } catch (error) {
+      logger.error('Error in getAllowance controller', {
+        walletAddress: req.params['walletAddress'],
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      } as ApiResponse);
+    }
+  }
+
+  /**
+   * Move a user to another quota tier
+   */
+  public async setTier(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { walletAddress } = req.params;
+      const { tier } = req.body as QuotaTierBody;
+
+      const result = await usageService.setTier(walletAddress!, tier);
+
+      if (!result.success) {
+        res.status(this.getStatusCodeForError(result.code)).json({
+          success: false,
+          error: result.error,
+        } as ApiResponse);
+        return;
+      }
+
+      await auditService.record(
+        { walletAddress: req.user!.walletAddress, ip: req.ip },
+        { action: 'user.tier_updated', targetType: 'user', targetId: walletAddress!.toLowerCase(), details: { tier } }
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result.data,
+        message: 'Tier updated',
+      } as ApiResponse);
+
+    } catch (error) {
+      logger.error('Error in setTier controller', {
+        walletAddress: req.params['walletAddress'],
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      } as ApiResponse);
+    }
+  }
+
+  private getStatusCodeForError(code?: string): number {
+    switch (code) {
+      case 'NOT_FOUND':
+        return 404;
+      case 'INVALID_TIER':
+        return 400;
+      default:
+        return 500;
+    }
+  }
+}
+
+// Export singleton instance
+export const usageController = new UsageController();
\ No newline at end of file
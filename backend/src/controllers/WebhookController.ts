@@ -0,0 +1,325 @@
+import { Response } from 'express';
+import { getUserAccess } from '@/config/roles';
+import {
+  webhookService,
+  WebhookActor,
+  WebhookEndpointInput,
+  WebhookEndpointUpdate,
+} from '@/services/WebhookService';
+import { WEBHOOK_EVENTS } from '@/models/WebhookEndpoint';
+import { AuthenticatedRequest, ApiResponse, UserRole, WebhookDeliveryStatus } from '@/types';
+import { logger } from '@/utils/logger';
+
+export class WebhookController {
+  /**
+   * Events an endpoint can subscribe to
+   */
+  public getEvents(_req: AuthenticatedRequest, res: Response): void {
+    res.status(200).json({
+      success: true,
+      data: WEBHOOK_EVENTS,
+    } as ApiResponse);
+  }
+
+  /**
+   * Register an endpoint. The signing secret is included in the response.
+   */
+  public async createEndpoint(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const actor = this.getActor(req, res);
+      if (!actor) {
+        return;
+      }
+
+      const { url, events, description, allWallets } = req.body as WebhookEndpointInput;
+
+      if (allWallets && !actor.isAdmin) {
+        res.status(403).json({
+          success: false,
+          error: 'Only admins can receive events for all wallets',
+        } as ApiResponse);
+        return;
+      }
+
+      const result = await webhookService.createEndpoint(actor.walletAddress, {
+        url,
+        events,
+        allWallets: !!allWallets,
+        ...(description ? { description } : {}),
+      });
+
+      if (!result.success) {
+        res.status(this.getStatusCodeForError(result.code)).json({
+          success: false,
+          error: result.error,
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: result.data,
+        message: 'Webhook endpoint registered. Store the secret; it is used to verify signatures.',
+      } as ApiResponse);
+
+    } catch (error) {
+      this.handleError('createEndpoint', req, res, error);
+    }
+  }
+
+  /**
+   * Current user's endpoints
+   */
+  public async listEndpoints(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const actor = this.getActor(req, res);
+      if (!actor) {
+        return;
+      }
+
+      const result = await webhookService.listEndpoints(actor.walletAddress);
+
+      if (!result.success) {
+        res.status(500).json({
+          success: false,
+          error: result.error,
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: result.data,
+      } as ApiResponse);
+
+    } catch (error) {
+      this.handleError('listEndpoints', req, res, error);
+    }
+  }
+
+  public async getEndpoint(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const actor = this.getActor(req, res);
+      if (!actor) {
+        return;
+      }
+
+      const result = await webhookService.getEndpoint(req.params['endpointId']!, actor);
+      this.sendResult(res, result);
+
+    } catch (error) {
+      this.handleError('getEndpoint', req, res, error);
+    }
+  }
+
+  /**
+   * Change URL, events or description, or disable / re-enable an endpoint
+   */
+  public async updateEndpoint(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const actor = this.getActor(req, res);
+      if (!actor) {
+        return;
+      }
+
+      const { url, events, description, isActive } = req.body as WebhookEndpointUpdate;
+      const result = await webhookService.updateEndpoint(req.params['endpointId']!, actor, {
+        ...(url !== undefined ? { url } : {}),
+        ...(events !== undefined ? { events } : {}),
+        ...(description !== undefined ? { description } : {}),
+        ...(isActive !== undefined ? { isActive } : {}),
+      });
+
+      this.sendResult(res, result, 'Webhook endpoint updated');
+
+    } catch (error) {
+      this.handleError('updateEndpoint', req, res, error);
+    }
+  }
+
+  public async deleteEndpoint(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const actor = this.getActor(req, res);
+      if (!actor) {
+        return;
+      }
+
+      const result = await webhookService.deleteEndpoint(req.params['endpointId']!, actor);
+      this.sendResult(res, result, 'Webhook endpoint deleted');
+
+    } catch (error) {
+      this.handleError('deleteEndpoint', req, res, error);
+    }
+  }
+
+  /**
+   * Current signing secret
+   */
+  public async getSecret(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const actor = this.getActor(req, res);
+      if (!actor) {
+        return;
+      }
+
+      const result = await webhookService.revealSecret(req.params['endpointId']!, actor);
+      this.sendResult(res, result);
+
+    } catch (error) {
+      this.handleError('getSecret', req, res, error);
+    }
+  }
+
+  public async rotateSecret(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const actor = this.getActor(req, res);
+      if (!actor) {
+        return;
+      }
+
+      const result = await webhookService.rotateSecret(req.params['endpointId']!, actor);
+      this.sendResult(res, result, 'Webhook secret rotated');
+
+    } catch (error) {
+      this.handleError('rotateSecret', req, res, error);
+    }
+  }
+
+  /**
+   * Send a `webhook.test` event to an endpoint
+   */
+  public async sendTest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const actor = this.getActor(req, res);
+      if (!actor) {
+        return;
+      }
+
+      const result = await webhookService.sendTest(req.params['endpointId']!, actor);
+      this.sendResult(res, result, 'Test event queued', 202);
+
+    } catch (error) {
+      this.handleError('sendTest', req, res, error);
+    }
+  }
+
+  /**
+   * Delivery log of an endpoint
+   */
+  public async getDeliveries(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const actor = this.getActor(req, res);
+      if (!actor) {
+        return;
+      }
+
+      const { status, page, limit } = req.query;
+      const result = await webhookService.getDeliveries(req.params['endpointId']!, actor, {
+        ...(status ? { status: status as WebhookDeliveryStatus } : {}),
+        ...(page ? { page: parseInt(page as string) } : {}),
+        ...(limit ? { limit: parseInt(limit as string) } : {}),
+      });
+
+      this.sendResult(res, result);
+
+    } catch (error) {
+      this.handleError('getDeliveries', req, res, error);
+    }
+  }
+
+  /**
+   * Send a logged delivery again
+   */
+  public async replayDelivery(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const actor = this.getActor(req, res);
+      if (!actor) {
+        return;
+      }
+
+      const result = await webhookService.replayDelivery(
+        req.params['endpointId']!,
+        req.params['deliveryId']!,
+        actor
+      );
+
+      this.sendResult(res, result, 'Delivery queued for replay', 202);
+
+    } catch (error) {
+      this.handleError('replayDelivery', req, res, error);
+    }
+  }
+
+  private getActor(req: AuthenticatedRequest, res: Response): WebhookActor | null {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated',
+      } as ApiResponse);
+      return null;
+    }
+
+    if (!webhookService.isEnabled()) {
+      res.status(503).json({
+        success: false,
+        error: 'Webhooks are not configured',
+      } as ApiResponse);
+      return null;
+    }
+
+    return {
+      walletAddress: req.user.walletAddress,
+      isAdmin: getUserAccess(req.user).roles.includes(UserRole.ADMIN),
+    };
+  }
+
+  private sendResult(
+    res: Response,
+    result: { success: boolean; data?: unknown; error?: string; code?: string },
+    message?: string,
+    successStatus: number = 200
+  ): void {
+    if (!result.success) {
+      res.status(this.getStatusCodeForError(result.code)).json({
+        success: false,
+        error: result.error,
+      } as ApiResponse);
+      return;
+    }
+
+    res.status(successStatus).json({
+      success: true,
+      ...(result.data !== undefined ? { data: result.data } : {}),
+      ...(message ? { message } : {}),
+    } as ApiResponse);
+  }
+
+  private handleError(handler: string, req: AuthenticatedRequest, res: Response, error: unknown): void {
+    logger.error(`Error in ${handler} controller`, {
+      walletAddress: req.user?.walletAddress,
+      endpointId: req.params['endpointId'],
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    } as ApiResponse);
+  }
+
+  private getStatusCodeForError(code?: string): number {
+    switch (code) {
+      case 'NOT_FOUND':
+        return 404;
+      case 'LIMIT_REACHED':
+        return 409;
+      case 'ENDPOINT_DISABLED':
+        return 409;
+      default:
+        return 500;
+    }
+  }
+}
+
+// Export singleton instance
+export const webhookController = new WebhookController();
\ No newline at end of file
@@ -1,16 +1,13 @@
 import { Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { User} from '@/models/User';
-import { AuthenticatedRequest } from '@/types';
+import { AuthenticatedRequest, Permission, UserAccess, UserRole } from '@/types';
 import { logger } from '@/utils/logger';
 import { config } from '@/config/env';
+import { getUserAccess } from '@/config/roles';
+import { sessionService, AccessTokenPayload } from '@/services/SessionService';
 
-export interface JWTPayload {
-  walletAddress: string;
-  userId: string;
-  iat?: number;
-  exp?: number;
-}
+export type JWTPayload = AccessTokenPayload;
 
 /**
  * JWT Authentication Middleware
@@ -36,6 +33,15 @@ export const authenticateUser = async (
     // Verify token
     const decoded = jwt.verify(token, config.jwt.secret) as JWTPayload;
 
+    // Tokens are bound to a session and can be revoked before they expire
+    if (!decoded.jti || !decoded.sid || await sessionService.isAccessTokenRevoked(decoded.jti)) {
+      res.status(401).json({
+        success: false,
+        error: 'Token has been revoked.',
+      });
+      return;
+    }
+
     // Get user from database
     const user = await User.findByWallet(decoded.walletAddress);
     if (!user) {
@@ -57,8 +63,11 @@ export const authenticateUser = async (
     // Update last activity
     await user.updateLastActivity();
 
-    // Attach user to request
-    req.user = user as any;
+    // Attach user and session to request
+    req.user = user;
+    req.sessionId = decoded.sid;
+    req.tokenId = decoded.jti;
+    if (decoded.exp) req.tokenExpiresAt = new Date(decoded.exp * 1000);
     next();
 
   } catch (error) {
@@ -87,17 +96,21 @@ export const authenticateUser = async (
 };
 
 /**
- * Generate JWT token for wallet address
+ * Accept the access token from the `access_token` query parameter.
+ * Only for endpoints such as event streams, where browsers cannot send headers.
  */
-export const generateToken = (walletAddress: string, userId: string): string => {
-  const payload: JWTPayload = {
-    walletAddress,
-    userId,
-  };
+export const allowQueryToken = (
+  req: AuthenticatedRequest,
+  _res: Response,
+  next: NextFunction
+): void => {
+  const queryToken = req.query['access_token'];
 
-  return jwt.sign(payload, config.jwt.secret, {
-    expiresIn: '7d', // 7 days
-  });
+  if (!req.header('Authorization') && typeof queryToken === 'string') {
+    req.headers.authorization = `Bearer ${queryToken}`;
+  }
+
+  next();
 };
 
 /**
@@ -116,11 +129,14 @@ export const optionalAuth = async (
     if (token) {
       try {
         const decoded = jwt.verify(token, config.jwt.secret) as JWTPayload;
-        const user = await User.findByWallet(decoded.walletAddress);
+        const isRevoked = !decoded.jti || await sessionService.isAccessTokenRevoked(decoded.jti);
+        const user = isRevoked ? null : await User.findByWallet(decoded.walletAddress);
         
         if (user && user.isActive) {
           await user.updateLastActivity();
-          req.user = user as any;
+          req.user = user;
+          req.sessionId = decoded.sid;
+          req.tokenId = decoded.jti;
         }
       } catch (error) {
         // Ignore token errors for optional auth
@@ -140,38 +156,79 @@ export const optionalAuth = async (
   }
 };
 
+// Requirement each role or permission guard enforces, for API documentation
+const accessGuards = new WeakMap<object, string>();
+
 /**
- * Admin Authentication Middleware
- * Requires user to be authenticated and have admin privileges
+ * What a guard made by `requireRole` or `requirePermission` requires, if the handler is one
  */
-export const requireAdmin = async (
-  req: AuthenticatedRequest,
-  res: Response,
-  next: NextFunction
-): Promise<void> => {
-  // First run regular authentication
-  await authenticateUser(req, res, () => {
-    if (!req.user) {
-      return;
-    }
+export const describeAccessGuard = (handler: object): string | undefined => accessGuards.get(handler);
 
-    // Check if user is admin (would need admin field in User model)
-    // For now, we'll use a simple check based on wallet address
-    const adminWallets = config.admin.wallets.map((w: string) => w.toLowerCase());
-    const isAdmin = adminWallets.includes(req.user.walletAddress.toLowerCase());
+const authorize = (requirement: string, isAllowed: (access: UserAccess) => boolean, error: string) => {
+  const guard = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    // First run regular authentication
+    await authenticateUser(req, res, () => {
+      if (!req.user) {
+        return;
+      }
 
-    if (!isAdmin) {
-      res.status(403).json({
-        success: false,
-        error: 'Access denied. Admin privileges required.',
-      });
-      return;
-    }
+      if (!isAllowed(getUserAccess(req.user))) {
+        logger.warn('Access denied', {
+          walletAddress: req.user.walletAddress,
+          requirement,
+          path: req.originalUrl,
+        });
 
-    next();
-  });
+        res.status(403).json({
+          success: false,
+          error,
+        });
+        return;
+      }
+
+      next();
+    });
+  };
+
+  accessGuards.set(guard, requirement);
+  return guard;
 };
 
+/**
+ * Role Authorization Middleware
+ * Requires an authenticated user holding one of the roles (admins pass every role check)
+ */
+export const requireRole = (...roles: UserRole[]) => authorize(
+  `role ${roles.join(' or ')}`,
+  access => access.roles.some(role => role === UserRole.ADMIN || roles.includes(role)),
+  roles.length === 1 && roles[0] === UserRole.ADMIN
+    ? 'Access denied. Admin privileges required.'
+    : `Access denied. Requires role ${roles.join(' or ')}.`
+);
+
+/**
+ * Permission Authorization Middleware
+ * Requires an authenticated user holding every listed permission, through a role or directly
+ */
+export const requirePermission = (...permissions: Permission[]) => authorize(
+  `permission ${permissions.join(', ')}`,
+  access => permissions.every(permission => access.permissions.includes(permission)),
+  `Access denied. Requires permission ${permissions.join(', ')}.`
+);
+
+/**
+ * Whether the request was made by a user holding the permission, for
+ * endpoints that answer staff with more than everyone else
+ */
+export const hasPermission = (req: AuthenticatedRequest, permission: Permission): boolean =>
+  !!req.user && getUserAccess(req.user).permissions.includes(permission);
+
+/**
+ * Admin Authentication Middleware
+ * Requires user to be authenticated and have the admin role
+ */
+export const requireAdmin = requireRole(UserRole.ADMIN);
+
 /**
  * Rate limiting by user
  */
@@ -0,0 +1,79 @@
+import { Request, Response, NextFunction } from 'express';
+import { CachedResponse, CacheTag, responseCacheService } from '@/services/ResponseCacheService';
+import { logger } from '@/utils/logger';
+
+export interface CacheOptions {
+  ttlSeconds: number;
+  // Data the response is built from; a change to any of it invalidates the entry
+  tags: CacheTag[];
+  // Callers whose response differs from the public one, answered without the cache
+  bypass?: (req: Request) => boolean;
+}
+
+const sendCached = (req: Request, res: Response, entry: CachedResponse, status: 'HIT' | 'MISS'): void => {
+  // Clients revalidate every time, so invalidations reach them straight away
+  res.set('Cache-Control', 'public, max-age=0, must-revalidate');
+  res.set('ETag', entry.etag);
+  res.set('X-Cache', status);
+
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+
+  res.status(200).type('json').send(entry.body);
+};
+
+/**
+ * Serve a public GET response from the response cache, storing successful
+ * responses for `ttlSeconds`. Answers 304 when `If-None-Match` carries the
+ * current ETag. A cache that cannot be reached is skipped, never an error.
+ */
+export const cacheResponse = ({ ttlSeconds, tags, bypass }: CacheOptions) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!responseCacheService.isEnabled() || req.method !== 'GET' || bypass?.(req)) {
+      next();
+      return;
+    }
+
+    let key: string;
+    try {
+      key = await responseCacheService.buildKey(req.originalUrl, tags);
+
+      const cached = await responseCacheService.get(key);
+      if (cached) {
+        sendCached(req, res, cached, 'HIT');
+        return;
+      }
+
+    } catch (error) {
+      logger.warn('Response cache lookup failed', {
+        url: req.originalUrl,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      next();
+      return;
+    }
+
+    const json = res.json.bind(res);
+    res.json = (body: unknown): Response => {
+      if (res.statusCode !== 200) {
+        return json(body);
+      }
+
+      const entry = responseCacheService.createEntry(JSON.stringify(body));
+
+      responseCacheService.set(key, entry, ttlSeconds).catch((error: unknown) => {
+        logger.warn('Failed to store cached response', {
+          url: req.originalUrl,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+
+      sendCached(req, res, entry, 'MISS');
+      return res;
+    };
+
+    next();
+  };
+};
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { Response, NextFunction } from 'express';
+import { config } from '@/config/env';
+import { NFTRequest } from '@/models/NFTRequest';
+import { ApiResponse, AuthenticatedRequest, NFTRequestBody, QuotaAllowance } from '@/types';
+import { usageService } from '@/services/UsageService';
+import { logger } from '@/utils/logger';
+
+const setQuotaHeaders = (res: Response, allowance: QuotaAllowance): void => {
+  const { generations } = allowance.daily;
+
+  res.set('X-Quota-Tier', allowance.tier);
+  if (generations.limit !== null) {
+    res.set('X-Quota-Limit', String(generations.limit));
+    res.set('X-Quota-Remaining', String(generations.remaining));
+    res.set('X-Quota-Reset', allowance.daily.resetsAt.toISOString());
+  }
+};
+
+/**
+ * Images a new round for the request in `:requestId` generates: the variant count
+ * it was created with
+ */
+export const countRequestImages = async (req: AuthenticatedRequest): Promise<number> => {
+  const request = await NFTRequest.findByRequestId(req.params['requestId']!);
+  return request?.generationOptions?.variants || config.ai.variants.default;
+};
+
+/**
+ * Generation quota for the signed-in user. `countImages` says how many images the
+ * request will generate (0 skips the check). Over the generation limit answers 429,
+ * an exhausted budget 402, both with the remaining allowance.
+ */
+export const enforceGenerationQuota = (
+  countImages: (req: AuthenticatedRequest) => number | Promise<number> = req => (req.body as NFTRequestBody).variants || config.ai.variants.default
+) => {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user || !config.usage.quotas.enabled) {
+      next();
+      return;
+    }
+
+    try {
+      const images = await countImages(req);
+      if (images === 0) {
+        next();
+        return;
+      }
+
+      const result = await usageService.checkQuota(
+        req.user.walletAddress,
+        images,
+        req.user.tier || config.usage.quotas.defaultTier
+      );
+
+      if (result.data) {
+        setQuotaHeaders(res, result.data);
+      }
+
+      if (result.success || !result.data) {
+        // Quotas are not enforced when the ledger cannot be read
+        next();
+        return;
+      }
+
+      logger.warn('Generation quota exceeded', {
+        walletAddress: req.user.walletAddress,
+        tier: result.data.tier,
+        code: result.code,
+        images,
+      });
+
+      if (result.code === 'QUOTA_EXCEEDED' && result.data.exceeded) {
+        const { resetsAt } = result.data[result.data.exceeded.period];
+        res.set('Retry-After', String(Math.max(1, Math.ceil((resetsAt.getTime() - Date.now()) / 1000))));
+      }
+
+      res.status(result.code === 'BUDGET_EXCEEDED' ? 402 : 429).json({
+        success: false,
+        error: result.error,
+        data: result.data,
+      } as ApiResponse<QuotaAllowance>);
+
+    } catch (error) {
+      logger.error('Generation quota check failed', {
+        walletAddress: req.user.walletAddress,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      next();
+    }
+  };
+};
\ No newline at end of file
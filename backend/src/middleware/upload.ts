@@ -0,0 +1,85 @@
+import multer from 'multer';
+import { Request, Response, NextFunction } from 'express';
+import { config } from '@/config/env';
+import { ApiResponse, ReferenceUploads, UploadedFile } from '@/types';
+import { logger } from '@/utils/logger';
+
+// File fields accepted alongside a generation request
+export const REFERENCE_UPLOAD_FIELDS = ['referenceImage', 'mask'] as const;
+
+// Largest multipart body: every file at the size limit, plus room for the form fields
+export const MAX_UPLOAD_REQUEST_SIZE = config.upload.maxFileSize * REFERENCE_UPLOAD_FIELDS.length + 1024 * 1024;
+
+const referenceUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: config.upload.maxFileSize,
+    files: REFERENCE_UPLOAD_FIELDS.length,
+  },
+  fileFilter: (_req, file, callback) => {
+    if (!config.upload.allowedTypes.includes(file.mimetype)) {
+      callback(new multer.MulterError('LIMIT_UNEXPECTED_FILE', file.fieldname));
+      return;
+    }
+    callback(null, true);
+  },
+}).fields(REFERENCE_UPLOAD_FIELDS.map(name => ({ name, maxCount: 1 })));
+
+/**
+ * Accept an optional reference image (and inpainting mask) as multipart form
+ * data. JSON requests pass through untouched.
+ */
+export const referenceImageUpload = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.is('multipart/form-data')) {
+    next();
+    return;
+  }
+
+  if (parseInt(req.get('content-length') || '0') > MAX_UPLOAD_REQUEST_SIZE) {
+    res.status(413).json({
+      success: false,
+      error: 'Request too large',
+    } as ApiResponse);
+    return;
+  }
+
+  referenceUpload(req, res, (error: unknown) => {
+    if (!error) {
+      next();
+      return;
+    }
+
+    let message = 'File upload failed';
+    if (error instanceof multer.MulterError) {
+      message = error.code === 'LIMIT_FILE_SIZE'
+        ? `Files cannot exceed ${Math.floor(config.upload.maxFileSize / (1024 * 1024))}MB`
+        : error.code === 'LIMIT_UNEXPECTED_FILE'
+          ? `Unexpected file in '${error.field}'; images must be one of ${config.upload.allowedTypes.join(', ')}`
+          : error.message;
+    }
+
+    logger.warn('Reference image upload rejected', {
+      path: req.path,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    res.status(400).json({
+      success: false,
+      error: message,
+    } as ApiResponse);
+  });
+};
+
+/**
+ * Files stored by referenceImageUpload
+ */
+export const getReferenceUploads = (req: Request): ReferenceUploads => {
+  const files = (req.files || {}) as Record<string, UploadedFile[] | undefined>;
+  const referenceImage = files['referenceImage']?.[0];
+  const mask = files['mask']?.[0];
+
+  return {
+    ...(referenceImage ? { referenceImage } : {}),
+    ...(mask ? { mask } : {}),
+  };
+};
\ No newline at end of file
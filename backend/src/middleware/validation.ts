@@ -1,7 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
-import { validationResult } from 'express-validator';
-import { ApiResponse } from '@/types';
+import { body, validationResult } from 'express-validator';
+import { ApiResponse, NFTAttribute } from '@/types';
+import { config } from '@/config/env';
 import { logger } from '@/utils/logger';
+import { metadataService, METADATA_PROFILES } from '@/services/MetadataService';
 
 /**
  * Validation middleware that processes express-validator results
@@ -97,6 +99,144 @@ export const sanitizeInput = (
   }
 };
 
+// Generation parameter limits
+export const IMAGE_PROVIDERS = ['openai', 'stability', 'local', 'test'];
+export const IMAGE_SIZES = ['256x256', '512x512', '1024x1024', '1792x1024', '1024x1792'];
+export const IMAGE_QUALITIES = ['standard', 'hd'];
+export const REFERENCE_MODES = ['variation', 'inpaint', 'style'];
+export const MAX_CUSTOM_ATTRIBUTES = 10;
+
+// Traits the platform writes itself and that users cannot override
+const RESERVED_TRAITS = [
+  'style', 'model', 'ai engine', 'generation date', 'prompt length', 'creator', 'resolution', 'quality', 'reference mode',
+];
+
+/**
+ * Normalize custom attributes to a trait list. Accepts either
+ * `{ "Mood": "Calm" }` or `[{ "trait_type": "Mood", "value": "Calm" }]`
+ * (optionally with `display_type` and `max_value`), also as a JSON string
+ * when sent in a multipart form.
+ */
+const normalizeAttributes = (value: unknown): unknown => {
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value) as unknown;
+    } catch {
+      return value;
+    }
+  }
+
+  const traits = value && typeof value === 'object' && !Array.isArray(value)
+    ? Object.entries(value as Record<string, unknown>).map(([trait_type, traitValue]) => ({ trait_type, value: traitValue }))
+    : value;
+
+  if (!Array.isArray(traits)) {
+    return traits;
+  }
+
+  return (traits as unknown[]).map(trait => {
+    const { trait_type, value: traitValue, display_type, max_value } = (trait ?? {}) as Record<string, unknown>;
+    return {
+      trait_type: typeof trait_type === 'string' ? trait_type.trim() : trait_type,
+      value: typeof traitValue === 'string' ? traitValue.trim() : traitValue,
+      ...(display_type !== undefined ? { display_type } : {}),
+      ...(max_value !== undefined ? { max_value } : {}),
+    };
+  });
+};
+
+const assertValidAttributes = (attributes: unknown): boolean => {
+  if (!Array.isArray(attributes)) {
+    throw new Error('Attributes must be an object or an array of traits');
+  }
+
+  if (attributes.length > MAX_CUSTOM_ATTRIBUTES) {
+    throw new Error(`No more than ${MAX_CUSTOM_ATTRIBUTES} attributes are allowed`);
+  }
+
+  // Same rules as the metadata schema, so traits cannot fail validation at pin time
+  const validation = metadataService.validateAttributes(attributes);
+  if (!validation.isValid) {
+    const [first] = validation.errors;
+    throw new Error(`${first!.field} ${first!.message}`);
+  }
+
+  const seen = new Set<string>();
+  for (const attribute of attributes as NFTAttribute[]) {
+    const traitType = attribute.trait_type;
+
+    const key = traitType.toLowerCase();
+    if (RESERVED_TRAITS.includes(key)) {
+      throw new Error(`Attribute '${traitType}' is reserved`);
+    }
+    if (seen.has(key)) {
+      throw new Error(`Attribute '${traitType}' is duplicated`);
+    }
+    seen.add(key);
+  }
+
+  return true;
+};
+
+/**
+ * Validation chain for the optional generation parameters shared by every
+ * endpoint that starts an AI generation
+ */
+export const generationParamsValidation = [
+  body('style')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .matches(/^[a-zA-Z0-9 -]+$/)
+    .withMessage('Style must be 1-50 letters, numbers, spaces or dashes'),
+  body('attributes')
+    .optional()
+    .customSanitizer(normalizeAttributes)
+    .custom(assertValidAttributes),
+  body('provider')
+    .optional()
+    .isIn(IMAGE_PROVIDERS)
+    .withMessage('Invalid image provider'),
+  body('model')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Model must be 1-100 characters'),
+  body('size')
+    .optional()
+    .isIn(IMAGE_SIZES)
+    .withMessage(`Size must be one of ${IMAGE_SIZES.join(', ')}`),
+  body('quality')
+    .optional()
+    .isIn(IMAGE_QUALITIES)
+    .withMessage(`Quality must be one of ${IMAGE_QUALITIES.join(', ')}`),
+  body('variants')
+    .optional()
+    .isInt({ min: 1, max: config.ai.variants.max })
+    .withMessage(`Variants must be between 1 and ${config.ai.variants.max}`)
+    .toInt(),
+  body('referenceMode')
+    .optional()
+    .isIn(REFERENCE_MODES)
+    .withMessage(`Reference mode must be one of ${REFERENCE_MODES.join(', ')}`),
+  body('referenceStrength')
+    .optional()
+    .isFloat({ min: 0, max: 1 })
+    .withMessage('Reference strength must be between 0 and 1')
+    .toFloat(),
+  body('reuseCached')
+    .optional()
+    .isBoolean()
+    .withMessage('reuseCached must be a boolean')
+    .toBoolean(true),
+  body('metadataProfile')
+    .optional()
+    .isIn(METADATA_PROFILES)
+    .withMessage(`Metadata profile must be one of ${METADATA_PROFILES.join(', ')}`),
+];
+
 /**
  * Validate pagination parameters
  */
@@ -242,10 +382,16 @@ export const filterContent = (
 };
 
 /**
- * Request size limiter
+ * Request size limiter. Multipart bodies are left to the upload middleware,
+ * which sizes them from the configured file limits.
  */
 export const limitRequestSize = (maxSizeBytes: number = 1024 * 1024) => {
   return (req: Request, res: Response, next: NextFunction): void => {
+    if (req.is('multipart/form-data')) {
+      next();
+      return;
+    }
+
     const contentLength = parseInt(req.get('content-length') || '0');
     
     if (contentLength > maxSizeBytes) {
@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IArtworkFingerprint } from '@/types';
+
+// Artwork fingerprint schema (one per pinned artwork, kept for duplicate checks)
+const artworkFingerprintSchema = new Schema<IArtworkFingerprintDocument>({
+  requestId: {
+    type: String,
+    required: [true, 'Request ID is required'],
+    unique: true,
+    trim: true,
+  },
+  walletAddress: {
+    type: String,
+    required: true,
+    lowercase: true,
+  },
+  ipfsHash: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  perceptualHash: {
+    type: String,
+    required: true,
+    match: [/^[a-f0-9]{16}$/, 'Invalid perceptual hash'],
+  },
+  bands: {
+    type: [String],
+    required: true,
+  },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  versionKey: false,
+});
+
+// Candidate lookup by any shared band
+artworkFingerprintSchema.index({ bands: 1 });
+
+// Static methods
+artworkFingerprintSchema.statics['findCandidates'] = function(this: mongoose.Model<IArtworkFingerprintDocument>, bands: string[], excludeWallet: string) {
+  return this.find({
+    bands: { $in: bands },
+    walletAddress: { $ne: excludeWallet.toLowerCase() },
+  }).limit(500);
+};
+
+export interface IArtworkFingerprintDocument extends Omit<IArtworkFingerprint, '_id'>, Document {}
+
+export interface IArtworkFingerprintModel extends mongoose.Model<IArtworkFingerprintDocument> {
+  findCandidates(bands: string[], excludeWallet: string): Promise<IArtworkFingerprintDocument[]>;
+}
+
+export const ArtworkFingerprint = mongoose.model<IArtworkFingerprintDocument, IArtworkFingerprintModel>('ArtworkFingerprint', artworkFingerprintSchema);
\ No newline at end of file
@@ -0,0 +1,58 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { AuditAction, IAuditLog } from '@/types';
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'user.deactivated',
+  'user.reactivated',
+  'user.access_updated',
+  'user.tier_updated',
+  'request.retried',
+  'request.failed',
+  'collection.featured',
+  'collection.unfeatured',
+];
+
+// Audit log schema (append-only, one record per staff action)
+const auditLogSchema = new Schema<IAuditLogDocument>({
+  actorWallet: {
+    type: String,
+    required: true,
+    lowercase: true,
+  },
+  action: {
+    type: String,
+    enum: AUDIT_ACTIONS,
+    required: true,
+  },
+  targetType: {
+    type: String,
+    enum: ['user', 'request', 'collection'],
+    required: true,
+  },
+  targetId: {
+    type: String,
+    required: true,
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Reason cannot exceed 1000 characters'],
+  },
+  details: {
+    type: Schema.Types.Mixed,
+  },
+  ip: String,
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  versionKey: false,
+});
+
+// Indexes
+auditLogSchema.index({ createdAt: -1 });
+auditLogSchema.index({ actorWallet: 1, createdAt: -1 });
+auditLogSchema.index({ targetType: 1, targetId: 1, createdAt: -1 });
+auditLogSchema.index({ action: 1, createdAt: -1 });
+
+export interface IAuditLogDocument extends Omit<IAuditLog, '_id'>, Document {}
+
+export const AuditLog = mongoose.model<IAuditLogDocument>('AuditLog', auditLogSchema);
\ No newline at end of file
@@ -0,0 +1,43 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IAuthChallenge } from '@/types';
+
+// Auth challenge schema
+const authChallengeSchema = new Schema<IAuthChallengeDocument>({
+  walletAddress: {
+    type: String,
+    required: [true, 'Wallet address is required'],
+    lowercase: true,
+    trim: true,
+    match: [/^0x[a-fA-F0-9]{40}$/, 'Invalid wallet address format'],
+  },
+  nonce: {
+    type: String,
+    required: [true, 'Nonce is required'],
+    unique: true,
+    trim: true,
+  },
+  message: {
+    type: String,
+    required: [true, 'Challenge message is required'],
+  },
+  issuedAt: {
+    type: Date,
+    required: true,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+}, {
+  versionKey: false,
+});
+
+// Lookup by wallet + nonce when a challenge is consumed
+authChallengeSchema.index({ walletAddress: 1, nonce: 1 });
+
+// MongoDB removes expired challenges automatically
+authChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export interface IAuthChallengeDocument extends Omit<IAuthChallenge, '_id'>, Document {}
+
+export const AuthChallenge = mongoose.model<IAuthChallengeDocument>('AuthChallenge', authChallengeSchema);
\ No newline at end of file
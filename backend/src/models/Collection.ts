@@ -1,5 +1,5 @@
 import mongoose, { Schema, Document, Types } from 'mongoose';
-import { ICollection, CollectionMetadata } from '@/types';
+import { ICollection, CollectionMetadata, FrozenCollectionMetadata } from '@/types';
 
 // Collection metadata schema
 const collectionMetadataSchema = new Schema<CollectionMetadata>({
@@ -27,6 +27,31 @@ const collectionMetadataSchema = new Schema<CollectionMetadata>({
   },
 }, { _id: false });
 
+// Frozen token metadata schema
+const frozenMetadataSchema = new Schema<FrozenCollectionMetadata>({
+  baseURI: {
+    type: String,
+    required: true,
+  },
+  metadataCid: {
+    type: String,
+    required: true,
+  },
+  imagesCid: {
+    type: String,
+    required: true,
+  },
+  tokenCount: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  frozenAt: {
+    type: Date,
+    required: true,
+  },
+}, { _id: false });
+
 // Collection schema
 const collectionSchema = new Schema<ICollectionDocument>({
   name: {
@@ -88,6 +113,11 @@ const collectionSchema = new Schema<ICollectionDocument>({
     type: collectionMetadataSchema,
     default: () => ({}),
   },
+  frozenMetadata: {
+    type: frozenMetadataSchema,
+    default: undefined,
+  },
+  featuredAt: Date,
 }, {
   timestamps: true,
   versionKey: false,
@@ -96,6 +126,7 @@ const collectionSchema = new Schema<ICollectionDocument>({
 // Compound indexes
 collectionSchema.index({ creatorId: 1, isActive: 1 });
 collectionSchema.index({ chainId: 1, isActive: 1 });
+collectionSchema.index({ isActive: 1, featuredAt: -1 });
 collectionSchema.index({ name: 'text', description: 'text' });
 
 // Virtual for NFTs in collection
@@ -0,0 +1,84 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IGenerationCacheEntry } from '@/types';
+
+// Generation cache schema (pinned images by the settings that produced them)
+const generationCacheSchema = new Schema<IGenerationCacheEntryDocument>({
+  key: {
+    type: String,
+    required: [true, 'Cache key is required'],
+    match: [/^[a-f0-9]{64}$/, 'Invalid cache key'],
+  },
+  walletAddress: {
+    type: String,
+    required: true,
+    lowercase: true,
+  },
+  requestId: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  imageHash: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  contentType: {
+    type: String,
+    required: true,
+  },
+  provider: {
+    type: String,
+    enum: ['openai', 'stability', 'local', 'test'],
+    required: true,
+  },
+  imageModel: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  description: {
+    type: String,
+    trim: true,
+  },
+  perceptualHash: {
+    type: String,
+    match: [/^[a-f0-9]{16}$/, 'Invalid perceptual hash'],
+  },
+  hits: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+  lastHitAt: Date,
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+}, {
+  timestamps: true,
+  versionKey: false,
+});
+
+// One entry per wallet and key; a newer image replaces the older one
+generationCacheSchema.index({ key: 1, walletAddress: 1 }, { unique: true });
+
+// Entries are dropped once they expire
+generationCacheSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Static methods
+generationCacheSchema.statics['findReusable'] = function(key: string, walletAddress: string) {
+  return this.findOne({
+    key,
+    walletAddress: walletAddress.toLowerCase(),
+    expiresAt: { $gt: new Date() },
+  });
+};
+
+export interface IGenerationCacheEntryDocument extends Omit<IGenerationCacheEntry, '_id'>, Document {}
+
+export interface IGenerationCacheModel extends mongoose.Model<IGenerationCacheEntryDocument> {
+  findReusable(key: string, walletAddress: string): Promise<IGenerationCacheEntryDocument | null>;
+}
+
+export const GenerationCache = mongoose.model<IGenerationCacheEntryDocument, IGenerationCacheModel>('GenerationCache', generationCacheSchema);
\ No newline at end of file
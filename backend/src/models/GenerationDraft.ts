@@ -0,0 +1,82 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IGenerationDraft } from '@/types';
+
+// Generation draft schema (image bytes stay here until one is chosen and pinned)
+const generationDraftSchema = new Schema<IGenerationDraftDocument>({
+  requestId: {
+    type: String,
+    required: [true, 'Request ID is required'],
+    trim: true,
+  },
+  round: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  index: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  provider: {
+    type: String,
+    enum: ['openai', 'stability', 'local', 'test'],
+    required: true,
+  },
+  imageModel: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  description: {
+    type: String,
+    trim: true,
+  },
+  contentType: {
+    type: String,
+    required: true,
+  },
+  data: {
+    type: Buffer,
+    required: true,
+  },
+  size: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  cached: Boolean,
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  versionKey: false,
+});
+
+// One draft per slot in each round
+generationDraftSchema.index({ requestId: 1, round: 1, index: 1 }, { unique: true });
+
+// Unselected drafts are dropped once they expire
+generationDraftSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Static methods
+generationDraftSchema.statics['findByRound'] = function(this: mongoose.Model<IGenerationDraftDocument>, requestId: string, round: number) {
+  return this.find({ requestId, round }).select('-data').sort({ index: 1 });
+};
+
+generationDraftSchema.statics['deleteByRequest'] = function(this: mongoose.Model<IGenerationDraftDocument>, requestId: string) {
+  return this.deleteMany({ requestId });
+};
+
+export interface IGenerationDraftDocument extends Omit<IGenerationDraft, '_id'>, Document<Types.ObjectId> {
+  _id: Types.ObjectId;
+}
+
+export interface IGenerationDraftModel extends mongoose.Model<IGenerationDraftDocument> {
+  findByRound(requestId: string, round: number): Promise<IGenerationDraftDocument[]>;
+  deleteByRequest(requestId: string): Promise<{ deletedCount: number }>;
+}
+
+export const GenerationDraft = mongoose.model<IGenerationDraftDocument, IGenerationDraftModel>('GenerationDraft', generationDraftSchema);
\ No newline at end of file
@@ -0,0 +1,77 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IGenerationJob, JobStatus } from '@/types';
+
+// Generation job schema
+const generationJobSchema = new Schema<IGenerationJobDocument>({
+  requestId: {
+    type: String,
+    required: [true, 'Request ID is required'],
+    unique: true,
+    trim: true,
+    index: true,
+  },
+  status: {
+    type: String,
+    enum: Object.values(JobStatus),
+    default: JobStatus.QUEUED,
+    required: true,
+    index: true,
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+  maxAttempts: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  runAt: {
+    type: Date,
+    required: true,
+    default: () => new Date(),
+  },
+  lockedBy: {
+    type: String,
+    trim: true,
+  },
+  lockExpiresAt: {
+    type: Date,
+  },
+  lastError: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Error message cannot exceed 500 characters'],
+  },
+  completedAt: {
+    type: Date,
+  },
+}, {
+  timestamps: true,
+  versionKey: false,
+});
+
+// Indexes used by the claim query
+generationJobSchema.index({ status: 1, runAt: 1 });
+generationJobSchema.index({ status: 1, lockExpiresAt: 1 });
+
+// Static methods
+generationJobSchema.statics['getStatusCounts'] = function() {
+  return this.aggregate([
+    {
+      $group: {
+        _id: '$status',
+        count: { $sum: 1 },
+      }
+    }
+  ]);
+};
+
+export interface IGenerationJobDocument extends Omit<IGenerationJob, '_id'>, Document {}
+
+export interface IGenerationJobModel extends mongoose.Model<IGenerationJobDocument> {
+  getStatusCounts(): Promise<Array<{ _id: JobStatus; count: number }>>;
+}
+
+export const GenerationJob = mongoose.model<IGenerationJobDocument, IGenerationJobModel>('GenerationJob', generationJobSchema);
\ No newline at end of file
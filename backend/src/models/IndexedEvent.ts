@@ -0,0 +1,75 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IIndexedEvent, IndexedEventStatus } from '@/types';
+
+// Contract event seen by an indexer, keyed by its position in the chain
+const indexedEventSchema = new Schema<IIndexedEventDocument>({
+  indexerId: {
+    type: String,
+    required: [true, 'Indexer ID is required'],
+    trim: true,
+  },
+  chainId: {
+    type: Number,
+    required: true,
+  },
+  eventName: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  transactionHash: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true,
+  },
+  logIndex: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  blockNumber: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  blockHash: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  args: {
+    type: Schema.Types.Mixed,
+    default: {},
+  },
+  status: {
+    type: String,
+    enum: Object.values(IndexedEventStatus),
+    default: IndexedEventStatus.PROCESSED,
+    required: true,
+  },
+  rolledBackAt: {
+    type: Date,
+  },
+  attempts: {
+    type: Number,
+    min: 0,
+  },
+  lastError: {
+    type: String,
+    maxlength: 1000,
+  },
+}, {
+  timestamps: true,
+  versionKey: false,
+});
+
+// An event is handled at most once per indexer
+indexedEventSchema.index({ indexerId: 1, transactionHash: 1, logIndex: 1 }, { unique: true });
+
+// Used when rolling back blocks dropped by a reorg, and to list dead-lettered events
+indexedEventSchema.index({ indexerId: 1, status: 1, blockNumber: -1 });
+
+export interface IIndexedEventDocument extends Omit<IIndexedEvent, '_id'>, Document {}
+
+export const IndexedEvent = mongoose.model<IIndexedEventDocument>('IndexedEvent', indexedEventSchema);
\ No newline at end of file
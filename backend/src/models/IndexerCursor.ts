@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { BlockCheckpoint, IIndexerCursor } from '@/types';
+
+// Hash of a processed block, kept to detect reorgs on the next pass
+const blockCheckpointSchema = new Schema<BlockCheckpoint>({
+  blockNumber: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  blockHash: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+}, { _id: false });
+
+// Indexer progress schema (one document per indexed contract)
+const indexerCursorSchema = new Schema<IIndexerCursorDocument>({
+  indexerId: {
+    type: String,
+    required: [true, 'Indexer ID is required'],
+    unique: true,
+    trim: true,
+  },
+  chainId: {
+    type: Number,
+    required: true,
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true,
+  },
+  lastProcessedBlock: {
+    type: Number,
+    required: true,
+    min: -1,
+  },
+  checkpoints: {
+    type: [blockCheckpointSchema],
+    default: [],
+  },
+}, {
+  timestamps: true,
+  versionKey: false,
+});
+
+export interface IIndexerCursorDocument extends Omit<IIndexerCursor, '_id'>, Document {}
+
+export const IndexerCursor = mongoose.model<IIndexerCursorDocument>('IndexerCursor', indexerCursorSchema);
\ No newline at end of file
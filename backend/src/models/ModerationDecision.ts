@@ -0,0 +1,117 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IModerationDecision } from '@/types';
+
+const MODERATION_CATEGORIES = ['sexual', 'minors', 'violence', 'hate', 'harassment', 'self-harm', 'illicit', 'duplicate', 'other'];
+
+const moderationFlagSchema = new Schema({
+  classifier: {
+    type: String,
+    required: true,
+  },
+  category: {
+    type: String,
+    enum: MODERATION_CATEGORIES,
+    required: true,
+  },
+  action: {
+    type: String,
+    enum: ['review', 'block'],
+    required: true,
+  },
+  ruleId: String,
+  match: String,
+  score: Number,
+}, { _id: false });
+
+const moderationReviewSchema = new Schema({
+  status: {
+    type: String,
+    enum: ['pending', 'approved', 'rejected', 'dismissed'],
+    required: true,
+  },
+  reviewedBy: {
+    type: String,
+    lowercase: true,
+  },
+  reviewedAt: Date,
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Review note cannot exceed 1000 characters'],
+  },
+}, { _id: false });
+
+// Moderation decision schema (one audit record per check, kept after the request is gone)
+const moderationDecisionSchema = new Schema<IModerationDecisionDocument>({
+  requestId: {
+    type: String,
+    trim: true,
+  },
+  walletAddress: {
+    type: String,
+    lowercase: true,
+  },
+  subject: {
+    type: String,
+    enum: ['prompt', 'reference', 'image'],
+    required: true,
+  },
+  action: {
+    type: String,
+    enum: ['allow', 'review', 'block'],
+    required: true,
+  },
+  flags: {
+    type: [moderationFlagSchema],
+    default: [],
+  },
+  classifiers: {
+    type: [String],
+    default: [],
+  },
+  contentHash: {
+    type: String,
+    required: true,
+  },
+  excerpt: {
+    type: String,
+    maxlength: 2000,
+  },
+  draftId: {
+    type: Schema.Types.ObjectId,
+    ref: 'GenerationDraft',
+  },
+  review: moderationReviewSchema,
+}, {
+  timestamps: true,
+  versionKey: false,
+});
+
+// Indexes
+moderationDecisionSchema.index({ requestId: 1, createdAt: -1 });
+moderationDecisionSchema.index({ walletAddress: 1, createdAt: -1 });
+moderationDecisionSchema.index({ 'review.status': 1, createdAt: 1 });
+moderationDecisionSchema.index({ action: 1, createdAt: -1 });
+
+// Static methods
+moderationDecisionSchema.statics['findPendingReviews'] = function(this: mongoose.Model<IModerationDecisionDocument>, options: { skip?: number; limit?: number } = {}) {
+  return this.find({ 'review.status': 'pending' })
+    .sort({ createdAt: 1 })
+    .skip(options.skip || 0)
+    .limit(options.limit || 20);
+};
+
+moderationDecisionSchema.statics['findPendingByRequest'] = function(this: mongoose.Model<IModerationDecisionDocument>, requestId: string) {
+  return this.find({ requestId, 'review.status': 'pending' }).sort({ createdAt: 1 });
+};
+
+export interface IModerationDecisionDocument extends Omit<IModerationDecision, '_id'>, Document<Types.ObjectId> {
+  _id: Types.ObjectId;
+}
+
+export interface IModerationDecisionModel extends mongoose.Model<IModerationDecisionDocument> {
+  findPendingReviews(options?: { skip?: number; limit?: number }): Promise<IModerationDecisionDocument[]>;
+  findPendingByRequest(requestId: string): Promise<IModerationDecisionDocument[]>;
+}
+
+export const ModerationDecision = mongoose.model<IModerationDecisionDocument, IModerationDecisionModel>('ModerationDecision', moderationDecisionSchema);
\ No newline at end of file
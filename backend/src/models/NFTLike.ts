@@ -0,0 +1,30 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { INFTLike } from '@/types';
+
+// NFT like schema (a like doubles as a favorite)
+const nftLikeSchema = new Schema<INFTLikeDocument>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+  },
+  requestId: {
+    type: String,
+    required: [true, 'Request ID is required'],
+    trim: true,
+  },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  versionKey: false,
+});
+
+// One like per user and NFT
+nftLikeSchema.index({ userId: 1, requestId: 1 }, { unique: true });
+
+// Favorites list and trending aggregation
+nftLikeSchema.index({ userId: 1, createdAt: -1 });
+nftLikeSchema.index({ createdAt: -1, requestId: 1 });
+
+export interface INFTLikeDocument extends Omit<INFTLike, '_id'>, Document {}
+
+export const NFTLike = mongoose.model<INFTLikeDocument>('NFTLike', nftLikeSchema);
\ No newline at end of file
@@ -1,12 +1,106 @@
 import mongoose, { Schema, Document, Types } from 'mongoose';
-import { INFTRequest, RequestStatus, AIGenerationData, BlockchainData, NFTMetadata } from '@/types';
+import { INFTRequest, RequestStatus, AIGenerationData, BlockchainData, NFTMetadata, GenerationOptions } from '@/types';
+import { notificationService } from '@/services/NotificationService';
+import { realtimeService } from '@/services/RealtimeService';
+import { responseCacheService } from '@/services/ResponseCacheService';
+import { webhookService } from '@/services/WebhookService';
+
+const IMAGE_PROVIDERS = ['openai', 'stability', 'local', 'test'];
+const NFT_DISPLAY_TYPES = ['number', 'boost_number', 'boost_percentage', 'date'];
+
+// Generation Options schema
+const generationOptionsSchema = new Schema<GenerationOptions>({
+  style: {
+    type: String,
+    trim: true,
+    maxlength: 50,
+  },
+  attributes: {
+    type: [{
+      _id: false,
+      trait_type: {
+        type: String,
+        required: true,
+        trim: true,
+      },
+      value: {
+        type: Schema.Types.Mixed,
+        required: true,
+      },
+      display_type: {
+        type: String,
+        enum: NFT_DISPLAY_TYPES,
+      },
+      max_value: Number,
+    }],
+    default: undefined,
+  },
+  provider: {
+    type: String,
+    enum: IMAGE_PROVIDERS,
+  },
+  model: {
+    type: String,
+    trim: true,
+    maxlength: 100,
+  },
+  size: {
+    type: String,
+    match: [/^\d{2,4}x\d{2,4}$/, 'Invalid image size'],
+  },
+  quality: {
+    type: String,
+    enum: ['standard', 'hd'],
+  },
+  variants: {
+    type: Number,
+    min: 1,
+    max: 10,
+  },
+  reference: {
+    type: new Schema({
+      mode: {
+        type: String,
+        enum: ['variation', 'inpaint', 'style'],
+        required: true,
+      },
+      ipfsHash: {
+        type: String,
+        required: true,
+        trim: true,
+      },
+      contentType: {
+        type: String,
+        required: true,
+      },
+      maskIpfsHash: {
+        type: String,
+        trim: true,
+      },
+      strength: {
+        type: Number,
+        min: 0,
+        max: 1,
+      },
+    }, { _id: false }),
+    default: undefined,
+  },
+  reuseCached: Boolean,
+  metadataProfile: {
+    type: String,
+    enum: ['opensea', 'erc1155', 'rarible'],
+  },
+}, { _id: false });
 
 // AI Generation Data schema
 const aiGenerationDataSchema = new Schema<AIGenerationData>({
+  provider: {
+    type: String,
+    enum: IMAGE_PROVIDERS,
+  },
   model: {
     type: String,
     required: true,
-    default: 'gemini-pro',
   },
   generatedImageUrl: {
     type: String,
@@ -30,6 +124,11 @@ const aiGenerationDataSchema = new Schema<AIGenerationData>({
     min: 0,
     max: 3,
   },
+  cacheHit: Boolean,
+  perceptualHash: {
+    type: String,
+    match: [/^[a-f0-9]{16}$/, 'Invalid perceptual hash'],
+  },
 }, { _id: false });
 
 // Blockchain Data schema
@@ -62,6 +161,19 @@ const blockchainDataSchema = new Schema<BlockchainData>({
     min: 0,
     default: 0,
   },
+  mintTransactionHash: {
+    type: String,
+    trim: true,
+    match: [/^0x[a-fA-F0-9]{64}$/, 'Invalid transaction hash format'],
+  },
+  mintBlockNumber: {
+    type: Number,
+    min: 0,
+  },
+  royalty: {
+    type: Number,
+    min: 0,
+  },
 }, { _id: false });
 
 // NFT Metadata schema
@@ -84,6 +196,7 @@ const nftMetadataSchema = new Schema<NFTMetadata>({
     trim: true,
   },
   attributes: [{
+    _id: false,
     trait_type: {
       type: String,
       required: true,
@@ -93,15 +206,47 @@ const nftMetadataSchema = new Schema<NFTMetadata>({
       type: Schema.Types.Mixed,
       required: true,
     },
+    display_type: {
+      type: String,
+      enum: NFT_DISPLAY_TYPES,
+    },
+    max_value: Number,
   }],
   external_url: {
     type: String,
     trim: true,
   },
+  provenance: {
+    type: new Schema({
+      referenceImage: {
+        type: String,
+        required: true,
+        trim: true,
+      },
+      referenceMode: {
+        type: String,
+        enum: ['variation', 'inpaint', 'style'],
+        required: true,
+      },
+      mask: {
+        type: String,
+        trim: true,
+      },
+    }, { _id: false }),
+    default: undefined,
+  },
   animation_url: {
     type: String,
     trim: true,
   },
+  background_color: {
+    type: String,
+    match: [/^[0-9a-fA-F]{6}$/, 'Invalid background color'],
+  },
+  properties: {
+    type: Schema.Types.Mixed,
+    default: undefined,
+  },
 }, { _id: false });
 
 // NFT Request schema
@@ -156,6 +301,18 @@ const nftRequestSchema = new Schema<INFTRequestDocument>({
     min: 0,
     default: 0,
   },
+  generationOptions: {
+    type: generationOptionsSchema,
+    default: undefined,
+  },
+  variantRound: {
+    type: Number,
+    min: 0,
+  },
+  selectedVariantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'GenerationDraft',
+  },
   aiGenerationData: {
     type: aiGenerationDataSchema,
     default: undefined,
@@ -168,6 +325,12 @@ const nftRequestSchema = new Schema<INFTRequestDocument>({
     type: nftMetadataSchema,
     default: undefined,
   },
+  // Denormalized from NFTLike, maintained by LikeService
+  likeCount: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
   completedAt: {
     type: Date,
   },
@@ -198,7 +361,13 @@ nftRequestSchema.methods['toJSON'] = function(this: INFTRequestDocument) {
   return requestObject;
 };
 
-nftRequestSchema.methods['updateStatus'] = function(this: INFTRequestDocument, status: RequestStatus, errorMessage?: string) {
+nftRequestSchema.methods['updateStatus'] = async function(
+  this: INFTRequestDocument,
+  status: RequestStatus,
+  errorMessage?: string,
+  notify: boolean = true
+) {
+  const previousStatus = this.status;
   this.status = status;
   if (errorMessage) {
     this.errorMessage = errorMessage;
@@ -207,7 +376,46 @@ nftRequestSchema.methods['updateStatus'] = function(this: INFTRequestDocument, s
     this.completedAt = new Date();
   }
   this.updatedAt = new Date();
-  return this.save();
+  const saved = await this.save();
+
+  // Let the owner know about lifecycle transitions
+  if (previousStatus !== status) {
+    await responseCacheService.invalidate('requests');
+    await realtimeService.publishRequestStatus(saved, previousStatus);
+    await webhookService.dispatch('request.status_changed', saved.walletAddress, {
+      requestId: saved.requestId,
+      status,
+      previousStatus,
+      ...(saved.errorMessage && status === RequestStatus.FAILED ? { errorMessage: saved.errorMessage } : {}),
+    });
+
+    if (notify) {
+      await notificationService.notifyRequestStatus(saved);
+    }
+  }
+
+  return saved;
+};
+
+// Change the status only while the stored one is still what this document
+// last saw; returns null when someone else moved the request on meanwhile
+nftRequestSchema.methods['advanceStatus'] = async function(
+  this: INFTRequestDocument,
+  status: RequestStatus,
+  notify: boolean = true
+) {
+  this.$where = { status: this.status };
+
+  try {
+    return await this.updateStatus(status, undefined, notify);
+  } catch (error) {
+    if (error instanceof mongoose.Error.DocumentNotFoundError) {
+      return null;
+    }
+    throw error;
+  } finally {
+    this.$where = {};
+  }
 };
 
 nftRequestSchema.methods['setAIGenerationData'] = function(this: INFTRequestDocument, data: Partial<AIGenerationData>) {
@@ -307,7 +515,8 @@ nftRequestSchema.virtual('processingTime').get(function() {
 
 export interface INFTRequestDocument extends Omit<INFTRequest, '_id'>, Document {
   toJSON(): INFTRequest;
-  updateStatus(status: RequestStatus, errorMessage?: string): Promise<INFTRequestDocument>;
+  updateStatus(status: RequestStatus, errorMessage?: string, notify?: boolean): Promise<INFTRequestDocument>;
+  advanceStatus(status: RequestStatus, notify?: boolean): Promise<INFTRequestDocument | null>;
   setAIGenerationData(data: Partial<AIGenerationData>): Promise<INFTRequestDocument>;
   setBlockchainData(data: Partial<BlockchainData>): Promise<INFTRequestDocument>;
   setMetadata(metadata: NFTMetadata): Promise<INFTRequestDocument>;
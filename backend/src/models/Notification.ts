@@ -0,0 +1,75 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { INotification, NotificationType } from '@/types';
+
+// Notification schema
+const notificationSchema = new Schema<INotificationDocument>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+  },
+  type: {
+    type: String,
+    enum: Object.values(NotificationType),
+    required: [true, 'Notification type is required'],
+  },
+  title: {
+    type: String,
+    required: [true, 'Title is required'],
+    trim: true,
+    maxlength: [150, 'Title cannot exceed 150 characters'],
+  },
+  message: {
+    type: String,
+    required: [true, 'Message is required'],
+    trim: true,
+    maxlength: [1000, 'Message cannot exceed 1000 characters'],
+  },
+  actionUrl: {
+    type: String,
+    trim: true,
+  },
+  data: {
+    requestId: { type: String, trim: true },
+    collectionId: { type: String, trim: true },
+    status: { type: String, trim: true },
+    tokenId: { type: Number, min: 0 },
+    transactionHash: { type: String, trim: true },
+    chainId: { type: Number },
+  },
+  read: {
+    type: Boolean,
+    default: false,
+  },
+  readAt: {
+    type: Date,
+  },
+}, {
+  timestamps: true,
+  versionKey: false,
+});
+
+// Indexes for the inbox queries
+notificationSchema.index({ userId: 1, createdAt: -1 });
+notificationSchema.index({ userId: 1, read: 1, createdAt: -1 });
+
+// Static methods
+notificationSchema.statics['markAllRead'] = function(userId: Types.ObjectId | string) {
+  return this.updateMany(
+    { userId, read: false },
+    { $set: { read: true, readAt: new Date() } }
+  );
+};
+
+notificationSchema.statics['countUnread'] = function(userId: Types.ObjectId | string) {
+  return this.countDocuments({ userId, read: false });
+};
+
+export interface INotificationDocument extends Omit<INotification, '_id'>, Document {}
+
+export interface INotificationModel extends mongoose.Model<INotificationDocument> {
+  markAllRead(userId: Types.ObjectId | string): Promise<{ modifiedCount: number }>;
+  countUnread(userId: Types.ObjectId | string): Promise<number>;
+}
+
+export const Notification = mongoose.model<INotificationDocument, INotificationModel>('Notification', notificationSchema);
\ No newline at end of file
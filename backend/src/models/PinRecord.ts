@@ -0,0 +1,110 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IPinRecord, PinningProviderName } from '@/types';
+
+const PINNING_PROVIDERS = ['pinata', 'kubo'];
+
+// Pin record schema (pin status table: one row per CID and provider)
+const pinRecordSchema = new Schema<IPinRecordDocument>({
+  cid: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  provider: {
+    type: String,
+    enum: PINNING_PROVIDERS,
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: ['pinned', 'pinning', 'missing', 'failed'],
+    required: true,
+  },
+  name: String,
+  contentType: String,
+  size: {
+    type: Number,
+    min: 0,
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+  },
+  lastError: {
+    type: String,
+    maxlength: 500,
+  },
+  lastCheckedAt: Date,
+  pinnedAt: Date,
+}, {
+  timestamps: true,
+  versionKey: false,
+});
+
+// Indexes
+pinRecordSchema.index({ cid: 1, provider: 1 }, { unique: true });
+pinRecordSchema.index({ provider: 1, status: 1 });
+pinRecordSchema.index({ lastCheckedAt: 1 });
+
+// Static methods
+pinRecordSchema.statics['findByCid'] = function(this: mongoose.Model<IPinRecordDocument>, cid: string) {
+  return this.find({ cid }).sort({ createdAt: 1 });
+};
+
+pinRecordSchema.statics['findDueForCheck'] = function(
+  this: mongoose.Model<IPinRecordDocument>,
+  providers: PinningProviderName[],
+  checkedBefore: Date,
+  limit: number
+) {
+  return this.find({
+    provider: { $in: providers },
+    $or: [
+      { status: { $ne: 'pinned' } },
+      { lastCheckedAt: { $exists: false } },
+      { lastCheckedAt: { $lt: checkedBefore } },
+    ],
+  })
+    .sort({ lastCheckedAt: 1 })
+    .limit(limit);
+};
+
+pinRecordSchema.statics['findCidsWithoutProvider'] = async function(
+  this: mongoose.Model<IPinRecordDocument>,
+  provider: PinningProviderName,
+  limit: number
+) {
+  const rows = await this.aggregate<{ _id: string; name?: string; contentType?: string; size?: number | null }>([
+    {
+      $group: {
+        _id: '$cid',
+        providers: { $addToSet: '$provider' },
+        name: { $first: '$name' },
+        contentType: { $first: '$contentType' },
+        size: { $max: '$size' },
+      },
+    },
+    { $match: { providers: { $ne: provider } } },
+    { $limit: limit },
+  ]);
+
+  return rows.map(row => ({
+    cid: row._id,
+    ...(row.name ? { name: row.name } : {}),
+    ...(row.contentType ? { contentType: row.contentType } : {}),
+    ...(row.size !== null && row.size !== undefined ? { size: row.size } : {}),
+  }));
+};
+
+export interface IPinRecordDocument extends Omit<IPinRecord, '_id'>, Document {}
+
+export interface IPinRecordModel extends mongoose.Model<IPinRecordDocument> {
+  findByCid(cid: string): Promise<IPinRecordDocument[]>;
+  findDueForCheck(providers: PinningProviderName[], checkedBefore: Date, limit: number): Promise<IPinRecordDocument[]>;
+  findCidsWithoutProvider(
+    provider: PinningProviderName,
+    limit: number
+  ): Promise<Array<Pick<IPinRecord, 'cid' | 'name' | 'contentType' | 'size'>>>;
+}
+
+export const PinRecord = mongoose.model<IPinRecordDocument, IPinRecordModel>('PinRecord', pinRecordSchema);
\ No newline at end of file
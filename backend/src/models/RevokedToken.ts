@@ -0,0 +1,25 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IRevokedToken } from '@/types';
+
+// Revoked access token schema (denylist entries live until the token would expire)
+const revokedTokenSchema = new Schema<IRevokedTokenDocument>({
+  tokenId: {
+    type: String,
+    required: [true, 'Token ID is required'],
+    unique: true,
+    trim: true,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+}, {
+  versionKey: false,
+});
+
+// MongoDB removes entries once the token could no longer be used anyway
+revokedTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export interface IRevokedTokenDocument extends Omit<IRevokedToken, '_id'>, Document {}
+
+export const RevokedToken = mongoose.model<IRevokedTokenDocument>('RevokedToken', revokedTokenSchema);
\ No newline at end of file
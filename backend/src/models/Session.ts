@@ -0,0 +1,96 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ISession, SessionRevocationReason } from '@/types';
+
+// Session schema (one document per refresh-token family)
+const sessionSchema = new Schema<ISessionDocument>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    index: true,
+  },
+  walletAddress: {
+    type: String,
+    required: [true, 'Wallet address is required'],
+    lowercase: true,
+    trim: true,
+    match: [/^0x[a-fA-F0-9]{40}$/, 'Invalid wallet address format'],
+  },
+  familyId: {
+    type: String,
+    required: [true, 'Token family ID is required'],
+    unique: true,
+    trim: true,
+  },
+  refreshTokenId: {
+    type: String,
+    required: [true, 'Refresh token ID is required'],
+    trim: true,
+  },
+  accessTokenId: {
+    type: String,
+    required: [true, 'Access token ID is required'],
+    trim: true,
+  },
+  accessTokenExpiresAt: {
+    type: Date,
+    required: true,
+  },
+  device: {
+    type: String,
+    trim: true,
+    default: 'Unknown device',
+    maxlength: [100, 'Device cannot exceed 100 characters'],
+  },
+  userAgent: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'User agent cannot exceed 500 characters'],
+  },
+  ipAddress: {
+    type: String,
+    trim: true,
+  },
+  lastUsedAt: {
+    type: Date,
+    required: true,
+    default: () => new Date(),
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  revokedAt: {
+    type: Date,
+  },
+  revokedReason: {
+    type: String,
+    enum: Object.values(SessionRevocationReason),
+  },
+}, {
+  timestamps: true,
+  versionKey: false,
+});
+
+// Active session lookups per user
+sessionSchema.index({ userId: 1, revokedAt: 1, expiresAt: -1 });
+
+// MongoDB removes sessions once their refresh token has expired
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Static methods
+sessionSchema.statics['findActiveByUser'] = function(this: mongoose.Model<ISessionDocument>, userId: string) {
+  return this.find({
+    userId,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+  }).sort({ lastUsedAt: -1 });
+};
+
+export interface ISessionDocument extends Omit<ISession, '_id'>, Document {}
+
+export interface ISessionModel extends mongoose.Model<ISessionDocument> {
+  findActiveByUser(userId: string): Promise<ISessionDocument[]>;
+}
+
+export const Session = mongoose.model<ISessionDocument, ISessionModel>('Session', sessionSchema);
\ No newline at end of file
@@ -0,0 +1,74 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ITokenOwnership } from '@/types';
+
+// Current owner of a token minted by a CrossChainMinter, kept in sync from Transfer events
+const tokenOwnershipSchema = new Schema<ITokenOwnershipDocument>({
+  chainId: {
+    type: Number,
+    required: true,
+  },
+  contractAddress: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true,
+    match: [/^0x[a-fA-F0-9]{40}$/, 'Invalid contract address format'],
+  },
+  tokenId: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  owner: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true,
+    match: [/^0x[a-fA-F0-9]{40}$/, 'Invalid owner address format'],
+  },
+  requestId: {
+    type: String,
+    trim: true,
+  },
+  burned: {
+    type: Boolean,
+    default: false,
+  },
+  mintTransactionHash: {
+    type: String,
+    lowercase: true,
+    trim: true,
+  },
+  lastTransactionHash: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true,
+  },
+  lastBlockNumber: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+}, {
+  timestamps: true,
+  versionKey: false,
+});
+
+// Indexes
+tokenOwnershipSchema.index({ chainId: 1, contractAddress: 1, tokenId: 1 }, { unique: true });
+tokenOwnershipSchema.index({ owner: 1, burned: 1 });
+tokenOwnershipSchema.index({ requestId: 1 });
+
+// Static methods
+tokenOwnershipSchema.statics['findByOwner'] = function(this: mongoose.Model<ITokenOwnershipDocument>, owner: string) {
+  return this.find({ owner: owner.toLowerCase(), burned: false }).sort({ chainId: 1, tokenId: 1 });
+};
+
+export interface ITokenOwnershipDocument extends Omit<ITokenOwnership, '_id'>, Document {}
+
+export interface ITokenOwnershipModel extends mongoose.Model<ITokenOwnershipDocument> {
+  findByOwner(owner: string): Promise<ITokenOwnershipDocument[]>;
+}
+
+export const TokenOwnership = mongoose.model<ITokenOwnershipDocument, ITokenOwnershipModel>('TokenOwnership', tokenOwnershipSchema);
\ No newline at end of file
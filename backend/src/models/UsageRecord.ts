@@ -0,0 +1,117 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IUsageRecord } from '@/types';
+
+// Usage record schema (cost ledger: one priced provider call or pin)
+const usageRecordSchema = new Schema<IUsageRecordDocument>({
+  requestId: {
+    type: String,
+    trim: true,
+  },
+  walletAddress: {
+    type: String,
+    lowercase: true,
+  },
+  kind: {
+    type: String,
+    enum: ['text', 'image', 'pin'],
+    required: true,
+  },
+  provider: {
+    type: String,
+    required: true,
+  },
+  operation: {
+    type: String,
+    required: true,
+  },
+  modelName: String,
+  inputTokens: {
+    type: Number,
+    min: 0,
+  },
+  outputTokens: {
+    type: Number,
+    min: 0,
+  },
+  images: {
+    type: Number,
+    min: 0,
+  },
+  quality: {
+    type: String,
+    enum: ['standard', 'hd'],
+  },
+  bytes: {
+    type: Number,
+    min: 0,
+  },
+  costUsd: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+}, {
+  timestamps: true,
+  versionKey: false,
+});
+
+// Indexes
+usageRecordSchema.index({ walletAddress: 1, createdAt: -1 });
+usageRecordSchema.index({ requestId: 1 });
+usageRecordSchema.index({ createdAt: -1, provider: 1 });
+
+// Static methods
+usageRecordSchema.statics['sumForWallet'] = async function(this: mongoose.Model<IUsageRecordDocument>, walletAddress: string, since: Date) {
+  const [totals] = await this.aggregate<{ images: number; costUsd: number }>([
+    { $match: { walletAddress: walletAddress.toLowerCase(), createdAt: { $gte: since } } },
+    {
+      $group: {
+        _id: null,
+        images: { $sum: { $ifNull: ['$images', 0] } },
+        costUsd: { $sum: '$costUsd' },
+      },
+    },
+  ]);
+
+  return {
+    images: totals?.images || 0,
+    costUsd: totals?.costUsd || 0,
+  };
+};
+
+usageRecordSchema.statics['getCostBreakdown'] = function(since: Date) {
+  return this.aggregate([
+    { $match: { createdAt: { $gte: since } } },
+    {
+      $group: {
+        _id: { provider: '$provider', kind: '$kind' },
+        costUsd: { $sum: '$costUsd' },
+        calls: { $sum: 1 },
+        inputTokens: { $sum: { $ifNull: ['$inputTokens', 0] } },
+        outputTokens: { $sum: { $ifNull: ['$outputTokens', 0] } },
+        images: { $sum: { $ifNull: ['$images', 0] } },
+        bytes: { $sum: { $ifNull: ['$bytes', 0] } },
+      },
+    },
+    { $sort: { costUsd: -1 } },
+  ]);
+};
+
+export interface IUsageRecordDocument extends Omit<IUsageRecord, '_id'>, Document {}
+
+export interface UsageCostBreakdownRow {
+  _id: { provider: string; kind: string };
+  costUsd: number;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  bytes: number;
+}
+
+export interface IUsageRecordModel extends mongoose.Model<IUsageRecordDocument> {
+  sumForWallet(walletAddress: string, since: Date): Promise<{ images: number; costUsd: number }>;
+  getCostBreakdown(since: Date): Promise<UsageCostBreakdownRow[]>;
+}
+
+export const UsageRecord = mongoose.model<IUsageRecordDocument, IUsageRecordModel>('UsageRecord', usageRecordSchema);
\ No newline at end of file
@@ -1,5 +1,5 @@
-import mongoose, { Schema, Document } from 'mongoose';
-import { IUser, UserPreferences } from '@/types';
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IUser, Permission, UserPreferences, UserRole } from '@/types';
 
 // User preferences schema
 const userPreferencesSchema = new Schema<UserPreferences>({
@@ -16,6 +16,14 @@ const userPreferencesSchema = new Schema<UserPreferences>({
     type: Boolean,
     default: true,
   },
+  // Per-type switches, only consulted while notifications are enabled
+  notificationTypes: {
+    generation: { type: Boolean, default: true },
+    mint: { type: Boolean, default: true },
+    failure: { type: Boolean, default: true },
+    collection: { type: Boolean, default: true },
+    system: { type: Boolean, default: true },
+  },
   publicProfile: {
     type: Boolean,
     default: false,
@@ -62,6 +70,20 @@ const userSchema = new Schema<IUserDocument>({
     type: userPreferencesSchema,
     default: () => ({}),
   },
+  tier: {
+    type: String,
+    trim: true,
+  },
+  roles: {
+    type: [String],
+    enum: Object.values(UserRole),
+    default: [],
+  },
+  permissions: {
+    type: [String],
+    enum: Object.values(Permission),
+    default: [],
+  },
 }, {
   timestamps: true,
   versionKey: false,
@@ -72,6 +94,7 @@ userSchema.index({ walletAddress: 1 });
 userSchema.index({ email: 1 }, { sparse: true });
 userSchema.index({ username: 1 }, { sparse: true });
 userSchema.index({ isActive: 1 });
+userSchema.index({ roles: 1 });
 userSchema.index({ createdAt: -1 });
 
 // Instance methods
@@ -163,7 +186,8 @@ userSchema.pre('deleteOne', { document: true, query: false }, async function(nex
   next();
 });
 
-export interface IUserDocument extends Omit<IUser, '_id'>, Document {
+export interface IUserDocument extends Omit<IUser, '_id'>, Document<Types.ObjectId> {
+  _id: Types.ObjectId;
   toJSON(): IUser;
   updateLastActivity(): Promise<IUserDocument>;
 }
@@ -0,0 +1,90 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { config } from '@/config/env';
+import { IWebhookDelivery, WebhookAttempt } from '@/types';
+
+// One attempt to deliver a webhook
+const webhookAttemptSchema = new Schema<WebhookAttempt>({
+  at: {
+    type: Date,
+    required: true,
+  },
+  statusCode: Number,
+  error: {
+    type: String,
+    maxlength: 500,
+  },
+  durationMs: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+}, { _id: false });
+
+// Webhook delivery schema (the delivery log)
+const webhookDeliverySchema = new Schema<IWebhookDeliveryDocument>({
+  deliveryId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true,
+  },
+  endpointId: {
+    type: Schema.Types.ObjectId,
+    ref: 'WebhookEndpoint',
+    required: true,
+  },
+  event: {
+    type: String,
+    required: true,
+  },
+  payload: {
+    type: Schema.Types.Mixed,
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'delivering', 'delivered', 'failed'],
+    default: 'pending',
+    required: true,
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+  attemptLog: {
+    type: [webhookAttemptSchema],
+    default: [],
+  },
+  nextAttemptAt: {
+    type: Date,
+    required: true,
+    default: () => new Date(),
+  },
+  lockedBy: String,
+  lockExpiresAt: Date,
+  lastStatusCode: Number,
+  lastError: {
+    type: String,
+    maxlength: 500,
+  },
+  deliveredAt: Date,
+  replayOf: String,
+}, {
+  timestamps: true,
+  versionKey: false,
+});
+
+// Indexes used by the claim query and the delivery log
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+webhookDeliverySchema.index({ status: 1, lockExpiresAt: 1 });
+webhookDeliverySchema.index({ endpointId: 1, createdAt: -1 });
+
+// Old log entries expire
+webhookDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: config.webhook.retentionDays * 24 * 60 * 60 });
+
+export interface IWebhookDeliveryDocument extends Omit<IWebhookDelivery, '_id'>, Document<Types.ObjectId> {
+  _id: Types.ObjectId;
+}
+
+export const WebhookDelivery = mongoose.model<IWebhookDeliveryDocument>('WebhookDelivery', webhookDeliverySchema);
\ No newline at end of file
@@ -0,0 +1,98 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IWebhookEndpoint, WebhookEvent } from '@/types';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'request.created',
+  'request.status_changed',
+  'nft.minted',
+  'nft.reverted',
+  'collection.updated',
+];
+
+// Webhook endpoint schema
+const webhookEndpointSchema = new Schema<IWebhookEndpointDocument>({
+  ownerWallet: {
+    type: String,
+    required: [true, 'Owner wallet is required'],
+    lowercase: true,
+    trim: true,
+    match: [/^0x[a-fA-F0-9]{40}$/, 'Invalid wallet address format'],
+    index: true,
+  },
+  url: {
+    type: String,
+    required: [true, 'Endpoint URL is required'],
+    trim: true,
+    maxlength: [2048, 'URL cannot exceed 2048 characters'],
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Description cannot exceed 200 characters'],
+  },
+  events: {
+    type: [{
+      type: String,
+      enum: WEBHOOK_EVENTS,
+    }],
+    validate: [(events: string[]) => events.length > 0, 'At least one event is required'],
+  },
+  allWallets: {
+    type: Boolean,
+    default: false,
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+  },
+  secretVersion: {
+    type: Number,
+    default: 1,
+    min: 1,
+  },
+  consecutiveFailures: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+  disabledAt: Date,
+  disabledReason: {
+    type: String,
+    trim: true,
+    maxlength: 500,
+  },
+  lastDeliveryAt: Date,
+  lastSuccessAt: Date,
+}, {
+  timestamps: true,
+  versionKey: false,
+});
+
+// Indexes used when fanning out events
+webhookEndpointSchema.index({ isActive: 1, events: 1, ownerWallet: 1 });
+webhookEndpointSchema.index({ isActive: 1, events: 1, allWallets: 1 });
+
+// Static methods
+webhookEndpointSchema.statics['findSubscribers'] = function(event: WebhookEvent, walletAddress?: string) {
+  return this.find({
+    isActive: true,
+    events: event,
+    $or: [
+      { allWallets: true },
+      ...(walletAddress ? [{ ownerWallet: walletAddress.toLowerCase() }] : []),
+    ],
+  });
+};
+
+export interface IWebhookEndpointDocument extends Omit<IWebhookEndpoint, '_id'>, Document<Types.ObjectId> {
+  _id: Types.ObjectId;
+}
+
+export interface IWebhookEndpointModel extends mongoose.Model<IWebhookEndpointDocument> {
+  findSubscribers(event: WebhookEvent, walletAddress?: string): Promise<IWebhookEndpointDocument[]>;
+}
+
+export const WebhookEndpoint = mongoose.model<IWebhookEndpointDocument, IWebhookEndpointModel>(
+  'WebhookEndpoint',
+  webhookEndpointSchema
+);
\ No newline at end of file
@@ -1,8 +1,10 @@
 import { Router } from 'express';
-import { query } from 'express-validator';
+import { param, query } from 'express-validator';
 import { ActivityController } from '../controllers/ActivityController';
 import { authenticateUser, optionalAuth } from '../middleware/auth';
+import { cacheResponse } from '../middleware/cache';
 import { validateRequest } from '../middleware/validation';
+import { NotificationType } from '../types';
 
 const router = Router();
 const activityController = new ActivityController();
@@ -28,6 +30,7 @@ router.get(
     query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1-50'),
   ],
   validateRequest,
+  cacheResponse({ ttlSeconds: 30, tags: ['requests'] }),
   activityController.getPublicActivityFeed.bind(activityController)
 );
 
@@ -36,16 +39,30 @@ router.get(
   '/notifications',
   authenticateUser,
   [
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1-50'),
     query('unreadOnly').optional().isBoolean().withMessage('unreadOnly must be boolean'),
+    query('type').optional().isIn(Object.values(NotificationType)).withMessage('Invalid notification type'),
   ],
   validateRequest,
   activityController.getUserNotifications.bind(activityController)
 );
 
+// Mark all notifications as read
+router.patch(
+  '/notifications/read-all',
+  authenticateUser,
+  activityController.markAllNotificationsRead.bind(activityController)
+);
+
 // Mark notification as read
 router.patch(
   '/notifications/:notificationId/read',
   authenticateUser,
+  [
+    param('notificationId').isMongoId().withMessage('Valid notification ID is required'),
+  ],
+  validateRequest,
   activityController.markNotificationRead.bind(activityController)
 );
 
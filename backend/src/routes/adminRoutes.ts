@@ -0,0 +1,195 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { adminController } from '@/controllers/AdminController';
+import { AUDIT_ACTIONS } from '@/models/AuditLog';
+import { authenticateUser, requirePermission } from '@/middleware/auth';
+import { validateRequest } from '@/middleware/validation';
+import { Permission, RequestStatus, UserAccessBody, UserRole } from '@/types';
+
+const router = Router();
+
+const paginationValidation = [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+];
+
+const walletAddressValidation = [
+  param('walletAddress')
+    .matches(/^0x[a-fA-F0-9]{40}$/)
+    .withMessage('Invalid wallet address format'),
+];
+
+const requestIdValidation = [
+  param('requestId')
+    .matches(/^[a-f0-9]{64}$/)
+    .withMessage('Invalid request ID format'),
+];
+
+const collectionIdValidation = [
+  param('collectionId')
+    .isMongoId()
+    .withMessage('Invalid collection ID'),
+];
+
+const reasonValidation = body('reason')
+  .optional()
+  .isString()
+  .trim()
+  .isLength({ max: 1000 })
+  .withMessage('Reason cannot exceed 1000 characters');
+
+const dateRangeValidation = [
+  query('from').optional().isISO8601().withMessage('From must be in ISO 8601 format'),
+  query('to').optional().isISO8601().withMessage('To must be in ISO 8601 format'),
+];
+
+// Roles, their permissions and the caller's access (authenticated)
+router.get('/roles', authenticateUser, adminController.getRoles.bind(adminController));
+
+// Users, including deactivated ones (staff)
+router.get(
+  '/users',
+  requirePermission(Permission.USERS_READ),
+  [
+    ...paginationValidation,
+    query('query').optional().isString().trim().isLength({ min: 2, max: 100 }).withMessage('Query must be 2-100 characters'),
+    query('role').optional().isIn(Object.values(UserRole)).withMessage('Invalid role'),
+    query('isActive').optional().isBoolean().withMessage('isActive must be boolean'),
+  ],
+  validateRequest,
+  adminController.listUsers.bind(adminController)
+);
+
+router.get(
+  '/users/:walletAddress',
+  requirePermission(Permission.USERS_READ),
+  walletAddressValidation,
+  validateRequest,
+  adminController.getUser.bind(adminController)
+);
+
+// Deactivate or reactivate a user (staff)
+router.post(
+  '/users/:walletAddress/deactivate',
+  requirePermission(Permission.USERS_MANAGE),
+  [...walletAddressValidation, reasonValidation],
+  validateRequest,
+  adminController.deactivateUser.bind(adminController)
+);
+
+router.post(
+  '/users/:walletAddress/reactivate',
+  requirePermission(Permission.USERS_MANAGE),
+  [...walletAddressValidation, reasonValidation],
+  validateRequest,
+  adminController.reactivateUser.bind(adminController)
+);
+
+// Replace a user's roles and directly granted permissions (staff)
+router.put(
+  '/users/:walletAddress/access',
+  requirePermission(Permission.ROLES_MANAGE),
+  [
+    ...walletAddressValidation,
+    body('roles')
+      .optional()
+      .isArray()
+      .withMessage('Roles must be an array'),
+    body('roles.*')
+      .isIn(Object.values(UserRole))
+      .withMessage('Invalid role'),
+    body('permissions')
+      .optional()
+      .isArray()
+      .withMessage('Permissions must be an array'),
+    body('permissions.*')
+      .isIn(Object.values(Permission))
+      .withMessage('Invalid permission'),
+    body()
+      .custom((value: UserAccessBody | undefined) => value?.roles !== undefined || value?.permissions !== undefined)
+      .withMessage('Roles or permissions are required'),
+    reasonValidation,
+  ],
+  validateRequest,
+  adminController.updateUserAccess.bind(adminController)
+);
+
+// Requests across every wallet (staff)
+router.get(
+  '/requests',
+  requirePermission(Permission.REQUESTS_READ),
+  [
+    ...paginationValidation,
+    ...dateRangeValidation,
+    query('status').optional().isIn(Object.values(RequestStatus)).withMessage('Invalid status'),
+    query('walletAddress')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid wallet address'),
+  ],
+  validateRequest,
+  adminController.listRequests.bind(adminController)
+);
+
+// Force-retry a failed or stalled request (staff)
+router.post(
+  '/requests/:requestId/retry',
+  requirePermission(Permission.REQUESTS_MANAGE),
+  [...requestIdValidation, reasonValidation],
+  validateRequest,
+  adminController.retryRequest.bind(adminController)
+);
+
+// Fail a request that has not finished (staff)
+router.post(
+  '/requests/:requestId/fail',
+  requirePermission(Permission.REQUESTS_MANAGE),
+  [
+    ...requestIdValidation,
+    body('reason')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 500 })
+      .withMessage('Reason must be 1-500 characters'),
+  ],
+  validateRequest,
+  adminController.failRequest.bind(adminController)
+);
+
+// Feature a collection, or take it off the featured list (staff)
+router.post(
+  '/collections/:collectionId/feature',
+  requirePermission(Permission.COLLECTIONS_MANAGE),
+  [...collectionIdValidation, reasonValidation],
+  validateRequest,
+  adminController.featureCollection.bind(adminController)
+);
+
+router.delete(
+  '/collections/:collectionId/feature',
+  requirePermission(Permission.COLLECTIONS_MANAGE),
+  [...collectionIdValidation, reasonValidation],
+  validateRequest,
+  adminController.unfeatureCollection.bind(adminController)
+);
+
+// Audit log of staff actions (staff)
+router.get(
+  '/audit',
+  requirePermission(Permission.AUDIT_READ),
+  [
+    ...paginationValidation,
+    ...dateRangeValidation,
+    query('actorWallet')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid wallet address'),
+    query('action').optional().isIn(AUDIT_ACTIONS).withMessage('Invalid action'),
+    query('targetType').optional().isIn(['user', 'request', 'collection']).withMessage('Invalid target type'),
+    query('targetId').optional().isString().trim().isLength({ max: 100 }).withMessage('Invalid target ID'),
+  ],
+  validateRequest,
+  adminController.getAuditLogs.bind(adminController)
+);
+
+export { router as adminRoutes };
\ No newline at end of file
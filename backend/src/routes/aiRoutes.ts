@@ -1,7 +1,10 @@
 import { Router } from 'express';
 import { AIController } from '@/controllers/AIController';
 import { authenticateUser, optionalAuth, rateLimitByUser } from '@/middleware/auth';
-import { validateRequest } from '@/middleware/validation';
+import { validateRequest, generationParamsValidation } from '@/middleware/validation';
+import { referenceImageUpload } from '@/middleware/upload';
+import { enforceGenerationQuota } from '@/middleware/quota';
+import { METADATA_PROFILES } from '@/services/MetadataService';
 import { body } from 'express-validator';
 
 const router = Router();
@@ -12,27 +15,25 @@ router.post(
   '/generate',
   authenticateUser,
   rateLimitByUser(5, 60000), // 5 requests per minute
+  referenceImageUpload,
   [
     body('prompt')
       .isString()
       .trim()
       .isLength({ min: 5, max: 1000 })
       .withMessage('Prompt must be between 5 and 1000 characters'),
-    body('style')
-      .optional()
-      .isString()
-      .trim()
-      .isIn(['digital-art', 'cyberpunk', 'abstract', 'fantasy', 'realistic', 'minimalist', 'surreal', 'vibrant'])
-      .withMessage('Invalid style option'),
     body('destinationChainId')
       .isInt({ min: 1 })
+      .toInt()
       .withMessage('Valid destination chain ID is required'),
     body('recipient')
       .optional()
       .isEthereumAddress()
       .withMessage('Invalid recipient address'),
+    ...generationParamsValidation,
   ],
   validateRequest,
+  enforceGenerationQuota(),
   aiController.generateNFTArtwork.bind(aiController)
 );
 
@@ -63,6 +64,30 @@ router.get(
   aiController.analyzeUserPreferences.bind(aiController)
 );
 
+// Validate NFT metadata and preview it in a marketplace profile
+router.post(
+  '/metadata/validate',
+  optionalAuth,
+  [
+    body('metadata')
+      .isObject()
+      .withMessage('Metadata must be an object'),
+    body('profile')
+      .optional()
+      .isIn(METADATA_PROFILES)
+      .withMessage(`Profile must be one of ${METADATA_PROFILES.join(', ')}`),
+    body('tokenId')
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('Token ID must be a non-negative integer'),
+  ],
+  validateRequest,
+  aiController.validateMetadata.bind(aiController)
+);
+
+// Available image generation providers
+router.get('/providers', aiController.getImageProviders.bind(aiController));
+
 // AI Health Check
 router.get('/health', aiController.healthCheck.bind(aiController));
 
@@ -1,13 +1,20 @@
 import { Router } from 'express';
 import { param, query } from 'express-validator';
 import { analyticsController } from '@/controllers/AnalyticsController';
-import { authenticateUser } from '@/middleware/auth';
+import { authenticateUser, hasPermission, optionalAuth, requireAdmin } from '@/middleware/auth';
+import { cacheResponse } from '@/middleware/cache';
 import { validateRequest } from '@/middleware/validation';
+import { Permission } from '@/types';
 
 const router = Router();
 
-// Get dashboard data (public/authenticated)
-router.get('/dashboard', analyticsController.getDashboardData);
+// Get dashboard data (public/authenticated, provider costs for usage readers)
+router.get(
+  '/dashboard',
+  optionalAuth,
+  cacheResponse({ ttlSeconds: 60, tags: ['requests'], bypass: req => hasPermission(req, Permission.USAGE_READ) }),
+  analyticsController.getDashboardData
+);
 
 // Get system health (public)
 router.get('/health', analyticsController.getSystemHealth);
@@ -20,6 +27,7 @@ router.get(
     query('endDate').optional().isISO8601().withMessage('End date must be in ISO 8601 format'),
   ],
   validateRequest,
+  cacheResponse({ ttlSeconds: 300, tags: ['requests'] }),
   analyticsController.getPlatformStats
 );
 
@@ -61,9 +69,10 @@ router.get(
   analyticsController.generateAnalyticsReport
 );
 
-// Admin routes (would need admin middleware in production)
+// Admin routes
 router.post(
   '/generate/daily',
+  requireAdmin,
   [
     query('date').optional().isISO8601().withMessage('Date must be in ISO 8601 format'),
   ],
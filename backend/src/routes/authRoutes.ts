@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { AuthController } from '@/controllers/AuthController';
 import { validateRequest } from '@/middleware/validation';
-import { body } from 'express-validator';
+import { body, param } from 'express-validator';
 import { rateLimitByUser, authenticateUser } from '@/middleware/auth';
 
 const router = Router();
@@ -15,6 +15,10 @@ router.post(
     body('walletAddress')
       .isEthereumAddress()
       .withMessage('Valid wallet address is required'),
+    body('chainId')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Chain ID must be a positive integer'),
   ],
   validateRequest,
   authController.getChallenge.bind(authController)
@@ -29,15 +33,14 @@ router.post(
       .isEthereumAddress()
       .withMessage('Valid wallet address is required'),
     body('signature')
-      .optional()
       .isString()
-      .isLength({ min: 130, max: 132 })
-      .matches(/^0x[a-fA-F0-9]{130}$/)
+      .isLength({ max: 20000 })
+      .matches(/^0x([a-fA-F0-9]{2})+$/)
       .withMessage('Invalid signature format'),
     body('challenge')
-      .optional()
       .isString()
-      .withMessage('Challenge message is required when signature is provided'),
+      .notEmpty()
+      .withMessage('Signed SIWE challenge message is required'),
     body('username')
       .optional()
       .isString()
@@ -62,19 +65,50 @@ router.get(
   authController.getCurrentUser.bind(authController)
 );
 
-// Refresh token
+// Rotate refresh token (access token may already be expired)
 router.post(
   '/refresh',
-  authenticateUser,
   rateLimitByUser(20, 60000), // 20 refresh attempts per minute
+  [
+    body('refreshToken')
+      .isString()
+      .isJWT()
+      .withMessage('Valid refresh token is required'),
+  ],
+  validateRequest,
   authController.refreshToken.bind(authController)
 );
 
-// Logout (optional - mainly for cleanup)
+// Logout (revokes the current session)
 router.post(
   '/logout',
   authenticateUser,
   authController.logout.bind(authController)
 );
 
+// Session management
+router.get(
+  '/sessions',
+  authenticateUser,
+  authController.getSessions.bind(authController)
+);
+
+router.delete(
+  '/sessions',
+  authenticateUser,
+  authController.revokeOtherSessions.bind(authController)
+);
+
+router.delete(
+  '/sessions/:sessionId',
+  authenticateUser,
+  [
+    param('sessionId')
+      .isUUID()
+      .withMessage('Valid session ID is required'),
+  ],
+  validateRequest,
+  authController.revokeSession.bind(authController)
+);
+
 export { router as authRoutes };
\ No newline at end of file
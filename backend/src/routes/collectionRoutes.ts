@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { body, param, query } from 'express-validator';
 import { collectionController } from '@/controllers/CollectionController';
 import { authenticateUser } from '@/middleware/auth';
+import { cacheResponse } from '@/middleware/cache';
 import { validateRequest } from '@/middleware/validation';
 
 const router = Router();
@@ -48,6 +49,7 @@ router.get(
     query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50'),
   ],
   validateRequest,
+  cacheResponse({ ttlSeconds: 300, tags: ['collections'] }),
   collectionController.getFeaturedCollections
 );
 
@@ -59,6 +61,7 @@ router.get(
     query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50'),
   ],
   validateRequest,
+  cacheResponse({ ttlSeconds: 120, tags: ['collections', 'requests'] }),
   collectionController.getTrendingCollections
 );
 
@@ -138,6 +141,17 @@ router.patch(
   collectionController.updateCollection
 );
 
+// Freeze token metadata into one immutable IPFS directory (authenticated, creator only)
+router.post(
+  '/:collectionId/freeze',
+  authenticateUser,
+  [
+    param('collectionId').isMongoId().withMessage('Invalid collection ID'),
+  ],
+  validateRequest,
+  collectionController.freezeMetadata.bind(collectionController)
+);
+
 // Deactivate collection (authenticated, creator only)
 router.delete(
   '/:collectionId',
@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import swaggerUi from 'swagger-ui-express';
+import { apiRoutes, apiRouteGroups } from '@/routes';
+import { authenticateUser, describeAccessGuard, optionalAuth } from '@/middleware/auth';
+import { referenceImageUpload, REFERENCE_UPLOAD_FIELDS } from '@/middleware/upload';
+import { buildOpenApiDocument, OpenApiDocument } from '@/utils/openapi';
+
+const router = Router();
+
+let apiDocument: OpenApiDocument | null = null;
+
+/**
+ * OpenAPI document for every route under /api/v1, built once from the
+ * registered routes and their validation chains
+ */
+export const getApiDocument = (): OpenApiDocument => {
+  if (!apiDocument) {
+    apiDocument = buildOpenApiDocument({
+      title: 'ChainWeave AI Backend API',
+      version: '1.0.0',
+      description: 'AI-generated NFTs minted cross-chain through ZetaChain. '
+        + 'Every response uses the `ApiResponse` envelope; authenticate with the access token from `/auth`.',
+      serverUrl: '/api/v1',
+      routers: [['', apiRoutes], ...apiRouteGroups],
+      middleware: {
+        authenticated: [authenticateUser],
+        optionallyAuthenticated: [optionalAuth],
+        describeAccess: describeAccessGuard,
+        uploads: [{ handler: referenceImageUpload, fields: REFERENCE_UPLOAD_FIELDS }],
+      },
+    });
+  }
+
+  return apiDocument;
+};
+
+// OpenAPI 3 document (public)
+router.get('/openapi.json', (_req, res) => {
+  res.json(getApiDocument());
+});
+
+// Browsable API reference (public)
+router.use(
+  '/docs',
+  swaggerUi.serve,
+  swaggerUi.setup(undefined, { swaggerOptions: { url: '/api/v1/openapi.json' } })
+);
+
+export { router as docsRoutes };
\ No newline at end of file
@@ -6,6 +6,11 @@ import { analyticsRoutes } from './analyticsRoutes';
 import { aiRoutes } from './aiRoutes';
 import { authRoutes } from './authRoutes';
 import { activityRoutes } from './activityRoutes';
+import { streamRoutes } from './streamRoutes';
+import { moderationRoutes } from './moderationRoutes';
+import { usageRoutes } from './usageRoutes';
+import { webhookRoutes } from './webhookRoutes';
+import { adminRoutes } from './adminRoutes';
 
 const router = Router();
 
@@ -19,13 +24,24 @@ router.get('/health', (_req, res) => {
   });
 });
 
-// API route groups
-router.use('/auth', authRoutes);
-router.use('/ai', aiRoutes);
-router.use('/users', userRoutes);
-router.use('/requests', nftRequestRoutes);
-router.use('/collections', collectionRoutes);
-router.use('/analytics', analyticsRoutes);
-router.use('/activity', activityRoutes);
+// API route groups, by mount path
+export const apiRouteGroups: Array<[string, Router]> = [
+  ['/auth', authRoutes],
+  ['/ai', aiRoutes],
+  ['/users', userRoutes],
+  ['/requests', nftRequestRoutes],
+  ['/collections', collectionRoutes],
+  ['/analytics', analyticsRoutes],
+  ['/activity', activityRoutes],
+  ['/stream', streamRoutes],
+  ['/moderation', moderationRoutes],
+  ['/usage', usageRoutes],
+  ['/webhooks', webhookRoutes],
+  ['/admin', adminRoutes],
+];
+
+for (const [path, routes] of apiRouteGroups) {
+  router.use(path, routes);
+}
 
 export { router as apiRoutes };
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { moderationController } from '@/controllers/ModerationController';
+import { requirePermission } from '@/middleware/auth';
+import { validateRequest } from '@/middleware/validation';
+import { Permission } from '@/types';
+
+const router = Router();
+
+const decisionIdValidation = [
+  param('decisionId')
+    .isMongoId()
+    .withMessage('Invalid decision ID'),
+];
+
+const paginationValidation = [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+];
+
+// Active rule set and classifiers (moderators)
+router.get(
+  '/rules',
+  requirePermission(Permission.MODERATION_REVIEW),
+  moderationController.getRules.bind(moderationController)
+);
+
+// Content waiting for review (moderators)
+router.get(
+  '/queue',
+  requirePermission(Permission.MODERATION_REVIEW),
+  paginationValidation,
+  validateRequest,
+  moderationController.getReviewQueue.bind(moderationController)
+);
+
+// Audit log of moderation decisions (moderators)
+router.get(
+  '/decisions',
+  requirePermission(Permission.MODERATION_REVIEW),
+  [
+    ...paginationValidation,
+    query('requestId')
+      .optional()
+      .matches(/^[a-f0-9]{64}$/)
+      .withMessage('Invalid request ID format'),
+    query('walletAddress')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid wallet address'),
+    query('subject')
+      .optional()
+      .isIn(['prompt', 'reference', 'image'])
+      .withMessage('Invalid subject'),
+    query('action')
+      .optional()
+      .isIn(['allow', 'review', 'block'])
+      .withMessage('Invalid action'),
+  ],
+  validateRequest,
+  moderationController.getDecisions.bind(moderationController)
+);
+
+router.get(
+  '/decisions/:decisionId',
+  requirePermission(Permission.MODERATION_REVIEW),
+  decisionIdValidation,
+  validateRequest,
+  moderationController.getDecision.bind(moderationController)
+);
+
+// Generated image held for review (moderators)
+router.get(
+  '/decisions/:decisionId/image',
+  requirePermission(Permission.MODERATION_REVIEW),
+  decisionIdValidation,
+  validateRequest,
+  moderationController.getDecisionImage.bind(moderationController)
+);
+
+const reviewValidation = [
+  ...decisionIdValidation,
+  body('note')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Note cannot exceed 1000 characters'),
+];
+
+// Resolve a pending review (moderators)
+router.post(
+  '/decisions/:decisionId/approve',
+  requirePermission(Permission.MODERATION_REVIEW),
+  reviewValidation,
+  validateRequest,
+  moderationController.approveDecision.bind(moderationController)
+);
+
+router.post(
+  '/decisions/:decisionId/reject',
+  requirePermission(Permission.MODERATION_REVIEW),
+  reviewValidation,
+  validateRequest,
+  moderationController.rejectDecision.bind(moderationController)
+);
+
+export { router as moderationRoutes };
\ No newline at end of file
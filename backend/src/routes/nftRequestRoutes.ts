@@ -1,8 +1,11 @@
 import { Router } from 'express';
 import { body, param, query } from 'express-validator';
 import { nftRequestController } from '@/controllers/NFTRequestController';
-import { authenticateUser } from '@/middleware/auth';
-import { validateRequest } from '@/middleware/validation';
+import { authenticateUser, optionalAuth } from '@/middleware/auth';
+import { validateRequest, generationParamsValidation } from '@/middleware/validation';
+import { referenceImageUpload } from '@/middleware/upload';
+import { countRequestImages, enforceGenerationQuota } from '@/middleware/quota';
+import { VariantSelectionBody } from '@/types';
 
 const router = Router();
 
@@ -10,6 +13,7 @@ const router = Router();
 router.post(
   '/',
   authenticateUser,
+  referenceImageUpload,
   [
     body('prompt')
       .isString()
@@ -17,13 +21,16 @@ router.post(
       .withMessage('Prompt must be 10-1000 characters'),
     body('destinationChainId')
       .isInt({ min: 1 })
+      .toInt()
       .withMessage('Destination chain ID must be a positive integer'),
     body('recipient')
       .optional()
       .matches(/^0x[a-fA-F0-9]{40}$/)
       .withMessage('Recipient must be a valid wallet address'),
+    ...generationParamsValidation,
   ],
   validateRequest,
+  enforceGenerationQuota(),
   nftRequestController.createRequest
 );
 
@@ -31,15 +38,41 @@ router.post(
 router.get('/me', authenticateUser, nftRequestController.getUserRequests);
 
 // Get user's NFT collection in frontend format (authenticated)
-router.get('/collection', authenticateUser, nftRequestController.getUserCollection);
+router.get(
+  '/collection',
+  authenticateUser,
+  nftRequestController.getUserCollection.bind(nftRequestController)
+);
+
+// Get NFTs the current user has liked (authenticated)
+router.get(
+  '/favorites',
+  authenticateUser,
+  [
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50'),
+  ],
+  validateRequest,
+  nftRequestController.getFavorites.bind(nftRequestController)
+);
 
 // Like/unlike NFT (authenticated)
-router.post('/:requestId/like', authenticateUser, 
+router.post(
+  '/:requestId/like',
+  authenticateUser,
   [
-    param('requestId').isString().withMessage('Request ID is required'),
+    param('requestId')
+      .isString()
+      .isLength({ min: 64, max: 64 })
+      .matches(/^[a-f0-9]{64}$/)
+      .withMessage('Invalid request ID format'),
+    body('liked')
+      .optional()
+      .isBoolean({ strict: true })
+      .withMessage('liked must be a boolean'),
   ],
   validateRequest,
-  nftRequestController.toggleLike
+  nftRequestController.toggleLike.bind(nftRequestController)
 );
 
 // Get request by ID (public)
@@ -83,12 +116,73 @@ router.patch(
       .withMessage('Invalid request ID format'),
   ],
   validateRequest,
+  enforceGenerationQuota(countRequestImages),
   nftRequestController.retryRequest
 );
 
-// Get requests by wallet address (public)
+// List draft variants awaiting selection (authenticated)
+router.get(
+  '/:requestId/variants',
+  authenticateUser,
+  [
+    param('requestId')
+      .isString()
+      .isLength({ min: 64, max: 64 })
+      .matches(/^[a-f0-9]{64}$/)
+      .withMessage('Invalid request ID format'),
+  ],
+  validateRequest,
+  nftRequestController.getVariants.bind(nftRequestController)
+);
+
+// Draft variant image (authenticated)
+router.get(
+  '/:requestId/variants/:variantId/image',
+  authenticateUser,
+  [
+    param('requestId')
+      .isString()
+      .isLength({ min: 64, max: 64 })
+      .matches(/^[a-f0-9]{64}$/)
+      .withMessage('Invalid request ID format'),
+    param('variantId')
+      .isMongoId()
+      .withMessage('Invalid variant ID'),
+  ],
+  validateRequest,
+  nftRequestController.getVariantImage.bind(nftRequestController)
+);
+
+// Select a variant to mint, or regenerate (authenticated)
+router.post(
+  '/:requestId/selection',
+  authenticateUser,
+  [
+    param('requestId')
+      .isString()
+      .isLength({ min: 64, max: 64 })
+      .matches(/^[a-f0-9]{64}$/)
+      .withMessage('Invalid request ID format'),
+    body('regenerate')
+      .optional()
+      .isBoolean({ strict: true })
+      .withMessage('regenerate must be a boolean')
+      .toBoolean(true),
+    body('variantId')
+      .if(body('regenerate').not().equals('true'))
+      .isMongoId()
+      .withMessage('A valid variant ID is required unless regenerating'),
+  ],
+  validateRequest,
+  // Only a regeneration makes new images
+  enforceGenerationQuota(req => ((req.body as VariantSelectionBody).regenerate === true ? countRequestImages(req) : 0)),
+  nftRequestController.submitSelection.bind(nftRequestController)
+);
+
+// Get requests by wallet address (public, liked flags when signed in)
 router.get(
   '/wallet/:walletAddress',
+  optionalAuth,
   [
     param('walletAddress')
       .matches(/^0x[a-fA-F0-9]{40}$/)
@@ -122,7 +216,7 @@ router.get(
   '/status/:status',
   [
     param('status')
-      .isIn(['pending', 'processing', 'ai_completed', 'completed', 'failed', 'cancelled'])
+      .isIn(['pending', 'processing', 'awaiting_selection', 'under_review', 'ai_completed', 'completed', 'failed', 'cancelled', 'rejected'])
       .withMessage('Invalid status'),
     query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
     query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { StreamController } from '@/controllers/StreamController';
+import { allowQueryToken, authenticateUser } from '@/middleware/auth';
+
+const router = Router();
+const streamController = new StreamController();
+
+// Real-time events for the authenticated wallet (Server-Sent Events)
+router.get(
+  '/',
+  allowQueryToken,
+  authenticateUser,
+  streamController.streamEvents.bind(streamController)
+);
+
+export { router as streamRoutes };
\ No newline at end of file
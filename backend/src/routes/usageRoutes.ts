@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { usageController } from '@/controllers/UsageController';
+import { authenticateUser, requirePermission } from '@/middleware/auth';
+import { validateRequest } from '@/middleware/validation';
+import { Permission } from '@/types';
+
+const router = Router();
+
+const walletAddressValidation = [
+  param('walletAddress')
+    .matches(/^0x[a-fA-F0-9]{40}$/)
+    .withMessage('Invalid wallet address format'),
+];
+
+// Quota tiers (public)
+router.get('/tiers', usageController.getTiers.bind(usageController));
+
+// Current user's usage and remaining allowance (authenticated)
+router.get('/me', authenticateUser, usageController.getMyAllowance.bind(usageController));
+
+// Usage and remaining allowance of a wallet (staff)
+router.get(
+  '/users/:walletAddress',
+  requirePermission(Permission.USAGE_READ),
+  walletAddressValidation,
+  validateRequest,
+  usageController.getAllowance.bind(usageController)
+);
+
+// Change a user's quota tier (admin)
+router.put(
+  '/users/:walletAddress/tier',
+  requirePermission(Permission.USAGE_MANAGE),
+  [
+    ...walletAddressValidation,
+    body('tier')
+      .isString()
+      .trim()
+      .notEmpty()
+      .withMessage('Tier is required'),
+  ],
+  validateRequest,
+  usageController.setTier.bind(usageController)
+);
+
+export { router as usageRoutes };
\ No newline at end of file
@@ -1,8 +1,9 @@
 import { Router } from 'express';
 import { body, param } from 'express-validator';
 import { userController } from '@/controllers/UserController';
-import { authenticateUser } from '@/middleware/auth';
+import { authenticateUser, requirePermission } from '@/middleware/auth';
 import { validateRequest } from '@/middleware/validation';
+import { Permission } from '@/types';
 
 const router = Router();
 
@@ -39,6 +40,9 @@ router.patch(
     body('preferences').optional().isObject().withMessage('Preferences must be an object'),
     body('preferences.publicProfile').optional().isBoolean().withMessage('publicProfile must be a boolean'),
     body('preferences.emailNotifications').optional().isBoolean().withMessage('emailNotifications must be a boolean'),
+    body('preferences.notifications').optional().isBoolean().withMessage('notifications must be a boolean'),
+    body('preferences.notificationTypes').optional().isObject().withMessage('notificationTypes must be an object'),
+    body('preferences.notificationTypes.*').optional().isBoolean().withMessage('Notification type switches must be booleans'),
     body('preferences.theme').optional().isIn(['light', 'dark']).withMessage('Theme must be light or dark'),
   ],
   validateRequest,
@@ -94,8 +98,8 @@ router.get(
   userController.getPublicNFTHistory
 );
 
-// Admin routes (would need admin middleware in production)
-router.get('/search', userController.searchUsers);
-router.get('/', userController.getAllUsers);
+// Staff routes
+router.get('/search', requirePermission(Permission.USERS_READ), userController.searchUsers);
+router.get('/', requirePermission(Permission.USERS_READ), userController.getAllUsers);
 
 export { router as userRoutes };
\ No newline at end of file
@@ -0,0 +1,167 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { config } from '@/config/env';
+import { webhookController } from '@/controllers/WebhookController';
+import { WEBHOOK_EVENTS } from '@/models/WebhookEndpoint';
+import { authenticateUser } from '@/middleware/auth';
+import { validateRequest } from '@/middleware/validation';
+import { resolvesToPublicHost } from '@/utils/network';
+
+const router = Router();
+
+// Plain http is only accepted outside production
+const urlProtocols = config.env === 'production' ? ['https'] : ['http', 'https'];
+
+const endpointIdValidation = [
+  param('endpointId')
+    .isMongoId()
+    .withMessage('Invalid endpoint ID'),
+];
+
+const urlValidation = (optional: boolean) => {
+  const chain = body('url');
+  return (optional ? chain.optional() : chain)
+    .isURL({ protocols: urlProtocols, require_protocol: true, require_tld: config.env === 'production' })
+    .withMessage(`URL must be a valid ${urlProtocols.join(' or ')} URL`)
+    .bail()
+    // Deliveries must not reach this server's own network
+    .custom(async (url: string) => {
+      if (!(await resolvesToPublicHost(url))) {
+        throw new Error('URL must use a host name that resolves to a public address');
+      }
+    });
+};
+
+const eventsValidation = (optional: boolean) => {
+  const chain = body('events');
+  return [
+    (optional ? chain.optional() : chain)
+      .isArray({ min: 1 })
+      .withMessage('Events must be a non-empty array'),
+    body('events.*')
+      .isIn(WEBHOOK_EVENTS)
+      .withMessage(`Events must be from: ${WEBHOOK_EVENTS.join(', ')}`),
+  ];
+};
+
+const descriptionValidation = body('description')
+  .optional()
+  .isString()
+  .isLength({ max: 200 })
+  .withMessage('Description must be at most 200 characters');
+
+// Subscribable events (public)
+router.get('/events', webhookController.getEvents.bind(webhookController));
+
+// Register an endpoint (authenticated)
+router.post(
+  '/',
+  authenticateUser,
+  [
+    urlValidation(false),
+    ...eventsValidation(false),
+    descriptionValidation,
+    body('allWallets')
+      .optional()
+      .isBoolean()
+      .withMessage('allWallets must be a boolean'),
+  ],
+  validateRequest,
+  webhookController.createEndpoint.bind(webhookController)
+);
+
+// Current user's endpoints (authenticated)
+router.get('/', authenticateUser, webhookController.listEndpoints.bind(webhookController));
+
+// Endpoint details (authenticated)
+router.get(
+  '/:endpointId',
+  authenticateUser,
+  endpointIdValidation,
+  validateRequest,
+  webhookController.getEndpoint.bind(webhookController)
+);
+
+// Update, disable or re-enable an endpoint (authenticated)
+router.patch(
+  '/:endpointId',
+  authenticateUser,
+  [
+    ...endpointIdValidation,
+    urlValidation(true),
+    ...eventsValidation(true),
+    descriptionValidation,
+    body('isActive')
+      .optional()
+      .isBoolean()
+      .withMessage('isActive must be a boolean'),
+  ],
+  validateRequest,
+  webhookController.updateEndpoint.bind(webhookController)
+);
+
+// Delete an endpoint (authenticated)
+router.delete(
+  '/:endpointId',
+  authenticateUser,
+  endpointIdValidation,
+  validateRequest,
+  webhookController.deleteEndpoint.bind(webhookController)
+);
+
+// Current signing secret (authenticated)
+router.get(
+  '/:endpointId/secret',
+  authenticateUser,
+  endpointIdValidation,
+  validateRequest,
+  webhookController.getSecret.bind(webhookController)
+);
+
+// Rotate the signing secret (authenticated)
+router.post(
+  '/:endpointId/secret/rotate',
+  authenticateUser,
+  endpointIdValidation,
+  validateRequest,
+  webhookController.rotateSecret.bind(webhookController)
+);
+
+// Send a test event (authenticated)
+router.post(
+  '/:endpointId/test',
+  authenticateUser,
+  endpointIdValidation,
+  validateRequest,
+  webhookController.sendTest.bind(webhookController)
+);
+
+// Delivery log (authenticated)
+router.get(
+  '/:endpointId/deliveries',
+  authenticateUser,
+  [
+    ...endpointIdValidation,
+    query('status').optional().isIn(['pending', 'delivering', 'delivered', 'failed']).withMessage('Invalid delivery status'),
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  ],
+  validateRequest,
+  webhookController.getDeliveries.bind(webhookController)
+);
+
+// Replay a logged delivery (authenticated)
+router.post(
+  '/:endpointId/deliveries/:deliveryId/replay',
+  authenticateUser,
+  [
+    ...endpointIdValidation,
+    param('deliveryId')
+      .matches(/^dlv_[0-9a-f-]{36}$/)
+      .withMessage('Invalid delivery ID'),
+  ],
+  validateRequest,
+  webhookController.replayDelivery.bind(webhookController)
+);
+
+export { router as webhookRoutes };
\ No newline at end of file
@@ -0,0 +1,38 @@
+#!/usr/bin/env ts-node
+
+/**
+ * API Client Generator
+ * Builds the OpenAPI document from the registered routes and validators, and
+ * writes it together with the typed client the frontend imports.
+ *
+ * Usage (with the usual backend environment, as the routes load their services):
+ *   npm run generate:api
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getApiDocument } from '@/routes/docsRoutes';
+import { generateApiClient } from '@/utils/openapiClient';
+
+const SPEC_PATH = path.resolve(__dirname, '../../openapi.json');
+const CLIENT_PATH = path.resolve(__dirname, '../../../frontend/lib/api-client.ts');
+
+function main(): void {
+  const document = getApiDocument();
+  const operationCount = Object.values(document.paths)
+    .reduce((total, methods) => total + Object.keys(methods).length, 0);
+
+  fs.writeFileSync(SPEC_PATH, `${JSON.stringify(document, null, 2)}\n`);
+  fs.writeFileSync(CLIENT_PATH, generateApiClient(document, '`npm run generate:api` in backend/'));
+
+  console.log(`📄 OpenAPI document: ${path.relative(process.cwd(), SPEC_PATH)} (${operationCount} operations)`);
+  console.log(`🧩 Typed client: ${path.relative(process.cwd(), CLIENT_PATH)}`);
+}
+
+try {
+  main();
+  process.exit(0);
+} catch (error) {
+  console.error('❌ API client generation failed:', error);
+  process.exit(1);
+}
\ No newline at end of file
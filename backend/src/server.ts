@@ -1,11 +1,23 @@
 import express from 'express';
+import 'express-async-errors';
+import { Server } from 'http';
 import helmet from 'helmet';
 import compression from 'compression';
 import { corsMiddleware } from '@/middleware/cors';
 import { generalLimiter } from '@/middleware/rateLimiter';
 import { sanitizeInput, limitRequestSize } from '@/middleware/validation';
 import { apiRoutes } from '@/routes';
+import { docsRoutes } from '@/routes/docsRoutes';
+import { healthController } from '@/controllers/HealthController';
 import { connectToDatabase } from '@/config/database';
+import { disconnectFromRedis } from '@/config/redis';
+import { generationQueue } from '@/services/JobQueueService';
+import { nftRequestService } from '@/services/NFTRequestService';
+import { blockchainService } from '@/services/BlockchainService';
+import { destinationChainService } from '@/services/DestinationChainService';
+import { realtimeService } from '@/services/RealtimeService';
+import { ipfsService } from '@/services/IPFSService';
+import { webhookService } from '@/services/WebhookService';
 import { config } from '@/config/env';
 import { logger, performanceLogger } from '@/utils/logger';
 import { ApiResponse } from '@/types';
@@ -35,7 +47,7 @@ app.use(corsMiddleware);
 app.use(compression());
 
 // Request size limiting
-app.use(limitRequestSize(2 * 1024 * 1024)); // 2MB limit
+app.use(limitRequestSize(2 * 1024 * 1024)); // 2MB limit; uploads are sized by their own middleware
 
 // Rate limiting
 app.use(generalLimiter);
@@ -78,18 +90,13 @@ app.use((req, res, next) => {
 
 // API routes
 app.use('/api/v1', apiRoutes);
+app.use('/api/v1', docsRoutes);
 
-// Health check endpoint
-app.get('/health', (_req, res) => {
-  res.json({
-    success: true,
-    message: 'ChainWeave AI Backend is healthy',
-    timestamp: new Date().toISOString(),
-    uptime: process.uptime(),
-    version: '1.0.0',
-    environment: config.env,
-  });
-});
+// Health check endpoints: liveness only looks at the process, readiness at every dependency
+app.get('/health', healthController.getLiveness.bind(healthController));
+app.get('/health/live', healthController.getLiveness.bind(healthController));
+// Readiness answers its own errors, so nothing is left for the error middleware
+app.get('/health/ready', (req, res) => void healthController.getReadiness(req, res));
 
 // Root endpoint
 app.get('/', (_req, res) => {
@@ -97,7 +104,7 @@ app.get('/', (_req, res) => {
     success: true,
     message: 'ChainWeave AI Backend API',
     version: '1.0.0',
-    documentation: '/api/v1',
+    documentation: '/api/v1/docs',
     health: '/health',
   });
 });
@@ -131,20 +138,43 @@ app.use((error: any, req: express.Request, res: express.Response, _next: express
   } as ApiResponse);
 });
 
+// Background work that has to finish before the process exits
+const stopBackgroundServices = async (): Promise<void> => {
+  await blockchainService.stopEventIndexer();
+  await destinationChainService.stop();
+  await generationQueue.stop();
+  await ipfsService.stopReconciliation();
+  await webhookService.stop();
+  await realtimeService.stop();
+  await disconnectFromRedis();
+};
+
 // Graceful shutdown handler
-const gracefulShutdown = (signal: string, serverInstance: any) => {
+const gracefulShutdown = (signal: string, serverInstance: Server) => {
   logger.info(`Received ${signal}. Starting graceful shutdown...`);
   
-  serverInstance.close((err: any) => {
+  serverInstance.close((err?: Error) => {
     if (err) {
       logger.error('Error during graceful shutdown', { error: err.message });
       process.exit(1);
     }
-    
-    logger.info('Server closed successfully');
-    process.exit(0);
+
+    stopBackgroundServices()
+      .then(() => {
+        logger.info('Server closed successfully');
+        process.exit(0);
+      })
+      .catch((error: unknown) => {
+        logger.error('Error during graceful shutdown', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        process.exit(1);
+      });
   });
 
+  // Open event streams would otherwise keep the server from closing
+  realtimeService.closeStreams();
+
   // Force shutdown after 30 seconds
   setTimeout(() => {
     logger.error('Forced shutdown due to timeout');
@@ -159,6 +189,35 @@ const startServer = async () => {
     await connectToDatabase();
     logger.info('Database connected successfully');
 
+    // Push channel for request status, chain events and notifications
+    await realtimeService.start();
+
+    // Start background AI generation worker
+    if (config.queue.enabled) {
+      await nftRequestService.recoverStalledRequests();
+      generationQueue.start({
+        process: job => nftRequestService.processQueuedRequest(job),
+        onRetry: (job, error) => nftRequestService.markRequestForRetry(job, error),
+        onDead: (job, error) => nftRequestService.failDeadRequest(job, error),
+      });
+    }
+
+    // Index ChainWeave and destination CrossChainMinter events, backfilling anything missed while down
+    if (config.indexer.enabled) {
+      blockchainService.startEventIndexer();
+      destinationChainService.start();
+    }
+
+    // Re-pin CIDs that a pinning provider has lost or never received
+    if (config.ipfs.reconcile.enabled) {
+      ipfsService.startReconciliation();
+    }
+
+    // Send queued webhook deliveries
+    if (config.webhook.enabled) {
+      webhookService.start();
+    }
+
     // Start server
     const server = app.listen(config.port, () => {
       logger.info(`ChainWeave AI Backend running on port ${config.port}`, {
@@ -1,51 +1,148 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import OpenAI from 'openai';
+import { GenerativeModel, GoogleGenerativeAI } from '@google/generative-ai';
+import axios from 'axios';
+import crypto from 'crypto';
 import { config } from '@/config/env';
 import { aiLogger } from '@/utils/logger';
-import { AIGenerationRequest, AIGenerationResult, ServiceResponse, NFTMetadata } from '@/types';
-import { IPFSService } from './IPFSService';
-
-interface ImageGenerationResponse {
-  images: Array<{
-    url: string;
-    description?: string;
-  }>;
-  prompt: string;
-  model: string;
-  processingTime: number;
+import {
+  AIGenerationRequest,
+  AIGenerationResult,
+  ServiceResponse,
+  NFTMetadata,
+  NFTAttribute,
+  MetadataProfile,
+  ReferenceImageInput,
+  ReferenceImageOptions,
+  ReferenceMode,
+  ReferenceUploads,
+  UploadedFile,
+  UsageItem,
+} from '@/types';
+import { IPFSService, ipfsService } from './IPFSService';
+import { GeneratedImage, imageProviderRegistry } from './ImageProviderService';
+import { ModerationContext, moderationService } from './ModerationService';
+import { generationCacheService, toDuplicateFlag } from './GenerationCacheService';
+import { estimateTokens } from './UsageService';
+import { metadataService } from './MetadataService';
+
+// How long after falling back to another image provider the service reports as degraded
+const FALLBACK_DEGRADED_WINDOW_MS = 15 * 60 * 1000;
+
+// Generated image together with the Gemini description it was rendered from
+export interface ArtworkVariant extends GeneratedImage {
+  description?: string;
 }
 
 export class AIService {
   private genAI: GoogleGenerativeAI;
-  private openai: OpenAI | null;
   private ipfsService: IPFSService;
-  private model: any;
+  private model: GenerativeModel;
 
   constructor() {
     this.genAI = new GoogleGenerativeAI(config.ai.gemini.apiKey);
     this.model = this.genAI.getGenerativeModel({ model: config.ai.gemini.model });
-    this.ipfsService = new IPFSService();
-    
-    // Initialize OpenAI if API key is provided
-    this.openai = config.ai.openai.apiKey 
-      ? new OpenAI({ apiKey: config.ai.openai.apiKey })
-      : null;
+    this.ipfsService = ipfsService;
   }
 
   /**
-   * Generate AI artwork and create NFT metadata
+   * Generate AI artwork and create NFT metadata.
+   * The image is moderated and checked for duplicates before it is pinned;
+   * there is nowhere to hold it for review here, so anything flagged is blocked.
    */
-  public async generateNFTArtwork(request: AIGenerationRequest): Promise<ServiceResponse<AIGenerationResult>> {
+  public async generateNFTArtwork(
+    request: AIGenerationRequest,
+    moderation: ModerationContext = {}
+  ): Promise<ServiceResponse<AIGenerationResult>> {
     const startTime = Date.now();
     
+    aiLogger.info('Starting AI artwork generation', {
+      prompt: request.prompt.substring(0, 100) + '...',
+      style: request.style,
+      provider: request.provider || config.ai.images.provider,
+      model: request.model,
+    });
+
+    // Validate prompt
+    const validation = this.validatePrompt(request.prompt);
+    if (!validation.isValid) {
+      return {
+        success: false,
+        error: validation.error || 'Validation failed',
+      };
+    }
+
+    // Describe the artwork with Gemini, then render it with an image provider
+    const imageResult = await this.generateImages(request, 1);
+    if (!imageResult.success || !imageResult.data) {
+      return {
+        success: false,
+        error: imageResult.error || 'Failed to generate image',
+      };
+    }
+
+    const generated = imageResult.data[0]!;
+    const variant = {
+      ...generated,
+      data: generated.data || await this.downloadImage(generated.url!),
+    };
+
+    const moderationInput = {
+      subject: 'image' as const,
+      image: variant.data,
+      contentType: variant.contentType,
+      text: variant.description,
+    };
+    const verdict = await moderationService.moderate(moderationInput, { ...moderation, reviewable: false });
+
+    if (!verdict.success || !verdict.data) {
+      return {
+        success: false,
+        error: verdict.error || 'Content moderation failed',
+      };
+    }
+
+    if (verdict.data.action !== 'allow') {
+      return {
+        success: false,
+        error: 'Generated image was blocked by content moderation',
+        code: 'CONTENT_BLOCKED',
+      };
+    }
+
+    // Near-identical artwork already pinned for another wallet is not pinned again
+    const perceptualHash = moderation.walletAddress ? await generationCacheService.fingerprint(variant.data) : undefined;
+    const duplicate = perceptualHash
+      ? await generationCacheService.findDuplicate(perceptualHash, moderation.walletAddress!, moderation.requestId)
+      : null;
+
+    if (duplicate) {
+      await moderationService.recordFlags(moderationInput, [toDuplicateFlag(duplicate)], { ...moderation, reviewable: false });
+
+      return {
+        success: false,
+        error: 'Generated image duplicates an existing artwork',
+        code: 'CONTENT_BLOCKED',
+      };
+    }
+
+    return this.finalizeArtwork(request, variant, startTime);
+  }
+
+  /**
+   * Generate several candidate images for the owner to choose from.
+   * Nothing is pinned; every variant carries its image bytes.
+   */
+  public async generateVariants(
+    request: AIGenerationRequest,
+    count: number
+  ): Promise<ServiceResponse<Array<ArtworkVariant & { data: Buffer }>>> {
     try {
-      aiLogger.info('Starting AI artwork generation', {
+      aiLogger.info('Starting AI variant generation', {
         prompt: request.prompt.substring(0, 100) + '...',
-        style: request.style,
-        model: request.model || config.ai.gemini.model,
+        count,
+        provider: request.provider || config.ai.images.provider,
+        model: request.model,
       });
 
-      // Validate prompt
       const validation = this.validatePrompt(request.prompt);
       if (!validation.isValid) {
         return {
@@ -54,40 +151,78 @@ export class AIService {
         };
       }
 
-      // Generate image using Gemini Pro Vision
-      const imageResult = await this.generateImage(request);
+      const imageResult = await this.generateImages(request, count);
       if (!imageResult.success || !imageResult.data) {
         return {
           success: false,
-          error: imageResult.error || 'Failed to generate image',
+          error: imageResult.error || 'Failed to generate images',
         };
       }
 
+      // Hosted URLs from providers expire, so keep the bytes with the draft
+      const variants = await Promise.all(imageResult.data.map(async variant => ({
+        ...variant,
+        data: variant.data || await this.downloadImage(variant.url!),
+      })));
+
+      return {
+        success: true,
+        data: variants,
+      };
+
+    } catch (error) {
+      aiLogger.error('AI variant generation failed', {
+        prompt: request.prompt.substring(0, 50) + '...',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Variant generation failed',
+      };
+    }
+  }
+
+  /**
+   * Create metadata for a generated image and pin both to IPFS
+   */
+  public async finalizeArtwork(
+    request: AIGenerationRequest,
+    variant: ArtworkVariant,
+    startTime: number = Date.now()
+  ): Promise<ServiceResponse<AIGenerationResult>> {
+    try {
       // Create NFT metadata using Gemini AI
-      const metadata = await this.createNFTMetadata(request, imageResult.data);
+      const metadata = await this.createNFTMetadata(request, variant);
 
       // Upload image and metadata to IPFS
-      const ipfsResult = await this.uploadToIPFS(imageResult.data.images[0]!.url, metadata);
+      const ipfsResult = await this.uploadToIPFS(variant, metadata, request.usage, request.metadataProfile);
       if (!ipfsResult.success || !ipfsResult.data) {
         return {
           success: false,
           error: ipfsResult.error || 'Failed to upload to IPFS',
+          ...(ipfsResult.code ? { code: ipfsResult.code } : {}),
+          ...(ipfsResult.details ? { details: ipfsResult.details } : {}),
         };
       }
 
       const processingTime = Date.now() - startTime;
 
       const result: AIGenerationResult = {
-        imageUrl: imageResult.data.images[0]!.url,
-        ipfsHash: ipfsResult.data!.imageHash,
-        tokenURI: ipfsResult.data!.tokenURI,
+        imageUrl: variant.url || `ipfs://${ipfsResult.data.imageHash}`,
+        ipfsHash: ipfsResult.data.imageHash,
+        tokenURI: ipfsResult.data.tokenURI,
         metadata,
+        provider: variant.provider,
+        model: variant.model,
         processingTime,
       };
 
       aiLogger.info('AI artwork generation completed', {
         prompt: request.prompt.substring(0, 50) + '...',
         processingTime,
+        provider: result.provider,
+        model: result.model,
         ipfsHash: result.ipfsHash,
         tokenURI: result.tokenURI,
       });
@@ -114,46 +249,63 @@ export class AIService {
   }
 
   /**
-   * Generate image using Google Gemini
+   * Generate images from one Gemini-enhanced description using the selected provider.
+   * Partial failures are tolerated as long as one image is produced.
    */
-  private async generateImage(request: AIGenerationRequest): Promise<ServiceResponse<ImageGenerationResponse>> {
+  private async generateImages(request: AIGenerationRequest, count: number): Promise<ServiceResponse<ArtworkVariant[]>> {
     try {
       // Enhanced prompt for better AI art generation
-      const enhancedPrompt = this.enhancePromptForArt(request.prompt, request.style);
+      const enhancedPrompt = this.enhancePromptForArt(request.prompt, request.style, request.attributes);
 
       // Generate content with Gemini Pro
-      const result = await this.model.generateContent({
-        contents: [{
-          role: 'user',
-          parts: [{
-            text: enhancedPrompt
-          }]
-        }],
-        generationConfig: {
-          temperature: 0.8,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 1024,
-        },
+      const text = await this.generateText(enhancedPrompt, 'describe', request.usage, {
+        temperature: 0.8,
+        topK: 40,
+        topP: 0.95,
+        maxOutputTokens: 1024,
       });
+      const imagePrompt = this.createImagePrompt(request.prompt, text, request.style, request.attributes);
+
+      const settled = await Promise.allSettled(Array.from({ length: count }, () =>
+        imageProviderRegistry.generate({
+          prompt: imagePrompt,
+          model: request.model,
+          size: request.size,
+          quality: request.quality,
+          reference: request.reference,
+        }, request.provider)
+      ));
+
+      const images = settled
+        .filter((outcome): outcome is PromiseFulfilledResult<GeneratedImage> => outcome.status === 'fulfilled')
+        .map(outcome => ({ ...outcome.value, description: text }));
+
+      for (const image of images) {
+        request.usage?.push({
+          kind: 'image',
+          provider: image.provider,
+          operation: request.reference ? request.reference.mode : 'generate',
+          modelName: image.model,
+          images: 1,
+          ...(request.quality ? { quality: request.quality } : {}),
+        });
+      }
 
-      const response = await result.response;
-      const text = response.text();
+      if (images.length === 0) {
+        const reason: unknown = settled.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected')?.reason;
+        throw reason instanceof Error ? reason : new Error('Image generation failed');
+      }
 
-      // Use the enhanced description to generate actual image with OpenAI DALL-E
-      const imageUrl = await this.generateRealImage(request.prompt, text);
+      aiLogger.info('Images generated', {
+        requested: count,
+        generated: images.length,
+        provider: images[0]!.provider,
+        model: images[0]!.model,
+      });
 
       return {
         success: true,
-        data: {
-          images: [{
-            url: imageUrl,
-            description: text,
-          }],
-          prompt: request.prompt,
-          model: config.ai.gemini.model,
-          processingTime: 0, // Will be calculated by caller
-        },
+        data: images,
       };
 
     } catch (error) {
@@ -168,98 +320,110 @@ export class AIService {
     }
   }
 
+  /**
+   * Fetch a provider-hosted image
+   */
+  private async downloadImage(url: string): Promise<Buffer> {
+    const response = await axios.get(url, {
+      responseType: 'arraybuffer',
+      timeout: config.ai.images.timeout,
+    });
+
+    return Buffer.from(response.data);
+  }
+
+  /**
+   * Run a Gemini prompt and note the tokens it used. The SDK does not report
+   * usage, so the counts are estimated from the text.
+   */
+  private async generateText(
+    prompt: string,
+    operation: string,
+    usage?: UsageItem[],
+    generationConfig?: Record<string, number>
+  ): Promise<string> {
+    const result = await this.model.generateContent(generationConfig ? {
+      contents: [{ role: 'user', parts: [{ text: prompt }] }],
+      generationConfig,
+    } : prompt);
+    const text = result.response.text();
+
+    usage?.push({
+      kind: 'text',
+      provider: 'gemini',
+      operation,
+      modelName: config.ai.gemini.model,
+      inputTokens: estimateTokens(prompt),
+      outputTokens: estimateTokens(text),
+    });
+
+    return text;
+  }
+
   /**
    * Enhance prompt for better art generation
    */
-  private enhancePromptForArt(originalPrompt: string, style?: string): string {
+  private enhancePromptForArt(originalPrompt: string, style?: string, attributes?: NFTAttribute[]): string {
     let enhancedPrompt = `Create a detailed artistic description for: ${originalPrompt}`;
     
     if (style) {
       enhancedPrompt += ` in ${style} style`;
     }
 
+    if (attributes?.length) {
+      enhancedPrompt += `. The artwork must reflect these traits: ${this.describeAttributes(attributes)}`;
+    }
+
     enhancedPrompt += '. Include details about composition, colors, lighting, mood, and artistic elements that would make this a compelling NFT artwork. Focus on visual aesthetics and creative interpretation.';
 
     return enhancedPrompt;
   }
 
   /**
-   * Generate real image using OpenAI DALL-E API
+   * Create image prompt based on user prompt and Gemini description
    */
-  private async generateRealImage(prompt: string, description: string): Promise<string> {
-    try {
-      if (!this.openai) {
-        // Fallback to placeholder if OpenAI is not configured
-        aiLogger.warn('OpenAI not configured, using placeholder image');
-        return this.generateFallbackImage(prompt, description);
-      }
+  private createImagePrompt(
+    originalPrompt: string,
+    geminiDescription: string,
+    style?: string,
+    attributes?: NFTAttribute[]
+  ): string {
+    // Combine user intent with AI-enhanced description, but keep it under provider prompt limits
+    let imagePrompt = originalPrompt;
 
-      // Create a refined prompt for DALL-E based on the original prompt and Gemini's description
-      const dallePrompt = this.createDallePrompt(prompt, description);
-
-      aiLogger.info('Generating image with OpenAI DALL-E', {
-        originalPrompt: prompt.substring(0, 50) + '...',
-        dallePrompt: dallePrompt.substring(0, 100) + '...',
-      });
-
-      const response = await this.openai.images.generate({
-        model: "dall-e-3",
-        prompt: dallePrompt,
-        n: 1,
-        size: "1024x1024",
-        quality: "hd",
-        style: "vivid"
-      });
-
-      if (!response.data || response.data.length === 0 || !response.data[0]?.url) {
-        throw new Error('No image URL returned from OpenAI');
-      }
-
-      const imageUrl = response.data[0]!.url;
-      
-      aiLogger.info('Successfully generated image with OpenAI DALL-E', {
-        imageUrl: imageUrl.substring(0, 50) + '...',
-        model: 'dall-e-3',
-      });
-
-      return imageUrl;
-
-    } catch (error) {
-      aiLogger.error('OpenAI DALL-E image generation failed', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        prompt: prompt.substring(0, 50) + '...',
-      });
-
-      // Fallback to placeholder on error
-      return this.generateFallbackImage(prompt, description);
+    if (style) {
+      imagePrompt += `, ${style.replace(/-/g, ' ')} style`;
     }
-  }
 
-  /**
-   * Create optimized prompt for DALL-E based on user prompt and Gemini description
-   */
-  private createDallePrompt(originalPrompt: string, geminiDescription: string): string {
-    // Combine user intent with AI-enhanced description, but keep it under DALL-E's limit
-    let dallePrompt = originalPrompt;
+    if (attributes?.length) {
+      imagePrompt += `, ${this.describeAttributes(attributes)}`;
+    }
     
     // If Gemini provided a good description, incorporate key elements
     if (geminiDescription && geminiDescription.length > 20) {
       // Extract key artistic elements from Gemini's description
       const artisticElements = this.extractArtisticElements(geminiDescription);
       if (artisticElements) {
-        dallePrompt += `, ${artisticElements}`;
+        imagePrompt += `, ${artisticElements}`;
       }
     }
 
     // Add NFT-specific enhancements
-    dallePrompt += ', digital art, high quality, detailed, vibrant colors, suitable for NFT collection';
+    imagePrompt += ', digital art, high quality, detailed, vibrant colors, suitable for NFT collection';
 
-    // Ensure prompt doesn't exceed DALL-E's limit (1000 characters)
-    if (dallePrompt.length > 1000) {
-      dallePrompt = dallePrompt.substring(0, 997) + '...';
+    // Ensure prompt doesn't exceed 1000 characters (DALL-E's limit, the strictest provider)
+    if (imagePrompt.length > 1000) {
+      imagePrompt = imagePrompt.substring(0, 997) + '...';
     }
 
-    return dallePrompt;
+    return imagePrompt;
+  }
+
+  /**
+   * Render creator traits as prompt text, e.g. "Mood: Calm, Palette: Pastel"
+   */
+  private describeAttributes(attributes: NFTAttribute[]): string {
+    return attributes.map(attribute => `${attribute.trait_type}: ${attribute.value}`).join(', ');
   }
 
   /**
@@ -285,20 +449,12 @@ export class AIService {
     return foundElements.length > 0 ? foundElements.join(', ') : '';
   }
 
-  /**
-   * Generate fallback image when OpenAI is not available
-   */
-  private generateFallbackImage(prompt: string, description: string): string {
-    const hash = Buffer.from(prompt + description).toString('base64').replace(/[^a-zA-Z0-9]/g, '').substring(0, 16);
-    return `https://api.placeholder-images.com/ai-generated/${hash}.png?prompt=${encodeURIComponent(prompt)}`;
-  }
-
   /**
    * Create NFT metadata from AI generation result using Gemini
    */
-  private async createNFTMetadata(request: AIGenerationRequest, imageData: ImageGenerationResponse): Promise<NFTMetadata> {
-    const name = await this.generateNFTName(request.prompt);
-    const description = await this.generateNFTDescription(request.prompt, imageData.images[0]?.description);
+  private async createNFTMetadata(request: AIGenerationRequest, imageData: ArtworkVariant): Promise<NFTMetadata> {
+    const name = await this.generateNFTName(request.prompt, request.usage);
+    const description = await this.generateNFTDescription(request.prompt, imageData.description, request.usage);
 
     return {
       name,
@@ -327,23 +483,33 @@ export class AIService {
         },
         {
           trait_type: 'AI Engine',
-          value: 'Google Gemini Pro + OpenAI DALL-E',
+          value: `Google Gemini + ${imageProviderRegistry.get(imageData.provider)?.label || imageData.provider}`,
         },
+        ...(request.size ? [{ trait_type: 'Resolution', value: request.size }] : []),
+        ...(request.quality ? [{ trait_type: 'Quality', value: request.quality }] : []),
+        ...(request.reference ? [{ trait_type: 'Reference Mode', value: request.reference.mode }] : []),
+        // Traits chosen by the creator
+        ...(request.attributes || []),
       ],
       external_url: 'https://chainweave.ai',
+      ...(request.reference ? {
+        provenance: {
+          referenceImage: `ipfs://${request.reference.ipfsHash}`,
+          referenceMode: request.reference.mode,
+          ...(request.reference.maskIpfsHash ? { mask: `ipfs://${request.reference.maskIpfsHash}` } : {}),
+        },
+      } : {}),
     };
   }
 
   /**
    * Generate NFT name using Gemini AI
    */
-  private async generateNFTName(prompt: string): Promise<string> {
+  private async generateNFTName(prompt: string, usage?: UsageItem[]): Promise<string> {
     try {
       const namePrompt = `Generate a creative, catchy NFT collection name (2-4 words max) for this artwork prompt: "${prompt}". The name should be marketable, memorable, and capture the essence of the artwork. Only respond with the name, no explanation.`;
       
-      const result = await this.model.generateContent(namePrompt);
-      const response = await result.response;
-      const aiName = response.text().trim().replace(/['"]/g, '');
+      const aiName = (await this.generateText(namePrompt, 'name', usage)).trim().replace(/['"]/g, '');
       
       return aiName || this.fallbackNFTName(prompt);
     } catch (error) {
@@ -372,7 +538,7 @@ export class AIService {
   /**
    * Generate NFT description using Gemini AI
    */
-  private async generateNFTDescription(prompt: string, aiDescription?: string): Promise<string> {
+  private async generateNFTDescription(prompt: string, aiDescription?: string, usage?: UsageItem[]): Promise<string> {
     try {
       const descriptionPrompt = `Create a compelling NFT description for this artwork: "${prompt}". ${aiDescription ? `AI Analysis: ${aiDescription}` : ''} 
       
@@ -385,9 +551,7 @@ export class AIService {
       
       End with: "Created with ChainWeave AI - The premier platform for cross-chain AI NFT generation on ZetaChain."`;
       
-      const result = await this.model.generateContent(descriptionPrompt);
-      const response = await result.response;
-      const aiGeneratedDesc = response.text().trim();
+      const aiGeneratedDesc = (await this.generateText(descriptionPrompt, 'description', usage)).trim();
       
       return aiGeneratedDesc || this.fallbackNFTDescription(prompt, aiDescription);
     } catch (error) {
@@ -414,14 +578,38 @@ export class AIService {
   /**
    * Upload image and metadata to IPFS
    */
-  private async uploadToIPFS(imageUrl: string, metadata: NFTMetadata): Promise<ServiceResponse<{
+  private async uploadToIPFS(
+    image: GeneratedImage,
+    metadata: NFTMetadata,
+    usage?: UsageItem[],
+    profile?: MetadataProfile
+  ): Promise<ServiceResponse<{
     imageHash: string;
     metadataHash: string;
     tokenURI: string;
   }>> {
     try {
-      // Upload image to IPFS
-      const imageResult = await this.ipfsService.uploadImageFromUrl(imageUrl);
+      // Validate before anything is pinned; the image URI is only known after its upload
+      const validation = metadataService.validate({ ...metadata, image: 'ipfs://pending' });
+      if (!validation.isValid) {
+        aiLogger.warn('Generated metadata failed schema validation', { errors: validation.errors });
+
+        return {
+          success: false,
+          error: 'Metadata validation failed',
+          code: 'INVALID_METADATA',
+          details: validation.errors,
+        };
+      }
+
+      // Upload image to IPFS, from the provider's bytes or its hosted URL
+      const imageResult = image.data
+        ? await this.ipfsService.uploadImageBuffer(
+          image.data,
+          `${image.provider}-${Date.now()}.${image.contentType === 'image/svg+xml' ? 'svg' : 'png'}`,
+          image.contentType
+        )
+        : await this.ipfsService.uploadImageFromUrl(image.url!);
       if (!imageResult.success || !imageResult.data) {
         return {
           success: false,
@@ -429,18 +617,24 @@ export class AIService {
         };
       }
 
+      usage?.push({ kind: 'pin', provider: 'pinata', operation: 'image', bytes: imageResult.data.size });
+
       // Update metadata with IPFS image URL
       metadata.image = `ipfs://${imageResult.data.hash}`;
 
       // Upload metadata to IPFS
-      const metadataResult = await this.ipfsService.uploadMetadata(metadata);
+      const metadataResult = await this.ipfsService.uploadMetadata(metadata, { ...(profile ? { profile } : {}) });
       if (!metadataResult.success || !metadataResult.data) {
         return {
           success: false,
           error: metadataResult.error || 'Failed to upload metadata to IPFS',
+          ...(metadataResult.code ? { code: metadataResult.code } : {}),
+          ...(metadataResult.details ? { details: metadataResult.details } : {}),
         };
       }
 
+      usage?.push({ kind: 'pin', provider: 'pinata', operation: 'metadata', bytes: metadataResult.data.size });
+
       return {
         success: true,
         data: {
@@ -462,6 +656,131 @@ export class AIService {
     }
   }
 
+  /**
+   * Pin an uploaded reference image (and inpainting mask) so generation can
+   * use it later and the minted NFT can link to it as provenance
+   */
+  public async prepareReference(
+    uploads: ReferenceUploads,
+    mode: ReferenceMode = 'variation',
+    strength?: number,
+    usage?: UsageItem[]
+  ): Promise<ServiceResponse<ReferenceImageOptions>> {
+    const { referenceImage, mask } = uploads;
+
+    if (!referenceImage?.buffer) {
+      return {
+        success: false,
+        error: 'A reference image is required',
+      };
+    }
+
+    if (mode === 'inpaint' && !mask?.buffer) {
+      return {
+        success: false,
+        error: 'Inpainting requires a mask image',
+      };
+    }
+
+    if (mode !== 'inpaint' && mask) {
+      return {
+        success: false,
+        error: 'A mask can only be used for inpainting',
+      };
+    }
+
+    const imageResult = await this.pinReferenceFile(referenceImage, 'reference', usage);
+    if (!imageResult.success || !imageResult.data) {
+      return {
+        success: false,
+        error: imageResult.error || 'Failed to pin reference image',
+      };
+    }
+
+    let maskIpfsHash: string | undefined;
+    if (mode === 'inpaint') {
+      const maskResult = await this.pinReferenceFile(mask!, 'mask', usage);
+      if (!maskResult.success || !maskResult.data) {
+        return {
+          success: false,
+          error: maskResult.error || 'Failed to pin mask image',
+        };
+      }
+      maskIpfsHash = maskResult.data;
+    }
+
+    aiLogger.info('Reference image pinned', { mode, ipfsHash: imageResult.data, maskIpfsHash });
+
+    return {
+      success: true,
+      data: {
+        mode,
+        ipfsHash: imageResult.data,
+        contentType: referenceImage.mimetype,
+        ...(maskIpfsHash ? { maskIpfsHash } : {}),
+        ...(strength !== undefined ? { strength } : {}),
+      },
+    };
+  }
+
+  /**
+   * Fetch a pinned reference image back from IPFS for generation
+   */
+  public async loadReference(options: ReferenceImageOptions): Promise<ServiceResponse<ReferenceImageInput>> {
+    const imageResult = await this.ipfsService.retrieveFile(options.ipfsHash);
+    if (!imageResult.success || !imageResult.data) {
+      return {
+        success: false,
+        error: imageResult.error || 'Failed to load reference image',
+      };
+    }
+
+    let mask: Buffer | undefined;
+    if (options.maskIpfsHash) {
+      const maskResult = await this.ipfsService.retrieveFile(options.maskIpfsHash);
+      if (!maskResult.success || !maskResult.data) {
+        return {
+          success: false,
+          error: maskResult.error || 'Failed to load mask image',
+        };
+      }
+      mask = maskResult.data.data;
+    }
+
+    return {
+      success: true,
+      data: {
+        ...options,
+        image: imageResult.data.data,
+        ...(mask ? { mask } : {}),
+      },
+    };
+  }
+
+  private async pinReferenceFile(
+    file: UploadedFile,
+    kind: 'reference' | 'mask',
+    usage?: UsageItem[]
+  ): Promise<ServiceResponse<string>> {
+    const digest = crypto.createHash('sha256').update(file.buffer!).digest('hex').substring(0, 16);
+    const extension = file.mimetype.split('/')[1] || 'png';
+
+    const result = await this.ipfsService.uploadImageBuffer(file.buffer!, `chainweave-${kind}-${digest}.${extension}`, file.mimetype);
+    if (!result.success || !result.data) {
+      return {
+        success: false,
+        error: result.error || `Failed to pin ${kind} image`,
+      };
+    }
+
+    usage?.push({ kind: 'pin', provider: 'pinata', operation: kind, bytes: result.data.size });
+
+    return {
+      success: true,
+      data: result.data.hash,
+    };
+  }
+
   /**
    * Validate AI generation prompt
    */
@@ -481,26 +800,18 @@ export class AIService {
       };
     }
 
-    // Check for inappropriate content (basic filtering)
-    const inappropriateKeywords = ['violence', 'explicit', 'nsfw', 'adult'];
-    const lowerPrompt = prompt.toLowerCase();
-    
-    for (const keyword of inappropriateKeywords) {
-      if (lowerPrompt.includes(keyword)) {
-        return {
-          isValid: false,
-          error: 'Prompt contains inappropriate content',
-        };
-      }
-    }
-
+    // Content checks happen in ModerationService when the request is created
     return { isValid: true };
   }
 
   /**
    * Generate AI-powered prompt suggestions (Gemini feature for hackathon)
    */
-  public async generatePromptSuggestions(userInput: string, style?: string): Promise<ServiceResponse<string[]>> {
+  public async generatePromptSuggestions(
+    userInput: string,
+    style?: string,
+    usage?: UsageItem[]
+  ): Promise<ServiceResponse<string[]>> {
     try {
       aiLogger.info('Generating prompt suggestions with Gemini', { userInput, style });
 
@@ -512,9 +823,7 @@ export class AIService {
       
       Format as a numbered list (1., 2., etc.) with just the prompt text.`;
 
-      const result = await this.model.generateContent(suggestionPrompt);
-      const response = await result.response;
-      const suggestions = response.text()
+      const suggestions = (await this.generateText(suggestionPrompt, 'suggestions', usage))
         .split('\n')
         .filter((line: string) => line.match(/^\d+\./))
         .map((line: string) => line.replace(/^\d+\.\s*/, '').trim())
@@ -548,7 +857,7 @@ export class AIService {
   /**
    * Analyze user's art preferences using Gemini (hackathon feature)
    */
-  public async analyzeArtPreferences(recentPrompts: string[]): Promise<ServiceResponse<{
+  public async analyzeArtPreferences(recentPrompts: string[], usage?: UsageItem[]): Promise<ServiceResponse<{
     dominantThemes: string[];
     suggestedStyles: string[];
     creativityInsights: string;
@@ -570,9 +879,7 @@ export class AIService {
         "creativityInsights": "A brief analysis of the user's artistic preferences and suggestions for expanding their creative horizons"
       }`;
 
-      const result = await this.model.generateContent(analysisPrompt);
-      const response = await result.response;
-      const analysisText = response.text().trim();
+      const analysisText = (await this.generateText(analysisPrompt, 'preferences', usage)).trim();
       
       try {
         const analysis = JSON.parse(analysisText);
@@ -605,35 +912,56 @@ export class AIService {
   }
 
   /**
-   * Health check for AI service
+   * Health check for AI service. Degraded when images come from a fallback or
+   * placeholder provider, or when Gemini is down and text uses fallbacks.
    */
   public async healthCheck(): Promise<{
-    status: 'available' | 'unavailable' | 'error';
+    status: 'available' | 'degraded' | 'unavailable' | 'error';
     model?: string;
+    imageProvider?: string | null;
+    warnings?: string[];
     error?: string;
   }> {
+    const images = imageProviderRegistry.getStatus();
+    if (!images.active) {
+      return {
+        status: 'unavailable',
+        imageProvider: null,
+        error: `No image provider is configured (tried ${[images.configured, ...config.ai.images.fallbacks].join(', ')})`,
+      };
+    }
+
+    const warnings: string[] = [];
+    if (images.active === 'test') {
+      warnings.push('Images are rendered as placeholders by the test provider');
+    } else if (images.active !== images.configured) {
+      warnings.push(`Image provider ${images.configured} is not configured; using ${images.active}`);
+    }
+
+    const { lastFallback } = images;
+    if (lastFallback && Date.now() - lastFallback.at.getTime() < FALLBACK_DEGRADED_WINDOW_MS) {
+      warnings.push(
+        `Image generation fell back from ${lastFallback.requested} to ${lastFallback.provider} at ${lastFallback.at.toISOString()}`
+      );
+    }
+
     try {
-      // Test with a simple prompt
-      const result = await this.model.generateContent('Test prompt for health check');
-      const response = await result.response;
-      
-      if (response.text()) {
-        return {
-          status: 'available',
-          model: config.ai.gemini.model,
-        };
-      } else {
-        return {
-          status: 'unavailable',
-          error: 'No response from AI model',
-        };
+      // Counting tokens reaches the model without paying for a generation
+      const { totalTokens } = await this.model.countTokens('Health check');
+
+      if (!totalTokens) {
+        warnings.push('No response from Gemini; names and descriptions use fallbacks');
       }
     } catch (error) {
-      return {
-        status: 'error',
-        error: error instanceof Error ? error.message : 'Unknown error',
-      };
+      warnings.push(`Gemini unavailable (${error instanceof Error ? error.message : 'Unknown error'}); names and descriptions use fallbacks`);
     }
+
+    return {
+      status: warnings.length > 0 ? 'degraded' : 'available',
+      model: config.ai.gemini.model,
+      imageProvider: images.active,
+      ...(warnings.length > 0 ? { warnings } : {}),
+    };
   }
 }
 
@@ -0,0 +1,461 @@
+import { User } from '@/models/User';
+import { NFTRequest } from '@/models/NFTRequest';
+import { getUserAccess } from '@/config/roles';
+import {
+  ICollection,
+  INFTRequest,
+  IUser,
+  PaginationQuery,
+  Permission,
+  RequestStatus,
+  ServiceResponse,
+  UserAccess,
+  UserRole,
+} from '@/types';
+import { logger } from '@/utils/logger';
+import { AuditActor, auditService } from './AuditService';
+import { collectionService } from './CollectionService';
+import { nftRequestService } from './NFTRequestService';
+import { sessionService } from './SessionService';
+import { userService } from './UserService';
+
+// Staff member acting through the admin API
+export interface StaffActor extends AuditActor {
+  access: UserAccess;
+}
+
+export interface AdminUserFilters {
+  query?: string;
+  role?: UserRole;
+  isActive?: boolean;
+}
+
+export interface AdminRequestFilters {
+  status?: RequestStatus;
+  walletAddress?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export type AdminUser = IUser & { access: UserAccess };
+
+type Pagination = {
+  currentPage: number;
+  totalPages: number;
+  totalItems: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+};
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Staff operations on users, requests and collections. Every change is
+ * recorded in the audit log with the acting wallet.
+ */
+export class AdminService {
+  /**
+   * Users, including deactivated ones, with the access each holds
+   */
+  public async listUsers(
+    filters: AdminUserFilters = {},
+    pagination: PaginationQuery = {}
+  ): Promise<ServiceResponse<{ users: AdminUser[]; pagination: Pagination }>> {
+    try {
+      const page = Math.max(1, pagination.page || 1);
+      const limit = Math.min(100, Math.max(1, pagination.limit || 20));
+
+      const search = filters.query ? new RegExp(escapeRegex(filters.query.trim()), 'i') : null;
+      const query = {
+        ...(search ? { $or: [{ walletAddress: search }, { username: search }, { email: search }] } : {}),
+        ...(filters.role ? { roles: filters.role } : {}),
+        ...(filters.isActive !== undefined ? { isActive: filters.isActive } : {}),
+      };
+
+      const [users, totalCount] = await Promise.all([
+        User.find(query)
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        User.countDocuments(query),
+      ]);
+
+      return {
+        success: true,
+        data: {
+          users: users.map(user => this.toAdminUser(user.toJSON())),
+          pagination: this.toPagination(page, limit, totalCount),
+        },
+      };
+
+    } catch (error) {
+      logger.error('Failed to list users', {
+        filters,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve users',
+      };
+    }
+  }
+
+  /**
+   * One user with their access and request counts by status
+   */
+  public async getUser(walletAddress: string): Promise<ServiceResponse<AdminUser & {
+    requests: Record<string, number>;
+  }>> {
+    try {
+      const user = await User.findOne({ walletAddress: walletAddress.toLowerCase() });
+      if (!user) {
+        return {
+          success: false,
+          error: 'User not found',
+          code: 'NOT_FOUND',
+        };
+      }
+
+      const counts: Array<{ _id: string; count: number }> = await NFTRequest.aggregate([
+        { $match: { userId: user._id } },
+        { $group: { _id: '$status', count: { $sum: 1 } } },
+      ]);
+
+      return {
+        success: true,
+        data: {
+          ...this.toAdminUser(user.toJSON()),
+          requests: Object.fromEntries(counts.map(({ _id, count }) => [_id, count])),
+        },
+      };
+
+    } catch (error) {
+      logger.error('Failed to get user', {
+        walletAddress,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve user',
+      };
+    }
+  }
+
+  /**
+   * Deactivate a user (ending every session) or reactivate them. Staff other
+   * than admins cannot change users holding access they do not.
+   */
+  public async setUserActive(
+    actor: StaffActor,
+    walletAddress: string,
+    active: boolean,
+    reason?: string
+  ): Promise<ServiceResponse<AdminUser>> {
+    try {
+      if (walletAddress.toLowerCase() === actor.walletAddress.toLowerCase()) {
+        return {
+          success: false,
+          error: 'You cannot change the status of your own account',
+          code: 'SELF_ACTION',
+        };
+      }
+
+      const user = await User.findOne({ walletAddress: walletAddress.toLowerCase() });
+      if (!user) {
+        return {
+          success: false,
+          error: 'User not found',
+          code: 'NOT_FOUND',
+        };
+      }
+
+      const target = getUserAccess(user);
+      if (!this.canChange(actor, target.roles, target.permissions)) {
+        return {
+          success: false,
+          error: 'You cannot change the status of a user with access you do not hold',
+          code: 'FORBIDDEN',
+        };
+      }
+
+      if (user.isActive !== active) {
+        const userId = user._id.toString();
+        const result = active
+          ? await userService.reactivateUser(userId)
+          : await userService.deactivateUser(userId);
+
+        if (!result.success) {
+          return {
+            success: false,
+            error: result.error || 'Failed to update user',
+          };
+        }
+
+        if (!active) {
+          await sessionService.revokeAllSessions(userId);
+        }
+
+        user.isActive = active;
+        await auditService.record(actor, {
+          action: active ? 'user.reactivated' : 'user.deactivated',
+          targetType: 'user',
+          targetId: user.walletAddress,
+          reason,
+        });
+      }
+
+      return {
+        success: true,
+        data: this.toAdminUser(user.toJSON()),
+      };
+
+    } catch (error) {
+      logger.error('Failed to update user status', {
+        walletAddress,
+        active,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to update user',
+      };
+    }
+  }
+
+  /**
+   * Replace a user's roles and/or directly granted permissions. Staff other
+   * than admins can only grant or take away access they hold themselves.
+   */
+  public async updateUserAccess(
+    actor: StaffActor,
+    walletAddress: string,
+    update: { roles?: UserRole[]; permissions?: Permission[] },
+    reason?: string
+  ): Promise<ServiceResponse<AdminUser>> {
+    try {
+      if (walletAddress.toLowerCase() === actor.walletAddress.toLowerCase()) {
+        return {
+          success: false,
+          error: 'You cannot change your own access',
+          code: 'SELF_ACTION',
+        };
+      }
+
+      const user = await User.findOne({ walletAddress: walletAddress.toLowerCase() });
+      if (!user) {
+        return {
+          success: false,
+          error: 'User not found',
+          code: 'NOT_FOUND',
+        };
+      }
+
+      const roles = update.roles ? [...new Set(update.roles)] : [...user.roles];
+      const permissions = update.permissions ? [...new Set(update.permissions)] : [...user.permissions];
+
+      const changedRoles = this.difference(user.roles, roles);
+      const changedPermissions = this.difference(user.permissions, permissions);
+
+      if (!this.canChange(actor, changedRoles, changedPermissions)) {
+        return {
+          success: false,
+          error: 'You can only grant or revoke access you hold yourself',
+          code: 'FORBIDDEN',
+        };
+      }
+
+      if (changedRoles.length > 0 || changedPermissions.length > 0) {
+        const previous = { roles: [...user.roles], permissions: [...user.permissions] };
+
+        user.roles = roles;
+        user.permissions = permissions;
+        await user.save();
+
+        await auditService.record(actor, {
+          action: 'user.access_updated',
+          targetType: 'user',
+          targetId: user.walletAddress,
+          reason,
+          details: {
+            previous,
+            current: { roles, permissions },
+          },
+        });
+      }
+
+      return {
+        success: true,
+        data: this.toAdminUser(user.toJSON()),
+      };
+
+    } catch (error) {
+      logger.error('Failed to update user access', {
+        walletAddress,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to update user access',
+      };
+    }
+  }
+
+  /**
+   * Requests across every wallet, newest first
+   */
+  public async listRequests(
+    filters: AdminRequestFilters = {},
+    pagination: PaginationQuery = {}
+  ): Promise<ServiceResponse<{ requests: INFTRequest[]; pagination: Pagination }>> {
+    try {
+      const page = Math.max(1, pagination.page || 1);
+      const limit = Math.min(100, Math.max(1, pagination.limit || 20));
+
+      const query = {
+        ...(filters.status ? { status: filters.status } : {}),
+        ...(filters.walletAddress ? { walletAddress: filters.walletAddress.toLowerCase() } : {}),
+        ...(filters.from || filters.to ? {
+          createdAt: {
+            ...(filters.from ? { $gte: filters.from } : {}),
+            ...(filters.to ? { $lte: filters.to } : {}),
+          },
+        } : {}),
+      };
+
+      const [requests, totalCount] = await Promise.all([
+        NFTRequest.find(query)
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        NFTRequest.countDocuments(query),
+      ]);
+
+      return {
+        success: true,
+        data: {
+          requests: requests.map(request => request.toJSON()),
+          pagination: this.toPagination(page, limit, totalCount),
+        },
+      };
+
+    } catch (error) {
+      logger.error('Failed to list requests', {
+        filters,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve requests',
+      };
+    }
+  }
+
+  /**
+   * Put a failed or stalled request back on the generation queue
+   */
+  public async retryRequest(
+    actor: StaffActor,
+    requestId: string,
+    reason?: string
+  ): Promise<ServiceResponse<INFTRequest>> {
+    const result = await nftRequestService.forceRetryRequest(requestId);
+
+    if (result.success && result.data) {
+      await auditService.record(actor, {
+        action: 'request.retried',
+        targetType: 'request',
+        targetId: requestId,
+        reason,
+        details: { walletAddress: result.data.walletAddress },
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * End a request that has not finished as failed
+   */
+  public async failRequest(
+    actor: StaffActor,
+    requestId: string,
+    reason: string
+  ): Promise<ServiceResponse<INFTRequest>> {
+    const result = await nftRequestService.forceFailRequest(requestId, reason);
+
+    if (result.success && result.data) {
+      await auditService.record(actor, {
+        action: 'request.failed',
+        targetType: 'request',
+        targetId: requestId,
+        reason,
+        details: { walletAddress: result.data.walletAddress },
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Feature a collection, or take it off the featured list
+   */
+  public async setCollectionFeatured(
+    actor: StaffActor,
+    collectionId: string,
+    featured: boolean,
+    reason?: string
+  ): Promise<ServiceResponse<ICollection>> {
+    const result = await collectionService.setFeatured(collectionId, featured);
+
+    if (result.success) {
+      await auditService.record(actor, {
+        action: featured ? 'collection.featured' : 'collection.unfeatured',
+        targetType: 'collection',
+        targetId: collectionId,
+        reason,
+      });
+    }
+
+    return result;
+  }
+
+  private toAdminUser(user: IUser): AdminUser {
+    return {
+      ...user,
+      access: getUserAccess(user),
+    };
+  }
+
+  // Admins may change anything; other staff only what they hold themselves
+  private canChange(actor: StaffActor, roles: UserRole[], permissions: Permission[]): boolean {
+    return actor.access.roles.includes(UserRole.ADMIN) || (
+      roles.every(role => actor.access.roles.includes(role))
+      && permissions.every(permission => actor.access.permissions.includes(permission))
+    );
+  }
+
+  // Values in exactly one of the lists
+  private difference<T>(a: T[], b: T[]): T[] {
+    return [...a.filter(value => !b.includes(value)), ...b.filter(value => !a.includes(value))];
+  }
+
+  private toPagination(page: number, limit: number, totalCount: number): Pagination {
+    const totalPages = Math.ceil(totalCount / limit);
+
+    return {
+      currentPage: page,
+      totalPages,
+      totalItems: totalCount,
+      hasNext: page < totalPages,
+      hasPrev: page > 1,
+    };
+  }
+}
+
+// Export singleton instance
+export const adminService = new AdminService();
\ No newline at end of file
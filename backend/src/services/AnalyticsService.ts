@@ -4,6 +4,7 @@ import { UserAnalytics } from '@/models/UserAnalytics';
 import { User } from '@/models/User';
 import { NFTRequest } from '@/models/NFTRequest';
 import { ServiceResponse } from '@/types';
+import { usageService, CostBreakdown } from './UsageService';
 import { logger } from '@/utils/logger';
 import { performanceLogger } from '@/utils/logger';
 
@@ -415,9 +416,9 @@ export class AnalyticsService {
   }
 
   /**
-   * Get real-time dashboard data
+   * Get real-time dashboard data, with provider costs when `includeCosts` is set
    */
-  public async getDashboardData(): Promise<ServiceResponse<{
+  public async getDashboardData({ includeCosts = false }: { includeCosts?: boolean } = {}): Promise<ServiceResponse<{
     overview: {
       totalUsers: number;
       totalRequests: number;
@@ -432,10 +433,16 @@ export class AnalyticsService {
       ai: string;
       ipfs: string;
     };
+    // Estimated provider spend from the cost ledger
+    costs?: {
+      today: CostBreakdown;
+      month: CostBreakdown;
+    };
   }>> {
     try {
       const startOfToday = new Date();
       startOfToday.setHours(0, 0, 0, 0);
+      const startOfMonth = new Date(startOfToday.getFullYear(), startOfToday.getMonth(), 1);
 
       const [
         totalUsers,
@@ -444,6 +451,7 @@ export class AnalyticsService {
         pendingRequests,
         recentActivity,
         popularChains,
+        costs,
       ] = await Promise.all([
         User.countDocuments({ isActive: true }),
         NFTRequest.countDocuments(),
@@ -454,6 +462,9 @@ export class AnalyticsService {
         NFTRequest.countDocuments({ status: 'pending' }),
         this.getRecentActivity(10),
         this.getPopularChains(5),
+        includeCosts
+          ? Promise.all([usageService.getCostBreakdown(startOfToday), usageService.getCostBreakdown(startOfMonth)])
+          : null,
       ]);
 
       // System health checks would be implemented here
@@ -476,6 +487,7 @@ export class AnalyticsService {
           recentActivity,
           popularChains,
           systemHealth,
+          ...(costs ? { costs: { today: costs[0], month: costs[1] } } : {}),
         },
       };
 
@@ -0,0 +1,134 @@
+import { AuditLog } from '@/models/AuditLog';
+import { AuditAction, AuditTargetType, IAuditLog, PaginationQuery, ServiceResponse } from '@/types';
+import { logger } from '@/utils/logger';
+
+// Staff member an action is recorded for
+export interface AuditActor {
+  walletAddress: string;
+  ip?: string | undefined;
+}
+
+export interface AuditEntry {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  reason?: string | undefined;
+  details?: Record<string, unknown>;
+}
+
+export interface AuditLogFilters {
+  actorWallet?: string;
+  action?: AuditAction;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+type AuditLogPage = {
+  entries: IAuditLog[];
+  pagination: {
+    currentPage: number;
+    totalPages: number;
+    totalItems: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+};
+
+export class AuditService {
+  /**
+   * Record a staff action. Never throws: the action has already happened,
+   * so a failed write is logged instead.
+   */
+  public async record(actor: AuditActor, entry: AuditEntry): Promise<void> {
+    try {
+      await AuditLog.create({
+        actorWallet: actor.walletAddress,
+        action: entry.action,
+        targetType: entry.targetType,
+        targetId: entry.targetId,
+        ...(entry.reason ? { reason: entry.reason } : {}),
+        ...(entry.details ? { details: entry.details } : {}),
+        ...(actor.ip ? { ip: actor.ip } : {}),
+      });
+
+      logger.info('Staff action recorded', {
+        actorWallet: actor.walletAddress,
+        action: entry.action,
+        targetId: entry.targetId,
+      });
+
+    } catch (error) {
+      logger.error('Failed to record staff action', {
+        actorWallet: actor.walletAddress,
+        ...entry,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Audit log of staff actions, newest first
+   */
+  public async getLogs(
+    filters: AuditLogFilters = {},
+    pagination: PaginationQuery = {}
+  ): Promise<ServiceResponse<AuditLogPage>> {
+    try {
+      const page = Math.max(1, pagination.page || 1);
+      const limit = Math.min(100, Math.max(1, pagination.limit || 20));
+
+      const query = {
+        ...(filters.actorWallet ? { actorWallet: filters.actorWallet.toLowerCase() } : {}),
+        ...(filters.action ? { action: filters.action } : {}),
+        ...(filters.targetType ? { targetType: filters.targetType } : {}),
+        ...(filters.targetId ? { targetId: filters.targetId } : {}),
+        ...(filters.from || filters.to ? {
+          createdAt: {
+            ...(filters.from ? { $gte: filters.from } : {}),
+            ...(filters.to ? { $lte: filters.to } : {}),
+          },
+        } : {}),
+      };
+
+      const [entries, totalCount] = await Promise.all([
+        AuditLog.find(query)
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        AuditLog.countDocuments(query),
+      ]);
+
+      const totalPages = Math.ceil(totalCount / limit);
+
+      return {
+        success: true,
+        data: {
+          entries: entries.map(entry => entry.toJSON()),
+          pagination: {
+            currentPage: page,
+            totalPages,
+            totalItems: totalCount,
+            hasNext: page < totalPages,
+            hasPrev: page > 1,
+          },
+        },
+      };
+
+    } catch (error) {
+      logger.error('Failed to get audit log', {
+        filters,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve audit log',
+      };
+    }
+  }
+}
+
+// Export singleton instance
+export const auditService = new AuditService();
\ No newline at end of file
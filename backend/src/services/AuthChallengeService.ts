@@ -0,0 +1,224 @@
+import crypto from 'crypto';
+import { AuthChallenge } from '@/models/AuthChallenge';
+import { getRedisClient, isRedisConfigured } from '@/config/redis';
+import { config } from '@/config/env';
+import { logger } from '@/utils/logger';
+import { buildSiweMessage, parseSiweMessage } from '@/utils/siwe';
+import { IAuthChallenge, ServiceResponse } from '@/types';
+
+export interface IssuedChallenge {
+  walletAddress: string;
+  nonce: string;
+  message: string;
+  issuedAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Storage backend for issued challenges. `take` must remove the challenge
+ * atomically so that two concurrent logins cannot both consume it.
+ */
+export interface ChallengeStore {
+  save(challenge: IssuedChallenge): Promise<void>;
+  take(walletAddress: string, nonce: string): Promise<IssuedChallenge | null>;
+}
+
+/**
+ * MongoDB-backed challenge store (expired documents are removed by a TTL index)
+ */
+export class MongoChallengeStore implements ChallengeStore {
+  public async save(challenge: IssuedChallenge): Promise<void> {
+    await AuthChallenge.create(challenge);
+  }
+
+  public async take(walletAddress: string, nonce: string): Promise<IssuedChallenge | null> {
+    const challenge = await AuthChallenge.findOneAndDelete({
+      walletAddress: walletAddress.toLowerCase(),
+      nonce,
+    }).lean<IAuthChallenge>();
+
+    if (!challenge) {
+      return null;
+    }
+
+    return {
+      walletAddress: challenge.walletAddress,
+      nonce: challenge.nonce,
+      message: challenge.message,
+      issuedAt: challenge.issuedAt,
+      expiresAt: challenge.expiresAt,
+    };
+  }
+}
+
+/**
+ * Redis-backed challenge store (keys expire with the challenge TTL)
+ */
+export class RedisChallengeStore implements ChallengeStore {
+  private key(walletAddress: string, nonce: string): string {
+    return `chainweave:auth:challenge:${walletAddress.toLowerCase()}:${nonce}`;
+  }
+
+  public async save(challenge: IssuedChallenge): Promise<void> {
+    const client = await getRedisClient();
+    const ttlMs = Math.max(1, challenge.expiresAt.getTime() - Date.now());
+
+    await client.set(
+      this.key(challenge.walletAddress, challenge.nonce),
+      JSON.stringify(challenge),
+      { PX: ttlMs, NX: true }
+    );
+  }
+
+  public async take(walletAddress: string, nonce: string): Promise<IssuedChallenge | null> {
+    const client = await getRedisClient();
+    const raw = await client.getDel(this.key(walletAddress, nonce));
+
+    if (!raw) {
+      return null;
+    }
+
+    // Dates come back from JSON as ISO strings
+    const stored = JSON.parse(raw) as Record<keyof IssuedChallenge, string>;
+
+    return {
+      walletAddress: stored.walletAddress,
+      nonce: stored.nonce,
+      message: stored.message,
+      issuedAt: new Date(stored.issuedAt),
+      expiresAt: new Date(stored.expiresAt),
+    };
+  }
+}
+
+export class AuthChallengeService {
+  private store: ChallengeStore;
+
+  constructor(store?: ChallengeStore) {
+    this.store = store || (isRedisConfigured() ? new RedisChallengeStore() : new MongoChallengeStore());
+  }
+
+  /**
+   * Issue and persist a new single-use SIWE challenge for a wallet
+   */
+  public async issueChallenge(
+    walletAddress: string,
+    chainId: number,
+    domain: string
+  ): Promise<ServiceResponse<IssuedChallenge>> {
+    try {
+      const nonce = crypto.randomBytes(16).toString('hex');
+      const issuedAt = new Date();
+      const expiresAt = new Date(issuedAt.getTime() + config.auth.challengeTtlMs);
+
+      const challenge: IssuedChallenge = {
+        walletAddress: walletAddress.toLowerCase(),
+        nonce,
+        message: buildSiweMessage({
+          domain,
+          address: walletAddress,
+          statement: config.auth.siwe.statement,
+          uri: config.auth.siwe.uri,
+          version: '1',
+          chainId,
+          nonce,
+          issuedAt: issuedAt.toISOString(),
+          expirationTime: expiresAt.toISOString(),
+        }),
+        issuedAt,
+        expiresAt,
+      };
+
+      await this.store.save(challenge);
+
+      logger.info('Auth challenge issued', {
+        walletAddress: challenge.walletAddress,
+        expiresAt: expiresAt.toISOString(),
+      });
+
+      return {
+        success: true,
+        data: challenge,
+      };
+
+    } catch (error) {
+      logger.error('Failed to issue auth challenge', {
+        walletAddress,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to issue challenge',
+      };
+    }
+  }
+
+  /**
+   * Consume the challenge a signed message refers to.
+   * The challenge is removed before any other check, so a failed attempt
+   * also burns it and a captured signature can never be replayed.
+   */
+  public async consumeChallenge(
+    walletAddress: string,
+    message: string
+  ): Promise<ServiceResponse<IssuedChallenge>> {
+    try {
+      const fields = parseSiweMessage(message);
+      if (!fields) {
+        return {
+          success: false,
+          error: 'Challenge is not a valid Sign-In with Ethereum message',
+          code: 'INVALID_CHALLENGE',
+        };
+      }
+
+      const challenge = await this.store.take(walletAddress, fields.nonce);
+      if (!challenge) {
+        logger.warn('Unknown, expired or already used auth challenge', { walletAddress });
+
+        return {
+          success: false,
+          error: 'Challenge is invalid, expired or already used',
+          code: 'CHALLENGE_NOT_FOUND',
+        };
+      }
+
+      if (challenge.message !== message) {
+        return {
+          success: false,
+          error: 'Challenge message does not match the issued challenge',
+          code: 'INVALID_CHALLENGE',
+        };
+      }
+
+      const now = Date.now();
+      if (now > challenge.expiresAt.getTime() || now < challenge.issuedAt.getTime()) {
+        return {
+          success: false,
+          error: 'Challenge has expired',
+          code: 'CHALLENGE_EXPIRED',
+        };
+      }
+
+      return {
+        success: true,
+        data: challenge,
+      };
+
+    } catch (error) {
+      logger.error('Failed to consume auth challenge', {
+        walletAddress,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to verify challenge',
+      };
+    }
+  }
+}
+
+// Export singleton instance
+export const authChallengeService = new AuthChallengeService();
\ No newline at end of file
@@ -3,6 +3,13 @@ import { config } from '@/config/env';
 import { blockchainLogger } from '@/utils/logger';
 import { RequestStatus, ServiceResponse } from '@/types';
 import { NFTRequest } from '@/models/NFTRequest';
+import { generationQueue } from './JobQueueService';
+import { notificationService } from './NotificationService';
+import { realtimeService } from './RealtimeService';
+import { webhookService } from './WebhookService';
+import { responseCacheService } from './ResponseCacheService';
+import { EventIndexer, ChainLogEvent } from './EventIndexerService';
+import { destinationChainService } from './DestinationChainService';
 
 // ChainWeave contract ABI (simplified for key functions)
 const CHAINWEAVE_ABI = [
@@ -16,10 +23,14 @@ const CHAINWEAVE_ABI = [
   'event NFTMintReverted(bytes32 indexed requestId, string reason)',
 ];
 
+// Failure reason for requests whose on-chain transaction was dropped by a reorg
+const REORG_DROPPED_MESSAGE = 'Mint request transaction was dropped by a chain reorganization';
+
 export class BlockchainService {
   private provider: ethers.JsonRpcProvider;
   private wallet: ethers.Wallet;
   private chainWeaveContract: ethers.Contract;
+  private eventIndexer: EventIndexer;
 
   constructor() {
     this.provider = new ethers.JsonRpcProvider(config.blockchain.zetachain.rpcUrl);
@@ -29,6 +40,17 @@ export class BlockchainService {
       CHAINWEAVE_ABI,
       this.wallet
     );
+    this.eventIndexer = new EventIndexer({
+      indexerId: `chainweave:${config.blockchain.zetachain.chainId}:${config.blockchain.zetachain.contractAddress.toLowerCase()}`,
+      chainId: config.blockchain.zetachain.chainId,
+      contract: this.chainWeaveContract,
+      events: ['NFTMintRequested', 'NFTMinted', 'NFTMintReverted'],
+      confirmations: config.indexer.confirmations,
+      chunkSize: config.indexer.chunkSize,
+      pollIntervalMs: config.indexer.pollIntervalMs,
+      startBlock: config.indexer.startBlock,
+      maxEventAttempts: config.indexer.maxEventAttempts,
+    });
 
     this.initialize();
   }
@@ -42,9 +64,6 @@ export class BlockchainService {
         networkName: network.name,
         contractAddress: config.blockchain.zetachain.contractAddress,
       });
-
-      // Start listening to contract events
-      this.setupEventListeners();
     } catch (error) {
       blockchainLogger.error('Failed to initialize blockchain service:', error);
       throw error;
@@ -52,77 +71,133 @@ export class BlockchainService {
   }
 
   /**
-   * Set up event listeners for smart contract events
+   * Start indexing contract events (requires the database connection)
    */
-  private setupEventListeners(): void {
-    // Listen for NFT mint requests
-    this.chainWeaveContract.on('NFTMintRequested', async (
-      requestId: string,
-      sender: string,
-      sourceChainId: bigint,
-      destinationChainId: bigint,
-      prompt: string,
-      recipient: string,
-      fee: bigint,
-      event: ethers.Log
-    ) => {
-      blockchainLogger.info('NFT Mint Request detected', {
-        requestId,
-        sender,
-        destinationChainId: Number(destinationChainId),
-        prompt: prompt.substring(0, 50) + '...',
-        transactionHash: event.transactionHash,
-      });
-
-      await this.handleNewMintRequest({
-        requestId,
-        sender,
-        sourceChainId: Number(sourceChainId),
-        destinationChainId: Number(destinationChainId),
-        prompt,
-        recipient,
-        fee: fee.toString(),
-        transactionHash: event.transactionHash || '',
-      });
+  public startEventIndexer(): void {
+    this.eventIndexer.start({
+      onEvent: event => this.handleChainEvent(event),
+      onRollback: event => this.rollbackChainEvent(event),
     });
+  }
 
-    // Listen for NFT mint completions
-    this.chainWeaveContract.on('NFTMinted', async (
-      requestId: string,
-      tokenId: bigint,
-      tokenURI: string,
-      destinationChainId: bigint,
-      event: ethers.Log
-    ) => {
-      blockchainLogger.info('NFT Mint completed', {
-        requestId,
-        tokenId: Number(tokenId),
-        destinationChainId: Number(destinationChainId),
-        transactionHash: event.transactionHash,
-      });
+  /**
+   * Stop indexing contract events
+   */
+  public async stopEventIndexer(): Promise<void> {
+    await this.eventIndexer.stop();
+  }
 
-      await this.handleMintCompletion(requestId, {
-        tokenId: Number(tokenId),
-        tokenURI,
-        destinationChainId: Number(destinationChainId),
-        transactionHash: event.transactionHash || '',
-      });
-    });
+  /**
+   * Dispatch a confirmed contract event to its handler
+   */
+  private async handleChainEvent(event: ChainLogEvent): Promise<void> {
+    const { args } = event;
+    const requestId = String(args['requestId']);
+
+    switch (event.eventName) {
+      case 'NFTMintRequested':
+        blockchainLogger.info('NFT Mint Request detected', {
+          requestId,
+          sender: args['sender'],
+          destinationChainId: Number(args['destinationChainId']),
+          prompt: String(args['prompt']).substring(0, 50) + '...',
+          transactionHash: event.transactionHash,
+        });
+
+        await this.handleNewMintRequest({
+          requestId,
+          sender: String(args['sender']),
+          sourceChainId: Number(args['sourceChainId']),
+          destinationChainId: Number(args['destinationChainId']),
+          prompt: String(args['prompt']),
+          recipient: String(args['recipient']),
+          fee: String(args['fee']),
+          transactionHash: event.transactionHash,
+        });
+        break;
+
+      case 'NFTMinted':
+        blockchainLogger.info('NFT Mint completed', {
+          requestId,
+          tokenId: Number(args['tokenId']),
+          destinationChainId: Number(args['destinationChainId']),
+          transactionHash: event.transactionHash,
+        });
 
-    // Listen for mint reverts/failures
-    this.chainWeaveContract.on('NFTMintReverted', async (
-      requestId: string,
-      reason: string,
-      event: ethers.Log
-    ) => {
-      blockchainLogger.warn('NFT Mint reverted', {
+        await this.handleMintCompletion(requestId, {
+          tokenId: Number(args['tokenId']),
+          tokenURI: String(args['tokenURI']),
+          destinationChainId: Number(args['destinationChainId']),
+          transactionHash: event.transactionHash,
+        });
+        break;
+
+      case 'NFTMintReverted':
+        blockchainLogger.warn('NFT Mint reverted', {
+          requestId,
+          reason: args['reason'],
+          transactionHash: event.transactionHash,
+        });
+
+        await this.handleMintFailure(requestId, String(args['reason']));
+        break;
+
+      default:
+        blockchainLogger.debug('Ignoring unhandled contract event', { eventName: event.eventName });
+    }
+  }
+
+  /**
+   * Undo the effects of an event whose transaction was dropped by a reorg
+   */
+  private async rollbackChainEvent(event: ChainLogEvent): Promise<void> {
+    const requestId = String(event.args['requestId']);
+
+    try {
+      const request = await NFTRequest.findByRequestId(requestId);
+      if (!request) {
+        return;
+      }
+
+      switch (event.eventName) {
+        case 'NFTMintRequested':
+          // The request no longer exists on chain, so it cannot be completed
+          if (request.status !== RequestStatus.COMPLETED) {
+            await request.updateStatus(RequestStatus.FAILED, REORG_DROPPED_MESSAGE);
+          }
+          break;
+
+        case 'NFTMinted':
+          // With an indexed destination chain, completion comes from the destination event instead
+          if (request.status === RequestStatus.COMPLETED && !destinationChainService.isIndexed(request.destinationChainId)) {
+            request.set('completedAt', undefined);
+            request.set('blockchainData.tokenId', undefined);
+            await request.updateStatus(RequestStatus.CROSS_CHAIN_PENDING, undefined, false);
+          }
+          break;
+
+        case 'NFTMintReverted':
+          if (request.status === RequestStatus.FAILED) {
+            request.set('errorMessage', undefined);
+            await request.updateStatus(RequestStatus.CROSS_CHAIN_PENDING, undefined, false);
+          }
+          break;
+      }
+
+      blockchainLogger.warn('Rolled back contract event', {
         requestId,
-        reason,
-        transactionHash: event.transactionHash,
+        eventName: event.eventName,
+        status: request.status,
       });
 
-      await this.handleMintFailure(requestId, reason);
-    });
+    } catch (error) {
+      blockchainLogger.error('Failed to roll back contract event', {
+        requestId,
+        eventName: event.eventName,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
   }
 
   /**
@@ -277,6 +352,18 @@ export class BlockchainService {
     try {
       // Check if request already exists in database
       const existingRequest = await NFTRequest.findByRequestId(eventData.requestId);
+
+      // The transaction was mined again after a reorg dropped it
+      if (existingRequest?.status === RequestStatus.FAILED && existingRequest.errorMessage === REORG_DROPPED_MESSAGE) {
+        existingRequest.set('errorMessage', undefined);
+        await existingRequest.setBlockchainData({ transactionHash: eventData.transactionHash });
+        await existingRequest.updateStatus(RequestStatus.PENDING);
+        await generationQueue.enqueue(eventData.requestId);
+
+        blockchainLogger.info('Restored request after reorg', { requestId: eventData.requestId });
+        return;
+      }
+
       if (existingRequest) {
         blockchainLogger.warn('Request already exists in database', {
           requestId: eventData.requestId,
@@ -298,6 +385,24 @@ export class BlockchainService {
       });
 
       await nftRequest.save();
+      await generationQueue.enqueue(eventData.requestId);
+      await responseCacheService.invalidate('requests');
+
+      await webhookService.dispatch('request.created', eventData.sender, {
+        requestId: eventData.requestId,
+        prompt: eventData.prompt,
+        destinationChainId: eventData.destinationChainId,
+        recipient: eventData.recipient,
+        status: RequestStatus.PENDING,
+        transactionHash: eventData.transactionHash,
+      });
+
+      await realtimeService.publish(eventData.sender, 'chain.event', {
+        event: 'NFTMintRequested',
+        requestId: eventData.requestId,
+        destinationChainId: eventData.destinationChainId,
+        transactionHash: eventData.transactionHash,
+      });
 
       blockchainLogger.info('New NFT request saved to database', {
         requestId: eventData.requestId,
@@ -309,6 +414,7 @@ export class BlockchainService {
         requestId: eventData.requestId,
         error: error instanceof Error ? error.message : 'Unknown error',
       });
+      throw error;
     }
   }
 
@@ -331,14 +437,41 @@ export class BlockchainService {
         return;
       }
 
+      // When the destination chain is indexed, completion waits until the token is seen there
+      if (destinationChainService.isIndexed(data.destinationChainId)) {
+        await request.setBlockchainData({ transactionHash: data.transactionHash });
+
+        if (request.status !== RequestStatus.COMPLETED) {
+          await request.updateStatus(RequestStatus.CROSS_CHAIN_PENDING);
+        }
+
+        blockchainLogger.info('Mint confirmed on ZetaChain, awaiting destination chain', {
+          requestId,
+          destinationChainId: data.destinationChainId,
+        });
+        return;
+      }
+
       // Update request status and blockchain data
-      await request.updateStatus(RequestStatus.COMPLETED);
+      await request.updateStatus(RequestStatus.COMPLETED, undefined, false);
       await request.setBlockchainData({
         ...request.blockchainData,
         tokenId: data.tokenId,
         transactionHash: data.transactionHash,
       });
 
+      await realtimeService.publish(request.walletAddress, 'chain.event', {
+        event: 'NFTMinted',
+        requestId,
+        ...data,
+      });
+      await webhookService.dispatch('nft.minted', request.walletAddress, {
+        requestId,
+        recipient: request.recipient,
+        ...data,
+      });
+      await notificationService.notifyMintCompleted(request, data);
+
       blockchainLogger.info('Request marked as completed', {
         requestId,
         tokenId: data.tokenId,
@@ -349,6 +482,7 @@ export class BlockchainService {
         requestId,
         error: error instanceof Error ? error.message : 'Unknown error',
       });
+      throw error;
     }
   }
 
@@ -363,7 +497,20 @@ export class BlockchainService {
         return;
       }
 
-      await request.updateStatus(RequestStatus.FAILED, reason);
+      // Already recorded from the destination chain's revert event
+      if (request.status === RequestStatus.FAILED) {
+        return;
+      }
+
+      await request.updateStatus(RequestStatus.FAILED, reason, false);
+
+      await realtimeService.publish(request.walletAddress, 'chain.event', {
+        event: 'NFTMintReverted',
+        requestId,
+        reason,
+      });
+      await webhookService.dispatch('nft.reverted', request.walletAddress, { requestId, reason });
+      await notificationService.notifyMintReverted(request, reason);
 
       blockchainLogger.info('Request marked as failed', {
         requestId,
@@ -375,6 +522,7 @@ export class BlockchainService {
         requestId,
         error: error instanceof Error ? error.message : 'Unknown error',
       });
+      throw error;
     }
   }
 
@@ -406,24 +554,49 @@ export class BlockchainService {
   }
 
   /**
-   * Health check for blockchain connection
+   * Health check for blockchain connection. Degraded when the RPC node's latest
+   * block is stale or the event indexer has fallen behind the chain head.
    */
   public async healthCheck(): Promise<{
-    status: 'connected' | 'disconnected' | 'error';
+    status: 'connected' | 'degraded' | 'disconnected' | 'error';
     blockNumber?: number;
     chainId?: number;
+    blockAgeSeconds?: number;
+    indexerLagBlocks?: number;
+    warnings?: string[];
     error?: string;
   }> {
     try {
-      const [blockNumber, network] = await Promise.all([
-        this.provider.getBlockNumber(),
+      const [block, network] = await Promise.all([
+        this.provider.getBlock('latest'),
         this.provider.getNetwork(),
       ]);
 
+      if (!block) {
+        return {
+          status: 'error',
+          error: 'RPC node returned no latest block',
+        };
+      }
+
+      const warnings: string[] = [];
+      const blockAgeSeconds = Math.max(0, Math.floor(Date.now() / 1000) - block.timestamp);
+      if (blockAgeSeconds > config.healthCheck.maxBlockAgeSeconds) {
+        warnings.push(`Latest block is ${blockAgeSeconds}s old; the RPC node may be lagging behind the chain head`);
+      }
+
+      const progress = config.indexer.enabled ? await this.eventIndexer.getProgress(block.number) : null;
+      if (progress && progress.lagBlocks > config.healthCheck.maxIndexerLagBlocks) {
+        warnings.push(`Event indexer is ${progress.lagBlocks} blocks behind the confirmed head`);
+      }
+
       return {
-        status: 'connected',
-        blockNumber,
+        status: warnings.length > 0 ? 'degraded' : 'connected',
+        blockNumber: block.number,
         chainId: Number(network.chainId),
+        blockAgeSeconds,
+        ...(progress ? { indexerLagBlocks: progress.lagBlocks } : {}),
+        ...(warnings.length > 0 ? { warnings } : {}),
       };
     } catch (error) {
       return {
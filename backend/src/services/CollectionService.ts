@@ -2,8 +2,26 @@ import { Types } from 'mongoose';
 import { Collection } from '@/models/Collection';
 import { User } from '@/models/User';
 import { NFTRequest } from '@/models/NFTRequest';
-import { ICollection, CollectionMetadata, ServiceResponse, PaginationQuery } from '@/types';
+import { NFTLike } from '@/models/NFTLike';
+import {
+  ICollection,
+  CollectionMetadata,
+  IUser,
+  NFTMetadata,
+  ServiceResponse,
+  PaginationQuery,
+  RequestStatus,
+} from '@/types';
+import { config } from '@/config/env';
 import { logger } from '@/utils/logger';
+import { notificationService } from './NotificationService';
+import { ipfsService } from './IPFSService';
+import { metadataService } from './MetadataService';
+import { webhookService } from './WebhookService';
+import { responseCacheService } from './ResponseCacheService';
+
+// Number of likes that weigh as much as one mint when ranking trending collections
+const TRENDING_LIKE_WEIGHT = 5;
 
 export class CollectionService {
   /**
@@ -58,6 +76,7 @@ export class CollectionService {
       });
 
       await collection.save();
+      await responseCacheService.invalidate('collections');
 
       logger.info('Collection created successfully', {
         collectionId: collection._id,
@@ -65,6 +84,8 @@ export class CollectionService {
         contractAddress: data.contractAddress,
       });
 
+      await notificationService.notifyCollectionEvent(collection, 'created');
+
       return {
         success: true,
         data: collection.toJSON(),
@@ -347,6 +368,8 @@ export class CollectionService {
         updatedFields: Object.keys(updateData),
       });
 
+      await this.publishCollectionUpdate(collection, 'updated', { updatedFields: Object.keys(updateData) });
+
       return {
         success: true,
         data: collection.toJSON(),
@@ -395,6 +418,13 @@ export class CollectionService {
         newTotalSupply: collection.totalSupply,
       });
 
+      await notificationService.notifyCollectionEvent(collection, 'supply_updated');
+      await this.publishCollectionUpdate(collection, 'supply_updated', {
+        totalSupply: collection.totalSupply,
+        minted,
+        burned,
+      });
+
       return { success: true };
 
     } catch (error) {
@@ -531,11 +561,11 @@ export class CollectionService {
    */
   public async getFeaturedCollections(limit: number = 10): Promise<ServiceResponse<ICollection[]>> {
     try {
-      // For now, we'll return collections with highest total supply
-      // In a full implementation, this could be based on various factors like volume, activity, etc.
+      // Collections featured by staff come first (most recently featured first),
+      // then the ones with the highest total supply
       const collections = await Collection.find({ isActive: true })
         .populate('creatorId', 'walletAddress username avatar')
-        .sort({ totalSupply: -1, createdAt: -1 })
+        .sort({ featuredAt: -1, totalSupply: -1, createdAt: -1 })
         .limit(limit);
 
       return {
@@ -572,8 +602,8 @@ export class CollectionService {
 
       const startDate = new Date(Date.now() - periodMs);
 
-      // Get collections with most activity in the period
-      const trendingStats = await NFTRequest.aggregate([
+      // Mint activity per collection in the period
+      const activityStats: Array<{ _id: string; activityCount: number; totalVolume: number }> = await NFTRequest.aggregate([
         {
           $match: {
             createdAt: { $gte: startDate },
@@ -588,26 +618,55 @@ export class CollectionService {
             totalVolume: { $sum: '$fee' },
           }
         },
+      ]);
+
+      // Likes given to each collection's NFTs in the period
+      const likeStats: Array<{ _id: string; likeCount: number }> = await NFTLike.aggregate([
+        { $match: { createdAt: { $gte: startDate } } },
         {
-          $sort: { activityCount: -1, totalVolume: -1 }
+          $lookup: {
+            from: NFTRequest.collection.name,
+            localField: 'requestId',
+            foreignField: 'requestId',
+            as: 'request',
+          }
         },
+        { $unwind: '$request' },
+        { $match: { 'request.blockchainData.contractAddress': { $exists: true } } },
         {
-          $limit: limit
-        }
+          $group: {
+            _id: '$request.blockchainData.contractAddress',
+            likeCount: { $sum: 1 },
+          }
+        },
       ]);
 
+      // A mint counts as much as TRENDING_LIKE_WEIGHT likes
+      const scores = new Map<string, { score: number; totalVolume: number }>();
+      for (const stat of activityStats) {
+        scores.set(stat._id, { score: stat.activityCount, totalVolume: stat.totalVolume });
+      }
+      for (const stat of likeStats) {
+        const current = scores.get(stat._id) || { score: 0, totalVolume: 0 };
+        current.score += stat.likeCount / TRENDING_LIKE_WEIGHT;
+        scores.set(stat._id, current);
+      }
+
+      const trendingStats = [...scores.entries()]
+        .map(([contractAddress, stat]) => ({ contractAddress, ...stat }))
+        .sort((a, b) => b.score - a.score || b.totalVolume - a.totalVolume)
+        .slice(0, limit);
+
       // Get collection details
-      const contractAddresses = trendingStats.map(stat => stat._id);
+      const contractAddresses = trendingStats.map(stat => stat.contractAddress);
       const collections = await Collection.find({
         contractAddress: { $in: contractAddresses },
         isActive: true,
       }).populate('creatorId', 'walletAddress username avatar');
 
-      // Sort collections by trending stats
+      // Sort collections by trending score
       const sortedCollections = collections.sort((a, b) => {
-        const aStats = trendingStats.find(s => s._id === a.contractAddress);
-        const bStats = trendingStats.find(s => s._id === b.contractAddress);
-        return (bStats?.activityCount || 0) - (aStats?.activityCount || 0);
+        return contractAddresses.indexOf(a.contractAddress) - contractAddresses.indexOf(b.contractAddress);
       });
 
       return {
@@ -629,6 +688,250 @@ export class CollectionService {
     }
   }
 
+  /**
+   * Freeze the metadata of every minted token into one immutable IPFS directory.
+   * Images are packed into their own directory first, so each token's metadata can
+   * point at `ipfs://<imagesCID>/<tokenId>.<ext>`; tokens then resolve as
+   * `ipfs://<metadataCID>/<tokenId>.json`.
+   */
+  public async freezeMetadata(
+    collectionId: string,
+    creatorWallet: string
+  ): Promise<ServiceResponse<ICollection>> {
+    try {
+      if (!Types.ObjectId.isValid(collectionId)) {
+        return {
+          success: false,
+          error: 'Invalid collection ID format',
+        };
+      }
+
+      const collection = await Collection.findById(collectionId)
+        .populate<{ creatorId: Pick<IUser, 'walletAddress'> | null }>('creatorId', 'walletAddress');
+
+      if (!collection) {
+        return {
+          success: false,
+          error: 'Collection not found',
+        };
+      }
+
+      // Verify creator ownership
+      if (collection.creatorId?.walletAddress !== creatorWallet.toLowerCase()) {
+        return {
+          success: false,
+          error: 'Unauthorized: Only collection creator can freeze metadata',
+        };
+      }
+
+      if (collection.frozenMetadata) {
+        return {
+          success: false,
+          error: 'Collection metadata is already frozen',
+        };
+      }
+
+      const tokens = await NFTRequest.find({
+        'blockchainData.contractAddress': collection.contractAddress,
+        'blockchainData.tokenId': { $exists: true },
+        status: RequestStatus.COMPLETED,
+        metadata: { $exists: true },
+      }).sort({ 'blockchainData.tokenId': 1 }).limit(config.ipfs.freeze.maxTokens + 1).lean();
+
+      if (tokens.length === 0) {
+        return {
+          success: false,
+          error: 'Collection has no minted tokens to freeze',
+        };
+      }
+
+      if (tokens.length > config.ipfs.freeze.maxTokens) {
+        return {
+          success: false,
+          error: `Collection has more than ${config.ipfs.freeze.maxTokens} tokens to freeze`,
+          code: 'COLLECTION_TOO_LARGE',
+        };
+      }
+
+      // Each token ID names a file in the frozen directories, so it must be unique
+      const tokenIds = tokens.map(token => token.blockchainData!.tokenId!);
+      const duplicates = [...new Set(tokenIds.filter((tokenId, index) => tokenIds.indexOf(tokenId) !== index))];
+      if (duplicates.length > 0) {
+        return {
+          success: false,
+          error: 'Collection has several tokens with the same token ID',
+          code: 'DUPLICATE_TOKEN_ID',
+          details: duplicates.map(tokenId => ({
+            field: `tokens[${tokenId}]`,
+            message: 'Token ID is used by more than one minted request',
+            value: tokenId,
+          })),
+        };
+      }
+
+      // Validate every token before anything is pinned; images get their URIs later
+      const metadata = tokens.map(token => this.toTokenMetadata(token.metadata!));
+      const details = metadata.flatMap((tokenMetadata, index) =>
+        metadataService.validate({ ...tokenMetadata, image: 'ipfs://pending' }).errors.map(error => ({
+          ...error,
+          field: `tokens[${tokens[index]!.blockchainData!.tokenId}].${error.field}`,
+        }))
+      );
+
+      if (details.length > 0) {
+        return {
+          success: false,
+          error: 'Token metadata validation failed',
+          code: 'INVALID_METADATA',
+          details,
+        };
+      }
+
+      logger.info('Freezing collection metadata', { collectionId, tokens: tokens.length });
+
+      // Fetched one at a time to keep gateway load down
+      const images: Array<{ name: string; content: Buffer }> = [];
+      let imageBytes = 0;
+      for (const token of tokens) {
+        const tokenId = token.blockchainData!.tokenId!;
+        const imageHash = token.aiGenerationData?.ipfsHash || token.metadata!.image.replace(/^ipfs:\/\//, '');
+
+        const image = await ipfsService.retrieveFile(imageHash);
+        if (!image.success) {
+          return {
+            success: false,
+            error: `Failed to fetch image of token ${tokenId}: ${image.error}`,
+          };
+        }
+
+        imageBytes += image.data!.data.length;
+        if (imageBytes > config.ipfs.freeze.maxBytes) {
+          return {
+            success: false,
+            error: `Collection images exceed the ${config.ipfs.freeze.maxBytes} byte freeze limit`,
+            code: 'COLLECTION_TOO_LARGE',
+          };
+        }
+
+        const extension = image.data!.contentType.split(';')[0]!.split('/')[1] || 'png';
+        images.push({ name: `${tokenId}.${extension}`, content: image.data!.data });
+      }
+
+      const imagesResult = await ipfsService.uploadDirectory(images, `${collection.contractAddress}-images`);
+      if (!imagesResult.success) {
+        return {
+          success: false,
+          error: `Failed to upload images: ${imagesResult.error}`,
+        };
+      }
+
+      const imagesCid = imagesResult.data!.hash;
+      const metadataFiles = tokens.map((token, index) => ({
+        name: `${token.blockchainData!.tokenId}.json`,
+        content: Buffer.from(JSON.stringify(metadataService.format(
+          { ...metadata[index]!, image: `ipfs://${imagesCid}/${images[index]!.name}` },
+          config.ipfs.metadataProfile,
+          token.blockchainData!.tokenId
+        ))),
+      }));
+
+      const metadataResult = await ipfsService.uploadDirectory(metadataFiles, `${collection.contractAddress}-metadata`);
+      if (!metadataResult.success) {
+        return {
+          success: false,
+          error: `Failed to upload metadata: ${metadataResult.error}`,
+        };
+      }
+
+      const metadataCid = metadataResult.data!.hash;
+      collection.frozenMetadata = {
+        baseURI: `ipfs://${metadataCid}/`,
+        metadataCid,
+        imagesCid,
+        tokenCount: tokens.length,
+        frozenAt: new Date(),
+      };
+      await collection.save();
+
+      logger.info('Collection metadata frozen', {
+        collectionId,
+        metadataCid,
+        imagesCid,
+        tokenCount: tokens.length,
+      });
+
+      await notificationService.notifyCollectionEvent(collection, 'metadata_frozen');
+      await this.publishCollectionUpdate(collection, 'metadata_frozen', {
+        baseURI: collection.frozenMetadata?.baseURI,
+      });
+
+      return {
+        success: true,
+        data: collection.toJSON(),
+      };
+
+    } catch (error) {
+      logger.error('Failed to freeze collection metadata', {
+        collectionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to freeze collection metadata',
+      };
+    }
+  }
+
+  /**
+   * Drop cached collection listings and send a `collection.updated` webhook
+   * to the creator's endpoints
+   */
+  private async publishCollectionUpdate(
+    // creatorId may be populated with the creator's wallet address
+    collection: Omit<ICollection, 'creatorId'> & { creatorId: unknown },
+    change: 'updated' | 'supply_updated' | 'metadata_frozen' | 'deactivated',
+    details: Record<string, unknown> = {}
+  ): Promise<void> {
+    await responseCacheService.invalidate('collections');
+
+    try {
+      const creator = collection.creatorId as { _id?: Types.ObjectId; walletAddress?: string } | null;
+      const walletAddress = creator?.walletAddress
+        ?? (await User.findById(creator?._id ?? collection.creatorId).select('walletAddress').lean())?.walletAddress;
+
+      await webhookService.dispatch('collection.updated', walletAddress, {
+        collectionId: String(collection._id),
+        contractAddress: collection.contractAddress,
+        chainId: collection.chainId,
+        change,
+        ...details,
+      });
+    } catch (error) {
+      logger.warn('Failed to publish collection update', {
+        collectionId: String(collection._id),
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Token metadata as stored, without the ids Mongoose adds to attribute entries
+   */
+  private toTokenMetadata(metadata: NFTMetadata): NFTMetadata {
+    return {
+      ...metadata,
+      ...(metadata.attributes ? {
+        attributes: metadata.attributes.map(({ trait_type, value, display_type, max_value }) => ({
+          trait_type,
+          value,
+          ...(display_type ? { display_type } : {}),
+          ...(max_value !== undefined && max_value !== null ? { max_value } : {}),
+        })),
+      } : {}),
+    };
+  }
+
   /**
    * Deactivate collection
    */
@@ -667,6 +970,9 @@ export class CollectionService {
 
       logger.info('Collection deactivated', { collectionId, creatorWallet });
 
+      await notificationService.notifyCollectionEvent(collection, 'deactivated');
+      await this.publishCollectionUpdate(collection, 'deactivated');
+
       return { success: true };
 
     } catch (error) {
@@ -682,6 +988,66 @@ export class CollectionService {
     }
   }
 
+  /**
+   * Feature a collection at the top of the featured list, or take it off (staff only)
+   */
+  public async setFeatured(collectionId: string, featured: boolean): Promise<ServiceResponse<ICollection>> {
+    try {
+      if (!Types.ObjectId.isValid(collectionId)) {
+        return {
+          success: false,
+          error: 'Invalid collection ID format',
+          code: 'NOT_FOUND',
+        };
+      }
+
+      const collection = await Collection.findById(collectionId)
+        .populate('creatorId', 'walletAddress username avatar');
+
+      if (!collection) {
+        return {
+          success: false,
+          error: 'Collection not found',
+          code: 'NOT_FOUND',
+        };
+      }
+
+      if (featured && !collection.isActive) {
+        return {
+          success: false,
+          error: 'Inactive collections cannot be featured',
+          code: 'INVALID_STATUS',
+        };
+      }
+
+      if (featured !== !!collection.featuredAt) {
+        collection.set('featuredAt', featured ? new Date() : undefined);
+        await collection.save();
+
+        logger.info(featured ? 'Collection featured' : 'Collection unfeatured', { collectionId });
+
+        await this.publishCollectionUpdate(collection, 'updated', { updatedFields: ['featuredAt'] });
+      }
+
+      return {
+        success: true,
+        data: collection.toJSON(),
+      };
+
+    } catch (error) {
+      logger.error('Failed to update featured collection', {
+        collectionId,
+        featured,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to update featured collection',
+      };
+    }
+  }
+
   /**
    * Get all collections with pagination (admin only)
    */
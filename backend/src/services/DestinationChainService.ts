@@ -0,0 +1,305 @@
+import { ethers } from 'ethers';
+import { config } from '@/config/env';
+import { DESTINATION_CHAIN_IDS, getChainName, getMinterAddress, getRpcUrl } from '@/config/chains';
+import { blockchainLogger } from '@/utils/logger';
+import { RequestStatus } from '@/types';
+import { NFTRequest } from '@/models/NFTRequest';
+import { TokenOwnership } from '@/models/TokenOwnership';
+import { EventIndexer, ChainLogEvent } from './EventIndexerService';
+import { notificationService } from './NotificationService';
+import { realtimeService } from './RealtimeService';
+import { webhookService } from './WebhookService';
+
+// CrossChainMinter ABI (events observed on destination chains)
+const CROSS_CHAIN_MINTER_ABI = [
+  'event TokenMintedWithRoyalty(uint256 indexed tokenId, address indexed recipient, bytes32 indexed requestId, uint256 royalty)',
+  'event CrossChainMintReverted(bytes32 indexed requestId, string reason, address sender)',
+  'event TokenBurned(uint256 indexed tokenId, address indexed burner)',
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+];
+
+interface DestinationIndexer {
+  chainId: number;
+  contractAddress: string;
+  indexer: EventIndexer;
+}
+
+/**
+ * Indexes the CrossChainMinter contract on every destination chain that has
+ * both a minter address and an RPC endpoint configured. A request only
+ * becomes completed once its token is seen on the destination chain, and
+ * token ownership is tracked from Transfer events.
+ */
+export class DestinationChainService {
+  private destinations: Map<number, DestinationIndexer> = new Map();
+
+  constructor() {
+    for (const chainId of DESTINATION_CHAIN_IDS) {
+      const rpcUrl = getRpcUrl(chainId);
+      const minterAddress = getMinterAddress(chainId);
+      if (!rpcUrl || !minterAddress) {
+        continue;
+      }
+
+      const provider = new ethers.JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true });
+      const contractAddress = minterAddress.toLowerCase();
+
+      this.destinations.set(chainId, {
+        chainId,
+        contractAddress,
+        indexer: new EventIndexer({
+          indexerId: `minter:${chainId}:${contractAddress}`,
+          chainId,
+          contract: new ethers.Contract(minterAddress, CROSS_CHAIN_MINTER_ABI, provider),
+          events: ['Transfer', 'TokenMintedWithRoyalty', 'CrossChainMintReverted', 'TokenBurned'],
+          confirmations: config.indexer.confirmations,
+          chunkSize: config.indexer.chunkSize,
+          pollIntervalMs: config.indexer.pollIntervalMs,
+          maxEventAttempts: config.indexer.maxEventAttempts,
+        }),
+      });
+    }
+  }
+
+  /**
+   * Whether mints on a chain are observed directly
+   */
+  public isIndexed(chainId: number): boolean {
+    return this.destinations.has(chainId);
+  }
+
+  /**
+   * Start indexing every configured destination chain
+   */
+  public start(): void {
+    for (const destination of this.destinations.values()) {
+      destination.indexer.start({
+        onEvent: event => this.handleEvent(destination, event),
+        onRollback: event => this.rollbackEvent(destination, event),
+      });
+    }
+
+    blockchainLogger.info('Destination chain indexers started', {
+      chains: [...this.destinations.keys()].map(getChainName),
+    });
+  }
+
+  /**
+   * Stop every destination chain indexer
+   */
+  public async stop(): Promise<void> {
+    await Promise.all([...this.destinations.values()].map(destination => destination.indexer.stop()));
+  }
+
+  private async handleEvent(destination: DestinationIndexer, event: ChainLogEvent): Promise<void> {
+    const { args } = event;
+
+    switch (event.eventName) {
+      case 'Transfer':
+        await this.handleTransfer(destination, event, {
+          from: String(args['from']).toLowerCase(),
+          to: String(args['to']).toLowerCase(),
+          tokenId: Number(args['tokenId']),
+        });
+        break;
+
+      case 'TokenMintedWithRoyalty':
+        await this.handleTokenMinted(destination, event, {
+          requestId: String(args['requestId']),
+          tokenId: Number(args['tokenId']),
+          royalty: Number(args['royalty']),
+        });
+        break;
+
+      case 'CrossChainMintReverted':
+        await this.handleMintReverted(destination, String(args['requestId']), String(args['reason']));
+        break;
+
+      case 'TokenBurned':
+        await TokenOwnership.updateOne(
+          { chainId: destination.chainId, contractAddress: destination.contractAddress, tokenId: Number(args['tokenId']) },
+          { $set: { burned: true } }
+        );
+        break;
+    }
+  }
+
+  /**
+   * Keep the ownership table in step with ERC-721 transfers (mints and burns included)
+   */
+  private async handleTransfer(
+    destination: DestinationIndexer,
+    event: ChainLogEvent,
+    transfer: { from: string; to: string; tokenId: number }
+  ): Promise<void> {
+    const key = {
+      chainId: destination.chainId,
+      contractAddress: destination.contractAddress,
+      tokenId: transfer.tokenId,
+    };
+    const isMint = transfer.from === ethers.ZeroAddress;
+    const isBurn = transfer.to === ethers.ZeroAddress;
+
+    await TokenOwnership.updateOne(
+      key,
+      {
+        $set: {
+          ...(isBurn ? { burned: true } : { owner: transfer.to, burned: false }),
+          lastTransactionHash: event.transactionHash,
+          lastBlockNumber: event.blockNumber,
+        },
+        ...(isMint ? { $setOnInsert: { mintTransactionHash: event.transactionHash } } : {}),
+      },
+      // Tokens minted before the indexer started are picked up on their next transfer
+      { upsert: !isBurn }
+    );
+  }
+
+  /**
+   * Mark a request completed once its token exists on the destination chain
+   */
+  private async handleTokenMinted(
+    destination: DestinationIndexer,
+    event: ChainLogEvent,
+    mint: { requestId: string; tokenId: number; royalty: number }
+  ): Promise<void> {
+    await TokenOwnership.updateOne(
+      { chainId: destination.chainId, contractAddress: destination.contractAddress, tokenId: mint.tokenId },
+      { $set: { requestId: mint.requestId } }
+    );
+
+    const request = await NFTRequest.findByRequestId(mint.requestId);
+    if (!request) {
+      blockchainLogger.warn('Token minted for unknown request', {
+        requestId: mint.requestId,
+        chainId: destination.chainId,
+        tokenId: mint.tokenId,
+      });
+      return;
+    }
+
+    await request.setBlockchainData({
+      tokenId: mint.tokenId,
+      contractAddress: destination.contractAddress,
+      mintTransactionHash: event.transactionHash,
+      mintBlockNumber: event.blockNumber,
+      royalty: mint.royalty,
+    });
+
+    if (request.status === RequestStatus.COMPLETED) {
+      return;
+    }
+
+    await request.updateStatus(RequestStatus.COMPLETED, undefined, false);
+
+    const data = {
+      tokenId: mint.tokenId,
+      destinationChainId: destination.chainId,
+      transactionHash: event.transactionHash,
+    };
+    await realtimeService.publish(request.walletAddress, 'chain.event', {
+      event: 'NFTMinted',
+      requestId: mint.requestId,
+      ...data,
+    });
+    await webhookService.dispatch('nft.minted', request.walletAddress, {
+      requestId: mint.requestId,
+      recipient: request.recipient,
+      contractAddress: destination.contractAddress,
+      ...data,
+    });
+    await notificationService.notifyMintCompleted(request, data);
+
+    blockchainLogger.info('Token confirmed on destination chain', {
+      requestId: mint.requestId,
+      chainId: destination.chainId,
+      tokenId: mint.tokenId,
+    });
+  }
+
+  private async handleMintReverted(destination: DestinationIndexer, requestId: string, reason: string): Promise<void> {
+    // The minter emits a zero request ID when the revert message could not be decoded
+    if (requestId === ethers.ZeroHash) {
+      blockchainLogger.warn('Cross-chain mint reverted for unknown request', { chainId: destination.chainId, reason });
+      return;
+    }
+
+    const request = await NFTRequest.findByRequestId(requestId);
+    if (!request || request.status === RequestStatus.COMPLETED || request.status === RequestStatus.FAILED) {
+      return;
+    }
+
+    await request.updateStatus(RequestStatus.FAILED, reason, false);
+
+    await realtimeService.publish(request.walletAddress, 'chain.event', {
+      event: 'NFTMintReverted',
+      requestId,
+      reason,
+    });
+    await webhookService.dispatch('nft.reverted', request.walletAddress, {
+      requestId,
+      destinationChainId: destination.chainId,
+      reason,
+    });
+    await notificationService.notifyMintReverted(request, reason);
+
+    blockchainLogger.warn('Cross-chain mint reverted on destination chain', {
+      requestId,
+      chainId: destination.chainId,
+      reason,
+    });
+  }
+
+  /**
+   * Undo the effects of an event whose transaction was dropped by a reorg
+   */
+  private async rollbackEvent(destination: DestinationIndexer, event: ChainLogEvent): Promise<void> {
+    const { args } = event;
+    const tokenKey = {
+      chainId: destination.chainId,
+      contractAddress: destination.contractAddress,
+      tokenId: Number(args['tokenId']),
+    };
+
+    switch (event.eventName) {
+      case 'Transfer': {
+        const from = String(args['from']).toLowerCase();
+        if (from === ethers.ZeroAddress) {
+          await TokenOwnership.deleteOne(tokenKey);
+        } else {
+          await TokenOwnership.updateOne(tokenKey, { $set: { owner: from, burned: false } });
+        }
+        break;
+      }
+
+      case 'TokenBurned':
+        await TokenOwnership.updateOne(tokenKey, { $set: { burned: false } });
+        break;
+
+      case 'TokenMintedWithRoyalty': {
+        const request = await NFTRequest.findByRequestId(String(args['requestId']));
+        if (request?.status === RequestStatus.COMPLETED) {
+          request.set('completedAt', undefined);
+          request.set('blockchainData.tokenId', undefined);
+          request.set('blockchainData.mintTransactionHash', undefined);
+          request.set('blockchainData.mintBlockNumber', undefined);
+          request.set('blockchainData.royalty', undefined);
+          await request.updateStatus(RequestStatus.CROSS_CHAIN_PENDING, undefined, false);
+        }
+        break;
+      }
+
+      case 'CrossChainMintReverted': {
+        const request = await NFTRequest.findByRequestId(String(args['requestId']));
+        if (request?.status === RequestStatus.FAILED) {
+          request.set('errorMessage', undefined);
+          await request.updateStatus(RequestStatus.CROSS_CHAIN_PENDING, undefined, false);
+        }
+        break;
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const destinationChainService = new DestinationChainService();
\ No newline at end of file
@@ -0,0 +1,593 @@
+import { ethers } from 'ethers';
+import { IndexerCursor } from '@/models/IndexerCursor';
+import { IndexedEvent } from '@/models/IndexedEvent';
+import { blockchainLogger } from '@/utils/logger';
+import { BlockCheckpoint, IndexedEventStatus } from '@/types';
+
+export interface ChainLogEvent {
+  indexerId: string;
+  chainId: number;
+  eventName: string;
+  transactionHash: string;
+  logIndex: number;
+  blockNumber: number;
+  blockHash: string;
+  args: Record<string, unknown>;
+}
+
+export interface IndexerCursorState {
+  lastProcessedBlock: number;
+  checkpoints: BlockCheckpoint[];
+}
+
+// Where an event sits in the chain; a re-mined transaction moves its logs
+export interface EventPosition {
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+}
+
+export interface EventIndexerHandler {
+  onEvent(event: ChainLogEvent): Promise<void>;
+  onRollback?(event: ChainLogEvent): Promise<void>;
+}
+
+/**
+ * Storage backend for indexer progress and handled events
+ */
+export interface IndexerStore {
+  getCursor(indexerId: string): Promise<IndexerCursorState | null>;
+  saveCursor(
+    indexerId: string,
+    chainId: number,
+    contractAddress: string,
+    state: IndexerCursorState
+  ): Promise<void>;
+  // Processed and dead-lettered events are both settled
+  isSettled(indexerId: string, transactionHash: string, logIndex: number): Promise<boolean>;
+  markProcessed(event: ChainLogEvent): Promise<void>;
+  // Returns the number of failed attempts so far
+  recordFailure(event: ChainLogEvent, error: string): Promise<number>;
+  markDeadLettered(event: ChainLogEvent, error: string): Promise<void>;
+  findProcessedAfter(indexerId: string, blockNumber: number): Promise<ChainLogEvent[]>;
+  moveEvent(event: ChainLogEvent, position: EventPosition): Promise<void>;
+  markRolledBack(event: ChainLogEvent): Promise<void>;
+}
+
+/**
+ * MongoDB-backed indexer store
+ */
+export class MongoIndexerStore implements IndexerStore {
+  public async getCursor(indexerId: string): Promise<IndexerCursorState | null> {
+    const cursor = await IndexerCursor.findOne({ indexerId }).lean();
+    if (!cursor) {
+      return null;
+    }
+
+    return {
+      lastProcessedBlock: cursor.lastProcessedBlock,
+      checkpoints: cursor.checkpoints.map(({ blockNumber, blockHash }) => ({ blockNumber, blockHash })),
+    };
+  }
+
+  public async saveCursor(
+    indexerId: string,
+    chainId: number,
+    contractAddress: string,
+    state: IndexerCursorState
+  ): Promise<void> {
+    await IndexerCursor.updateOne(
+      { indexerId },
+      {
+        $set: {
+          chainId,
+          contractAddress,
+          lastProcessedBlock: state.lastProcessedBlock,
+          checkpoints: state.checkpoints,
+        },
+      },
+      { upsert: true }
+    );
+  }
+
+  public async isSettled(indexerId: string, transactionHash: string, logIndex: number): Promise<boolean> {
+    const count = await IndexedEvent.countDocuments({
+      indexerId,
+      transactionHash: transactionHash.toLowerCase(),
+      logIndex,
+      status: { $in: [IndexedEventStatus.PROCESSED, IndexedEventStatus.DEAD_LETTERED] },
+    });
+
+    return count > 0;
+  }
+
+  public async markProcessed(event: ChainLogEvent): Promise<void> {
+    await IndexedEvent.updateOne(
+      {
+        indexerId: event.indexerId,
+        transactionHash: event.transactionHash.toLowerCase(),
+        logIndex: event.logIndex,
+      },
+      {
+        $set: {
+          chainId: event.chainId,
+          eventName: event.eventName,
+          blockNumber: event.blockNumber,
+          blockHash: event.blockHash,
+          args: event.args,
+          status: IndexedEventStatus.PROCESSED,
+        },
+        $unset: { rolledBackAt: '' },
+      },
+      { upsert: true }
+    );
+  }
+
+  public async recordFailure(event: ChainLogEvent, error: string): Promise<number> {
+    const failed = await IndexedEvent.findOneAndUpdate(
+      {
+        indexerId: event.indexerId,
+        transactionHash: event.transactionHash.toLowerCase(),
+        logIndex: event.logIndex,
+      },
+      {
+        $set: {
+          chainId: event.chainId,
+          eventName: event.eventName,
+          blockNumber: event.blockNumber,
+          blockHash: event.blockHash,
+          args: event.args,
+          status: IndexedEventStatus.FAILED,
+          lastError: error.slice(0, 1000),
+        },
+        $inc: { attempts: 1 },
+      },
+      { upsert: true, new: true }
+    ).lean();
+
+    return failed?.attempts ?? 1;
+  }
+
+  public async markDeadLettered(event: ChainLogEvent, error: string): Promise<void> {
+    await IndexedEvent.updateOne(
+      {
+        indexerId: event.indexerId,
+        transactionHash: event.transactionHash.toLowerCase(),
+        logIndex: event.logIndex,
+      },
+      { $set: { status: IndexedEventStatus.DEAD_LETTERED, lastError: error.slice(0, 1000) } }
+    );
+  }
+
+  public async findProcessedAfter(indexerId: string, blockNumber: number): Promise<ChainLogEvent[]> {
+    const events = await IndexedEvent.find({
+      indexerId,
+      status: IndexedEventStatus.PROCESSED,
+      blockNumber: { $gt: blockNumber },
+    }).sort({ blockNumber: -1, logIndex: -1 }).lean();
+
+    return events.map(event => ({
+      indexerId: event.indexerId,
+      chainId: event.chainId,
+      eventName: event.eventName,
+      transactionHash: event.transactionHash,
+      logIndex: event.logIndex,
+      blockNumber: event.blockNumber,
+      blockHash: event.blockHash,
+      args: event.args,
+    }));
+  }
+
+  public async moveEvent(event: ChainLogEvent, position: EventPosition): Promise<void> {
+    await IndexedEvent.updateOne(
+      {
+        indexerId: event.indexerId,
+        transactionHash: event.transactionHash.toLowerCase(),
+        logIndex: event.logIndex,
+      },
+      {
+        $set: {
+          blockNumber: position.blockNumber,
+          blockHash: position.blockHash,
+          logIndex: position.logIndex,
+        },
+      }
+    );
+  }
+
+  public async markRolledBack(event: ChainLogEvent): Promise<void> {
+    await IndexedEvent.updateOne(
+      {
+        indexerId: event.indexerId,
+        transactionHash: event.transactionHash.toLowerCase(),
+        logIndex: event.logIndex,
+      },
+      { $set: { status: IndexedEventStatus.ROLLED_BACK, rolledBackAt: new Date() } }
+    );
+  }
+}
+
+export interface EventIndexerOptions {
+  indexerId: string;
+  chainId: number;
+  contract: ethers.Contract;
+  events: string[];
+  confirmations: number;
+  chunkSize: number;
+  pollIntervalMs: number;
+  // First block to scan when there is no saved cursor; defaults to the current safe head
+  startBlock?: number | undefined;
+  // Handler failures tolerated per event before it is dead-lettered and skipped
+  maxEventAttempts?: number;
+  store?: IndexerStore;
+}
+
+// Number of processed block hashes kept for reorg detection
+const MAX_CHECKPOINTS = 64;
+
+const DEFAULT_MAX_EVENT_ATTEMPTS = 5;
+
+/**
+ * Polling contract event indexer.
+ * Only acts on blocks with enough confirmations, saves its progress after
+ * every chunk so that a restart backfills whatever was missed, and when a
+ * previously processed block is replaced it rewinds to the last common block,
+ * rolling back events whose transactions are no longer on chain. An event
+ * whose handler keeps failing is dead-lettered so that it cannot stall the chain.
+ */
+export class EventIndexer {
+  private readonly options: EventIndexerOptions;
+  private readonly store: IndexerStore;
+  private readonly provider: ethers.Provider;
+  private handler: EventIndexerHandler | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private syncing: Promise<void> | null = null;
+  private stopping = false;
+
+  constructor(options: EventIndexerOptions) {
+    if (!options.contract.runner?.provider) {
+      throw new Error('Indexed contract must be connected to a provider');
+    }
+
+    this.options = options;
+    this.store = options.store || new MongoIndexerStore();
+    this.provider = options.contract.runner.provider;
+  }
+
+  /**
+   * Start polling for new blocks
+   */
+  public start(handler: EventIndexerHandler): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.handler = handler;
+    this.stopping = false;
+    this.pollTimer = setInterval(() => void this.poll(), this.options.pollIntervalMs);
+
+    blockchainLogger.info('Event indexer started', {
+      indexerId: this.options.indexerId,
+      events: this.options.events,
+      confirmations: this.options.confirmations,
+    });
+
+    void this.poll();
+  }
+
+  /**
+   * Stop polling and wait for the current pass to finish
+   */
+  public async stop(): Promise<void> {
+    this.stopping = true;
+
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    await this.syncing;
+
+    blockchainLogger.info('Event indexer stopped', { indexerId: this.options.indexerId });
+  }
+
+  /**
+   * Saved progress against a chain head, or null before the first pass
+   */
+  public async getProgress(head: number): Promise<{
+    lastProcessedBlock: number;
+    safeHead: number;
+    lagBlocks: number;
+  } | null> {
+    const cursor = await this.store.getCursor(this.options.indexerId);
+    if (!cursor) {
+      return null;
+    }
+
+    const safeHead = head - this.options.confirmations;
+
+    return {
+      lastProcessedBlock: cursor.lastProcessedBlock,
+      safeHead,
+      lagBlocks: Math.max(0, safeHead - cursor.lastProcessedBlock),
+    };
+  }
+
+  /**
+   * Run a single pass: check for reorgs, then process every confirmed block
+   * since the saved cursor. Returns the last processed block.
+   */
+  public async sync(handler: EventIndexerHandler | null = this.handler): Promise<number> {
+    if (!handler) {
+      throw new Error('No event handler registered');
+    }
+
+    const { indexerId } = this.options;
+    const head = await this.provider.getBlockNumber();
+    const safeHead = head - this.options.confirmations;
+
+    let cursor = await this.store.getCursor(indexerId);
+    if (!cursor) {
+      const startBlock = this.options.startBlock ?? Math.max(safeHead, 0);
+      cursor = { lastProcessedBlock: startBlock - 1, checkpoints: [] };
+
+      blockchainLogger.info('Event indexer starting from block', { indexerId, startBlock });
+    }
+
+    cursor = await this.handleReorg(cursor, safeHead, handler);
+
+    while (!this.stopping && cursor.lastProcessedBlock < safeHead) {
+      const fromBlock = cursor.lastProcessedBlock + 1;
+      const toBlock = Math.min(fromBlock + this.options.chunkSize - 1, safeHead);
+
+      const events = await this.fetchEvents(fromBlock, toBlock);
+      for (const event of events) {
+        await this.processEvent(event, handler);
+      }
+
+      const block = await this.provider.getBlock(toBlock);
+      if (!block?.hash) {
+        throw new Error(`Block ${toBlock} not available`);
+      }
+
+      cursor = {
+        lastProcessedBlock: toBlock,
+        checkpoints: [
+          ...cursor.checkpoints,
+          { blockNumber: toBlock, blockHash: block.hash },
+        ].slice(-MAX_CHECKPOINTS),
+      };
+      await this.saveCursor(cursor);
+
+      if (events.length > 0 || toBlock < safeHead) {
+        blockchainLogger.debug('Indexed block range', {
+          indexerId,
+          fromBlock,
+          toBlock,
+          events: events.length,
+          remaining: safeHead - toBlock,
+        });
+      }
+    }
+
+    return cursor.lastProcessedBlock;
+  }
+
+  private async poll(): Promise<void> {
+    if (this.syncing || this.stopping) {
+      return;
+    }
+
+    this.syncing = this.sync()
+      .then(() => undefined)
+      .catch(error => {
+        blockchainLogger.error('Event indexer pass failed', {
+          indexerId: this.options.indexerId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      })
+      .finally(() => {
+        this.syncing = null;
+      });
+
+    await this.syncing;
+  }
+
+  /**
+   * Rewind the cursor when the newest checkpoint is no longer canonical
+   */
+  private async handleReorg(
+    cursor: IndexerCursorState,
+    safeHead: number,
+    handler: EventIndexerHandler
+  ): Promise<IndexerCursorState> {
+    const { indexerId } = this.options;
+    const latest = cursor.checkpoints[cursor.checkpoints.length - 1];
+    if (!latest || await this.isCanonical(latest)) {
+      return cursor;
+    }
+
+    // Find the newest checkpoint that survived the reorg
+    let ancestorIndex = cursor.checkpoints.length - 2;
+    while (ancestorIndex >= 0 && !(await this.isCanonical(cursor.checkpoints[ancestorIndex]!))) {
+      ancestorIndex--;
+    }
+
+    const oldest = cursor.checkpoints[0]!;
+    const ancestorBlock = ancestorIndex >= 0
+      ? cursor.checkpoints[ancestorIndex]!.blockNumber
+      : Math.max(oldest.blockNumber - this.options.chunkSize, -1);
+
+    blockchainLogger.warn('Chain reorganization detected, rewinding indexer', {
+      indexerId,
+      lastProcessedBlock: cursor.lastProcessedBlock,
+      ancestorBlock,
+      checkpointFound: ancestorIndex >= 0,
+    });
+
+    // Newest first so that state is unwound in reverse order
+    const affected = await this.store.findProcessedAfter(indexerId, ancestorBlock);
+    const moves: Array<{ event: ChainLogEvent; position: EventPosition }> = [];
+    for (const event of affected) {
+      const receipt = await this.provider.getTransactionReceipt(event.transactionHash);
+
+      // Re-mined in a confirmed block: keep the effects, only the position moved
+      const logIndex = receipt && receipt.blockNumber <= safeHead
+        ? await this.findRelocatedLogIndex(event, receipt)
+        : null;
+
+      if (receipt && logIndex !== null) {
+        moves.push({ event, position: { blockNumber: receipt.blockNumber, blockHash: receipt.blockHash, logIndex } });
+        continue;
+      }
+
+      blockchainLogger.warn('Rolling back event dropped by reorg', {
+        indexerId,
+        eventName: event.eventName,
+        transactionHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+      });
+
+      await handler.onRollback?.(event);
+      await this.store.markRolledBack(event);
+    }
+
+    await this.moveEvents(moves);
+
+    const rewound: IndexerCursorState = {
+      lastProcessedBlock: ancestorBlock,
+      checkpoints: cursor.checkpoints.filter(checkpoint => checkpoint.blockNumber <= ancestorBlock),
+    };
+    await this.saveCursor(rewound);
+
+    return rewound;
+  }
+
+  /**
+   * Events are unique per transaction and log index, and a re-mined
+   * transaction can shift its logs onto each other's old indexes. Every event
+   * is parked on the negative of its new index first, then moved there. The
+   * cursor is only rewound afterwards, so a crash in between repeats the whole
+   * check on the next poll.
+   */
+  private async moveEvents(moves: Array<{ event: ChainLogEvent; position: EventPosition }>): Promise<void> {
+    const parked = moves.map(({ event, position }) => ({ ...event, ...position, logIndex: -1 - position.logIndex }));
+
+    for (const [index, { event }] of moves.entries()) {
+      await this.store.moveEvent(event, parked[index]!);
+    }
+    for (const [index, { position }] of moves.entries()) {
+      await this.store.moveEvent(parked[index]!, position);
+    }
+  }
+
+  private async isCanonical(checkpoint: BlockCheckpoint): Promise<boolean> {
+    const block = await this.provider.getBlock(checkpoint.blockNumber);
+    return block?.hash === checkpoint.blockHash;
+  }
+
+  /**
+   * Query every watched event in a block range, in chain order
+   */
+  private async fetchEvents(fromBlock: number, toBlock: number): Promise<ChainLogEvent[]> {
+    const results = await Promise.all(
+      this.options.events.map(eventName => this.options.contract.queryFilter(eventName, fromBlock, toBlock))
+    );
+
+    return results
+      .flat()
+      .filter((log): log is ethers.EventLog => log instanceof ethers.EventLog)
+      .map(log => ({
+        indexerId: this.options.indexerId,
+        chainId: this.options.chainId,
+        eventName: log.eventName,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        args: this.serializeArgs(log),
+      }))
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  private async processEvent(event: ChainLogEvent, handler: EventIndexerHandler): Promise<void> {
+    if (await this.store.isSettled(event.indexerId, event.transactionHash, event.logIndex)) {
+      return;
+    }
+
+    try {
+      await handler.onEvent(event);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const attempts = await this.store.recordFailure(event, message);
+      const maxAttempts = this.options.maxEventAttempts ?? DEFAULT_MAX_EVENT_ATTEMPTS;
+
+      // Below the limit the error aborts the pass and the range is retried on the next poll
+      if (attempts < maxAttempts) {
+        throw error;
+      }
+
+      blockchainLogger.error('Dead-lettering event after repeated handler failures', {
+        indexerId: event.indexerId,
+        eventName: event.eventName,
+        transactionHash: event.transactionHash,
+        logIndex: event.logIndex,
+        attempts,
+        error: message,
+      });
+
+      await this.store.markDeadLettered(event, message);
+      return;
+    }
+
+    await this.store.markProcessed(event);
+  }
+
+  /**
+   * Log index of an event in the receipt of its re-mined transaction, or null
+   * when the transaction no longer emits it
+   */
+  private async findRelocatedLogIndex(
+    event: ChainLogEvent,
+    receipt: ethers.TransactionReceipt
+  ): Promise<number | null> {
+    const contractAddress = (await this.options.contract.getAddress()).toLowerCase();
+    const expectedArgs = JSON.stringify(event.args);
+
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== contractAddress) {
+        continue;
+      }
+
+      const parsed = this.options.contract.interface.parseLog(log);
+      if (parsed?.name === event.eventName && JSON.stringify(this.serializeArgs(parsed)) === expectedArgs) {
+        return log.index;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Named event arguments with bigints as decimal strings, so that they can be stored
+   */
+  private serializeArgs(log: Pick<ethers.LogDescription, 'fragment' | 'args'>): Record<string, unknown> {
+    const args: Record<string, unknown> = {};
+
+    log.fragment.inputs.forEach((input, index) => {
+      const value: unknown = log.args[index];
+      args[input.name] = typeof value === 'bigint' ? value.toString() : value;
+    });
+
+    return args;
+  }
+
+  private async saveCursor(cursor: IndexerCursorState): Promise<void> {
+    await this.store.saveCursor(
+      this.options.indexerId,
+      this.options.chainId,
+      (await this.options.contract.getAddress()).toLowerCase(),
+      cursor
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,234 @@
+import crypto from 'crypto';
+import { config } from '@/config/env';
+import { GenerationCache } from '@/models/GenerationCache';
+import { ArtworkFingerprint } from '@/models/ArtworkFingerprint';
+import { AIGenerationRequest, ModerationFlag } from '@/types';
+import { aiLogger } from '@/utils/logger';
+import { computePerceptualHash, hammingDistance, hashBands } from '@/utils/perceptualHash';
+import { IPFSService, ipfsService } from './IPFSService';
+import { GeneratedImage, imageProviderRegistry } from './ImageProviderService';
+
+// Image restored from the cache, ready to be kept as a draft
+export interface CachedImage extends GeneratedImage {
+  data: Buffer;
+  description?: string;
+}
+
+export interface DuplicateMatch {
+  requestId: string;
+  walletAddress: string;
+  ipfsHash: string;
+  distance: number;
+}
+
+/**
+ * Moderation flag raised for a near-identical artwork
+ */
+export const toDuplicateFlag = (duplicate: DuplicateMatch): ModerationFlag => ({
+  classifier: 'phash',
+  category: 'duplicate',
+  action: config.moderation.duplicates.action,
+  match: duplicate.requestId,
+  score: duplicate.distance,
+});
+
+export interface PinnedArtwork {
+  key: string;
+  requestId: string;
+  walletAddress: string;
+  imageHash: string;
+  image: Omit<CachedImage, 'data' | 'url'>;
+  perceptualHash?: string | undefined;
+}
+
+export class GenerationCacheService {
+  private ipfsService: IPFSService;
+
+  constructor() {
+    this.ipfsService = ipfsService;
+  }
+
+  /**
+   * Content address of a generation: the normalized prompt, style and every
+   * parameter that changes the image. Defaults are resolved so that an omitted
+   * setting and its explicit default share a key.
+   */
+  public buildKey(request: AIGenerationRequest): string {
+    const provider = request.provider || config.ai.images.provider;
+    const attributes = (request.attributes || [])
+      .map(({ trait_type, value }) => [trait_type.trim().toLowerCase(), String(value).trim().toLowerCase()])
+      .sort(([a], [b]) => (a! < b! ? -1 : a! > b! ? 1 : 0));
+
+    const canonical = {
+      prompt: this.normalizePrompt(request.prompt),
+      style: (request.style || '').trim().toLowerCase(),
+      attributes,
+      provider,
+      model: request.model || imageProviderRegistry.get(provider)?.defaultModel || '',
+      size: request.size || '',
+      quality: request.quality || '',
+      reference: request.reference ? {
+        mode: request.reference.mode,
+        ipfsHash: request.reference.ipfsHash,
+        maskIpfsHash: request.reference.maskIpfsHash || '',
+        strength: request.reference.strength ?? '',
+      } : null,
+    };
+
+    return crypto.createHash('sha256').update(JSON.stringify(canonical)).digest('hex');
+  }
+
+  /**
+   * Image the wallet already had generated from the same settings, fetched back from IPFS.
+   * Any failure is treated as a miss.
+   */
+  public async lookup(key: string, walletAddress: string): Promise<CachedImage | null> {
+    if (!config.ai.cache.enabled) {
+      return null;
+    }
+
+    try {
+      const entry = await GenerationCache.findReusable(key, walletAddress);
+      if (!entry) {
+        return null;
+      }
+
+      const file = await this.ipfsService.retrieveFile(entry.imageHash);
+      if (!file.success || !file.data) {
+        aiLogger.warn('Cached image could not be retrieved', { key, imageHash: entry.imageHash, error: file.error });
+        return null;
+      }
+
+      entry.hits += 1;
+      entry.lastHitAt = new Date();
+      await entry.save();
+
+      aiLogger.info('Generation cache hit', { key, walletAddress, sourceRequestId: entry.requestId, hits: entry.hits });
+
+      return {
+        data: file.data.data,
+        contentType: entry.contentType,
+        provider: entry.provider,
+        model: entry.imageModel,
+        ...(entry.description ? { description: entry.description } : {}),
+      };
+
+    } catch (error) {
+      aiLogger.warn('Generation cache lookup failed', {
+        key,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Perceptual hash of an image, or undefined when it cannot be decoded
+   */
+  public async fingerprint(image: Buffer): Promise<string | undefined> {
+    try {
+      return await computePerceptualHash(image);
+    } catch (error) {
+      aiLogger.warn('Failed to compute perceptual hash', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Closest artwork pinned for another wallet within the configured distance.
+   * The owner's own earlier artworks (and cache reuse) are not duplicates.
+   */
+  public async findDuplicate(
+    perceptualHash: string,
+    walletAddress: string,
+    requestId?: string
+  ): Promise<DuplicateMatch | null> {
+    if (!config.moderation.duplicates.enabled) {
+      return null;
+    }
+
+    const candidates = await ArtworkFingerprint.findCandidates(hashBands(perceptualHash), walletAddress);
+
+    let closest: DuplicateMatch | null = null;
+    for (const candidate of candidates) {
+      if (candidate.requestId === requestId) {
+        continue;
+      }
+
+      const distance = hammingDistance(perceptualHash, candidate.perceptualHash);
+      if (distance <= config.moderation.duplicates.threshold && (!closest || distance < closest.distance)) {
+        closest = {
+          requestId: candidate.requestId,
+          walletAddress: candidate.walletAddress,
+          ipfsHash: candidate.ipfsHash,
+          distance,
+        };
+      }
+    }
+
+    return closest;
+  }
+
+  /**
+   * Record a pinned artwork for reuse and for later duplicate checks.
+   * Failures are logged only; the artwork is already pinned.
+   */
+  public async remember(artwork: PinnedArtwork): Promise<void> {
+    try {
+      if (config.ai.cache.enabled) {
+        await GenerationCache.findOneAndUpdate(
+          { key: artwork.key, walletAddress: artwork.walletAddress.toLowerCase() },
+          {
+            $set: {
+              requestId: artwork.requestId,
+              imageHash: artwork.imageHash,
+              contentType: artwork.image.contentType,
+              provider: artwork.image.provider,
+              imageModel: artwork.image.model,
+              ...(artwork.image.description ? { description: artwork.image.description } : {}),
+              ...(artwork.perceptualHash ? { perceptualHash: artwork.perceptualHash } : {}),
+              expiresAt: new Date(Date.now() + config.ai.cache.ttlMs),
+            },
+            $setOnInsert: { hits: 0 },
+          },
+          { upsert: true }
+        );
+      }
+
+      if (artwork.perceptualHash) {
+        await ArtworkFingerprint.updateOne(
+          { requestId: artwork.requestId },
+          {
+            $set: {
+              walletAddress: artwork.walletAddress.toLowerCase(),
+              ipfsHash: artwork.imageHash,
+              perceptualHash: artwork.perceptualHash,
+              bands: hashBands(artwork.perceptualHash),
+            },
+          },
+          { upsert: true }
+        );
+      }
+
+    } catch (error) {
+      aiLogger.warn('Failed to record pinned artwork', {
+        requestId: artwork.requestId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  private normalizePrompt(prompt: string): string {
+    return prompt
+      .normalize('NFKC')
+      .toLowerCase()
+      .replace(/\s+/g, ' ')
+      .replace(/[\s.!?,;:]+$/, '')
+      .trim();
+  }
+}
+
+// Export singleton instance
+export const generationCacheService = new GenerationCacheService();
\ No newline at end of file
@@ -0,0 +1,267 @@
+import mongoose from 'mongoose';
+import { config } from '@/config/env';
+import { getRedisClient, isRedisConfigured } from '@/config/redis';
+import { logger } from '@/utils/logger';
+import { ComponentHealth, HealthCheck, HealthStatus } from '@/types';
+import { aiService } from './AIService';
+import { blockchainService } from './BlockchainService';
+import { ipfsService } from './IPFSService';
+
+type ComponentName = keyof HealthCheck['services'];
+
+// Components the API cannot serve without; failures elsewhere only degrade it
+const CRITICAL_COMPONENTS: ComponentName[] = ['database', 'blockchain', 'ipfs'];
+
+const VERSION = '1.0.0';
+
+interface ProbeResult<S extends string> {
+  state: S;
+  status: HealthStatus;
+  warnings?: string[] | undefined;
+  error?: string | undefined;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Aggregated health of the backend and its dependencies. Each dependency is
+ * checked with a timeout, and the combined report is cached so that frequent
+ * probes do not reach every dependency each time.
+ */
+export class HealthService {
+  private cached: { report: HealthCheck; expiresAt: number } | null = null;
+  private pending: Promise<HealthCheck> | null = null;
+
+  /**
+   * Liveness: the process is up and serving requests. Checks no dependencies.
+   */
+  public getLiveness(): {
+    status: HealthStatus;
+    timestamp: Date;
+    uptime: number;
+    version: string;
+    environment: string;
+    memory: { rss: number; heapUsed: number; heapTotal: number };
+  } {
+    const { rss, heapUsed, heapTotal } = process.memoryUsage();
+
+    return {
+      status: 'healthy',
+      timestamp: new Date(),
+      uptime: process.uptime(),
+      version: VERSION,
+      environment: config.env,
+      memory: { rss, heapUsed, heapTotal },
+    };
+  }
+
+  /**
+   * Readiness: every dependency, from cache unless it has expired. Concurrent
+   * callers share one run of the checks.
+   */
+  public async getReadiness(): Promise<HealthCheck> {
+    if (this.cached && this.cached.expiresAt > Date.now()) {
+      return {
+        ...this.cached.report,
+        timestamp: new Date(),
+        uptime: process.uptime(),
+      };
+    }
+
+    if (!this.pending) {
+      this.pending = this.runChecks()
+        .then(report => {
+          this.cached = { report, expiresAt: Date.now() + config.healthCheck.interval };
+          return report;
+        })
+        .finally(() => {
+          this.pending = null;
+        });
+    }
+
+    return this.pending;
+  }
+
+  private async runChecks(): Promise<HealthCheck> {
+    const [database, redis, blockchain, ai, ipfs] = await Promise.all([
+      this.probe('database', 'error', () => this.checkDatabase()),
+      this.probe('redis', 'error', () => this.checkRedis()),
+      this.probe('blockchain', 'error', () => this.checkBlockchain()),
+      this.probe('ai', 'error', () => this.checkAI()),
+      this.probe('ipfs', 'error', () => this.checkIPFS()),
+    ]);
+
+    const checks = { database, redis, blockchain, ai, ipfs };
+    const components = Object.entries(checks) as Array<[ComponentName, ComponentHealth]>;
+
+    let status: HealthStatus = 'healthy';
+    if (components.some(([name, check]) => CRITICAL_COMPONENTS.includes(name) && check.status === 'unhealthy')) {
+      status = 'unhealthy';
+    } else if (components.some(([, check]) => check.status !== 'healthy')) {
+      status = 'degraded';
+    }
+
+    if (status !== 'healthy') {
+      logger.warn('Health check reported problems', {
+        status,
+        components: Object.fromEntries(components
+          .filter(([, check]) => check.status !== 'healthy')
+          .map(([name, check]) => [name, check.error || check.warnings])),
+      });
+    }
+
+    const now = new Date();
+
+    return {
+      status,
+      timestamp: now,
+      services: {
+        database: database.state,
+        redis: redis.state,
+        blockchain: blockchain.state,
+        ai: ai.state,
+        ipfs: ipfs.state,
+      },
+      checks: {
+        database: this.toComponentHealth(database),
+        redis: this.toComponentHealth(redis),
+        blockchain: this.toComponentHealth(blockchain),
+        ai: this.toComponentHealth(ai),
+        ipfs: this.toComponentHealth(ipfs),
+      },
+      uptime: process.uptime(),
+      version: VERSION,
+      checkedAt: now,
+    };
+  }
+
+  /**
+   * Run one check, timing it and turning a timeout or exception into an unhealthy result
+   */
+  private async probe<S extends string>(
+    name: ComponentName,
+    errorState: S,
+    check: () => Promise<ProbeResult<S>>
+  ): Promise<ProbeResult<S> & { latencyMs: number }> {
+    const startedAt = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`${name} check timed out after ${config.healthCheck.timeoutMs}ms`)),
+          config.healthCheck.timeoutMs
+        );
+      });
+
+      const result = await Promise.race([check(), timeout]);
+      return { ...result, latencyMs: Date.now() - startedAt };
+
+    } catch (error) {
+      return {
+        state: errorState,
+        status: 'unhealthy',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        latencyMs: Date.now() - startedAt,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async checkDatabase(): Promise<ProbeResult<HealthCheck['services']['database']>> {
+    if (mongoose.connection.readyState !== mongoose.ConnectionStates.connected || !mongoose.connection.db) {
+      return {
+        state: 'disconnected',
+        status: 'unhealthy',
+        error: 'Not connected to MongoDB',
+      };
+    }
+
+    await mongoose.connection.db.admin().ping();
+
+    return { state: 'connected', status: 'healthy' };
+  }
+
+  // Redis is optional; without it realtime updates and rate limits stay in-process
+  private async checkRedis(): Promise<ProbeResult<HealthCheck['services']['redis']>> {
+    if (!isRedisConfigured()) {
+      return { state: 'not_configured', status: 'healthy' };
+    }
+
+    const client = await getRedisClient();
+    await client.ping();
+
+    return { state: 'connected', status: 'healthy' };
+  }
+
+  private async checkBlockchain(): Promise<ProbeResult<HealthCheck['services']['blockchain']>> {
+    const health = await blockchainService.healthCheck();
+
+    return {
+      state: health.status,
+      status: this.toStatus(health.status, 'connected'),
+      warnings: health.warnings,
+      error: health.error,
+      details: {
+        chainId: health.chainId,
+        blockNumber: health.blockNumber,
+        blockAgeSeconds: health.blockAgeSeconds,
+        indexerLagBlocks: health.indexerLagBlocks,
+      },
+    };
+  }
+
+  private async checkAI(): Promise<ProbeResult<HealthCheck['services']['ai']>> {
+    const health = await aiService.healthCheck();
+
+    return {
+      state: health.status,
+      status: this.toStatus(health.status, 'available'),
+      warnings: health.warnings,
+      error: health.error,
+      details: {
+        model: health.model,
+        imageProvider: health.imageProvider,
+      },
+    };
+  }
+
+  private async checkIPFS(): Promise<ProbeResult<HealthCheck['services']['ipfs']>> {
+    const health = await ipfsService.healthCheck();
+
+    return {
+      state: health.status,
+      status: this.toStatus(health.status, 'available'),
+      warnings: health.warnings,
+      error: health.error,
+      details: {
+        providers: health.providers,
+      },
+    };
+  }
+
+  private toStatus(state: string, healthyState: string): HealthStatus {
+    if (state === healthyState) {
+      return 'healthy';
+    }
+
+    return state === 'degraded' ? 'degraded' : 'unhealthy';
+  }
+
+  private toComponentHealth(result: ProbeResult<string> & { latencyMs: number }): ComponentHealth {
+    const details = result.details
+      ? Object.fromEntries(Object.entries(result.details).filter(([, value]) => value !== undefined))
+      : {};
+
+    return {
+      status: result.status,
+      latencyMs: result.latencyMs,
+      ...(result.warnings?.length ? { warnings: result.warnings } : {}),
+      ...(result.error ? { error: result.error } : {}),
+      ...(Object.keys(details).length > 0 ? { details } : {}),
+    };
+  }
+}
+
+// Export singleton instance
+export const healthService = new HealthService();
\ No newline at end of file
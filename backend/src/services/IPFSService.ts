@@ -1,8 +1,12 @@
-import { PinataSDK } from 'pinata';
-import axios from 'axios';
+import crypto from 'crypto';
+import axios, { AxiosResponse } from 'axios';
 import { config } from '@/config/env';
 import { logger } from '@/utils/logger';
-import { ServiceResponse, NFTMetadata } from '@/types';
+import { PinRecord } from '@/models/PinRecord';
+import { CarEntry, buildDirectoryCar, verifyCar } from '@/utils/car';
+import { ServiceResponse, NFTMetadata, MetadataProfile, IPinRecord, PinStatus, PinningProviderName } from '@/types';
+import { PinningProvider, PinResult, pinningProviderRegistry } from './PinningProviderService';
+import { metadataService } from './MetadataService';
 
 interface IPFSUploadResult {
   hash: string;
@@ -10,14 +14,23 @@ interface IPFSUploadResult {
   size: number;
 }
 
+interface IPFSDirectoryUploadResult extends IPFSUploadResult {
+  // CID of each file, by name
+  entries: Record<string, string>;
+}
+
+// What is known about pinned content, kept with every pin record
+interface PinInfo {
+  name?: string | undefined;
+  contentType?: string | undefined;
+  size?: number | undefined;
+}
+
 export class IPFSService {
-  private pinata: PinataSDK;
+  private reconcileTimer: NodeJS.Timeout | null = null;
+  private reconciling: Promise<void> | null = null;
 
   constructor() {
-    this.pinata = new PinataSDK({
-      pinataJwt: config.ipfs.pinata.jwt || '',
-      pinataGateway: 'https://gateway.pinata.cloud',
-    });
     this.testConnection();
   }
 
@@ -25,11 +38,22 @@ export class IPFSService {
    * Test IPFS connection
    */
   private async testConnection(): Promise<void> {
-    try {
-      await this.pinata.testAuthentication();
-      logger.info('IPFS service connected successfully');
-    } catch (error) {
-      logger.error('Failed to connect to IPFS service:', error);
+    const providers = pinningProviderRegistry.getActiveProviders();
+    if (providers.length === 0) {
+      logger.error('No pinning provider is configured');
+      return;
+    }
+
+    for (const provider of providers) {
+      try {
+        await provider.testConnection();
+        logger.info('IPFS pinning provider connected successfully', { provider: provider.name });
+      } catch (error) {
+        logger.error('Failed to connect to IPFS pinning provider', {
+          provider: provider.name,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
     }
   }
 
@@ -41,7 +65,7 @@ export class IPFSService {
       logger.info('Uploading image to IPFS from URL', { imageUrl });
 
       // Download image from URL
-      const response = await axios.get(imageUrl, {
+      const response = await axios.get<ArrayBuffer>(imageUrl, {
         responseType: 'arraybuffer',
         timeout: 30000,
       });
@@ -51,16 +75,18 @@ export class IPFSService {
       }
 
       const imageBuffer = Buffer.from(response.data);
-      const contentType = response.headers['content-type'] || 'image/png';
+      const header: unknown = response.headers['content-type'];
+      const contentType = typeof header === 'string' && header ? header : 'image/png';
 
       // Generate filename based on content
-      const hash = require('crypto').createHash('md5').update(imageBuffer).digest('hex');
+      const hash = crypto.createHash('md5').update(imageBuffer).digest('hex');
       const extension = contentType.split('/')[1] || 'png';
       const filename = `chainweave-${hash}.${extension}`;
 
-      // Convert buffer to File and upload with V3 API
-      const file = new File([imageBuffer], filename, { type: contentType });
-      const result = await this.pinata.upload.public.file(file);
+      const result = await this.add(
+        provider => provider.addFile(imageBuffer, filename, contentType),
+        { name: filename, contentType }
+      );
 
       logger.info('Image uploaded to IPFS successfully', {
         hash: result.cid,
@@ -94,16 +120,17 @@ export class IPFSService {
    * Upload image buffer to IPFS
    */
   public async uploadImageBuffer(
-    buffer: Buffer, 
+    buffer: Buffer,
     filename: string,
     contentType: string = 'image/png'
   ): Promise<ServiceResponse<IPFSUploadResult>> {
     try {
       logger.info('Uploading image buffer to IPFS', { filename, size: buffer.length });
 
-      // Convert buffer to File and upload with V3 API
-      const file = new File([buffer], filename, { type: contentType });
-      const result = await this.pinata.upload.public.file(file);
+      const result = await this.add(
+        provider => provider.addFile(buffer, filename, contentType),
+        { name: filename, contentType }
+      );
 
       logger.info('Image buffer uploaded to IPFS successfully', {
         hash: result.cid,
@@ -134,30 +161,42 @@ export class IPFSService {
   }
 
   /**
-   * Upload NFT metadata to IPFS
+   * Upload NFT metadata to IPFS, written in the given marketplace profile.
+   * Nothing is pinned unless the metadata passes schema validation.
    */
-  public async uploadMetadata(metadata: NFTMetadata): Promise<ServiceResponse<IPFSUploadResult>> {
+  public async uploadMetadata(
+    metadata: NFTMetadata,
+    options: { profile?: MetadataProfile; tokenId?: number | string } = {}
+  ): Promise<ServiceResponse<IPFSUploadResult>> {
     try {
-      logger.info('Uploading metadata to IPFS', { 
+      logger.info('Uploading metadata to IPFS', {
         name: metadata.name,
         attributesCount: metadata.attributes?.length || 0,
+        profile: options.profile || config.ipfs.metadataProfile,
       });
 
       // Validate metadata
-      const validation = this.validateMetadata(metadata);
+      const validation = metadataService.validate(metadata);
       if (!validation.isValid) {
+        logger.warn('Metadata failed schema validation', { name: metadata.name, errors: validation.errors });
+
         return {
           success: false,
-          error: validation.error || 'Validation failed',
+          error: 'Metadata validation failed',
+          code: 'INVALID_METADATA',
+          details: validation.errors,
         };
       }
 
-      // Upload metadata as JSON with V3 API
-      const result = await this.pinata.upload.public.json(metadata);
+      const document = metadataService.format(metadata, options.profile, options.tokenId);
+      const result = await this.add(
+        provider => provider.addJSON(document, `${metadata.name}.json`),
+        { name: `${metadata.name}.json`, contentType: 'application/json' }
+      );
 
       logger.info('Metadata uploaded to IPFS successfully', {
         hash: result.cid,
-        name: result.name,
+        name: metadata.name,
         size: result.size,
       });
 
@@ -186,16 +225,18 @@ export class IPFSService {
    * Upload JSON data to IPFS
    */
   public async uploadJSON(
-    data: any, 
+    data: unknown,
     filename?: string
   ): Promise<ServiceResponse<IPFSUploadResult>> {
     try {
-      // Upload JSON data with V3 API
-      const result = await this.pinata.upload.public.json(data);
+      const result = await this.add(
+        provider => provider.addJSON(data, filename),
+        { name: filename, contentType: 'application/json' }
+      );
 
       logger.info('JSON data uploaded to IPFS successfully', {
         hash: result.cid,
-        filename: filename || result.name,
+        filename,
         size: result.size,
       });
 
@@ -221,24 +262,110 @@ export class IPFSService {
   }
 
   /**
-   * Retrieve data from IPFS
+   * Upload files as one immutable directory, so they resolve as `ipfs://<dirCID>/<name>`.
+   * The directory is packed into a CAR locally and its CID verified before upload.
+   */
+  public async uploadDirectory(
+    files: CarEntry[],
+    name: string
+  ): Promise<ServiceResponse<IPFSDirectoryUploadResult>> {
+    try {
+      logger.info('Packing directory for IPFS', { name, files: files.length });
+
+      const directory = buildDirectoryCar(files);
+      const result = await this.uploadCar(directory.car, directory.rootCid, `${name}.car`);
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error || 'Directory upload failed',
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          ...result.data!,
+          url: `ipfs://${directory.rootCid}/`,
+          entries: directory.entries,
+        },
+      };
+
+    } catch (error) {
+      logger.error('Failed to upload directory to IPFS', {
+        name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Directory upload failed',
+      };
+    }
+  }
+
+  /**
+   * Upload a CARv1 archive whose root CID is already known. The archive is checked
+   * first, and a provider that reports a different root counts as failed.
+   */
+  public async uploadCar(car: Buffer, rootCid: string, filename: string): Promise<ServiceResponse<IPFSUploadResult>> {
+    try {
+      const { blockCount } = verifyCar(car, rootCid);
+
+      logger.info('Uploading CAR to IPFS', { rootCid, filename, blockCount, size: car.length });
+
+      const result = await this.add(
+        async provider => {
+          const uploaded = await provider.addCar(car, filename);
+          if (uploaded.cid !== rootCid) {
+            throw new Error(`Root CID mismatch: expected ${rootCid}, got ${uploaded.cid}`);
+          }
+          return uploaded;
+        },
+        { name: filename, contentType: 'application/vnd.ipld.car' }
+      );
+
+      logger.info('CAR uploaded to IPFS successfully', { rootCid, filename, size: car.length });
+
+      return {
+        success: true,
+        data: {
+          hash: result.cid,
+          url: `ipfs://${result.cid}`,
+          size: car.length,
+        },
+      };
+
+    } catch (error) {
+      logger.error('Failed to upload CAR to IPFS', {
+        rootCid,
+        filename,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'CAR upload failed',
+      };
+    }
+  }
+
+  /**
+   * Retrieve data from IPFS, trying each gateway in turn
    */
   public async retrieveData(hash: string): Promise<ServiceResponse<any>> {
     try {
       logger.info('Retrieving data from IPFS', { hash });
 
-      // Use IPFS gateway to retrieve data
-      const gatewayUrl = `https://gateway.pinata.cloud/ipfs/${hash}`;
-      
-      const response = await axios.get(gatewayUrl, {
-        timeout: 30000,
+      const { response, gateway } = await this.fetchFromGateways(hash, {
         headers: {
           'Accept': 'application/json, text/plain, */*',
         },
       });
 
-      logger.info('Data retrieved from IPFS successfully', { 
+      logger.info('Data retrieved from IPFS successfully', {
         hash,
+        gateway,
         size: JSON.stringify(response.data).length,
       });
 
@@ -261,13 +388,59 @@ export class IPFSService {
   }
 
   /**
-   * Pin existing hash to ensure permanence (V3 API uses upload.public.cid)
+   * Retrieve a binary file (such as an image) from IPFS, trying each gateway in turn
+   */
+  public async retrieveFile(hash: string): Promise<ServiceResponse<{ data: Buffer; contentType: string }>> {
+    try {
+      logger.info('Retrieving file from IPFS', { hash });
+
+      const { response, gateway } = await this.fetchFromGateways<ArrayBuffer>(hash, {
+        responseType: 'arraybuffer',
+      });
+
+      const data = Buffer.from(response.data);
+      const contentType: unknown = response.headers['content-type'];
+
+      logger.info('File retrieved from IPFS successfully', { hash, gateway, size: data.length });
+
+      return {
+        success: true,
+        data: {
+          data,
+          contentType: typeof contentType === 'string' ? contentType : 'application/octet-stream',
+        },
+      };
+
+    } catch (error) {
+      logger.error('Failed to retrieve file from IPFS', {
+        hash,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'IPFS retrieval failed',
+      };
+    }
+  }
+
+  /**
+   * Pin existing hash on every active provider to ensure permanence.
+   * Succeeds when at least one provider accepted the pin.
    */
-  public async pinHash(hash: string, _metadata?: any): Promise<ServiceResponse<void>> {
+  public async pinHash(hash: string, metadata?: { name?: string }): Promise<ServiceResponse<void>> {
     try {
       logger.info('Pinning hash to IPFS', { hash });
 
-      await this.pinata.upload.public.cid(hash);
+      const providers = pinningProviderRegistry.getActiveProviders();
+      if (providers.length === 0) {
+        throw new Error('No pinning provider is configured');
+      }
+
+      const statuses = await this.replicate(hash, providers, { name: metadata?.name });
+      if (!statuses.includes('pinning')) {
+        throw new Error('No pinning provider accepted the pin');
+      }
 
       logger.info('Hash pinned successfully', { hash });
 
@@ -287,105 +460,401 @@ export class IPFSService {
   }
 
   /**
-   * Get files list with filters (V3 API uses files.list)
+   * Pin status of a CID on each provider
+   */
+  public async getPinStatus(hash: string): Promise<ServiceResponse<IPinRecord[]>> {
+    try {
+      const records = await PinRecord.findByCid(hash);
+
+      return {
+        success: true,
+        data: records.map(record => record.toObject() as IPinRecord),
+      };
+
+    } catch (error) {
+      logger.error('Failed to get pin status', {
+        hash,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Pin status retrieval failed',
+      };
+    }
+  }
+
+  /**
+   * List pins from the pin status table
    */
   public async getPinList(options: {
     status?: 'pinned' | 'unpinned';
+    provider?: PinningProviderName;
     limit?: number;
     offset?: number;
-  } = {}): Promise<ServiceResponse<any[]>> {
+  } = {}): Promise<ServiceResponse<IPinRecord[]>> {
+    try {
+      const query = {
+        ...(options.status === 'pinned' ? { status: 'pinned' } : {}),
+        ...(options.status === 'unpinned' ? { status: { $ne: 'pinned' } } : {}),
+        ...(options.provider ? { provider: options.provider } : {}),
+      };
+
+      const records = await PinRecord.find(query)
+        .sort({ createdAt: -1 })
+        .skip(options.offset || 0)
+        .limit(options.limit || 100)
+        .lean();
+
+      return {
+        success: true,
+        data: records as IPinRecord[],
+      };
+
+    } catch (error) {
+      logger.error('Failed to get pin list', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Pin list retrieval failed',
+      };
+    }
+  }
+
+  /**
+   * Check a batch of pin records against their providers. Pins that are gone are
+   * requested again, and CIDs a provider has never held (for example one added to
+   * PINNING_PROVIDERS later) are pinned there too.
+   */
+  public async reconcilePins(batchSize: number = config.ipfs.reconcile.batchSize): Promise<ServiceResponse<{
+    checked: number;
+    repinned: number;
+    failed: number;
+  }>> {
     try {
-      // Note: V3 API doesn't have status filtering like old API
-      // All files returned are considered "pinned" since they're stored
-      const result = await this.pinata.files.public
-        .list()
-        .limit(options.limit || 100);
+      const providers = pinningProviderRegistry.getActiveProviders();
+      const summary = { checked: 0, repinned: 0, failed: 0 };
+
+      for (const provider of providers) {
+        const unseen = await PinRecord.findCidsWithoutProvider(provider.name, batchSize);
+        for (const { cid, ...info } of unseen) {
+          await this.recordPin(cid, provider.name, 'missing', info);
+        }
+      }
+
+      const due = await PinRecord.findDueForCheck(
+        providers.map(provider => provider.name),
+        new Date(Date.now() - config.ipfs.reconcile.recheckMs),
+        batchSize
+      );
+
+      for (const record of due) {
+        const provider = pinningProviderRegistry.get(record.provider)!;
+        summary.checked++;
+
+        try {
+          const state = await provider.status(record.cid);
+
+          if (state === 'missing') {
+            await provider.pin(record.cid, record.name);
+            record.status = 'pinning';
+            record.attempts += 1;
+            summary.repinned++;
+
+            logger.warn('Re-pinned CID missing from provider', { cid: record.cid, provider: provider.name });
+          } else {
+            record.status = state;
+            if (state === 'pinned' && !record.pinnedAt) {
+              record.pinnedAt = new Date();
+            }
+          }
+
+          record.set('lastError', undefined);
+
+        } catch (error) {
+          record.status = 'failed';
+          record.attempts += 1;
+          record.lastError = (error instanceof Error ? error.message : 'Unknown error').substring(0, 500);
+          summary.failed++;
+        }
+
+        record.lastCheckedAt = new Date();
+        await record.save();
+      }
+
+      if (summary.checked > 0) {
+        logger.info('Pin reconciliation finished', summary);
+      }
 
       return {
         success: true,
-        data: result.files,
+        data: summary,
       };
 
     } catch (error) {
-      logger.error('Failed to get files list', {
+      logger.error('Pin reconciliation failed', {
         error: error instanceof Error ? error.message : 'Unknown error',
       });
 
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Files list retrieval failed',
+        error: error instanceof Error ? error.message : 'Pin reconciliation failed',
       };
     }
   }
 
   /**
-   * Validate NFT metadata structure
+   * Run pin reconciliation periodically
    */
-  private validateMetadata(metadata: NFTMetadata): { isValid: boolean; error?: string } {
-    if (!metadata.name || metadata.name.trim().length === 0) {
-      return { isValid: false, error: 'Metadata name is required' };
+  public startReconciliation(): void {
+    if (this.reconcileTimer) {
+      return;
     }
 
-    if (!metadata.description || metadata.description.trim().length === 0) {
-      return { isValid: false, error: 'Metadata description is required' };
+    this.reconcileTimer = setInterval(() => void this.runReconciliation(), config.ipfs.reconcile.intervalMs);
+    logger.info('Pin reconciliation started', { intervalMs: config.ipfs.reconcile.intervalMs });
+
+    void this.runReconciliation();
+  }
+
+  /**
+   * Stop reconciling and wait for the current pass to finish
+   */
+  public async stopReconciliation(): Promise<void> {
+    if (this.reconcileTimer) {
+      clearInterval(this.reconcileTimer);
+      this.reconcileTimer = null;
     }
 
-    if (!metadata.image || metadata.image.trim().length === 0) {
-      return { isValid: false, error: 'Metadata image is required' };
+    await this.reconciling;
+  }
+
+  /**
+   * Store content with the first active provider that accepts it, then have the
+   * other providers pin the resulting CID in the background
+   */
+  private async add(upload: (provider: PinningProvider) => Promise<PinResult>, info: PinInfo): Promise<PinResult> {
+    const providers = pinningProviderRegistry.getActiveProviders();
+    if (providers.length === 0) {
+      throw new Error('No pinning provider is configured');
     }
 
-    // Validate attributes if present
-    if (metadata.attributes) {
-      for (const attr of metadata.attributes) {
-        if (!attr.trait_type || !attr.value) {
-          return { isValid: false, error: 'Invalid attribute structure' };
+    const errors: string[] = [];
+
+    for (const provider of providers) {
+      try {
+        const result = await upload(provider);
+        const pinInfo = { ...info, size: result.size };
+
+        await this.recordPin(result.cid, provider.name, 'pinned', pinInfo);
+
+        const replicas = providers.filter(replica => replica !== provider);
+        if (replicas.length > 0) {
+          void this.replicate(result.cid, replicas, pinInfo);
         }
+
+        return result;
+
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        errors.push(`${provider.name}: ${message}`);
+
+        logger.warn('Pinning provider failed', { provider: provider.name, error: message });
+      }
+    }
+
+    throw new Error(`IPFS upload failed (${errors.join('; ')})`);
+  }
+
+  /**
+   * Ask providers to pin a CID and record the outcome. Requests that fail are
+   * retried by reconciliation.
+   */
+  private async replicate(cid: string, providers: PinningProvider[], info: PinInfo): Promise<PinStatus[]> {
+    return Promise.all(providers.map(async provider => {
+      try {
+        await provider.pin(cid, info.name);
+        await this.recordPin(cid, provider.name, 'pinning', info);
+        return 'pinning' as const;
+
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        logger.warn('Redundant pin failed', { cid, provider: provider.name, error: message });
+
+        await this.recordPin(cid, provider.name, 'failed', info, message);
+        return 'failed' as const;
+      }
+    }));
+  }
+
+  /**
+   * Upsert the pin status of a CID on a provider. Failures are logged only;
+   * the content itself was handled by the provider.
+   */
+  private async recordPin(
+    cid: string,
+    provider: PinningProviderName,
+    status: PinStatus,
+    info: PinInfo,
+    lastError?: string
+  ): Promise<void> {
+    try {
+      await PinRecord.updateOne(
+        { cid, provider },
+        {
+          $set: {
+            status,
+            ...(info.name ? { name: info.name } : {}),
+            ...(info.contentType ? { contentType: info.contentType } : {}),
+            ...(info.size !== undefined ? { size: info.size } : {}),
+            ...(status === 'pinned' ? { pinnedAt: new Date(), lastCheckedAt: new Date() } : {}),
+            ...(lastError ? { lastError: lastError.substring(0, 500) } : {}),
+          },
+          ...(lastError ? {} : { $unset: { lastError: '' } }),
+          ...(status === 'missing' ? {} : { $inc: { attempts: 1 } }),
+        },
+        { upsert: true }
+      );
+
+    } catch (error) {
+      logger.warn('Failed to record pin status', {
+        cid,
+        provider,
+        status,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * GET a CID from the first gateway that answers
+   */
+  private async fetchFromGateways<T = unknown>(
+    hash: string,
+    options: { responseType?: 'arraybuffer'; headers?: Record<string, string> }
+  ): Promise<{ response: AxiosResponse<T>; gateway: string }> {
+    const errors: string[] = [];
+
+    for (const gateway of pinningProviderRegistry.getGateways()) {
+      try {
+        const response = await axios.get<T>(`${gateway}/ipfs/${hash}`, {
+          ...options,
+          timeout: config.ipfs.gatewayTimeout,
+        });
+
+        return { response, gateway };
+
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        errors.push(`${gateway}: ${message}`);
+
+        logger.warn('IPFS gateway failed, trying the next one', { hash, gateway, error: message });
       }
     }
 
-    return { isValid: true };
+    throw new Error(`No gateway could serve ${hash} (${errors.join('; ')})`);
+  }
+
+  private async runReconciliation(): Promise<void> {
+    if (this.reconciling) {
+      return;
+    }
+
+    this.reconciling = this.reconcilePins()
+      .then(() => undefined)
+      .finally(() => {
+        this.reconciling = null;
+      });
+
+    await this.reconciling;
   }
 
   /**
-   * Health check for IPFS service
+   * Health check for IPFS service: available while the primary provider is
+   * reachable, degraded when a redundant provider is not
    */
   public async healthCheck(): Promise<{
-    status: 'available' | 'unavailable' | 'error';
+    status: 'available' | 'degraded' | 'unavailable' | 'error';
+    providers?: Record<string, 'available' | 'error'>;
+    warnings?: string[];
     error?: string;
   }> {
-    try {
-      await this.pinata.testAuthentication();
-      
-      return { status: 'available' };
+    const providers = pinningProviderRegistry.getActiveProviders();
+    if (providers.length === 0) {
+      return {
+        status: 'unavailable',
+        error: 'No pinning provider is configured',
+      };
+    }
 
-    } catch (error) {
+    const results = await Promise.allSettled(providers.map(provider => provider.testConnection()));
+    const statuses = Object.fromEntries(providers.map((provider, index) => [
+      provider.name,
+      results[index]!.status === 'fulfilled' ? 'available' as const : 'error' as const,
+    ]));
+
+    const primary = results[0]!;
+    if (primary.status === 'rejected') {
       return {
         status: 'error',
-        error: error instanceof Error ? error.message : 'Unknown error',
+        providers: statuses,
+        error: primary.reason instanceof Error ? primary.reason.message : 'Unknown error',
       };
     }
+
+    const warnings = providers
+      .filter((_, index) => results[index]!.status === 'rejected')
+      .map(provider => `Redundant pinning provider ${provider.name} is unreachable`);
+
+    return {
+      status: warnings.length > 0 ? 'degraded' : 'available',
+      providers: statuses,
+      ...(warnings.length > 0 ? { warnings } : {}),
+    };
   }
 
   /**
-   * Get storage usage statistics
+   * Get storage usage statistics from the pin status table
    */
   public async getStorageStats(): Promise<ServiceResponse<{
     totalFiles: number;
     totalSize: number;
+    byProvider: Array<{ provider: PinningProviderName; status: PinStatus; files: number; size: number }>;
   }>> {
     try {
-      const result = await this.pinata.files.public
-        .list()
-        .limit(1000);
+      const rows = await PinRecord.aggregate<{
+        _id: { provider: PinningProviderName; status: PinStatus };
+        files: number;
+        size: number;
+      }>([
+        {
+          $group: {
+            _id: { provider: '$provider', status: '$status' },
+            files: { $sum: 1 },
+            size: { $sum: { $ifNull: ['$size', 0] } },
+          },
+        },
+        { $sort: { '_id.provider': 1, '_id.status': 1 } },
+      ]);
 
-      const totalFiles = result.files.length;
-      const totalSize = result.files.reduce((acc: number, file: any) => acc + (file.size || 0), 0);
+      const [totals] = await PinRecord.aggregate<{ totalFiles: number; totalSize: number }>([
+        { $group: { _id: '$cid', size: { $max: { $ifNull: ['$size', 0] } } } },
+        { $group: { _id: null, totalFiles: { $sum: 1 }, totalSize: { $sum: '$size' } } },
+      ]);
 
       return {
         success: true,
         data: {
-          totalFiles,
-          totalSize,
+          totalFiles: totals?.totalFiles || 0,
+          totalSize: totals?.totalSize || 0,
+          byProvider: rows.map(row => ({
+            provider: row._id.provider,
+            status: row._id.status,
+            files: row.files,
+            size: row.size,
+          })),
         },
       };
 
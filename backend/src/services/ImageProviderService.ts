@@ -0,0 +1,640 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import OpenAI, { toFile } from 'openai';
+import { config } from '@/config/env';
+import { aiLogger } from '@/utils/logger';
+import { ImageProviderName, ImageQuality, ReferenceImageInput, ReferenceMode } from '@/types';
+
+export interface ImageGenerationInput {
+  prompt: string;
+  model?: string | undefined;
+  // Pixel size as WIDTHxHEIGHT
+  size?: string | undefined;
+  quality?: ImageQuality | undefined;
+  reference?: ReferenceImageInput | undefined;
+}
+
+export interface GeneratedImage {
+  // Providers return either a URL to fetch the image from or its bytes
+  url?: string;
+  data?: Buffer;
+  contentType: string;
+  provider: ImageProviderName;
+  model: string;
+}
+
+export interface ImageProvider {
+  readonly name: ImageProviderName;
+  // Human readable engine name, recorded in NFT metadata
+  readonly label: string;
+  readonly defaultModel: string;
+  // Reference image modes the provider can handle
+  readonly referenceModes: readonly ReferenceMode[];
+  isConfigured(): boolean;
+  generate(input: ImageGenerationInput): Promise<GeneratedImage>;
+}
+
+export interface ImageProviderInfo {
+  name: ImageProviderName;
+  label: string;
+  defaultModel: string;
+  referenceModes: readonly ReferenceMode[];
+  isDefault: boolean;
+}
+
+const DEFAULT_SIZE = '1024x1024';
+const NEGATIVE_PROMPT = 'blurry, low quality, watermark, text, signature, deformed';
+const DEFAULT_REFERENCE_STRENGTH = 0.6;
+
+// AUTOMATIC1111 txt2img and img2img response
+interface Automatic1111Response {
+  images?: string[];
+}
+
+interface ComfyUIImage {
+  filename: string;
+  subfolder: string;
+  type: string;
+}
+
+// Entry of the ComfyUI /history/{promptId} response
+interface ComfyUIHistoryEntry {
+  status?: { status_str?: string };
+  outputs?: Record<string, { images?: ComfyUIImage[] }>;
+}
+
+const parseSize = (size: string = DEFAULT_SIZE): { width: number; height: number } => {
+  const match = /^(\d{2,4})x(\d{2,4})$/.exec(size);
+  return {
+    width: match ? parseInt(match[1]!, 10) : 1024,
+    height: match ? parseInt(match[2]!, 10) : 1024,
+  };
+};
+
+/**
+ * OpenAI image models (DALL-E 3 by default). Inpainting is not offered because
+ * OpenAI masks mark the area to repaint with transparency rather than white.
+ */
+export class OpenAIImageProvider implements ImageProvider {
+  public readonly name = 'openai';
+  public readonly label = 'OpenAI DALL-E';
+  public readonly referenceModes: readonly ReferenceMode[] = ['variation', 'style'];
+  private client: OpenAI | null;
+
+  // Only DALL-E 2 creates variations; style references go through the edit endpoint
+  private static readonly VARIATION_MODEL = 'dall-e-2';
+  private static readonly STYLE_MODEL = 'gpt-image-1';
+  private static readonly VARIATION_SIZES = ['256x256', '512x512', '1024x1024'];
+
+  constructor() {
+    this.client = config.ai.openai.apiKey
+      ? new OpenAI({ apiKey: config.ai.openai.apiKey, timeout: config.ai.images.timeout })
+      : null;
+  }
+
+  public get defaultModel(): string {
+    return config.ai.openai.imageModel;
+  }
+
+  public isConfigured(): boolean {
+    return this.client !== null;
+  }
+
+  public async generate(input: ImageGenerationInput): Promise<GeneratedImage> {
+    if (!this.client) {
+      throw new Error('OpenAI is not configured');
+    }
+
+    if (input.reference) {
+      return this.generateFromReference(this.client, input, input.reference);
+    }
+
+    const model = input.model || this.defaultModel;
+    const response = await this.client.images.generate({
+      model,
+      prompt: input.prompt,
+      n: 1,
+      size: (input.size || DEFAULT_SIZE) as NonNullable<OpenAI.Images.ImageGenerateParams['size']>,
+      ...(model === 'dall-e-3' ? { quality: input.quality || 'hd', style: 'vivid' } : {}),
+    });
+
+    return this.toGeneratedImage(response, model);
+  }
+
+  private async generateFromReference(
+    client: OpenAI,
+    input: ImageGenerationInput,
+    reference: ReferenceImageInput
+  ): Promise<GeneratedImage> {
+    const image = await toFile(reference.image, 'reference.png', { type: reference.contentType });
+
+    if (reference.mode === 'variation') {
+      // Variations take no prompt and need a square PNG
+      const model = input.model || OpenAIImageProvider.VARIATION_MODEL;
+      const size = OpenAIImageProvider.VARIATION_SIZES.includes(input.size || '') ? input.size : DEFAULT_SIZE;
+      const response = await client.images.createVariation({
+        image,
+        model,
+        n: 1,
+        size: size as NonNullable<OpenAI.Images.ImageCreateVariationParams['size']>,
+      });
+
+      return this.toGeneratedImage(response, model);
+    }
+
+    const model = input.model || OpenAIImageProvider.STYLE_MODEL;
+    const response = await client.images.edit({
+      image,
+      model,
+      prompt: `${input.prompt}. Match the artistic style of the reference image.`,
+      n: 1,
+    });
+
+    return this.toGeneratedImage(response, model);
+  }
+
+  private toGeneratedImage(response: OpenAI.Images.ImagesResponse, model: string): GeneratedImage {
+    const image = response.data?.[0];
+    if (image?.b64_json) {
+      return { data: Buffer.from(image.b64_json, 'base64'), contentType: 'image/png', provider: this.name, model };
+    }
+    if (image?.url) {
+      return { url: image.url, contentType: 'image/png', provider: this.name, model };
+    }
+
+    throw new Error('No image returned from OpenAI');
+  }
+}
+
+/**
+ * Stability AI REST API, or any service exposing the same
+ * /v2beta/stable-image endpoints
+ */
+export class StabilityImageProvider implements ImageProvider {
+  public readonly name = 'stability';
+  public readonly label = 'Stability AI';
+  public readonly referenceModes: readonly ReferenceMode[] = ['variation', 'inpaint', 'style'];
+
+  // Image-to-image needs an SD3 model
+  private static readonly IMAGE_TO_IMAGE_MODEL = 'sd3.5-large';
+
+  private static readonly ASPECT_RATIOS = ['21:9', '16:9', '3:2', '5:4', '1:1', '4:5', '2:3', '9:16', '9:21'];
+
+  public get defaultModel(): string {
+    return config.ai.images.stability.model;
+  }
+
+  public isConfigured(): boolean {
+    return !!config.ai.images.stability.apiKey;
+  }
+
+  public async generate(input: ImageGenerationInput): Promise<GeneratedImage> {
+    const { apiKey, apiUrl } = config.ai.images.stability;
+    if (!apiKey) {
+      throw new Error('Stability API is not configured');
+    }
+
+    const form = new FormData();
+    form.append('prompt', input.prompt);
+    form.append('output_format', 'png');
+
+    const { path, model } = this.prepareRequest(form, input);
+
+    const response = await axios.post<ArrayBuffer>(`${apiUrl}/v2beta/stable-image/${path}`, form, {
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        Accept: 'image/*',
+      },
+      responseType: 'arraybuffer',
+      timeout: config.ai.images.timeout,
+      validateStatus: () => true,
+    });
+
+    if (response.status !== 200) {
+      const detail = Buffer.from(response.data).toString('utf8').substring(0, 200);
+      throw new Error(`Stability API returned ${response.status}: ${detail}`);
+    }
+
+    const contentType: unknown = response.headers['content-type'];
+    return {
+      data: Buffer.from(response.data),
+      contentType: typeof contentType === 'string' ? contentType : 'image/png',
+      provider: this.name,
+      model,
+    };
+  }
+
+  /**
+   * Pick the endpoint for the request and add its mode-specific fields
+   */
+  private prepareRequest(form: FormData, input: ImageGenerationInput): { path: string; model: string } {
+    const reference = input.reference;
+    const requestedModel = input.model || this.defaultModel;
+
+    if (!reference) {
+      // SD3 variants share one endpoint and are selected with the model field
+      const endpoint = requestedModel.startsWith('sd3') ? 'sd3' : requestedModel;
+      form.append('negative_prompt', NEGATIVE_PROMPT);
+      form.append('aspect_ratio', this.getAspectRatio(input.size));
+      if (endpoint === 'sd3') {
+        form.append('model', requestedModel);
+      }
+      return { path: `generate/${endpoint}`, model: requestedModel };
+    }
+
+    form.append('image', new Blob([reference.image], { type: reference.contentType }), 'reference');
+
+    switch (reference.mode) {
+      case 'inpaint':
+        if (!reference.mask) {
+          throw new Error('Inpainting requires a mask');
+        }
+        form.append('mask', new Blob([reference.mask], { type: 'image/png' }), 'mask');
+        form.append('negative_prompt', NEGATIVE_PROMPT);
+        return { path: 'edit/inpaint', model: 'inpaint' };
+
+      case 'style':
+        form.append('fidelity', String(reference.strength ?? DEFAULT_REFERENCE_STRENGTH));
+        form.append('aspect_ratio', this.getAspectRatio(input.size));
+        form.append('negative_prompt', NEGATIVE_PROMPT);
+        return { path: 'control/style', model: 'style' };
+
+      default: {
+        const model = requestedModel.startsWith('sd3') ? requestedModel : StabilityImageProvider.IMAGE_TO_IMAGE_MODEL;
+        form.append('mode', 'image-to-image');
+        form.append('strength', String(reference.strength ?? DEFAULT_REFERENCE_STRENGTH));
+        form.append('model', model);
+        form.append('negative_prompt', NEGATIVE_PROMPT);
+        return { path: 'generate/sd3', model };
+      }
+    }
+  }
+
+  /**
+   * Closest supported aspect ratio for a pixel size
+   */
+  private getAspectRatio(size?: string): string {
+    const { width, height } = parseSize(size);
+    const target = width / height;
+
+    return StabilityImageProvider.ASPECT_RATIOS.reduce((best, ratio) => {
+      const [w, h] = ratio.split(':').map(Number);
+      const [bw, bh] = best.split(':').map(Number);
+      return Math.abs(w! / h! - target) < Math.abs(bw! / bh! - target) ? ratio : best;
+    }, '1:1');
+  }
+}
+
+/**
+ * Self-hosted Stable Diffusion, through either a ComfyUI server or an
+ * AUTOMATIC1111-compatible web UI API. The model is the checkpoint file name.
+ */
+export class LocalDiffusionImageProvider implements ImageProvider {
+  public readonly name = 'local';
+  public readonly label = 'Stable Diffusion';
+  // Style transfer needs IP-Adapter extensions, which are not assumed to be installed
+  public readonly referenceModes: readonly ReferenceMode[] = ['variation', 'inpaint'];
+
+  private static readonly POLL_INTERVAL_MS = 1000;
+
+  public get defaultModel(): string {
+    return config.ai.images.local.model;
+  }
+
+  public isConfigured(): boolean {
+    return !!config.ai.images.local.url;
+  }
+
+  public async generate(input: ImageGenerationInput): Promise<GeneratedImage> {
+    const { url, api } = config.ai.images.local;
+    if (!url) {
+      throw new Error('Local Stable Diffusion endpoint is not configured');
+    }
+
+    const model = input.model || this.defaultModel;
+    const { width, height } = parseSize(input.size);
+
+    // Standard quality trades detail for a faster render
+    const steps = input.quality === 'standard' ? 20 : 30;
+
+    if (input.reference && !this.referenceModes.includes(input.reference.mode)) {
+      throw new Error(`Local Stable Diffusion does not support ${input.reference.mode} references`);
+    }
+
+    const data = api === 'automatic1111'
+      ? await this.generateWithAutomatic1111(url, input.prompt, model, width, height, steps, input.reference)
+      : await this.generateWithComfyUI(url, input.prompt, model, width, height, steps, input.reference);
+
+    return { data, contentType: 'image/png', provider: this.name, model };
+  }
+
+  private async generateWithAutomatic1111(
+    url: string,
+    prompt: string,
+    model: string,
+    width: number,
+    height: number,
+    steps: number,
+    reference?: ReferenceImageInput
+  ): Promise<Buffer> {
+    const params = {
+      prompt,
+      negative_prompt: NEGATIVE_PROMPT,
+      width,
+      height,
+      steps,
+      cfg_scale: 7,
+      override_settings: { sd_model_checkpoint: model },
+    };
+
+    const response = reference
+      ? await axios.post<Automatic1111Response>(`${url}/sdapi/v1/img2img`, {
+        ...params,
+        init_images: [reference.image.toString('base64')],
+        denoising_strength: reference.mode === 'inpaint' ? 0.75 : reference.strength ?? DEFAULT_REFERENCE_STRENGTH,
+        ...(reference.mask ? { mask: reference.mask.toString('base64'), inpainting_fill: 1 } : {}),
+      }, { timeout: config.ai.images.timeout })
+      : await axios.post<Automatic1111Response>(`${url}/sdapi/v1/txt2img`, params, { timeout: config.ai.images.timeout });
+
+    const image = response.data?.images?.[0];
+    if (typeof image !== 'string') {
+      throw new Error('No image returned from Stable Diffusion');
+    }
+
+    return Buffer.from(image, 'base64');
+  }
+
+  /**
+   * Queue a basic text-to-image (or image-to-image) workflow and wait for its output
+   */
+  private async generateWithComfyUI(
+    url: string,
+    prompt: string,
+    model: string,
+    width: number,
+    height: number,
+    steps: number,
+    reference?: ReferenceImageInput
+  ): Promise<Buffer> {
+    let denoise = 1;
+    let latentNodes: Record<string, unknown> = {
+      latent: { class_type: 'EmptyLatentImage', inputs: { width, height, batch_size: 1 } },
+    };
+
+    if (reference) {
+      const image = await this.uploadToComfyUI(url, reference.image, reference.contentType);
+      latentNodes = { reference: { class_type: 'LoadImage', inputs: { image } } };
+
+      if (reference.mode === 'inpaint' && reference.mask) {
+        const mask = await this.uploadToComfyUI(url, reference.mask, 'image/png');
+        latentNodes['mask'] = { class_type: 'LoadImageMask', inputs: { image: mask, channel: 'red' } };
+        latentNodes['latent'] = {
+          class_type: 'VAEEncodeForInpaint',
+          inputs: { pixels: ['reference', 0], vae: ['checkpoint', 2], mask: ['mask', 0], grow_mask_by: 6 },
+        };
+      } else {
+        latentNodes['latent'] = { class_type: 'VAEEncode', inputs: { pixels: ['reference', 0], vae: ['checkpoint', 2] } };
+        denoise = reference.strength ?? DEFAULT_REFERENCE_STRENGTH;
+      }
+    }
+
+    const workflow = {
+      checkpoint: { class_type: 'CheckpointLoaderSimple', inputs: { ckpt_name: model } },
+      ...latentNodes,
+      positive: { class_type: 'CLIPTextEncode', inputs: { text: prompt, clip: ['checkpoint', 1] } },
+      negative: { class_type: 'CLIPTextEncode', inputs: { text: NEGATIVE_PROMPT, clip: ['checkpoint', 1] } },
+      sampler: {
+        class_type: 'KSampler',
+        inputs: {
+          seed: crypto.randomInt(0, 2 ** 32),
+          steps,
+          cfg: 7,
+          sampler_name: 'euler',
+          scheduler: 'normal',
+          denoise,
+          model: ['checkpoint', 0],
+          positive: ['positive', 0],
+          negative: ['negative', 0],
+          latent_image: ['latent', 0],
+        },
+      },
+      decode: { class_type: 'VAEDecode', inputs: { samples: ['sampler', 0], vae: ['checkpoint', 2] } },
+      save: { class_type: 'SaveImage', inputs: { filename_prefix: 'chainweave', images: ['decode', 0] } },
+    };
+
+    const queued = await axios.post<{ prompt_id?: string }>(`${url}/prompt`, { prompt: workflow }, { timeout: 30000 });
+    const promptId = queued.data?.prompt_id;
+    if (!promptId) {
+      throw new Error('ComfyUI did not accept the workflow');
+    }
+
+    const deadline = Date.now() + config.ai.images.timeout;
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, LocalDiffusionImageProvider.POLL_INTERVAL_MS));
+
+      const history = await axios.get<Record<string, ComfyUIHistoryEntry>>(`${url}/history/${promptId}`, { timeout: 30000 });
+      const entry = history.data?.[promptId];
+      if (!entry) {
+        continue;
+      }
+
+      if (entry.status?.status_str === 'error') {
+        throw new Error('ComfyUI workflow failed');
+      }
+
+      const image = entry.outputs?.['save']?.images?.[0];
+      if (image) {
+        const view = await axios.get<ArrayBuffer>(`${url}/view`, {
+          params: { filename: image.filename, subfolder: image.subfolder, type: image.type },
+          responseType: 'arraybuffer',
+          timeout: 30000,
+        });
+        return Buffer.from(view.data);
+      }
+    }
+
+    throw new Error('Timed out waiting for ComfyUI');
+  }
+
+  /**
+   * Store an input image on the ComfyUI server and return its name
+   */
+  private async uploadToComfyUI(url: string, data: Buffer, contentType: string): Promise<string> {
+    const form = new FormData();
+    form.append('image', new Blob([data], { type: contentType }), `chainweave-${crypto.randomUUID()}.png`);
+    form.append('overwrite', 'true');
+
+    const response = await axios.post<{ name?: string; subfolder?: string }>(`${url}/upload/image`, form, { timeout: 30000 });
+    const { name, subfolder } = response.data || {};
+    if (!name) {
+      throw new Error('ComfyUI did not accept the reference image');
+    }
+
+    return subfolder ? `${subfolder}/${name}` : name;
+  }
+}
+
+/**
+ * Offline provider for development and tests. Renders an SVG derived only
+ * from the prompt and model, so the same input always yields the same image.
+ */
+export class TestImageProvider implements ImageProvider {
+  public readonly name = 'test';
+  public readonly label = 'ChainWeave Test Renderer';
+  public readonly defaultModel = 'deterministic-svg-v1';
+  public readonly referenceModes: readonly ReferenceMode[] = ['variation', 'inpaint', 'style'];
+
+  public isConfigured(): boolean {
+    return config.env !== 'production';
+  }
+
+  public generate(input: ImageGenerationInput): Promise<GeneratedImage> {
+    const model = input.model || this.defaultModel;
+    const { width, height } = parseSize(input.size);
+    const hash = crypto.createHash('sha256').update(`${model}\n${input.prompt}`);
+    if (input.reference) {
+      hash.update(input.reference.mode).update(input.reference.image);
+    }
+    const digest = hash.digest();
+
+    const hue = (index: number) => Math.round((digest[index]! / 255) * 360);
+    const circles = Array.from({ length: 6 }, (_, i) => {
+      const cx = Math.round((digest[4 + i * 3]! / 255) * width);
+      const cy = Math.round((digest[5 + i * 3]! / 255) * height);
+      const r = Math.round((0.05 + (digest[6 + i * 3]! / 255) * 0.25) * Math.min(width, height));
+      return `<circle cx="${cx}" cy="${cy}" r="${r}" fill="hsl(${hue(24 + i)}, 70%, 60%)" fill-opacity="0.7"/>`;
+    }).join('');
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+      + '<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">'
+      + `<stop offset="0" stop-color="hsl(${hue(0)}, 60%, 25%)"/><stop offset="1" stop-color="hsl(${hue(1)}, 60%, 45%)"/>`
+      + `</linearGradient></defs><rect width="${width}" height="${height}" fill="url(#bg)"/>${circles}</svg>`;
+
+    return Promise.resolve({ data: Buffer.from(svg, 'utf8'), contentType: 'image/svg+xml', provider: this.name, model });
+  }
+}
+
+/**
+ * Registry of image providers. Generation uses the requested provider (or the
+ * configured default) and then the configured fallbacks, in order; it fails
+ * when none of them produce an image.
+ */
+export class ImageProviderRegistry {
+  private providers: Map<ImageProviderName, ImageProvider> = new Map();
+  private lastFallback: { requested: ImageProviderName; provider: ImageProviderName; at: Date; reason: string } | null = null;
+
+  constructor(providers: ImageProvider[] = [
+    new OpenAIImageProvider(),
+    new StabilityImageProvider(),
+    new LocalDiffusionImageProvider(),
+    new TestImageProvider(),
+  ]) {
+    for (const provider of providers) {
+      this.register(provider);
+    }
+  }
+
+  public register(provider: ImageProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  public get(name: ImageProviderName): ImageProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  /**
+   * Whether a provider is registered and configured (and handles the reference mode, if given)
+   */
+  public isAvailable(name: ImageProviderName, referenceMode?: ReferenceMode): boolean {
+    const provider = this.providers.get(name);
+    return !!provider?.isConfigured() && (!referenceMode || provider.referenceModes.includes(referenceMode));
+  }
+
+  /**
+   * Configured providers, for clients choosing one per request
+   */
+  public getAvailableProviders(): ImageProviderInfo[] {
+    return [...this.providers.values()]
+      .filter(provider => provider.isConfigured())
+      .map(provider => ({
+        name: provider.name,
+        label: provider.label,
+        defaultModel: provider.defaultModel,
+        referenceModes: provider.referenceModes,
+        isDefault: provider.name === config.ai.images.provider,
+      }));
+  }
+
+  /**
+   * Provider generation starts with by default, the first configured one that
+   * would actually be used, and the most recent fallback to another provider
+   */
+  public getStatus(): {
+    configured: ImageProviderName;
+    active: ImageProviderName | null;
+    lastFallback: { requested: ImageProviderName; provider: ImageProviderName; at: Date; reason: string } | null;
+  } {
+    const configured: ImageProviderName = config.ai.images.provider;
+    const candidates = [...new Set<string>([configured, ...config.ai.images.fallbacks])];
+    const active = candidates.find(name => this.isAvailable(name as ImageProviderName)) as ImageProviderName | undefined;
+
+    return {
+      configured,
+      active: active || null,
+      lastFallback: this.lastFallback,
+    };
+  }
+
+  /**
+   * Generate an image. A requested model only applies to the first provider;
+   * fallbacks use their own default model.
+   */
+  public async generate(input: ImageGenerationInput, preferred?: ImageProviderName): Promise<GeneratedImage> {
+    const primary: ImageProviderName = preferred || config.ai.images.provider;
+    const candidates = [...new Set<string>([primary, ...config.ai.images.fallbacks])];
+    const errors: string[] = [];
+
+    for (const name of candidates) {
+      const provider = this.providers.get(name as ImageProviderName);
+      if (!provider || !provider.isConfigured()) {
+        errors.push(`${name}: not configured`);
+        continue;
+      }
+
+      if (input.reference && !provider.referenceModes.includes(input.reference.mode)) {
+        errors.push(`${name}: ${input.reference.mode} references not supported`);
+        continue;
+      }
+
+      try {
+        aiLogger.info('Generating image', {
+          provider: provider.name,
+          model: name === primary ? input.model || provider.defaultModel : provider.defaultModel,
+          prompt: input.prompt.substring(0, 100) + '...',
+        });
+
+        const image = await provider.generate({
+          ...input,
+          model: name === primary ? input.model : undefined,
+        });
+
+        if (name !== primary) {
+          this.lastFallback = { requested: primary, provider: provider.name, at: new Date(), reason: errors.join('; ') };
+        }
+
+        return image;
+
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        errors.push(`${name}: ${message}`);
+
+        aiLogger.warn('Image provider failed', { provider: name, error: message });
+      }
+    }
+
+    throw new Error(`Image generation failed (${errors.join('; ')})`);
+  }
+}
+
+// Export singleton instance
+export const imageProviderRegistry = new ImageProviderRegistry();
\ No newline at end of file
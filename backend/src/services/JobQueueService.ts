@@ -0,0 +1,599 @@
+import os from 'os';
+import crypto from 'crypto';
+import { GenerationJob } from '@/models/GenerationJob';
+import { getRedisClient, isRedisConfigured } from '@/config/redis';
+import { config } from '@/config/env';
+import { logger } from '@/utils/logger';
+import { JobStatus } from '@/types';
+
+export interface QueuedJob {
+  requestId: string;
+  attempts: number;
+  maxAttempts: number;
+}
+
+export interface JobHandler {
+  process(job: QueuedJob): Promise<void>;
+  onRetry?(job: QueuedJob, error: string, runAt: Date): Promise<void>;
+  onDead?(job: QueuedJob, error: string): Promise<void>;
+}
+
+export type QueueStats = Record<JobStatus, number>;
+
+/**
+ * Storage backend for generation jobs. Every mutation of a claimed job is
+ * conditional on the caller still holding the lease, so a worker whose lease
+ * expired cannot overwrite the state written by the worker that reclaimed it.
+ */
+export interface JobStore {
+  readonly name: string;
+  enqueue(requestId: string, runAt: Date, maxAttempts: number): Promise<boolean>;
+  claim(workerId: string, leaseMs: number): Promise<QueuedJob | null>;
+  heartbeat(requestId: string, workerId: string, leaseMs: number): Promise<boolean>;
+  complete(requestId: string, workerId: string): Promise<void>;
+  retry(requestId: string, workerId: string, runAt: Date, error: string): Promise<void>;
+  bury(requestId: string, workerId: string, error: string): Promise<void>;
+  hasLiveLease(requestId: string): Promise<boolean>;
+  getStats(): Promise<QueueStats>;
+  close(): Promise<void>;
+}
+
+const emptyStats = (): QueueStats => ({
+  [JobStatus.QUEUED]: 0,
+  [JobStatus.ACTIVE]: 0,
+  [JobStatus.COMPLETED]: 0,
+  [JobStatus.DEAD]: 0,
+});
+
+/**
+ * MongoDB-backed job store
+ */
+export class MongoJobStore implements JobStore {
+  public readonly name = 'mongo';
+
+  public async enqueue(requestId: string, runAt: Date, maxAttempts: number): Promise<boolean> {
+    const now = new Date();
+
+    // Requeue only finished jobs and jobs whose lease has lapsed, in a single
+    // write. Jobs that are waiting or held by a live lease do not match, so the
+    // upsert collides with them on the unique request ID instead.
+    try {
+      const result = await GenerationJob.updateOne(
+        {
+          requestId,
+          $or: [
+            { status: { $in: [JobStatus.COMPLETED, JobStatus.DEAD] } },
+            { status: JobStatus.ACTIVE, lockExpiresAt: { $not: { $gt: now } } },
+          ],
+        },
+        {
+          $set: {
+            status: JobStatus.QUEUED,
+            attempts: 0,
+            maxAttempts,
+            runAt,
+          },
+          $unset: { lockedBy: '', lockExpiresAt: '', lastError: '', completedAt: '' },
+        },
+        { upsert: true }
+      );
+
+      return result.matchedCount > 0 || result.upsertedCount > 0;
+    } catch (error) {
+      // Already waiting or running
+      if ((error as { code?: number }).code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  public async claim(workerId: string, leaseMs: number): Promise<QueuedJob | null> {
+    const now = new Date();
+
+    const job = await GenerationJob.findOneAndUpdate(
+      {
+        $or: [
+          { status: JobStatus.QUEUED, runAt: { $lte: now } },
+          { status: JobStatus.ACTIVE, lockExpiresAt: { $lt: now } },
+        ],
+      },
+      {
+        $set: {
+          status: JobStatus.ACTIVE,
+          lockedBy: workerId,
+          lockExpiresAt: new Date(now.getTime() + leaseMs),
+        },
+        $inc: { attempts: 1 },
+      },
+      { sort: { runAt: 1 }, new: true }
+    );
+
+    if (!job) {
+      return null;
+    }
+
+    return {
+      requestId: job.requestId,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+    };
+  }
+
+  public async heartbeat(requestId: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const result = await GenerationJob.updateOne(
+      { requestId, status: JobStatus.ACTIVE, lockedBy: workerId },
+      { $set: { lockExpiresAt: new Date(Date.now() + leaseMs) } }
+    );
+
+    return result.matchedCount > 0;
+  }
+
+  public async complete(requestId: string, workerId: string): Promise<void> {
+    await GenerationJob.updateOne(
+      { requestId, status: JobStatus.ACTIVE, lockedBy: workerId },
+      {
+        $set: { status: JobStatus.COMPLETED, completedAt: new Date() },
+        $unset: { lockedBy: '', lockExpiresAt: '' },
+      }
+    );
+  }
+
+  public async retry(requestId: string, workerId: string, runAt: Date, error: string): Promise<void> {
+    await GenerationJob.updateOne(
+      { requestId, status: JobStatus.ACTIVE, lockedBy: workerId },
+      {
+        $set: { status: JobStatus.QUEUED, runAt, lastError: error.substring(0, 500) },
+        $unset: { lockedBy: '', lockExpiresAt: '' },
+      }
+    );
+  }
+
+  public async bury(requestId: string, workerId: string, error: string): Promise<void> {
+    await GenerationJob.updateOne(
+      { requestId, status: JobStatus.ACTIVE, lockedBy: workerId },
+      {
+        $set: { status: JobStatus.DEAD, lastError: error.substring(0, 500) },
+        $unset: { lockedBy: '', lockExpiresAt: '' },
+      }
+    );
+  }
+
+  public async hasLiveLease(requestId: string): Promise<boolean> {
+    const count = await GenerationJob.countDocuments({
+      requestId,
+      status: JobStatus.ACTIVE,
+      lockExpiresAt: { $gt: new Date() },
+    });
+
+    return count > 0;
+  }
+
+  public async getStats(): Promise<QueueStats> {
+    const stats = emptyStats();
+    const counts = await GenerationJob.getStatusCounts();
+
+    for (const { _id, count } of counts) {
+      stats[_id] = count;
+    }
+
+    return stats;
+  }
+
+  public async close(): Promise<void> {
+    // Connection lifecycle is owned by config/database
+  }
+}
+
+// Redis scripts keep every multi-key transition atomic
+const REDIS_ENQUEUE_SCRIPT = `
+local job = KEYS[4] .. ARGV[1]
+if redis.call('ZSCORE', KEYS[1], ARGV[1]) then return 0 end
+local expiry = redis.call('ZSCORE', KEYS[2], ARGV[1])
+if expiry and tonumber(expiry) > tonumber(ARGV[4]) then return 0 end
+redis.call('ZREM', KEYS[2], ARGV[1])
+redis.call('ZREM', KEYS[3], ARGV[1])
+redis.call('DEL', job)
+redis.call('HSET', job, 'attempts', 0, 'maxAttempts', ARGV[3], 'status', 'queued')
+redis.call('ZADD', KEYS[1], ARGV[2], ARGV[1])
+return 1
+`;
+
+const REDIS_CLAIM_SCRIPT = `
+local id = redis.call('ZRANGEBYSCORE', KEYS[2], '-inf', '(' .. ARGV[1], 'LIMIT', 0, 1)[1]
+if not id then
+  id = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, 1)[1]
+  if not id then return nil end
+  redis.call('ZREM', KEYS[1], id)
+end
+redis.call('ZADD', KEYS[2], ARGV[2], id)
+local job = KEYS[3] .. id
+local attempts = redis.call('HINCRBY', job, 'attempts', 1)
+redis.call('HSET', job, 'status', 'active', 'lockedBy', ARGV[3])
+return { id, tostring(attempts), redis.call('HGET', job, 'maxAttempts') or '1' }
+`;
+
+const REDIS_HEARTBEAT_SCRIPT = `
+local job = KEYS[2] .. ARGV[1]
+if redis.call('HGET', job, 'lockedBy') ~= ARGV[2] then return 0 end
+redis.call('ZADD', KEYS[1], ARGV[3], ARGV[1])
+return 1
+`;
+
+const REDIS_RELEASE_SCRIPT = `
+local job = KEYS[4] .. ARGV[1]
+if redis.call('HGET', job, 'lockedBy') ~= ARGV[2] then return 0 end
+redis.call('ZREM', KEYS[1], ARGV[1])
+redis.call('HDEL', job, 'lockedBy')
+if ARGV[3] == 'completed' then
+  redis.call('DEL', job)
+  redis.call('INCR', KEYS[3])
+  return 1
+end
+redis.call('HSET', job, 'status', ARGV[3], 'lastError', ARGV[5])
+redis.call('ZADD', KEYS[2], ARGV[4], ARGV[1])
+return 1
+`;
+
+/**
+ * Redis-backed job store. Jobs live in three sorted sets: ready (scored by
+ * runAt), active (scored by lease expiry) and dead (scored by burial time).
+ */
+export class RedisJobStore implements JobStore {
+  public readonly name = 'redis';
+  private readonly prefix = 'chainweave:queue:generation';
+
+  private key(name: string): string {
+    return `${this.prefix}:${name}`;
+  }
+
+  private async run(script: string, keys: string[], args: Array<string | number>): Promise<unknown> {
+    const client = await getRedisClient();
+    return client.eval(script, { keys, arguments: args.map(String) });
+  }
+
+  public async enqueue(requestId: string, runAt: Date, maxAttempts: number): Promise<boolean> {
+    const result = await this.run(
+      REDIS_ENQUEUE_SCRIPT,
+      [this.key('ready'), this.key('active'), this.key('dead'), this.key('job:')],
+      [requestId, runAt.getTime(), maxAttempts, Date.now()]
+    );
+
+    return result === 1;
+  }
+
+  public async claim(workerId: string, leaseMs: number): Promise<QueuedJob | null> {
+    const now = Date.now();
+    const result = await this.run(
+      REDIS_CLAIM_SCRIPT,
+      [this.key('ready'), this.key('active'), this.key('job:')],
+      [now, now + leaseMs, workerId]
+    );
+
+    if (!Array.isArray(result)) {
+      return null;
+    }
+
+    const [requestId, attempts, maxAttempts] = result as string[];
+
+    return {
+      requestId: requestId!,
+      attempts: parseInt(attempts!, 10),
+      maxAttempts: parseInt(maxAttempts!, 10),
+    };
+  }
+
+  public async heartbeat(requestId: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const result = await this.run(
+      REDIS_HEARTBEAT_SCRIPT,
+      [this.key('active'), this.key('job:')],
+      [requestId, workerId, Date.now() + leaseMs]
+    );
+
+    return result === 1;
+  }
+
+  private async release(
+    requestId: string,
+    workerId: string,
+    status: JobStatus,
+    score: number,
+    error: string = ''
+  ): Promise<void> {
+    const target = status === JobStatus.DEAD ? this.key('dead') : this.key('ready');
+
+    await this.run(
+      REDIS_RELEASE_SCRIPT,
+      [this.key('active'), target, this.key('completed'), this.key('job:')],
+      [requestId, workerId, status, score, error.substring(0, 500)]
+    );
+  }
+
+  public async complete(requestId: string, workerId: string): Promise<void> {
+    await this.release(requestId, workerId, JobStatus.COMPLETED, Date.now());
+  }
+
+  public async retry(requestId: string, workerId: string, runAt: Date, error: string): Promise<void> {
+    await this.release(requestId, workerId, JobStatus.QUEUED, runAt.getTime(), error);
+  }
+
+  public async bury(requestId: string, workerId: string, error: string): Promise<void> {
+    await this.release(requestId, workerId, JobStatus.DEAD, Date.now(), error);
+  }
+
+  public async hasLiveLease(requestId: string): Promise<boolean> {
+    const client = await getRedisClient();
+    const expiry = await client.zScore(this.key('active'), requestId);
+    return expiry !== null && expiry > Date.now();
+  }
+
+  public async getStats(): Promise<QueueStats> {
+    const client = await getRedisClient();
+
+    const [queued, active, dead, completed] = await Promise.all([
+      client.zCard(this.key('ready')),
+      client.zCard(this.key('active')),
+      client.zCard(this.key('dead')),
+      client.get(this.key('completed')),
+    ]);
+
+    return {
+      [JobStatus.QUEUED]: queued,
+      [JobStatus.ACTIVE]: active,
+      [JobStatus.COMPLETED]: parseInt(completed || '0', 10),
+      [JobStatus.DEAD]: dead,
+    };
+  }
+
+  public async close(): Promise<void> {
+    // Connection lifecycle is owned by config/redis
+  }
+}
+
+/**
+ * Background worker for AI generation jobs.
+ * Claims jobs under a lease, renews the lease while the handler runs, retries
+ * failures with exponential backoff and buries jobs that exhaust their attempts.
+ */
+export class JobQueueService {
+  private store: JobStore;
+  private handler: JobHandler | null = null;
+  private readonly workerId: string;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private stopping = false;
+  private inFlight = new Map<string, Promise<void>>();
+
+  constructor(store?: JobStore) {
+    this.store = store || (isRedisConfigured() ? new RedisJobStore() : new MongoJobStore());
+    this.workerId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+  }
+
+  /**
+   * Start polling for jobs
+   */
+  public start(handler: JobHandler): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.handler = handler;
+    this.stopping = false;
+    this.pollTimer = setInterval(() => void this.poll(), config.queue.pollIntervalMs);
+
+    logger.info('Generation queue worker started', {
+      workerId: this.workerId,
+      store: this.store.name,
+      concurrency: config.queue.concurrency,
+    });
+
+    void this.poll();
+  }
+
+  /**
+   * Stop polling and wait for in-flight jobs to settle
+   */
+  public async stop(timeoutMs: number = 20000): Promise<void> {
+    this.stopping = true;
+
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    // Jobs still running after the timeout keep their lease until it expires
+    // and are then reclaimed by another worker
+    await Promise.race([
+      Promise.allSettled(this.inFlight.values()),
+      new Promise(resolve => setTimeout(resolve, timeoutMs)),
+    ]);
+
+    await this.store.close();
+
+    logger.info('Generation queue worker stopped', {
+      workerId: this.workerId,
+      unfinished: this.inFlight.size,
+    });
+  }
+
+  /**
+   * Add a request to the queue (no-op if it is already queued or running)
+   */
+  public async enqueue(requestId: string, delayMs: number = 0): Promise<boolean> {
+    const enqueued = await this.store.enqueue(
+      requestId,
+      new Date(Date.now() + delayMs),
+      config.queue.maxAttempts
+    );
+
+    if (enqueued) {
+      logger.info('Generation job enqueued', { requestId, delayMs });
+
+      if (this.pollTimer && delayMs === 0) {
+        void this.poll();
+      }
+    }
+
+    return enqueued;
+  }
+
+  /**
+   * Whether some worker currently holds an unexpired lease on the request
+   */
+  public async isRunning(requestId: string): Promise<boolean> {
+    return this.store.hasLiveLease(requestId);
+  }
+
+  /**
+   * Get job counts by status
+   */
+  public async getStats(): Promise<QueueStats & { store: string; workerId: string; inFlight: number }> {
+    const stats = await this.store.getStats();
+
+    return {
+      ...stats,
+      store: this.store.name,
+      workerId: this.workerId,
+      inFlight: this.inFlight.size,
+    };
+  }
+
+  /**
+   * Claim jobs until the concurrency cap is reached or the queue is empty
+   */
+  private async poll(): Promise<void> {
+    if (this.polling || this.stopping || !this.handler) {
+      return;
+    }
+
+    this.polling = true;
+
+    try {
+      while (!this.stopping && this.inFlight.size < config.queue.concurrency) {
+        const job = await this.store.claim(this.workerId, config.queue.leaseMs);
+        if (!job) {
+          break;
+        }
+
+        const execution = this.execute(job).finally(() => {
+          this.inFlight.delete(job.requestId);
+        });
+        this.inFlight.set(job.requestId, execution);
+      }
+    } catch (error) {
+      logger.error('Generation queue poll failed', {
+        workerId: this.workerId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Run a claimed job while keeping its lease alive
+   */
+  private async execute(job: QueuedJob): Promise<void> {
+    const handler = this.handler!;
+
+    // A job reclaimed after a crash may already be past its attempt budget
+    if (job.attempts > job.maxAttempts) {
+      await this.bury(job, 'Maximum attempts exceeded');
+      return;
+    }
+
+    const heartbeat = setInterval(() => {
+      this.store.heartbeat(job.requestId, this.workerId, config.queue.leaseMs)
+        .then(held => {
+          if (!held) {
+            logger.warn('Generation job lease lost', { requestId: job.requestId, workerId: this.workerId });
+          }
+        })
+        .catch(error => {
+          logger.error('Generation job heartbeat failed', {
+            requestId: job.requestId,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        });
+    }, config.queue.heartbeatMs);
+
+    try {
+      logger.info('Processing generation job', {
+        requestId: job.requestId,
+        attempt: job.attempts,
+        maxAttempts: job.maxAttempts,
+      });
+
+      await handler.process(job);
+      await this.store.complete(job.requestId, this.workerId);
+
+      logger.info('Generation job completed', { requestId: job.requestId, attempt: job.attempts });
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      if (job.attempts >= job.maxAttempts) {
+        await this.bury(job, message);
+        return;
+      }
+
+      const runAt = new Date(Date.now() + this.getBackoffDelay(job.attempts));
+
+      logger.warn('Generation job failed, scheduling retry', {
+        requestId: job.requestId,
+        attempt: job.attempts,
+        maxAttempts: job.maxAttempts,
+        runAt: runAt.toISOString(),
+        error: message,
+      });
+
+      try {
+        await this.store.retry(job.requestId, this.workerId, runAt, message);
+        await handler.onRetry?.(job, message, runAt);
+      } catch (retryError) {
+        logger.error('Failed to schedule generation job retry', {
+          requestId: job.requestId,
+          error: retryError instanceof Error ? retryError.message : 'Unknown error',
+        });
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * Move an exhausted job to the dead-letter state
+   */
+  private async bury(job: QueuedJob, message: string): Promise<void> {
+    logger.error('Generation job moved to dead-letter state', {
+      requestId: job.requestId,
+      attempts: job.attempts,
+      error: message,
+    });
+
+    try {
+      await this.store.bury(job.requestId, this.workerId, message);
+      await this.handler?.onDead?.(job, message);
+    } catch (error) {
+      logger.error('Failed to bury generation job', {
+        requestId: job.requestId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Exponential backoff with up to 10% jitter
+   */
+  private getBackoffDelay(attempt: number): number {
+    const delay = Math.min(
+      config.queue.backoffBaseMs * Math.pow(2, attempt - 1),
+      config.queue.backoffMaxMs
+    );
+
+    return Math.round(delay + Math.random() * delay * 0.1);
+  }
+}
+
+// Export singleton instance
+export const generationQueue = new JobQueueService();
\ No newline at end of file
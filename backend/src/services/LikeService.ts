@@ -0,0 +1,189 @@
+import { Types } from 'mongoose';
+import { NFTLike } from '@/models/NFTLike';
+import { NFTRequest } from '@/models/NFTRequest';
+import { logger } from '@/utils/logger';
+import { INFTRequest, PaginationQuery, ServiceResponse } from '@/types';
+
+export interface LikeState {
+  liked: boolean;
+  totalLikes: number;
+}
+
+export class LikeService {
+  /**
+   * Set (or, without `liked`, flip) a user's like on an NFT.
+   * Setting an explicit state is idempotent and the denormalized
+   * count only moves when a like is actually created or removed.
+   */
+  public async setLike(
+    userId: string,
+    requestId: string,
+    liked?: boolean
+  ): Promise<ServiceResponse<LikeState>> {
+    try {
+      const request = await NFTRequest.exists({ requestId });
+      if (!request) {
+        return {
+          success: false,
+          error: 'Request not found',
+          code: 'NOT_FOUND',
+        };
+      }
+
+      const userObjectId = new Types.ObjectId(userId);
+      const shouldLike = liked ?? !(await NFTLike.exists({ userId: userObjectId, requestId }));
+
+      if (shouldLike) {
+        const created = await this.createLike(userObjectId, requestId);
+        if (created) {
+          await NFTRequest.updateOne({ requestId }, { $inc: { likeCount: 1 } });
+        }
+      } else {
+        const result = await NFTLike.deleteOne({ userId: userObjectId, requestId });
+        if (result.deletedCount === 1) {
+          await NFTRequest.updateOne(
+            { requestId, likeCount: { $gt: 0 } },
+            { $inc: { likeCount: -1 } }
+          );
+        }
+      }
+
+      const updated = await NFTRequest.findOne({ requestId }).select('likeCount').lean<Pick<INFTRequest, 'likeCount'>>();
+
+      return {
+        success: true,
+        data: {
+          liked: shouldLike,
+          totalLikes: updated?.likeCount || 0,
+        },
+      };
+
+    } catch (error) {
+      logger.error('Failed to update like', {
+        userId,
+        requestId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to update like',
+      };
+    }
+  }
+
+  /**
+   * Which of the given requests the user has liked
+   */
+  public async getLikedRequestIds(userId: string | undefined, requestIds: string[]): Promise<Set<string>> {
+    if (!userId || requestIds.length === 0) {
+      return new Set();
+    }
+
+    try {
+      const likes = await NFTLike.find({
+        userId: new Types.ObjectId(userId),
+        requestId: { $in: requestIds },
+      }).select('requestId').lean<Array<{ requestId: string }>>();
+
+      return new Set(likes.map(like => like.requestId));
+
+    } catch (error) {
+      logger.error('Failed to load liked requests', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return new Set();
+    }
+  }
+
+  /**
+   * List the NFTs a user has liked, most recent first
+   */
+  public async getFavorites(
+    userId: string,
+    pagination: PaginationQuery = {}
+  ): Promise<ServiceResponse<{
+    favorites: Array<INFTRequest & { likedAt: Date }>;
+    pagination: {
+      currentPage: number;
+      totalPages: number;
+      totalItems: number;
+      hasNext: boolean;
+      hasPrev: boolean;
+    };
+  }>> {
+    try {
+      const page = Math.max(1, pagination.page || 1);
+      const limit = Math.min(50, Math.max(1, pagination.limit || 20));
+      const skip = (page - 1) * limit;
+      const userObjectId = new Types.ObjectId(userId);
+
+      const [likes, totalCount] = await Promise.all([
+        NFTLike.find({ userId: userObjectId }).sort({ createdAt: -1 }).skip(skip).limit(limit),
+        NFTLike.countDocuments({ userId: userObjectId }),
+      ]);
+
+      const requests = await NFTRequest.find({
+        requestId: { $in: likes.map(like => like.requestId) },
+      }).lean<INFTRequest[]>();
+      const requestsById = new Map(requests.map(request => [request.requestId, request]));
+
+      // Keep the order of the likes; NFTs removed since are skipped
+      const favorites = likes.flatMap(like => {
+        const request = requestsById.get(like.requestId);
+        return request ? [{ ...request, likedAt: like.createdAt }] : [];
+      });
+
+      const totalPages = Math.ceil(totalCount / limit);
+
+      return {
+        success: true,
+        data: {
+          favorites,
+          pagination: {
+            currentPage: page,
+            totalPages,
+            totalItems: totalCount,
+            hasNext: page < totalPages,
+            hasPrev: page > 1,
+          },
+        },
+      };
+
+    } catch (error) {
+      logger.error('Failed to get favorites', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve favorites',
+      };
+    }
+  }
+
+  /**
+   * Insert a like; returns false when it already existed
+   */
+  private async createLike(userId: Types.ObjectId, requestId: string): Promise<boolean> {
+    try {
+      const result = await NFTLike.updateOne(
+        { userId, requestId },
+        { $setOnInsert: { userId, requestId } },
+        { upsert: true }
+      );
+      return result.upsertedCount === 1;
+    } catch (error) {
+      // Concurrent upserts of the same like race on the unique index
+      if ((error as { code?: number }).code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export const likeService = new LikeService();
\ No newline at end of file
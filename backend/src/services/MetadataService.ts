@@ -0,0 +1,302 @@
+import Ajv from 'ajv';
+import { config } from '@/config/env';
+import { NFTMetadata, NFTAttribute, MetadataProfile, ValidationError } from '@/types';
+
+export const METADATA_PROFILES: MetadataProfile[] = ['opensea', 'erc1155', 'rarible'];
+
+const NUMERIC_DISPLAY_TYPES = ['number', 'boost_number', 'boost_percentage'];
+
+// ipfs://, ar://, http(s):// or data: URIs; ERC-1155 `{id}` placeholders are allowed
+const URI_PATTERN = '^((ipfs|ar|https?)://\\S+|data:[\\w.+-]+/[\\w.+-]+[;,]\\S*)$';
+
+const ATTRIBUTE_SCHEMA = {
+  type: 'object',
+  required: ['trait_type', 'value'],
+  additionalProperties: false,
+  properties: {
+    trait_type: { type: 'string', minLength: 1, maxLength: 50 },
+    value: {
+      anyOf: [
+        { type: 'string', minLength: 1, maxLength: 100 },
+        { type: 'number' },
+      ],
+    },
+    display_type: { type: 'string', enum: ['number', 'boost_number', 'boost_percentage', 'date'] },
+    max_value: { type: 'number' },
+  },
+  allOf: [
+    {
+      if: { required: ['display_type'], properties: { display_type: { enum: NUMERIC_DISPLAY_TYPES } } },
+      then: { properties: { value: { type: 'number' } } },
+    },
+    {
+      if: { required: ['display_type'], properties: { display_type: { const: 'date' } } },
+      then: { properties: { value: { type: 'integer', minimum: 0 } } },
+    },
+    {
+      if: { required: ['max_value'] },
+      then: {
+        properties: {
+          value: { type: 'number', maximum: { $data: '1/max_value' } },
+          display_type: { enum: NUMERIC_DISPLAY_TYPES },
+        },
+      },
+    },
+  ],
+};
+
+// Canonical token metadata, before a marketplace profile is applied
+const METADATA_SCHEMA = {
+  $id: 'nft-metadata',
+  type: 'object',
+  required: ['name', 'description', 'image'],
+  additionalProperties: false,
+  properties: {
+    name: { type: 'string', maxLength: 100, pattern: '\\S' },
+    description: { type: 'string', maxLength: 1000, pattern: '\\S' },
+    image: { type: 'string', pattern: URI_PATTERN },
+    external_url: { type: 'string', pattern: '^https?://\\S+$' },
+    animation_url: { type: 'string', pattern: URI_PATTERN },
+    background_color: { type: 'string', pattern: '^[0-9a-fA-F]{6}$' },
+    attributes: {
+      type: 'array',
+      maxItems: 50,
+      items: { $ref: '#/definitions/attribute' },
+    },
+    properties: { type: 'object' },
+    provenance: {
+      type: 'object',
+      required: ['referenceImage', 'referenceMode'],
+      additionalProperties: false,
+      properties: {
+        referenceImage: { type: 'string', pattern: URI_PATTERN },
+        referenceMode: { type: 'string', enum: ['variation', 'inpaint', 'style'] },
+        mask: { type: 'string', pattern: URI_PATTERN },
+      },
+    },
+  },
+  definitions: {
+    attribute: ATTRIBUTE_SCHEMA,
+  },
+};
+
+const ATTRIBUTES_SCHEMA = {
+  type: 'array',
+  items: ATTRIBUTE_SCHEMA,
+};
+
+// Readable messages for pattern failures, by field name
+const PATTERN_MESSAGES: Record<string, string> = {
+  name: 'must not be blank',
+  description: 'must not be blank',
+  image: 'must be an ipfs://, ar://, http(s):// or data: URI',
+  animation_url: 'must be an ipfs://, ar://, http(s):// or data: URI',
+  referenceImage: 'must be an ipfs://, ar://, http(s):// or data: URI',
+  mask: 'must be an ipfs://, ar://, http(s):// or data: URI',
+  external_url: 'must be an http(s):// URL',
+  background_color: 'must be six hex digits without #',
+};
+
+export class MetadataService {
+  private validateSchema: Ajv.ValidateFunction;
+  private validateAttributeList: Ajv.ValidateFunction;
+
+  constructor() {
+    const ajv = new Ajv({ allErrors: true, verbose: true, $data: true });
+    this.validateSchema = ajv.compile(METADATA_SCHEMA);
+    this.validateAttributeList = ajv.compile(ATTRIBUTES_SCHEMA);
+  }
+
+  /**
+   * Validate metadata against the JSON Schema, reporting every problem by field
+   */
+  public validate(metadata: unknown): { isValid: boolean; errors: ValidationError[] } {
+    const isValid = this.validateSchema(metadata) as boolean;
+    return { isValid, errors: isValid ? [] : this.toValidationErrors(this.validateSchema.errors) };
+  }
+
+  /**
+   * Validate a trait list on its own, as supplied with a generation request
+   */
+  public validateAttributes(attributes: unknown): { isValid: boolean; errors: ValidationError[] } {
+    const isValid = this.validateAttributeList(attributes) as boolean;
+    return { isValid, errors: isValid ? [] : this.toValidationErrors(this.validateAttributeList.errors, 'attributes') };
+  }
+
+  /**
+   * Write validated metadata in the format a marketplace expects. For ERC-1155,
+   * `{id}` in URIs is replaced by the token ID when one is given.
+   */
+  public format(
+    metadata: NFTMetadata,
+    profile: MetadataProfile = config.ipfs.metadataProfile,
+    tokenId?: number | string
+  ): Record<string, unknown> {
+    switch (profile) {
+      case 'erc1155':
+        return this.formatERC1155(metadata, tokenId);
+      case 'rarible':
+        return this.formatRarible(metadata);
+      default:
+        return this.formatOpenSea(metadata);
+    }
+  }
+
+  /**
+   * ERC-1155 `{id}` substitution: the token ID as 64 lowercase hex digits
+   */
+  public substituteTokenId(uri: string, tokenId: number | string): string {
+    const id = BigInt(tokenId).toString(16).padStart(64, '0');
+    return uri.split('{id}').join(id);
+  }
+
+  private formatOpenSea(metadata: NFTMetadata): Record<string, unknown> {
+    return {
+      name: metadata.name,
+      description: metadata.description,
+      image: metadata.image,
+      ...(metadata.external_url ? { external_url: metadata.external_url } : {}),
+      ...(metadata.animation_url ? { animation_url: metadata.animation_url } : {}),
+      ...(metadata.background_color ? { background_color: metadata.background_color } : {}),
+      ...(metadata.attributes?.length ? { attributes: metadata.attributes.map(attribute => this.copyAttribute(attribute)) } : {}),
+      ...(metadata.provenance ? { provenance: metadata.provenance } : {}),
+    };
+  }
+
+  // ERC-1155 keeps extra data under `properties`; attributes stay for marketplaces that read them
+  private formatERC1155(metadata: NFTMetadata, tokenId?: number | string): Record<string, unknown> {
+    const substitute = (uri: string): string => tokenId !== undefined ? this.substituteTokenId(uri, tokenId) : uri;
+
+    return {
+      name: metadata.name,
+      description: metadata.description,
+      image: substitute(metadata.image),
+      ...(metadata.external_url ? { external_url: substitute(metadata.external_url) } : {}),
+      ...(metadata.animation_url ? { animation_url: substitute(metadata.animation_url) } : {}),
+      ...(metadata.background_color ? { background_color: metadata.background_color } : {}),
+      ...(metadata.attributes?.length ? { attributes: metadata.attributes.map(attribute => this.copyAttribute(attribute)) } : {}),
+      properties: {
+        ...(metadata.properties || {}),
+        ...Object.fromEntries((metadata.attributes || []).map(attribute => [attribute.trait_type, attribute.value])),
+        ...(metadata.provenance ? { provenance: metadata.provenance } : {}),
+      },
+    };
+  }
+
+  // Rarible reads `key` for trait names and has no display types or background color
+  private formatRarible(metadata: NFTMetadata): Record<string, unknown> {
+    return {
+      name: metadata.name,
+      description: metadata.description,
+      image: metadata.image,
+      ...(metadata.external_url ? { external_url: metadata.external_url } : {}),
+      ...(metadata.animation_url ? { animation_url: metadata.animation_url } : {}),
+      ...(metadata.attributes?.length ? {
+        attributes: metadata.attributes.map(attribute => ({
+          key: attribute.trait_type,
+          trait_type: attribute.trait_type,
+          value: attribute.value,
+        })),
+      } : {}),
+      ...(metadata.provenance ? { provenance: metadata.provenance } : {}),
+    };
+  }
+
+  private copyAttribute(attribute: NFTAttribute): NFTAttribute {
+    return {
+      trait_type: attribute.trait_type,
+      value: attribute.value,
+      ...(attribute.display_type ? { display_type: attribute.display_type } : {}),
+      ...(attribute.max_value !== undefined ? { max_value: attribute.max_value } : {}),
+    };
+  }
+
+  private toValidationErrors(errors: Ajv.ErrorObject[] | null | undefined, root?: string): ValidationError[] {
+    const seen = new Set<string>();
+
+    return (errors || [])
+      // `if` failures only repeat the `then` errors reported next to them
+      .filter(error => error.keyword !== 'if')
+      // Failures of each anyOf branch are summed up by the anyOf error itself
+      .filter(error => !/\/anyOf\/\d+\//.test(error.schemaPath))
+      .map(error => {
+        const child = this.errorProperty(error);
+        const path = [root, error.dataPath.replace(/^\./, ''), child]
+          .filter(part => part)
+          .join('.')
+          .replace(/\.\[/g, '[');
+        const field = path || root || 'metadata';
+        const name = field.split(/[.[\]]/).filter(part => part && !/^\d+$/.test(part)).pop() || field;
+        // Object-level errors carry the whole object; report the offending field's value instead
+        const data: unknown = error.data;
+        const value = error.keyword === 'additionalProperties' && child && typeof data === 'object' && data !== null
+          ? (data as Record<string, unknown>)[child]
+          : data;
+
+        return {
+          field,
+          message: this.describeError(error, name),
+          ...(error.keyword !== 'required' && value !== undefined ? { value } : {}),
+        };
+      })
+      .filter(error => {
+        const key = `${error.field}:${error.message}`;
+        if (seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+  }
+
+  // Property a required or additionalProperties error is about; the params depend on the keyword
+  private errorProperty(error: Ajv.ErrorObject): string | undefined {
+    switch (error.keyword) {
+      case 'required':
+        return (error.params as Ajv.RequiredParams).missingProperty;
+      case 'additionalProperties':
+        return (error.params as Ajv.AdditionalPropertiesParams).additionalProperty;
+      default:
+        return undefined;
+    }
+  }
+
+  private describeError(error: Ajv.ErrorObject, field: string): string {
+    switch (error.keyword) {
+      case 'required':
+        return 'is required';
+      case 'additionalProperties':
+        return 'is not a supported field';
+      case 'type': {
+        const { type } = error.params as Ajv.TypeParams;
+        return `must be ${type === 'integer' ? 'an integer' : `a ${type}`}`;
+      }
+      case 'enum':
+        return `must be one of ${(error.params as Ajv.EnumParams).allowedValues.map(String).join(', ')}`;
+      case 'pattern':
+        return PATTERN_MESSAGES[field] || 'has an invalid format';
+      case 'minLength': {
+        const { limit } = error.params as Ajv.LimitParams;
+        return limit === 1 ? 'must not be empty' : `must be at least ${limit} characters`;
+      }
+      case 'maxLength':
+        return `must be at most ${(error.params as Ajv.LimitParams).limit} characters`;
+      case 'maxItems':
+        return `must have at most ${(error.params as Ajv.LimitParams).limit} items`;
+      // Ajv 6 reports minimum and maximum with comparison params
+      case 'minimum':
+        return `must be at least ${(error.params as Ajv.ComparisonParams).limit}`;
+      case 'maximum':
+        return field === 'value'
+          ? 'must not exceed max_value'
+          : `must be at most ${(error.params as Ajv.ComparisonParams).limit}`;
+      case 'anyOf':
+        return 'must be a number or a 1-100 character string';
+      default:
+        return error.message || 'is invalid';
+    }
+  }
+}
+
+// Export singleton instance
+export const metadataService = new MetadataService();
\ No newline at end of file
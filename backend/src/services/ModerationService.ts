@@ -0,0 +1,728 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import OpenAI from 'openai';
+import { Types } from 'mongoose';
+import { config } from '@/config/env';
+import { ModerationDecision } from '@/models/ModerationDecision';
+import { GenerationDraft } from '@/models/GenerationDraft';
+import {
+  IModerationDecision,
+  ModerationAction,
+  ModerationCategory,
+  ModerationFlag,
+  ModerationRule,
+  ModerationSubject,
+  PaginationQuery,
+  ServiceResponse,
+} from '@/types';
+import { logger } from '@/utils/logger';
+
+export interface ModerationInput {
+  subject: ModerationSubject;
+  // Prompt text, or the description an image was rendered from
+  text?: string | undefined;
+  image?: Buffer | undefined;
+  contentType?: string | undefined;
+}
+
+export interface ModerationContext {
+  requestId?: string | undefined;
+  walletAddress?: string | undefined;
+  draftId?: Types.ObjectId | string | undefined;
+  // Callers that cannot hold content for review block it instead
+  reviewable?: boolean | undefined;
+}
+
+export interface ModerationVerdict {
+  decisionId?: string;
+  action: ModerationAction;
+  flags: ModerationFlag[];
+}
+
+export interface ModerationClassifier {
+  readonly name: string;
+  isConfigured(): boolean;
+  classify(input: ModerationInput): Promise<ModerationFlag[]>;
+}
+
+export interface ModerationDecisionFilters {
+  requestId?: string;
+  walletAddress?: string;
+  subject?: ModerationSubject;
+  action?: ModerationAction;
+}
+
+type DecisionPage = {
+  decisions: IModerationDecision[];
+  pagination: {
+    currentPage: number;
+    totalPages: number;
+    totalItems: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+};
+
+// Built-in rules, extended or overridden (by id) through MODERATION_RULES_FILE
+export const DEFAULT_MODERATION_RULES: ModerationRule[] = [
+  {
+    id: 'sexual-explicit',
+    category: 'sexual',
+    action: 'block',
+    terms: ['nsfw', 'explicit', 'porn', 'pornographic', 'hentai', 'nude', 'nudes', 'naked'],
+    description: 'Sexually explicit content',
+  },
+  {
+    id: 'sexual-suggestive',
+    category: 'sexual',
+    action: 'review',
+    terms: ['adult', 'erotic', 'lingerie', 'topless', 'seductive'],
+    description: 'Suggestive content',
+  },
+  {
+    id: 'minors-sexualized',
+    category: 'minors',
+    action: 'block',
+    pattern: '\\b(child|children|kid|kids|minor|minors|underage|teen|teens|loli)\\b.{0,40}\\b(nude|naked|sexy|erotic|explicit|nsfw)\\b|\\b(nude|naked|sexy|erotic|explicit|nsfw)\\b.{0,40}\\b(child|children|kid|kids|minor|minors|underage|teen|teens|loli)\\b',
+    description: 'Sexualized depictions of minors',
+  },
+  {
+    id: 'violence-graphic',
+    category: 'violence',
+    action: 'review',
+    terms: ['violence', 'gore', 'gory', 'mutilated', 'dismembered', 'decapitated', 'massacre', 'bloodbath'],
+    description: 'Graphic violence',
+  },
+  {
+    id: 'self-harm',
+    category: 'self-harm',
+    action: 'review',
+    terms: ['suicide', 'self-harm', 'self harm', 'cutting myself'],
+    description: 'Self-harm',
+  },
+  {
+    id: 'hate-symbols',
+    category: 'hate',
+    action: 'block',
+    terms: ['swastika', 'nazi', 'kkk', 'white power', 'heil hitler'],
+    description: 'Hate symbols and slogans',
+  },
+  {
+    id: 'illicit-weapons',
+    category: 'illicit',
+    action: 'review',
+    pattern: '\\b(how to (make|build)|instructions for)\\b.{0,30}\\b(bomb|explosive|meth|weapon)s?\\b',
+    description: 'Instructions for weapons or drugs',
+  },
+];
+
+/**
+ * Default rules, then the rules file (same id replaces a default), then extra terms from the environment
+ */
+export const loadModerationRules = (): ModerationRule[] => {
+  const rules = new Map<string, ModerationRule>(DEFAULT_MODERATION_RULES.map(rule => [rule.id, rule]));
+
+  if (config.moderation.rulesFile) {
+    try {
+      const fileRules: unknown = JSON.parse(fs.readFileSync(config.moderation.rulesFile, 'utf8'));
+      if (!Array.isArray(fileRules)) {
+        throw new Error('Rules file must contain an array of rules');
+      }
+
+      for (const rule of fileRules as ModerationRule[]) {
+        if (!rule.id || !rule.category || !['review', 'block'].includes(rule.action) || (!rule.terms?.length && !rule.pattern)) {
+          logger.warn('Skipping invalid moderation rule', { rule });
+          continue;
+        }
+        rules.set(rule.id, rule);
+      }
+    } catch (error) {
+      logger.error('Failed to load moderation rules file', {
+        file: config.moderation.rulesFile,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  if (config.moderation.blockedTerms.length > 0) {
+    rules.set('env-blocked-terms', {
+      id: 'env-blocked-terms',
+      category: 'other',
+      action: 'block',
+      terms: [...config.moderation.blockedTerms],
+      description: 'Terms blocked by MODERATION_BLOCKED_TERMS',
+    });
+  }
+
+  if (config.moderation.reviewTerms.length > 0) {
+    rules.set('env-review-terms', {
+      id: 'env-review-terms',
+      category: 'other',
+      action: 'review',
+      terms: [...config.moderation.reviewTerms],
+      description: 'Terms flagged by MODERATION_REVIEW_TERMS',
+    });
+  }
+
+  return [...rules.values()];
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Local classifier matching text against the rule set. Images are judged by
+ * the description they were rendered from; the pixels need a model classifier.
+ */
+export class RuleBasedClassifier implements ModerationClassifier {
+  public readonly name = 'rules';
+
+  private compiled: Array<{ rule: ModerationRule; expression: RegExp }> = [];
+
+  constructor(rules: ModerationRule[] = loadModerationRules()) {
+    for (const rule of rules) {
+      try {
+        const source = rule.pattern
+          ? rule.pattern
+          : `\\b(?:${rule.terms!.map(term => escapeRegExp(term.toLowerCase())).join('|')})\\b`;
+
+        this.compiled.push({ rule, expression: new RegExp(source, 'i') });
+      } catch (error) {
+        logger.warn('Skipping moderation rule with an invalid pattern', {
+          ruleId: rule.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+
+  public isConfigured(): boolean {
+    return true;
+  }
+
+  public classify(input: ModerationInput): Promise<ModerationFlag[]> {
+    if (!input.text) {
+      return Promise.resolve([]);
+    }
+
+    // Fold full-width and other compatibility characters before matching
+    const text = input.text.normalize('NFKC');
+    const flags: ModerationFlag[] = [];
+
+    for (const { rule, expression } of this.compiled) {
+      const match = expression.exec(text);
+      if (match) {
+        flags.push({
+          classifier: this.name,
+          category: rule.category,
+          action: rule.action,
+          ruleId: rule.id,
+          match: match[0].substring(0, 100),
+        });
+      }
+    }
+
+    return Promise.resolve(flags);
+  }
+}
+
+/**
+ * OpenAI moderation endpoint; classifies both text and images
+ */
+export class OpenAIModerationClassifier implements ModerationClassifier {
+  public readonly name = 'openai';
+
+  // Categories severe enough to block without a human look
+  private static readonly BLOCKING = ['sexual/minors', 'sexual', 'self-harm/instructions'];
+
+  private client: OpenAI | null;
+
+  constructor() {
+    this.client = config.ai.openai.apiKey
+      ? new OpenAI({ apiKey: config.ai.openai.apiKey, timeout: config.ai.timeout })
+      : null;
+  }
+
+  public isConfigured(): boolean {
+    return !!this.client;
+  }
+
+  public async classify(input: ModerationInput): Promise<ModerationFlag[]> {
+    if (!this.client) {
+      throw new Error('OpenAI is not configured');
+    }
+
+    const parts: OpenAI.ModerationMultiModalInput[] = [];
+    if (input.text) {
+      parts.push({ type: 'text', text: input.text });
+    }
+    if (input.image) {
+      parts.push({
+        type: 'image_url',
+        image_url: { url: `data:${input.contentType || 'image/png'};base64,${input.image.toString('base64')}` },
+      });
+    }
+
+    if (parts.length === 0) {
+      return [];
+    }
+
+    const response = await this.client.moderations.create({
+      model: config.moderation.openaiModel,
+      input: parts,
+    });
+
+    const flags: ModerationFlag[] = [];
+    for (const result of response.results) {
+      const categories = result.categories as unknown as Record<string, boolean | null>;
+      const scores = result.category_scores as unknown as Record<string, number>;
+
+      for (const [category, flagged] of Object.entries(categories)) {
+        if (!flagged) {
+          continue;
+        }
+
+        flags.push({
+          classifier: this.name,
+          category: this.mapCategory(category),
+          action: OpenAIModerationClassifier.BLOCKING.includes(category) ? 'block' : 'review',
+          match: category,
+          ...(scores[category] !== undefined ? { score: scores[category] } : {}),
+        });
+      }
+    }
+
+    return flags;
+  }
+
+  private mapCategory(category: string): ModerationCategory {
+    if (category === 'sexual/minors') return 'minors';
+
+    const family = category.split('/')[0];
+    switch (family) {
+      case 'sexual':
+        return 'sexual';
+      case 'violence':
+        return 'violence';
+      case 'hate':
+        return 'hate';
+      case 'harassment':
+        return 'harassment';
+      case 'self-harm':
+        return 'self-harm';
+      case 'illicit':
+        return 'illicit';
+      default:
+        return 'other';
+    }
+  }
+}
+
+export class ModerationService {
+  private classifiers: Map<string, ModerationClassifier> = new Map();
+  private rules: ModerationRule[];
+
+  constructor() {
+    this.rules = loadModerationRules();
+    this.register(new RuleBasedClassifier(this.rules));
+    this.register(new OpenAIModerationClassifier());
+  }
+
+  public register(classifier: ModerationClassifier): void {
+    this.classifiers.set(classifier.name, classifier);
+  }
+
+  /**
+   * Rule set used by the local classifier
+   */
+  public getRules(): ModerationRule[] {
+    return this.rules;
+  }
+
+  /**
+   * Classifiers enabled through MODERATION_CLASSIFIERS that are ready to use
+   */
+  public getActiveClassifiers(): ModerationClassifier[] {
+    return config.moderation.classifiers
+      .map((name: string) => this.classifiers.get(name))
+      .filter((classifier: ModerationClassifier | undefined): classifier is ModerationClassifier => !!classifier?.isConfigured());
+  }
+
+  /**
+   * Classify content and record the decision. A classifier that errors holds
+   * the content for review rather than letting it through unchecked.
+   */
+  public async moderate(
+    input: ModerationInput,
+    context: ModerationContext = {}
+  ): Promise<ServiceResponse<ModerationVerdict>> {
+    try {
+      if (!config.moderation.enabled) {
+        return { success: true, data: { action: 'allow', flags: [] } };
+      }
+
+      const classifiers = this.getActiveClassifiers();
+      const flags: ModerationFlag[] = [];
+
+      for (const classifier of classifiers) {
+        try {
+          flags.push(...await classifier.classify(input));
+        } catch (error) {
+          logger.warn('Moderation classifier failed', {
+            classifier: classifier.name,
+            subject: input.subject,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+
+          flags.push({
+            classifier: classifier.name,
+            category: 'other',
+            action: 'review',
+            match: 'Classifier unavailable',
+          });
+        }
+      }
+
+      return {
+        success: true,
+        data: await this.record(input, flags, classifiers.map(classifier => classifier.name), context),
+      };
+
+    } catch (error) {
+      logger.error('Moderation failed', {
+        requestId: context.requestId,
+        subject: input.subject,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Content moderation failed',
+      };
+    }
+  }
+
+  /**
+   * Record flags raised outside the classifiers, such as duplicate detection
+   */
+  public async recordFlags(
+    input: ModerationInput,
+    flags: ModerationFlag[],
+    context: ModerationContext = {}
+  ): Promise<ServiceResponse<ModerationVerdict>> {
+    try {
+      return {
+        success: true,
+        data: await this.record(input, flags, [...new Set(flags.map(flag => flag.classifier))], context),
+      };
+
+    } catch (error) {
+      logger.error('Failed to record moderation flags', {
+        requestId: context.requestId,
+        subject: input.subject,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Content moderation failed',
+      };
+    }
+  }
+
+  /**
+   * Decisions waiting for an admin, oldest first
+   */
+  public async getReviewQueue(pagination: PaginationQuery = {}): Promise<ServiceResponse<DecisionPage>> {
+    try {
+      const page = Math.max(1, pagination.page || 1);
+      const limit = Math.min(100, Math.max(1, pagination.limit || 20));
+
+      const [decisions, totalCount] = await Promise.all([
+        ModerationDecision.findPendingReviews({ skip: (page - 1) * limit, limit }),
+        ModerationDecision.countDocuments({ 'review.status': 'pending' }),
+      ]);
+
+      return {
+        success: true,
+        data: this.toPage(decisions.map(decision => decision.toJSON()), page, limit, totalCount),
+      };
+
+    } catch (error) {
+      logger.error('Failed to get moderation review queue', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve review queue',
+      };
+    }
+  }
+
+  /**
+   * Audit log of moderation decisions, newest first
+   */
+  public async getDecisions(
+    filters: ModerationDecisionFilters = {},
+    pagination: PaginationQuery = {}
+  ): Promise<ServiceResponse<DecisionPage>> {
+    try {
+      const page = Math.max(1, pagination.page || 1);
+      const limit = Math.min(100, Math.max(1, pagination.limit || 20));
+
+      const query = {
+        ...(filters.requestId ? { requestId: filters.requestId } : {}),
+        ...(filters.walletAddress ? { walletAddress: filters.walletAddress.toLowerCase() } : {}),
+        ...(filters.subject ? { subject: filters.subject } : {}),
+        ...(filters.action ? { action: filters.action } : {}),
+      };
+
+      const [decisions, totalCount] = await Promise.all([
+        ModerationDecision.find(query)
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        ModerationDecision.countDocuments(query),
+      ]);
+
+      return {
+        success: true,
+        data: this.toPage(decisions.map(decision => decision.toJSON()), page, limit, totalCount),
+      };
+
+    } catch (error) {
+      logger.error('Failed to get moderation decisions', {
+        filters,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve moderation decisions',
+      };
+    }
+  }
+
+  /**
+   * Get a single decision
+   */
+  public async getDecision(decisionId: string): Promise<ServiceResponse<IModerationDecision>> {
+    try {
+      const decision = Types.ObjectId.isValid(decisionId) ? await ModerationDecision.findById(decisionId) : null;
+
+      if (!decision) {
+        return {
+          success: false,
+          error: 'Moderation decision not found',
+          code: 'NOT_FOUND',
+        };
+      }
+
+      return {
+        success: true,
+        data: decision.toJSON(),
+      };
+
+    } catch (error) {
+      logger.error('Failed to get moderation decision', {
+        decisionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve moderation decision',
+      };
+    }
+  }
+
+  /**
+   * Image a decision was made on, while its draft is still kept
+   */
+  public async getDecisionImage(decisionId: string): Promise<ServiceResponse<{ contentType: string; data: Buffer }>> {
+    try {
+      const decision = Types.ObjectId.isValid(decisionId) ? await ModerationDecision.findById(decisionId) : null;
+      const draft = decision?.draftId ? await GenerationDraft.findById(decision.draftId) : null;
+
+      if (!draft) {
+        return {
+          success: false,
+          error: decision ? 'Image is no longer available' : 'Moderation decision not found',
+          code: 'NOT_FOUND',
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          contentType: draft.contentType,
+          data: draft.data,
+        },
+      };
+
+    } catch (error) {
+      logger.error('Failed to get moderation decision image', {
+        decisionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve image',
+      };
+    }
+  }
+
+  /**
+   * Record an admin's verdict on a pending decision
+   */
+  public async recordReview(
+    decisionId: string,
+    reviewer: string,
+    status: 'approved' | 'rejected',
+    note?: string
+  ): Promise<ServiceResponse<IModerationDecision>> {
+    try {
+      const decision = Types.ObjectId.isValid(decisionId)
+        ? await ModerationDecision.findOneAndUpdate(
+            { _id: decisionId, 'review.status': 'pending' },
+            {
+              $set: {
+                review: {
+                  status,
+                  reviewedBy: reviewer.toLowerCase(),
+                  reviewedAt: new Date(),
+                  ...(note ? { note } : {}),
+                },
+              },
+            },
+            { new: true }
+          )
+        : null;
+
+      if (!decision) {
+        const exists = Types.ObjectId.isValid(decisionId) && await ModerationDecision.exists({ _id: decisionId });
+        return {
+          success: false,
+          error: exists ? 'Moderation decision is not pending review' : 'Moderation decision not found',
+          code: exists ? 'INVALID_STATUS' : 'NOT_FOUND',
+        };
+      }
+
+      logger.info('Moderation decision reviewed', {
+        decisionId,
+        requestId: decision.requestId,
+        status,
+        reviewer,
+      });
+
+      return {
+        success: true,
+        data: decision.toJSON(),
+      };
+
+    } catch (error) {
+      logger.error('Failed to record moderation review', {
+        decisionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to record review',
+      };
+    }
+  }
+
+  /**
+   * Close pending reviews of a request that no longer needs them
+   */
+  public async dismissPending(requestId: string, note: string): Promise<number> {
+    const result = await ModerationDecision.updateMany(
+      { requestId, 'review.status': 'pending' },
+      { $set: { review: { status: 'dismissed', reviewedAt: new Date(), note } } }
+    );
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Whether a request still has content waiting for an admin
+   */
+  public async hasPendingReviews(requestId: string): Promise<boolean> {
+    return (await ModerationDecision.findPendingByRequest(requestId)).length > 0;
+  }
+
+  /**
+   * Whether an admin already approved this draft for the request
+   */
+  public async isApproved(requestId: string, draftId: Types.ObjectId | string): Promise<boolean> {
+    return !!(await ModerationDecision.exists({ requestId, draftId, 'review.status': 'approved' }));
+  }
+
+  private async record(
+    input: ModerationInput,
+    flags: ModerationFlag[],
+    classifiers: string[],
+    context: ModerationContext
+  ): Promise<ModerationVerdict> {
+    let action: ModerationAction = flags.some(flag => flag.action === 'block')
+      ? 'block'
+      : flags.length > 0 ? 'review' : 'allow';
+
+    if (action === 'review' && context.reviewable === false) {
+      action = 'block';
+    }
+
+    const hash = crypto.createHash('sha256');
+    if (input.text) hash.update(input.text);
+    if (input.image) hash.update(input.image);
+
+    const decision = await ModerationDecision.create({
+      ...(context.requestId ? { requestId: context.requestId } : {}),
+      ...(context.walletAddress ? { walletAddress: context.walletAddress } : {}),
+      ...(context.draftId ? { draftId: context.draftId } : {}),
+      subject: input.subject,
+      action,
+      flags,
+      classifiers,
+      contentHash: hash.digest('hex'),
+      ...(input.text ? { excerpt: input.text.substring(0, 2000) } : {}),
+      ...(action === 'review' ? { review: { status: 'pending' } } : {}),
+    });
+
+    if (action !== 'allow') {
+      logger.warn('Content flagged by moderation', {
+        decisionId: decision._id.toString(),
+        requestId: context.requestId,
+        subject: input.subject,
+        action,
+        categories: [...new Set(flags.map(flag => flag.category))],
+      });
+    }
+
+    return {
+      decisionId: decision._id.toString(),
+      action,
+      flags,
+    };
+  }
+
+  private toPage(decisions: IModerationDecision[], page: number, limit: number, totalCount: number): DecisionPage {
+    const totalPages = Math.ceil(totalCount / limit);
+
+    return {
+      decisions,
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems: totalCount,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+}
+
+// Export singleton instance
+export const moderationService = new ModerationService();
\ No newline at end of file
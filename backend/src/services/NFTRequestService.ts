@@ -1,14 +1,31 @@
 import { NFTRequest, INFTRequestDocument } from '@/models/NFTRequest';
+import { GenerationDraft, IGenerationDraftDocument } from '@/models/GenerationDraft';
 import { User } from '@/models/User';
+import { config } from '@/config/env';
 import { blockchainService } from './BlockchainService';
-import { aiService } from './AIService';
+import { aiService, ArtworkVariant } from './AIService';
+import { imageProviderRegistry } from './ImageProviderService';
+import { moderationService } from './ModerationService';
+import { generationCacheService, toDuplicateFlag } from './GenerationCacheService';
+import { generationQueue, QueuedJob } from './JobQueueService';
+import { webhookService } from './WebhookService';
+import { responseCacheService } from './ResponseCacheService';
+import { usageService } from './UsageService';
 import { 
   INFTRequest, 
   RequestStatus, 
   NFTRequestBody, 
   ServiceResponse, 
   PaginationQuery,
-  BlockchainData 
+  BlockchainData,
+  GenerationOptions,
+  AIGenerationRequest,
+  ImageProviderName,
+  IModerationDecision,
+  ReferenceImageInput,
+  ReferenceImageOptions,
+  ReferenceUploads,
+  UsageItem
 } from '@/types';
 import { logger } from '@/utils/logger';
 
@@ -18,7 +35,8 @@ export class NFTRequestService {
    */
   public async createRequest(
     walletAddress: string,
-    requestData: NFTRequestBody
+    requestData: NFTRequestBody,
+    uploads: ReferenceUploads = {}
   ): Promise<ServiceResponse<INFTRequest>> {
     try {
       logger.info('Creating NFT request', { 
@@ -45,10 +63,56 @@ export class NFTRequestService {
         };
       }
 
+      // Validate the requested image provider can serve it
+      if (requestData.provider && !imageProviderRegistry.isAvailable(requestData.provider)) {
+        return {
+          success: false,
+          error: `Image provider '${requestData.provider}' is not available`,
+          code: 'PROVIDER_UNAVAILABLE',
+        };
+      }
+
       // Generate unique request ID
       const requestId = this.generateRequestId(walletAddress, requestData.prompt);
 
-      // Create request record
+      // Screen the prompt and the traits that end up in the metadata
+      const promptVerdict = await moderationService.moderate({
+        subject: 'prompt',
+        text: this.describeForModeration(requestData),
+      }, { requestId, walletAddress });
+
+      if (!promptVerdict.success || !promptVerdict.data) {
+        return {
+          success: false,
+          error: promptVerdict.error || 'Content moderation failed',
+        };
+      }
+
+      if (promptVerdict.data.action === 'block') {
+        return {
+          success: false,
+          error: 'Prompt was blocked by content moderation',
+          code: 'CONTENT_BLOCKED',
+        };
+      }
+
+      const underReview = promptVerdict.data.action === 'review';
+
+      // Pin the reference image so the queued job (and the metadata) can use it
+      const referenceResult = await this.prepareReference(requestId, walletAddress, requestData, uploads);
+      if (!referenceResult.success) {
+        if (underReview) {
+          await moderationService.dismissPending(requestId, 'Request was not created');
+        }
+
+        return {
+          success: false,
+          error: referenceResult.error || 'Invalid reference image',
+          ...(referenceResult.code ? { code: referenceResult.code } : {}),
+        };
+      }
+
+      // Create request record (flagged prompts wait for an admin before anything is generated)
       const nftRequest = new NFTRequest({
         requestId,
         userId: user._id,
@@ -56,15 +120,29 @@ export class NFTRequestService {
         prompt: requestData.prompt,
         destinationChainId: requestData.destinationChainId,
         recipient: requestData.recipient || walletAddress,
-        status: RequestStatus.PENDING,
+        status: underReview ? RequestStatus.UNDER_REVIEW : RequestStatus.PENDING,
+        generationOptions: this.buildGenerationOptions(requestData, referenceResult.data),
       });
 
       await nftRequest.save();
+      await responseCacheService.invalidate('requests');
+      await webhookService.dispatch('request.created', nftRequest.walletAddress, {
+        requestId,
+        prompt: nftRequest.prompt,
+        destinationChainId: nftRequest.destinationChainId,
+        recipient: nftRequest.recipient,
+        status: nftRequest.status,
+      });
+
+      if (!underReview) {
+        await generationQueue.enqueue(requestId);
+      }
 
       logger.info('NFT request created successfully', {
         requestId,
         userId: user._id,
         walletAddress,
+        status: nftRequest.status,
       });
 
       return {
@@ -85,6 +163,82 @@ export class NFTRequestService {
     }
   }
 
+  /**
+   * Screen and pin the uploaded reference image, if any. Uploads are not kept
+   * anywhere but IPFS, so they cannot wait for review; anything flagged is refused.
+   */
+  private async prepareReference(
+    requestId: string,
+    walletAddress: string,
+    requestData: NFTRequestBody,
+    uploads: ReferenceUploads
+  ): Promise<ServiceResponse<ReferenceImageOptions | undefined>> {
+    if (!uploads.referenceImage && !uploads.mask && !requestData.referenceMode) {
+      return { success: true };
+    }
+
+    const mode = requestData.referenceMode || 'variation';
+
+    if (requestData.provider && !imageProviderRegistry.isAvailable(requestData.provider, mode)) {
+      return {
+        success: false,
+        error: `Image provider '${requestData.provider}' does not support ${mode} references`,
+        code: 'PROVIDER_UNAVAILABLE',
+      };
+    }
+
+    if (uploads.referenceImage?.buffer) {
+      const verdict = await moderationService.moderate({
+        subject: 'reference',
+        image: uploads.referenceImage.buffer,
+        contentType: uploads.referenceImage.mimetype,
+      }, { requestId, walletAddress, reviewable: false });
+
+      if (!verdict.success || !verdict.data) {
+        return {
+          success: false,
+          error: verdict.error || 'Content moderation failed',
+        };
+      }
+
+      if (verdict.data.action !== 'allow') {
+        return {
+          success: false,
+          error: 'Reference image was blocked by content moderation',
+          code: 'CONTENT_BLOCKED',
+        };
+      }
+    }
+
+    const usage: UsageItem[] = [];
+    const referenceResult = await aiService.prepareReference(uploads, mode, requestData.referenceStrength, usage);
+    await usageService.record(usage, { requestId, walletAddress });
+
+    if (!referenceResult.success || !referenceResult.data) {
+      return {
+        success: false,
+        error: referenceResult.error || 'Invalid reference image',
+        code: 'INVALID_REFERENCE',
+      };
+    }
+
+    return {
+      success: true,
+      data: referenceResult.data,
+    };
+  }
+
+  /**
+   * Text of a request that moderation looks at
+   */
+  private describeForModeration(requestData: NFTRequestBody): string {
+    return [
+      requestData.prompt,
+      requestData.style,
+      ...(requestData.attributes || []).map(attribute => `${attribute.trait_type}: ${attribute.value}`),
+    ].filter(Boolean).join('\n');
+  }
+
   /**
    * Get request by ID
    */
@@ -207,113 +361,466 @@ export class NFTRequestService {
   }
 
   /**
-   * Process pending requests (AI generation)
+   * Queue pending requests that have no job yet (admin/system trigger)
    */
   public async processPendingRequests(batchSize: number = 5): Promise<ServiceResponse<{
-    processed: number;
-    failed: number;
+    enqueued: number;
+    skipped: number;
   }>> {
     try {
-      logger.info('Processing pending requests', { batchSize });
+      logger.info('Queueing pending requests', { batchSize });
 
       const pendingRequests = await NFTRequest.findPendingRequests(batchSize);
-      
-      if (pendingRequests.length === 0) {
-        return {
-          success: true,
-          data: { processed: 0, failed: 0 },
-        };
-      }
 
-      let processed = 0;
-      let failed = 0;
-
-      // Process requests concurrently with limit
-      const processingPromises = pendingRequests.map(async (request) => {
-        try {
-          await this.processAIGeneration(request);
-          processed++;
-        } catch (error) {
-          logger.error('Failed to process request', {
-            requestId: request.requestId,
-            error: error instanceof Error ? error.message : 'Unknown error',
-          });
-          failed++;
-          
-          // Mark request as failed
-          await request.updateStatus(RequestStatus.FAILED, 
-            error instanceof Error ? error.message : 'AI generation failed'
-          );
+      let enqueued = 0;
+      for (const request of pendingRequests) {
+        if (await generationQueue.enqueue(request.requestId)) {
+          enqueued++;
         }
+      }
+
+      logger.info('Pending requests queued', { enqueued, skipped: pendingRequests.length - enqueued });
+
+      return {
+        success: true,
+        data: { enqueued, skipped: pendingRequests.length - enqueued },
+      };
+
+    } catch (error) {
+      logger.error('Failed to queue pending requests', {
+        error: error instanceof Error ? error.message : 'Unknown error',
       });
 
-      await Promise.all(processingPromises);
+      return {
+        success: false,
+        error: 'Batch queueing failed',
+      };
+    }
+  }
+
+  /**
+   * Re-queue requests left behind by a crashed or restarted worker.
+   * Requests stuck in PROCESSING without a live job lease are reset to PENDING.
+   */
+  public async recoverStalledRequests(): Promise<ServiceResponse<{
+    recovered: number;
+    requeued: number;
+  }>> {
+    try {
+      const candidates = await NFTRequest.find({
+        status: { $in: [RequestStatus.PENDING, RequestStatus.PROCESSING, RequestStatus.AI_COMPLETED] },
+      }).select('requestId status').sort({ createdAt: 1 });
 
-      logger.info('Batch processing completed', { processed, failed });
+      let recovered = 0;
+      let requeued = 0;
+
+      for (const request of candidates) {
+        if (await generationQueue.isRunning(request.requestId)) {
+          continue;
+        }
+
+        if (request.status === RequestStatus.PROCESSING) {
+          await request.updateStatus(RequestStatus.PENDING, 'Recovered after worker interruption');
+          recovered++;
+        }
+
+        if (await generationQueue.enqueue(request.requestId)) {
+          requeued++;
+        }
+      }
+
+      logger.info('Stalled request recovery completed', { recovered, requeued });
 
       return {
         success: true,
-        data: { processed, failed },
+        data: { recovered, requeued },
       };
 
     } catch (error) {
-      logger.error('Failed to process pending requests', {
+      logger.error('Failed to recover stalled requests', {
         error: error instanceof Error ? error.message : 'Unknown error',
       });
 
       return {
         success: false,
-        error: 'Batch processing failed',
+        error: 'Recovery failed',
       };
     }
   }
 
   /**
-   * Process AI generation for a single request
+   * Process a request claimed by the generation queue
    */
-  private async processAIGeneration(request: INFTRequestDocument): Promise<void> {
-    logger.info('Starting AI generation', { requestId: request.requestId });
+  public async processQueuedRequest(job: QueuedJob): Promise<void> {
+    const request = await NFTRequest.findByRequestId(job.requestId);
 
-    // Update status to processing
-    await request.updateStatus(RequestStatus.PROCESSING);
+    if (!request) {
+      logger.warn('Queued request no longer exists', { requestId: job.requestId });
+      return;
+    }
 
-    // Generate AI artwork
-    const aiResult = await aiService.generateNFTArtwork({
-      prompt: request.prompt,
-      style: 'artistic', // Can be made configurable
-    });
+    if (![RequestStatus.PENDING, RequestStatus.PROCESSING, RequestStatus.AI_COMPLETED].includes(request.status)) {
+      logger.info('Skipping queued request in terminal or later status', {
+        requestId: job.requestId,
+        status: request.status,
+      });
+      return;
+    }
 
-    if (!aiResult.success || !aiResult.data) {
-      throw new Error(aiResult.error || 'AI generation failed');
+    await this.processAIGeneration(request);
+  }
+
+  /**
+   * Put a request back to PENDING while its job waits for the next attempt
+   */
+  public async markRequestForRetry(job: QueuedJob, error: string): Promise<void> {
+    const request = await NFTRequest.findByRequestId(job.requestId);
+
+    if (request && request.status === RequestStatus.PROCESSING) {
+      await request.updateStatus(RequestStatus.PENDING, error);
     }
+  }
 
-    // Update request with AI generation data
-    await request.setAIGenerationData({
-      model: 'gemini-pro',
-      generatedImageUrl: aiResult.data.imageUrl,
-      ipfsHash: aiResult.data.ipfsHash,
-      tokenURI: aiResult.data.tokenURI,
-      processingTime: aiResult.data.processingTime,
-      retryCount: 0,
-    });
+  /**
+   * Fail a request whose job exhausted its attempts
+   */
+  public async failDeadRequest(job: QueuedJob, error: string): Promise<void> {
+    const request = await NFTRequest.findByRequestId(job.requestId);
+
+    if (request && request.status !== RequestStatus.CANCELLED) {
+      await request.updateStatus(
+        RequestStatus.FAILED,
+        `Generation failed after ${job.attempts} attempts: ${error}`.substring(0, 500)
+      );
+    }
+  }
+
+  /**
+   * Process AI generation for a single request and add what it used to the cost ledger.
+   * Whatever was generated or pinned is paid for, even when a later step fails.
+   */
+  private async processAIGeneration(request: INFTRequestDocument): Promise<void> {
+    const usage: UsageItem[] = [];
 
-    await request.setMetadata(aiResult.data.metadata);
-    await request.updateStatus(RequestStatus.AI_COMPLETED);
+    try {
+      await this.runAIGeneration(request, usage);
+    } finally {
+      await usageService.record(usage, { requestId: request.requestId, walletAddress: request.walletAddress });
+    }
+  }
+
+  /**
+   * Resumes from AI_COMPLETED so a retried job does not pay for a second generation.
+   * Multi-variant requests first stop in AWAITING_SELECTION; once the owner has
+   * picked a draft the next run pins that draft instead of generating again.
+   * Every image is moderated before it is pinned.
+   */
+  private async runAIGeneration(request: INFTRequestDocument, usage: UsageItem[]): Promise<void> {
+    let tokenURI = request.aiGenerationData?.tokenURI;
+
+    if (request.status !== RequestStatus.AI_COMPLETED || !tokenURI) {
+      const generationRequest = { ...(await this.buildGenerationRequest(request)), usage };
+      const variantCount = request.generationOptions?.variants || config.ai.variants.default;
+      const cacheKey = generationCacheService.buildKey(generationRequest);
+
+      // A selection whose draft has expired falls back to a fresh round of variants
+      if (request.selectedVariantId && !(await GenerationDraft.exists({ _id: request.selectedVariantId }))) {
+        logger.warn('Selected variant no longer exists, regenerating', { requestId: request.requestId });
+        request.set('selectedVariantId', undefined);
+      }
+
+      if (variantCount > 1 && !request.selectedVariantId) {
+        await this.generateDrafts(request, generationRequest, variantCount);
+        return;
+      }
+
+      logger.info('Starting AI generation', { requestId: request.requestId });
+
+      // Update status to processing (the owner was already told when a selection is pinned)
+      if (!(await this.advance(request, RequestStatus.PROCESSING, !request.selectedVariantId))) {
+        return;
+      }
+
+      // A single image is kept as a draft too, so a review or a retry does not generate it again.
+      // Owners who opt in get the image they already had made from identical settings.
+      if (!request.selectedVariantId) {
+        const reuseCached = request.generationOptions?.reuseCached ?? config.ai.cache.reuseByDefault;
+        const cached = reuseCached ? await generationCacheService.lookup(cacheKey, request.walletAddress) : null;
+
+        const [generated] = cached
+          ? await this.storeDrafts(request, [cached], true)
+          : await this.storeDrafts(request, await this.generateVariants(generationRequest, 1));
+
+        request.selectedVariantId = generated!._id;
+        await request.save();
+      }
+
+      const draft = await GenerationDraft.findById(request.selectedVariantId);
+      if (!draft) {
+        throw new Error('Selected variant no longer exists');
+      }
+
+      const perceptualHash = await generationCacheService.fingerprint(draft.data);
+
+      if (!(await this.moderateDraft(request, draft, perceptualHash))) {
+        return;
+      }
+
+      const aiResult = await aiService.finalizeArtwork(generationRequest, {
+        data: draft.data,
+        contentType: draft.contentType,
+        provider: draft.provider,
+        model: draft.imageModel,
+        ...(draft.description ? { description: draft.description } : {}),
+      });
+
+      if (!aiResult.success || !aiResult.data) {
+        throw new Error(aiResult.error || 'AI generation failed');
+      }
+
+      // Update request with AI generation data
+      await request.setAIGenerationData({
+        provider: aiResult.data.provider,
+        model: aiResult.data.model,
+        generatedImageUrl: aiResult.data.imageUrl,
+        ipfsHash: aiResult.data.ipfsHash,
+        tokenURI: aiResult.data.tokenURI,
+        processingTime: aiResult.data.processingTime,
+        retryCount: request.aiGenerationData?.retryCount || 0,
+        cacheHit: !!draft.cached,
+        ...(perceptualHash ? { perceptualHash } : {}),
+      });
+
+      // Remember the pinned image for reuse and for duplicate checks
+      await generationCacheService.remember({
+        key: cacheKey,
+        requestId: request.requestId,
+        walletAddress: request.walletAddress,
+        imageHash: aiResult.data.ipfsHash,
+        image: {
+          contentType: draft.contentType,
+          provider: draft.provider,
+          model: draft.imageModel,
+          ...(draft.description ? { description: draft.description } : {}),
+        },
+        perceptualHash,
+      });
+
+      await request.setMetadata(aiResult.data.metadata);
+      if (!(await this.advance(request, RequestStatus.AI_COMPLETED))) {
+        return;
+      }
+
+      // The chosen image is pinned now, the other drafts are no longer needed
+      await GenerationDraft.deleteByRequest(request.requestId);
+
+      tokenURI = aiResult.data.tokenURI;
+    }
 
     // Complete AI generation on blockchain
     const blockchainResult = await blockchainService.completeAIGeneration(
       request.requestId,
-      aiResult.data.tokenURI
+      tokenURI
     );
 
     if (!blockchainResult.success) {
       throw new Error(blockchainResult.error || 'Blockchain completion failed');
     }
 
+    if (!(await this.advance(request, RequestStatus.CROSS_CHAIN_PENDING))) {
+      return;
+    }
+
     logger.info('AI generation completed successfully', { 
       requestId: request.requestId,
-      tokenURI: aiResult.data.tokenURI,
+      tokenURI,
+    });
+  }
+
+  /**
+   * Generation parameters chosen when the request was created
+   */
+  private async buildGenerationRequest(request: INFTRequestDocument): Promise<AIGenerationRequest> {
+    const options = request.generationOptions;
+
+    let reference: ReferenceImageInput | undefined;
+    if (options?.reference) {
+      const referenceResult = await aiService.loadReference(options.reference);
+      if (!referenceResult.success || !referenceResult.data) {
+        throw new Error(referenceResult.error || 'Failed to load reference image');
+      }
+      reference = referenceResult.data;
+    }
+
+    return {
+      prompt: request.prompt,
+      style: options?.style || 'artistic',
+      ...(options?.attributes?.length ? {
+        attributes: options.attributes.map(({ trait_type, value, display_type, max_value }) => ({
+          trait_type,
+          value,
+          ...(display_type ? { display_type } : {}),
+          ...(max_value !== undefined && max_value !== null ? { max_value } : {}),
+        })),
+      } : {}),
+      ...(options?.provider ? { provider: options.provider } : {}),
+      ...(options?.model ? { model: options.model } : {}),
+      ...(options?.size ? { size: options.size } : {}),
+      ...(options?.quality ? { quality: options.quality } : {}),
+      ...(reference ? { reference } : {}),
+      ...(options?.metadataProfile ? { metadataProfile: options.metadataProfile } : {}),
+    };
+  }
+
+  /**
+   * Generate a round of candidate images and wait for the owner to pick one
+   */
+  private async generateDrafts(
+    request: INFTRequestDocument,
+    generationRequest: AIGenerationRequest,
+    count: number
+  ): Promise<void> {
+    logger.info('Starting variant generation', { requestId: request.requestId, count });
+
+    if (!(await this.advance(request, RequestStatus.PROCESSING))) {
+      return;
+    }
+
+    const drafts = await this.storeDrafts(request, await this.generateVariants(generationRequest, count));
+    if (!(await this.advance(request, RequestStatus.AWAITING_SELECTION))) {
+      return;
+    }
+
+    logger.info('Variants ready for selection', {
+      requestId: request.requestId,
+      round: request.variantRound,
+      variants: drafts.length,
+    });
+  }
+
+  private async generateVariants(
+    generationRequest: AIGenerationRequest,
+    count: number
+  ): Promise<Array<ArtworkVariant & { data: Buffer }>> {
+    const result = await aiService.generateVariants(generationRequest, count);
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Variant generation failed');
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Keep images as the request's next round of drafts
+   */
+  private async storeDrafts(
+    request: INFTRequestDocument,
+    variants: Array<ArtworkVariant & { data: Buffer }>,
+    cached: boolean = false
+  ): Promise<IGenerationDraftDocument[]> {
+    const round = (request.variantRound || 0) + 1;
+    const expiresAt = new Date(Date.now() + config.ai.variants.draftTtlMs);
+
+    // Replace drafts from an earlier round or an interrupted attempt
+    await GenerationDraft.deleteByRequest(request.requestId);
+    const drafts = await GenerationDraft.insertMany(variants.map((variant, index) => ({
+      requestId: request.requestId,
+      round,
+      index,
+      provider: variant.provider,
+      imageModel: variant.model,
+      ...(variant.description ? { description: variant.description } : {}),
+      contentType: variant.contentType,
+      data: variant.data,
+      size: variant.data.length,
+      ...(cached ? { cached } : {}),
+      expiresAt,
+    })));
+
+    request.variantRound = round;
+
+    return drafts;
+  }
+
+  /**
+   * Check the image about to be pinned. Flagged images hold the request for an
+   * admin; blocked ones fail it so the owner can retry with a fresh image.
+   * Near-identical artwork already pinned for another wallet is flagged the same way.
+   */
+  private async moderateDraft(
+    request: INFTRequestDocument,
+    draft: IGenerationDraftDocument,
+    perceptualHash?: string
+  ): Promise<boolean> {
+    if (await moderationService.isApproved(request.requestId, draft._id)) {
+      return true;
+    }
+
+    const input = {
+      subject: 'image' as const,
+      image: draft.data,
+      contentType: draft.contentType,
+      text: draft.description,
+    };
+    const context = {
+      requestId: request.requestId,
+      walletAddress: request.walletAddress,
+      draftId: draft._id,
+    };
+
+    let verdict = await moderationService.moderate(input, context);
+    let reason = 'Generated image was blocked by content moderation';
+
+    if (verdict.success && verdict.data?.action === 'allow' && perceptualHash) {
+      const duplicate = await generationCacheService.findDuplicate(perceptualHash, request.walletAddress, request.requestId);
+
+      if (duplicate) {
+        verdict = await moderationService.recordFlags(input, [toDuplicateFlag(duplicate)], context);
+        reason = 'Generated image duplicates an existing artwork';
+      }
+    }
+
+    if (!verdict.success || !verdict.data) {
+      throw new Error(verdict.error || 'Content moderation failed');
+    }
+
+    if (verdict.data.action === 'allow') {
+      return true;
+    }
+
+    if (verdict.data.action === 'review') {
+      // Keep the image until an admin has looked at it
+      draft.expiresAt = new Date(Date.now() + config.moderation.reviewTtlMs);
+      await draft.save();
+
+      if (await this.advance(request, RequestStatus.UNDER_REVIEW)) {
+        logger.info('Generated image held for review', { requestId: request.requestId, draftId: draft._id });
+      }
+      return false;
+    }
+
+    await GenerationDraft.deleteByRequest(request.requestId);
+    request.set('selectedVariantId', undefined);
+    request.errorMessage = reason;
+    await this.advance(request, RequestStatus.FAILED);
+    return false;
+  }
+
+  /**
+   * Move a request the worker holds on to its next status. Returns false when
+   * its status changed since the worker loaded it, e.g. the owner cancelled;
+   * the worker then stops instead of overwriting that change.
+   */
+  private async advance(request: INFTRequestDocument, status: RequestStatus, notify: boolean = true): Promise<boolean> {
+    if (await request.advanceStatus(status, notify)) {
+      return true;
+    }
+
+    logger.info('Request status changed during generation, stopping', {
+      requestId: request.requestId,
+      status,
     });
+    return false;
   }
 
   /**
@@ -340,14 +847,30 @@ export class NFTRequestService {
         };
       }
 
-      if (![RequestStatus.PENDING, RequestStatus.PROCESSING].includes(request.status)) {
+      if (![
+        RequestStatus.PENDING,
+        RequestStatus.PROCESSING,
+        RequestStatus.AWAITING_SELECTION,
+        RequestStatus.UNDER_REVIEW,
+      ].includes(request.status)) {
         return {
           success: false,
           error: 'Request cannot be cancelled in current status',
         };
       }
 
+      // A running job holds its own copy of the request and would carry on with it
+      if (await generationQueue.isRunning(requestId)) {
+        return {
+          success: false,
+          error: 'Request is being processed',
+          code: 'JOB_RUNNING',
+        };
+      }
+
       await request.updateStatus(RequestStatus.CANCELLED);
+      await GenerationDraft.deleteByRequest(requestId);
+      await moderationService.dismissPending(requestId, 'Request was cancelled');
 
       logger.info('Request cancelled successfully', { requestId, walletAddress });
 
@@ -419,6 +942,8 @@ export class NFTRequestService {
         });
       }
 
+      await generationQueue.enqueue(requestId);
+
       logger.info('Request marked for retry', { 
         requestId, 
         walletAddress,
@@ -441,6 +966,434 @@ export class NFTRequestService {
     }
   }
 
+  /**
+   * Put a request back on the generation queue on behalf of staff, ignoring
+   * ownership and the retry limit. Failed requests start again from PENDING;
+   * stalled ones are re-queued where they stopped.
+   */
+  public async forceRetryRequest(requestId: string): Promise<ServiceResponse<INFTRequest>> {
+    try {
+      const request = await NFTRequest.findByRequestId(requestId);
+
+      if (!request) {
+        return {
+          success: false,
+          error: 'Request not found',
+          code: 'NOT_FOUND',
+        };
+      }
+
+      if (![
+        RequestStatus.FAILED,
+        RequestStatus.PENDING,
+        RequestStatus.PROCESSING,
+        RequestStatus.AI_COMPLETED,
+      ].includes(request.status)) {
+        return {
+          success: false,
+          error: `Requests in status ${request.status} cannot be retried`,
+          code: 'INVALID_STATUS',
+        };
+      }
+
+      if (await generationQueue.isRunning(requestId)) {
+        return {
+          success: false,
+          error: 'Request is being processed',
+          code: 'JOB_RUNNING',
+        };
+      }
+
+      if (request.status === RequestStatus.FAILED) {
+        await request.updateStatus(RequestStatus.PENDING);
+      }
+
+      await generationQueue.enqueue(requestId);
+
+      logger.info('Request force-retried', { requestId, status: request.status });
+
+      return {
+        success: true,
+        data: request.toJSON(),
+      };
+
+    } catch (error) {
+      logger.error('Failed to force-retry request', {
+        requestId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retry request',
+      };
+    }
+  }
+
+  /**
+   * Fail a request that has not finished on behalf of staff. Pending drafts
+   * and reviews are dropped; a queued job skips the request once claimed.
+   */
+  public async forceFailRequest(requestId: string, reason: string): Promise<ServiceResponse<INFTRequest>> {
+    try {
+      const request = await NFTRequest.findByRequestId(requestId);
+
+      if (!request) {
+        return {
+          success: false,
+          error: 'Request not found',
+          code: 'NOT_FOUND',
+        };
+      }
+
+      if ([
+        RequestStatus.COMPLETED,
+        RequestStatus.FAILED,
+        RequestStatus.CANCELLED,
+        RequestStatus.REJECTED,
+      ].includes(request.status)) {
+        return {
+          success: false,
+          error: `Requests in status ${request.status} cannot be failed`,
+          code: 'INVALID_STATUS',
+        };
+      }
+
+      if (await generationQueue.isRunning(requestId)) {
+        return {
+          success: false,
+          error: 'Request is being processed',
+          code: 'JOB_RUNNING',
+        };
+      }
+
+      await request.updateStatus(RequestStatus.FAILED, reason.substring(0, 500));
+      await GenerationDraft.deleteByRequest(requestId);
+      await moderationService.dismissPending(requestId, 'Request was failed by staff');
+
+      logger.info('Request force-failed', { requestId, reason });
+
+      return {
+        success: true,
+        data: request.toJSON(),
+      };
+
+    } catch (error) {
+      logger.error('Failed to force-fail request', {
+        requestId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to fail request',
+      };
+    }
+  }
+
+  /**
+   * List the candidate images of a request awaiting selection (owner only)
+   */
+  public async getVariants(
+    requestId: string,
+    walletAddress: string
+  ): Promise<ServiceResponse<{
+    status: RequestStatus;
+    round: number;
+    regenerationsLeft: number;
+    variants: Array<{
+      id: string;
+      index: number;
+      provider: ImageProviderName;
+      model: string;
+      contentType: string;
+      size: number;
+      expiresAt: Date;
+    }>;
+  }>> {
+    try {
+      const ownership = await this.findOwnedRequest(requestId, walletAddress);
+      if (!ownership.success || !ownership.data) {
+        return { success: false, error: ownership.error || 'Request not found', code: ownership.code || 'NOT_FOUND' };
+      }
+
+      const request = ownership.data;
+      const round = request.variantRound || 0;
+      const drafts = round > 0 ? await GenerationDraft.findByRound(requestId, round) : [];
+
+      return {
+        success: true,
+        data: {
+          status: request.status,
+          round,
+          regenerationsLeft: Math.max(0, config.ai.variants.maxRegenerations - Math.max(0, round - 1)),
+          variants: drafts.map(draft => ({
+            id: draft._id.toString(),
+            index: draft.index,
+            provider: draft.provider,
+            model: draft.imageModel,
+            contentType: draft.contentType,
+            size: draft.size,
+            expiresAt: draft.expiresAt,
+          })),
+        },
+      };
+
+    } catch (error) {
+      logger.error('Failed to get request variants', {
+        requestId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to get variants',
+      };
+    }
+  }
+
+  /**
+   * Image bytes of a draft (owner only, drafts are not public until pinned)
+   */
+  public async getVariantImage(
+    requestId: string,
+    variantId: string,
+    walletAddress: string
+  ): Promise<ServiceResponse<{ contentType: string; data: Buffer }>> {
+    try {
+      const ownership = await this.findOwnedRequest(requestId, walletAddress);
+      if (!ownership.success) {
+        return { success: false, error: ownership.error || 'Request not found', code: ownership.code || 'NOT_FOUND' };
+      }
+
+      const draft = await GenerationDraft.findOne({ _id: variantId, requestId });
+      if (!draft) {
+        return {
+          success: false,
+          error: 'Variant not found',
+          code: 'NOT_FOUND',
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          contentType: draft.contentType,
+          data: draft.data,
+        },
+      };
+
+    } catch (error) {
+      logger.error('Failed to get variant image', {
+        requestId,
+        variantId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to get variant image',
+      };
+    }
+  }
+
+  /**
+   * Choose the draft to mint; only that image is pinned and committed on-chain
+   */
+  public async selectVariant(
+    requestId: string,
+    variantId: string,
+    walletAddress: string
+  ): Promise<ServiceResponse<void>> {
+    try {
+      const ownership = await this.findOwnedRequest(requestId, walletAddress, RequestStatus.AWAITING_SELECTION);
+      if (!ownership.success || !ownership.data) {
+        return { success: false, error: ownership.error || 'Request not found', code: ownership.code || 'NOT_FOUND' };
+      }
+
+      const request = ownership.data;
+
+      // The draft job may still be wrapping up; it would ignore a new enqueue
+      if (await generationQueue.isRunning(requestId)) {
+        return {
+          success: false,
+          error: 'Request is being processed',
+          code: 'JOB_RUNNING',
+        };
+      }
+
+      const draft = await GenerationDraft.findOne({ _id: variantId, requestId, round: request.variantRound });
+      if (!draft) {
+        return {
+          success: false,
+          error: 'Variant not found',
+          code: 'NOT_FOUND',
+        };
+      }
+
+      // Keep the chosen draft alive until the job has pinned it
+      draft.expiresAt = new Date(Date.now() + config.ai.variants.draftTtlMs);
+      await draft.save();
+
+      request.selectedVariantId = draft._id;
+      await request.updateStatus(RequestStatus.PENDING);
+      await generationQueue.enqueue(requestId);
+
+      logger.info('Variant selected', { requestId, variantId, walletAddress });
+
+      return { success: true };
+
+    } catch (error) {
+      logger.error('Failed to select variant', {
+        requestId,
+        variantId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to select variant',
+      };
+    }
+  }
+
+  /**
+   * Discard the current drafts and generate a new round of variants
+   */
+  public async regenerateVariants(
+    requestId: string,
+    walletAddress: string
+  ): Promise<ServiceResponse<void>> {
+    try {
+      const ownership = await this.findOwnedRequest(requestId, walletAddress, RequestStatus.AWAITING_SELECTION);
+      if (!ownership.success || !ownership.data) {
+        return { success: false, error: ownership.error || 'Request not found', code: ownership.code || 'NOT_FOUND' };
+      }
+
+      const request = ownership.data;
+      const regenerations = Math.max(0, (request.variantRound || 0) - 1);
+      if (regenerations >= config.ai.variants.maxRegenerations) {
+        return {
+          success: false,
+          error: 'Maximum regenerations reached',
+          code: 'LIMIT_REACHED',
+        };
+      }
+
+      if (await generationQueue.isRunning(requestId)) {
+        return {
+          success: false,
+          error: 'Request is being processed',
+          code: 'JOB_RUNNING',
+        };
+      }
+
+      await GenerationDraft.deleteByRequest(requestId);
+      await request.updateStatus(RequestStatus.PENDING);
+      await generationQueue.enqueue(requestId);
+
+      logger.info('Variants regeneration requested', { requestId, walletAddress, regenerations: regenerations + 1 });
+
+      return { success: true };
+
+    } catch (error) {
+      logger.error('Failed to regenerate variants', {
+        requestId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to regenerate variants',
+      };
+    }
+  }
+
+  /**
+   * Apply an admin's review. Approval resumes the request once nothing else is
+   * pending; rejection ends it and drops its drafts.
+   */
+  public async resolveModerationReview(
+    decisionId: string,
+    reviewer: string,
+    approved: boolean,
+    note?: string
+  ): Promise<ServiceResponse<IModerationDecision>> {
+    try {
+      const reviewResult = await moderationService.recordReview(decisionId, reviewer, approved ? 'approved' : 'rejected', note);
+      if (!reviewResult.success || !reviewResult.data) {
+        return reviewResult;
+      }
+
+      const decision = reviewResult.data;
+      const request = decision.requestId ? await NFTRequest.findByRequestId(decision.requestId) : null;
+
+      // The request moved on (cancelled, or the content was never held); only the audit record changes
+      if (!request || request.status !== RequestStatus.UNDER_REVIEW) {
+        return reviewResult;
+      }
+
+      if (approved) {
+        if (!(await moderationService.hasPendingReviews(request.requestId))) {
+          await request.updateStatus(RequestStatus.PENDING);
+          await generationQueue.enqueue(request.requestId);
+        }
+      } else {
+        await moderationService.dismissPending(request.requestId, 'Request was rejected');
+        await GenerationDraft.deleteByRequest(request.requestId);
+        await request.updateStatus(
+          RequestStatus.REJECTED,
+          note ? `Rejected in content review: ${note}`.substring(0, 500) : 'Rejected in content review'
+        );
+      }
+
+      logger.info('Moderation review applied', {
+        decisionId,
+        requestId: request.requestId,
+        approved,
+        reviewer,
+      });
+
+      return reviewResult;
+
+    } catch (error) {
+      logger.error('Failed to apply moderation review', {
+        decisionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to apply review',
+      };
+    }
+  }
+
+  /**
+   * Load a request owned by the wallet, optionally requiring a status
+   */
+  private async findOwnedRequest(
+    requestId: string,
+    walletAddress: string,
+    status?: RequestStatus
+  ): Promise<ServiceResponse<INFTRequestDocument>> {
+    const request = await NFTRequest.findByRequestId(requestId);
+
+    if (!request) {
+      return { success: false, error: 'Request not found', code: 'NOT_FOUND' };
+    }
+
+    if (request.walletAddress !== walletAddress.toLowerCase()) {
+      return { success: false, error: 'Unauthorized: You can only manage your own requests', code: 'FORBIDDEN' };
+    }
+
+    if (status && request.status !== status) {
+      return { success: false, error: `Request is not ${status.replace(/_/g, ' ')}`, code: 'INVALID_STATUS' };
+    }
+
+    return { success: true, data: request };
+  }
+
   /**
    * Get request statistics
    */
@@ -449,9 +1402,10 @@ export class NFTRequestService {
     byStatus: Array<{ status: string; count: number }>;
     byChain: Array<{ chainId: number; count: number }>;
     recentRequests: number;
+    queue: Record<string, string | number>;
   }>> {
     try {
-      const [statusStats, chainStats, totalRequests, recentRequests] = await Promise.all([
+      const [statusStats, chainStats, totalRequests, recentRequests, queueStats] = await Promise.all([
         NFTRequest.getRequestStats(),
         NFTRequest.aggregate([
           { $group: { _id: '$destinationChainId', count: { $sum: 1 } } },
@@ -461,6 +1415,7 @@ export class NFTRequestService {
         NFTRequest.countDocuments({
           createdAt: { $gte: new Date(Date.now() - 24 * 60 * 60 * 1000) }
         }),
+        generationQueue.getStats(),
       ]);
 
       return {
@@ -470,6 +1425,7 @@ export class NFTRequestService {
           byStatus: statusStats.map(stat => ({ status: stat._id, count: stat.count })),
           byChain: chainStats.map(stat => ({ chainId: stat._id, count: stat.count })),
           recentRequests,
+          queue: queueStats,
         },
       };
 
@@ -530,6 +1486,29 @@ export class NFTRequestService {
     }
   }
 
+  /**
+   * Collect the generation parameters supplied with a new request
+   */
+  private buildGenerationOptions(
+    requestData: NFTRequestBody,
+    reference?: ReferenceImageOptions
+  ): GenerationOptions | undefined {
+    const options: GenerationOptions = {
+      ...(requestData.style ? { style: requestData.style } : {}),
+      ...(requestData.attributes?.length ? { attributes: requestData.attributes } : {}),
+      ...(requestData.provider ? { provider: requestData.provider } : {}),
+      ...(requestData.model ? { model: requestData.model } : {}),
+      ...(requestData.size ? { size: requestData.size } : {}),
+      ...(requestData.quality ? { quality: requestData.quality } : {}),
+      ...(requestData.variants ? { variants: requestData.variants } : {}),
+      ...(reference ? { reference } : {}),
+      ...(requestData.reuseCached !== undefined ? { reuseCached: requestData.reuseCached } : {}),
+      ...(requestData.metadataProfile ? { metadataProfile: requestData.metadataProfile } : {}),
+    };
+
+    return Object.keys(options).length > 0 ? options : undefined;
+  }
+
   /**
    * Generate unique request ID
    */
@@ -0,0 +1,430 @@
+import { Types } from 'mongoose';
+import { Notification } from '@/models/Notification';
+import { User } from '@/models/User';
+import { getChainName } from '@/config/chains';
+import { logger } from '@/utils/logger';
+import { realtimeService } from './RealtimeService';
+import {
+  INFTRequest,
+  INotification,
+  NotificationType,
+  PaginationQuery,
+  RequestStatus,
+  ServiceResponse,
+} from '@/types';
+
+export interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  message: string;
+  actionUrl?: string;
+  data?: INotification['data'];
+}
+
+export interface NotificationRecipient {
+  userId?: Types.ObjectId | string | undefined;
+  walletAddress?: string | undefined;
+}
+
+export interface NotificationQuery extends PaginationQuery {
+  unreadOnly?: boolean;
+  type?: NotificationType;
+}
+
+export type NotifiableRequest = Pick<INFTRequest, 'requestId' | 'walletAddress' | 'status' | 'prompt' | 'destinationChainId'> & {
+  userId?: unknown;
+  metadata?: { name?: string } | undefined;
+  errorMessage?: string | undefined;
+};
+
+export type CollectionEvent = 'created' | 'deactivated' | 'supply_updated' | 'metadata_frozen';
+
+export class NotificationService {
+  /**
+   * Create a notification for a user, unless their preferences opt out of its type
+   */
+  public async notify(
+    recipient: NotificationRecipient,
+    input: NotificationInput
+  ): Promise<ServiceResponse<INotification | null>> {
+    try {
+      const user = recipient.userId
+        ? await User.findById(recipient.userId)
+        : recipient.walletAddress ? await User.findByWallet(recipient.walletAddress) : null;
+
+      if (!user) {
+        return {
+          success: false,
+          error: 'Notification recipient not found',
+        };
+      }
+
+      if (!this.isTypeEnabled(user.preferences, input.type)) {
+        logger.debug('Notification suppressed by user preferences', {
+          userId: user._id,
+          type: input.type,
+        });
+        return { success: true, data: null };
+      }
+
+      const notification = await Notification.create({
+        userId: user._id,
+        ...input,
+      });
+      const data = notification.toObject() as INotification;
+
+      await realtimeService.publishNotification(user.walletAddress, data);
+
+      return {
+        success: true,
+        data,
+      };
+
+    } catch (error) {
+      logger.error('Failed to create notification', {
+        userId: recipient.userId,
+        walletAddress: recipient.walletAddress,
+        type: input.type,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to create notification',
+      };
+    }
+  }
+
+  /**
+   * Notify the owner of a request about a lifecycle transition
+   */
+  public async notifyRequestStatus(request: NotifiableRequest): Promise<void> {
+    const name = request.metadata?.name || 'Your AI artwork';
+    const prompt = request.prompt.length > 60 ? `${request.prompt.substring(0, 60)}...` : request.prompt;
+    const chain = getChainName(request.destinationChainId);
+
+    let input: Omit<NotificationInput, 'data'>;
+
+    switch (request.status) {
+      case RequestStatus.PROCESSING:
+        input = {
+          type: NotificationType.GENERATION,
+          title: 'Generation Started',
+          message: `AI generation started for "${prompt}"`,
+        };
+        break;
+      case RequestStatus.AWAITING_SELECTION:
+        input = {
+          type: NotificationType.GENERATION,
+          title: 'Choose Your Artwork',
+          message: `New variations of "${prompt}" are ready. Pick one to mint`,
+        };
+        break;
+      case RequestStatus.UNDER_REVIEW:
+        input = {
+          type: NotificationType.GENERATION,
+          title: 'Request Under Review',
+          message: `Your request for "${prompt}" is being reviewed before it can continue`,
+        };
+        break;
+      case RequestStatus.AI_COMPLETED:
+        input = {
+          type: NotificationType.GENERATION,
+          title: 'Artwork Generated',
+          message: `${name} has been generated and is being prepared for minting`,
+        };
+        break;
+      case RequestStatus.CROSS_CHAIN_PENDING:
+        input = {
+          type: NotificationType.GENERATION,
+          title: 'Cross-Chain Mint In Progress',
+          message: `${name} is on its way to ${chain}`,
+        };
+        break;
+      case RequestStatus.COMPLETED:
+        input = {
+          type: NotificationType.MINT,
+          title: 'NFT Minted',
+          message: `${name} has been minted on ${chain}`,
+          actionUrl: '/dashboard/collection',
+        };
+        break;
+      case RequestStatus.FAILED:
+        input = {
+          type: NotificationType.FAILURE,
+          title: 'Generation Failed',
+          message: request.errorMessage
+            ? `Generation failed for "${prompt}": ${request.errorMessage}`
+            : `Generation failed for "${prompt}"`,
+        };
+        break;
+      case RequestStatus.CANCELLED:
+        input = {
+          type: NotificationType.GENERATION,
+          title: 'Request Cancelled',
+          message: `Your request for "${prompt}" was cancelled`,
+        };
+        break;
+      case RequestStatus.REJECTED:
+        input = {
+          type: NotificationType.FAILURE,
+          title: 'Request Rejected',
+          message: `Your request for "${prompt}" did not pass content review`,
+        };
+        break;
+      default:
+        // Pending is the initial state (and a retry); nothing to tell the user
+        return;
+    }
+
+    await this.notify(this.getRequestRecipient(request), {
+      actionUrl: `/requests/${request.requestId}`,
+      ...input,
+      data: {
+        requestId: request.requestId,
+        status: request.status,
+        chainId: request.destinationChainId,
+      },
+    });
+  }
+
+  /**
+   * Notify the owner of a request that its NFT was minted on the destination chain
+   */
+  public async notifyMintCompleted(
+    request: NotifiableRequest,
+    mint: { tokenId: number; transactionHash: string; destinationChainId: number }
+  ): Promise<void> {
+    const name = request.metadata?.name || 'Your AI artwork';
+
+    await this.notify(this.getRequestRecipient(request), {
+      type: NotificationType.MINT,
+      title: 'NFT Minted',
+      message: `${name} was minted as token #${mint.tokenId} on ${getChainName(mint.destinationChainId)}`,
+      actionUrl: '/dashboard/collection',
+      data: {
+        requestId: request.requestId,
+        status: RequestStatus.COMPLETED,
+        tokenId: mint.tokenId,
+        transactionHash: mint.transactionHash,
+        chainId: mint.destinationChainId,
+      },
+    });
+  }
+
+  /**
+   * Notify the owner of a request that its cross-chain mint was reverted
+   */
+  public async notifyMintReverted(request: NotifiableRequest, reason: string): Promise<void> {
+    const name = request.metadata?.name || 'Your AI artwork';
+
+    await this.notify(this.getRequestRecipient(request), {
+      type: NotificationType.FAILURE,
+      title: 'Mint Reverted',
+      message: `Minting ${name} on ${getChainName(request.destinationChainId)} was reverted: ${reason}`,
+      actionUrl: `/requests/${request.requestId}`,
+      data: {
+        requestId: request.requestId,
+        status: RequestStatus.FAILED,
+        chainId: request.destinationChainId,
+      },
+    });
+  }
+
+  /**
+   * Notify a collection creator about a change to their collection
+   */
+  public async notifyCollectionEvent(
+    collection: { _id: unknown; name: string; creatorId: unknown; chainId: number; totalSupply?: number },
+    event: CollectionEvent
+  ): Promise<void> {
+    const messages: Record<CollectionEvent, { title: string; message: string }> = {
+      created: {
+        title: 'Collection Created',
+        message: `Your collection "${collection.name}" is live on ${getChainName(collection.chainId)}`,
+      },
+      deactivated: {
+        title: 'Collection Deactivated',
+        message: `Your collection "${collection.name}" has been deactivated`,
+      },
+      supply_updated: {
+        title: 'Collection Updated',
+        message: `Your collection "${collection.name}" now has ${collection.totalSupply ?? 0} items`,
+      },
+      metadata_frozen: {
+        title: 'Collection Metadata Frozen',
+        message: `The metadata of "${collection.name}" is now pinned as one immutable IPFS directory`,
+      },
+    };
+
+    const creatorId = (collection.creatorId as { _id?: Types.ObjectId })?._id ?? collection.creatorId;
+    const collectionId = String(collection._id);
+
+    await this.notify({ userId: creatorId as Types.ObjectId }, {
+      type: NotificationType.COLLECTION,
+      ...messages[event],
+      actionUrl: `/collections/${collectionId}`,
+      data: {
+        collectionId,
+        chainId: collection.chainId,
+      },
+    });
+  }
+
+  /**
+   * Get a page of a user's notifications
+   */
+  public async getNotifications(
+    userId: string,
+    query: NotificationQuery = {}
+  ): Promise<ServiceResponse<{
+    notifications: INotification[];
+    unreadCount: number;
+    pagination: {
+      currentPage: number;
+      totalPages: number;
+      totalItems: number;
+      hasNext: boolean;
+      hasPrev: boolean;
+    };
+  }>> {
+    try {
+      const page = Math.max(1, query.page || 1);
+      const limit = Math.min(50, Math.max(1, query.limit || 20));
+      const skip = (page - 1) * limit;
+
+      const filter: Record<string, unknown> = { userId };
+      if (query.unreadOnly) filter['read'] = false;
+      if (query.type) filter['type'] = query.type;
+
+      const [notifications, totalCount, unreadCount] = await Promise.all([
+        Notification.find(filter).sort({ createdAt: -1 }).skip(skip).limit(limit).lean<INotification[]>(),
+        Notification.countDocuments(filter),
+        Notification.countUnread(userId),
+      ]);
+
+      const totalPages = Math.ceil(totalCount / limit);
+
+      return {
+        success: true,
+        data: {
+          notifications,
+          unreadCount,
+          pagination: {
+            currentPage: page,
+            totalPages,
+            totalItems: totalCount,
+            hasNext: page < totalPages,
+            hasPrev: page > 1,
+          },
+        },
+      };
+
+    } catch (error) {
+      logger.error('Failed to get notifications', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve notifications',
+      };
+    }
+  }
+
+  /**
+   * Mark one of a user's notifications as read
+   */
+  public async markAsRead(userId: string, notificationId: string): Promise<ServiceResponse<INotification>> {
+    try {
+      if (!Types.ObjectId.isValid(notificationId)) {
+        return {
+          success: false,
+          error: 'Invalid notification ID format',
+          code: 'INVALID_ID',
+        };
+      }
+
+      const notification = await Notification.findOneAndUpdate(
+        { _id: notificationId, userId },
+        { $set: { read: true, readAt: new Date() } },
+        { new: true }
+      ).lean<INotification>();
+
+      if (!notification) {
+        return {
+          success: false,
+          error: 'Notification not found',
+          code: 'NOT_FOUND',
+        };
+      }
+
+      return {
+        success: true,
+        data: notification,
+      };
+
+    } catch (error) {
+      logger.error('Failed to mark notification as read', {
+        userId,
+        notificationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to mark notification as read',
+      };
+    }
+  }
+
+  /**
+   * Mark all of a user's notifications as read
+   */
+  public async markAllAsRead(userId: string): Promise<ServiceResponse<{ updated: number }>> {
+    try {
+      const result = await Notification.markAllRead(userId);
+
+      return {
+        success: true,
+        data: { updated: result.modifiedCount },
+      };
+
+    } catch (error) {
+      logger.error('Failed to mark all notifications as read', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to mark notifications as read',
+      };
+    }
+  }
+
+  private isTypeEnabled(
+    preferences: { notifications?: boolean; notificationTypes?: Partial<Record<NotificationType, boolean>> } | undefined,
+    type: NotificationType
+  ): boolean {
+    if (preferences?.notifications === false) {
+      return false;
+    }
+
+    return preferences?.notificationTypes?.[type] !== false;
+  }
+
+  private getRequestRecipient(request: NotifiableRequest): NotificationRecipient {
+    // userId may be populated with the user document
+    const userId = (request.userId as { _id?: Types.ObjectId } | undefined)?._id ?? request.userId;
+
+    return {
+      userId: userId as Types.ObjectId | undefined,
+      walletAddress: request.walletAddress,
+    };
+  }
+}
+
+// Export singleton instance
+export const notificationService = new NotificationService();
\ No newline at end of file
@@ -0,0 +1,289 @@
+import axios from 'axios';
+import { PinataSDK } from 'pinata';
+import { config } from '@/config/env';
+import { logger } from '@/utils/logger';
+import { PinningProviderName } from '@/types';
+
+export interface PinResult {
+  cid: string;
+  size: number;
+}
+
+// Where a provider stands with a CID; 'pinning' means it is still fetching it
+export type ProviderPinState = 'pinned' | 'pinning' | 'missing';
+
+export interface PinningProvider {
+  readonly name: PinningProviderName;
+  readonly label: string;
+  // Gateway that serves this provider's content, tried first when retrieving
+  readonly gateway?: string | undefined;
+  isConfigured(): boolean;
+  addFile(data: Buffer, filename: string, contentType: string): Promise<PinResult>;
+  addJSON(data: unknown, name?: string): Promise<PinResult>;
+  // Import a CARv1 archive and pin its root as-is, so the CID is the one computed locally
+  addCar(car: Buffer, name?: string): Promise<PinResult>;
+  // Pin content that is already on the network
+  pin(cid: string, name?: string): Promise<void>;
+  status(cid: string): Promise<ProviderPinState>;
+  testConnection(): Promise<void>;
+}
+
+// Response of Pinata's upload API
+interface PinataUploadResponse {
+  data?: { cid?: string };
+}
+
+// Kubo RPC responses, limited to the fields used here
+interface KuboAddResponse {
+  Hash?: string;
+}
+
+interface KuboDagImportLine {
+  Root?: {
+    Cid?: { '/'?: string };
+    PinErrorMsg?: string;
+  };
+}
+
+interface KuboPinLsResponse {
+  Keys?: Record<string, { Type: string }>;
+}
+
+interface KuboErrorResponse {
+  Message?: string;
+}
+
+/**
+ * Pinata (V3 SDK). Pins by CID go through Pinata's pin queue.
+ */
+export class PinataPinningProvider implements PinningProvider {
+  public readonly name = 'pinata';
+  public readonly label = 'Pinata';
+  public readonly gateway = 'https://gateway.pinata.cloud';
+
+  // Queue states that still end in a pin
+  private static readonly QUEUED_STATES = ['prechecking', 'retrieving', 'backfilled'];
+  // The SDK has no CAR option, so archives go to the upload API directly
+  private static readonly UPLOAD_URL = 'https://uploads.pinata.cloud/v3/files';
+
+  private pinata: PinataSDK;
+
+  constructor() {
+    this.pinata = new PinataSDK({
+      pinataJwt: config.ipfs.pinata.jwt || '',
+      pinataGateway: this.gateway,
+    });
+  }
+
+  public isConfigured(): boolean {
+    return !!config.ipfs.pinata.jwt;
+  }
+
+  public async addFile(data: Buffer, filename: string, contentType: string): Promise<PinResult> {
+    const file = new File([data], filename, { type: contentType });
+    const result = await this.pinata.upload.public.file(file);
+    return { cid: result.cid, size: data.length };
+  }
+
+  public async addJSON(data: unknown, name?: string): Promise<PinResult> {
+    const upload = this.pinata.upload.public.json(data as object);
+    const result = await (name ? upload.name(name) : upload);
+    return { cid: result.cid, size: result.size };
+  }
+
+  public async addCar(car: Buffer, name: string = 'upload.car'): Promise<PinResult> {
+    const form = new FormData();
+    form.append('file', new Blob([car], { type: 'application/vnd.ipld.car' }), name);
+    form.append('name', name);
+    form.append('network', 'public');
+    form.append('car', 'true');
+
+    const response = await axios.post<PinataUploadResponse>(PinataPinningProvider.UPLOAD_URL, form, {
+      headers: { Authorization: `Bearer ${config.ipfs.pinata.jwt}` },
+      maxBodyLength: Infinity,
+      timeout: 120000,
+    });
+
+    const cid = response.data.data?.cid;
+    if (!cid) {
+      throw new Error('Pinata did not return a CID');
+    }
+
+    return { cid, size: car.length };
+  }
+
+  public async pin(cid: string, name?: string): Promise<void> {
+    const upload = this.pinata.upload.public.cid(cid);
+    await (name ? upload.name(name) : upload);
+  }
+
+  public async status(cid: string): Promise<ProviderPinState> {
+    const pinned = await this.pinata.files.public.list().cid(cid).limit(1);
+    if (pinned.files.length > 0) {
+      return 'pinned';
+    }
+
+    const queued = await this.pinata.files.public.queue().cid(cid).pageLimit(1);
+    const job = queued.jobs[0];
+    return job && PinataPinningProvider.QUEUED_STATES.includes(job.status) ? 'pinning' : 'missing';
+  }
+
+  public async testConnection(): Promise<void> {
+    await this.pinata.testAuthentication();
+  }
+}
+
+/**
+ * Local Kubo (go-ipfs) node through its HTTP RPC API. Every RPC call is a POST.
+ */
+export class KuboPinningProvider implements PinningProvider {
+  public readonly name = 'kubo';
+  public readonly label = 'Kubo';
+
+  public get gateway(): string | undefined {
+    return config.ipfs.kubo.gatewayUrl;
+  }
+
+  public isConfigured(): boolean {
+    return !!config.ipfs.kubo.apiUrl;
+  }
+
+  public async addFile(data: Buffer, filename: string, contentType: string): Promise<PinResult> {
+    const form = new FormData();
+    form.append('file', new Blob([data], { type: contentType }), filename);
+    return this.add(form, data.length);
+  }
+
+  public async addJSON(data: unknown, name: string = 'data.json'): Promise<PinResult> {
+    const json = Buffer.from(JSON.stringify(data));
+    const form = new FormData();
+    form.append('file', new Blob([json], { type: 'application/json' }), name);
+    return this.add(form, json.length);
+  }
+
+  public async addCar(car: Buffer, name: string = 'upload.car'): Promise<PinResult> {
+    const form = new FormData();
+    form.append('file', new Blob([car], { type: 'application/vnd.ipld.car' }), name);
+
+    // Answers with one JSON object per line
+    const response = await axios.post<string>(`${config.ipfs.kubo.apiUrl}/api/v0/dag/import`, form, {
+      params: { 'pin-roots': true },
+      responseType: 'text',
+      maxBodyLength: Infinity,
+      timeout: 120000,
+    });
+
+    const root = String(response.data)
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(line => JSON.parse(line) as KuboDagImportLine)
+      .find(line => line.Root)?.Root;
+
+    const cid = root?.Cid?.['/'];
+    if (!cid) {
+      throw new Error('Kubo did not return a root CID');
+    }
+    if (root.PinErrorMsg) {
+      throw new Error(`Kubo could not pin the root: ${root.PinErrorMsg}`);
+    }
+
+    return { cid, size: car.length };
+  }
+
+  public async pin(cid: string): Promise<void> {
+    // Blocks until the node has fetched the content, so the timeout is generous
+    await this.rpc('pin/add', { arg: cid }, 120000);
+  }
+
+  public async status(cid: string): Promise<ProviderPinState> {
+    try {
+      // Keys may be in another CID encoding than the one asked for
+      const result = await this.rpc<KuboPinLsResponse>('pin/ls', { arg: cid, type: 'recursive' });
+      return Object.keys(result.Keys || {}).length > 0 ? 'pinned' : 'missing';
+    } catch (error) {
+      // Kubo answers 500 "not pinned" for unknown CIDs
+      if (axios.isAxiosError<KuboErrorResponse>(error) && /not pinned/i.test(error.response?.data.Message || '')) {
+        return 'missing';
+      }
+      throw error;
+    }
+  }
+
+  public async testConnection(): Promise<void> {
+    await this.rpc('version', {}, 10000);
+  }
+
+  private async add(form: FormData, size: number): Promise<PinResult> {
+    const response = await axios.post<KuboAddResponse>(`${config.ipfs.kubo.apiUrl}/api/v0/add`, form, {
+      params: { 'cid-version': 1, pin: true },
+      maxBodyLength: Infinity,
+      timeout: 60000,
+    });
+
+    const cid = response.data.Hash;
+    if (!cid) {
+      throw new Error('Kubo did not return a CID');
+    }
+
+    return { cid, size };
+  }
+
+  private async rpc<T>(command: string, params: Record<string, string>, timeout: number = 30000): Promise<T> {
+    const response = await axios.post<T>(`${config.ipfs.kubo.apiUrl}/api/v0/${command}`, null, { params, timeout });
+    return response.data;
+  }
+}
+
+/**
+ * Registry of pinning providers. The first configured provider in
+ * PINNING_PROVIDERS stores uploads; the others keep redundant pins.
+ */
+export class PinningProviderRegistry {
+  private providers: Map<PinningProviderName, PinningProvider> = new Map();
+
+  constructor(providers: PinningProvider[] = [
+    new PinataPinningProvider(),
+    new KuboPinningProvider(),
+  ]) {
+    for (const provider of providers) {
+      this.register(provider);
+    }
+
+    for (const name of config.ipfs.providers) {
+      if (!this.providers.has(name as PinningProviderName)) {
+        logger.warn('Unknown pinning provider in PINNING_PROVIDERS', { provider: name });
+      }
+    }
+  }
+
+  public register(provider: PinningProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  public get(name: PinningProviderName): PinningProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  /**
+   * Providers listed in PINNING_PROVIDERS that are configured, in order
+   */
+  public getActiveProviders(): PinningProvider[] {
+    return (config.ipfs.providers)
+      .map(name => this.providers.get(name as PinningProviderName))
+      .filter((provider): provider is PinningProvider => !!provider && provider.isConfigured());
+  }
+
+  /**
+   * Gateways to read from: the active providers' own gateways, then the public ones
+   */
+  public getGateways(): string[] {
+    const providerGateways = this.getActiveProviders()
+      .map(provider => provider.gateway)
+      .filter((gateway): gateway is string => !!gateway);
+
+    return [...new Set([...providerGateways, ...config.ipfs.gateways])];
+  }
+}
+
+// Export singleton instance
+export const pinningProviderRegistry = new PinningProviderRegistry();
\ No newline at end of file
@@ -0,0 +1,187 @@
+import { EventEmitter } from 'events';
+import { getRedisClient, isRedisConfigured, RedisClient } from '@/config/redis';
+import { logger } from '@/utils/logger';
+import { INFTRequest, INotification, RequestStatus } from '@/types';
+
+export type RealtimeEventType = 'request.status' | 'chain.event' | 'notification';
+
+export interface RealtimeEvent {
+  type: RealtimeEventType;
+  data: Record<string, unknown>;
+  timestamp: string;
+}
+
+export type RealtimeListener = (event: RealtimeEvent) => void;
+
+const CHANNEL = 'chainweave:realtime';
+
+/**
+ * Fan-out of per-wallet events to connected stream clients.
+ * With Redis configured, events go through pub/sub so that every API
+ * instance (and the queue worker) reaches clients connected anywhere.
+ */
+export class RealtimeService {
+  private emitter = new EventEmitter();
+  private subscriber: RedisClient | null = null;
+  private closers: Set<() => void> = new Set();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Start the Redis bridge when Redis is configured
+   */
+  public async start(): Promise<void> {
+    if (!isRedisConfigured() || this.subscriber) {
+      return;
+    }
+
+    try {
+      const subscriber = (await getRedisClient()).duplicate();
+      await subscriber.connect();
+      await subscriber.subscribe(CHANNEL, (message) => {
+        try {
+          const { walletAddress, event } = JSON.parse(message) as { walletAddress: string; event: RealtimeEvent };
+          this.emitter.emit(walletAddress, event);
+        } catch (error) {
+          logger.warn('Dropped malformed realtime message', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      });
+
+      this.subscriber = subscriber;
+      logger.info('Realtime event bridge started');
+
+    } catch (error) {
+      logger.error('Failed to start realtime event bridge, using local delivery only', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * End every open stream so that the HTTP server can close
+   */
+  public closeStreams(): void {
+    for (const close of [...this.closers]) {
+      close();
+    }
+    this.closers.clear();
+  }
+
+  /**
+   * Close every open stream and the Redis bridge
+   */
+  public async stop(): Promise<void> {
+    this.closeStreams();
+
+    if (this.subscriber) {
+      try {
+        await this.subscriber.quit();
+      } catch (error) {
+        logger.error('Error closing realtime event bridge', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+      this.subscriber = null;
+    }
+  }
+
+  /**
+   * Listen to events for a wallet. `close` is called on shutdown so that
+   * long-lived connections do not hold the server open.
+   */
+  public subscribe(walletAddress: string, listener: RealtimeListener, close: () => void): () => void {
+    const key = walletAddress.toLowerCase();
+    this.emitter.on(key, listener);
+    this.closers.add(close);
+
+    return () => {
+      this.emitter.off(key, listener);
+      this.closers.delete(close);
+    };
+  }
+
+  /**
+   * Number of open streams for a wallet
+   */
+  public getSubscriberCount(walletAddress: string): number {
+    return this.emitter.listenerCount(walletAddress.toLowerCase());
+  }
+
+  /**
+   * Send an event to every stream of a wallet
+   */
+  public async publish(
+    walletAddress: string,
+    type: RealtimeEventType,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    const key = walletAddress.toLowerCase();
+    const event: RealtimeEvent = {
+      type,
+      data,
+      timestamp: new Date().toISOString(),
+    };
+
+    try {
+      if (this.subscriber) {
+        const client = await getRedisClient();
+        await client.publish(CHANNEL, JSON.stringify({ walletAddress: key, event }));
+        return;
+      }
+
+      this.emitter.emit(key, event);
+
+    } catch (error) {
+      logger.error('Failed to publish realtime event', {
+        walletAddress: key,
+        type,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Publish a request status transition to the owning wallet
+   */
+  public async publishRequestStatus(
+    request: Pick<INFTRequest, 'requestId' | 'walletAddress' | 'status' | 'destinationChainId'> & {
+      errorMessage?: string | undefined;
+    },
+    previousStatus: RequestStatus
+  ): Promise<void> {
+    const data: Record<string, unknown> = {
+      requestId: request.requestId,
+      status: request.status,
+      previousStatus,
+      destinationChainId: request.destinationChainId,
+    };
+    if (request.errorMessage && request.status === RequestStatus.FAILED) {
+      data['errorMessage'] = request.errorMessage;
+    }
+
+    await this.publish(request.walletAddress, 'request.status', data);
+  }
+
+  /**
+   * Publish a stored notification to its recipient
+   */
+  public async publishNotification(walletAddress: string, notification: INotification): Promise<void> {
+    await this.publish(walletAddress, 'notification', {
+      id: notification._id.toString(),
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      actionUrl: notification.actionUrl,
+      data: notification.data,
+      read: notification.read,
+      createdAt: notification.createdAt,
+    });
+  }
+}
+
+// Export singleton instance
+export const realtimeService = new RealtimeService();
\ No newline at end of file
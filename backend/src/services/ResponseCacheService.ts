@@ -0,0 +1,183 @@
+import crypto from 'crypto';
+import { config } from '@/config/env';
+import { getRedisClient, isRedisConfigured } from '@/config/redis';
+import { logger } from '@/utils/logger';
+
+/**
+ * Data a cached response is built from. Changing that data invalidates every
+ * response tagged with it.
+ */
+export type CacheTag = 'collections' | 'requests';
+
+export interface CachedResponse {
+  body: string;
+  etag: string;
+}
+
+export interface ResponseCacheStore {
+  get(key: string): Promise<CachedResponse | null>;
+  set(key: string, entry: CachedResponse, ttlSeconds: number): Promise<void>;
+  // Current generation of each tag; entries are keyed by them
+  getGenerations(tags: CacheTag[]): Promise<number[]>;
+  bump(tag: CacheTag): Promise<void>;
+}
+
+/**
+ * In-process store, bounded to the configured number of entries (least recently used go first)
+ */
+export class MemoryResponseCacheStore implements ResponseCacheStore {
+  private entries = new Map<string, { entry: CachedResponse; expiresAt: number }>();
+  private generations = new Map<CacheTag, number>();
+
+  public get(key: string): Promise<CachedResponse | null> {
+    const cached = this.entries.get(key);
+    if (!cached) {
+      return Promise.resolve(null);
+    }
+
+    this.entries.delete(key);
+    if (cached.expiresAt <= Date.now()) {
+      return Promise.resolve(null);
+    }
+
+    this.entries.set(key, cached);
+    return Promise.resolve(cached.entry);
+  }
+
+  public set(key: string, entry: CachedResponse, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { entry, expiresAt: Date.now() + ttlSeconds * 1000 });
+
+    while (this.entries.size > config.responseCache.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+
+    return Promise.resolve();
+  }
+
+  public getGenerations(tags: CacheTag[]): Promise<number[]> {
+    return Promise.resolve(tags.map(tag => this.generations.get(tag) || 0));
+  }
+
+  public bump(tag: CacheTag): Promise<void> {
+    this.generations.set(tag, (this.generations.get(tag) || 0) + 1);
+
+    // Nothing can reach entries of the old generation any more
+    for (const key of [...this.entries.keys()]) {
+      if (key.includes(`${tag}@`)) {
+        this.entries.delete(key);
+      }
+    }
+
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Redis-backed store shared by every API instance (entries expire with their TTL,
+ * and a bumped generation is seen everywhere)
+ */
+export class RedisResponseCacheStore implements ResponseCacheStore {
+  private entryKey(key: string): string {
+    return `chainweave:cache:response:${key}`;
+  }
+
+  private generationKey(tag: CacheTag): string {
+    return `chainweave:cache:generation:${tag}`;
+  }
+
+  public async get(key: string): Promise<CachedResponse | null> {
+    const client = await getRedisClient();
+    const value = await client.get(this.entryKey(key));
+    return value ? JSON.parse(value) as CachedResponse : null;
+  }
+
+  public async set(key: string, entry: CachedResponse, ttlSeconds: number): Promise<void> {
+    const client = await getRedisClient();
+    await client.set(this.entryKey(key), JSON.stringify(entry), { EX: ttlSeconds });
+  }
+
+  public async getGenerations(tags: CacheTag[]): Promise<number[]> {
+    const client = await getRedisClient();
+    const values = await client.mGet(tags.map(tag => this.generationKey(tag)));
+    return values.map(value => Number(value) || 0);
+  }
+
+  public async bump(tag: CacheTag): Promise<void> {
+    const client = await getRedisClient();
+    await client.incr(this.generationKey(tag));
+  }
+}
+
+/**
+ * Cache of public read responses. Entries live for their route's TTL, or until
+ * data they are tagged with changes.
+ */
+export class ResponseCacheService {
+  private store: ResponseCacheStore;
+
+  constructor(store?: ResponseCacheStore) {
+    this.store = store || (isRedisConfigured() ? new RedisResponseCacheStore() : new MemoryResponseCacheStore());
+  }
+
+  public isEnabled(): boolean {
+    return config.responseCache.enabled;
+  }
+
+  /**
+   * Key for a request URL under the current generation of its tags
+   */
+  public async buildKey(url: string, tags: CacheTag[]): Promise<string> {
+    const generations = await this.store.getGenerations(tags);
+    const scope = tags.map((tag, index) => `${tag}@${generations[index]}`).join(',');
+    const digest = crypto.createHash('sha256').update(url).digest('hex');
+
+    return `${scope}:${digest}`;
+  }
+
+  public async get(key: string): Promise<CachedResponse | null> {
+    return this.store.get(key);
+  }
+
+  /**
+   * Entry for a serialized response body, with its ETag
+   */
+  public createEntry(body: string): CachedResponse {
+    return {
+      body,
+      etag: `"${crypto.createHash('sha1').update(body).digest('base64url')}"`,
+    };
+  }
+
+  public async set(key: string, entry: CachedResponse, ttlSeconds: number): Promise<void> {
+    await this.store.set(key, entry, ttlSeconds);
+  }
+
+  /**
+   * Drop every cached response built from the given data. Never throws: a
+   * failed invalidation only leaves entries to expire with their TTL.
+   */
+  public async invalidate(...tags: CacheTag[]): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    for (const tag of tags) {
+      try {
+        await this.store.bump(tag);
+      } catch (error) {
+        logger.warn('Failed to invalidate cached responses', {
+          tag,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const responseCacheService = new ResponseCacheService();
\ No newline at end of file
@@ -0,0 +1,491 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Session, ISessionDocument } from '@/models/Session';
+import { RevokedToken } from '@/models/RevokedToken';
+import { getRedisClient, isRedisConfigured } from '@/config/redis';
+import { config } from '@/config/env';
+import { logger } from '@/utils/logger';
+import { ServiceResponse, SessionRevocationReason } from '@/types';
+
+export interface AccessTokenPayload {
+  walletAddress: string;
+  userId: string;
+  sid: string;
+  jti: string;
+  iat?: number;
+  exp?: number;
+}
+
+export interface RefreshTokenPayload {
+  userId: string;
+  sid: string;
+  jti: string;
+  type: 'refresh';
+  iat?: number;
+  exp?: number;
+}
+
+export interface SessionContext {
+  userAgent?: string | undefined;
+  ipAddress?: string | undefined;
+}
+
+export interface IssuedTokens {
+  sessionId: string;
+  accessToken: string;
+  accessTokenExpiresAt: Date;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+export interface SessionSummary {
+  id: string;
+  device: string;
+  userAgent?: string | undefined;
+  ipAddress?: string | undefined;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
+/**
+ * Storage backend for revoked access token IDs. Entries only need to live
+ * until the token itself expires.
+ */
+export interface TokenDenylist {
+  add(tokenId: string, expiresAt: Date): Promise<void>;
+  has(tokenId: string): Promise<boolean>;
+}
+
+/**
+ * MongoDB-backed denylist (expired entries are removed by a TTL index)
+ */
+export class MongoTokenDenylist implements TokenDenylist {
+  public async add(tokenId: string, expiresAt: Date): Promise<void> {
+    await RevokedToken.updateOne(
+      { tokenId },
+      { $setOnInsert: { tokenId, expiresAt } },
+      { upsert: true }
+    );
+  }
+
+  public async has(tokenId: string): Promise<boolean> {
+    const entry = await RevokedToken.exists({ tokenId });
+    return !!entry;
+  }
+}
+
+/**
+ * Redis-backed denylist (keys expire with the token)
+ */
+export class RedisTokenDenylist implements TokenDenylist {
+  private key(tokenId: string): string {
+    return `chainweave:auth:revoked:${tokenId}`;
+  }
+
+  public async add(tokenId: string, expiresAt: Date): Promise<void> {
+    const ttlMs = expiresAt.getTime() - Date.now();
+    if (ttlMs <= 0) {
+      return;
+    }
+
+    const client = await getRedisClient();
+    await client.set(this.key(tokenId), '1', { PX: ttlMs });
+  }
+
+  public async has(tokenId: string): Promise<boolean> {
+    const client = await getRedisClient();
+    return (await client.exists(this.key(tokenId))) === 1;
+  }
+}
+
+export class SessionService {
+  private denylist: TokenDenylist;
+
+  constructor(denylist?: TokenDenylist) {
+    this.denylist = denylist || (isRedisConfigured() ? new RedisTokenDenylist() : new MongoTokenDenylist());
+  }
+
+  /**
+   * Start a new session (refresh-token family) after a successful login
+   */
+  public async createSession(
+    userId: string,
+    walletAddress: string,
+    context: SessionContext
+  ): Promise<ServiceResponse<IssuedTokens>> {
+    try {
+      const familyId = crypto.randomUUID();
+      const access = this.signAccessToken(userId, walletAddress, familyId);
+      const refresh = this.signRefreshToken(userId, familyId);
+
+      const session = new Session({
+        userId,
+        walletAddress,
+        familyId,
+        refreshTokenId: refresh.tokenId,
+        accessTokenId: access.tokenId,
+        accessTokenExpiresAt: access.expiresAt,
+        device: this.describeDevice(context.userAgent),
+        lastUsedAt: new Date(),
+        expiresAt: refresh.expiresAt,
+      });
+
+      if (context.userAgent) session.userAgent = context.userAgent.slice(0, 500);
+      if (context.ipAddress) session.ipAddress = context.ipAddress;
+
+      await session.save();
+
+      logger.info('Session created', {
+        userId,
+        sessionId: familyId,
+        device: session.device,
+      });
+
+      return {
+        success: true,
+        data: {
+          sessionId: familyId,
+          accessToken: access.token,
+          accessTokenExpiresAt: access.expiresAt,
+          refreshToken: refresh.token,
+          refreshTokenExpiresAt: refresh.expiresAt,
+        },
+      };
+
+    } catch (error) {
+      logger.error('Failed to create session', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to create session',
+      };
+    }
+  }
+
+  /**
+   * Exchange a refresh token for a new access/refresh pair.
+   * Each refresh token can be used exactly once; presenting an already
+   * rotated token means it leaked, so the whole family is revoked.
+   */
+  public async rotateRefreshToken(
+    refreshToken: string,
+    context: SessionContext
+  ): Promise<ServiceResponse<IssuedTokens>> {
+    let payload: RefreshTokenPayload;
+
+    try {
+      payload = jwt.verify(refreshToken, config.jwt.refreshSecret) as RefreshTokenPayload;
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof jwt.TokenExpiredError ? 'Refresh token expired' : 'Invalid refresh token',
+        code: 'INVALID_REFRESH_TOKEN',
+      };
+    }
+
+    if (payload.type !== 'refresh' || !payload.sid || !payload.jti) {
+      return {
+        success: false,
+        error: 'Invalid refresh token',
+        code: 'INVALID_REFRESH_TOKEN',
+      };
+    }
+
+    try {
+      const session = await Session.findOne({ familyId: payload.sid });
+
+      if (!session || session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+        return {
+          success: false,
+          error: 'Session has been revoked or expired',
+          code: 'SESSION_REVOKED',
+        };
+      }
+
+      const access = this.signAccessToken(payload.userId, session.walletAddress, session.familyId);
+      const refresh = this.signRefreshToken(payload.userId, session.familyId);
+
+      const update: Record<string, unknown> = {
+        refreshTokenId: refresh.tokenId,
+        accessTokenId: access.tokenId,
+        accessTokenExpiresAt: access.expiresAt,
+        lastUsedAt: new Date(),
+        expiresAt: refresh.expiresAt,
+      };
+      if (context.ipAddress) update['ipAddress'] = context.ipAddress;
+
+      // Only the current token of the family may rotate it (atomic compare-and-set)
+      const rotated = await Session.findOneAndUpdate(
+        {
+          familyId: session.familyId,
+          refreshTokenId: payload.jti,
+          revokedAt: { $exists: false },
+        },
+        { $set: update },
+        { new: true }
+      );
+
+      if (!rotated) {
+        logger.warn('Refresh token reuse detected, revoking session', {
+          userId: payload.userId,
+          sessionId: session.familyId,
+          ipAddress: context.ipAddress,
+        });
+
+        await this.revokeSessionDocument(session, SessionRevocationReason.TOKEN_REUSE);
+
+        return {
+          success: false,
+          error: 'Refresh token has already been used',
+          code: 'REFRESH_TOKEN_REUSED',
+        };
+      }
+
+      // The access token issued with the previous refresh token is retired too
+      await this.denylist.add(session.accessTokenId, session.accessTokenExpiresAt);
+
+      return {
+        success: true,
+        data: {
+          sessionId: session.familyId,
+          accessToken: access.token,
+          accessTokenExpiresAt: access.expiresAt,
+          refreshToken: refresh.token,
+          refreshTokenExpiresAt: refresh.expiresAt,
+        },
+      };
+
+    } catch (error) {
+      logger.error('Failed to rotate refresh token', {
+        sessionId: payload.sid,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to refresh session',
+      };
+    }
+  }
+
+  /**
+   * List a user's active sessions
+   */
+  public async listSessions(
+    userId: string,
+    currentSessionId?: string
+  ): Promise<ServiceResponse<SessionSummary[]>> {
+    try {
+      const sessions = await Session.findActiveByUser(userId);
+
+      return {
+        success: true,
+        data: sessions.map(session => ({
+          id: session.familyId,
+          device: session.device,
+          userAgent: session.userAgent,
+          ipAddress: session.ipAddress,
+          createdAt: session.createdAt,
+          lastUsedAt: session.lastUsedAt,
+          expiresAt: session.expiresAt,
+          current: session.familyId === currentSessionId,
+        })),
+      };
+
+    } catch (error) {
+      logger.error('Failed to list sessions', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve sessions',
+      };
+    }
+  }
+
+  /**
+   * Revoke one of a user's sessions
+   */
+  public async revokeSession(
+    userId: string,
+    sessionId: string,
+    reason: SessionRevocationReason = SessionRevocationReason.USER_REVOKED
+  ): Promise<ServiceResponse<void>> {
+    try {
+      const session = await Session.findOne({
+        userId,
+        familyId: sessionId,
+        revokedAt: { $exists: false },
+      });
+
+      if (!session) {
+        return {
+          success: false,
+          error: 'Session not found',
+          code: 'SESSION_NOT_FOUND',
+        };
+      }
+
+      await this.revokeSessionDocument(session, reason);
+
+      return { success: true };
+
+    } catch (error) {
+      logger.error('Failed to revoke session', {
+        userId,
+        sessionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to revoke session',
+      };
+    }
+  }
+
+  /**
+   * Revoke all of a user's sessions, optionally keeping the current one
+   */
+  public async revokeAllSessions(
+    userId: string,
+    exceptSessionId?: string
+  ): Promise<ServiceResponse<{ revoked: number }>> {
+    try {
+      const sessions = await Session.findActiveByUser(userId);
+      let revoked = 0;
+
+      for (const session of sessions) {
+        if (session.familyId === exceptSessionId) {
+          continue;
+        }
+
+        await this.revokeSessionDocument(session, SessionRevocationReason.USER_REVOKED);
+        revoked++;
+      }
+
+      return {
+        success: true,
+        data: { revoked },
+      };
+
+    } catch (error) {
+      logger.error('Failed to revoke sessions', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to revoke sessions',
+      };
+    }
+  }
+
+  /**
+   * Add a single access token to the denylist
+   */
+  public async revokeAccessToken(tokenId: string, expiresAt: Date): Promise<void> {
+    await this.denylist.add(tokenId, expiresAt);
+  }
+
+  /**
+   * Whether an access token has been revoked before its expiry
+   */
+  public async isAccessTokenRevoked(tokenId: string): Promise<boolean> {
+    return this.denylist.has(tokenId);
+  }
+
+  private async revokeSessionDocument(
+    session: ISessionDocument,
+    reason: SessionRevocationReason
+  ): Promise<void> {
+    await Session.updateOne(
+      { _id: session._id, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+
+    // Refreshing again would be impossible, but the outstanding access token must stop working now
+    await this.denylist.add(session.accessTokenId, session.accessTokenExpiresAt);
+
+    logger.info('Session revoked', {
+      userId: session.userId,
+      sessionId: session.familyId,
+      reason,
+    });
+  }
+
+  private signAccessToken(
+    userId: string,
+    walletAddress: string,
+    sessionId: string
+  ): { token: string; tokenId: string; expiresAt: Date } {
+    const tokenId = crypto.randomUUID();
+    const token = jwt.sign(
+      { walletAddress, userId, sid: sessionId, jti: tokenId },
+      config.jwt.secret,
+      { expiresIn: config.jwt.expire }
+    );
+
+    return { token, tokenId, expiresAt: this.getExpiry(token) };
+  }
+
+  private signRefreshToken(
+    userId: string,
+    sessionId: string
+  ): { token: string; tokenId: string; expiresAt: Date } {
+    const tokenId = crypto.randomUUID();
+    const token = jwt.sign(
+      { userId, sid: sessionId, jti: tokenId, type: 'refresh' },
+      config.jwt.refreshSecret,
+      { expiresIn: config.jwt.refreshExpire }
+    );
+
+    return { token, tokenId, expiresAt: this.getExpiry(token) };
+  }
+
+  private getExpiry(token: string): Date {
+    const decoded = jwt.decode(token) as { exp: number };
+    return new Date(decoded.exp * 1000);
+  }
+
+  /**
+   * Short human readable device label from a User-Agent header
+   */
+  private describeDevice(userAgent?: string): string {
+    if (!userAgent) {
+      return 'Unknown device';
+    }
+
+    const browsers: Array<[RegExp, string]> = [
+      [/Edg\//, 'Edge'],
+      [/OPR\//, 'Opera'],
+      [/Firefox\//, 'Firefox'],
+      [/Chrome\//, 'Chrome'],
+      [/Safari\//, 'Safari'],
+    ];
+    const systems: Array<[RegExp, string]> = [
+      [/Android/, 'Android'],
+      [/iPhone|iPad/, 'iOS'],
+      [/Windows/, 'Windows'],
+      [/Mac OS X|Macintosh/, 'macOS'],
+      [/Linux/, 'Linux'],
+    ];
+
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && system) return `${browser} on ${system}`;
+    return browser || system || userAgent.slice(0, 100);
+  }
+}
+
+// Export singleton instance
+export const sessionService = new SessionService();
\ No newline at end of file
@@ -0,0 +1,412 @@
+import fs from 'fs';
+import { config } from '@/config/env';
+import { UsageRecord, UsageCostBreakdownRow } from '@/models/UsageRecord';
+import { NFTRequest } from '@/models/NFTRequest';
+import { User } from '@/models/User';
+import {
+  QuotaAllowance,
+  QuotaLimits,
+  QuotaUsage,
+  QuotaWindow,
+  RequestStatus,
+  ServiceResponse,
+  UsageItem,
+  UsageTier,
+} from '@/types';
+import { logger } from '@/utils/logger';
+
+// Estimated list prices in USD
+export interface UsagePricing {
+  // Per 1K tokens, by model ('*' for any other model)
+  text: Record<string, { input: number; output: number }>;
+  // Per image, by provider then `model:quality`, `model` or '*'
+  images: Record<string, Record<string, number>>;
+  // Per GB pinned
+  pinning: Record<string, number>;
+}
+
+export const DEFAULT_PRICING: UsagePricing = {
+  text: {
+    'gemini-1.5-flash': { input: 0.000075, output: 0.0003 },
+    'gemini-1.5-pro': { input: 0.00125, output: 0.005 },
+    'gemini-pro': { input: 0.0005, output: 0.0015 },
+    '*': { input: 0.0005, output: 0.0015 },
+  },
+  images: {
+    openai: {
+      'dall-e-3': 0.08,
+      'dall-e-3:standard': 0.04,
+      'dall-e-3:hd': 0.08,
+      'dall-e-2': 0.02,
+      '*': 0.04,
+    },
+    stability: {
+      core: 0.03,
+      sd3: 0.065,
+      ultra: 0.08,
+      '*': 0.04,
+    },
+    local: { '*': 0 },
+    test: { '*': 0 },
+  },
+  pinning: {
+    pinata: 0.15,
+    '*': 0.15,
+  },
+};
+
+export const DEFAULT_USAGE_TIERS: Record<string, UsageTier> = {
+  free: {
+    daily: { generations: 10, costUsd: 1 },
+    monthly: { generations: 100, costUsd: 10 },
+  },
+  pro: {
+    daily: { generations: 100, costUsd: 10 },
+    monthly: { generations: 2000, costUsd: 200 },
+  },
+  unlimited: {
+    daily: {},
+    monthly: {},
+  },
+};
+
+const readJsonFile = (file: string | undefined, label: string): unknown => {
+  if (!file) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as unknown;
+  } catch (error) {
+    logger.error(`Failed to load ${label} file`, {
+      file,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return undefined;
+  }
+};
+
+/**
+ * Default prices, with the pricing file's entries replacing them one by one
+ */
+export const loadPricing = (): UsagePricing => {
+  const filePricing = (readJsonFile(config.usage.pricingFile, 'pricing') || {}) as Partial<UsagePricing>;
+
+  const images: UsagePricing['images'] = { ...DEFAULT_PRICING.images };
+  for (const [provider, prices] of Object.entries(filePricing.images || {})) {
+    images[provider] = { ...images[provider], ...prices };
+  }
+
+  return {
+    text: { ...DEFAULT_PRICING.text, ...filePricing.text },
+    images,
+    pinning: { ...DEFAULT_PRICING.pinning, ...filePricing.pinning },
+  };
+};
+
+/**
+ * Default tiers; a tier in the tiers file replaces the default of the same name
+ */
+export const loadUsageTiers = (): Record<string, UsageTier> => {
+  const tiers = { ...DEFAULT_USAGE_TIERS };
+  const fileTiers = readJsonFile(config.usage.quotas.tiersFile, 'quota tiers') || {};
+
+  for (const [name, tier] of Object.entries(fileTiers as Record<string, UsageTier>)) {
+    if (!tier || typeof tier.daily !== 'object' || typeof tier.monthly !== 'object') {
+      logger.warn('Skipping invalid quota tier', { name, tier });
+      continue;
+    }
+    tiers[name] = tier;
+  }
+
+  return tiers;
+};
+
+/**
+ * Rough token count (about four characters per token) for providers that do not report usage
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Both quota periods run in UTC
+const startOfDay = (now: Date): Date => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+const startOfMonth = (now: Date): Date => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+const roundUsd = (amount: number): number => Math.round(amount * 1e6) / 1e6;
+
+export interface UsageContext {
+  requestId?: string | undefined;
+  walletAddress?: string | undefined;
+}
+
+export interface CostBreakdown {
+  totalUsd: number;
+  byProvider: Array<{
+    provider: string;
+    kind: string;
+    costUsd: number;
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    images: number;
+    bytes: number;
+  }>;
+}
+
+export class UsageService {
+  private pricing: UsagePricing;
+  private tiers: Record<string, UsageTier>;
+
+  constructor() {
+    this.pricing = loadPricing();
+    this.tiers = loadUsageTiers();
+
+    if (!this.tiers[config.usage.quotas.defaultTier]) {
+      logger.warn('Default quota tier is not defined, generations are unlimited', {
+        tier: config.usage.quotas.defaultTier,
+      });
+    }
+  }
+
+  public getTiers(): Record<string, UsageTier> {
+    return this.tiers;
+  }
+
+  /**
+   * Estimated cost of one usage item in USD
+   */
+  public estimateCost(item: UsageItem): number {
+    switch (item.kind) {
+      case 'text': {
+        const price = this.pricing.text[item.modelName || ''] || this.pricing.text['*'];
+        if (!price) {
+          return 0;
+        }
+        return roundUsd(((item.inputTokens || 0) * price.input + (item.outputTokens || 0) * price.output) / 1000);
+      }
+      case 'image': {
+        const prices = this.pricing.images[item.provider] || {};
+        const price = prices[`${item.modelName}:${item.quality}`] ?? prices[item.modelName || ''] ?? prices['*'] ?? 0;
+        return roundUsd((item.images || 0) * price);
+      }
+      case 'pin': {
+        const price = this.pricing.pinning[item.provider] ?? this.pricing.pinning['*'] ?? 0;
+        return roundUsd(((item.bytes || 0) / (1024 ** 3)) * price);
+      }
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Price usage items and add them to the ledger.
+   * Failures are logged only; the work has already been done.
+   */
+  public async record(items: UsageItem[] | undefined, context: UsageContext = {}): Promise<void> {
+    if (!config.usage.enabled || !items?.length) {
+      return;
+    }
+
+    try {
+      await UsageRecord.insertMany(items.map(item => ({
+        ...item,
+        ...(context.requestId ? { requestId: context.requestId } : {}),
+        ...(context.walletAddress ? { walletAddress: context.walletAddress.toLowerCase() } : {}),
+        costUsd: this.estimateCost(item),
+      })));
+
+    } catch (error) {
+      logger.error('Failed to record usage', {
+        requestId: context.requestId,
+        items: items.length,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Generations and spend of a wallet in the current day and month against its tier.
+   * Requests still waiting for generation count toward the generations already used.
+   */
+  public async getAllowance(walletAddress: string, tierName?: string): Promise<ServiceResponse<QuotaAllowance>> {
+    try {
+      const tier = tierName || (await User.findByWallet(walletAddress))?.tier || config.usage.quotas.defaultTier;
+      const limits = this.tiers[tier] || { daily: {}, monthly: {} };
+
+      const now = new Date();
+      const dayStart = startOfDay(now);
+      const monthStart = startOfMonth(now);
+
+      const [daily, monthly, queued] = await Promise.all([
+        UsageRecord.sumForWallet(walletAddress, dayStart),
+        UsageRecord.sumForWallet(walletAddress, monthStart),
+        this.countQueuedImages(walletAddress),
+      ]);
+
+      const nextDay = new Date(dayStart);
+      nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+      const nextMonth = new Date(monthStart);
+      nextMonth.setUTCMonth(nextMonth.getUTCMonth() + 1);
+
+      return {
+        success: true,
+        data: {
+          tier,
+          daily: this.buildWindow(limits.daily, daily.images + queued, daily.costUsd, nextDay),
+          monthly: this.buildWindow(limits.monthly, monthly.images + queued, monthly.costUsd, nextMonth),
+        },
+      };
+
+    } catch (error) {
+      logger.error('Failed to get usage allowance', {
+        walletAddress,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve usage allowance',
+      };
+    }
+  }
+
+  /**
+   * Whether a wallet may generate `images` more images. Fails with QUOTA_EXCEEDED
+   * when a generation limit would be passed and BUDGET_EXCEEDED when the spend
+   * limit is used up; the allowance is returned either way.
+   */
+  public async checkQuota(walletAddress: string, images: number, tierName?: string): Promise<ServiceResponse<QuotaAllowance>> {
+    const allowance = await this.getAllowance(walletAddress, tierName);
+    if (!allowance.success || !allowance.data || !config.usage.quotas.enabled) {
+      return allowance;
+    }
+
+    for (const period of ['daily', 'monthly'] as const) {
+      const window = allowance.data[period];
+      const label = period === 'daily' ? 'Daily' : 'Monthly';
+
+      if (window.generations.remaining !== null && window.generations.remaining < images) {
+        return {
+          success: false,
+          data: { ...allowance.data, exceeded: { period, limit: 'generations' } },
+          error: `${label} generation quota exceeded`,
+          code: 'QUOTA_EXCEEDED',
+        };
+      }
+
+      if (window.costUsd.remaining !== null && window.costUsd.remaining <= 0) {
+        return {
+          success: false,
+          data: { ...allowance.data, exceeded: { period, limit: 'costUsd' } },
+          error: `${label} generation budget exhausted`,
+          code: 'BUDGET_EXCEEDED',
+        };
+      }
+    }
+
+    return allowance;
+  }
+
+  /**
+   * Move a user to another tier
+   */
+  public async setTier(walletAddress: string, tier: string): Promise<ServiceResponse<QuotaAllowance>> {
+    try {
+      if (!this.tiers[tier]) {
+        return {
+          success: false,
+          error: `Unknown tier '${tier}'`,
+          code: 'INVALID_TIER',
+        };
+      }
+
+      const user = await User.findByWallet(walletAddress);
+      if (!user) {
+        return {
+          success: false,
+          error: 'User not found',
+          code: 'NOT_FOUND',
+        };
+      }
+
+      user.tier = tier;
+      await user.save();
+
+      logger.info('User tier changed', { walletAddress: user.walletAddress, tier });
+
+      return this.getAllowance(user.walletAddress, tier);
+
+    } catch (error) {
+      logger.error('Failed to set user tier', {
+        walletAddress,
+        tier,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to set user tier',
+      };
+    }
+  }
+
+  /**
+   * Estimated spend per provider and kind since a date
+   */
+  public async getCostBreakdown(since: Date): Promise<CostBreakdown> {
+    const rows: UsageCostBreakdownRow[] = await UsageRecord.getCostBreakdown(since);
+
+    return {
+      totalUsd: roundUsd(rows.reduce((sum, row) => sum + row.costUsd, 0)),
+      byProvider: rows.map(({ _id, ...totals }) => ({
+        provider: _id.provider,
+        kind: _id.kind,
+        ...totals,
+        costUsd: roundUsd(totals.costUsd),
+      })),
+    };
+  }
+
+  /**
+   * Images that queued requests of a wallet are about to generate
+   */
+  private async countQueuedImages(walletAddress: string): Promise<number> {
+    const [queued] = await NFTRequest.aggregate<{ images: number }>([
+      {
+        $match: {
+          walletAddress: walletAddress.toLowerCase(),
+          status: { $in: [RequestStatus.PENDING, RequestStatus.PROCESSING] },
+          'aiGenerationData.tokenURI': { $exists: false },
+          selectedVariantId: { $exists: false },
+        },
+      },
+      {
+        $group: {
+          _id: null,
+          images: { $sum: { $ifNull: ['$generationOptions.variants', config.ai.variants.default] } },
+        },
+      },
+    ]);
+
+    return queued?.images || 0;
+  }
+
+  private buildWindow(limits: QuotaLimits, images: number, costUsd: number, resetsAt: Date): QuotaWindow {
+    const usage = (used: number, limit: number | undefined): QuotaUsage => ({
+      used,
+      limit: limit ?? null,
+      remaining: limit === undefined ? null : Math.max(0, limit - used),
+    });
+
+    return {
+      generations: usage(images, limits.generations),
+      costUsd: {
+        ...usage(roundUsd(costUsd), limits.costUsd),
+        ...(limits.costUsd !== undefined ? { remaining: roundUsd(Math.max(0, limits.costUsd - costUsd)) } : {}),
+      },
+      resetsAt,
+    };
+  }
+}
+
+// Export singleton instance
+export const usageService = new UsageService();
\ No newline at end of file
@@ -174,7 +174,16 @@ export class UserService {
       }
 
       if (updateData.preferences !== undefined) {
-        user.preferences = { ...user.preferences, ...updateData.preferences };
+        const { notificationTypes, ...preferences } = updateData.preferences;
+        user.preferences = { ...user.preferences, ...preferences };
+
+        // Merge per-type switches instead of replacing the whole map
+        if (notificationTypes !== undefined) {
+          user.preferences.notificationTypes = {
+            ...user.toObject().preferences?.notificationTypes,
+            ...notificationTypes,
+          };
+        }
       }
 
       await user.save();
@@ -395,6 +404,46 @@ export class UserService {
     }
   }
 
+  /**
+   * Reactivate a deactivated user account
+   */
+  public async reactivateUser(userId: string): Promise<ServiceResponse<void>> {
+    try {
+      if (!Types.ObjectId.isValid(userId)) {
+        return {
+          success: false,
+          error: 'Invalid user ID format',
+        };
+      }
+
+      const user = await User.findById(userId);
+      if (!user) {
+        return {
+          success: false,
+          error: 'User not found',
+        };
+      }
+
+      user.isActive = true;
+      await user.save();
+
+      logger.info('User reactivated', { userId });
+
+      return { success: true };
+
+    } catch (error) {
+      logger.error('Failed to reactivate user', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to reactivate user',
+      };
+    }
+  }
+
   /**
    * Get all users with pagination (admin only)
    */
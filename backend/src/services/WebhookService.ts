@@ -0,0 +1,810 @@
+import os from 'os';
+import crypto from 'crypto';
+import axios from 'axios';
+import { Types } from 'mongoose';
+import { config } from '@/config/env';
+import { logger } from '@/utils/logger';
+import { isPublicHostname, publicHttpAgent, publicHttpsAgent } from '@/utils/network';
+import { WebhookEndpoint, IWebhookEndpointDocument } from '@/models/WebhookEndpoint';
+import { WebhookDelivery, IWebhookDeliveryDocument } from '@/models/WebhookDelivery';
+import {
+  ServiceResponse,
+  PaginationInfo,
+  IWebhookEndpoint,
+  IWebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookPayload,
+} from '@/types';
+
+export const SIGNATURE_HEADER = 'X-ChainWeave-Signature';
+
+// Cap on the payload a delivery sends and on the response it reads back
+const MAX_BODY_BYTES = 256 * 1024;
+
+export interface WebhookEndpointInput {
+  url: string;
+  events: WebhookEvent[];
+  description?: string;
+  allWallets?: boolean;
+}
+
+export interface WebhookEndpointUpdate {
+  url?: string;
+  events?: WebhookEvent[];
+  description?: string;
+  isActive?: boolean;
+}
+
+// Who is acting on an endpoint; admins may manage any endpoint
+export interface WebhookActor {
+  walletAddress: string;
+  isAdmin: boolean;
+}
+
+/**
+ * Outbound webhooks. Events are written to the delivery log, and a poller
+ * sends them with HMAC signatures, retrying failures with exponential backoff.
+ * Deliveries are claimed with a lease, so several instances can share the log.
+ */
+export class WebhookService {
+  private readonly workerId: string;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private stopping = false;
+  private inFlight = new Map<string, Promise<void>>();
+
+  constructor() {
+    this.workerId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+  }
+
+  /**
+   * Webhooks need WEBHOOK_SECRET, from which endpoint secrets are derived
+   */
+  public isEnabled(): boolean {
+    return config.webhook.enabled;
+  }
+
+  /**
+   * Signing secret of an endpoint. Derived rather than stored, so the database
+   * never holds it; rotating bumps the version and so changes the secret.
+   */
+  public getSecret(endpoint: IWebhookEndpointDocument): string {
+    const digest = crypto
+      .createHmac('sha256', config.webhook.secret || '')
+      .update(`${String(endpoint._id)}:${endpoint.secretVersion}`)
+      .digest('hex');
+
+    return `whsec_${digest}`;
+  }
+
+  /**
+   * Signature header value for a body sent at `timestamp` (unix seconds)
+   */
+  public sign(secret: string, timestamp: number, body: string): string {
+    const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${signature}`;
+  }
+
+  /**
+   * Record an event for every endpoint subscribed to it: the wallet's own
+   * endpoints and those receiving all wallets. Never throws.
+   */
+  public async dispatch(event: WebhookEvent, walletAddress: string | undefined, data: Record<string, unknown>): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    try {
+      const endpoints = await WebhookEndpoint.findSubscribers(event, walletAddress);
+      if (endpoints.length === 0) {
+        return;
+      }
+
+      const payload: WebhookPayload = {
+        id: `evt_${crypto.randomUUID()}`,
+        event,
+        data: walletAddress ? { walletAddress: walletAddress.toLowerCase(), ...data } : data,
+        timestamp: new Date(),
+      };
+
+      await WebhookDelivery.insertMany(endpoints.map(endpoint => ({
+        deliveryId: `dlv_${crypto.randomUUID()}`,
+        endpointId: endpoint._id,
+        event,
+        payload,
+      })));
+
+      if (this.pollTimer) {
+        void this.poll();
+      }
+
+    } catch (error) {
+      logger.error('Failed to dispatch webhook event', {
+        event,
+        walletAddress,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Register an endpoint; the signing secret is returned with it
+   */
+  public async createEndpoint(
+    ownerWallet: string,
+    input: WebhookEndpointInput
+  ): Promise<ServiceResponse<{ endpoint: IWebhookEndpoint; secret: string }>> {
+    try {
+      const count = await WebhookEndpoint.countDocuments({ ownerWallet: ownerWallet.toLowerCase() });
+      if (count >= config.webhook.maxEndpoints) {
+        return {
+          success: false,
+          error: `No more than ${config.webhook.maxEndpoints} webhook endpoints are allowed`,
+          code: 'LIMIT_REACHED',
+        };
+      }
+
+      const endpoint = await WebhookEndpoint.create({
+        ownerWallet,
+        url: input.url,
+        events: [...new Set(input.events)],
+        allWallets: !!input.allWallets,
+        ...(input.description ? { description: input.description } : {}),
+      });
+
+      logger.info('Webhook endpoint registered', {
+        endpointId: endpoint._id,
+        ownerWallet,
+        events: endpoint.events,
+        allWallets: endpoint.allWallets,
+      });
+
+      return {
+        success: true,
+        data: {
+          endpoint: endpoint.toJSON() as IWebhookEndpoint,
+          secret: this.getSecret(endpoint),
+        },
+      };
+
+    } catch (error) {
+      logger.error('Failed to register webhook endpoint', {
+        ownerWallet,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to register webhook endpoint',
+      };
+    }
+  }
+
+  /**
+   * Endpoints registered by a wallet
+   */
+  public async listEndpoints(ownerWallet: string): Promise<ServiceResponse<IWebhookEndpoint[]>> {
+    try {
+      const endpoints = await WebhookEndpoint.find({ ownerWallet: ownerWallet.toLowerCase() })
+        .sort({ createdAt: -1 })
+        .lean();
+
+      return {
+        success: true,
+        data: endpoints as IWebhookEndpoint[],
+      };
+
+    } catch (error) {
+      logger.error('Failed to list webhook endpoints', {
+        ownerWallet,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve webhook endpoints',
+      };
+    }
+  }
+
+  public async getEndpoint(endpointId: string, actor: WebhookActor): Promise<ServiceResponse<IWebhookEndpoint>> {
+    try {
+      const endpoint = await this.findEndpoint(endpointId, actor);
+      if (!endpoint) {
+        return this.notFound();
+      }
+
+      return {
+        success: true,
+        data: endpoint.toJSON() as IWebhookEndpoint,
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to retrieve webhook endpoint',
+      };
+    }
+  }
+
+  /**
+   * Update an endpoint. Re-enabling it clears its failure count.
+   */
+  public async updateEndpoint(
+    endpointId: string,
+    actor: WebhookActor,
+    update: WebhookEndpointUpdate
+  ): Promise<ServiceResponse<IWebhookEndpoint>> {
+    try {
+      const endpoint = await this.findEndpoint(endpointId, actor);
+      if (!endpoint) {
+        return this.notFound();
+      }
+
+      if (update.url) endpoint.url = update.url;
+      if (update.events) endpoint.events = [...new Set(update.events)];
+      if (update.description !== undefined) endpoint.description = update.description;
+
+      if (update.isActive === true && !endpoint.isActive) {
+        endpoint.isActive = true;
+        endpoint.consecutiveFailures = 0;
+        endpoint.set('disabledAt', undefined);
+        endpoint.set('disabledReason', undefined);
+      } else if (update.isActive === false && endpoint.isActive) {
+        endpoint.isActive = false;
+        endpoint.disabledAt = new Date();
+        endpoint.disabledReason = 'Disabled by owner';
+      }
+
+      await endpoint.save();
+
+      logger.info('Webhook endpoint updated', { endpointId, updatedFields: Object.keys(update) });
+
+      return {
+        success: true,
+        data: endpoint.toJSON() as IWebhookEndpoint,
+      };
+
+    } catch (error) {
+      logger.error('Failed to update webhook endpoint', {
+        endpointId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update webhook endpoint',
+      };
+    }
+  }
+
+  /**
+   * Remove an endpoint; its undelivered events are dropped
+   */
+  public async deleteEndpoint(endpointId: string, actor: WebhookActor): Promise<ServiceResponse<void>> {
+    try {
+      const endpoint = await this.findEndpoint(endpointId, actor);
+      if (!endpoint) {
+        return this.notFound();
+      }
+
+      await WebhookDelivery.updateMany(
+        { endpointId: endpoint._id, status: 'pending' },
+        { $set: { status: 'failed', lastError: 'Endpoint deleted' } }
+      );
+      await endpoint.deleteOne();
+
+      logger.info('Webhook endpoint deleted', { endpointId, actor: actor.walletAddress });
+
+      return { success: true };
+
+    } catch (error) {
+      logger.error('Failed to delete webhook endpoint', {
+        endpointId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to delete webhook endpoint',
+      };
+    }
+  }
+
+  /**
+   * Replace an endpoint's signing secret. Deliveries sent from now on use the new one.
+   */
+  public async rotateSecret(endpointId: string, actor: WebhookActor): Promise<ServiceResponse<{ secret: string }>> {
+    try {
+      const endpoint = await this.findEndpoint(endpointId, actor);
+      if (!endpoint) {
+        return this.notFound();
+      }
+
+      endpoint.secretVersion += 1;
+      await endpoint.save();
+
+      logger.info('Webhook secret rotated', { endpointId, secretVersion: endpoint.secretVersion });
+
+      return {
+        success: true,
+        data: { secret: this.getSecret(endpoint) },
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to rotate webhook secret',
+      };
+    }
+  }
+
+  /**
+   * Current signing secret of an endpoint
+   */
+  public async revealSecret(endpointId: string, actor: WebhookActor): Promise<ServiceResponse<{ secret: string }>> {
+    try {
+      const endpoint = await this.findEndpoint(endpointId, actor);
+      if (!endpoint) {
+        return this.notFound();
+      }
+
+      return {
+        success: true,
+        data: { secret: this.getSecret(endpoint) },
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to retrieve webhook secret',
+      };
+    }
+  }
+
+  /**
+   * Queue a `webhook.test` event for one endpoint, even while it is disabled
+   */
+  public async sendTest(endpointId: string, actor: WebhookActor): Promise<ServiceResponse<IWebhookDelivery>> {
+    try {
+      const endpoint = await this.findEndpoint(endpointId, actor);
+      if (!endpoint) {
+        return this.notFound();
+      }
+
+      const delivery = await WebhookDelivery.create({
+        deliveryId: `dlv_${crypto.randomUUID()}`,
+        endpointId: endpoint._id,
+        event: 'webhook.test',
+        payload: {
+          id: `evt_${crypto.randomUUID()}`,
+          event: 'webhook.test',
+          data: { endpointId: endpoint._id.toString() },
+          timestamp: new Date(),
+        },
+      });
+
+      if (this.pollTimer) {
+        void this.poll();
+      }
+
+      return {
+        success: true,
+        data: delivery.toJSON() as IWebhookDelivery,
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to send test event',
+      };
+    }
+  }
+
+  /**
+   * Delivery log of an endpoint, newest first
+   */
+  public async getDeliveries(
+    endpointId: string,
+    actor: WebhookActor,
+    options: { status?: WebhookDeliveryStatus; page?: number; limit?: number } = {}
+  ): Promise<ServiceResponse<{ deliveries: IWebhookDelivery[]; pagination: PaginationInfo }>> {
+    try {
+      const endpoint = await this.findEndpoint(endpointId, actor);
+      if (!endpoint) {
+        return this.notFound();
+      }
+
+      const page = Math.max(1, options.page || 1);
+      const limit = Math.min(100, Math.max(1, options.limit || 20));
+      const query = {
+        endpointId: endpoint._id,
+        ...(options.status ? { status: options.status } : {}),
+      };
+
+      const [deliveries, totalItems] = await Promise.all([
+        WebhookDelivery.find(query)
+          // Older deliveries may still carry the receiver's response body
+          .select('-lockedBy -lockExpiresAt -lastResponse')
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .lean(),
+        WebhookDelivery.countDocuments(query),
+      ]);
+
+      const totalPages = Math.ceil(totalItems / limit);
+
+      return {
+        success: true,
+        data: {
+          deliveries: deliveries as IWebhookDelivery[],
+          pagination: {
+            currentPage: page,
+            totalPages,
+            totalItems,
+            itemsPerPage: limit,
+            hasNext: page < totalPages,
+            hasPrev: page > 1,
+          },
+        },
+      };
+
+    } catch (error) {
+      logger.error('Failed to get webhook deliveries', {
+        endpointId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to retrieve webhook deliveries',
+      };
+    }
+  }
+
+  /**
+   * Send a logged event again as a new delivery. The payload, including its
+   * event id, is unchanged so receivers can deduplicate; it is signed afresh.
+   */
+  public async replayDelivery(
+    endpointId: string,
+    deliveryId: string,
+    actor: WebhookActor
+  ): Promise<ServiceResponse<IWebhookDelivery>> {
+    try {
+      const endpoint = await this.findEndpoint(endpointId, actor);
+      if (!endpoint) {
+        return this.notFound();
+      }
+
+      const original = await WebhookDelivery.findOne({ deliveryId, endpointId: endpoint._id });
+      if (!original) {
+        return {
+          success: false,
+          error: 'Delivery not found',
+          code: 'NOT_FOUND',
+        };
+      }
+
+      if (!endpoint.isActive) {
+        return {
+          success: false,
+          error: 'Endpoint is disabled; enable it before replaying deliveries',
+          code: 'ENDPOINT_DISABLED',
+        };
+      }
+
+      const replay = await WebhookDelivery.create({
+        deliveryId: `dlv_${crypto.randomUUID()}`,
+        endpointId: endpoint._id,
+        event: original.event,
+        payload: original.payload,
+        replayOf: original.deliveryId,
+      });
+
+      logger.info('Webhook delivery replayed', { endpointId, deliveryId, replayId: replay.deliveryId });
+
+      if (this.pollTimer) {
+        void this.poll();
+      }
+
+      return {
+        success: true,
+        data: replay.toJSON() as IWebhookDelivery,
+      };
+
+    } catch (error) {
+      logger.error('Failed to replay webhook delivery', {
+        endpointId,
+        deliveryId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      return {
+        success: false,
+        error: 'Failed to replay webhook delivery',
+      };
+    }
+  }
+
+  /**
+   * Start sending queued deliveries
+   */
+  public start(): void {
+    if (this.pollTimer || !this.isEnabled()) {
+      return;
+    }
+
+    this.stopping = false;
+    this.pollTimer = setInterval(() => void this.poll(), config.webhook.pollIntervalMs);
+
+    logger.info('Webhook dispatcher started', {
+      workerId: this.workerId,
+      concurrency: config.webhook.concurrency,
+    });
+
+    void this.poll();
+  }
+
+  /**
+   * Stop polling and wait for requests in flight. Deliveries cut off keep
+   * their lease until it expires and are then picked up again.
+   */
+  public async stop(): Promise<void> {
+    this.stopping = true;
+
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    await Promise.allSettled(this.inFlight.values());
+  }
+
+  /**
+   * Claim deliveries until the concurrency cap is reached or nothing is due
+   */
+  private async poll(): Promise<void> {
+    if (this.polling || this.stopping) {
+      return;
+    }
+
+    this.polling = true;
+
+    try {
+      while (!this.stopping && this.inFlight.size < config.webhook.concurrency) {
+        const delivery = await this.claim();
+        if (!delivery) {
+          break;
+        }
+
+        const execution = this.deliver(delivery).finally(() => {
+          this.inFlight.delete(delivery.deliveryId);
+        });
+        this.inFlight.set(delivery.deliveryId, execution);
+      }
+    } catch (error) {
+      logger.error('Webhook poll failed', {
+        workerId: this.workerId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async claim(): Promise<IWebhookDeliveryDocument | null> {
+    const now = new Date();
+
+    return WebhookDelivery.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'pending', nextAttemptAt: { $lte: now } },
+          { status: 'delivering', lockExpiresAt: { $lt: now } },
+        ],
+      },
+      {
+        $set: {
+          status: 'delivering',
+          lockedBy: this.workerId,
+          // Twice the request timeout leaves room to record the outcome
+          lockExpiresAt: new Date(now.getTime() + config.webhook.timeoutMs * 2),
+        },
+        $inc: { attempts: 1 },
+      },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    );
+  }
+
+  /**
+   * Send one claimed delivery and record the outcome
+   */
+  private async deliver(delivery: IWebhookDeliveryDocument): Promise<void> {
+    const endpoint = await WebhookEndpoint.findById(delivery.endpointId);
+    const isTest = delivery.event === 'webhook.test';
+
+    if (!endpoint || (!endpoint.isActive && !isTest)) {
+      await this.settle(delivery, {
+        status: 'failed',
+        lastError: endpoint ? 'Endpoint disabled' : 'Endpoint deleted',
+      });
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startedAt = Date.now();
+    let statusCode: number | undefined;
+    let error: string | undefined;
+
+    try {
+      // Connections to IP literals skip the lookup that keeps internal addresses out
+      if (!isPublicHostname(new URL(endpoint.url).hostname)) {
+        throw new Error('Endpoint URL must use a public host name');
+      }
+
+      const response = await axios.post(endpoint.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'ChainWeave-Webhooks/1.0',
+          'X-ChainWeave-Event': delivery.event,
+          'X-ChainWeave-Delivery': delivery.deliveryId,
+          [SIGNATURE_HEADER]: this.sign(this.getSecret(endpoint), timestamp, body),
+        },
+        timeout: config.webhook.timeoutMs,
+        maxRedirects: 0,
+        maxBodyLength: MAX_BODY_BYTES,
+        maxContentLength: MAX_BODY_BYTES,
+        httpAgent: publicHttpAgent,
+        httpsAgent: publicHttpsAgent,
+        responseType: 'text',
+        transformResponse: (data: string) => data,
+        validateStatus: () => true,
+      });
+
+      statusCode = response.status;
+      if (statusCode < 200 || statusCode >= 300) {
+        error = `HTTP ${statusCode}`;
+      }
+    } catch (requestError) {
+      error = requestError instanceof Error ? requestError.message : 'Unknown error';
+    }
+
+    const attempt = {
+      at: new Date(startedAt),
+      ...(statusCode !== undefined ? { statusCode } : {}),
+      ...(error ? { error: error.substring(0, 500) } : {}),
+      durationMs: Date.now() - startedAt,
+    };
+
+    if (!error) {
+      await this.settle(delivery, {
+        status: 'delivered',
+        deliveredAt: new Date(),
+        ...(statusCode !== undefined ? { lastStatusCode: statusCode } : {}),
+      }, attempt);
+
+      await WebhookEndpoint.updateOne(
+        { _id: endpoint._id },
+        { $set: { consecutiveFailures: 0, lastDeliveryAt: new Date(), lastSuccessAt: new Date() } }
+      );
+      return;
+    }
+
+    const exhausted = delivery.attempts >= config.webhook.maxAttempts;
+    const nextAttemptAt = new Date(Date.now() + this.getBackoffDelay(delivery.attempts));
+
+    logger.warn('Webhook delivery failed', {
+      deliveryId: delivery.deliveryId,
+      endpointId: endpoint._id,
+      attempt: delivery.attempts,
+      statusCode,
+      error,
+      ...(exhausted ? {} : { nextAttemptAt: nextAttemptAt.toISOString() }),
+    });
+
+    await this.settle(delivery, {
+      status: exhausted || isTest ? 'failed' : 'pending',
+      nextAttemptAt,
+      lastError: error.substring(0, 500),
+      ...(statusCode !== undefined ? { lastStatusCode: statusCode } : {}),
+    }, attempt);
+
+    if (!isTest) {
+      await this.recordEndpointFailure(endpoint, error);
+    }
+  }
+
+  /**
+   * Write the result of an attempt, if this worker still holds the lease
+   */
+  private async settle(
+    delivery: IWebhookDeliveryDocument,
+    update: Partial<IWebhookDelivery>,
+    attempt?: IWebhookDelivery['attemptLog'][number]
+  ): Promise<void> {
+    try {
+      await WebhookDelivery.updateOne(
+        { _id: delivery._id, status: 'delivering', lockedBy: this.workerId },
+        {
+          $set: update,
+          $unset: { lockedBy: '', lockExpiresAt: '' },
+          ...(attempt ? { $push: { attemptLog: attempt } } : {}),
+        }
+      );
+    } catch (error) {
+      logger.error('Failed to record webhook delivery result', {
+        deliveryId: delivery.deliveryId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Count a failed attempt against the endpoint and disable it once failures
+   * have piled up, dropping whatever was still waiting for it
+   */
+  private async recordEndpointFailure(endpoint: IWebhookEndpointDocument, error: string): Promise<void> {
+    const updated = await WebhookEndpoint.findOneAndUpdate(
+      { _id: endpoint._id },
+      { $inc: { consecutiveFailures: 1 }, $set: { lastDeliveryAt: new Date() } },
+      { new: true }
+    );
+
+    if (!updated || !updated.isActive || updated.consecutiveFailures < config.webhook.disableAfterFailures) {
+      return;
+    }
+
+    const reason = `Disabled after ${updated.consecutiveFailures} consecutive failed deliveries (last: ${error})`;
+    await WebhookEndpoint.updateOne(
+      { _id: endpoint._id, isActive: true },
+      { $set: { isActive: false, disabledAt: new Date(), disabledReason: reason.substring(0, 500) } }
+    );
+    await WebhookDelivery.updateMany(
+      { endpointId: endpoint._id, status: 'pending' },
+      { $set: { status: 'failed', lastError: 'Endpoint disabled' } }
+    );
+
+    logger.warn('Webhook endpoint disabled', {
+      endpointId: endpoint._id,
+      ownerWallet: endpoint.ownerWallet,
+      consecutiveFailures: updated.consecutiveFailures,
+    });
+  }
+
+  private async findEndpoint(endpointId: string, actor: WebhookActor): Promise<IWebhookEndpointDocument | null> {
+    if (!Types.ObjectId.isValid(endpointId)) {
+      return null;
+    }
+
+    return WebhookEndpoint.findOne({
+      _id: endpointId,
+      ...(actor.isAdmin ? {} : { ownerWallet: actor.walletAddress.toLowerCase() }),
+    });
+  }
+
+  private notFound<T>(): ServiceResponse<T> {
+    return {
+      success: false,
+      error: 'Webhook endpoint not found',
+      code: 'NOT_FOUND',
+    };
+  }
+
+  /**
+   * Exponential backoff with up to 10% jitter
+   */
+  private getBackoffDelay(attempt: number): number {
+    const delay = Math.min(
+      config.webhook.backoffBaseMs * Math.pow(2, attempt - 1),
+      config.webhook.backoffMaxMs
+    );
+
+    return Math.round(delay + Math.random() * delay * 0.1);
+  }
+}
+
+// Export singleton instance
+export const webhookService = new WebhookService();
\ No newline at end of file
@@ -10,28 +10,137 @@ export interface IUser {
   avatar?: string;
   isActive: boolean;
   preferences: UserPreferences;
+  // Usage tier that sets the generation quotas (the configured default when unset)
+  tier?: string;
+  // Staff roles, and permissions granted on top of what those roles give
+  roles: UserRole[];
+  permissions: Permission[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Staff roles; users without one only reach their own resources
+export enum UserRole {
+  ADMIN = 'admin',
+  MODERATOR = 'moderator',
+  SUPPORT = 'support',
+}
+
+export enum Permission {
+  USERS_READ = 'users:read',
+  USERS_MANAGE = 'users:manage',
+  ROLES_MANAGE = 'roles:manage',
+  REQUESTS_READ = 'requests:read',
+  REQUESTS_MANAGE = 'requests:manage',
+  COLLECTIONS_MANAGE = 'collections:manage',
+  MODERATION_REVIEW = 'moderation:review',
+  USAGE_READ = 'usage:read',
+  USAGE_MANAGE = 'usage:manage',
+  AUDIT_READ = 'audit:read',
+}
+
+// Roles and permissions a user effectively holds
+export interface UserAccess {
+  roles: UserRole[];
+  permissions: Permission[];
+}
+
 export interface UserPreferences {
   defaultChain: number;
   aiStyle: string;
   notifications: boolean;
+  notificationTypes?: NotificationPreferences;
   publicProfile: boolean;
   emailNotifications?: boolean;
   theme?: 'light' | 'dark';
 }
 
+// Notification types
+export enum NotificationType {
+  GENERATION = 'generation',
+  MINT = 'mint',
+  FAILURE = 'failure',
+  COLLECTION = 'collection',
+  SYSTEM = 'system',
+}
+
+export type NotificationPreferences = Partial<Record<NotificationType, boolean>>;
+
+export interface INotification {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  type: NotificationType;
+  title: string;
+  message: string;
+  actionUrl?: string;
+  data?: {
+    requestId?: string;
+    collectionId?: string;
+    status?: string;
+    tokenId?: number;
+    transactionHash?: string;
+    chainId?: number;
+  };
+  read: boolean;
+  readAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Auth challenge types
+export interface IAuthChallenge {
+  _id: Types.ObjectId;
+  walletAddress: string;
+  nonce: string;
+  message: string;
+  issuedAt: Date;
+  expiresAt: Date;
+}
+
+// Session types
+export enum SessionRevocationReason {
+  LOGOUT = 'logout',
+  USER_REVOKED = 'user_revoked',
+  TOKEN_REUSE = 'token_reuse',
+}
+
+export interface ISession {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  walletAddress: string;
+  familyId: string;
+  refreshTokenId: string;
+  accessTokenId: string;
+  accessTokenExpiresAt: Date;
+  device: string;
+  userAgent?: string;
+  ipAddress?: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevocationReason;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IRevokedToken {
+  _id: Types.ObjectId;
+  tokenId: string;
+  expiresAt: Date;
+}
+
 // NFT Request types
 export enum RequestStatus {
   PENDING = 'pending',
   PROCESSING = 'processing',
+  AWAITING_SELECTION = 'awaiting_selection',
+  UNDER_REVIEW = 'under_review',
   AI_COMPLETED = 'ai_completed',
   CROSS_CHAIN_PENDING = 'cross_chain_pending',
   COMPLETED = 'completed',
   FAILED = 'failed',
   CANCELLED = 'cancelled',
+  REJECTED = 'rejected',
 }
 
 export interface INFTRequest {
@@ -44,22 +153,95 @@ export interface INFTRequest {
   recipient: string;
   status: RequestStatus;
   fee?: number;
+  generationOptions?: GenerationOptions;
+  variantRound?: number;
+  selectedVariantId?: Types.ObjectId;
   aiGenerationData?: AIGenerationData;
   blockchainData?: BlockchainData;
   metadata?: NFTMetadata;
+  likeCount: number;
   createdAt: Date;
   updatedAt: Date;
   completedAt?: Date;
   errorMessage?: string;
 }
 
+export interface INFTLike {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  requestId: string;
+  createdAt: Date;
+}
+
+// Image generation backends (see services/ImageProviderService)
+export type ImageProviderName = 'openai' | 'stability' | 'local' | 'test';
+
+export type ImageQuality = 'standard' | 'hd';
+
+// How an uploaded reference image guides generation
+export type ReferenceMode = 'variation' | 'inpaint' | 'style';
+
+// Reference image stored with a request, pinned to IPFS when it is submitted
+export interface ReferenceImageOptions {
+  mode: ReferenceMode;
+  ipfsHash: string;
+  contentType: string;
+  // Mask for inpainting: white marks the area to repaint
+  maskIpfsHash?: string;
+  strength?: number;
+}
+
+// Reference image with its bytes, ready for a provider
+export interface ReferenceImageInput extends ReferenceImageOptions {
+  image: Buffer;
+  mask?: Buffer;
+}
+
+// Generation settings chosen when the request was created
+export interface GenerationOptions {
+  style?: string;
+  attributes?: NFTAttribute[];
+  provider?: ImageProviderName;
+  model?: string;
+  size?: string;
+  quality?: ImageQuality;
+  // Candidate images to choose from before minting (1 mints directly)
+  variants?: number;
+  reference?: ReferenceImageOptions;
+  // Use an earlier image generated by the same wallet from identical settings
+  reuseCached?: boolean;
+  metadataProfile?: MetadataProfile;
+}
+
+// Candidate image kept until the owner picks one to mint
+export interface IGenerationDraft {
+  _id: Types.ObjectId;
+  requestId: string;
+  round: number;
+  index: number;
+  provider: ImageProviderName;
+  imageModel: string;
+  description?: string;
+  contentType: string;
+  data: Buffer;
+  size: number;
+  // Restored from the generation cache rather than generated
+  cached?: boolean;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
 export interface AIGenerationData {
+  provider?: ImageProviderName;
   model: string;
   generatedImageUrl?: string;
   ipfsHash?: string;
   tokenURI?: string;
   processingTime?: number;
   retryCount: number;
+  // Image came from the generation cache instead of a provider
+  cacheHit?: boolean;
+  perceptualHash?: string;
 }
 
 export interface BlockchainData {
@@ -69,18 +251,306 @@ export interface BlockchainData {
   gasUsed?: number;
   blockNumber?: number;
   confirmations?: number;
+  // Mint on the destination chain, as observed by its CrossChainMinter indexer
+  mintTransactionHash?: string;
+  mintBlockNumber?: number;
+  royalty?: number;
+}
+
+// How marketplaces render a numeric trait; 'date' values are unix timestamps
+export type NFTDisplayType = 'number' | 'boost_number' | 'boost_percentage' | 'date';
+
+export interface NFTAttribute {
+  trait_type: string;
+  value: string | number;
+  display_type?: NFTDisplayType;
+  max_value?: number;
+}
+
+// Marketplace format metadata is written in (see services/MetadataService)
+export type MetadataProfile = 'opensea' | 'erc1155' | 'rarible';
+
+// Inputs an artwork was derived from
+export interface NFTProvenance {
+  referenceImage: string;
+  referenceMode: ReferenceMode;
+  mask?: string;
 }
 
 export interface NFTMetadata {
   name: string;
   description: string;
   image: string;
-  attributes?: Array<{
-    trait_type: string;
-    value: string | number;
-  }>;
+  attributes?: NFTAttribute[];
+  provenance?: NFTProvenance;
   external_url?: string;
   animation_url?: string;
+  // Six hex digits without '#'
+  background_color?: string;
+  properties?: Record<string, unknown>;
+}
+
+// Generation cache types
+export interface IGenerationCacheEntry {
+  _id: Types.ObjectId;
+  // Hash of the normalized prompt, style and generation parameters
+  key: string;
+  walletAddress: string;
+  requestId: string;
+  imageHash: string;
+  contentType: string;
+  provider: ImageProviderName;
+  imageModel: string;
+  description?: string;
+  perceptualHash?: string;
+  hits: number;
+  lastHitAt?: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Perceptual hash of a pinned artwork, used to spot near-identical images
+export interface IArtworkFingerprint {
+  _id: Types.ObjectId;
+  requestId: string;
+  walletAddress: string;
+  ipfsHash: string;
+  perceptualHash: string;
+  // Hash split into 8-bit bands; any two hashes within 7 bits share a band
+  bands: string[];
+  createdAt: Date;
+}
+
+// Moderation types
+export type ModerationSubject = 'prompt' | 'reference' | 'image';
+
+export type ModerationAction = 'allow' | 'review' | 'block';
+
+export type ModerationCategory =
+  | 'sexual'
+  | 'minors'
+  | 'violence'
+  | 'hate'
+  | 'harassment'
+  | 'self-harm'
+  | 'illicit'
+  | 'duplicate'
+  | 'other';
+
+export type ModerationReviewStatus = 'pending' | 'approved' | 'rejected' | 'dismissed';
+
+// Entry of the configurable rule set (terms match whole words, patterns are regular expressions)
+export interface ModerationRule {
+  id: string;
+  category: ModerationCategory;
+  action: Exclude<ModerationAction, 'allow'>;
+  terms?: string[];
+  pattern?: string;
+  description?: string;
+}
+
+// Why a classifier objected to a piece of content
+export interface ModerationFlag {
+  classifier: string;
+  category: ModerationCategory;
+  action: Exclude<ModerationAction, 'allow'>;
+  ruleId?: string;
+  match?: string;
+  score?: number;
+}
+
+export interface ModerationReview {
+  status: ModerationReviewStatus;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  note?: string;
+}
+
+// Audit record of one moderation decision
+export interface IModerationDecision {
+  _id: Types.ObjectId;
+  requestId?: string;
+  walletAddress?: string;
+  subject: ModerationSubject;
+  action: ModerationAction;
+  flags: ModerationFlag[];
+  classifiers: string[];
+  contentHash: string;
+  excerpt?: string;
+  draftId?: Types.ObjectId;
+  review?: ModerationReview;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Pinning types
+export type PinningProviderName = 'pinata' | 'kubo';
+
+export type PinStatus = 'pinned' | 'pinning' | 'missing' | 'failed';
+
+// Pin status of one CID on one provider
+export interface IPinRecord {
+  _id: Types.ObjectId;
+  cid: string;
+  provider: PinningProviderName;
+  status: PinStatus;
+  name?: string;
+  contentType?: string;
+  size?: number;
+  attempts: number;
+  lastError?: string;
+  lastCheckedAt?: Date;
+  pinnedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Usage and cost types
+export type UsageKind = 'text' | 'image' | 'pin';
+
+// Something a provider was used for, before it is priced
+export interface UsageItem {
+  kind: UsageKind;
+  // gemini, an image provider or pinata
+  provider: string;
+  operation: string;
+  modelName?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  images?: number;
+  quality?: ImageQuality;
+  bytes?: number;
+}
+
+// Ledger entry: one priced usage item
+export interface IUsageRecord extends UsageItem {
+  _id: Types.ObjectId;
+  requestId?: string;
+  walletAddress?: string;
+  costUsd: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Limits for one period; a missing limit is unlimited
+export interface QuotaLimits {
+  generations?: number;
+  costUsd?: number;
+}
+
+export interface UsageTier {
+  daily: QuotaLimits;
+  monthly: QuotaLimits;
+}
+
+export interface QuotaUsage {
+  used: number;
+  limit: number | null;
+  remaining: number | null;
+}
+
+export interface QuotaWindow {
+  generations: QuotaUsage;
+  costUsd: QuotaUsage;
+  resetsAt: Date;
+}
+
+export type QuotaPeriod = 'daily' | 'monthly';
+
+// What a wallet has used and has left in the current day and month
+export interface QuotaAllowance {
+  tier: string;
+  daily: QuotaWindow;
+  monthly: QuotaWindow;
+  // Set when a check fails
+  exceeded?: {
+    period: QuotaPeriod;
+    limit: 'generations' | 'costUsd';
+  };
+}
+
+// Generation queue types
+export enum JobStatus {
+  QUEUED = 'queued',
+  ACTIVE = 'active',
+  COMPLETED = 'completed',
+  DEAD = 'dead',
+}
+
+export interface IGenerationJob {
+  _id: Types.ObjectId;
+  requestId: string;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lockedBy?: string;
+  lockExpiresAt?: Date;
+  lastError?: string;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Event indexer types
+export enum IndexedEventStatus {
+  PROCESSED = 'processed',
+  ROLLED_BACK = 'rolled_back',
+  // Handler failed; retried on the next pass
+  FAILED = 'failed',
+  // Handler kept failing; skipped so that the indexer can move on
+  DEAD_LETTERED = 'dead_lettered',
+}
+
+export interface BlockCheckpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface IIndexerCursor {
+  _id: Types.ObjectId;
+  indexerId: string;
+  chainId: number;
+  contractAddress: string;
+  lastProcessedBlock: number;
+  checkpoints: BlockCheckpoint[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IIndexedEvent {
+  _id: Types.ObjectId;
+  indexerId: string;
+  chainId: number;
+  eventName: string;
+  transactionHash: string;
+  logIndex: number;
+  blockNumber: number;
+  blockHash: string;
+  args: Record<string, unknown>;
+  status: IndexedEventStatus;
+  rolledBackAt?: Date;
+  // Failed handler runs and the last error, for failed and dead-lettered events
+  attempts?: number;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ITokenOwnership {
+  _id: Types.ObjectId;
+  chainId: number;
+  contractAddress: string;
+  tokenId: number;
+  owner: string;
+  requestId?: string;
+  burned: boolean;
+  mintTransactionHash?: string;
+  lastTransactionHash: string;
+  lastBlockNumber: number;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 // Collection types
@@ -96,10 +566,22 @@ export interface ICollection {
   royalty: number;
   isActive: boolean;
   metadata: CollectionMetadata;
+  frozenMetadata?: FrozenCollectionMetadata;
+  // Picked by staff; featured collections are listed first
+  featuredAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Token metadata packed into one IPFS directory; tokens resolve as `${baseURI}${tokenId}.json`
+export interface FrozenCollectionMetadata {
+  baseURI: string;
+  metadataCid: string;
+  imagesCid: string;
+  tokenCount: number;
+  frozenAt: Date;
+}
+
 export interface CollectionMetadata {
   image?: string;
   banner?: string;
@@ -138,6 +620,7 @@ export interface ApiResponse<T = any> {
   data?: T;
   message?: string;
   error?: string;
+  details?: ValidationError[];
   pagination?: PaginationInfo;
 }
 
@@ -161,8 +644,11 @@ export interface PaginationQuery {
 
 // Request types
 export interface AuthenticatedRequest extends Request {
-  user?: any; // Will be IUserDocument from mongoose
+  user?: IUser;
   walletAddress?: string;
+  sessionId?: string;
+  tokenId?: string;
+  tokenExpiresAt?: Date;
 }
 
 export interface NFTRequestBody {
@@ -170,7 +656,84 @@ export interface NFTRequestBody {
   destinationChainId: number;
   recipient?: string;
   style?: string;
-  attributes?: Record<string, any>;
+  // Normalized by generationParamsValidation into a trait list
+  attributes?: NFTAttribute[];
+  provider?: ImageProviderName;
+  model?: string;
+  size?: string;
+  quality?: ImageQuality;
+  variants?: number;
+  referenceMode?: ReferenceMode;
+  referenceStrength?: number;
+  reuseCached?: boolean;
+  metadataProfile?: MetadataProfile;
+}
+
+// Files accepted alongside a generation request
+export interface ReferenceUploads {
+  referenceImage?: UploadedFile;
+  mask?: UploadedFile;
+}
+
+export interface ChallengeBody {
+  walletAddress: string;
+  // Chain the wallet signs in on; defaults to ZetaChain
+  chainId?: number | string;
+}
+
+export interface ConnectWalletBody {
+  walletAddress: string;
+  // Signed SIWE challenge issued by POST /auth/challenge
+  challenge: string;
+  signature: string;
+  username?: string;
+  email?: string;
+}
+
+export interface RefreshTokenBody {
+  refreshToken: string;
+}
+
+export interface ToggleLikeBody {
+  // Desired state; the current state is flipped when omitted
+  liked?: boolean;
+}
+
+export interface PromptSuggestionsBody {
+  userInput: string;
+  style?: string;
+}
+
+export interface MetadataValidationBody {
+  // Checked against the metadata schema before it is formatted
+  metadata: unknown;
+  profile?: MetadataProfile;
+  tokenId?: number | string;
+}
+
+export interface QuotaTierBody {
+  tier: string;
+}
+
+export interface VariantSelectionBody {
+  variantId?: string;
+  // Discard the drafts and generate a new round instead of picking one
+  regenerate?: boolean;
+}
+
+export interface ModerationReviewBody {
+  // Reviewer's reason, kept on the decision
+  note?: string;
+}
+
+export interface AdminActionBody {
+  // Recorded in the audit log
+  reason?: string;
+}
+
+export interface UserAccessBody extends AdminActionBody {
+  roles?: UserRole[];
+  permissions?: Permission[];
 }
 
 export interface UserUpdateBody {
@@ -201,9 +764,15 @@ export interface TransactionResult {
 export interface AIGenerationRequest {
   prompt: string;
   style?: string;
+  attributes?: NFTAttribute[];
+  provider?: ImageProviderName;
   model?: string;
   size?: string;
-  quality?: string;
+  quality?: ImageQuality;
+  reference?: ReferenceImageInput;
+  metadataProfile?: MetadataProfile;
+  // Collects provider usage for the cost ledger
+  usage?: UsageItem[];
 }
 
 export interface AIGenerationResult {
@@ -211,6 +780,8 @@ export interface AIGenerationResult {
   ipfsHash: string;
   tokenURI: string;
   metadata: NFTMetadata;
+  provider: ImageProviderName;
+  model: string;
   processingTime: number;
 }
 
@@ -221,9 +792,10 @@ export interface UploadedFile {
   encoding: string;
   mimetype: string;
   size: number;
-  destination: string;
-  filename: string;
-  path: string;
+  // Only set for uploads stored on disk
+  destination?: string;
+  filename?: string;
+  path?: string;
   buffer?: Buffer;
 }
 
@@ -244,7 +816,7 @@ export class AppError extends Error {
 export interface ValidationError {
   field: string;
   message: string;
-  value?: any;
+  value?: unknown;
 }
 
 // Service types
@@ -253,27 +825,128 @@ export interface ServiceResponse<T = any> {
   data?: T;
   error?: string;
   code?: string;
+  details?: ValidationError[];
 }
 
 // Health check types
+export type HealthStatus = 'healthy' | 'degraded' | 'unhealthy';
+
+export interface ComponentHealth {
+  status: HealthStatus;
+  latencyMs: number;
+  // Why the component is degraded or unhealthy
+  warnings?: string[];
+  error?: string;
+  details?: Record<string, unknown>;
+}
+
 export interface HealthCheck {
-  status: 'healthy' | 'unhealthy';
+  status: HealthStatus;
   timestamp: Date;
   services: {
     database: 'connected' | 'disconnected' | 'error';
-    redis: 'connected' | 'disconnected' | 'error';
-    blockchain: 'connected' | 'disconnected' | 'error';
-    ai: 'available' | 'unavailable' | 'error';
-    ipfs: 'available' | 'unavailable' | 'error';
+    redis: 'connected' | 'disconnected' | 'error' | 'not_configured';
+    blockchain: 'connected' | 'degraded' | 'disconnected' | 'error';
+    ai: 'available' | 'degraded' | 'unavailable' | 'error';
+    ipfs: 'available' | 'degraded' | 'unavailable' | 'error';
   };
+  checks: Record<keyof HealthCheck['services'], ComponentHealth>;
   uptime: number;
   version: string;
+  // When the checks ran; results are cached between probes
+  checkedAt: Date;
 }
 
 // Webhook types
+export type WebhookEvent =
+  | 'request.created'
+  | 'request.status_changed'
+  | 'nft.minted'
+  | 'nft.reverted'
+  | 'collection.updated'
+  | 'webhook.test';
+
+// JSON body of a delivery. The signature is sent in the X-ChainWeave-Signature
+// header as `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`.
 export interface WebhookPayload {
-  event: string;
-  data: Record<string, any>;
+  id: string;
+  event: WebhookEvent;
+  data: Record<string, unknown>;
   timestamp: Date;
-  signature?: string;
+}
+
+export interface IWebhookEndpoint {
+  _id: Types.ObjectId;
+  ownerWallet: string;
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+  // Receive events for every wallet instead of the owner's only (admins)
+  allWallets: boolean;
+  isActive: boolean;
+  // Bumped when the signing secret is rotated
+  secretVersion: number;
+  consecutiveFailures: number;
+  disabledAt?: Date;
+  disabledReason?: string;
+  lastDeliveryAt?: Date;
+  lastSuccessAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'delivered' | 'failed';
+
+export interface WebhookAttempt {
+  at: Date;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface IWebhookDelivery {
+  _id: Types.ObjectId;
+  deliveryId: string;
+  endpointId: Types.ObjectId;
+  event: WebhookEvent;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  attemptLog: WebhookAttempt[];
+  nextAttemptAt: Date;
+  lockedBy?: string;
+  lockExpiresAt?: Date;
+  lastStatusCode?: number;
+  lastError?: string;
+  deliveredAt?: Date;
+  // Delivery this one re-sends
+  replayOf?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Admin audit types
+export type AuditAction =
+  | 'user.deactivated'
+  | 'user.reactivated'
+  | 'user.access_updated'
+  | 'user.tier_updated'
+  | 'request.retried'
+  | 'request.failed'
+  | 'collection.featured'
+  | 'collection.unfeatured';
+
+export type AuditTargetType = 'user' | 'request' | 'collection';
+
+// One action taken by a staff member through the admin API
+export interface IAuditLog {
+  _id: Types.ObjectId;
+  actorWallet: string;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  reason?: string;
+  details?: Record<string, unknown>;
+  ip?: string;
+  createdAt: Date;
 }
\ No newline at end of file
@@ -0,0 +1,355 @@
+import crypto from 'crypto';
+
+// Multicodec and multihash codes
+const CODEC_RAW = 0x55;
+const CODEC_DAG_PB = 0x70;
+const HASH_SHA2_256 = 0x12;
+const SHA2_256_LENGTH = 32;
+
+// Same layout Kubo uses for CIDv1 adds: 256 KiB raw leaves, balanced tree of 174-link nodes
+const CHUNK_SIZE = 262144;
+const MAX_LINKS = 174;
+// Larger directory nodes would need HAMT sharding, which is not implemented
+const MAX_DIRECTORY_NODE_SIZE = 1048576;
+
+const UNIXFS_DIRECTORY = 1;
+const UNIXFS_FILE = 2;
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+export interface CarEntry {
+  name: string;
+  content: Buffer;
+}
+
+export interface CarBlock {
+  cid: Buffer;
+  data: Buffer;
+}
+
+export interface DirectoryCar {
+  rootCid: string;
+  car: Buffer;
+  blockCount: number;
+  // Cumulative size of the DAG, as reported for the root link
+  dagSize: number;
+  // CID of each entry, by name
+  entries: Record<string, string>;
+}
+
+interface DagNode {
+  cid: Buffer;
+  // Encoded size of the node and everything below it
+  tsize: number;
+  // Size of the file bytes under the node
+  fileSize: number;
+}
+
+interface PBLink {
+  hash: Buffer;
+  name?: string;
+  tsize: number;
+}
+
+const varint = (value: number): Buffer => {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+  return Buffer.from(bytes);
+};
+
+const readVarint = (buffer: Buffer, offset: number): [number, number] => {
+  let value = 0;
+  let factor = 1;
+  for (let i = offset; i < buffer.length && i < offset + 8; i++) {
+    const byte = buffer[i]!;
+    value += (byte & 0x7f) * factor;
+    if (byte < 0x80) {
+      return [value, i + 1];
+    }
+    factor *= 0x80;
+  }
+  throw new Error('Invalid varint');
+};
+
+// Protobuf field helpers: tag is (field << 3) | wire type
+const protoBytes = (field: number, value: Buffer): Buffer =>
+  Buffer.concat([varint((field << 3) | 2), varint(value.length), value]);
+
+const protoVarint = (field: number, value: number): Buffer =>
+  Buffer.concat([varint(field << 3), varint(value)]);
+
+const createCid = (codec: number, data: Buffer): Buffer => {
+  const digest = crypto.createHash('sha256').update(data).digest();
+  return Buffer.concat([varint(1), varint(codec), varint(HASH_SHA2_256), varint(SHA2_256_LENGTH), digest]);
+};
+
+/**
+ * Multibase base32 string of a binary CIDv1 (the familiar `bafy…` form)
+ */
+export const cidToString = (cid: Buffer): string => {
+  let output = 'b';
+  let bits = 0;
+  let value = 0;
+
+  for (const byte of cid) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+// dag-pb puts Links (field 2) before Data (field 1)
+const encodePBNode = (links: PBLink[], data: Buffer): Buffer => Buffer.concat([
+  ...links.map(link => protoBytes(2, Buffer.concat([
+    protoBytes(1, link.hash),
+    protoBytes(2, Buffer.from(link.name ?? '', 'utf8')),
+    protoVarint(3, link.tsize),
+  ]))),
+  protoBytes(1, data),
+]);
+
+const encodeUnixFS = (type: number, fileSize?: number, blockSizes: number[] = []): Buffer => Buffer.concat([
+  protoVarint(1, type),
+  ...(fileSize !== undefined ? [protoVarint(3, fileSize)] : []),
+  ...blockSizes.map(size => protoVarint(4, size)),
+]);
+
+/**
+ * Chunk a file into raw leaves under a balanced tree, appending the blocks
+ */
+const addFile = (content: Buffer, blocks: CarBlock[]): DagNode => {
+  let layer: DagNode[] = [];
+
+  for (let offset = 0; offset === 0 || offset < content.length; offset += CHUNK_SIZE) {
+    const chunk = content.subarray(offset, offset + CHUNK_SIZE);
+    const cid = createCid(CODEC_RAW, chunk);
+    blocks.push({ cid, data: chunk });
+    layer.push({ cid, tsize: chunk.length, fileSize: chunk.length });
+  }
+
+  while (layer.length > 1) {
+    const parents: DagNode[] = [];
+
+    for (let i = 0; i < layer.length; i += MAX_LINKS) {
+      const children = layer.slice(i, i + MAX_LINKS);
+      const fileSize = children.reduce((total, child) => total + child.fileSize, 0);
+      const data = encodePBNode(
+        children.map(child => ({ hash: child.cid, name: '', tsize: child.tsize })),
+        encodeUnixFS(UNIXFS_FILE, fileSize, children.map(child => child.fileSize))
+      );
+      const cid = createCid(CODEC_DAG_PB, data);
+
+      blocks.push({ cid, data });
+      parents.push({
+        cid,
+        tsize: data.length + children.reduce((total, child) => total + child.tsize, 0),
+        fileSize,
+      });
+    }
+
+    layer = parents;
+  }
+
+  return layer[0]!;
+};
+
+// dag-cbor header: { roots: [CID], version: 1 }, CIDs as tag 42 over 0x00-prefixed bytes
+const encodeCarHeader = (root: Buffer): Buffer => {
+  const cidBytes = Buffer.concat([Buffer.from([0x00]), root]);
+  const header = Buffer.concat([
+    Buffer.from([0xa2, 0x65]), Buffer.from('roots'),
+    Buffer.from([0x81, 0xd8, 0x2a, 0x58, cidBytes.length]), cidBytes,
+    Buffer.from([0x67]), Buffer.from('version'),
+    Buffer.from([0x01]),
+  ]);
+  return Buffer.concat([varint(header.length), header]);
+};
+
+/**
+ * Package files as one flat UnixFS directory in a CARv1 archive. The root CID
+ * is computed locally, so it is known before anything is uploaded.
+ */
+export const buildDirectoryCar = (files: CarEntry[]): DirectoryCar => {
+  if (files.length === 0) {
+    throw new Error('A directory needs at least one file');
+  }
+
+  const names = new Set<string>();
+  for (const { name } of files) {
+    if (!name || name.includes('/') || name === '.' || name === '..') {
+      throw new Error(`Invalid file name: ${name}`);
+    }
+    if (names.has(name)) {
+      throw new Error(`Duplicate file name: ${name}`);
+    }
+    names.add(name);
+  }
+
+  const blocks: CarBlock[] = [];
+  const entries: Record<string, string> = {};
+
+  // Directory links are sorted by name bytes
+  const links = [...files]
+    .sort((a, b) => Buffer.compare(Buffer.from(a.name, 'utf8'), Buffer.from(b.name, 'utf8')))
+    .map(file => {
+      const node = addFile(file.content, blocks);
+      entries[file.name] = cidToString(node.cid);
+      return { hash: node.cid, name: file.name, tsize: node.tsize };
+    });
+
+  const directory = encodePBNode(links, encodeUnixFS(UNIXFS_DIRECTORY));
+  if (directory.length > MAX_DIRECTORY_NODE_SIZE) {
+    throw new Error(`Directory has too many entries (${files.length}) for a single node`);
+  }
+
+  const root = createCid(CODEC_DAG_PB, directory);
+  blocks.push({ cid: root, data: directory });
+
+  // Root first, so streaming readers see it before its children; repeated chunks are written once
+  const seen = new Set<string>();
+  const unique = blocks.reverse().filter(block => {
+    const key = block.cid.toString('hex');
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+
+  const car = Buffer.concat([
+    encodeCarHeader(root),
+    ...unique.flatMap(block => [varint(block.cid.length + block.data.length), block.cid, block.data]),
+  ]);
+
+  return {
+    rootCid: cidToString(root),
+    car,
+    blockCount: unique.length,
+    dagSize: directory.length + links.reduce((total, link) => total + link.tsize, 0),
+    entries,
+  };
+};
+
+const readCid = (buffer: Buffer, offset: number): [Buffer, number] => {
+  const [version, afterVersion] = readVarint(buffer, offset);
+  if (version !== 1) {
+    throw new Error(`Unsupported CID version ${version}`);
+  }
+  const [, afterCodec] = readVarint(buffer, afterVersion);
+  const [hashCode, afterHashCode] = readVarint(buffer, afterCodec);
+  const [length, afterLength] = readVarint(buffer, afterHashCode);
+  if (hashCode !== HASH_SHA2_256 || length !== SHA2_256_LENGTH) {
+    throw new Error('Unsupported multihash');
+  }
+  return [buffer.subarray(offset, afterLength + length), afterLength + length];
+};
+
+// Hashes of the links of a dag-pb node
+const decodePBLinks = (data: Buffer): Buffer[] => {
+  const hashes: Buffer[] = [];
+  let offset = 0;
+
+  const readField = (buffer: Buffer, at: number): [number, number, Buffer | number, number] => {
+    const [tag, afterTag] = readVarint(buffer, at);
+    const field = Math.floor(tag / 8);
+    const wireType = tag & 7;
+    if (wireType === 0) {
+      const [value, next] = readVarint(buffer, afterTag);
+      return [field, wireType, value, next];
+    }
+    if (wireType === 2) {
+      const [length, afterLength] = readVarint(buffer, afterTag);
+      if (afterLength + length > buffer.length) {
+        throw new Error('Truncated dag-pb node');
+      }
+      return [field, wireType, buffer.subarray(afterLength, afterLength + length), afterLength + length];
+    }
+    throw new Error(`Unexpected wire type ${wireType} in dag-pb node`);
+  };
+
+  while (offset < data.length) {
+    const [field, , value, next] = readField(data, offset);
+    offset = next;
+    if (field !== 2 || !Buffer.isBuffer(value)) {
+      continue;
+    }
+
+    let linkOffset = 0;
+    while (linkOffset < value.length) {
+      const [linkField, , linkValue, linkNext] = readField(value, linkOffset);
+      linkOffset = linkNext;
+      if (linkField === 1 && Buffer.isBuffer(linkValue)) {
+        hashes.push(linkValue);
+      }
+    }
+  }
+
+  return hashes;
+};
+
+/**
+ * Check a CARv1 archive before it is uploaded: the header names the expected
+ * root, every block hashes to its CID, and every linked block is present.
+ * Throws on the first problem found.
+ */
+export const verifyCar = (car: Buffer, expectedRoot: string): { blockCount: number } => {
+  const [headerLength, headerStart] = readVarint(car, 0);
+  const header = car.subarray(headerStart, headerStart + headerLength);
+
+  // The header holds a single root, stored after its 0x00 multibase prefix
+  const rootMarker = header.indexOf(Buffer.from([0xd8, 0x2a]));
+  if (rootMarker === -1 || header.indexOf(Buffer.from([0xd8, 0x2a]), rootMarker + 1) !== -1) {
+    throw new Error('CAR header must name exactly one root');
+  }
+  const [root] = readCid(header, rootMarker + 5);
+  if (cidToString(root) !== expectedRoot) {
+    throw new Error(`CAR root ${cidToString(root)} does not match ${expectedRoot}`);
+  }
+
+  const present = new Set<string>();
+  const linked: Buffer[] = [root];
+  let offset = headerStart + headerLength;
+
+  while (offset < car.length) {
+    const [length, blockStart] = readVarint(car, offset);
+    const blockEnd = blockStart + length;
+    if (blockEnd > car.length) {
+      throw new Error('Truncated CAR block');
+    }
+
+    const [cid, dataStart] = readCid(car, blockStart);
+    const data = car.subarray(dataStart, blockEnd);
+    const digest = cid.subarray(cid.length - SHA2_256_LENGTH);
+
+    if (!crypto.createHash('sha256').update(data).digest().equals(digest)) {
+      throw new Error(`Block ${cidToString(cid)} does not match its hash`);
+    }
+
+    present.add(cidToString(cid));
+    if (readVarint(cid, 1)[0] === CODEC_DAG_PB) {
+      linked.push(...decodePBLinks(data));
+    }
+
+    offset = blockEnd;
+  }
+
+  const missing = linked.find(cid => !present.has(cidToString(cid)));
+  if (missing) {
+    throw new Error(`CAR is missing block ${cidToString(missing)}`);
+  }
+
+  return { blockCount: present.size };
+};
\ No newline at end of file
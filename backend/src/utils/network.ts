@@ -0,0 +1,113 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+// Loopback, private, link-local, shared, documentation, multicast and reserved
+// ranges. IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const nonPublicRanges: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.0.2.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['198.51.100.0', 24, 'ipv4'],
+  ['203.0.113.0', 24, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 127, 'ipv6'],
+  ['64:ff9b::', 96, 'ipv6'],
+  ['100::', 64, 'ipv6'],
+  ['2001:db8::', 32, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+];
+
+const nonPublicAddresses = new net.BlockList();
+nonPublicRanges.forEach(([network, prefix, family]) => nonPublicAddresses.addSubnet(network, prefix, family));
+
+/**
+ * Whether an IP address is routable on the public internet
+ */
+export const isPublicAddress = (address: string): boolean => {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return false;
+  }
+
+  return !nonPublicAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * Whether a URL host names a machine by DNS name rather than by IP address,
+ * and is not a name for this machine
+ */
+export const isPublicHostname = (hostname: string): boolean => {
+  const host = hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase();
+
+  return host.length > 0
+    && net.isIP(host) === 0
+    && host !== 'localhost'
+    && !host.endsWith('.localhost');
+};
+
+/**
+ * Whether a URL's host is a DNS name that resolves only to public addresses
+ */
+export const resolvesToPublicHost = async (url: string): Promise<boolean> => {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    return false;
+  }
+
+  if (!isPublicHostname(hostname)) {
+    return false;
+  }
+
+  try {
+    const addresses = await dns.promises.lookup(hostname, { all: true });
+    return addresses.length > 0 && addresses.every(({ address }) => isPublicAddress(address));
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * DNS lookup for outbound connections that refuses hosts resolving to any
+ * non-public address. Used on every connection, so a name that is re-pointed
+ * after it was checked still cannot reach internal services.
+ */
+export const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+
+    const first = addresses[0];
+    if (!first || !addresses.every(({ address }) => isPublicAddress(address))) {
+      const refused: NodeJS.ErrnoException = new Error(`${hostname} does not resolve to a public address`);
+      refused.code = 'EADDRNOTPUBLIC';
+      callback(refused, []);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, first.address, first.family);
+    }
+  });
+};
+
+// Agents for requests to addresses supplied by users, such as webhook endpoints
+export const publicHttpAgent = new http.Agent({ lookup: publicLookup });
+export const publicHttpsAgent = new https.Agent({ lookup: publicLookup });
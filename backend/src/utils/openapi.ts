@@ -0,0 +1,456 @@
+import { RequestHandler, Router } from 'express';
+
+export interface SchemaObject {
+  type?: 'string' | 'integer' | 'number' | 'boolean' | 'array' | 'object';
+  format?: string;
+  pattern?: string;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  items?: SchemaObject;
+  properties?: Record<string, SchemaObject>;
+  required?: string[];
+  description?: string;
+  $ref?: string;
+}
+
+export interface ParameterObject {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  schema: SchemaObject;
+  description?: string;
+}
+
+export interface OperationObject {
+  operationId: string;
+  summary: string;
+  tags: string[];
+  parameters?: ParameterObject[];
+  requestBody?: {
+    required: boolean;
+    content: Record<string, { schema: SchemaObject }>;
+  };
+  responses: Record<string, { description: string; content?: Record<string, { schema: SchemaObject }> }>;
+  security?: Array<Record<string, string[]>>;
+}
+
+export interface OpenApiDocument {
+  openapi: '3.0.3';
+  info: { title: string; version: string; description?: string };
+  servers: Array<{ url: string }>;
+  tags: Array<{ name: string }>;
+  paths: Record<string, Record<string, OperationObject>>;
+  components: {
+    schemas: Record<string, SchemaObject>;
+    securitySchemes: Record<string, Record<string, string>>;
+  };
+}
+
+// Middleware that shape an operation, recognised by identity
+export interface RouteMiddleware {
+  // Require a bearer token
+  authenticated: RequestHandler[];
+  // Accept a bearer token when one is sent
+  optionallyAuthenticated: RequestHandler[];
+  // Role or permission a guard requires on top of a bearer token, if the handler is one
+  describeAccess: (handler: RequestHandler) => string | undefined;
+  // Multipart uploads, with the file fields they accept
+  uploads: Array<{ handler: RequestHandler; fields: readonly string[] }>;
+}
+
+export interface OpenApiOptions {
+  title: string;
+  version: string;
+  description?: string;
+  serverUrl: string;
+  // Routers by mount path; routes on the root router use ''
+  routers: Array<[string, Router]>;
+  middleware: RouteMiddleware;
+}
+
+// Shapes of the Express and express-validator internals that are read
+interface RouteLayer {
+  route?: {
+    path: string;
+    methods: Record<string, boolean>;
+    stack: Array<{ handle: RequestHandler & { builder?: { build(): ValidationContext } } }>;
+  };
+}
+
+interface ValidationContext {
+  fields: string[];
+  locations: string[];
+  optional: string | false;
+  stack: ReadonlyArray<{
+    validator?: ((...args: never[]) => unknown) & { name: string };
+    sanitizer?: ((...args: never[]) => unknown) & { name: string };
+    negated?: boolean;
+    options?: unknown[];
+    message?: unknown;
+  }>;
+}
+
+interface FieldSpec {
+  location: 'body' | 'query' | 'path';
+  path: string;
+  required: boolean;
+  schema: SchemaObject;
+}
+
+const ETHEREUM_ADDRESS_PATTERN = '^0x[a-fA-F0-9]{40}$';
+const MONGO_ID_PATTERN = '^[0-9a-fA-F]{24}$';
+
+const ENVELOPE_SCHEMA: SchemaObject = {
+  type: 'object',
+  required: ['success'],
+  properties: {
+    success: { type: 'boolean' },
+    data: { description: 'Response payload' },
+    message: { type: 'string' },
+    error: { type: 'string' },
+    details: { type: 'array', items: { $ref: '#/components/schemas/ValidationError' } },
+    pagination: { $ref: '#/components/schemas/Pagination' },
+  },
+};
+
+const COMMON_SCHEMAS: Record<string, SchemaObject> = {
+  ApiResponse: ENVELOPE_SCHEMA,
+  ValidationError: {
+    type: 'object',
+    required: ['field', 'message'],
+    properties: {
+      field: { type: 'string' },
+      message: { type: 'string' },
+      value: { description: 'Rejected value' },
+    },
+  },
+  Pagination: {
+    type: 'object',
+    required: ['currentPage', 'totalPages', 'totalItems', 'hasNext', 'hasPrev'],
+    properties: {
+      currentPage: { type: 'integer' },
+      totalPages: { type: 'integer' },
+      totalItems: { type: 'integer' },
+      itemsPerPage: { type: 'integer' },
+      hasNext: { type: 'boolean' },
+      hasPrev: { type: 'boolean' },
+    },
+  },
+};
+
+const envelope = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/ApiResponse' } } },
+});
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Schema constraints implied by one validator or sanitizer of a chain.
+ * Validators built on `custom()` (isString, isArray, isObject) have no name,
+ * so their type is read from the check they perform.
+ */
+const describeItem = (item: ValidationContext['stack'][number]): SchemaObject => {
+  const options = item.options || [];
+  const limits = (options[0] || {}) as { min?: number; max?: number };
+  const range = (schema: SchemaObject): SchemaObject => ({
+    ...schema,
+    ...(limits.min !== undefined ? { minimum: limits.min } : {}),
+    ...(limits.max !== undefined ? { maximum: limits.max } : {}),
+  });
+
+  if (item.sanitizer) {
+    switch (item.sanitizer.name) {
+      case 'toInt':
+        return { type: 'integer' };
+      case 'toFloat':
+        return { type: 'number' };
+      case 'toBoolean':
+        return { type: 'boolean' };
+      default:
+        return {};
+    }
+  }
+
+  if (!item.validator) {
+    return {};
+  }
+
+  if (item.negated) {
+    return item.validator.name === 'isEmpty' ? { minLength: 1 } : {};
+  }
+
+  switch (item.validator.name) {
+    case 'isInt':
+      return range({ type: 'integer' });
+    case 'isFloat':
+    case 'isNumeric':
+      return range({ type: 'number' });
+    case 'isBoolean':
+      return { type: 'boolean' };
+    case 'isLength':
+      return {
+        type: 'string',
+        ...(limits.min ? { minLength: limits.min } : {}),
+        ...(limits.max !== undefined ? { maxLength: limits.max } : {}),
+      };
+    case 'isIn':
+      return Array.isArray(options[0]) ? { enum: [...(options[0] as unknown[])] } : {};
+    case 'equals':
+      return { enum: [options[0]] };
+    case 'matches':
+      return {
+        type: 'string',
+        pattern: options[0] instanceof RegExp ? options[0].source : String(options[0]),
+      };
+    case 'isMongoId':
+      return { type: 'string', pattern: MONGO_ID_PATTERN };
+    case 'isEthereumAddress':
+      return { type: 'string', pattern: ETHEREUM_ADDRESS_PATTERN };
+    case 'isISO8601':
+      return { type: 'string', format: 'date-time' };
+    case 'isURL':
+      return { type: 'string', format: 'uri' };
+    case 'isEmail':
+      return { type: 'string', format: 'email' };
+    case 'isUUID':
+      return { type: 'string', format: 'uuid' };
+    case 'isJWT':
+      return { type: 'string' };
+  }
+
+  const source = item.validator.toString();
+  if (source.includes('Array.isArray(value)')) {
+    return { type: 'array' };
+  }
+  if (source.includes("typeof value === 'string'")) {
+    return { type: 'string' };
+  }
+  if (source.includes("typeof value === 'object'")) {
+    return { type: 'object' };
+  }
+
+  return {};
+};
+
+const describeChain = (context: ValidationContext, method: string): FieldSpec[] => {
+  const schema: SchemaObject = {};
+  const messages: string[] = [];
+
+  for (const item of context.stack) {
+    const constraints = describeItem(item);
+    // A pattern on a numeric query or path value does not make it a string
+    if (constraints.type === 'string' && (schema.type === 'integer' || schema.type === 'number')) {
+      delete constraints.type;
+    }
+    Object.assign(schema, constraints);
+
+    if (typeof item.message === 'string' && !messages.includes(item.message)) {
+      messages.push(item.message);
+    }
+  }
+
+  if (messages.length > 0) {
+    schema.description = messages.join('. ');
+  }
+
+  // check() without locations looks everywhere; document it where a client would send it
+  const locations = context.locations.length > 0
+    ? context.locations
+    : [method === 'get' || method === 'delete' ? 'query' : 'body'];
+
+  return locations
+    .filter(location => location === 'body' || location === 'query' || location === 'params')
+    .flatMap(location => context.fields.map(path => ({
+      location: location === 'params' ? 'path' as const : location as 'body' | 'query',
+      path,
+      required: context.optional === false,
+      schema: { ...schema },
+    })));
+};
+
+/**
+ * Nest dotted and wildcard field paths (`attributes.*.value`) into one object schema
+ */
+const buildBodySchema = (fields: FieldSpec[]): SchemaObject => {
+  const root: SchemaObject = { type: 'object', properties: {} };
+
+  for (const field of fields) {
+    // Checks on the body as a whole (`body()`) describe no property
+    if (!field.path) {
+      continue;
+    }
+
+    const segments = field.path.split('.');
+    let node = root;
+
+    segments.forEach((segment, index) => {
+      const last = index === segments.length - 1;
+
+      if (segment === '*') {
+        node.type = 'array';
+        node.items = last ? { ...node.items, ...field.schema } : node.items || { type: 'object', properties: {} };
+        node = node.items;
+        return;
+      }
+
+      node.type = node.type || 'object';
+      node.properties = node.properties || {};
+      const existing = node.properties[segment] || {};
+      node.properties[segment] = last ? { ...existing, ...field.schema } : existing;
+
+      if (field.required && (last || segments[index + 1] !== '*')) {
+        node.required = [...new Set([...(node.required || []), segment])];
+      }
+
+      node = node.properties[segment]!;
+    });
+  }
+
+  return root;
+};
+
+const collectRoutes = (
+  routers: Array<[string, Router]>
+): Array<{ tag: string; method: string; path: string; stack: NonNullable<RouteLayer['route']>['stack'] }> =>
+  routers.flatMap(([mountPath, router]) => (router.stack as unknown as RouteLayer[])
+    .filter(layer => layer.route)
+    .flatMap(layer => Object.keys(layer.route!.methods)
+      .filter(method => layer.route!.methods[method] && method !== '_all')
+      .map(method => ({
+        tag: mountPath.replace(/^\//, '') || 'api',
+        method,
+        path: `${mountPath}${layer.route!.path === '/' && mountPath ? '' : layer.route!.path}`,
+        stack: layer.route!.stack,
+      }))));
+
+/**
+ * Build an OpenAPI 3 document from mounted Express routers. Parameters and
+ * request bodies come from the express-validator chains on each route, the
+ * security requirements from its authentication middleware, and operation IDs
+ * from the controller methods that handle them.
+ */
+export const buildOpenApiDocument = (options: OpenApiOptions): OpenApiDocument => {
+  const { middleware } = options;
+  const routes = collectRoutes(options.routers);
+
+  const handlerName = (route: typeof routes[number]): string => {
+    const handler = route.stack[route.stack.length - 1]?.handle;
+    const name = (handler?.name || '').replace(/^bound /, '');
+    return name || `${route.method}${route.path.split(/[/:{}-]/).filter(part => part).map(capitalize).join('')}`;
+  };
+
+  const names = routes.map(handlerName);
+  const operationIds = routes.map((route, index) => {
+    const name = names[index]!;
+    return names.filter(other => other === name).length > 1 ? `${route.tag}${capitalize(name)}` : name;
+  });
+
+  const document: OpenApiDocument = {
+    openapi: '3.0.3',
+    info: {
+      title: options.title,
+      version: options.version,
+      ...(options.description ? { description: options.description } : {}),
+    },
+    servers: [{ url: options.serverUrl }],
+    tags: [...new Set(routes.map(route => route.tag))].map(name => ({ name })),
+    paths: {},
+    components: {
+      schemas: COMMON_SCHEMAS,
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      },
+    },
+  };
+
+  routes.forEach((route, index) => {
+    const handlers = route.stack.map(layer => layer.handle);
+    const fields = handlers
+      .filter(handler => handler.builder)
+      .flatMap(handler => describeChain(handler.builder!.build(), route.method));
+
+    const path = route.path.replace(/:(\w+)/g, '{$1}');
+    const pathNames = [...route.path.matchAll(/:(\w+)/g)].map(match => match[1]!);
+
+    const parameters: ParameterObject[] = [
+      ...pathNames.map(name => {
+        const field = fields.find(candidate => candidate.location === 'path' && candidate.path === name);
+        return {
+          name,
+          in: 'path' as const,
+          required: true,
+          schema: field?.schema || { type: 'string' as const },
+        };
+      }),
+      ...fields
+        .filter(field => field.location === 'query')
+        .map(field => ({
+          name: field.path,
+          in: 'query' as const,
+          required: field.required,
+          schema: field.schema,
+        })),
+    ].map(({ schema, ...parameter }) => {
+      const { description, ...rest } = schema;
+      return { ...parameter, schema: rest, ...(description ? { description } : {}) };
+    });
+
+    const bodyFields = fields.filter(field => field.location === 'body');
+    const upload = middleware.uploads.find(candidate => handlers.includes(candidate.handler));
+    const bodySchema = buildBodySchema(bodyFields);
+
+    const content: Record<string, { schema: SchemaObject }> = {};
+    if (bodyFields.length > 0) {
+      content['application/json'] = { schema: bodySchema };
+    }
+    if (upload) {
+      content['multipart/form-data'] = {
+        schema: {
+          ...bodySchema,
+          properties: {
+            ...bodySchema.properties,
+            ...Object.fromEntries(upload.fields.map(name => [name, { type: 'string' as const, format: 'binary' }])),
+          },
+        },
+      };
+    }
+
+    const authenticated = handlers.some(handler => middleware.authenticated.includes(handler));
+    const access = handlers.map(handler => middleware.describeAccess(handler)).find(requirement => requirement);
+    const guarded = !!access;
+    const optional = handlers.some(handler => middleware.optionallyAuthenticated.includes(handler));
+
+    const operationId = operationIds[index]!;
+    const operation: OperationObject = {
+      operationId,
+      summary: capitalize(operationId.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase()),
+      tags: [route.tag],
+      ...(parameters.length > 0 ? { parameters } : {}),
+      ...(Object.keys(content).length > 0 ? {
+        requestBody: {
+          required: !!bodySchema.required?.length,
+          content,
+        },
+      } : {}),
+      responses: {
+        [route.method === 'post' ? '2XX' : '200']: envelope('Success'),
+        ...(fields.length > 0 || upload ? { '400': envelope('Invalid request') } : {}),
+        ...(authenticated || guarded ? { '401': envelope('Missing or invalid access token') } : {}),
+        ...(access ? { '403': envelope(`Requires ${access}`) } : {}),
+        // Every API route is behind the general rate limiter
+        '429': envelope('Rate limit or quota exceeded'),
+        '500': envelope('Server error'),
+      },
+      ...(authenticated || guarded ? { security: [{ bearerAuth: [] }] } : {}),
+      ...(optional && !authenticated && !guarded ? { security: [{}, { bearerAuth: [] }] } : {}),
+    };
+
+    document.paths[path] = { ...document.paths[path], [route.method]: operation };
+  });
+
+  return document;
+};
\ No newline at end of file
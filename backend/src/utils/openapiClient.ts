@@ -0,0 +1,250 @@
+import { OpenApiDocument, OperationObject, ParameterObject, SchemaObject } from '@/utils/openapi';
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+const pascalCase = (value: string): string =>
+  value.split(/[^A-Za-z0-9]+/).filter(part => part).map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('');
+
+const camelCase = (value: string): string => {
+  const pascal = pascalCase(value);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+};
+
+const propertyKey = (name: string): string => IDENTIFIER.test(name) ? name : JSON.stringify(name);
+
+const indentBlock = (lines: string[], depth: number): string[] => lines.map(line => `${'  '.repeat(depth)}${line}`);
+
+/**
+ * TypeScript type for a schema, written in the frontend's style
+ */
+const toType = (schema: SchemaObject, depth: number = 0): string => {
+  if (schema.$ref) {
+    return schema.$ref.split('/').pop()!;
+  }
+
+  if (schema.enum) {
+    return schema.enum.map(value => JSON.stringify(value)).join(' | ');
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return schema.format === 'binary' ? 'Blob' : 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array':
+      return `Array<${toType(schema.items || {}, depth)}>`;
+    case 'object':
+      return schema.properties && Object.keys(schema.properties).length > 0
+        ? toObjectType(schema, depth)
+        : 'Record<string, unknown>';
+    default:
+      return 'unknown';
+  }
+};
+
+const toObjectType = (schema: SchemaObject, depth: number): string => {
+  const required = new Set(schema.required || []);
+  const lines = Object.entries(schema.properties || {}).flatMap(([name, property]) => [
+    ...(property.description ? [`/** ${property.description} */`] : []),
+    `${propertyKey(name)}${required.has(name) ? '' : '?'}: ${toType(property, depth + 1)}`,
+  ]);
+
+  return ['{', ...indentBlock(lines, depth + 1), `${'  '.repeat(depth)}}`].join('\n');
+};
+
+const declareInterface = (name: string, schema: SchemaObject): string =>
+  `export interface ${name} ${toObjectType(schema, 0)}`;
+
+interface ClientOperation {
+  group: string;
+  name: string;
+  method: string;
+  path: string;
+  operation: OperationObject;
+  pathParams: ParameterObject[];
+  query?: { type: string; required: boolean };
+  body?: { type: string; required: boolean; multipart: boolean };
+}
+
+/**
+ * Generate a typed fetch client for an OpenAPI document: one method per
+ * operation, grouped by tag, with interfaces for request bodies and queries.
+ * Responses are typed as the `ApiResponse` envelope.
+ */
+export const generateApiClient = (document: OpenApiDocument, generatedBy: string): string => {
+  const declarations: string[] = [];
+  const operations: ClientOperation[] = [];
+
+  for (const [path, methods] of Object.entries(document.paths)) {
+    for (const [method, operation] of Object.entries(methods)) {
+      const typeName = pascalCase(operation.operationId);
+      const parameters = operation.parameters || [];
+      const queryParams = parameters.filter(parameter => parameter.in === 'query');
+
+      const clientOperation: ClientOperation = {
+        group: camelCase(operation.tags[0] || 'api'),
+        name: operation.operationId,
+        method: method.toUpperCase(),
+        path,
+        operation,
+        pathParams: parameters.filter(parameter => parameter.in === 'path'),
+      };
+
+      if (queryParams.length > 0) {
+        declarations.push(declareInterface(`${typeName}Query`, {
+          type: 'object',
+          properties: Object.fromEntries(queryParams.map(parameter => [
+            parameter.name,
+            { ...parameter.schema, ...(parameter.description ? { description: parameter.description } : {}) },
+          ])),
+          required: queryParams.filter(parameter => parameter.required).map(parameter => parameter.name),
+        }));
+        clientOperation.query = {
+          type: `${typeName}Query`,
+          required: queryParams.some(parameter => parameter.required),
+        };
+      }
+
+      const content = operation.requestBody?.content;
+      const bodySchema = content?.['application/json']?.schema || content?.['multipart/form-data']?.schema;
+      if (bodySchema) {
+        declarations.push(declareInterface(`${typeName}Body`, bodySchema));
+        clientOperation.body = {
+          type: `${typeName}Body`,
+          required: !!operation.requestBody?.required,
+          multipart: !!content?.['multipart/form-data'],
+        };
+      }
+
+      operations.push(clientOperation);
+    }
+  }
+
+  const groups = new Map<string, ClientOperation[]>();
+  for (const operation of operations) {
+    groups.set(operation.group, [...(groups.get(operation.group) || []), operation]);
+  }
+
+  const methodLines = (operation: ClientOperation): string[] => {
+    const args = [
+      ...operation.pathParams.map(parameter => `${camelCase(parameter.name)}: string | number`),
+      ...(operation.body
+        ? [`body${operation.body.required ? '' : '?'}: ${operation.body.type}${operation.body.multipart ? ' | FormData' : ''}`]
+        : []),
+      ...(operation.query ? [`query${operation.query.required ? '' : '?'}: ${operation.query.type}`] : []),
+    ];
+
+    const path = operation.path.replace(/\{(\w+)\}/g, (_, name: string) => `\${encodeURIComponent(${camelCase(name)})}`);
+    const init = [
+      ...(operation.body ? ['body'] : []),
+      ...(operation.query ? ['query'] : []),
+    ];
+
+    return [
+      `/** ${operation.operation.summary} (${operation.method} ${operation.path}) */`,
+      `${operation.name}: (${args.join(', ')}) =>`,
+      `  request("${operation.method}", \`${path}\`${init.length > 0 ? `, { ${init.join(', ')} }` : ''}),`,
+    ];
+  };
+
+  const clientBody = [...groups.entries()].flatMap(([group, groupOperations]) => [
+    `${group}: {`,
+    ...indentBlock(groupOperations.flatMap(methodLines), 1),
+    '},',
+  ]);
+
+  const schemas = Object.entries(document.components.schemas)
+    .filter(([name]) => name !== 'ApiResponse')
+    .map(([name, schema]) => declareInterface(name, schema));
+
+  return [
+    `// Generated from the ${document.info.title} OpenAPI document (v${document.info.version}) by ${generatedBy}.`,
+    '// Do not edit by hand; regenerate after changing backend routes or validators.',
+    '',
+    'export interface ApiResponse<T = unknown> {',
+    '  success: boolean',
+    '  data?: T',
+    '  message?: string',
+    '  error?: string',
+    '  details?: ValidationError[]',
+    '  pagination?: Pagination',
+    '}',
+    '',
+    ...schemas.flatMap(schema => [schema, '']),
+    'export class ApiError extends Error {',
+    '  constructor(',
+    '    public readonly status: number,',
+    '    public readonly response: ApiResponse',
+    '  ) {',
+    '    super(response.error || `Request failed with status ${status}`)',
+    '    this.name = "ApiError"',
+    '  }',
+    '}',
+    '',
+    'export interface ApiClientOptions {',
+    `  /** API root, e.g. \`\${API_URL}${document.servers[0]?.url || ''}\` */`,
+    '  baseUrl?: string',
+    '  /** Access token sent as a bearer token when present */',
+    '  getAccessToken?: () => string | null | undefined | Promise<string | null | undefined>',
+    '  fetch?: typeof fetch',
+    '}',
+    '',
+    'type QueryParams = object',
+    '',
+    ...declarations.flatMap(declaration => [declaration, '']),
+    `export function createApiClient(options: ApiClientOptions = {}) {`,
+    `  const baseUrl = options.baseUrl ?? ${JSON.stringify(document.servers[0]?.url || '')}`,
+    '',
+    '  const request = async <T = unknown>(',
+    '    method: string,',
+    '    path: string,',
+    '    init: { body?: unknown; query?: QueryParams } = {}',
+    '  ): Promise<ApiResponse<T>> => {',
+    '    const search = new URLSearchParams()',
+    '    for (const [key, value] of Object.entries(init.query ?? {})) {',
+    '      if (value !== undefined && value !== null) {',
+    '        search.set(key, String(value))',
+    '      }',
+    '    }',
+    '',
+    '    const headers: Record<string, string> = {}',
+    '    const token = await options.getAccessToken?.()',
+    '    if (token) {',
+    '      headers.Authorization = `Bearer ${token}`',
+    '    }',
+    '',
+    '    let body: BodyInit | undefined',
+    '    if (init.body instanceof FormData) {',
+    '      body = init.body',
+    '    } else if (init.body !== undefined) {',
+    '      headers["Content-Type"] = "application/json"',
+    '      body = JSON.stringify(init.body)',
+    '    }',
+    '',
+    '    const query = search.toString()',
+    '    const response = await (options.fetch ?? fetch)(`${baseUrl}${path}${query ? `?${query}` : ""}`, {',
+    '      method,',
+    '      headers,',
+    '      body,',
+    '    })',
+    '',
+    '    const payload = (await response.json().catch(() => ({ success: response.ok }))) as ApiResponse<T>',
+    '    if (!response.ok) {',
+    '      throw new ApiError(response.status, payload)',
+    '    }',
+    '',
+    '    return payload',
+    '  }',
+    '',
+    '  return {',
+    ...indentBlock(clientBody, 2),
+    '  }',
+    '}',
+    '',
+    'export type ApiClient = ReturnType<typeof createApiClient>',
+    '',
+  ].join('\n');
+};
\ No newline at end of file
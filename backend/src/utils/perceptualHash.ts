@@ -0,0 +1,76 @@
+import sharp from 'sharp';
+
+// Images are reduced to SAMPLE_SIZE x SAMPLE_SIZE greyscale before the DCT
+const SAMPLE_SIZE = 32;
+// The lowest HASH_SIZE x HASH_SIZE frequencies make up the 64-bit hash
+const HASH_SIZE = 8;
+const BAND_COUNT = 8;
+
+const COSINES: number[][] = Array.from({ length: HASH_SIZE }, (_, u) =>
+  Array.from({ length: SAMPLE_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * SAMPLE_SIZE)))
+);
+
+const POPCOUNT = Array.from({ length: 16 }, (_, n) => (n & 1) + ((n >> 1) & 1) + ((n >> 2) & 1) + ((n >> 3) & 1));
+
+/**
+ * DCT perceptual hash (pHash) of an image, as 16 hex characters.
+ * Re-encoding, resizing and small edits change only a few bits.
+ */
+export const computePerceptualHash = async (image: Buffer): Promise<string> => {
+  const { data, info } = await sharp(image)
+    .flatten({ background: '#ffffff' })
+    .greyscale()
+    .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'fill' })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const pixel = (x: number, y: number): number => data[(y * SAMPLE_SIZE + x) * info.channels]!;
+
+  const coefficients: number[] = [];
+  for (let v = 0; v < HASH_SIZE; v++) {
+    for (let u = 0; u < HASH_SIZE; u++) {
+      let sum = 0;
+      for (let y = 0; y < SAMPLE_SIZE; y++) {
+        for (let x = 0; x < SAMPLE_SIZE; x++) {
+          sum += pixel(x, y) * COSINES[u]![x]! * COSINES[v]![y]!;
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  // The DC term only tracks overall brightness, so it is left out of the median
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = (sorted[31]! + sorted[32]!) / 2;
+
+  let hash = '';
+  for (let i = 0; i < coefficients.length; i += 4) {
+    let nibble = 0;
+    for (let bit = 0; bit < 4; bit++) {
+      nibble = (nibble << 1) | (coefficients[i + bit]! > median ? 1 : 0);
+    }
+    hash += nibble.toString(16);
+  }
+
+  return hash;
+};
+
+/**
+ * Number of differing bits between two hashes
+ */
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    distance += POPCOUNT[parseInt(a[i]!, 16) ^ parseInt(b[i]!, 16)]!;
+  }
+  return distance + Math.abs(a.length - b.length) * 4;
+};
+
+/**
+ * Split a hash into indexed 8-bit bands. Two hashes at most BAND_COUNT - 1 bits
+ * apart always share at least one band, so candidates can be found by index.
+ */
+export const hashBands = (hash: string): string[] => {
+  const width = hash.length / BAND_COUNT;
+  return Array.from({ length: BAND_COUNT }, (_, i) => `${i}:${hash.substring(i * width, (i + 1) * width)}`);
+};
\ No newline at end of file
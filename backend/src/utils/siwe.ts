@@ -0,0 +1,212 @@
+import { ethers } from 'ethers';
+
+/**
+ * Sign-In with Ethereum (EIP-4361) message fields
+ */
+export interface SiweMessageFields {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+export interface SiweValidationOptions {
+  domains: string[];
+  uri: string;
+  chainIds: number[];
+  address?: string;
+  now?: Date;
+  clockSkewMs?: number;
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+const NONCE_PATTERN = /^[a-zA-Z0-9]{8,}$/;
+
+/**
+ * Build an EIP-4361 message string
+ */
+export const buildSiweMessage = (fields: SiweMessageFields): string => {
+  const lines = [
+    `${fields.domain}${HEADER_SUFFIX}`,
+    ethers.getAddress(fields.address),
+    '',
+  ];
+
+  if (fields.statement) {
+    lines.push(fields.statement, '');
+  }
+
+  lines.push(
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`
+  );
+
+  if (fields.expirationTime) {
+    lines.push(`Expiration Time: ${fields.expirationTime}`);
+  }
+
+  if (fields.notBefore) {
+    lines.push(`Not Before: ${fields.notBefore}`);
+  }
+
+  if (fields.requestId !== undefined) {
+    lines.push(`Request ID: ${fields.requestId}`);
+  }
+
+  if (fields.resources && fields.resources.length > 0) {
+    lines.push('Resources:', ...fields.resources.map(resource => `- ${resource}`));
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * Parse an EIP-4361 message string. Returns null when the message does not
+ * follow the grammar (wrong field order, missing required fields, bad address).
+ */
+export const parseSiweMessage = (message: string): SiweMessageFields | null => {
+  const lines = message.split('\n');
+  let index = 0;
+
+  const header = lines[index++];
+  if (!header || !header.endsWith(HEADER_SUFFIX)) {
+    return null;
+  }
+  const domain = header.slice(0, -HEADER_SUFFIX.length);
+
+  const address = lines[index++];
+  if (!address || !ethers.isAddress(address) || ethers.getAddress(address) !== address) {
+    return null;
+  }
+
+  if (lines[index++] !== '') {
+    return null;
+  }
+
+  // Optional statement followed by a blank line
+  let statement: string | undefined;
+  if (lines[index] !== undefined && !lines[index]!.startsWith('URI: ')) {
+    statement = lines[index++];
+    if (lines[index++] !== '') {
+      return null;
+    }
+  }
+
+  const readField = (tag: string, optional: boolean = false): string | undefined | null => {
+    const line = lines[index];
+    if (line !== undefined && line.startsWith(`${tag}: `)) {
+      index++;
+      return line.slice(tag.length + 2);
+    }
+    return optional ? undefined : null;
+  };
+
+  const uri = readField('URI');
+  const version = readField('Version');
+  const chainId = readField('Chain ID');
+  const nonce = readField('Nonce');
+  const issuedAt = readField('Issued At');
+
+  if (!uri || version !== '1' || !chainId || !nonce || !issuedAt) {
+    return null;
+  }
+
+  const expirationTime = readField('Expiration Time', true);
+  const notBefore = readField('Not Before', true);
+  const requestId = readField('Request ID', true);
+
+  let resources: string[] | undefined;
+  if (lines[index] === 'Resources:') {
+    index++;
+    resources = [];
+    while (lines[index]?.startsWith('- ')) {
+      resources.push(lines[index++]!.slice(2));
+    }
+  }
+
+  // Nothing may follow the last field
+  if (index !== lines.length || !/^\d+$/.test(chainId) || !NONCE_PATTERN.test(nonce)) {
+    return null;
+  }
+
+  const fields: SiweMessageFields = {
+    domain,
+    address,
+    uri,
+    version,
+    chainId: parseInt(chainId, 10),
+    nonce,
+    issuedAt,
+  };
+
+  if (statement !== undefined) fields.statement = statement;
+  if (expirationTime) fields.expirationTime = expirationTime;
+  if (notBefore) fields.notBefore = notBefore;
+  if (requestId !== undefined && requestId !== null) fields.requestId = requestId;
+  if (resources) fields.resources = resources;
+
+  return fields;
+};
+
+/**
+ * Validate parsed SIWE fields against what this server expects
+ */
+export const validateSiweMessage = (
+  fields: SiweMessageFields,
+  options: SiweValidationOptions
+): { isValid: boolean; error?: string } => {
+  const now = (options.now || new Date()).getTime();
+  const skew = options.clockSkewMs ?? 60000;
+
+  if (!options.domains.includes(fields.domain)) {
+    return { isValid: false, error: `Domain ${fields.domain} is not allowed` };
+  }
+
+  if (options.address && fields.address.toLowerCase() !== options.address.toLowerCase()) {
+    return { isValid: false, error: 'Message address does not match wallet address' };
+  }
+
+  if (fields.uri !== options.uri) {
+    return { isValid: false, error: 'Message URI does not match' };
+  }
+
+  if (fields.version !== '1') {
+    return { isValid: false, error: 'Unsupported SIWE version' };
+  }
+
+  if (!options.chainIds.includes(fields.chainId)) {
+    return { isValid: false, error: `Chain ${fields.chainId} is not supported for sign-in` };
+  }
+
+  const issuedAt = Date.parse(fields.issuedAt);
+  if (Number.isNaN(issuedAt) || issuedAt > now + skew) {
+    return { isValid: false, error: 'Invalid issuedAt timestamp' };
+  }
+
+  if (fields.expirationTime) {
+    const expirationTime = Date.parse(fields.expirationTime);
+    if (Number.isNaN(expirationTime) || expirationTime <= now) {
+      return { isValid: false, error: 'Message has expired' };
+    }
+  }
+
+  if (fields.notBefore) {
+    const notBefore = Date.parse(fields.notBefore);
+    if (Number.isNaN(notBefore) || notBefore > now + skew) {
+      return { isValid: false, error: 'Message is not yet valid' };
+    }
+  }
+
+  return { isValid: true };
+};
\ No newline at end of file
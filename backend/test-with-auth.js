@@ -16,6 +16,7 @@ const wallet = ethers.Wallet.createRandom();
 console.log('🔑 Generated test wallet:', wallet.address);
 
 let authToken = null;
+let refreshToken = null;
 
 async function testAPI() {
   try {
@@ -56,6 +57,7 @@ async function testAPI() {
 
     console.log('✅ Wallet connected:', connectResponse.data);
     authToken = connectResponse.data.data.token;
+    refreshToken = connectResponse.data.data.refreshToken;
     console.log('✅ JWT Token received:', authToken.substring(0, 20) + '...');
 
     // 3. Test authenticated endpoints
@@ -141,8 +143,8 @@ async function testAPI() {
     console.log('\n5️⃣ Testing Token Refresh...');
     
     try {
-      const refreshResponse = await axios.post(`${API_BASE}/auth/refresh`, {}, {
-        headers: authHeaders
+      const refreshResponse = await axios.post(`${API_BASE}/auth/refresh`, {
+        refreshToken
       });
       console.log('✅ Token refresh:', refreshResponse.data);
     } catch (error) {
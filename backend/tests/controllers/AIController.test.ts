@@ -0,0 +1,112 @@
+import { AIController } from '@/controllers/AIController';
+import { aiService } from '@/services/AIService';
+import { nftRequestService } from '@/services/NFTRequestService';
+import { usageService } from '@/services/UsageService';
+import { RequestStatus } from '@/types';
+import { createRequest, createResponse } from '../helpers/http';
+
+jest.mock('@/services/AIService', () => ({
+  aiService: {
+    generateNFTArtwork: jest.fn(),
+    generateVariants: jest.fn(),
+    finalizeArtwork: jest.fn(),
+  },
+}));
+jest.mock('@/services/NFTRequestService', () => ({
+  nftRequestService: { createRequest: jest.fn() },
+}));
+jest.mock('@/services/UsageService', () => ({
+  usageService: { record: jest.fn() },
+}));
+jest.mock('@/services/ImageProviderService', () => ({ imageProviderRegistry: {} }));
+jest.mock('@/services/MetadataService', () => ({ metadataService: {} }));
+
+const requestId = 'a'.repeat(64);
+
+const generateBody = {
+  prompt: 'A lighthouse on a cliff at dusk, oil painting',
+  destinationChainId: 11155111,
+  style: 'oil-painting',
+};
+
+describe('AIController.generateNFTArtwork', () => {
+  const controller = new AIController();
+  const createRequestMock = jest.mocked(nftRequestService.createRequest);
+
+  it('queues the request and answers 202 without generating inline', async () => {
+    createRequestMock.mockResolvedValue({
+      success: true,
+      data: { _id: 'mongo-id', requestId, status: RequestStatus.PENDING } as never,
+    });
+
+    const req = createRequest({ body: generateBody });
+    const res = createResponse();
+
+    await controller.generateNFTArtwork(req, res);
+
+    expect(res.statusCode).toBe(202);
+    expect(res.body).toMatchObject({
+      success: true,
+      data: { requestId, status: RequestStatus.PENDING },
+      message: 'Artwork generation queued',
+    });
+
+    // The queued job is the only thing that generates and records usage
+    expect(createRequestMock).toHaveBeenCalledTimes(1);
+    expect(aiService.generateNFTArtwork).not.toHaveBeenCalled();
+    expect(aiService.generateVariants).not.toHaveBeenCalled();
+    expect(usageService.record).not.toHaveBeenCalled();
+  });
+
+  it('passes the generation options on to the request', async () => {
+    createRequestMock.mockResolvedValue({
+      success: true,
+      data: { requestId, status: RequestStatus.PENDING } as never,
+    });
+
+    const req = createRequest({ body: { ...generateBody, provider: 'openai', quality: 'hd', variants: 3, reuseCached: true } });
+
+    await controller.generateNFTArtwork(req, createResponse());
+
+    expect(createRequestMock).toHaveBeenCalledWith(
+      req.user!.walletAddress,
+      expect.objectContaining({
+        prompt: generateBody.prompt,
+        style: 'oil-painting',
+        provider: 'openai',
+        quality: 'hd',
+        variants: 3,
+        reuseCached: true,
+        recipient: req.user!.walletAddress,
+      }),
+      {}
+    );
+  });
+
+  it('reports requests held for content review', async () => {
+    createRequestMock.mockResolvedValue({
+      success: true,
+      data: { requestId, status: RequestStatus.UNDER_REVIEW } as never,
+    });
+
+    const res = createResponse();
+    await controller.generateNFTArtwork(createRequest({ body: generateBody }), res);
+
+    expect(res.statusCode).toBe(202);
+    expect(res.body).toMatchObject({ message: 'Request is held for content review' });
+  });
+
+  it('answers 422 when the prompt is blocked', async () => {
+    createRequestMock.mockResolvedValue({
+      success: false,
+      error: 'Prompt was blocked by content moderation',
+      code: 'CONTENT_BLOCKED',
+    });
+
+    const res = createResponse();
+    await controller.generateNFTArtwork(createRequest({ body: generateBody }), res);
+
+    expect(res.statusCode).toBe(422);
+    expect(aiService.generateNFTArtwork).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,92 @@
+import { EventEmitter } from 'events';
+import { StreamController } from '@/controllers/StreamController';
+import { realtimeService } from '@/services/RealtimeService';
+import { AuthenticatedRequest } from '@/types';
+import { createRequest, createResponse, MockResponse } from '../helpers/http';
+
+jest.mock('@/config/redis', () => ({
+  getRedisClient: jest.fn(),
+  isRedisConfigured: jest.fn(() => false),
+}));
+
+const walletAddress = '0x1111111111111111111111111111111111111111';
+
+type StreamResponse = MockResponse & { chunks: string[] };
+
+// Request that can be closed by the client, like a real socket
+const openRequest = (tokenExpiresAt?: Date): AuthenticatedRequest => {
+  const socket = new EventEmitter();
+  return Object.assign(createRequest(tokenExpiresAt ? { tokenExpiresAt } : {}), {
+    on: socket.on.bind(socket),
+    emit: socket.emit.bind(socket),
+  });
+};
+
+const openResponse = (): StreamResponse => {
+  const res = createResponse() as StreamResponse;
+  res.chunks = [];
+  res.flushHeaders = jest.fn();
+  res.write = jest.fn((chunk: string) => {
+    res.chunks.push(chunk);
+    return true;
+  });
+  res.end = jest.fn(() => res);
+  return res;
+};
+
+describe('StreamController.streamEvents', () => {
+  const controller = new StreamController();
+
+  afterEach(() => {
+    realtimeService.closeStreams();
+    jest.useRealTimers();
+  });
+
+  it('opens an event stream and forwards events for the wallet', async () => {
+    const res = openResponse();
+    controller.streamEvents(openRequest(), res);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.set).toHaveBeenCalledWith(expect.objectContaining({ 'Content-Type': 'text/event-stream' }));
+    expect(res.chunks).toContain(`event: ready\ndata: ${JSON.stringify({ walletAddress })}\n\n`);
+
+    await realtimeService.publish(walletAddress, 'request.status', { requestId: 'r1' });
+
+    expect(res.chunks.at(-1)).toMatch(/^id: 1\nevent: request\.status\ndata: .*"requestId":"r1"/);
+  });
+
+  it('closes the stream when the client disconnects', () => {
+    const req = openRequest();
+    const res = openResponse();
+    controller.streamEvents(req, res);
+
+    req.emit('close');
+
+    expect(res.end).toHaveBeenCalledTimes(1);
+    expect(realtimeService.getSubscriberCount(walletAddress)).toBe(0);
+  });
+
+  it('closes the stream when the access token that opened it expires', () => {
+    jest.useFakeTimers();
+    const res = openResponse();
+    controller.streamEvents(openRequest(new Date(Date.now() + 60000)), res);
+
+    jest.advanceTimersByTime(59999);
+    expect(res.end).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    expect(res.end).toHaveBeenCalledTimes(1);
+  });
+
+  it('limits the number of open streams per wallet', () => {
+    for (let i = 0; i < 5; i++) {
+      controller.streamEvents(openRequest(), openResponse());
+    }
+
+    const res = openResponse();
+    controller.streamEvents(openRequest(), res);
+
+    expect(res.statusCode).toBe(429);
+    expect(res.flushHeaders).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,52 @@
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import { AuthenticatedRequest, IUser } from '@/types';
+
+export type MockResponse = Response & { body?: unknown };
+
+/**
+ * Response double that records the status code and JSON body a handler sends
+ */
+export const createResponse = (): MockResponse => {
+  const res = { statusCode: 200, locals: {} } as MockResponse;
+
+  res.status = jest.fn((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.json = jest.fn((body: unknown) => {
+    res.body = body;
+    return res;
+  });
+  res.send = jest.fn((body: unknown) => {
+    res.body = body;
+    return res;
+  });
+  res.setHeader = jest.fn(() => res);
+  res.set = jest.fn(() => res);
+
+  return res;
+};
+
+/**
+ * Request from an authenticated wallet
+ */
+export const createRequest = (
+  overrides: Partial<AuthenticatedRequest> = {},
+  user: Partial<IUser> = {}
+): AuthenticatedRequest => ({
+  body: {},
+  params: {},
+  query: {},
+  headers: {},
+  ip: '127.0.0.1',
+  user: {
+    _id: new Types.ObjectId('64b7f0c2a1b2c3d4e5f60718'),
+    walletAddress: '0x1111111111111111111111111111111111111111',
+    isActive: true,
+    roles: [],
+    permissions: [],
+    ...user,
+  } as IUser,
+  ...overrides,
+} as AuthenticatedRequest);
@@ -0,0 +1,101 @@
+import jwt from 'jsonwebtoken';
+import { config } from '@/config/env';
+import { describeAccessGuard, requireAdmin, requirePermission, requireRole } from '@/middleware/auth';
+import { User } from '@/models/User';
+import { sessionService } from '@/services/SessionService';
+import { Permission, UserRole } from '@/types';
+import { createRequest, createResponse } from '../helpers/http';
+
+jest.mock('@/models/User', () => ({
+  User: { findByWallet: jest.fn() },
+}));
+jest.mock('@/services/SessionService', () => ({
+  sessionService: { isAccessTokenRevoked: jest.fn() },
+}));
+
+const wallet = '0x1111111111111111111111111111111111111111';
+const token = jwt.sign({ walletAddress: wallet, sid: 'session', jti: 'token' }, config.jwt.secret);
+
+// Request carrying a bearer token, signed in as a user with the given access
+const signedIn = (roles: UserRole[] = [], permissions: Permission[] = []) => {
+  jest.mocked(User.findByWallet).mockResolvedValue({
+    walletAddress: wallet,
+    isActive: true,
+    roles,
+    permissions,
+    updateLastActivity: jest.fn(),
+  } as never);
+
+  const headers: Record<string, string> = { authorization: `Bearer ${token}` };
+  return createRequest({ header: ((name: string) => headers[name.toLowerCase()]) as never, originalUrl: '/api/v1/admin' });
+};
+
+describe('access guards', () => {
+  beforeEach(() => {
+    jest.mocked(sessionService.isAccessTokenRevoked).mockResolvedValue(false);
+    jest.replaceProperty(config.admin, 'wallets', []);
+  });
+
+  it('let a user holding one of the roles through', async () => {
+    const next = jest.fn();
+
+    await requireRole(UserRole.MODERATOR, UserRole.SUPPORT)(signedIn([UserRole.SUPPORT]), createResponse(), next);
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('let admins through every role check', async () => {
+    const next = jest.fn();
+
+    await requireRole(UserRole.MODERATOR)(signedIn([UserRole.ADMIN]), createResponse(), next);
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('answer 403 without the role', async () => {
+    const res = createResponse();
+    const next = jest.fn();
+
+    await requireAdmin(signedIn([UserRole.MODERATOR]), res, next);
+
+    expect(res.statusCode).toBe(403);
+    expect(res.body).toEqual({ success: false, error: 'Access denied. Admin privileges required.' });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('require every permission, granted through a role or directly', async () => {
+    const guard = requirePermission(Permission.REQUESTS_READ, Permission.AUDIT_READ);
+    const allowed = jest.fn();
+    const denied = createResponse();
+
+    await guard(signedIn([UserRole.SUPPORT], [Permission.AUDIT_READ]), createResponse(), allowed);
+    await guard(signedIn([UserRole.SUPPORT]), denied, jest.fn());
+
+    expect(allowed).toHaveBeenCalled();
+    expect(denied.statusCode).toBe(403);
+  });
+
+  it('treat wallets listed in ADMIN_WALLETS as admins', async () => {
+    jest.replaceProperty(config.admin, 'wallets', [wallet.toUpperCase().replace('0X', '0x')]);
+    const next = jest.fn();
+
+    await requirePermission(Permission.ROLES_MANAGE)(signedIn(), createResponse(), next);
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('answer 401 before checking access when there is no token', async () => {
+    const res = createResponse();
+
+    await requireAdmin(createRequest({ header: (() => undefined) as never }), res, jest.fn());
+
+    expect(res.statusCode).toBe(401);
+    expect(User.findByWallet).not.toHaveBeenCalled();
+  });
+
+  it('describe what they require for the API document', () => {
+    expect(describeAccessGuard(requireRole(UserRole.MODERATOR, UserRole.SUPPORT))).toBe('role moderator or support');
+    expect(describeAccessGuard(requirePermission(Permission.USERS_MANAGE))).toBe('permission users:manage');
+    expect(describeAccessGuard(() => undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,108 @@
+import express from 'express';
+import request from 'supertest';
+import { config } from '@/config/env';
+import { cacheResponse } from '@/middleware/cache';
+import { responseCacheService } from '@/services/ResponseCacheService';
+
+jest.mock('@/config/redis', () => ({
+  getRedisClient: jest.fn(),
+  isRedisConfigured: jest.fn(() => false),
+}));
+
+describe('cacheResponse', () => {
+  const handler = jest.fn();
+  const app = express();
+
+  app.get('/trending', cacheResponse({ ttlSeconds: 60, tags: ['collections'] }), (req, res) => {
+    handler();
+    if (req.query['fail']) {
+      res.status(500).json({ success: false, error: 'Aggregation failed' });
+      return;
+    }
+    res.json({ success: true, data: { calls: handler.mock.calls.length } });
+  });
+
+  // Staff get a fuller response than the public one
+  app.get('/dashboard', cacheResponse({ ttlSeconds: 60, tags: ['collections'], bypass: req => !!req.get('Authorization') }), (req, res) => {
+    handler();
+    res.json({ success: true, data: { staff: !!req.get('Authorization') } });
+  });
+
+  beforeEach(async () => {
+    jest.replaceProperty(config.responseCache, 'enabled', true);
+    // Start every test from an empty cache
+    await responseCacheService.invalidate('collections');
+  });
+
+  it('serves repeat requests from the cache with the same ETag', async () => {
+    const first = await request(app).get('/trending?period=day').expect(200);
+    const second = await request(app).get('/trending?period=day').expect(200);
+
+    expect(first.headers['x-cache']).toBe('MISS');
+    expect(second.headers['x-cache']).toBe('HIT');
+    expect(second.headers['etag']).toBe(first.headers['etag']);
+    expect(second.body).toEqual({ success: true, data: { calls: 1 } });
+    expect(first.headers['cache-control']).toBe('public, max-age=0, must-revalidate');
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('keys entries by the full URL', async () => {
+    await request(app).get('/trending?period=day');
+    const week = await request(app).get('/trending?period=week');
+
+    expect(week.headers['x-cache']).toBe('MISS');
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('answers 304 when If-None-Match carries the current ETag', async () => {
+    const { headers } = await request(app).get('/trending');
+
+    const revalidated = await request(app).get('/trending').set('If-None-Match', headers['etag'] as string);
+
+    expect(revalidated.status).toBe(304);
+    expect(revalidated.text).toBe('');
+  });
+
+  it('rebuilds the response once its data changes', async () => {
+    const { headers } = await request(app).get('/trending');
+    await responseCacheService.invalidate('collections');
+
+    const rebuilt = await request(app).get('/trending').set('If-None-Match', headers['etag'] as string);
+
+    expect(rebuilt.status).toBe(200);
+    expect(rebuilt.headers['x-cache']).toBe('MISS');
+    expect(rebuilt.headers['etag']).not.toBe(headers['etag']);
+  });
+
+  it('neither serves nor stores responses for bypassed callers', async () => {
+    await request(app).get('/dashboard').expect(200);
+
+    const staff = await request(app).get('/dashboard').set('Authorization', 'Bearer staff').expect(200);
+    const anonymous = await request(app).get('/dashboard').expect(200);
+
+    expect(staff.headers['x-cache']).toBeUndefined();
+    expect(staff.body.data).toEqual({ staff: true });
+    expect(anonymous.headers['x-cache']).toBe('HIT');
+    expect(anonymous.body.data).toEqual({ staff: false });
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache errors', async () => {
+    await request(app).get('/trending?fail=1').expect(500);
+    const retried = await request(app).get('/trending?fail=1').expect(500);
+
+    expect(retried.headers['x-cache']).toBeUndefined();
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('passes straight through while disabled or when the cache cannot be read', async () => {
+    jest.replaceProperty(config.responseCache, 'enabled', false);
+    const disabled = await request(app).get('/trending').expect(200);
+    expect(disabled.headers['x-cache']).toBeUndefined();
+
+    jest.replaceProperty(config.responseCache, 'enabled', true);
+    jest.spyOn(responseCacheService, 'buildKey').mockRejectedValue(new Error('Redis unavailable'));
+    const unreachable = await request(app).get('/trending').expect(200);
+    expect(unreachable.headers['x-cache']).toBeUndefined();
+  });
+});
@@ -0,0 +1,111 @@
+import { countRequestImages, enforceGenerationQuota } from '@/middleware/quota';
+import { NFTRequest } from '@/models/NFTRequest';
+import { usageService } from '@/services/UsageService';
+import { QuotaAllowance } from '@/types';
+import { config } from '@/config/env';
+import { createRequest, createResponse } from '../helpers/http';
+
+jest.mock('@/services/UsageService', () => ({
+  usageService: { checkQuota: jest.fn() },
+}));
+jest.mock('@/models/NFTRequest', () => ({
+  NFTRequest: { findByRequestId: jest.fn() },
+}));
+
+const resetsAt = new Date(Date.now() + 3600 * 1000);
+const window = (used: number, limit: number) => ({
+  generations: { used, limit, remaining: Math.max(0, limit - used) },
+  costUsd: { used: 0, limit: null, remaining: null },
+  resetsAt,
+});
+const allowance: QuotaAllowance = { tier: 'free', daily: window(10, 10), monthly: window(10, 100) };
+
+describe('enforceGenerationQuota', () => {
+  const middleware = enforceGenerationQuota();
+
+  beforeEach(() => {
+    jest.replaceProperty(config.usage.quotas, 'enabled', true);
+  });
+
+  it('checks the requested number of variants and passes with quota headers', async () => {
+    jest.mocked(usageService.checkQuota).mockResolvedValue({ success: true, data: allowance });
+    const res = createResponse();
+    const next = jest.fn();
+
+    await middleware(createRequest({ body: { variants: 3 } }), res, next);
+
+    expect(usageService.checkQuota).toHaveBeenCalledWith('0x1111111111111111111111111111111111111111', 3, 'free');
+    expect(res.set).toHaveBeenCalledWith('X-Quota-Remaining', '0');
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('answers 429 with a retry time when the generation quota is used up', async () => {
+    jest.mocked(usageService.checkQuota).mockResolvedValue({
+      success: false,
+      data: { ...allowance, exceeded: { period: 'daily', limit: 'generations' } },
+      error: 'Daily generation quota exceeded',
+      code: 'QUOTA_EXCEEDED',
+    });
+    const res = createResponse();
+    const next = jest.fn();
+
+    await middleware(createRequest(), res, next);
+
+    expect(res.statusCode).toBe(429);
+    expect(res.set).toHaveBeenCalledWith('Retry-After', '3600');
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('answers 402 when the budget is spent', async () => {
+    jest.mocked(usageService.checkQuota).mockResolvedValue({
+      success: false,
+      data: { ...allowance, exceeded: { period: 'monthly', limit: 'costUsd' } },
+      error: 'Monthly generation budget exhausted',
+      code: 'BUDGET_EXCEEDED',
+    });
+    const res = createResponse();
+
+    await middleware(createRequest(), res, jest.fn());
+
+    expect(res.statusCode).toBe(402);
+  });
+
+  it('lets the request through when the ledger cannot be read', async () => {
+    jest.mocked(usageService.checkQuota).mockResolvedValue({ success: false, error: 'Failed to retrieve usage allowance' });
+    const next = jest.fn();
+
+    await middleware(createRequest(), createResponse(), next);
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('skips the check for requests that generate nothing', async () => {
+    const next = jest.fn();
+
+    await enforceGenerationQuota(() => 0)(createRequest(), createResponse(), next);
+
+    expect(usageService.checkQuota).not.toHaveBeenCalled();
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('counts the variants an existing request was created with', async () => {
+    jest.mocked(usageService.checkQuota).mockResolvedValue({ success: true, data: allowance });
+    jest.mocked(NFTRequest.findByRequestId).mockResolvedValue({ generationOptions: { variants: 4 } } as never);
+    const req = createRequest({ params: { requestId: 'a'.repeat(64) } });
+
+    await enforceGenerationQuota(countRequestImages)(req, createResponse(), jest.fn());
+
+    expect(NFTRequest.findByRequestId).toHaveBeenCalledWith('a'.repeat(64));
+    expect(usageService.checkQuota).toHaveBeenCalledWith('0x1111111111111111111111111111111111111111', 4, 'free');
+  });
+
+  it('counts the default number of variants for a request created without one', async () => {
+    jest.mocked(usageService.checkQuota).mockResolvedValue({ success: true, data: allowance });
+    jest.mocked(NFTRequest.findByRequestId).mockResolvedValue({ generationOptions: {} } as never);
+    const req = createRequest({ params: { requestId: 'a'.repeat(64) } });
+
+    await enforceGenerationQuota(countRequestImages)(req, createResponse(), jest.fn());
+
+    expect(usageService.checkQuota).toHaveBeenCalledWith(expect.any(String), config.ai.variants.default, 'free');
+  });
+});
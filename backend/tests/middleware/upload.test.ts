@@ -0,0 +1,57 @@
+import express from 'express';
+import request from 'supertest';
+import { config } from '@/config/env';
+import { getReferenceUploads, MAX_UPLOAD_REQUEST_SIZE, referenceImageUpload } from '@/middleware/upload';
+import { limitRequestSize } from '@/middleware/validation';
+
+describe('referenceImageUpload', () => {
+  const app = express();
+
+  // Same order as the server: the global size limit runs before the route's upload handling
+  app.use(limitRequestSize(2 * 1024 * 1024));
+  app.use(express.json({ limit: '5mb' }));
+  app.post('/generate', referenceImageUpload, (req, res) => {
+    const { referenceImage, mask } = getReferenceUploads(req);
+    res.json({ success: true, data: { prompt: req.body.prompt, referenceImage: referenceImage?.size, mask: mask?.size } });
+  });
+
+  const image = (bytes: number) => Buffer.alloc(bytes, 1);
+  const megabytes = (count: number) => count * 1024 * 1024;
+
+  it('accepts a reference image larger than the global request limit', async () => {
+    const response = await request(app)
+      .post('/generate')
+      .field('prompt', 'A lighthouse at dusk')
+      .attach('referenceImage', image(megabytes(3)), { filename: 'reference.png', contentType: 'image/png' })
+      .expect(200);
+
+    expect(response.body).toEqual({ success: true, data: { prompt: 'A lighthouse at dusk', referenceImage: megabytes(3) } });
+  });
+
+  it('rejects files over the configured size limit', async () => {
+    const response = await request(app)
+      .post('/generate')
+      .attach('referenceImage', image(config.upload.maxFileSize + 1), { filename: 'reference.png', contentType: 'image/png' })
+      .expect(400);
+
+    expect(response.body.error).toBe(`Files cannot exceed ${config.upload.maxFileSize / (1024 * 1024)}MB`);
+  });
+
+  it('refuses a multipart body larger than every file at the limit', async () => {
+    const response = await request(app)
+      .post('/generate')
+      .set('Content-Type', 'multipart/form-data; boundary=x')
+      .set('Content-Length', String(MAX_UPLOAD_REQUEST_SIZE + 1))
+      .send(Buffer.alloc(0))
+      .expect(413);
+
+    expect(response.body).toEqual({ success: false, error: 'Request too large' });
+  });
+
+  it('keeps the global limit for other request bodies', async () => {
+    await request(app)
+      .post('/generate')
+      .send({ prompt: 'x'.repeat(megabytes(3)) })
+      .expect(413);
+  });
+});
@@ -0,0 +1,73 @@
+import { Request } from 'express';
+import { validationResult } from 'express-validator';
+import { generationParamsValidation, MAX_CUSTOM_ATTRIBUTES } from '@/middleware/validation';
+
+// Run the generation parameter chain and return the sanitized body and error messages
+const validate = async (body: Record<string, unknown>): Promise<{ body: Record<string, unknown>; errors: string[] }> => {
+  const req = { body } as Request;
+  for (const validation of generationParamsValidation) {
+    await validation.run(req);
+  }
+
+  return {
+    body: req.body as Record<string, unknown>,
+    errors: validationResult(req).array().map(error => String(error.msg)),
+  };
+};
+
+describe('generationParamsValidation', () => {
+  it('accepts attributes as an object and trims them into traits', async () => {
+    const result = await validate({ attributes: { ' Mood ': ' Calm ', Level: 3 } });
+
+    expect(result.errors).toEqual([]);
+    expect(result.body['attributes']).toEqual([
+      { trait_type: 'Mood', value: 'Calm' },
+      { trait_type: 'Level', value: 3 },
+    ]);
+  });
+
+  it('accepts attributes as a JSON string from a multipart form', async () => {
+    const attributes = JSON.stringify([{ trait_type: 'Power', value: 40, display_type: 'boost_number', max_value: 100 }]);
+
+    const result = await validate({ attributes });
+
+    expect(result.errors).toEqual([]);
+    expect(result.body['attributes']).toEqual([
+      { trait_type: 'Power', value: 40, display_type: 'boost_number', max_value: 100 },
+    ]);
+  });
+
+  it('rejects reserved, duplicated and too many attributes', async () => {
+    const tooMany = Object.fromEntries(Array.from({ length: MAX_CUSTOM_ATTRIBUTES + 1 }, (_, i) => [`Trait ${i}`, i]));
+
+    await expect(validate({ attributes: { Creator: 'me' } }))
+      .resolves.toMatchObject({ errors: ["Attribute 'Creator' is reserved"] });
+    await expect(validate({ attributes: [{ trait_type: 'Mood', value: 'Calm' }, { trait_type: 'mood', value: 'Dark' }] }))
+      .resolves.toMatchObject({ errors: ["Attribute 'mood' is duplicated"] });
+    await expect(validate({ attributes: tooMany }))
+      .resolves.toMatchObject({ errors: [`No more than ${MAX_CUSTOM_ATTRIBUTES} attributes are allowed`] });
+  });
+
+  it('rejects attributes that are not traits', async () => {
+    const result = await validate({ attributes: 'not json' });
+
+    expect(result.errors).toEqual(['Attributes must be an object or an array of traits']);
+  });
+
+  it('converts numeric and boolean generation parameters', async () => {
+    const result = await validate({ style: ' Watercolor ', variants: '2', referenceStrength: '0.4', reuseCached: 'false' });
+
+    expect(result.errors).toEqual([]);
+    expect(result.body).toEqual({ style: 'Watercolor', variants: 2, referenceStrength: 0.4, reuseCached: false });
+  });
+
+  it('rejects unknown providers, sizes and qualities', async () => {
+    const result = await validate({ provider: 'midjourney', size: '640x480', quality: 'ultra' });
+
+    expect(result.errors).toEqual([
+      'Invalid image provider',
+      expect.stringMatching(/^Size must be one of /),
+      'Quality must be one of standard, hd',
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+import { AIService } from '@/services/AIService';
+import { ipfsService } from '@/services/IPFSService';
+import { UploadedFile, UsageItem } from '@/types';
+
+jest.mock('@/services/IPFSService', () => ({
+  ipfsService: { uploadImageBuffer: jest.fn(), retrieveFile: jest.fn() },
+}));
+
+const upload = (fieldname: string, content: string): UploadedFile => ({
+  fieldname,
+  originalname: `${fieldname}.png`,
+  encoding: '7bit',
+  mimetype: 'image/png',
+  size: content.length,
+  buffer: Buffer.from(content),
+});
+
+describe('AIService reference images', () => {
+  const service = new AIService();
+  const referenceImage = upload('referenceImage', 'reference');
+  const mask = upload('mask', 'mask');
+
+  beforeEach(() => {
+    jest.mocked(ipfsService.uploadImageBuffer).mockImplementation((buffer: Buffer) => Promise.resolve({
+      success: true,
+      data: { hash: `Qm${buffer.toString('utf8')}`, size: buffer.length },
+    }) as never);
+  });
+
+  it('pins the reference image and mask for inpainting', async () => {
+    const usage: UsageItem[] = [];
+
+    await expect(service.prepareReference({ referenceImage, mask }, 'inpaint', 0.8, usage)).resolves.toEqual({
+      success: true,
+      data: { mode: 'inpaint', ipfsHash: 'Qmreference', contentType: 'image/png', maskIpfsHash: 'Qmmask', strength: 0.8 },
+    });
+    expect(usage.map(item => item.operation)).toEqual(['reference', 'mask']);
+  });
+
+  it('requires a mask for inpainting and refuses one otherwise', async () => {
+    await expect(service.prepareReference({ referenceImage }, 'inpaint'))
+      .resolves.toEqual({ success: false, error: 'Inpainting requires a mask image' });
+    await expect(service.prepareReference({ referenceImage, mask }, 'style'))
+      .resolves.toEqual({ success: false, error: 'A mask can only be used for inpainting' });
+    await expect(service.prepareReference({ mask }))
+      .resolves.toEqual({ success: false, error: 'A reference image is required' });
+
+    expect(ipfsService.uploadImageBuffer).not.toHaveBeenCalled();
+  });
+
+  it('loads the pinned reference image and mask back for generation', async () => {
+    jest.mocked(ipfsService.retrieveFile).mockImplementation((hash: string) => Promise.resolve({
+      success: true,
+      data: { data: Buffer.from(hash), contentType: 'image/png' },
+    }));
+
+    const result = await service.loadReference({ mode: 'inpaint', ipfsHash: 'QmImage', contentType: 'image/png', maskIpfsHash: 'QmMask' });
+
+    expect(result.data?.image.toString()).toBe('QmImage');
+    expect(result.data?.mask?.toString()).toBe('QmMask');
+  });
+
+  it('fails when the reference image cannot be fetched', async () => {
+    jest.mocked(ipfsService.retrieveFile).mockResolvedValue({ success: false, error: 'All IPFS gateways failed' });
+
+    await expect(service.loadReference({ mode: 'variation', ipfsHash: 'QmImage', contentType: 'image/png' }))
+      .resolves.toEqual({ success: false, error: 'All IPFS gateways failed' });
+  });
+});
@@ -0,0 +1,147 @@
+import { Types } from 'mongoose';
+import { getUserAccess } from '@/config/roles';
+import { User } from '@/models/User';
+import { AdminService, StaffActor } from '@/services/AdminService';
+import { auditService } from '@/services/AuditService';
+import { sessionService } from '@/services/SessionService';
+import { userService } from '@/services/UserService';
+import { Permission, UserRole } from '@/types';
+
+jest.mock('@/models/User', () => ({
+  User: { findOne: jest.fn() },
+}));
+jest.mock('@/services/AuditService', () => ({
+  auditService: { record: jest.fn() },
+}));
+jest.mock('@/services/SessionService', () => ({
+  sessionService: { revokeAllSessions: jest.fn() },
+}));
+jest.mock('@/services/UserService', () => ({
+  userService: { deactivateUser: jest.fn(), reactivateUser: jest.fn() },
+}));
+jest.mock('@/services/CollectionService', () => ({ collectionService: {} }));
+jest.mock('@/services/NFTRequestService', () => ({ nftRequestService: {} }));
+
+const staffWallet = '0x1111111111111111111111111111111111111111';
+const targetWallet = '0x2222222222222222222222222222222222222222';
+
+const actor = (roles: UserRole[], permissions: Permission[] = []): StaffActor => ({
+  walletAddress: staffWallet,
+  ip: '127.0.0.1',
+  access: getUserAccess({ walletAddress: staffWallet, roles, permissions }),
+});
+
+// User document with the fields the service reads and writes
+const userDocument = (roles: UserRole[] = [], permissions: Permission[] = []) => {
+  const user = {
+    _id: new Types.ObjectId('64b7f0c2a1b2c3d4e5f60718'),
+    walletAddress: targetWallet,
+    isActive: true,
+    roles,
+    permissions,
+    save: jest.fn(),
+    toJSON: () => ({ walletAddress: user.walletAddress, isActive: user.isActive, roles: user.roles, permissions: user.permissions }),
+  };
+  jest.mocked(User.findOne).mockResolvedValue(user);
+  return user;
+};
+
+describe('AdminService.setUserActive', () => {
+  const service = new AdminService();
+
+  beforeEach(() => {
+    jest.mocked(userService.deactivateUser).mockResolvedValue({ success: true });
+  });
+
+  it('deactivates a user, ends their sessions and records the action', async () => {
+    userDocument();
+
+    const result = await service.setUserActive(actor([UserRole.ADMIN]), targetWallet, false, 'Spam');
+
+    expect(result).toMatchObject({ success: true, data: { walletAddress: targetWallet, isActive: false } });
+    expect(userService.deactivateUser).toHaveBeenCalledWith('64b7f0c2a1b2c3d4e5f60718');
+    expect(sessionService.revokeAllSessions).toHaveBeenCalledWith('64b7f0c2a1b2c3d4e5f60718');
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({ walletAddress: staffWallet }), {
+      action: 'user.deactivated',
+      targetType: 'user',
+      targetId: targetWallet,
+      reason: 'Spam',
+    });
+  });
+
+  it('records nothing when the user already has that status', async () => {
+    userDocument();
+
+    await expect(service.setUserActive(actor([UserRole.ADMIN]), targetWallet, true))
+      .resolves.toMatchObject({ success: true });
+    expect(userService.reactivateUser).not.toHaveBeenCalled();
+    expect(auditService.record).not.toHaveBeenCalled();
+  });
+
+  it('refuses to change the actor\'s own account', async () => {
+    await expect(service.setUserActive(actor([UserRole.ADMIN]), staffWallet.toUpperCase().replace('0X', '0x'), false))
+      .resolves.toMatchObject({ success: false, code: 'SELF_ACTION' });
+    expect(User.findOne).not.toHaveBeenCalled();
+  });
+
+  it('does not let other staff lock out a user with access they lack', async () => {
+    userDocument([UserRole.ADMIN]);
+    const support = actor([UserRole.SUPPORT], [Permission.USERS_MANAGE]);
+
+    await expect(service.setUserActive(support, targetWallet, false))
+      .resolves.toMatchObject({ success: false, code: 'FORBIDDEN' });
+    expect(userService.deactivateUser).not.toHaveBeenCalled();
+
+    userDocument([UserRole.SUPPORT]);
+    await expect(service.setUserActive(support, targetWallet, false)).resolves.toMatchObject({ success: true });
+  });
+});
+
+describe('AdminService.updateUserAccess', () => {
+  const service = new AdminService();
+
+  it('replaces roles and permissions and records both versions', async () => {
+    const user = userDocument([UserRole.SUPPORT]);
+
+    const result = await service.updateUserAccess(actor([UserRole.ADMIN]), targetWallet, {
+      roles: [UserRole.MODERATOR, UserRole.MODERATOR],
+      permissions: [Permission.AUDIT_READ],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.access.permissions).toEqual(expect.arrayContaining([Permission.AUDIT_READ, Permission.MODERATION_REVIEW]));
+    expect(user.save).toHaveBeenCalled();
+    expect(auditService.record).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+      action: 'user.access_updated',
+      details: {
+        previous: { roles: [UserRole.SUPPORT], permissions: [] },
+        current: { roles: [UserRole.MODERATOR], permissions: [Permission.AUDIT_READ] },
+      },
+    }));
+  });
+
+  it('lets other staff grant only access they hold', async () => {
+    const moderator = actor([UserRole.MODERATOR], [Permission.ROLES_MANAGE]);
+
+    userDocument();
+    await expect(service.updateUserAccess(moderator, targetWallet, { roles: [UserRole.ADMIN] }))
+      .resolves.toMatchObject({ success: false, code: 'FORBIDDEN' });
+
+    userDocument();
+    await expect(service.updateUserAccess(moderator, targetWallet, { permissions: [Permission.USAGE_READ] }))
+      .resolves.toMatchObject({ success: false, code: 'FORBIDDEN' });
+
+    userDocument();
+    await expect(service.updateUserAccess(moderator, targetWallet, { roles: [UserRole.MODERATOR] }))
+      .resolves.toMatchObject({ success: true });
+  });
+
+  it('saves and records nothing when the access is unchanged', async () => {
+    const user = userDocument([UserRole.SUPPORT]);
+
+    await service.updateUserAccess(actor([UserRole.ADMIN]), targetWallet, { roles: [UserRole.SUPPORT] });
+
+    expect(user.save).not.toHaveBeenCalled();
+    expect(auditService.record).not.toHaveBeenCalled();
+  });
+});
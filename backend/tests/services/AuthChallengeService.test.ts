@@ -0,0 +1,110 @@
+import { AuthChallengeService, ChallengeStore, IssuedChallenge, RedisChallengeStore } from '@/services/AuthChallengeService';
+import { getRedisClient } from '@/config/redis';
+
+jest.mock('@/models/AuthChallenge', () => ({ AuthChallenge: {} }));
+jest.mock('@/config/redis', () => ({
+  getRedisClient: jest.fn(),
+  isRedisConfigured: jest.fn(() => false),
+}));
+
+/**
+ * In-memory challenge store; `take` removes the challenge like the real stores
+ */
+class MemoryChallengeStore implements ChallengeStore {
+  public challenges = new Map<string, IssuedChallenge>();
+
+  public save(challenge: IssuedChallenge): Promise<void> {
+    this.challenges.set(`${challenge.walletAddress}:${challenge.nonce}`, challenge);
+    return Promise.resolve();
+  }
+
+  public take(walletAddress: string, nonce: string): Promise<IssuedChallenge | null> {
+    const key = `${walletAddress.toLowerCase()}:${nonce}`;
+    const challenge = this.challenges.get(key) || null;
+    this.challenges.delete(key);
+    return Promise.resolve(challenge);
+  }
+}
+
+const walletAddress = '0x3333333333333333333333333333333333333333';
+
+describe('AuthChallengeService', () => {
+  let store: MemoryChallengeStore;
+  let service: AuthChallengeService;
+
+  beforeEach(() => {
+    store = new MemoryChallengeStore();
+    service = new AuthChallengeService(store);
+  });
+
+  const issue = async (): Promise<IssuedChallenge> => {
+    const result = await service.issueChallenge(walletAddress, 7001, 'localhost:3000');
+    if (!result.data) {
+      throw new Error('Challenge was not issued');
+    }
+    return result.data;
+  };
+
+  it('issues a SIWE challenge for the wallet and stores it', async () => {
+    const challenge = await issue();
+
+    expect(challenge.walletAddress).toBe(walletAddress);
+    expect(challenge.message).toContain(`Nonce: ${challenge.nonce}`);
+    expect(challenge.message).toContain('Chain ID: 7001');
+    expect(challenge.expiresAt.getTime()).toBeGreaterThan(challenge.issuedAt.getTime());
+    expect(store.challenges.size).toBe(1);
+  });
+
+  it('consumes a challenge only once', async () => {
+    const challenge = await issue();
+
+    const first = await service.consumeChallenge(walletAddress, challenge.message);
+    const second = await service.consumeChallenge(walletAddress, challenge.message);
+
+    expect(first).toMatchObject({ success: true, data: { nonce: challenge.nonce } });
+    expect(second).toMatchObject({ success: false, code: 'CHALLENGE_NOT_FOUND' });
+  });
+
+  it('burns the challenge when the message was tampered with', async () => {
+    const challenge = await issue();
+    const tampered = challenge.message.replace('Chain ID: 7001', 'Chain ID: 1');
+
+    await expect(service.consumeChallenge(walletAddress, tampered))
+      .resolves.toMatchObject({ success: false, code: 'INVALID_CHALLENGE' });
+    await expect(service.consumeChallenge(walletAddress, challenge.message))
+      .resolves.toMatchObject({ success: false, code: 'CHALLENGE_NOT_FOUND' });
+  });
+
+  it('rejects an expired challenge', async () => {
+    const challenge = await issue();
+    challenge.expiresAt = new Date(Date.now() - 1000);
+
+    await expect(service.consumeChallenge(walletAddress, challenge.message))
+      .resolves.toMatchObject({ success: false, code: 'CHALLENGE_EXPIRED' });
+  });
+
+  it('rejects a message that is not SIWE', async () => {
+    await expect(service.consumeChallenge(walletAddress, 'Sign in please'))
+      .resolves.toMatchObject({ success: false, code: 'INVALID_CHALLENGE' });
+  });
+});
+
+describe('RedisChallengeStore', () => {
+  it('takes a challenge atomically and restores its dates', async () => {
+    const issuedAt = new Date('2026-01-01T00:00:00.000Z');
+    const expiresAt = new Date('2026-01-01T00:05:00.000Z');
+    const getDel = jest.fn(() => Promise.resolve(JSON.stringify({
+      walletAddress,
+      nonce: 'abc',
+      message: 'message',
+      issuedAt,
+      expiresAt,
+    })));
+    jest.mocked(getRedisClient).mockResolvedValue({ getDel } as never);
+
+    const challenge = await new RedisChallengeStore().take(walletAddress, 'abc');
+
+    expect(getDel).toHaveBeenCalledWith(`chainweave:auth:challenge:${walletAddress}:abc`);
+    expect(challenge).toEqual({ walletAddress, nonce: 'abc', message: 'message', issuedAt, expiresAt });
+  });
+});
@@ -0,0 +1,129 @@
+import { Types } from 'mongoose';
+import { config } from '@/config/env';
+import { Collection } from '@/models/Collection';
+import { NFTRequest } from '@/models/NFTRequest';
+import { CollectionService } from '@/services/CollectionService';
+import { ipfsService } from '@/services/IPFSService';
+import { RequestStatus } from '@/types';
+
+jest.mock('@/models/Collection', () => ({
+  Collection: { findById: jest.fn() },
+}));
+jest.mock('@/models/NFTRequest', () => ({
+  NFTRequest: { find: jest.fn() },
+}));
+jest.mock('@/services/IPFSService', () => ({
+  ipfsService: { retrieveFile: jest.fn(), uploadDirectory: jest.fn() },
+}));
+jest.mock('@/services/NotificationService', () => ({
+  notificationService: { notifyCollectionEvent: jest.fn() },
+}));
+jest.mock('@/services/WebhookService', () => ({
+  webhookService: { dispatch: jest.fn() },
+}));
+jest.mock('@/services/ResponseCacheService', () => ({
+  responseCacheService: { invalidate: jest.fn() },
+}));
+
+const collectionId = new Types.ObjectId().toString();
+const creatorWallet = '0x6666666666666666666666666666666666666666';
+const contractAddress = '0x7777777777777777777777777777777777777777';
+
+const mockCollection = (walletAddress = creatorWallet) => {
+  const collection = {
+    _id: collectionId,
+    name: 'Lighthouses',
+    chainId: 7001,
+    contractAddress,
+    creatorId: { walletAddress },
+    save: jest.fn(),
+    toJSON: jest.fn(() => ({ name: 'Lighthouses' })),
+  } as Record<string, unknown>;
+  jest.mocked(Collection.findById).mockReturnValue({ populate: () => Promise.resolve(collection) } as never);
+  return collection;
+};
+
+const token = (tokenId: number) => ({
+  requestId: `r${tokenId}`,
+  status: RequestStatus.COMPLETED,
+  blockchainData: { contractAddress, tokenId },
+  aiGenerationData: { ipfsHash: `QmImage${tokenId}` },
+  metadata: { name: `Lighthouse #${tokenId}`, description: 'A lighthouse', image: `ipfs://QmImage${tokenId}` },
+});
+
+const mockTokens = (tokens: Array<ReturnType<typeof token>>) => {
+  const limit = jest.fn(() => ({ lean: () => Promise.resolve(tokens) }));
+  jest.mocked(NFTRequest.find).mockReturnValue({ sort: () => ({ limit }) } as never);
+  return limit;
+};
+
+describe('CollectionService.freezeMetadata', () => {
+  const service = new CollectionService();
+
+  beforeEach(() => {
+    jest.mocked(ipfsService.retrieveFile).mockResolvedValue({
+      success: true,
+      data: { data: Buffer.alloc(1024), contentType: 'image/png' },
+    });
+    jest.mocked(ipfsService.uploadDirectory)
+      .mockResolvedValueOnce({ success: true, data: { hash: 'bafyimages', url: '', size: 0, entries: {} } })
+      .mockResolvedValueOnce({ success: true, data: { hash: 'bafymetadata', url: '', size: 0, entries: {} } });
+  });
+
+  it('pins images and metadata as directories named by token ID', async () => {
+    const collection = mockCollection();
+    mockTokens([token(1), token(2)]);
+
+    const result = await service.freezeMetadata(collectionId, creatorWallet);
+
+    expect(result.success).toBe(true);
+    expect(jest.mocked(ipfsService.uploadDirectory).mock.calls[0]![0].map(file => file.name)).toEqual(['1.png', '2.png']);
+    const [metadataFiles] = jest.mocked(ipfsService.uploadDirectory).mock.calls[1]!;
+    expect(metadataFiles.map(file => file.name)).toEqual(['1.json', '2.json']);
+    expect(JSON.parse(metadataFiles[0]!.content.toString())).toMatchObject({ image: 'ipfs://bafyimages/1.png' });
+    expect(collection['frozenMetadata']).toMatchObject({ baseURI: 'ipfs://bafymetadata/', tokenCount: 2 });
+  });
+
+  it('only lets the creator freeze a collection', async () => {
+    mockCollection('0x8888888888888888888888888888888888888888');
+
+    await expect(service.freezeMetadata(collectionId, creatorWallet)).resolves.toEqual({
+      success: false,
+      error: 'Unauthorized: Only collection creator can freeze metadata',
+    });
+    expect(NFTRequest.find).not.toHaveBeenCalled();
+  });
+
+  it('reports token IDs used by more than one request', async () => {
+    mockCollection();
+    mockTokens([token(1), token(2), token(2)]);
+
+    await expect(service.freezeMetadata(collectionId, creatorWallet)).resolves.toMatchObject({
+      success: false,
+      code: 'DUPLICATE_TOKEN_ID',
+      details: [{ field: 'tokens[2]', value: 2 }],
+    });
+    expect(ipfsService.retrieveFile).not.toHaveBeenCalled();
+  });
+
+  it('refuses collections over the token limit without loading them all', async () => {
+    jest.replaceProperty(config.ipfs.freeze, 'maxTokens', 2);
+    mockCollection();
+    const limit = mockTokens([token(1), token(2), token(3)]);
+
+    await expect(service.freezeMetadata(collectionId, creatorWallet))
+      .resolves.toMatchObject({ success: false, code: 'COLLECTION_TOO_LARGE' });
+    expect(limit).toHaveBeenCalledWith(3);
+  });
+
+  it('stops fetching images once they exceed the size limit', async () => {
+    jest.replaceProperty(config.ipfs.freeze, 'maxBytes', 1536);
+    mockCollection();
+    mockTokens([token(1), token(2), token(3)]);
+
+    await expect(service.freezeMetadata(collectionId, creatorWallet))
+      .resolves.toMatchObject({ success: false, code: 'COLLECTION_TOO_LARGE' });
+    expect(ipfsService.retrieveFile).toHaveBeenCalledTimes(2);
+    expect(ipfsService.uploadDirectory).not.toHaveBeenCalled();
+  });
+});
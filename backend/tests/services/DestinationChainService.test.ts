@@ -0,0 +1,136 @@
+import { ethers } from 'ethers';
+import { NFTRequest } from '@/models/NFTRequest';
+import { TokenOwnership } from '@/models/TokenOwnership';
+import { DestinationChainService } from '@/services/DestinationChainService';
+import { ChainLogEvent, EventIndexer } from '@/services/EventIndexerService';
+import { RequestStatus } from '@/types';
+
+jest.mock('@/config/chains', () => ({
+  ...jest.requireActual<object>('@/config/chains'),
+  DESTINATION_CHAIN_IDS: [],
+}));
+jest.mock('@/models/IndexerCursor', () => ({ IndexerCursor: {} }));
+jest.mock('@/models/IndexedEvent', () => ({ IndexedEvent: {} }));
+jest.mock('@/models/NFTRequest', () => ({
+  NFTRequest: { findByRequestId: jest.fn() },
+}));
+jest.mock('@/models/TokenOwnership', () => ({
+  TokenOwnership: { updateOne: jest.fn(), deleteOne: jest.fn() },
+}));
+jest.mock('@/services/RealtimeService', () => ({ realtimeService: { publish: jest.fn() } }));
+jest.mock('@/services/WebhookService', () => ({ webhookService: { dispatch: jest.fn() } }));
+jest.mock('@/services/NotificationService', () => ({ notificationService: { notifyMintCompleted: jest.fn() } }));
+
+const requestId = ethers.id('request');
+const recipient = `0x${'11'.repeat(20)}`;
+const holder = `0x${'22'.repeat(20)}`;
+const destination = {
+  chainId: 11155111,
+  contractAddress: `0x${'42'.repeat(20)}`,
+  indexer: {} as EventIndexer,
+};
+
+const eventOf = (eventName: string, args: Record<string, unknown>): ChainLogEvent => ({
+  indexerId: 'minter:11155111',
+  chainId: destination.chainId,
+  eventName,
+  transactionHash: ethers.id(`tx-${eventName}`),
+  logIndex: 1,
+  blockNumber: 10,
+  blockHash: ethers.id('block-10'),
+  args,
+});
+
+type StoredRequest = {
+  requestId: string;
+  walletAddress: string;
+  status: RequestStatus;
+  completedAt?: Date;
+  blockchainData: Record<string, unknown>;
+};
+
+// Request document that keeps set() and setBlockchainData() changes in a plain object
+const mockRequest = (status: RequestStatus): StoredRequest => {
+  const stored: StoredRequest = { requestId, walletAddress: recipient, status, blockchainData: {} };
+  const document = Object.assign(stored, {
+    set: (path: string, value: unknown) => {
+      if (path.startsWith('blockchainData.')) {
+        stored.blockchainData[path.slice('blockchainData.'.length)] = value;
+      } else {
+        Object.assign(stored, { [path]: value });
+      }
+    },
+    setBlockchainData: (data: Record<string, unknown>) => {
+      Object.assign(stored.blockchainData, data);
+      return Promise.resolve(document);
+    },
+    updateStatus: (next: RequestStatus) => {
+      stored.status = next;
+      if (next === RequestStatus.COMPLETED) {
+        stored.completedAt = new Date();
+      }
+      return Promise.resolve(document);
+    },
+  });
+  jest.mocked(NFTRequest.findByRequestId).mockResolvedValue(document as never);
+  return stored;
+};
+
+describe('DestinationChainService', () => {
+  const service = new DestinationChainService();
+  const handleEvent = (event: ChainLogEvent) => service['handleEvent'](destination, event);
+  const rollbackEvent = (event: ChainLogEvent) => service['rollbackEvent'](destination, event);
+
+  const minted = eventOf('TokenMintedWithRoyalty', { tokenId: 7n, recipient, requestId, royalty: 500n });
+
+  it('completes the request once its token is minted on the destination chain', async () => {
+    const request = mockRequest(RequestStatus.CROSS_CHAIN_PENDING);
+
+    await handleEvent(minted);
+
+    expect(request.status).toBe(RequestStatus.COMPLETED);
+    expect(request.blockchainData).toEqual({
+      tokenId: 7,
+      contractAddress: destination.contractAddress,
+      mintTransactionHash: minted.transactionHash,
+      mintBlockNumber: 10,
+      royalty: 500,
+    });
+  });
+
+  it('clears the token when its mint is rolled back by a reorg', async () => {
+    const request = mockRequest(RequestStatus.CROSS_CHAIN_PENDING);
+    await handleEvent(minted);
+
+    await rollbackEvent(minted);
+
+    expect(request.status).toBe(RequestStatus.CROSS_CHAIN_PENDING);
+    expect(request.completedAt).toBeUndefined();
+    expect(request.blockchainData).toEqual({
+      tokenId: undefined,
+      contractAddress: destination.contractAddress,
+      mintTransactionHash: undefined,
+      mintBlockNumber: undefined,
+      royalty: undefined,
+    });
+  });
+
+  it('forgets a token whose minting transfer was rolled back', async () => {
+    await rollbackEvent(eventOf('Transfer', { from: ethers.ZeroAddress, to: recipient, tokenId: 7n }));
+
+    expect(TokenOwnership.deleteOne).toHaveBeenCalledWith({
+      chainId: destination.chainId,
+      contractAddress: destination.contractAddress,
+      tokenId: 7,
+    });
+  });
+
+  it('returns a token to its previous owner when a transfer is rolled back', async () => {
+    await rollbackEvent(eventOf('Transfer', { from: recipient, to: holder, tokenId: 7n }));
+
+    expect(TokenOwnership.updateOne).toHaveBeenCalledWith(
+      { chainId: destination.chainId, contractAddress: destination.contractAddress, tokenId: 7 },
+      { $set: { owner: recipient, burned: false } }
+    );
+  });
+});
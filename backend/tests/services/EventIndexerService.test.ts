@@ -0,0 +1,324 @@
+import { ethers } from 'ethers';
+import {
+  ChainLogEvent,
+  EventIndexer,
+  EventIndexerHandler,
+  EventPosition,
+  IndexerCursorState,
+  IndexerStore,
+} from '@/services/EventIndexerService';
+import { IndexedEventStatus } from '@/types';
+
+jest.mock('@/models/IndexerCursor', () => ({ IndexerCursor: {} }));
+jest.mock('@/models/IndexedEvent', () => ({ IndexedEvent: {} }));
+
+const ABI = ['event NFTMinted(bytes32 indexed requestId, uint256 tokenId)'];
+const iface = new ethers.Interface(ABI);
+const contractAddress = ethers.getAddress(`0x${'42'.repeat(20)}`);
+const otherAddress = ethers.getAddress(`0x${'43'.repeat(20)}`);
+
+type StoredEvent = ChainLogEvent & { status: IndexedEventStatus; attempts: number; lastError?: string };
+
+/**
+ * In-memory indexer store, keyed like the MongoDB one
+ */
+class MemoryIndexerStore implements IndexerStore {
+  public cursor: IndexerCursorState | null = null;
+  public events = new Map<string, StoredEvent>();
+
+  private key(transactionHash: string, logIndex: number): string {
+    return `${transactionHash}:${logIndex}`;
+  }
+
+  public getCursor(): Promise<IndexerCursorState | null> {
+    return Promise.resolve(this.cursor);
+  }
+
+  public saveCursor(_indexerId: string, _chainId: number, _contractAddress: string, state: IndexerCursorState): Promise<void> {
+    this.cursor = state;
+    return Promise.resolve();
+  }
+
+  public isSettled(_indexerId: string, transactionHash: string, logIndex: number): Promise<boolean> {
+    const status = this.events.get(this.key(transactionHash, logIndex))?.status;
+    return Promise.resolve(status === IndexedEventStatus.PROCESSED || status === IndexedEventStatus.DEAD_LETTERED);
+  }
+
+  public markProcessed(event: ChainLogEvent): Promise<void> {
+    const existing = this.events.get(this.key(event.transactionHash, event.logIndex));
+    this.events.set(this.key(event.transactionHash, event.logIndex), {
+      ...event,
+      status: IndexedEventStatus.PROCESSED,
+      attempts: existing?.attempts ?? 0,
+    });
+    return Promise.resolve();
+  }
+
+  public recordFailure(event: ChainLogEvent, error: string): Promise<number> {
+    const attempts = (this.events.get(this.key(event.transactionHash, event.logIndex))?.attempts ?? 0) + 1;
+    this.events.set(this.key(event.transactionHash, event.logIndex), {
+      ...event,
+      status: IndexedEventStatus.FAILED,
+      attempts,
+      lastError: error,
+    });
+    return Promise.resolve(attempts);
+  }
+
+  public markDeadLettered(event: ChainLogEvent, error: string): Promise<void> {
+    const stored = this.events.get(this.key(event.transactionHash, event.logIndex))!;
+    Object.assign(stored, { status: IndexedEventStatus.DEAD_LETTERED, lastError: error });
+    return Promise.resolve();
+  }
+
+  public findProcessedAfter(_indexerId: string, blockNumber: number): Promise<ChainLogEvent[]> {
+    return Promise.resolve([...this.events.values()]
+      .filter(event => event.status === IndexedEventStatus.PROCESSED && event.blockNumber > blockNumber)
+      .sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex));
+  }
+
+  public moveEvent(event: ChainLogEvent, position: EventPosition): Promise<void> {
+    const target = this.key(event.transactionHash, position.logIndex);
+    if (position.logIndex !== event.logIndex && this.events.has(target)) {
+      return Promise.reject(Object.assign(new Error(`E11000 duplicate key: ${target}`), { code: 11000 }));
+    }
+
+    const stored = this.events.get(this.key(event.transactionHash, event.logIndex))!;
+    this.events.delete(this.key(event.transactionHash, event.logIndex));
+    this.events.set(this.key(event.transactionHash, position.logIndex), { ...stored, ...position });
+    return Promise.resolve();
+  }
+
+  public markRolledBack(event: ChainLogEvent): Promise<void> {
+    this.events.get(this.key(event.transactionHash, event.logIndex))!.status = IndexedEventStatus.ROLLED_BACK;
+    return Promise.resolve();
+  }
+}
+
+type ChainLog = { requestId: string; tokenId: number; transactionHash: string; blockNumber: number; index: number };
+
+/**
+ * Chain whose blocks, logs and receipts the tests rewrite to simulate reorgs
+ */
+class FakeChain {
+  public head = 0;
+  public hashes = new Map<number, string>();
+  public logs: ChainLog[] = [];
+
+  public readonly provider = {
+    provider: null as unknown,
+    getBlockNumber: () => Promise.resolve(this.head),
+    getBlock: (blockNumber: number) => Promise.resolve(
+      this.hashes.has(blockNumber) ? { hash: this.hashes.get(blockNumber) } : null
+    ),
+    getTransactionReceipt: (transactionHash: string) => Promise.resolve(this.receipt(transactionHash)),
+  };
+
+  constructor() {
+    this.provider.provider = this.provider;
+  }
+
+  public mine(blockNumber: number, fork: string = 'a'): void {
+    this.hashes.set(blockNumber, `0x${fork}${blockNumber}`);
+    this.head = Math.max(this.head, blockNumber);
+  }
+
+  public encode(log: ChainLog): { topics: readonly string[]; data: string } {
+    return iface.encodeEventLog('NFTMinted', [log.requestId, log.tokenId]);
+  }
+
+  public eventLogs(fromBlock: number, toBlock: number): ethers.EventLog[] {
+    return this.logs
+      .filter(log => log.blockNumber >= fromBlock && log.blockNumber <= toBlock)
+      .map(log => new ethers.EventLog(new ethers.Log({
+        ...this.encode(log),
+        address: contractAddress,
+        transactionHash: log.transactionHash,
+        blockHash: this.hashes.get(log.blockNumber)!,
+        blockNumber: log.blockNumber,
+        index: log.index,
+        transactionIndex: 0,
+        removed: false,
+      }, this.provider as unknown as ethers.Provider), iface, iface.getEvent('NFTMinted')!));
+  }
+
+  private receipt(transactionHash: string): ethers.TransactionReceipt | null {
+    const logs = this.logs.filter(candidate => candidate.transactionHash === transactionHash);
+    const [log] = logs;
+    if (!log) {
+      return null;
+    }
+
+    // Another contract logs first in the same transaction
+    return {
+      blockNumber: log.blockNumber,
+      blockHash: this.hashes.get(log.blockNumber)!,
+      logs: [
+        { address: otherAddress, index: log.index - 1, ...this.encode(log) },
+        ...logs.map(each => ({ address: contractAddress, index: each.index, ...this.encode(each) })),
+      ],
+    } as unknown as ethers.TransactionReceipt;
+  }
+}
+
+const requestIdOf = (name: string): string => ethers.id(name);
+const transactionOf = (name: string): string => ethers.id(`tx-${name}`);
+
+describe('EventIndexer', () => {
+  let chain: FakeChain;
+  let store: MemoryIndexerStore;
+  let handled: string[];
+  let rolledBack: string[];
+  let handler: EventIndexerHandler;
+
+  const createIndexer = (maxEventAttempts: number = 3): EventIndexer => {
+    const contract = new ethers.Contract(contractAddress, ABI, chain.provider as unknown as ethers.Provider);
+    jest.spyOn(contract, 'queryFilter').mockImplementation((_event, fromBlock, toBlock) =>
+      Promise.resolve(chain.eventLogs(Number(fromBlock), Number(toBlock))));
+
+    return new EventIndexer({
+      indexerId: 'test',
+      chainId: 7001,
+      contract,
+      events: ['NFTMinted'],
+      confirmations: 0,
+      chunkSize: 1,
+      pollIntervalMs: 1000,
+      startBlock: 1,
+      maxEventAttempts,
+      store,
+    });
+  };
+
+  const emit = (name: string, blockNumber: number, index: number = 1, transaction: string = name): void => {
+    chain.logs.push({ requestId: requestIdOf(name), tokenId: chain.logs.length + 1, transactionHash: transactionOf(transaction), blockNumber, index });
+  };
+
+  beforeEach(() => {
+    chain = new FakeChain();
+    store = new MemoryIndexerStore();
+    handled = [];
+    rolledBack = [];
+    handler = {
+      onEvent: (event) => {
+        handled.push(String(event.args['requestId']));
+        return Promise.resolve();
+      },
+      onRollback: (event) => {
+        rolledBack.push(String(event.args['requestId']));
+        return Promise.resolve();
+      },
+    };
+
+    [1, 2, 3].forEach(blockNumber => chain.mine(blockNumber));
+    emit('first', 2);
+    emit('second', 3);
+  });
+
+  it('handles confirmed events once, in chain order', async () => {
+    const indexer = createIndexer();
+
+    await expect(indexer.sync(handler)).resolves.toBe(3);
+    await indexer.sync(handler);
+
+    expect(handled).toEqual([requestIdOf('first'), requestIdOf('second')]);
+    expect(store.cursor?.checkpoints.at(-1)).toEqual({ blockNumber: 3, blockHash: '0xa3' });
+  });
+
+  it('rolls back events whose transaction was dropped by a reorg', async () => {
+    const indexer = createIndexer();
+    await indexer.sync(handler);
+
+    // Block 3 is replaced; its transaction is gone and a new one lands in block 4
+    chain.logs = chain.logs.filter(log => log.blockNumber < 3);
+    chain.mine(3, 'b');
+    chain.mine(4, 'b');
+    emit('third', 4);
+
+    await expect(indexer.sync(handler)).resolves.toBe(4);
+
+    expect(rolledBack).toEqual([requestIdOf('second')]);
+    expect(handled).toEqual([requestIdOf('first'), requestIdOf('second'), requestIdOf('third')]);
+    expect(store.events.get(`${transactionOf('second')}:1`)?.status).toBe(IndexedEventStatus.ROLLED_BACK);
+    expect(store.cursor?.checkpoints).toEqual([
+      { blockNumber: 1, blockHash: '0xa1' },
+      { blockNumber: 2, blockHash: '0xa2' },
+      { blockNumber: 3, blockHash: '0xb3' },
+      { blockNumber: 4, blockHash: '0xb4' },
+    ]);
+  });
+
+  it('moves an event whose transaction was re-mined, including its new log index', async () => {
+    const indexer = createIndexer();
+    await indexer.sync(handler);
+
+    // The same transaction is included again, later in a new block 4
+    chain.mine(3, 'b');
+    chain.mine(4, 'b');
+    const second = chain.logs.find(log => log.transactionHash === transactionOf('second'))!;
+    Object.assign(second, { blockNumber: 4, index: 5 });
+
+    await indexer.sync(handler);
+
+    expect(rolledBack).toEqual([]);
+    expect(handled).toEqual([requestIdOf('first'), requestIdOf('second')]);
+    expect(store.events.has(`${transactionOf('second')}:1`)).toBe(false);
+    expect(store.events.get(`${transactionOf('second')}:5`)).toMatchObject({
+      blockNumber: 4,
+      blockHash: '0xb4',
+      logIndex: 5,
+      status: IndexedEventStatus.PROCESSED,
+    });
+  });
+
+  it('moves every log of a re-mined transaction, even onto each other\'s old indexes', async () => {
+    // A mint logs twice in one transaction
+    chain.mine(4);
+    emit('transfer', 4, 5, 'mint');
+    emit('minted', 4, 6, 'mint');
+    const indexer = createIndexer();
+    await indexer.sync(handler);
+
+    // Re-mined one log index earlier, so the later log takes the earlier one's index
+    chain.mine(4, 'b');
+    chain.mine(5, 'b');
+    chain.logs.filter(log => log.transactionHash === transactionOf('mint'))
+      .forEach(log => Object.assign(log, { blockNumber: 5, index: log.index - 1 }));
+
+    await expect(indexer.sync(handler)).resolves.toBe(5);
+
+    expect(rolledBack).toEqual([]);
+    expect([...store.events.keys()].filter(key => key.startsWith(transactionOf('mint'))).sort())
+      .toEqual([`${transactionOf('mint')}:4`, `${transactionOf('mint')}:5`]);
+    expect(store.events.get(`${transactionOf('mint')}:4`)).toMatchObject({
+      args: expect.objectContaining({ requestId: requestIdOf('transfer') }),
+      blockNumber: 5,
+      blockHash: '0xb5',
+      status: IndexedEventStatus.PROCESSED,
+    });
+    expect(store.events.get(`${transactionOf('mint')}:5`)?.args['requestId']).toBe(requestIdOf('minted'));
+  });
+
+  it('retries a failing event, then dead-letters it and moves on', async () => {
+    const indexer = createIndexer(3);
+    const onEvent = jest.fn((event: ChainLogEvent) => event.args['requestId'] === requestIdOf('first')
+      ? Promise.reject(new Error('handler exploded'))
+      : handler.onEvent(event));
+
+    await expect(indexer.sync({ onEvent })).rejects.toThrow('handler exploded');
+    await expect(indexer.sync({ onEvent })).rejects.toThrow('handler exploded');
+    // Stuck before the block of the failing event
+    expect(store.cursor?.lastProcessedBlock).toBe(1);
+
+    await expect(indexer.sync({ onEvent })).resolves.toBe(3);
+    await indexer.sync({ onEvent });
+
+    expect(onEvent.mock.calls.filter(([event]) => event.transactionHash === transactionOf('first'))).toHaveLength(3);
+    expect(handled).toEqual([requestIdOf('second')]);
+    expect(store.events.get(`${transactionOf('first')}:1`)).toMatchObject({
+      status: IndexedEventStatus.DEAD_LETTERED,
+      attempts: 3,
+      lastError: 'handler exploded',
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { config } from '@/config/env';
+import { ArtworkFingerprint } from '@/models/ArtworkFingerprint';
+import { GenerationCache } from '@/models/GenerationCache';
+import { GenerationCacheService } from '@/services/GenerationCacheService';
+import { ipfsService } from '@/services/IPFSService';
+
+jest.mock('@/models/GenerationCache', () => ({
+  GenerationCache: { findReusable: jest.fn() },
+}));
+jest.mock('@/models/ArtworkFingerprint', () => ({
+  ArtworkFingerprint: { findCandidates: jest.fn() },
+}));
+jest.mock('@/services/IPFSService', () => ({
+  ipfsService: { retrieveFile: jest.fn() },
+}));
+
+const walletAddress = '0x3333333333333333333333333333333333333333';
+const otherWallet = '0x4444444444444444444444444444444444444444';
+
+describe('GenerationCacheService.buildKey', () => {
+  const service = new GenerationCacheService();
+
+  beforeEach(() => {
+    jest.replaceProperty(config.ai.images, 'provider', 'openai');
+  });
+
+  it('ignores case, spacing, trailing punctuation and attribute order', () => {
+    const key = service.buildKey({
+      prompt: 'A Lighthouse  at dusk.',
+      style: 'Oil-Painting',
+      attributes: [{ trait_type: 'Mood', value: 'Calm' }, { trait_type: 'Era', value: 1890 }],
+    });
+
+    expect(service.buildKey({
+      prompt: 'a lighthouse at dusk',
+      style: 'oil-painting ',
+      attributes: [{ trait_type: 'era', value: '1890' }, { trait_type: 'mood', value: 'calm' }],
+    })).toBe(key);
+  });
+
+  it('treats an omitted provider and model as their defaults', () => {
+    const key = service.buildKey({ prompt: 'A lighthouse' });
+
+    expect(service.buildKey({ prompt: 'A lighthouse', provider: 'openai', model: config.ai.openai.imageModel })).toBe(key);
+    expect(service.buildKey({ prompt: 'A lighthouse', model: 'dall-e-2' })).not.toBe(key);
+    expect(service.buildKey({ prompt: 'A lighthouse', size: '512x512' })).not.toBe(key);
+  });
+});
+
+describe('GenerationCacheService.lookup', () => {
+  const service = new GenerationCacheService();
+
+  beforeEach(() => {
+    jest.replaceProperty(config.ai.cache, 'enabled', true);
+  });
+
+  it('returns the cached image and counts the hit', async () => {
+    const entry = {
+      requestId: 'r1',
+      imageHash: 'QmImage',
+      contentType: 'image/png',
+      provider: 'openai',
+      imageModel: 'dall-e-3',
+      hits: 2,
+      save: jest.fn(),
+    };
+    jest.mocked(GenerationCache.findReusable).mockResolvedValue(entry as never);
+    jest.mocked(ipfsService.retrieveFile).mockResolvedValue({ success: true, data: { data: Buffer.from('image'), contentType: 'image/png' } });
+
+    await expect(service.lookup('key', walletAddress)).resolves.toEqual({
+      data: Buffer.from('image'),
+      contentType: 'image/png',
+      provider: 'openai',
+      model: 'dall-e-3',
+    });
+    expect(entry.hits).toBe(3);
+    expect(entry.save).toHaveBeenCalled();
+  });
+
+  it('treats an image that can no longer be fetched as a miss', async () => {
+    jest.mocked(GenerationCache.findReusable).mockResolvedValue({ imageHash: 'QmGone' } as never);
+    jest.mocked(ipfsService.retrieveFile).mockResolvedValue({ success: false, error: 'All IPFS gateways failed' });
+
+    await expect(service.lookup('key', walletAddress)).resolves.toBeNull();
+  });
+});
+
+describe('GenerationCacheService.findDuplicate', () => {
+  const service = new GenerationCacheService();
+
+  beforeEach(() => {
+    jest.replaceProperty(config.moderation.duplicates, 'enabled', true);
+    jest.replaceProperty(config.moderation.duplicates, 'threshold', 5);
+  });
+
+  it('returns the closest artwork within the threshold, skipping the request itself', async () => {
+    jest.mocked(ArtworkFingerprint.findCandidates).mockResolvedValue([
+      { requestId: 'same', walletAddress: otherWallet, ipfsHash: 'QmSame', perceptualHash: '0000000000000000' },
+      { requestId: 'near', walletAddress: otherWallet, ipfsHash: 'QmNear', perceptualHash: '0000000000000007' },
+      { requestId: 'nearer', walletAddress: otherWallet, ipfsHash: 'QmNearer', perceptualHash: '0000000000000001' },
+      { requestId: 'far', walletAddress: otherWallet, ipfsHash: 'QmFar', perceptualHash: '00000000000000ff' },
+    ] as never);
+
+    await expect(service.findDuplicate('0000000000000000', walletAddress, 'same')).resolves.toEqual({
+      requestId: 'nearer',
+      walletAddress: otherWallet,
+      ipfsHash: 'QmNearer',
+      distance: 1,
+    });
+    expect(ArtworkFingerprint.findCandidates).toHaveBeenCalledWith(
+      expect.arrayContaining(['0:00', '7:00']),
+      walletAddress
+    );
+  });
+
+  it('finds nothing when no candidate is close enough', async () => {
+    jest.mocked(ArtworkFingerprint.findCandidates).mockResolvedValue([
+      { requestId: 'far', walletAddress: otherWallet, ipfsHash: 'QmFar', perceptualHash: '00000000000000ff' },
+    ] as never);
+
+    await expect(service.findDuplicate('0000000000000000', walletAddress)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,125 @@
+import mongoose from 'mongoose';
+import { config } from '@/config/env';
+import { aiService } from '@/services/AIService';
+import { blockchainService } from '@/services/BlockchainService';
+import { ipfsService } from '@/services/IPFSService';
+import { HealthService } from '@/services/HealthService';
+
+// Stand-in connection, so the test needs no MongoDB
+jest.mock('mongoose', () => {
+  const { ConnectionStates } = jest.requireActual<typeof import('mongoose')>('mongoose');
+  return { __esModule: true, default: { ConnectionStates, connection: { readyState: 0, db: undefined } } };
+});
+jest.mock('@/config/redis', () => ({
+  getRedisClient: jest.fn(),
+  isRedisConfigured: jest.fn(() => false),
+}));
+jest.mock('@/services/AIService', () => ({
+  aiService: { healthCheck: jest.fn() },
+}));
+jest.mock('@/services/BlockchainService', () => ({
+  blockchainService: { healthCheck: jest.fn() },
+}));
+jest.mock('@/services/IPFSService', () => ({
+  ipfsService: { healthCheck: jest.fn() },
+}));
+
+const ping = jest.fn();
+
+describe('HealthService.getReadiness', () => {
+  let service: HealthService;
+
+  beforeEach(() => {
+    service = new HealthService();
+    ping.mockResolvedValue({ ok: 1 });
+    jest.replaceProperty(mongoose.connection, 'readyState', mongoose.ConnectionStates.connected);
+    jest.replaceProperty(mongoose.connection, 'db', { admin: () => ({ ping }) } as never);
+    jest.replaceProperty(config.healthCheck, 'timeoutMs', 50);
+
+    jest.mocked(blockchainService.healthCheck).mockResolvedValue({ status: 'connected', chainId: 7001, blockNumber: 100 });
+    jest.mocked(aiService.healthCheck).mockResolvedValue({ status: 'available', model: 'gemini', imageProvider: 'openai' });
+    jest.mocked(ipfsService.healthCheck).mockResolvedValue({ status: 'available', providers: { pinata: 'available' } });
+  });
+
+  it('is healthy when every dependency is', async () => {
+    const health = await service.getReadiness();
+
+    expect(health.status).toBe('healthy');
+    expect(health.services).toEqual({
+      database: 'connected',
+      redis: 'not_configured',
+      blockchain: 'connected',
+      ai: 'available',
+      ipfs: 'available',
+    });
+    expect(health.checks.blockchain).toEqual({
+      status: 'healthy',
+      latencyMs: expect.any(Number),
+      details: { chainId: 7001, blockNumber: 100 },
+    });
+  });
+
+  it('is degraded while AI falls back to placeholder images', async () => {
+    jest.mocked(aiService.healthCheck).mockResolvedValue({
+      status: 'degraded',
+      imageProvider: 'test',
+      warnings: ['Images are rendered as placeholders by the test provider'],
+    });
+
+    const health = await service.getReadiness();
+
+    expect(health.status).toBe('degraded');
+    expect(health.checks.ai).toMatchObject({
+      status: 'degraded',
+      warnings: ['Images are rendered as placeholders by the test provider'],
+    });
+  });
+
+  it('stays degraded, not unhealthy, when a non-critical dependency fails', async () => {
+    jest.mocked(aiService.healthCheck).mockRejectedValue(new Error('quota exceeded'));
+
+    const health = await service.getReadiness();
+
+    expect(health.status).toBe('degraded');
+    expect(health.services.ai).toBe('error');
+    expect(health.checks.ai).toMatchObject({ status: 'unhealthy', error: 'quota exceeded' });
+  });
+
+  it('is unhealthy when a critical dependency is down', async () => {
+    jest.replaceProperty(mongoose.connection, 'readyState', mongoose.ConnectionStates.disconnected);
+
+    const health = await service.getReadiness();
+
+    expect(health.status).toBe('unhealthy');
+    expect(health.checks.database).toMatchObject({ status: 'unhealthy', error: 'Not connected to MongoDB' });
+  });
+
+  it('times out a check that does not answer', async () => {
+    jest.mocked(blockchainService.healthCheck).mockReturnValue(new Promise(() => undefined));
+
+    const health = await service.getReadiness();
+
+    expect(health.status).toBe('unhealthy');
+    expect(health.services.blockchain).toBe('error');
+    expect(health.checks.blockchain.error).toBe('blockchain check timed out after 50ms');
+  });
+
+  it('shares one run between concurrent callers and caches the result', async () => {
+    const [first, second] = await Promise.all([service.getReadiness(), service.getReadiness()]);
+    const third = await service.getReadiness();
+
+    expect(first.checkedAt).toEqual(second.checkedAt);
+    expect(third.checkedAt).toEqual(first.checkedAt);
+    expect(blockchainService.healthCheck).toHaveBeenCalledTimes(1);
+    expect(ping).toHaveBeenCalledTimes(1);
+  });
+
+  it('checks again once the cached result expires', async () => {
+    jest.replaceProperty(config.healthCheck, 'interval', 0);
+
+    await service.getReadiness();
+    await service.getReadiness();
+
+    expect(blockchainService.healthCheck).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,95 @@
+import { PinRecord } from '@/models/PinRecord';
+import { IPFSService } from '@/services/IPFSService';
+import { PinningProvider, pinningProviderRegistry, ProviderPinState } from '@/services/PinningProviderService';
+import { PinningProviderName } from '@/types';
+
+jest.mock('@/models/PinRecord', () => ({
+  PinRecord: { updateOne: jest.fn(), findCidsWithoutProvider: jest.fn(), findDueForCheck: jest.fn() },
+}));
+jest.mock('@/services/PinningProviderService', () => ({
+  pinningProviderRegistry: { getActiveProviders: jest.fn(() => []), get: jest.fn(), getGateways: jest.fn() },
+}));
+
+const fakeProvider = (name: PinningProviderName, state: ProviderPinState = 'pinned') => ({
+  name,
+  label: name,
+  isConfigured: () => true,
+  addFile: jest.fn(),
+  addJSON: jest.fn().mockResolvedValue({ cid: 'bafyjson', size: 12 }),
+  addCar: jest.fn(),
+  pin: jest.fn().mockResolvedValue(undefined),
+  status: jest.fn().mockResolvedValue(state),
+  testConnection: jest.fn().mockResolvedValue(undefined),
+});
+
+// Let the background replication triggered by an upload finish
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('IPFSService pinning', () => {
+  let service: IPFSService;
+  let pinata: ReturnType<typeof fakeProvider>;
+  let kubo: ReturnType<typeof fakeProvider>;
+
+  beforeEach(() => {
+    pinata = fakeProvider('pinata');
+    kubo = fakeProvider('kubo', 'missing');
+    jest.mocked(pinningProviderRegistry.getActiveProviders).mockReturnValue([pinata, kubo] as PinningProvider[]);
+    jest.mocked(pinningProviderRegistry.get).mockImplementation(name => (name === 'pinata' ? pinata : kubo) as PinningProvider);
+    service = new IPFSService();
+  });
+
+  it('uploads to the first provider and has the others pin the CID', async () => {
+    await expect(service.uploadJSON({ name: 'Token' }, 'token.json')).resolves.toMatchObject({
+      success: true,
+      data: { hash: 'bafyjson', size: 12 },
+    });
+    await flush();
+
+    expect(kubo.addJSON).not.toHaveBeenCalled();
+    expect(kubo.pin).toHaveBeenCalledWith('bafyjson', 'token.json');
+    expect(PinRecord.updateOne).toHaveBeenCalledWith(
+      { cid: 'bafyjson', provider: 'pinata' },
+      expect.objectContaining({ $set: expect.objectContaining({ status: 'pinned' }) }),
+      { upsert: true }
+    );
+    expect(PinRecord.updateOne).toHaveBeenCalledWith(
+      { cid: 'bafyjson', provider: 'kubo' },
+      expect.objectContaining({ $set: expect.objectContaining({ status: 'pinning' }) }),
+      { upsert: true }
+    );
+  });
+
+  it('falls back to the next provider when an upload fails', async () => {
+    pinata.addJSON.mockRejectedValue(new Error('Pinata is down'));
+    kubo.addJSON.mockResolvedValue({ cid: 'bafykubo', size: 12 });
+
+    await expect(service.uploadJSON({ name: 'Token' })).resolves.toMatchObject({ success: true, data: { hash: 'bafykubo' } });
+    await flush();
+
+    expect(pinata.pin).toHaveBeenCalledWith('bafykubo', undefined);
+  });
+
+  it('re-pins CIDs a provider lost and records failed checks', async () => {
+    const record = (cid: string, provider: PinningProviderName) => ({
+      cid,
+      provider,
+      status: 'pinned',
+      attempts: 0,
+      set: jest.fn(),
+      save: jest.fn(),
+    } as Record<string, unknown>);
+    const lost = record('bafylost', 'kubo');
+    const broken = record('bafybroken', 'pinata');
+    jest.mocked(PinRecord.findCidsWithoutProvider).mockResolvedValue([]);
+    jest.mocked(PinRecord.findDueForCheck).mockResolvedValue([lost, broken] as never);
+    pinata.status.mockRejectedValue(new Error('Unauthorized'));
+
+    await expect(service.reconcilePins(10)).resolves.toEqual({
+      success: true,
+      data: { checked: 2, repinned: 1, failed: 1 },
+    });
+    expect(kubo.pin).toHaveBeenCalledWith('bafylost', undefined);
+    expect(lost).toMatchObject({ status: 'pinning', attempts: 1 });
+    expect(broken).toMatchObject({ status: 'failed', lastError: 'Unauthorized' });
+  });
+});
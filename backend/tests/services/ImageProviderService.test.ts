@@ -0,0 +1,131 @@
+import { config } from '@/config/env';
+import {
+  GeneratedImage,
+  ImageGenerationInput,
+  ImageProvider,
+  ImageProviderRegistry,
+  TestImageProvider,
+} from '@/services/ImageProviderService';
+import { ImageProviderName, ReferenceMode } from '@/types';
+
+// Provider that fails or renders on demand and records the inputs it was given
+class FakeProvider implements ImageProvider {
+  public readonly label: string;
+  public readonly defaultModel: string;
+  public inputs: ImageGenerationInput[] = [];
+
+  constructor(
+    public readonly name: ImageProviderName,
+    private readonly options: { configured?: boolean; error?: string; referenceModes?: ReferenceMode[] } = {}
+  ) {
+    this.label = `Fake ${name}`;
+    this.defaultModel = `${name}-default`;
+  }
+
+  public get referenceModes(): readonly ReferenceMode[] {
+    return this.options.referenceModes ?? ['variation'];
+  }
+
+  public isConfigured(): boolean {
+    return this.options.configured ?? true;
+  }
+
+  public generate(input: ImageGenerationInput): Promise<GeneratedImage> {
+    this.inputs.push(input);
+    if (this.options.error) {
+      return Promise.reject(new Error(this.options.error));
+    }
+    return Promise.resolve({
+      url: `https://images.test/${this.name}.png`,
+      contentType: 'image/png',
+      provider: this.name,
+      model: input.model || this.defaultModel,
+    });
+  }
+}
+
+describe('ImageProviderRegistry', () => {
+  beforeEach(() => {
+    jest.replaceProperty(config.ai.images, 'provider', 'openai');
+    jest.replaceProperty(config.ai.images, 'fallbacks', ['stability', 'test']);
+  });
+
+  it('generates with the default provider and the requested model', async () => {
+    const openai = new FakeProvider('openai');
+    const registry = new ImageProviderRegistry([openai, new FakeProvider('stability')]);
+
+    await expect(registry.generate({ prompt: 'A red fox', model: 'dall-e-3' }))
+      .resolves.toMatchObject({ provider: 'openai', model: 'dall-e-3' });
+    expect(registry.getStatus()).toEqual({ configured: 'openai', active: 'openai', lastFallback: null });
+  });
+
+  it('falls back in order with the fallback default model, and records why', async () => {
+    const stability = new FakeProvider('stability', { error: 'quota exceeded' });
+    const test = new FakeProvider('test');
+    const registry = new ImageProviderRegistry([new FakeProvider('openai', { configured: false }), stability, test]);
+
+    await expect(registry.generate({ prompt: 'A red fox', model: 'dall-e-3' }))
+      .resolves.toMatchObject({ provider: 'test', model: 'test-default' });
+    expect(stability.inputs[0]?.model).toBeUndefined();
+    expect(registry.getStatus()).toMatchObject({
+      active: 'stability',
+      lastFallback: {
+        requested: 'openai',
+        provider: 'test',
+        reason: 'openai: not configured; stability: quota exceeded',
+      },
+    });
+  });
+
+  it('skips providers that cannot handle the reference mode', async () => {
+    const registry = new ImageProviderRegistry([
+      new FakeProvider('openai'),
+      new FakeProvider('stability', { referenceModes: ['variation', 'inpaint'] }),
+    ]);
+    const reference = {
+      mode: 'inpaint' as const,
+      ipfsHash: 'QmReference',
+      image: Buffer.from('image'),
+      contentType: 'image/png',
+      mask: Buffer.from('mask'),
+    };
+
+    await expect(registry.generate({ prompt: 'Fill the sky', reference }))
+      .resolves.toMatchObject({ provider: 'stability' });
+    expect(registry.isAvailable('openai', 'inpaint')).toBe(false);
+  });
+
+  it('fails with every provider error when none produce an image', async () => {
+    const registry = new ImageProviderRegistry([new FakeProvider('openai', { error: 'timeout' })]);
+
+    await expect(registry.generate({ prompt: 'A red fox' }, 'openai'))
+      .rejects.toThrow('Image generation failed (openai: timeout; stability: not configured; test: not configured)');
+  });
+
+  it('lists only configured providers', () => {
+    const registry = new ImageProviderRegistry([new FakeProvider('openai'), new FakeProvider('local', { configured: false })]);
+
+    expect(registry.getAvailableProviders()).toEqual([{
+      name: 'openai',
+      label: 'Fake openai',
+      defaultModel: 'openai-default',
+      referenceModes: ['variation'],
+      isDefault: true,
+    }]);
+  });
+});
+
+describe('TestImageProvider', () => {
+  const provider = new TestImageProvider();
+
+  it('renders the same image for the same input', async () => {
+    const first = await provider.generate({ prompt: 'A red fox', size: '512x768' });
+    const second = await provider.generate({ prompt: 'A red fox', size: '512x768' });
+    const other = await provider.generate({ prompt: 'A blue fox', size: '512x768' });
+
+    expect(first.contentType).toBe('image/svg+xml');
+    expect(first.data?.toString('utf8')).toContain('width="512" height="768"');
+    expect(second.data).toEqual(first.data);
+    expect(other.data).not.toEqual(first.data);
+  });
+});
@@ -0,0 +1,207 @@
+import { GenerationJob } from '@/models/GenerationJob';
+import { JobQueueService, JobStore, MongoJobStore, QueuedJob, QueueStats } from '@/services/JobQueueService';
+import { JobStatus } from '@/types';
+
+jest.mock('@/config/redis', () => ({
+  getRedisClient: jest.fn(),
+  isRedisConfigured: jest.fn(() => false),
+}));
+jest.mock('@/models/GenerationJob', () => ({
+  GenerationJob: { updateOne: jest.fn() },
+}));
+
+type StoredJob = {
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: number;
+  lockedBy?: string;
+  lastError?: string;
+};
+
+/**
+ * In-memory job store with the same lease rules as the real ones
+ */
+class MemoryJobStore implements JobStore {
+  public readonly name = 'memory';
+  public jobs = new Map<string, StoredJob>();
+
+  public enqueue(requestId: string, runAt: Date, maxAttempts: number): Promise<boolean> {
+    const existing = this.jobs.get(requestId);
+    if (existing && (existing.status === JobStatus.QUEUED || existing.status === JobStatus.ACTIVE)) {
+      return Promise.resolve(false);
+    }
+
+    this.jobs.set(requestId, { status: JobStatus.QUEUED, attempts: 0, maxAttempts, runAt: runAt.getTime() });
+    return Promise.resolve(true);
+  }
+
+  public claim(workerId: string): Promise<QueuedJob | null> {
+    for (const [requestId, job] of this.jobs) {
+      if (job.status === JobStatus.QUEUED && job.runAt <= Date.now()) {
+        job.status = JobStatus.ACTIVE;
+        job.lockedBy = workerId;
+        job.attempts += 1;
+        return Promise.resolve({ requestId, attempts: job.attempts, maxAttempts: job.maxAttempts });
+      }
+    }
+
+    return Promise.resolve(null);
+  }
+
+  public heartbeat(requestId: string, workerId: string): Promise<boolean> {
+    return Promise.resolve(this.jobs.get(requestId)?.lockedBy === workerId);
+  }
+
+  public complete(requestId: string): Promise<void> {
+    this.update(requestId, { status: JobStatus.COMPLETED });
+    return Promise.resolve();
+  }
+
+  public retry(requestId: string, _workerId: string, runAt: Date, error: string): Promise<void> {
+    this.update(requestId, { status: JobStatus.QUEUED, runAt: runAt.getTime(), lastError: error });
+    return Promise.resolve();
+  }
+
+  public bury(requestId: string, _workerId: string, error: string): Promise<void> {
+    this.update(requestId, { status: JobStatus.DEAD, lastError: error });
+    return Promise.resolve();
+  }
+
+  public hasLiveLease(requestId: string): Promise<boolean> {
+    return Promise.resolve(this.jobs.get(requestId)?.status === JobStatus.ACTIVE);
+  }
+
+  public getStats(): Promise<QueueStats> {
+    const stats: QueueStats = {
+      [JobStatus.QUEUED]: 0,
+      [JobStatus.ACTIVE]: 0,
+      [JobStatus.COMPLETED]: 0,
+      [JobStatus.DEAD]: 0,
+    };
+
+    for (const job of this.jobs.values()) {
+      stats[job.status] += 1;
+    }
+
+    return Promise.resolve(stats);
+  }
+
+  public close(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  private update(requestId: string, changes: Partial<StoredJob>): void {
+    const job = this.jobs.get(requestId);
+    if (job) {
+      Object.assign(job, changes);
+      delete job.lockedBy;
+    }
+  }
+}
+
+const requestId = 'c'.repeat(64);
+
+// Jobs run in the background; wait until the worker has got somewhere
+const waitFor = async (condition: () => boolean, timeoutMs: number = 2000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for the queue');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+describe('JobQueueService', () => {
+  let store: MemoryJobStore;
+  let queue: JobQueueService;
+
+  beforeEach(() => {
+    store = new MemoryJobStore();
+    queue = new JobQueueService(store);
+  });
+
+  afterEach(async () => {
+    await queue.stop(100);
+  });
+
+  it('does not enqueue a request that is already waiting', async () => {
+    await expect(queue.enqueue(requestId)).resolves.toBe(true);
+    await expect(queue.enqueue(requestId)).resolves.toBe(false);
+  });
+
+  it('processes a job once and completes it', async () => {
+    const process = jest.fn(() => Promise.resolve());
+
+    await queue.enqueue(requestId);
+    queue.start({ process });
+    await waitFor(() => store.jobs.get(requestId)?.status === JobStatus.COMPLETED);
+
+    expect(process).toHaveBeenCalledTimes(1);
+    expect(process).toHaveBeenCalledWith({ requestId, attempts: 1, maxAttempts: 5 });
+    expect(store.jobs.get(requestId)?.status).toBe(JobStatus.COMPLETED);
+  });
+
+  it('schedules a retry with backoff when the handler fails', async () => {
+    const onRetry = jest.fn(() => Promise.resolve());
+
+    await queue.enqueue(requestId);
+    queue.start({ process: () => Promise.reject(new Error('provider timeout')), onRetry });
+    await waitFor(() => onRetry.mock.calls.length > 0);
+
+    const job = store.jobs.get(requestId);
+    expect(job?.status).toBe(JobStatus.QUEUED);
+    expect(job?.lastError).toBe('provider timeout');
+    expect(job?.runAt).toBeGreaterThan(Date.now());
+    expect(onRetry).toHaveBeenCalledWith(
+      expect.objectContaining({ requestId, attempts: 1 }),
+      'provider timeout',
+      expect.any(Date)
+    );
+  });
+
+  it('buries a job that used up its attempts', async () => {
+    const onDead = jest.fn(() => Promise.resolve());
+
+    store.jobs.set(requestId, { status: JobStatus.QUEUED, attempts: 4, maxAttempts: 5, runAt: 0 });
+    queue.start({ process: () => Promise.reject(new Error('still failing')), onDead });
+    await waitFor(() => onDead.mock.calls.length > 0);
+
+    expect(store.jobs.get(requestId)?.status).toBe(JobStatus.DEAD);
+    expect(onDead).toHaveBeenCalledWith(expect.objectContaining({ requestId, attempts: 5 }), 'still failing');
+  });
+});
+
+describe('MongoJobStore.enqueue', () => {
+  const store = new MongoJobStore();
+
+  it('requeues only finished jobs and lapsed leases, in one conditional upsert', async () => {
+    jest.mocked(GenerationJob.updateOne).mockResolvedValue({ matchedCount: 1, upsertedCount: 0 } as never);
+
+    await expect(store.enqueue(requestId, new Date(), 3)).resolves.toBe(true);
+
+    const [filter, update, options] = jest.mocked(GenerationJob.updateOne).mock.calls[0]!;
+    expect(filter).toEqual({
+      requestId,
+      $or: [
+        { status: { $in: [JobStatus.COMPLETED, JobStatus.DEAD] } },
+        { status: JobStatus.ACTIVE, lockExpiresAt: { $not: { $gt: expect.any(Date) } } },
+      ],
+    });
+    expect(update).toMatchObject({ $set: { status: JobStatus.QUEUED, attempts: 0, maxAttempts: 3 } });
+    expect(options).toEqual({ upsert: true });
+  });
+
+  it('reports a job that is waiting or running as already queued', async () => {
+    jest.mocked(GenerationJob.updateOne).mockRejectedValue(Object.assign(new Error('E11000 duplicate key'), { code: 11000 }));
+
+    await expect(store.enqueue(requestId, new Date(), 3)).resolves.toBe(false);
+  });
+
+  it('inserts a job the first time a request is queued', async () => {
+    jest.mocked(GenerationJob.updateOne).mockResolvedValue({ matchedCount: 0, upsertedCount: 1 } as never);
+
+    await expect(store.enqueue(requestId, new Date(), 3)).resolves.toBe(true);
+  });
+});
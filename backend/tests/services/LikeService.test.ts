@@ -0,0 +1,85 @@
+import { NFTLike } from '@/models/NFTLike';
+import { NFTRequest } from '@/models/NFTRequest';
+import { LikeService } from '@/services/LikeService';
+
+jest.mock('@/models/NFTLike', () => ({
+  NFTLike: { exists: jest.fn(), updateOne: jest.fn(), deleteOne: jest.fn() },
+}));
+jest.mock('@/models/NFTRequest', () => ({
+  NFTRequest: { exists: jest.fn(), updateOne: jest.fn(), findOne: jest.fn() },
+}));
+
+const userId = '64b7f0c2a1b2c3d4e5f60718';
+const requestId = 'e'.repeat(64);
+
+// Like count read back after the update
+const mockLikeCount = (likeCount: number) => {
+  jest.mocked(NFTRequest.findOne).mockReturnValue({
+    select: () => ({ lean: () => Promise.resolve({ likeCount }) }),
+  } as never);
+};
+
+describe('LikeService.setLike', () => {
+  const service = new LikeService();
+
+  beforeEach(() => {
+    jest.mocked(NFTRequest.exists).mockResolvedValue({ _id: 'request' } as never);
+    mockLikeCount(1);
+  });
+
+  it('counts a new like once', async () => {
+    jest.mocked(NFTLike.updateOne).mockResolvedValue({ upsertedCount: 1 } as never);
+
+    await expect(service.setLike(userId, requestId, true))
+      .resolves.toEqual({ success: true, data: { liked: true, totalLikes: 1 } });
+    expect(NFTRequest.updateOne).toHaveBeenCalledWith({ requestId }, { $inc: { likeCount: 1 } });
+  });
+
+  it('does not count a like that already exists', async () => {
+    jest.mocked(NFTLike.updateOne).mockResolvedValue({ upsertedCount: 0 } as never);
+
+    await service.setLike(userId, requestId, true);
+
+    expect(NFTRequest.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('does not count a like that lost a race on the unique index', async () => {
+    jest.mocked(NFTLike.updateOne).mockRejectedValue(Object.assign(new Error('E11000'), { code: 11000 }));
+
+    await expect(service.setLike(userId, requestId, true))
+      .resolves.toMatchObject({ success: true, data: { liked: true } });
+    expect(NFTRequest.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('only decrements when a like was removed', async () => {
+    jest.mocked(NFTLike.deleteOne).mockResolvedValueOnce({ deletedCount: 1 } as never);
+    jest.mocked(NFTLike.deleteOne).mockResolvedValueOnce({ deletedCount: 0 } as never);
+    mockLikeCount(0);
+
+    await expect(service.setLike(userId, requestId, false))
+      .resolves.toEqual({ success: true, data: { liked: false, totalLikes: 0 } });
+    await service.setLike(userId, requestId, false);
+
+    expect(NFTRequest.updateOne).toHaveBeenCalledTimes(1);
+    expect(NFTRequest.updateOne).toHaveBeenCalledWith(
+      { requestId, likeCount: { $gt: 0 } },
+      { $inc: { likeCount: -1 } }
+    );
+  });
+
+  it('flips the current state when no state is given', async () => {
+    jest.mocked(NFTLike.exists).mockResolvedValue({ _id: 'like' } as never);
+    jest.mocked(NFTLike.deleteOne).mockResolvedValue({ deletedCount: 1 } as never);
+
+    await expect(service.setLike(userId, requestId))
+      .resolves.toMatchObject({ success: true, data: { liked: false } });
+    expect(NFTLike.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('reports an unknown request', async () => {
+    jest.mocked(NFTRequest.exists).mockResolvedValue(null);
+
+    await expect(service.setLike(userId, requestId, true))
+      .resolves.toMatchObject({ success: false, code: 'NOT_FOUND' });
+  });
+});
@@ -0,0 +1,128 @@
+import { MetadataService } from '@/services/MetadataService';
+import { NFTMetadata } from '@/types';
+
+const metadata: NFTMetadata = {
+  name: 'Lighthouse #1',
+  description: 'A lighthouse at dusk',
+  image: 'ipfs://bafyimages/{id}.png',
+  external_url: 'https://chainweave.test/token/{id}',
+  background_color: '112233',
+  attributes: [
+    { trait_type: 'Mood', value: 'Calm' },
+    { trait_type: 'Power', value: 7, display_type: 'number', max_value: 10 },
+  ],
+};
+
+describe('MetadataService.validate', () => {
+  const service = new MetadataService();
+
+  it('accepts metadata that follows the schema', () => {
+    expect(service.validate(metadata)).toEqual({ isValid: true, errors: [] });
+  });
+
+  it('reports each problem on the field it concerns', () => {
+    const { isValid, errors } = service.validate({
+      name: ' ',
+      image: 'not-a-uri',
+      color: 'blue',
+      background_color: '#112233',
+      attributes: [
+        { trait_type: '', value: 'Calm' },
+        { trait_type: 'Power', value: 12, display_type: 'number', max_value: 10 },
+        { trait_type: 'Era', value: 'Modern', display_type: 'year' },
+      ],
+    });
+
+    expect(isValid).toBe(false);
+    expect(errors).toEqual(expect.arrayContaining([
+      { field: 'description', message: 'is required' },
+      { field: 'color', message: 'is not a supported field', value: 'blue' },
+      { field: 'name', message: 'must not be blank', value: ' ' },
+      { field: 'image', message: 'must be an ipfs://, ar://, http(s):// or data: URI', value: 'not-a-uri' },
+      { field: 'background_color', message: 'must be six hex digits without #', value: '#112233' },
+      { field: 'attributes[0].trait_type', message: 'must not be empty', value: '' },
+      { field: 'attributes[1].value', message: 'must not exceed max_value', value: 12 },
+      {
+        field: 'attributes[2].display_type',
+        message: 'must be one of number, boost_number, boost_percentage, date',
+        value: 'year',
+      },
+    ]));
+  });
+
+  it('names the expected type and limits', () => {
+    const { errors } = service.validate({
+      ...metadata,
+      name: 'x'.repeat(101),
+      attributes: [
+        { trait_type: 'Born', value: -1, display_type: 'date' },
+        { trait_type: 'Power', value: 'high', max_value: 10 },
+      ],
+    });
+
+    expect(errors).toEqual(expect.arrayContaining([
+      { field: 'name', message: 'must be at most 100 characters', value: 'x'.repeat(101) },
+      { field: 'attributes[0].value', message: 'must be at least 0', value: -1 },
+      { field: 'attributes[1].value', message: 'must be a number', value: 'high' },
+    ]));
+  });
+
+  it('validates a trait list on its own', () => {
+    expect(service.validateAttributes([{ trait_type: 'Mood' }]).errors)
+      .toEqual([{ field: 'attributes[0].value', message: 'is required' }]);
+  });
+});
+
+describe('MetadataService.format', () => {
+  const service = new MetadataService();
+
+  it('writes the OpenSea layout as stored', () => {
+    expect(service.format(metadata, 'opensea', 1)).toEqual({
+      name: 'Lighthouse #1',
+      description: 'A lighthouse at dusk',
+      image: 'ipfs://bafyimages/{id}.png',
+      external_url: 'https://chainweave.test/token/{id}',
+      background_color: '112233',
+      attributes: metadata.attributes,
+    });
+  });
+
+  it('substitutes {id} and mirrors traits into properties for ERC-1155', () => {
+    const id = '000000000000000000000000000000000000000000000000000000000000002a';
+
+    expect(service.format({ ...metadata, properties: { edition: 'first' } }, 'erc1155', 42)).toEqual({
+      name: 'Lighthouse #1',
+      description: 'A lighthouse at dusk',
+      image: `ipfs://bafyimages/${id}.png`,
+      external_url: `https://chainweave.test/token/${id}`,
+      background_color: '112233',
+      attributes: metadata.attributes,
+      properties: { edition: 'first', Mood: 'Calm', Power: 7 },
+    });
+    expect(service.format(metadata, 'erc1155')).toMatchObject({ image: 'ipfs://bafyimages/{id}.png' });
+  });
+
+  it('writes Rarible trait keys without display types or background color', () => {
+    expect(service.format(metadata, 'rarible')).toEqual({
+      name: 'Lighthouse #1',
+      description: 'A lighthouse at dusk',
+      image: 'ipfs://bafyimages/{id}.png',
+      external_url: 'https://chainweave.test/token/{id}',
+      attributes: [
+        { key: 'Mood', trait_type: 'Mood', value: 'Calm' },
+        { key: 'Power', trait_type: 'Power', value: 7 },
+      ],
+    });
+  });
+});
+
+describe('MetadataService.substituteTokenId', () => {
+  const service = new MetadataService();
+
+  it('writes the token ID as 64 lowercase hex digits, wherever {id} appears', () => {
+    expect(service.substituteTokenId('ipfs://bafy/{id}.json', 255)).toBe(`ipfs://bafy/${'0'.repeat(62)}ff.json`);
+    expect(service.substituteTokenId('{id}/{id}', '1')).toBe(`${'0'.repeat(63)}1/${'0'.repeat(63)}1`);
+    expect(service.substituteTokenId('ipfs://bafy/{id}', (2n ** 255n).toString()))
+      .toBe(`ipfs://bafy/8${'0'.repeat(63)}`);
+  });
+});
@@ -0,0 +1,123 @@
+import { Types } from 'mongoose';
+import { config } from '@/config/env';
+import { ModerationDecision } from '@/models/ModerationDecision';
+import { ModerationClassifier, ModerationService, RuleBasedClassifier } from '@/services/ModerationService';
+import { ModerationFlag } from '@/types';
+
+jest.mock('@/models/ModerationDecision', () => ({
+  ModerationDecision: { create: jest.fn(), exists: jest.fn(), findOneAndUpdate: jest.fn() },
+}));
+jest.mock('@/models/GenerationDraft', () => ({ GenerationDraft: {} }));
+
+const decisionId = new Types.ObjectId('64b7f0c2a1b2c3d4e5f6071a');
+
+// Classifier whose verdict each test decides
+class FakeClassifier implements ModerationClassifier {
+  public readonly name = 'fake';
+  public result: ModerationFlag[] | Error = [];
+
+  public isConfigured(): boolean {
+    return true;
+  }
+
+  public classify(): Promise<ModerationFlag[]> {
+    return this.result instanceof Error ? Promise.reject(this.result) : Promise.resolve(this.result);
+  }
+}
+
+describe('RuleBasedClassifier', () => {
+  const classifier = new RuleBasedClassifier();
+
+  it('flags whole terms, including full-width spellings', async () => {
+    await expect(classifier.classify({ subject: 'prompt', text: 'An ＮＳＦＷ portrait' })).resolves.toEqual([{
+      classifier: 'rules',
+      category: 'sexual',
+      action: 'block',
+      ruleId: 'sexual-explicit',
+      match: 'NSFW',
+    }]);
+  });
+
+  it('does not flag terms inside other words', async () => {
+    await expect(classifier.classify({ subject: 'prompt', text: 'Dinosaurs at the adulterated waterhole' }))
+      .resolves.toEqual([]);
+  });
+});
+
+describe('ModerationService.moderate', () => {
+  let service: ModerationService;
+  let fake: FakeClassifier;
+
+  beforeEach(() => {
+    jest.replaceProperty(config.moderation, 'enabled', true);
+    jest.replaceProperty(config.moderation, 'classifiers', ['rules', 'fake']);
+    jest.mocked(ModerationDecision.create).mockImplementation(() => Promise.resolve({ _id: decisionId }) as never);
+
+    service = new ModerationService();
+    fake = new FakeClassifier();
+    service.register(fake);
+  });
+
+  it('allows content no classifier flags', async () => {
+    await expect(service.moderate({ subject: 'prompt', text: 'A lighthouse at dusk' }, { requestId: 'r1' }))
+      .resolves.toEqual({ success: true, data: { decisionId: decisionId.toString(), action: 'allow', flags: [] } });
+    expect(ModerationDecision.create).toHaveBeenCalledWith(expect.objectContaining({
+      requestId: 'r1',
+      action: 'allow',
+      classifiers: ['rules', 'fake'],
+    }));
+  });
+
+  it('holds content for review when a classifier fails', async () => {
+    fake.result = new Error('moderation endpoint down');
+
+    const result = await service.moderate({ subject: 'image', text: 'A lighthouse at dusk' });
+
+    expect(result.data).toMatchObject({
+      action: 'review',
+      flags: [{ classifier: 'fake', action: 'review', match: 'Classifier unavailable' }],
+    });
+    expect(ModerationDecision.create).toHaveBeenCalledWith(expect.objectContaining({ review: { status: 'pending' } }));
+  });
+
+  it('blocks content that needs review when the caller cannot hold it', async () => {
+    fake.result = [{ classifier: 'fake', category: 'violence', action: 'review', match: 'gore' }];
+
+    const result = await service.moderate({ subject: 'prompt', text: 'A battle scene' }, { reviewable: false });
+
+    expect(result.data?.action).toBe('block');
+  });
+
+  it('lets a block outrank a review', async () => {
+    fake.result = [{ classifier: 'fake', category: 'violence', action: 'review', match: 'gore' }];
+
+    const result = await service.moderate({ subject: 'prompt', text: 'A nazi rally' });
+
+    expect(result.data?.action).toBe('block');
+    expect(result.data?.flags.map(flag => flag.classifier)).toEqual(['rules', 'fake']);
+  });
+
+  it('records nothing when moderation is disabled', async () => {
+    jest.replaceProperty(config.moderation, 'enabled', false);
+
+    await expect(service.moderate({ subject: 'prompt', text: 'nsfw' }))
+      .resolves.toEqual({ success: true, data: { action: 'allow', flags: [] } });
+    expect(ModerationDecision.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('ModerationService.recordReview', () => {
+  const service = new ModerationService();
+
+  it('tells a decision that was already reviewed from an unknown one', async () => {
+    jest.mocked(ModerationDecision.findOneAndUpdate).mockResolvedValue(null);
+    jest.mocked(ModerationDecision.exists).mockResolvedValueOnce({ _id: decisionId });
+
+    await expect(service.recordReview(decisionId.toString(), '0xReviewer', 'approved'))
+      .resolves.toMatchObject({ success: false, code: 'INVALID_STATUS' });
+    await expect(service.recordReview(decisionId.toString(), '0xReviewer', 'approved'))
+      .resolves.toMatchObject({ success: false, code: 'NOT_FOUND' });
+    await expect(service.recordReview('not-an-id', '0xReviewer', 'approved'))
+      .resolves.toMatchObject({ success: false, code: 'NOT_FOUND' });
+  });
+});
@@ -0,0 +1,286 @@
+import { NFTRequest } from '@/models/NFTRequest';
+import { GenerationDraft } from '@/models/GenerationDraft';
+import { NFTRequestService } from '@/services/NFTRequestService';
+import { aiService } from '@/services/AIService';
+import { blockchainService } from '@/services/BlockchainService';
+import { generationQueue } from '@/services/JobQueueService';
+import { moderationService } from '@/services/ModerationService';
+import { usageService } from '@/services/UsageService';
+import { RequestStatus, UsageItem } from '@/types';
+
+jest.mock('@/models/NFTRequest', () => ({
+  NFTRequest: { findByRequestId: jest.fn() },
+}));
+jest.mock('@/models/GenerationDraft', () => ({
+  GenerationDraft: {
+    deleteByRequest: jest.fn(),
+    exists: jest.fn(),
+    findById: jest.fn(),
+    findOne: jest.fn(),
+    insertMany: jest.fn(),
+  },
+}));
+jest.mock('@/models/User', () => ({ User: {} }));
+jest.mock('@/services/AIService', () => ({
+  aiService: {
+    generateNFTArtwork: jest.fn(),
+    generateVariants: jest.fn(),
+    finalizeArtwork: jest.fn(),
+    loadReference: jest.fn(),
+  },
+}));
+jest.mock('@/services/BlockchainService', () => ({
+  blockchainService: { completeAIGeneration: jest.fn() },
+}));
+jest.mock('@/services/ImageProviderService', () => ({
+  imageProviderRegistry: { isAvailable: jest.fn(() => true) },
+}));
+jest.mock('@/services/ModerationService', () => ({
+  moderationService: { isApproved: jest.fn(), moderate: jest.fn(), recordFlags: jest.fn(), dismissPending: jest.fn() },
+}));
+jest.mock('@/services/GenerationCacheService', () => ({
+  generationCacheService: {
+    buildKey: jest.fn(() => 'cache-key'),
+    lookup: jest.fn(),
+    fingerprint: jest.fn(),
+    findDuplicate: jest.fn(),
+    remember: jest.fn(),
+  },
+  toDuplicateFlag: jest.fn(),
+}));
+jest.mock('@/services/JobQueueService', () => ({
+  generationQueue: { enqueue: jest.fn(), isRunning: jest.fn() },
+}));
+jest.mock('@/services/WebhookService', () => ({ webhookService: { dispatch: jest.fn() } }));
+jest.mock('@/services/ResponseCacheService', () => ({ responseCacheService: { invalidate: jest.fn() } }));
+jest.mock('@/services/UsageService', () => ({ usageService: { record: jest.fn() } }));
+
+const requestId = 'b'.repeat(64);
+const walletAddress = '0x2222222222222222222222222222222222222222';
+const generationUsage: UsageItem = { kind: 'image', provider: 'openai', operation: 'generate', modelName: 'dall-e-3', images: 1 };
+
+// Stand-in for a request document, tracking the status transitions it goes through
+const createRequestDocument = (overrides: Record<string, unknown> = {}) => {
+  const statuses: RequestStatus[] = [];
+  const doc: Record<string, unknown> = {
+    requestId,
+    walletAddress,
+    prompt: 'A lighthouse on a cliff at dusk, oil painting',
+    status: RequestStatus.PENDING,
+    generationOptions: { style: 'oil-painting' },
+    variantRound: 0,
+    statuses,
+    ...overrides,
+  };
+
+  // Status in the database, which another writer can change under the worker
+  let storedStatus = doc['status'] as RequestStatus;
+
+  doc['updateStatus'] = jest.fn((status: RequestStatus) => {
+    doc['status'] = status;
+    storedStatus = status;
+    statuses.push(status);
+    return Promise.resolve(doc);
+  });
+  doc['advanceStatus'] = jest.fn((status: RequestStatus) => {
+    if (storedStatus !== doc['status']) {
+      return Promise.resolve(null);
+    }
+    doc['status'] = status;
+    storedStatus = status;
+    statuses.push(status);
+    return Promise.resolve(doc);
+  });
+  doc['storeStatus'] = (status: RequestStatus) => {
+    storedStatus = status;
+  };
+  doc['set'] = jest.fn((path: string, value: unknown) => {
+    doc[path] = value;
+  });
+  doc['save'] = jest.fn(() => Promise.resolve(doc));
+  doc['setAIGenerationData'] = jest.fn(() => Promise.resolve(doc));
+  doc['setMetadata'] = jest.fn(() => Promise.resolve(doc));
+
+  return doc as Record<string, unknown> & { statuses: RequestStatus[]; storeStatus: (status: RequestStatus) => void };
+};
+
+const draft = {
+  _id: 'draft-1',
+  data: Buffer.from('image'),
+  contentType: 'image/png',
+  provider: 'openai',
+  imageModel: 'dall-e-3',
+};
+
+describe('NFTRequestService.processQueuedRequest', () => {
+  const service = new NFTRequestService();
+
+  beforeEach(() => {
+    jest.mocked(GenerationDraft.insertMany).mockResolvedValue([draft] as never);
+    jest.mocked(GenerationDraft.findById).mockResolvedValue(draft as never);
+    jest.mocked(moderationService.isApproved).mockResolvedValue(true);
+    jest.mocked(aiService.generateVariants).mockImplementation((request) => {
+      request.usage?.push(generationUsage);
+      return Promise.resolve({
+        success: true,
+        data: [{ provider: 'openai', model: 'dall-e-3', contentType: 'image/png', data: Buffer.from('image') }],
+      } as never);
+    });
+    jest.mocked(aiService.finalizeArtwork).mockResolvedValue({
+      success: true,
+      data: {
+        imageUrl: 'https://gateway.pinata.cloud/ipfs/QmImage',
+        ipfsHash: 'QmImage',
+        tokenURI: 'ipfs://QmMetadata',
+        metadata: { name: 'Lighthouse', description: 'A lighthouse', image: 'ipfs://QmImage', attributes: [] },
+        provider: 'openai',
+        model: 'dall-e-3',
+        processingTime: 1200,
+      },
+    } as never);
+    jest.mocked(blockchainService.completeAIGeneration).mockResolvedValue({ success: true } as never);
+  });
+
+  it('generates the artwork once and records its usage once', async () => {
+    const request = createRequestDocument();
+    jest.mocked(NFTRequest.findByRequestId).mockResolvedValue(request as never);
+
+    await service.processQueuedRequest({ requestId, attempts: 1, maxAttempts: 5 });
+
+    expect(aiService.generateVariants).toHaveBeenCalledTimes(1);
+    expect(aiService.generateNFTArtwork).not.toHaveBeenCalled();
+    expect(aiService.finalizeArtwork).toHaveBeenCalledTimes(1);
+
+    expect(usageService.record).toHaveBeenCalledTimes(1);
+    expect(usageService.record).toHaveBeenCalledWith([generationUsage], { requestId, walletAddress });
+
+    expect(blockchainService.completeAIGeneration).toHaveBeenCalledWith(requestId, 'ipfs://QmMetadata');
+    expect(request.statuses).toEqual([
+      RequestStatus.PROCESSING,
+      RequestStatus.AI_COMPLETED,
+      RequestStatus.CROSS_CHAIN_PENDING,
+    ]);
+  });
+
+  it('resumes from AI_COMPLETED without generating again', async () => {
+    const request = createRequestDocument({
+      status: RequestStatus.AI_COMPLETED,
+      aiGenerationData: { tokenURI: 'ipfs://QmMetadata' },
+    });
+    jest.mocked(NFTRequest.findByRequestId).mockResolvedValue(request as never);
+
+    await service.processQueuedRequest({ requestId, attempts: 2, maxAttempts: 5 });
+
+    expect(aiService.generateVariants).not.toHaveBeenCalled();
+    expect(usageService.record).toHaveBeenCalledWith([], { requestId, walletAddress });
+    expect(request.statuses).toEqual([RequestStatus.CROSS_CHAIN_PENDING]);
+  });
+
+  it('still records usage when a later step fails', async () => {
+    const request = createRequestDocument();
+    jest.mocked(NFTRequest.findByRequestId).mockResolvedValue(request as never);
+    jest.mocked(blockchainService.completeAIGeneration).mockResolvedValue({ success: false, error: 'RPC down' } as never);
+
+    await expect(service.processQueuedRequest({ requestId, attempts: 1, maxAttempts: 5 }))
+      .rejects.toThrow('RPC down');
+
+    expect(usageService.record).toHaveBeenCalledTimes(1);
+    expect(usageService.record).toHaveBeenCalledWith([generationUsage], { requestId, walletAddress });
+  });
+
+  it('stops without overwriting or minting when the owner cancels mid-job', async () => {
+    const request = createRequestDocument();
+    jest.mocked(NFTRequest.findByRequestId).mockResolvedValue(request as never);
+    jest.mocked(aiService.generateVariants).mockImplementation(() => {
+      // The cancel lands while the image is being generated
+      request.storeStatus(RequestStatus.CANCELLED);
+      return Promise.resolve({
+        success: true,
+        data: [{ provider: 'openai', model: 'dall-e-3', contentType: 'image/png', data: Buffer.from('image') }],
+      } as never);
+    });
+
+    await service.processQueuedRequest({ requestId, attempts: 1, maxAttempts: 5 });
+
+    expect(request.statuses).toEqual([RequestStatus.PROCESSING]);
+    expect(blockchainService.completeAIGeneration).not.toHaveBeenCalled();
+  });
+
+  it('skips requests that are already past generation', async () => {
+    const request = createRequestDocument({ status: RequestStatus.COMPLETED });
+    jest.mocked(NFTRequest.findByRequestId).mockResolvedValue(request as never);
+
+    await service.processQueuedRequest({ requestId, attempts: 1, maxAttempts: 5 });
+
+    expect(aiService.generateVariants).not.toHaveBeenCalled();
+    expect(usageService.record).not.toHaveBeenCalled();
+  });
+});
+
+describe('NFTRequestService variant selection', () => {
+  const service = new NFTRequestService();
+  const variantId = '64b7f0c2a1b2c3d4e5f60719';
+  let request: ReturnType<typeof createRequestDocument>;
+
+  beforeEach(() => {
+    request = createRequestDocument({ status: RequestStatus.AWAITING_SELECTION, variantRound: 1 });
+    jest.mocked(NFTRequest.findByRequestId).mockResolvedValue(request as never);
+    jest.mocked(GenerationDraft.findOne).mockResolvedValue({ ...draft, save: jest.fn() } as never);
+    jest.mocked(generationQueue.isRunning).mockResolvedValue(false);
+    jest.mocked(generationQueue.enqueue).mockResolvedValue(true);
+  });
+
+  it('queues the chosen variant for minting', async () => {
+    await expect(service.selectVariant(requestId, variantId, walletAddress)).resolves.toEqual({ success: true });
+
+    expect(request['selectedVariantId']).toBe('draft-1');
+    expect(request.statuses).toEqual([RequestStatus.PENDING]);
+    expect(generationQueue.enqueue).toHaveBeenCalledWith(requestId);
+  });
+
+  it('refuses a selection while the draft job is still running', async () => {
+    jest.mocked(generationQueue.isRunning).mockResolvedValue(true);
+
+    await expect(service.selectVariant(requestId, variantId, walletAddress))
+      .resolves.toMatchObject({ success: false, code: 'JOB_RUNNING' });
+
+    expect(request.statuses).toEqual([]);
+    expect(generationQueue.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('refuses a regeneration while the draft job is still running', async () => {
+    jest.mocked(generationQueue.isRunning).mockResolvedValue(true);
+
+    await expect(service.regenerateVariants(requestId, walletAddress))
+      .resolves.toMatchObject({ success: false, code: 'JOB_RUNNING' });
+
+    expect(GenerationDraft.deleteByRequest).not.toHaveBeenCalled();
+    expect(request.statuses).toEqual([]);
+  });
+
+  it('discards the drafts and queues a new round', async () => {
+    await expect(service.regenerateVariants(requestId, walletAddress)).resolves.toEqual({ success: true });
+
+    expect(GenerationDraft.deleteByRequest).toHaveBeenCalledWith(requestId);
+    expect(request.statuses).toEqual([RequestStatus.PENDING]);
+    expect(generationQueue.enqueue).toHaveBeenCalledWith(requestId);
+  });
+});
+
+describe('NFTRequestService.cancelRequest', () => {
+  const service = new NFTRequestService();
+
+  it('refuses to cancel while a job is generating the request', async () => {
+    const request = createRequestDocument({ status: RequestStatus.PROCESSING });
+    jest.mocked(NFTRequest.findByRequestId).mockResolvedValue(request as never);
+    jest.mocked(generationQueue.isRunning).mockResolvedValue(true);
+
+    await expect(service.cancelRequest(requestId, walletAddress))
+      .resolves.toMatchObject({ success: false, code: 'JOB_RUNNING' });
+    expect(request.statuses).toEqual([]);
+
+    jest.mocked(generationQueue.isRunning).mockResolvedValue(false);
+    await expect(service.cancelRequest(requestId, walletAddress)).resolves.toEqual({ success: true });
+    expect(request.statuses).toEqual([RequestStatus.CANCELLED]);
+  });
+});
@@ -0,0 +1,105 @@
+import { Types } from 'mongoose';
+import { Notification } from '@/models/Notification';
+import { User } from '@/models/User';
+import { NotificationService, NotifiableRequest } from '@/services/NotificationService';
+import { realtimeService } from '@/services/RealtimeService';
+import { NotificationType, RequestStatus } from '@/types';
+
+jest.mock('@/models/Notification', () => ({
+  Notification: { create: jest.fn() },
+}));
+jest.mock('@/models/User', () => ({
+  User: { findById: jest.fn(), findByWallet: jest.fn() },
+}));
+jest.mock('@/services/RealtimeService', () => ({
+  realtimeService: { publishNotification: jest.fn() },
+}));
+
+const userId = new Types.ObjectId('64b7f0c2a1b2c3d4e5f60718');
+const walletAddress = '0x1111111111111111111111111111111111111111';
+
+const request: NotifiableRequest = {
+  requestId: 'd'.repeat(64),
+  walletAddress,
+  userId,
+  status: RequestStatus.COMPLETED,
+  prompt: 'A lighthouse on a cliff at dusk, oil painting',
+  destinationChainId: 11155111,
+  metadata: { name: 'Lighthouse' },
+};
+
+const mockUser = (preferences: Record<string, unknown> = {}) => {
+  jest.mocked(User.findById).mockResolvedValue({ _id: userId, walletAddress, preferences });
+};
+
+describe('NotificationService', () => {
+  const service = new NotificationService();
+
+  beforeEach(() => {
+    jest.mocked(Notification.create).mockImplementation((fields: unknown) => Promise.resolve({
+      toObject: () => fields,
+    }) as never);
+  });
+
+  it('stores the notification and publishes it to the wallet', async () => {
+    mockUser();
+
+    await service.notifyRequestStatus(request);
+
+    expect(Notification.create).toHaveBeenCalledWith({
+      userId,
+      type: NotificationType.MINT,
+      title: 'NFT Minted',
+      message: 'Lighthouse has been minted on Ethereum Sepolia',
+      actionUrl: '/dashboard/collection',
+      data: { requestId: request.requestId, status: RequestStatus.COMPLETED, chainId: 11155111 },
+    });
+    expect(realtimeService.publishNotification).toHaveBeenCalledWith(
+      walletAddress,
+      expect.objectContaining({ title: 'NFT Minted' })
+    );
+  });
+
+  it('includes the failure reason and links to the request', async () => {
+    mockUser();
+
+    await service.notifyRequestStatus({ ...request, status: RequestStatus.FAILED, errorMessage: 'Provider timed out' });
+
+    expect(Notification.create).toHaveBeenCalledWith(expect.objectContaining({
+      type: NotificationType.FAILURE,
+      message: `Generation failed for "${request.prompt}": Provider timed out`,
+      actionUrl: `/requests/${request.requestId}`,
+    }));
+  });
+
+  it('does not notify about pending requests', async () => {
+    await service.notifyRequestStatus({ ...request, status: RequestStatus.PENDING });
+
+    expect(User.findById).not.toHaveBeenCalled();
+    expect(Notification.create).not.toHaveBeenCalled();
+  });
+
+  it('respects a user who turned a notification type off', async () => {
+    mockUser({ notificationTypes: { [NotificationType.MINT]: false } });
+
+    await expect(service.notify({ userId }, { type: NotificationType.MINT, title: 'NFT Minted', message: 'Minted' }))
+      .resolves.toEqual({ success: true, data: null });
+    expect(Notification.create).not.toHaveBeenCalled();
+  });
+
+  it('respects a user who turned all notifications off', async () => {
+    mockUser({ notifications: false });
+
+    await service.notify({ userId }, { type: NotificationType.GENERATION, title: 'Started', message: 'Started' });
+
+    expect(Notification.create).not.toHaveBeenCalled();
+  });
+
+  it('finds the recipient by wallet when there is no user id', async () => {
+    jest.mocked(User.findByWallet).mockResolvedValue(null);
+
+    await expect(service.notify({ walletAddress }, { type: NotificationType.MINT, title: 'NFT Minted', message: 'Minted' }))
+      .resolves.toEqual({ success: false, error: 'Notification recipient not found' });
+    expect(User.findByWallet).toHaveBeenCalledWith(walletAddress);
+  });
+});
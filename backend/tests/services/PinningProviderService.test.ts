@@ -0,0 +1,124 @@
+import axios, { AxiosError, AxiosResponse } from 'axios';
+import { config } from '@/config/env';
+import {
+  KuboPinningProvider,
+  PinningProvider,
+  PinningProviderRegistry,
+  PinResult,
+  ProviderPinState,
+} from '@/services/PinningProviderService';
+import { PinningProviderName } from '@/types';
+
+const response = <T>(data: T, status = 200) => ({ data, status, headers: {} }) as AxiosResponse<T>;
+
+// Provider that only reports whether it is configured
+class FakeProvider implements PinningProvider {
+  public readonly label: string;
+
+  constructor(
+    public readonly name: PinningProviderName,
+    private readonly configured: boolean,
+    public readonly gateway?: string
+  ) {
+    this.label = `Fake ${name}`;
+  }
+
+  public isConfigured(): boolean {
+    return this.configured;
+  }
+
+  public addFile(): Promise<PinResult> {
+    return Promise.resolve({ cid: 'bafyfile', size: 1 });
+  }
+
+  public addJSON(): Promise<PinResult> {
+    return Promise.resolve({ cid: 'bafyjson', size: 1 });
+  }
+
+  public addCar(): Promise<PinResult> {
+    return Promise.resolve({ cid: 'bafycar', size: 1 });
+  }
+
+  public pin(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  public status(): Promise<ProviderPinState> {
+    return Promise.resolve('pinned');
+  }
+
+  public testConnection(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+describe('KuboPinningProvider', () => {
+  const provider = new KuboPinningProvider();
+
+  beforeEach(() => {
+    jest.replaceProperty(config.ipfs.kubo, 'apiUrl', 'http://127.0.0.1:5001');
+  });
+
+  it('adds files as CIDv1 and pins them', async () => {
+    const post = jest.spyOn(axios, 'post').mockResolvedValue(response({ Hash: 'bafyfile', Size: '5' }));
+
+    await expect(provider.addFile(Buffer.from('image'), 'image.png', 'image/png'))
+      .resolves.toEqual({ cid: 'bafyfile', size: 5 });
+    expect(post).toHaveBeenCalledWith('http://127.0.0.1:5001/api/v0/add', expect.any(FormData), expect.objectContaining({
+      params: { 'cid-version': 1, pin: true },
+    }));
+  });
+
+  it('reads the root CID from the line-delimited dag import answer', async () => {
+    jest.spyOn(axios, 'post').mockResolvedValue(response([
+      '{"Root":{"Cid":{"/":"bafyroot"},"PinErrorMsg":""}}',
+      '{"Stats":{"BlockCount":3,"BlockBytesCount":120}}',
+      '',
+    ].join('\n')));
+
+    await expect(provider.addCar(Buffer.from('car'))).resolves.toEqual({ cid: 'bafyroot', size: 3 });
+  });
+
+  it('fails an import whose root could not be pinned', async () => {
+    jest.spyOn(axios, 'post').mockResolvedValue(response('{"Root":{"Cid":{"/":"bafyroot"},"PinErrorMsg":"no space"}}\n'));
+
+    await expect(provider.addCar(Buffer.from('car'))).rejects.toThrow('Kubo could not pin the root: no space');
+  });
+
+  it('reports a CID as pinned when the node lists it', async () => {
+    jest.spyOn(axios, 'post').mockResolvedValue(response({ Keys: { bafyroot: { Type: 'recursive' } } }));
+
+    await expect(provider.status('bafyroot')).resolves.toBe('pinned');
+  });
+
+  it('treats "not pinned" errors as missing and rethrows others', async () => {
+    const failure = (message: string) => new AxiosError(message, 'ERR_BAD_RESPONSE', undefined, undefined,
+      response({ Message: message, Code: 0, Type: 'error' }, 500));
+    jest.spyOn(axios, 'post')
+      .mockRejectedValueOnce(failure('path \'bafyroot\' is not pinned'))
+      .mockRejectedValueOnce(failure('context deadline exceeded'));
+
+    await expect(provider.status('bafyroot')).resolves.toBe('missing');
+    await expect(provider.status('bafyroot')).rejects.toThrow('context deadline exceeded');
+  });
+});
+
+describe('PinningProviderRegistry', () => {
+  const registry = new PinningProviderRegistry([
+    new FakeProvider('pinata', true, 'https://gateway.pinata.cloud'),
+    new FakeProvider('kubo', false, 'http://127.0.0.1:8080'),
+  ]);
+
+  it('uses the configured providers in PINNING_PROVIDERS order', () => {
+    jest.replaceProperty(config.ipfs, 'providers', ['kubo', 'nftstorage', 'pinata']);
+
+    expect(registry.getActiveProviders().map(provider => provider.name)).toEqual(['pinata']);
+  });
+
+  it('reads from provider gateways before the public ones, without repeats', () => {
+    jest.replaceProperty(config.ipfs, 'providers', ['pinata', 'kubo']);
+    jest.replaceProperty(config.ipfs, 'gateways', ['https://gateway.pinata.cloud', 'https://ipfs.io']);
+
+    expect(registry.getGateways()).toEqual(['https://gateway.pinata.cloud', 'https://ipfs.io']);
+  });
+});
@@ -0,0 +1,79 @@
+import { config } from '@/config/env';
+import { MemoryResponseCacheStore, ResponseCacheService } from '@/services/ResponseCacheService';
+
+jest.mock('@/config/redis', () => ({
+  getRedisClient: jest.fn(),
+  isRedisConfigured: jest.fn(() => false),
+}));
+
+const entry = (body: string) => ({ body, etag: `"${body}"` });
+
+describe('MemoryResponseCacheStore', () => {
+  it('expires entries after their TTL', async () => {
+    const store = new MemoryResponseCacheStore();
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    await store.set('a', entry('a'), 30);
+    await expect(store.get('a')).resolves.toEqual(entry('a'));
+
+    jest.spyOn(Date, 'now').mockReturnValue(now + 30_000);
+    await expect(store.get('a')).resolves.toBeNull();
+  });
+
+  it('evicts the least recently used entry beyond the configured size', async () => {
+    jest.replaceProperty(config.responseCache, 'maxEntries', 2);
+    const store = new MemoryResponseCacheStore();
+
+    await store.set('a', entry('a'), 60);
+    await store.set('b', entry('b'), 60);
+    await store.get('a');
+    await store.set('c', entry('c'), 60);
+
+    await expect(store.get('a')).resolves.toEqual(entry('a'));
+    await expect(store.get('b')).resolves.toBeNull();
+    await expect(store.get('c')).resolves.toEqual(entry('c'));
+  });
+});
+
+describe('ResponseCacheService', () => {
+  beforeEach(() => {
+    jest.replaceProperty(config.responseCache, 'enabled', true);
+  });
+
+  it('moves keys to a new generation when tagged data changes', async () => {
+    const service = new ResponseCacheService(new MemoryResponseCacheStore());
+    const key = await service.buildKey('/api/v1/collections/trending', ['collections', 'requests']);
+    await service.set(key, service.createEntry('{"success":true}'), 60);
+
+    await service.invalidate('requests');
+
+    const next = await service.buildKey('/api/v1/collections/trending', ['collections', 'requests']);
+    expect(key).toMatch(/^collections@0,requests@0:[0-9a-f]{64}$/);
+    expect(next).toMatch(/^collections@0,requests@1:/);
+    await expect(service.get(key)).resolves.toBeNull();
+    await expect(service.buildKey('/api/v1/collections/featured', ['collections']))
+      .resolves.toMatch(/^collections@0:/);
+  });
+
+  it('derives the ETag from the body', () => {
+    const service = new ResponseCacheService(new MemoryResponseCacheStore());
+
+    expect(service.createEntry('{"a":1}').etag).toBe(service.createEntry('{"a":1}').etag);
+    expect(service.createEntry('{"a":1}').etag).not.toBe(service.createEntry('{"a":2}').etag);
+    expect(service.createEntry('{"a":1}').etag).toMatch(/^"[\w-]+"$/);
+  });
+
+  it('never throws when invalidation fails, and skips it while disabled', async () => {
+    const store = new MemoryResponseCacheStore();
+    const bump = jest.spyOn(store, 'bump').mockRejectedValue(new Error('Redis unavailable'));
+    const service = new ResponseCacheService(store);
+
+    await expect(service.invalidate('collections', 'requests')).resolves.toBeUndefined();
+    expect(bump).toHaveBeenCalledTimes(2);
+
+    jest.replaceProperty(config.responseCache, 'enabled', false);
+    await service.invalidate('collections');
+    expect(bump).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,143 @@
+import jwt from 'jsonwebtoken';
+import { Session } from '@/models/Session';
+import { AccessTokenPayload, SessionService, TokenDenylist } from '@/services/SessionService';
+import { SessionRevocationReason } from '@/types';
+
+jest.mock('@/models/Session', () => {
+  const Session = jest.fn(function(this: Record<string, unknown>, fields: Record<string, unknown>) {
+    Object.assign(this, fields);
+    this['save'] = jest.fn(() => Promise.resolve(this));
+  });
+
+  return {
+    Session: Object.assign(Session, {
+      findOne: jest.fn(),
+      findOneAndUpdate: jest.fn(),
+      updateOne: jest.fn(),
+      findActiveByUser: jest.fn(),
+    }),
+  };
+});
+jest.mock('@/models/RevokedToken', () => ({ RevokedToken: {} }));
+jest.mock('@/config/redis', () => ({
+  getRedisClient: jest.fn(),
+  isRedisConfigured: jest.fn(() => false),
+}));
+
+class MemoryDenylist implements TokenDenylist {
+  public tokens = new Set<string>();
+
+  public add(tokenId: string): Promise<void> {
+    this.tokens.add(tokenId);
+    return Promise.resolve();
+  }
+
+  public has(tokenId: string): Promise<boolean> {
+    return Promise.resolve(this.tokens.has(tokenId));
+  }
+}
+
+const userId = '64b7f0c2a1b2c3d4e5f60718';
+const walletAddress = '0x1111111111111111111111111111111111111111';
+const chromeOnMac = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 Chrome/120.0 Safari/537.36';
+
+describe('SessionService', () => {
+  let denylist: MemoryDenylist;
+  let service: SessionService;
+
+  beforeEach(() => {
+    denylist = new MemoryDenylist();
+    service = new SessionService(denylist);
+  });
+
+  // Issue a session and return its tokens together with the stored document
+  const login = async () => {
+    const result = await service.createSession(userId, walletAddress, { userAgent: chromeOnMac });
+    if (!result.data) {
+      throw new Error('Session was not created');
+    }
+
+    const stored = jest.mocked(Session).mock.instances.at(-1) as unknown as Record<string, unknown>;
+    return { tokens: result.data, stored };
+  };
+
+  it('creates a session whose tokens carry the session id', async () => {
+    const { tokens, stored } = await login();
+    const access = jwt.decode(tokens.accessToken) as AccessTokenPayload;
+
+    expect(access).toMatchObject({ userId, walletAddress, sid: tokens.sessionId });
+    expect(stored).toMatchObject({
+      familyId: tokens.sessionId,
+      accessTokenId: access.jti,
+      device: 'Chrome on macOS',
+      userAgent: chromeOnMac,
+    });
+    expect(stored['save']).toHaveBeenCalled();
+  });
+
+  it('rotates a refresh token and retires the previous access token', async () => {
+    const { tokens, stored } = await login();
+    jest.mocked(Session.findOne).mockResolvedValue(stored);
+    jest.mocked(Session.findOneAndUpdate).mockResolvedValue(stored);
+
+    const result = await service.rotateRefreshToken(tokens.refreshToken, { ipAddress: '10.0.0.1' });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.refreshToken).not.toBe(tokens.refreshToken);
+    expect(Session.findOneAndUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ familyId: tokens.sessionId, refreshTokenId: stored['refreshTokenId'] }),
+      { $set: expect.objectContaining({ ipAddress: '10.0.0.1' }) },
+      { new: true }
+    );
+    await expect(service.isAccessTokenRevoked(String(stored['accessTokenId']))).resolves.toBe(true);
+  });
+
+  it('revokes the whole session when a rotated refresh token is reused', async () => {
+    const { tokens, stored } = await login();
+    jest.mocked(Session.findOne).mockResolvedValue(stored);
+    jest.mocked(Session.findOneAndUpdate).mockResolvedValue(null);
+
+    const result = await service.rotateRefreshToken(tokens.refreshToken, {});
+
+    expect(result).toMatchObject({ success: false, code: 'REFRESH_TOKEN_REUSED' });
+    expect(Session.updateOne).toHaveBeenCalledWith(
+      expect.objectContaining({ revokedAt: { $exists: false } }),
+      { $set: { revokedAt: expect.any(Date), revokedReason: SessionRevocationReason.TOKEN_REUSE } }
+    );
+    expect(denylist.tokens.has(String(stored['accessTokenId']))).toBe(true);
+  });
+
+  it('does not accept an access token as a refresh token', async () => {
+    const { tokens } = await login();
+
+    await expect(service.rotateRefreshToken(tokens.accessToken, {}))
+      .resolves.toMatchObject({ success: false, code: 'INVALID_REFRESH_TOKEN' });
+    expect(Session.findOne).not.toHaveBeenCalled();
+  });
+
+  it('does not refresh a revoked session', async () => {
+    const { tokens, stored } = await login();
+    jest.mocked(Session.findOne).mockResolvedValue({ ...stored, revokedAt: new Date() });
+
+    await expect(service.rotateRefreshToken(tokens.refreshToken, {}))
+      .resolves.toMatchObject({ success: false, code: 'SESSION_REVOKED' });
+    expect(Session.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('revokes every other session but keeps the current one', async () => {
+    const session = (familyId: string) => ({
+      _id: familyId,
+      userId,
+      familyId,
+      accessTokenId: `access-${familyId}`,
+      accessTokenExpiresAt: new Date(Date.now() + 60000),
+    });
+    jest.mocked(Session.findActiveByUser).mockResolvedValue(
+      [session('current'), session('laptop'), session('phone')] as never
+    );
+
+    await expect(service.revokeAllSessions(userId, 'current'))
+      .resolves.toEqual({ success: true, data: { revoked: 2 } });
+    expect([...denylist.tokens]).toEqual(['access-laptop', 'access-phone']);
+  });
+});
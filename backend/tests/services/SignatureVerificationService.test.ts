@@ -0,0 +1,115 @@
+import { ethers } from 'ethers';
+import {
+  ERC1271_MAGIC_VALUE,
+  ERC6492_MAGIC_SUFFIX,
+  SignatureVerificationService,
+} from '@/services/SignatureVerificationService';
+
+const chainId = 7001;
+const message = 'Sign in to ChainWeave AI';
+const contractWallet = ethers.getAddress(`0x${'cd'.repeat(20)}`);
+const factory = ethers.getAddress(`0x${'ef'.repeat(20)}`);
+const coder = ethers.AbiCoder.defaultAbiCoder();
+
+// Owner key of the contract wallet; its ECDSA signature is what the wallet checks
+const owner = new ethers.Wallet(`0x${'11'.repeat(32)}`);
+
+type FakeProvider = {
+  getCode: jest.Mock<Promise<string>, [string]>;
+  call: jest.Mock<Promise<string>, [ethers.TransactionRequest]>;
+};
+
+const createProvider = (): FakeProvider => ({
+  getCode: jest.fn((_address: string) => Promise.resolve('0x')),
+  call: jest.fn((_request: ethers.TransactionRequest) => Promise.resolve('0x')),
+});
+
+// Wrap a signature the way a counterfactual wallet does (ERC-6492)
+const wrapErc6492 = (signature: string): string => ethers.concat([
+  coder.encode(['address', 'bytes', 'bytes'], [factory, '0xdeadbeef', signature]),
+  ERC6492_MAGIC_SUFFIX,
+]);
+
+describe('SignatureVerificationService', () => {
+  let provider: FakeProvider;
+  let service: SignatureVerificationService;
+  let ownerSignature: string;
+
+  beforeEach(async () => {
+    provider = createProvider();
+    service = new SignatureVerificationService();
+    service.setProvider(chainId, provider as unknown as ethers.Provider);
+    ownerSignature = await owner.signMessage(message);
+  });
+
+  it('verifies an EOA signature without touching the chain', async () => {
+    await expect(service.verifyMessage(owner.address, message, ownerSignature, chainId))
+      .resolves.toEqual({ isValid: true, type: 'eoa' });
+
+    expect(provider.getCode).not.toHaveBeenCalled();
+  });
+
+  it('accepts a deployed wallet that returns the EIP-1271 magic value', async () => {
+    provider.getCode.mockResolvedValue('0x6080');
+    provider.call.mockResolvedValue(coder.encode(['bytes4'], [ERC1271_MAGIC_VALUE]));
+
+    await expect(service.verifyMessage(contractWallet, message, ownerSignature, chainId))
+      .resolves.toEqual({ isValid: true, type: 'erc1271' });
+
+    const [request] = provider.call.mock.calls[0]!;
+    expect(request.to).toBe(contractWallet);
+    expect(request.data).toBe(new ethers.Interface([
+      'function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)',
+    ]).encodeFunctionData('isValidSignature', [ethers.hashMessage(message), ownerSignature]));
+  });
+
+  it('rejects a deployed wallet that does not return the magic value', async () => {
+    provider.getCode.mockResolvedValue('0x6080');
+    provider.call.mockResolvedValue(coder.encode(['bytes4'], ['0xffffffff']));
+
+    await expect(service.verifyMessage(contractWallet, message, ownerSignature, chainId))
+      .resolves.toEqual({ isValid: false, error: 'Invalid contract wallet signature' });
+  });
+
+  it('rejects a wallet signature for an address with no code', async () => {
+    await expect(service.verifyMessage(contractWallet, message, ownerSignature, chainId))
+      .resolves.toEqual({ isValid: false, error: 'Invalid wallet signature' });
+  });
+
+  it('checks an undeployed ERC-6492 wallet through the universal validator', async () => {
+    provider.call.mockResolvedValue('0x01');
+
+    await expect(service.verifyMessage(contractWallet, message, wrapErc6492(ownerSignature), chainId))
+      .resolves.toEqual({ isValid: true, type: 'erc6492' });
+
+    // Deployless call: no target, validator creation code followed by its arguments
+    const [request] = provider.call.mock.calls[0]!;
+    expect(request.to).toBeUndefined();
+    expect(String(request.data).endsWith(coder.encode(
+      ['address', 'bytes32', 'bytes'],
+      [contractWallet, ethers.hashMessage(message), wrapErc6492(ownerSignature)]
+    ).slice(2))).toBe(true);
+    expect(provider.getCode).not.toHaveBeenCalled();
+  });
+
+  it('rejects an ERC-6492 signature the validator does not accept', async () => {
+    provider.call.mockResolvedValue('0x00');
+
+    await expect(service.verifyMessage(contractWallet, message, wrapErc6492(ownerSignature), chainId))
+      .resolves.toEqual({ isValid: false, error: 'Invalid counterfactual wallet signature' });
+  });
+
+  it('reports an RPC failure as unverifiable', async () => {
+    provider.getCode.mockRejectedValue(new Error('connection refused'));
+
+    await expect(service.verifyMessage(contractWallet, message, ownerSignature, chainId))
+      .resolves.toEqual({ isValid: false, error: 'Unable to verify contract wallet signature' });
+  });
+
+  it('rejects malformed signatures and chains without an RPC', async () => {
+    await expect(service.verifyMessage(contractWallet, message, 'not-hex', chainId))
+      .resolves.toEqual({ isValid: false, error: 'Malformed signature' });
+    await expect(service.verifyMessage(contractWallet, message, ownerSignature, 424242))
+      .resolves.toEqual({ isValid: false, error: 'No RPC provider configured for chain 424242' });
+  });
+});
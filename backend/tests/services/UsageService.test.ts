@@ -0,0 +1,124 @@
+import { config } from '@/config/env';
+import { NFTRequest } from '@/models/NFTRequest';
+import { UsageRecord } from '@/models/UsageRecord';
+import { User } from '@/models/User';
+import { UsageService } from '@/services/UsageService';
+
+jest.mock('@/models/UsageRecord', () => ({
+  UsageRecord: { insertMany: jest.fn(), sumForWallet: jest.fn(), getCostBreakdown: jest.fn() },
+}));
+jest.mock('@/models/NFTRequest', () => ({
+  NFTRequest: { aggregate: jest.fn() },
+}));
+jest.mock('@/models/User', () => ({
+  User: { findByWallet: jest.fn() },
+}));
+
+const walletAddress = '0x5555555555555555555555555555555555555555';
+
+describe('UsageService.estimateCost', () => {
+  const service = new UsageService();
+
+  const image = (provider: string, modelName?: string, quality?: 'standard' | 'hd') => ({
+    kind: 'image' as const,
+    provider,
+    operation: 'generate',
+    images: 1,
+    ...(modelName ? { modelName } : {}),
+    ...(quality ? { quality } : {}),
+  });
+
+  it('prices images by model and quality, then model, then the provider default', () => {
+    expect(service.estimateCost({ ...image('openai', 'dall-e-3', 'standard'), images: 2 })).toBe(0.08);
+    expect(service.estimateCost(image('openai', 'dall-e-2'))).toBe(0.02);
+    expect(service.estimateCost(image('stability', 'sd-new'))).toBe(0.04);
+    expect(service.estimateCost({ ...image('local'), images: 4 })).toBe(0);
+  });
+
+  it('prices text per thousand tokens and pins per gigabyte', () => {
+    expect(service.estimateCost({
+      kind: 'text',
+      provider: 'gemini',
+      operation: 'metadata',
+      modelName: 'gemini-pro',
+      inputTokens: 1000,
+      outputTokens: 2000,
+    })).toBe(0.0035);
+    expect(service.estimateCost({ kind: 'pin', provider: 'pinata', operation: 'image', bytes: 1024 ** 3 })).toBe(0.15);
+  });
+});
+
+describe('UsageService.checkQuota', () => {
+  const service = new UsageService();
+
+  const mockUsage = (today: { images: number; costUsd: number }, month = today, queued = 0) => {
+    jest.mocked(UsageRecord.sumForWallet).mockResolvedValueOnce(today).mockResolvedValueOnce(month);
+    jest.mocked(NFTRequest.aggregate).mockResolvedValue(queued ? [{ images: queued }] : []);
+  };
+
+  beforeEach(() => {
+    jest.replaceProperty(config.usage.quotas, 'enabled', true);
+  });
+
+  it('allows a generation within the tier and reports what is left', async () => {
+    mockUsage({ images: 4, costUsd: 0.25 }, { images: 30, costUsd: 2 });
+
+    const result = await service.checkQuota(walletAddress, 3, 'free');
+
+    expect(result.success).toBe(true);
+    expect(result.data?.daily).toMatchObject({
+      generations: { used: 4, limit: 10, remaining: 6 },
+      costUsd: { used: 0.25, limit: 1, remaining: 0.75 },
+    });
+    expect(result.data?.monthly.generations).toEqual({ used: 30, limit: 100, remaining: 70 });
+  });
+
+  it('counts queued requests toward the generations used', async () => {
+    mockUsage({ images: 6, costUsd: 0.1 }, { images: 6, costUsd: 0.1 }, 3);
+
+    await expect(service.checkQuota(walletAddress, 2, 'free')).resolves.toMatchObject({
+      success: false,
+      code: 'QUOTA_EXCEEDED',
+      data: { exceeded: { period: 'daily', limit: 'generations' } },
+    });
+  });
+
+  it('stops generating once the budget is spent', async () => {
+    mockUsage({ images: 1, costUsd: 0.5 }, { images: 50, costUsd: 10 });
+
+    await expect(service.checkQuota(walletAddress, 1, 'free')).resolves.toMatchObject({
+      success: false,
+      code: 'BUDGET_EXCEEDED',
+      data: { exceeded: { period: 'monthly', limit: 'costUsd' } },
+    });
+  });
+
+  it('uses the user tier when none is given', async () => {
+    jest.mocked(User.findByWallet).mockResolvedValue({ tier: 'unlimited' } as never);
+    mockUsage({ images: 5000, costUsd: 900 });
+
+    const result = await service.checkQuota(walletAddress, 1);
+
+    expect(result).toMatchObject({ success: true, data: { tier: 'unlimited' } });
+    expect(result.data?.daily.generations).toEqual({ used: 5000, limit: null, remaining: null });
+  });
+});
+
+describe('UsageService.record', () => {
+  const service = new UsageService();
+
+  it('prices every item into the ledger', async () => {
+    jest.replaceProperty(config.usage, 'enabled', true);
+
+    await service.record(
+      [{ kind: 'image', provider: 'openai', operation: 'generate', modelName: 'dall-e-2', images: 1 }],
+      { requestId: 'r1', walletAddress: walletAddress.toUpperCase() }
+    );
+
+    expect(UsageRecord.insertMany).toHaveBeenCalledWith([expect.objectContaining({
+      requestId: 'r1',
+      walletAddress,
+      costUsd: 0.02,
+    })]);
+  });
+});
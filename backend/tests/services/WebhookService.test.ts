@@ -0,0 +1,277 @@
+import crypto from 'crypto';
+import axios, { AxiosResponse } from 'axios';
+import { Types } from 'mongoose';
+import { config } from '@/config/env';
+import { WebhookEndpoint, IWebhookEndpointDocument } from '@/models/WebhookEndpoint';
+import { WebhookDelivery, IWebhookDeliveryDocument } from '@/models/WebhookDelivery';
+import { SIGNATURE_HEADER, WebhookService } from '@/services/WebhookService';
+import { publicHttpAgent, publicHttpsAgent } from '@/utils/network';
+
+jest.mock('@/models/WebhookEndpoint', () => ({
+  WebhookEndpoint: {
+    findSubscribers: jest.fn(),
+    findById: jest.fn(),
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+  },
+}));
+jest.mock('@/models/WebhookDelivery', () => ({
+  WebhookDelivery: {
+    insertMany: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn(),
+    updateOne: jest.fn(),
+    updateMany: jest.fn(),
+  },
+}));
+
+const wallet = '0x00000000000000000000000000000000000000aa';
+const response = (status: number, data = '') => ({ data, status, headers: {} }) as AxiosResponse<string>;
+
+const endpoint = (overrides: Partial<IWebhookEndpointDocument> = {}) => ({
+  _id: new Types.ObjectId('64b7f0c2a1b2c3d4e5f60718'),
+  ownerWallet: wallet,
+  url: 'https://hooks.example.com/chainweave',
+  isActive: true,
+  secretVersion: 1,
+  consecutiveFailures: 0,
+  ...overrides,
+}) as IWebhookEndpointDocument;
+
+const delivery = (attempts: number, overrides: Partial<IWebhookDeliveryDocument> = {}) => ({
+  _id: new Types.ObjectId(),
+  deliveryId: 'dlv_00000000-0000-0000-0000-000000000001',
+  endpointId: endpoint()._id,
+  event: 'nft.minted',
+  payload: { id: 'evt_1', event: 'nft.minted', data: { requestId: 'r1' }, timestamp: new Date(0) },
+  attempts,
+  ...overrides,
+}) as IWebhookDeliveryDocument;
+
+beforeEach(() => {
+  jest.replaceProperty(config, 'webhook', {
+    ...config.webhook,
+    secret: 'w'.repeat(32),
+    enabled: true,
+    maxAttempts: 3,
+    backoffBaseMs: 1000,
+    backoffMaxMs: 60000,
+    disableAfterFailures: 5,
+  });
+});
+
+describe('WebhookService signing', () => {
+  const service = new WebhookService();
+
+  it('signs the timestamp and body with HMAC-SHA256', () => {
+    const expected = crypto.createHmac('sha256', 'whsec_test').update('1700000000.{"id":"evt_1"}').digest('hex');
+
+    expect(service.sign('whsec_test', 1700000000, '{"id":"evt_1"}')).toBe(`t=1700000000,v1=${expected}`);
+  });
+
+  it('derives a secret per endpoint that changes when it is rotated', () => {
+    const secret = service.getSecret(endpoint());
+
+    expect(secret).toMatch(/^whsec_[0-9a-f]{64}$/);
+    expect(service.getSecret(endpoint())).toBe(secret);
+    expect(service.getSecret(endpoint({ secretVersion: 2 }))).not.toBe(secret);
+    expect(service.getSecret(endpoint({ _id: new Types.ObjectId() }))).not.toBe(secret);
+  });
+});
+
+describe('WebhookService.dispatch', () => {
+  const service = new WebhookService();
+
+  it('logs one delivery per subscribed endpoint', async () => {
+    const other = endpoint({ _id: new Types.ObjectId() });
+    jest.mocked(WebhookEndpoint.findSubscribers).mockResolvedValue([endpoint(), other]);
+
+    await service.dispatch('nft.minted', wallet.toUpperCase().replace('0X', '0x'), { requestId: 'r1' });
+
+    expect(WebhookEndpoint.findSubscribers).toHaveBeenCalledWith('nft.minted', expect.any(String));
+    expect(WebhookDelivery.insertMany).toHaveBeenCalledWith([
+      expect.objectContaining({ endpointId: endpoint()._id, event: 'nft.minted' }),
+      expect.objectContaining({ endpointId: other._id, event: 'nft.minted' }),
+    ]);
+
+    const [[deliveries]] = jest.mocked(WebhookDelivery.insertMany).mock.calls as unknown as [[{ payload: unknown }[]]];
+    expect(deliveries[0]!.payload).toEqual({
+      id: expect.stringMatching(/^evt_/),
+      event: 'nft.minted',
+      data: { walletAddress: wallet, requestId: 'r1' },
+      timestamp: expect.any(Date),
+    });
+  });
+
+  it('logs nothing without subscribers or while webhooks are off', async () => {
+    jest.mocked(WebhookEndpoint.findSubscribers).mockResolvedValue([]);
+    await service.dispatch('request.created', wallet, {});
+
+    jest.replaceProperty(config.webhook, 'enabled', false);
+    await service.dispatch('request.created', wallet, {});
+
+    expect(WebhookEndpoint.findSubscribers).toHaveBeenCalledTimes(1);
+    expect(WebhookDelivery.insertMany).not.toHaveBeenCalled();
+  });
+
+  it('never throws when the log cannot be written', async () => {
+    jest.mocked(WebhookEndpoint.findSubscribers).mockRejectedValue(new Error('connection lost'));
+
+    await expect(service.dispatch('nft.reverted', wallet, {})).resolves.toBeUndefined();
+  });
+});
+
+describe('WebhookService delivery', () => {
+  const service = new WebhookService();
+  const deliver = (claimed: IWebhookDeliveryDocument) => service['deliver'](claimed);
+
+  beforeEach(() => {
+    jest.mocked(WebhookEndpoint.findById).mockResolvedValue(endpoint());
+  });
+
+  it('posts the signed payload and records the delivery', async () => {
+    const post = jest.spyOn(axios, 'post').mockResolvedValue(response(200, 'ok'));
+
+    await deliver(delivery(1));
+
+    const [url, body, options] = post.mock.calls[0]!;
+    const headers = options!.headers as Record<string, string>;
+    const [, timestamp] = /^t=(\d+),/.exec(headers[SIGNATURE_HEADER]!)!;
+    expect(url).toBe(endpoint().url);
+    expect(JSON.parse(body as string)).toMatchObject({ id: 'evt_1', event: 'nft.minted' });
+    expect(headers[SIGNATURE_HEADER]).toBe(service.sign(service.getSecret(endpoint()), Number(timestamp), body as string));
+    expect(options).toMatchObject({
+      maxRedirects: 0,
+      maxContentLength: 256 * 1024,
+      maxBodyLength: 256 * 1024,
+      httpAgent: publicHttpAgent,
+      httpsAgent: publicHttpsAgent,
+    });
+
+    expect(WebhookDelivery.updateOne).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'delivering' }),
+      expect.objectContaining({
+        $set: expect.objectContaining({ status: 'delivered', lastStatusCode: 200 }),
+        $push: { attemptLog: expect.objectContaining({ statusCode: 200 }) },
+      })
+    );
+    // What the receiver answers is not kept, so it cannot be read back through the log
+    const [[, update]] = jest.mocked(WebhookDelivery.updateOne).mock.calls as unknown as [[unknown, { $set: object }]];
+    expect(update.$set).not.toHaveProperty('lastResponse');
+    expect(WebhookEndpoint.updateOne).toHaveBeenCalledWith(
+      { _id: endpoint()._id },
+      { $set: expect.objectContaining({ consecutiveFailures: 0 }) }
+    );
+  });
+
+  it('schedules a retry with backoff after a failed attempt', async () => {
+    jest.spyOn(axios, 'post').mockResolvedValue(response(503));
+    jest.mocked(WebhookEndpoint.findOneAndUpdate).mockResolvedValue(endpoint({ consecutiveFailures: 1 }));
+    const before = Date.now();
+
+    await deliver(delivery(2));
+
+    const [[, update]] = jest.mocked(WebhookDelivery.updateOne).mock.calls as unknown as [[unknown, {
+      $set: { status: string; nextAttemptAt: Date; lastError: string };
+    }]];
+    expect(update.$set).toMatchObject({ status: 'pending', lastError: 'HTTP 503', lastStatusCode: 503 });
+    // Second attempt: twice the base delay, plus up to 10% jitter
+    expect(update.$set.nextAttemptAt.getTime() - before).toBeGreaterThanOrEqual(2000);
+    expect(update.$set.nextAttemptAt.getTime() - Date.now()).toBeLessThanOrEqual(2200);
+    expect(WebhookEndpoint.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: endpoint()._id },
+      expect.objectContaining({ $inc: { consecutiveFailures: 1 } }),
+      { new: true }
+    );
+  });
+
+  it('gives up once the attempts are used', async () => {
+    jest.spyOn(axios, 'post').mockRejectedValue(new Error('connect ECONNREFUSED'));
+    jest.mocked(WebhookEndpoint.findOneAndUpdate).mockResolvedValue(endpoint({ consecutiveFailures: 1 }));
+
+    await deliver(delivery(3));
+
+    expect(WebhookDelivery.updateOne).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ $set: expect.objectContaining({ status: 'failed', lastError: 'connect ECONNREFUSED' }) })
+    );
+  });
+
+  it('disables an endpoint that keeps failing and drops what waits for it', async () => {
+    jest.spyOn(axios, 'post').mockResolvedValue(response(500));
+    jest.mocked(WebhookEndpoint.findOneAndUpdate).mockResolvedValue(endpoint({ consecutiveFailures: 5 }));
+
+    await deliver(delivery(1));
+
+    expect(WebhookEndpoint.updateOne).toHaveBeenCalledWith(
+      { _id: endpoint()._id, isActive: true },
+      { $set: expect.objectContaining({ isActive: false, disabledReason: expect.stringContaining('5 consecutive') }) }
+    );
+    expect(WebhookDelivery.updateMany).toHaveBeenCalledWith(
+      { endpointId: endpoint()._id, status: 'pending' },
+      { $set: { status: 'failed', lastError: 'Endpoint disabled' } }
+    );
+  });
+
+  it('refuses to send to an IP address', async () => {
+    const post = jest.spyOn(axios, 'post');
+    jest.mocked(WebhookEndpoint.findById).mockResolvedValue(endpoint({ url: 'http://169.254.169.254/latest/meta-data' }));
+    jest.mocked(WebhookEndpoint.findOneAndUpdate).mockResolvedValue(endpoint({ consecutiveFailures: 1 }));
+
+    await deliver(delivery(1));
+
+    expect(post).not.toHaveBeenCalled();
+    expect(WebhookDelivery.updateOne).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ $set: expect.objectContaining({ lastError: 'Endpoint URL must use a public host name' }) })
+    );
+  });
+
+  it('does not send to a disabled endpoint, except test events', async () => {
+    const post = jest.spyOn(axios, 'post').mockResolvedValue(response(204));
+    jest.mocked(WebhookEndpoint.findById).mockResolvedValue(endpoint({ isActive: false }));
+
+    await deliver(delivery(1));
+    expect(post).not.toHaveBeenCalled();
+    expect(WebhookDelivery.updateOne).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ $set: { status: 'failed', lastError: 'Endpoint disabled' } })
+    );
+
+    await deliver(delivery(1, { event: 'webhook.test' }));
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('WebhookService.replayDelivery', () => {
+  const service = new WebhookService();
+  const actor = { walletAddress: wallet, isAdmin: false };
+  const endpointId = endpoint()._id.toString();
+
+  it('re-sends the logged payload as a new delivery', async () => {
+    const original = delivery(3);
+    jest.mocked(WebhookEndpoint.findOne).mockResolvedValue(endpoint());
+    jest.mocked(WebhookDelivery.findOne).mockResolvedValue(original);
+    jest.mocked(WebhookDelivery.create)
+      .mockImplementation(doc => Promise.resolve({ ...(doc as object), toJSON: () => doc }) as never);
+
+    const result = await service.replayDelivery(endpointId, original.deliveryId, actor);
+
+    expect(result).toMatchObject({
+      success: true,
+      data: { event: 'nft.minted', payload: original.payload, replayOf: original.deliveryId },
+    });
+    expect(result.data!.deliveryId).not.toBe(original.deliveryId);
+    expect(WebhookEndpoint.findOne).toHaveBeenCalledWith({ _id: endpointId, ownerWallet: wallet });
+  });
+
+  it('refuses to replay to a disabled endpoint', async () => {
+    jest.mocked(WebhookEndpoint.findOne).mockResolvedValue(endpoint({ isActive: false }));
+    jest.mocked(WebhookDelivery.findOne).mockResolvedValue(delivery(1));
+
+    await expect(service.replayDelivery(endpointId, delivery(1).deliveryId, actor))
+      .resolves.toMatchObject({ success: false, code: 'ENDPOINT_DISABLED' });
+    expect(WebhookDelivery.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,24 @@
+// Configuration the app validates on import; nothing here reaches a real service
+process.env['NODE_ENV'] = 'test';
+process.env['MONGODB_URI'] = 'mongodb://127.0.0.1:27017/chainweave-ai-test';
+process.env['MONGODB_TEST_URI'] = 'mongodb://127.0.0.1:27017/chainweave-ai-test';
+process.env['JWT_SECRET'] = 'test-jwt-secret';
+process.env['JWT_REFRESH_SECRET'] = 'test-jwt-refresh-secret';
+process.env['GEMINI_API_KEY'] = 'test-gemini-key';
+process.env['PINATA_API_KEY'] = 'test-pinata-key';
+process.env['PINATA_API_SECRET'] = 'test-pinata-secret';
+process.env['ZETACHAIN_RPC_URL'] = 'http://127.0.0.1:8545';
+process.env['CHAINWEAVE_CONTRACT_ADDRESS'] = '0x0000000000000000000000000000000000000001';
+process.env['BACKEND_PRIVATE_KEY'] = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+
+// Keep test output quiet and out of the log files
+jest.mock('@/utils/logger', () => {
+  const silent = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+  return {
+    logger: silent,
+    httpLogger: silent,
+    performanceLogger: silent,
+    blockchainLogger: silent,
+    aiLogger: silent,
+  };
+});
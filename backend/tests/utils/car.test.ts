@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import { buildDirectoryCar, cidToString, verifyCar } from '@/utils/car';
+
+// Spans three 256 KiB chunks, the last one partial
+const largeFile = Buffer.from(Array.from({ length: 262144 * 2 + 100 }, (_, i) => i % 251));
+
+describe('buildDirectoryCar', () => {
+  it('stores single-chunk files as raw leaves with their well-known CIDs', () => {
+    const { entries } = buildDirectoryCar([
+      { name: 'hello.txt', content: Buffer.from('hello world') },
+      { name: 'empty', content: Buffer.alloc(0) },
+    ]);
+
+    expect(entries).toEqual({
+      'hello.txt': 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e',
+      empty: 'bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku',
+    });
+  });
+
+  it('chunks large files under a balanced dag-pb node', () => {
+    const { entries, blockCount } = buildDirectoryCar([{ name: 'big.bin', content: largeFile }]);
+
+    expect(entries['big.bin']).toBe('bafybeicmzf22samzthl4zsngndgudpeosnuowdzpud65c7w7yj2qivo4ky');
+    // Three leaves, the file node and the directory
+    expect(blockCount).toBe(5);
+  });
+
+  it('derives the directory CID from its sorted entries', () => {
+    const files = [
+      { name: 'big.bin', content: largeFile },
+      { name: '2', content: Buffer.from('{"name":"Token 2"}') },
+      { name: '1', content: Buffer.from('{"name":"Token 1"}') },
+    ];
+
+    const directory = buildDirectoryCar(files);
+
+    expect(directory.rootCid).toBe('bafybeiepvwpcmezkh5npdqqg26tcephvaiput7253cmoku3uh7xcr3sm7m');
+    expect(directory.dagSize).toBe(524725);
+    expect(buildDirectoryCar([...files].reverse()).rootCid).toBe(directory.rootCid);
+  });
+
+  it('writes a CARv1 header naming the root, then the root block', () => {
+    const { car, rootCid } = buildDirectoryCar([{ name: 'hello.txt', content: Buffer.from('hello world') }]);
+
+    // varint length, then dag-cbor { roots: [CID], version: 1 }
+    const header = car.subarray(1, 1 + car[0]!);
+    expect(header.subarray(0, 7)).toEqual(Buffer.from([0xa2, 0x65, ...Buffer.from('roots')]));
+    expect(header.subarray(7, 12)).toEqual(Buffer.from([0x81, 0xd8, 0x2a, 0x58, 0x25]));
+    expect(cidToString(header.subarray(13, 49))).toBe(rootCid);
+    expect(header.subarray(49)).toEqual(Buffer.from([0x67, ...Buffer.from('version'), 0x01]));
+
+    const firstBlock = car.subarray(2 + car[0]!, 2 + car[0]! + 36);
+    expect(cidToString(firstBlock)).toBe(rootCid);
+  });
+
+  it('rejects empty directories and unusable or repeated names', () => {
+    const content = Buffer.from('x');
+
+    expect(() => buildDirectoryCar([])).toThrow('A directory needs at least one file');
+    expect(() => buildDirectoryCar([{ name: 'a/b', content }])).toThrow('Invalid file name: a/b');
+    expect(() => buildDirectoryCar([{ name: '1.json', content }, { name: '1.json', content }]))
+      .toThrow('Duplicate file name: 1.json');
+  });
+});
+
+describe('verifyCar', () => {
+  const directory = buildDirectoryCar([
+    { name: 'hello.txt', content: Buffer.from('hello world') },
+    { name: 'big.bin', content: largeFile },
+  ]);
+
+  it('accepts a complete archive', () => {
+    expect(verifyCar(directory.car, directory.rootCid)).toEqual({ blockCount: directory.blockCount });
+  });
+
+  it('rejects another root', () => {
+    expect(() => verifyCar(directory.car, 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e'))
+      .toThrow(`CAR root ${directory.rootCid} does not match`);
+  });
+
+  it('rejects a block whose data was changed', () => {
+    const tampered = Buffer.from(directory.car);
+    tampered.writeUInt8(tampered.readUInt8(tampered.length - 1) ^ 0xff, tampered.length - 1);
+
+    expect(() => verifyCar(tampered, directory.rootCid)).toThrow('does not match its hash');
+  });
+
+  it('rejects an archive with a linked block left out', () => {
+    // The last block is the first chunk of big.bin, 262144 bytes plus its length and CID
+    const leaf = crypto.createHash('sha256').update(largeFile.subarray(0, 262144)).digest();
+    const truncated = directory.car.subarray(0, directory.car.length - (262144 + 36 + 3));
+
+    expect(directory.car.subarray(directory.car.length - 262144 - 32, directory.car.length - 262144)).toEqual(leaf);
+    expect(() => verifyCar(truncated, directory.rootCid)).toThrow('CAR is missing block');
+  });
+});
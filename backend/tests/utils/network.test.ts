@@ -0,0 +1,93 @@
+import dns from 'dns';
+import { isPublicAddress, isPublicHostname, publicLookup, resolvesToPublicHost } from '@/utils/network';
+
+type LookupCallback = (error: NodeJS.ErrnoException | null, addresses: dns.LookupAddress[]) => void;
+
+// Answer DNS lookups with fixed addresses
+const resolveTo = (...addresses: string[]) => {
+  const records = addresses.map(address => ({ address, family: address.includes(':') ? 6 : 4 }));
+  jest.spyOn(dns.promises, 'lookup').mockResolvedValue(records as never);
+  jest.spyOn(dns, 'lookup').mockImplementation(((_hostname: string, _options: unknown, callback: LookupCallback) => {
+    callback(null, records);
+  }) as never);
+};
+
+const lookup = (hostname: string, options: dns.LookupOptions) => new Promise<unknown[]>(resolve => {
+  publicLookup(hostname, options, (...result) => resolve(result));
+});
+
+describe('isPublicAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.0.0.1',
+    '172.16.5.4',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::1',
+    '::',
+    'fd00::1',
+    'fe80::1',
+    '::ffff:127.0.0.1',
+    '::ffff:7f00:1',
+  ])('rejects %s', address => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it.each(['93.184.216.34', '8.8.8.8', '2606:4700::1111', '::ffff:8.8.8.8'])('accepts %s', address => {
+    expect(isPublicAddress(address)).toBe(true);
+  });
+});
+
+describe('isPublicHostname', () => {
+  it('accepts DNS names but not IP literals or names for this machine', () => {
+    expect(isPublicHostname('hooks.example.com')).toBe(true);
+    expect(isPublicHostname('93.184.216.34')).toBe(false);
+    expect(isPublicHostname('[::1]')).toBe(false);
+    expect(isPublicHostname('localhost')).toBe(false);
+    expect(isPublicHostname('api.localhost.')).toBe(false);
+  });
+});
+
+describe('resolvesToPublicHost', () => {
+  it('accepts a host whose every address is public', async () => {
+    resolveTo('93.184.216.34', '2606:4700::1111');
+
+    await expect(resolvesToPublicHost('https://hooks.example.com/chainweave')).resolves.toBe(true);
+  });
+
+  it('rejects a host with any private address, and hosts that do not resolve', async () => {
+    resolveTo('93.184.216.34', '10.0.0.7');
+    await expect(resolvesToPublicHost('https://hooks.example.com')).resolves.toBe(false);
+
+    jest.spyOn(dns.promises, 'lookup').mockRejectedValue(Object.assign(new Error('not found'), { code: 'ENOTFOUND' }));
+    await expect(resolvesToPublicHost('https://missing.example.com')).resolves.toBe(false);
+  });
+
+  it('rejects IP literals without resolving them', async () => {
+    const resolve = jest.spyOn(dns.promises, 'lookup');
+
+    await expect(resolvesToPublicHost('https://10.0.0.1/hook')).resolves.toBe(false);
+    await expect(resolvesToPublicHost('not a url')).resolves.toBe(false);
+    expect(resolve).not.toHaveBeenCalled();
+  });
+});
+
+describe('publicLookup', () => {
+  it('answers in the form the caller asked for', async () => {
+    resolveTo('93.184.216.34');
+
+    await expect(lookup('hooks.example.com', {})).resolves.toEqual([null, '93.184.216.34', 4]);
+    await expect(lookup('hooks.example.com', { all: true }))
+      .resolves.toEqual([null, [{ address: '93.184.216.34', family: 4 }]]);
+  });
+
+  it('refuses a name that resolves to a private address', async () => {
+    resolveTo('169.254.169.254');
+
+    const [error] = await lookup('metadata.example.com', {});
+
+    expect(error).toMatchObject({ code: 'EADDRNOTPUBLIC', message: 'metadata.example.com does not resolve to a public address' });
+  });
+});
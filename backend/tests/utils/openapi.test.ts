@@ -0,0 +1,130 @@
+import { NextFunction, Request, RequestHandler, Response, Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { buildOpenApiDocument, OpenApiDocument } from '@/utils/openapi';
+
+const pass: RequestHandler = (_req: Request, _res: Response, next: NextFunction) => next();
+const authenticate: RequestHandler = (_req, _res, next) => next();
+const optionalAuth: RequestHandler = (_req, _res, next) => next();
+const requireAdmin: RequestHandler = (_req, _res, next) => next();
+const upload: RequestHandler = (_req, _res, next) => next();
+
+// Named like the bound controller methods the real routes use
+const handler = (name: string): RequestHandler => {
+  const method: RequestHandler = (_req, res) => {
+    res.end();
+  };
+  return Object.defineProperty(method, 'name', { value: `bound ${name}` });
+};
+
+const build = (routers: Array<[string, Router]>): OpenApiDocument => buildOpenApiDocument({
+  title: 'Test API',
+  version: '1.0.0',
+  serverUrl: '/api/v1',
+  routers,
+  middleware: {
+    authenticated: [authenticate],
+    optionallyAuthenticated: [optionalAuth],
+    describeAccess: guard => guard === requireAdmin ? 'the admin role' : undefined,
+    uploads: [{ handler: upload, fields: ['referenceImage'] }],
+  },
+});
+
+describe('buildOpenApiDocument', () => {
+  const nft = Router();
+  nft.get(
+    '/:requestId',
+    optionalAuth,
+    [param('requestId').matches(/^[a-f0-9]{64}$/).withMessage('Invalid request ID')],
+    pass,
+    handler('getNFT')
+  );
+  nft.get(
+    '/',
+    [
+      query('page').optional().isInt({ min: 1 }).toInt(),
+      query('sort').optional().isIn(['newest', 'popular']),
+    ],
+    pass,
+    handler('listNFTs')
+  );
+
+  const ai = Router();
+  ai.post(
+    '/generate',
+    authenticate,
+    upload,
+    [
+      body('prompt').isString().isLength({ min: 10, max: 500 }).withMessage('Prompt must be 10-500 characters'),
+      body('attributes').optional().isArray({ max: 10 }),
+      body('attributes.*.trait_type').isString().notEmpty(),
+      body('attributes.*.value').optional(),
+      body('destinationChain').isIn(['ethereum', 'polygon']),
+    ],
+    pass,
+    handler('generateNFT')
+  );
+
+  const admin = Router();
+  admin.get('/users', requireAdmin, handler('getUsers'));
+  admin.get('/stats', requireAdmin, handler('getStats'));
+  nft.get('/stats/summary', handler('getStats'));
+
+  const document = build([['/nft', nft], ['/ai', ai], ['/admin', admin]]);
+
+  it('documents path and query parameters from validation chains', () => {
+    expect(document.paths['/nft/{requestId}']!['get']!.parameters).toEqual([
+      {
+        name: 'requestId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string', pattern: '^[a-f0-9]{64}$' },
+        description: 'Invalid request ID',
+      },
+    ]);
+    expect(document.paths['/nft']!['get']!.parameters).toEqual([
+      { name: 'page', in: 'query', required: false, schema: { type: 'integer', minimum: 1 } },
+      { name: 'sort', in: 'query', required: false, schema: { enum: ['newest', 'popular'] } },
+    ]);
+  });
+
+  it('nests wildcard body fields and adds upload fields to the multipart body', () => {
+    const { requestBody } = document.paths['/ai/generate']!['post']!;
+    const schema = requestBody!.content['application/json']!.schema;
+
+    expect(requestBody!.required).toBe(true);
+    expect(schema.required).toEqual(['prompt', 'destinationChain']);
+    expect(schema.properties!['prompt']).toEqual({
+      type: 'string',
+      minLength: 10,
+      maxLength: 500,
+      description: 'Prompt must be 10-500 characters',
+    });
+    expect(schema.properties!['attributes']).toMatchObject({
+      type: 'array',
+      items: { type: 'object', required: ['trait_type'], properties: { trait_type: { type: 'string', minLength: 1 } } },
+    });
+    expect(requestBody!.content['multipart/form-data']!.schema.properties!['referenceImage'])
+      .toEqual({ type: 'string', format: 'binary' });
+  });
+
+  it('marks authentication, optional authentication and guarded access', () => {
+    const generate = document.paths['/ai/generate']!['post']!;
+    const users = document.paths['/admin/users']!['get']!;
+
+    expect(generate.security).toEqual([{ bearerAuth: [] }]);
+    expect(generate.responses).toHaveProperty('401');
+    expect(generate.responses).not.toHaveProperty('403');
+    expect(document.paths['/nft/{requestId}']!['get']!.security).toEqual([{}, { bearerAuth: [] }]);
+    expect(users.security).toEqual([{ bearerAuth: [] }]);
+    expect(users.responses['403']!.description).toBe('Requires the admin role');
+    expect(document.paths['/nft']!['get']!.security).toBeUndefined();
+  });
+
+  it('names operations after their handlers, prefixing the tag when a name repeats', () => {
+    expect(document.paths['/nft/{requestId}']!['get']!.operationId).toBe('getNFT');
+    expect(document.paths['/nft/{requestId}']!['get']!.summary).toBe('Get nft');
+    expect(document.paths['/admin/stats']!['get']!.operationId).toBe('adminGetStats');
+    expect(document.paths['/nft/stats/summary']!['get']!.operationId).toBe('nftGetStats');
+    expect(document.tags).toEqual([{ name: 'nft' }, { name: 'ai' }, { name: 'admin' }]);
+  });
+});
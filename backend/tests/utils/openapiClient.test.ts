@@ -0,0 +1,103 @@
+import { OpenApiDocument } from '@/utils/openapi';
+import { generateApiClient } from '@/utils/openapiClient';
+
+const document: OpenApiDocument = {
+  openapi: '3.0.3',
+  info: { title: 'Test API', version: '2.0.0' },
+  servers: [{ url: '/api/v1' }],
+  tags: [{ name: 'nft' }, { name: 'user-settings' }],
+  paths: {
+    '/nft/{requestId}/like': {
+      post: {
+        operationId: 'toggleLike',
+        summary: 'Toggle like',
+        tags: ['nft'],
+        parameters: [{ name: 'requestId', in: 'path', required: true, schema: { type: 'string' } }],
+        requestBody: {
+          required: false,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: { liked: { type: 'boolean', description: 'Like or unlike' } },
+              },
+            },
+          },
+        },
+        responses: { '2XX': { description: 'Success' } },
+      },
+    },
+    '/user-settings': {
+      get: {
+        operationId: 'getSettings',
+        summary: 'Get settings',
+        tags: ['user-settings'],
+        parameters: [
+          { name: 'page', in: 'query', required: false, schema: { type: 'integer' } },
+          { name: 'sort-by', in: 'query', required: true, schema: { enum: ['newest', 'oldest'] } },
+        ],
+        responses: { '200': { description: 'Success' } },
+      },
+    },
+    '/nft/upload': {
+      post: {
+        operationId: 'uploadImage',
+        summary: 'Upload image',
+        tags: ['nft'],
+        requestBody: {
+          required: true,
+          content: {
+            'multipart/form-data': {
+              schema: {
+                type: 'object',
+                required: ['image'],
+                properties: { image: { type: 'string', format: 'binary' } },
+              },
+            },
+          },
+        },
+        responses: { '2XX': { description: 'Success' } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      ApiResponse: { type: 'object' },
+      Pagination: { type: 'object', required: ['currentPage'], properties: { currentPage: { type: 'integer' } } },
+    },
+    securitySchemes: {},
+  },
+};
+
+describe('generateApiClient', () => {
+  const client = generateApiClient(document, 'the test');
+
+  it('names the document and the command that generated it', () => {
+    expect(client.startsWith('// Generated from the Test API OpenAPI document (v2.0.0) by the test.\n')).toBe(true);
+    expect(client).toContain('const baseUrl = options.baseUrl ?? "/api/v1"');
+  });
+
+  it('declares component schemas except the envelope, and request body and query types', () => {
+    expect(client).toContain('export interface Pagination {\n  currentPage: number\n}');
+    expect(client).not.toContain('export interface ApiResponse {');
+    expect(client).toContain('export interface ToggleLikeBody {\n  /** Like or unlike */\n  liked?: boolean\n}');
+    expect(client).toContain('export interface GetSettingsQuery {\n  page?: number\n  "sort-by": "newest" | "oldest"\n}');
+    expect(client).toContain('export interface UploadImageBody {\n  image: Blob\n}');
+  });
+
+  it('groups methods by tag, with path parameters, optional bodies and required queries', () => {
+    expect(client).toContain([
+      '    nft: {',
+      '      /** Toggle like (POST /nft/{requestId}/like) */',
+      '      toggleLike: (requestId: string | number, body?: ToggleLikeBody) =>',
+      '        request("POST", `/nft/${encodeURIComponent(requestId)}/like`, { body }),',
+    ].join('\n'));
+    expect(client).toContain('      uploadImage: (body: UploadImageBody | FormData) =>');
+    expect(client).toContain([
+      '    userSettings: {',
+      '      /** Get settings (GET /user-settings) */',
+      '      getSettings: (query: GetSettingsQuery) =>',
+      '        request("GET", `/user-settings`, { query }),',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,53 @@
+import sharp from 'sharp';
+import { computePerceptualHash, hammingDistance, hashBands } from '@/utils/perceptualHash';
+
+// Deterministic test image: a gradient with a dark block in one corner
+const renderImage = (size: number, corner: 'left' | 'right'): Promise<Buffer> => {
+  const pixels = Buffer.alloc(size * size * 3);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const inBlock = y < size / 2 && (corner === 'left' ? x < size / 2 : x >= size / 2);
+      const value = inBlock ? 20 : Math.round((x + y) / (2 * size) * 255);
+      pixels.fill(value, (y * size + x) * 3, (y * size + x) * 3 + 3);
+    }
+  }
+
+  return sharp(pixels, { raw: { width: size, height: size, channels: 3 } }).png().toBuffer();
+};
+
+describe('computePerceptualHash', () => {
+  it('barely changes when an image is resized and re-encoded', async () => {
+    const image = await renderImage(256, 'left');
+    const original = await computePerceptualHash(image);
+    const reencoded = await computePerceptualHash(await sharp(image).resize(128).jpeg({ quality: 70 }).toBuffer());
+
+    expect(original).toMatch(/^[0-9a-f]{16}$/);
+    expect(hammingDistance(original, reencoded)).toBeLessThanOrEqual(4);
+  });
+
+  it('tells different images apart', async () => {
+    const left = await computePerceptualHash(await renderImage(256, 'left'));
+    const right = await computePerceptualHash(await renderImage(256, 'right'));
+
+    expect(hammingDistance(left, right)).toBeGreaterThan(10);
+  });
+
+  it('rejects data that is not an image', async () => {
+    await expect(computePerceptualHash(Buffer.from('not an image'))).rejects.toThrow();
+  });
+});
+
+describe('hammingDistance', () => {
+  it('counts differing bits, and missing characters as four bits each', () => {
+    expect(hammingDistance('00ff', '00ff')).toBe(0);
+    expect(hammingDistance('0000', '000f')).toBe(4);
+    expect(hammingDistance('0000', '0001')).toBe(1);
+    expect(hammingDistance('00', '0000')).toBe(8);
+  });
+});
+
+describe('hashBands', () => {
+  it('splits a hash into eight indexed bands', () => {
+    expect(hashBands('0123456789abcdef')).toEqual(['0:01', '1:23', '2:45', '3:67', '4:89', '5:ab', '6:cd', '7:ef']);
+  });
+});
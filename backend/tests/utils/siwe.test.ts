@@ -0,0 +1,73 @@
+import { ethers } from 'ethers';
+import { buildSiweMessage, parseSiweMessage, SiweMessageFields, validateSiweMessage } from '@/utils/siwe';
+
+// Mixed case, so the checksum matters
+const address = ethers.getAddress(`0x${'ab'.repeat(20)}`);
+
+const fields: SiweMessageFields = {
+  domain: 'app.chainweave.ai',
+  address,
+  statement: 'Sign in to ChainWeave AI to authenticate your wallet.',
+  uri: 'https://app.chainweave.ai',
+  version: '1',
+  chainId: 7001,
+  nonce: 'a1b2c3d4e5f60718',
+  issuedAt: '2026-01-01T00:00:00.000Z',
+  expirationTime: '2026-01-01T00:05:00.000Z',
+};
+
+const options = {
+  domains: ['app.chainweave.ai'],
+  uri: 'https://app.chainweave.ai',
+  chainIds: [7001],
+  address,
+  now: new Date('2026-01-01T00:01:00.000Z'),
+};
+
+describe('SIWE messages', () => {
+  it('builds the EIP-4361 layout', () => {
+    expect(buildSiweMessage(fields)).toBe([
+      'app.chainweave.ai wants you to sign in with your Ethereum account:',
+      address,
+      '',
+      'Sign in to ChainWeave AI to authenticate your wallet.',
+      '',
+      'URI: https://app.chainweave.ai',
+      'Version: 1',
+      'Chain ID: 7001',
+      'Nonce: a1b2c3d4e5f60718',
+      'Issued At: 2026-01-01T00:00:00.000Z',
+      'Expiration Time: 2026-01-01T00:05:00.000Z',
+    ].join('\n'));
+  });
+
+  it('parses what it builds', () => {
+    const withResources = { ...fields, requestId: 'req-1', resources: ['ipfs://QmResource'] };
+
+    expect(parseSiweMessage(buildSiweMessage(withResources))).toEqual(withResources);
+  });
+
+  it('rejects messages that break the grammar', () => {
+    const message = buildSiweMessage(fields);
+
+    expect(parseSiweMessage(message.replace(address, address.toLowerCase()))).toBeNull();
+    expect(parseSiweMessage(message.replace('Version: 1', 'Version: 2'))).toBeNull();
+    expect(parseSiweMessage(message.replace('Nonce: a1b2c3d4e5f60718', 'Nonce: short'))).toBeNull();
+    expect(parseSiweMessage(`${message}\nExtra: field`)).toBeNull();
+  });
+
+  it('accepts a message that matches the server', () => {
+    expect(validateSiweMessage(fields, options)).toEqual({ isValid: true });
+  });
+
+  it.each([
+    ['an unknown domain', { domain: 'evil.example' }, 'Domain evil.example is not allowed'],
+    ['another address', { address: '0x5555555555555555555555555555555555555555' }, 'Message address does not match wallet address'],
+    ['another URI', { uri: 'https://evil.example' }, 'Message URI does not match'],
+    ['an unsupported chain', { chainId: 1 }, 'Chain 1 is not supported for sign-in'],
+    ['an expired message', { expirationTime: '2026-01-01T00:00:30.000Z' }, 'Message has expired'],
+    ['a future issuedAt', { issuedAt: '2026-01-01T01:00:00.000Z' }, 'Invalid issuedAt timestamp'],
+  ])('rejects %s', (_case, changes, error) => {
+    expect(validateSiweMessage({ ...fields, ...changes }, options)).toEqual({ isValid: false, error });
+  });
+});
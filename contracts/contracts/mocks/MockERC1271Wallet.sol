@@ -0,0 +1,57 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.26;
+
+import "@openzeppelin/contracts/interfaces/IERC1271.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+
+/**
+ * @title MockERC1271Wallet
+ * @notice Minimal smart contract wallet for testing EIP-1271 signature checks
+ * @dev Accepts any signature produced by its owner key
+ */
+contract MockERC1271Wallet is IERC1271 {
+    bytes4 internal constant MAGIC_VALUE = 0x1626ba7e;
+    bytes4 internal constant INVALID_VALUE = 0xffffffff;
+
+    address public immutable owner;
+
+    constructor(address _owner) {
+        owner = _owner;
+    }
+
+    function isValidSignature(
+        bytes32 hash,
+        bytes calldata signature
+    ) external view override returns (bytes4) {
+        (address signer, ECDSA.RecoverError error, ) = ECDSA.tryRecover(hash, signature);
+
+        if (error == ECDSA.RecoverError.NoError && signer == owner) {
+            return MAGIC_VALUE;
+        }
+
+        return INVALID_VALUE;
+    }
+}
+
+/**
+ * @title MockERC1271WalletFactory
+ * @notice CREATE2 factory for counterfactual (ERC-6492) wallet tests
+ */
+contract MockERC1271WalletFactory {
+    event WalletDeployed(address wallet, address owner, bytes32 salt);
+
+    function deploy(address _owner, bytes32 _salt) external returns (address wallet) {
+        wallet = address(new MockERC1271Wallet{salt: _salt}(_owner));
+        emit WalletDeployed(wallet, _owner, _salt);
+    }
+
+    function computeAddress(address _owner, bytes32 _salt) external view returns (address) {
+        bytes32 bytecodeHash = keccak256(
+            abi.encodePacked(type(MockERC1271Wallet).creationCode, abi.encode(_owner))
+        );
+
+        return address(uint160(uint256(keccak256(
+            abi.encodePacked(bytes1(0xff), address(this), _salt, bytecodeHash)
+        ))));
+    }
+}
@@ -0,0 +1,84 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { loadFixture } = require("@nomicfoundation/hardhat-network-helpers");
+
+const { hashMessage, formatBytes32String } = ethers.utils;
+
+const MAGIC_VALUE = "0x1626ba7e";
+const INVALID_VALUE = "0xffffffff";
+
+describe("MockERC1271Wallet - Contract Wallet Signatures", function () {
+  async function deployWalletFixture() {
+    const [owner, stranger] = await ethers.getSigners();
+
+    const MockERC1271Wallet = await ethers.getContractFactory("MockERC1271Wallet");
+    const wallet = await MockERC1271Wallet.deploy(owner.address);
+    await wallet.deployed();
+
+    const MockERC1271WalletFactory = await ethers.getContractFactory("MockERC1271WalletFactory");
+    const factory = await MockERC1271WalletFactory.deploy();
+    await factory.deployed();
+
+    return { wallet, factory, owner, stranger };
+  }
+
+  describe("EIP-1271", function () {
+    it("Should accept a personal_sign signature from the owner", async function () {
+      const { wallet, owner } = await loadFixture(deployWalletFixture);
+      const message = "Sign in to ChainWeave";
+      const signature = await owner.signMessage(message);
+
+      expect(await wallet.isValidSignature(hashMessage(message), signature)).to.equal(MAGIC_VALUE);
+    });
+
+    it("Should reject a signature from another account", async function () {
+      const { wallet, stranger } = await loadFixture(deployWalletFixture);
+      const message = "Sign in to ChainWeave";
+      const signature = await stranger.signMessage(message);
+
+      expect(await wallet.isValidSignature(hashMessage(message), signature)).to.equal(INVALID_VALUE);
+    });
+
+    it("Should reject a signature over a different message", async function () {
+      const { wallet, owner } = await loadFixture(deployWalletFixture);
+      const signature = await owner.signMessage("Sign in to ChainWeave");
+
+      expect(await wallet.isValidSignature(hashMessage("Something else"), signature)).to.equal(INVALID_VALUE);
+    });
+
+    it("Should reject malformed signatures without reverting", async function () {
+      const { wallet } = await loadFixture(deployWalletFixture);
+
+      expect(await wallet.isValidSignature(hashMessage("Sign in"), "0x1234")).to.equal(INVALID_VALUE);
+    });
+  });
+
+  describe("Counterfactual deployment (ERC-6492)", function () {
+    it("Should deploy the wallet at the predicted address", async function () {
+      const { factory, owner } = await loadFixture(deployWalletFixture);
+      const salt = formatBytes32String("chainweave");
+
+      const predicted = await factory.computeAddress(owner.address, salt);
+      expect(await ethers.provider.getCode(predicted)).to.equal("0x");
+
+      await expect(factory.deploy(owner.address, salt))
+        .to.emit(factory, "WalletDeployed")
+        .withArgs(predicted, owner.address, salt);
+
+      expect(await ethers.provider.getCode(predicted)).to.not.equal("0x");
+    });
+
+    it("Should validate owner signatures once deployed", async function () {
+      const { factory, owner } = await loadFixture(deployWalletFixture);
+      const salt = formatBytes32String("chainweave");
+      const message = "Sign in to ChainWeave";
+      const signature = await owner.signMessage(message);
+
+      const predicted = await factory.computeAddress(owner.address, salt);
+      await factory.deploy(owner.address, salt);
+
+      const wallet = await ethers.getContractAt("MockERC1271Wallet", predicted);
+      expect(await wallet.isValidSignature(hashMessage(message), signature)).to.equal(MAGIC_VALUE);
+    });
+  });
+});
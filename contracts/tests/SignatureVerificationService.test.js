@@ -0,0 +1,135 @@
+const path = require("path");
+const { expect } = require("chai");
+const { ethers, network } = require("hardhat");
+const { loadFixture } = require("@nomicfoundation/hardhat-network-helpers");
+
+const { defaultAbiCoder, formatBytes32String, hexConcat } = ethers.utils;
+
+const backendDir = path.join(__dirname, "..", "..", "backend");
+const message = "Sign in to ChainWeave AI";
+
+// Resolve a package the way the backend does, so the service gets its own ethers
+const fromBackend = (name) => require(require.resolve(name, { paths: [backendDir] }));
+
+/**
+ * Load the backend's SignatureVerificationService from source, with the
+ * configuration it validates on import (see backend/tests/setup.ts)
+ */
+function loadService() {
+  Object.assign(process.env, {
+    BACKEND_PRIVATE_KEY: "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+    CHAINWEAVE_CONTRACT_ADDRESS: "0x0000000000000000000000000000000000000001",
+    GEMINI_API_KEY: "test-gemini-key",
+    JWT_REFRESH_SECRET: "test-jwt-refresh-secret",
+    JWT_SECRET: "test-jwt-secret",
+    LOG_LEVEL: "error",
+    MONGODB_URI: "mongodb://127.0.0.1:27017/chainweave-ai-test",
+    MONGODB_TEST_URI: "mongodb://127.0.0.1:27017/chainweave-ai-test",
+    NODE_ENV: "test",
+    PINATA_API_KEY: "test-pinata-key",
+    PINATA_API_SECRET: "test-pinata-secret",
+    ZETACHAIN_RPC_URL: "http://127.0.0.1:8545",
+  });
+
+  fromBackend("ts-node").register({
+    project: path.join(backendDir, "tsconfig.json"),
+    scope: true,
+    scopeDir: backendDir,
+    transpileOnly: true,
+  });
+  fromBackend("tsconfig-paths").register({
+    baseUrl: path.join(backendDir, "src"),
+    paths: { "@/*": ["*"] },
+  });
+
+  return require(path.join(backendDir, "src", "services", "SignatureVerificationService"));
+}
+
+describe("SignatureVerificationService - Contract Wallets on Hardhat", function () {
+  let backend;
+
+  before(function () {
+    backend = loadService();
+  });
+
+  async function deployWalletFixture() {
+    const [owner, stranger] = await ethers.getSigners();
+    const { chainId } = await ethers.provider.getNetwork();
+
+    const MockERC1271Wallet = await ethers.getContractFactory("MockERC1271Wallet");
+    const wallet = await MockERC1271Wallet.deploy(owner.address);
+    await wallet.deployed();
+
+    const MockERC1271WalletFactory = await ethers.getContractFactory("MockERC1271WalletFactory");
+    const factory = await MockERC1271WalletFactory.deploy();
+    await factory.deployed();
+
+    // The service talks to the in-process Hardhat network through its own provider
+    const service = new backend.SignatureVerificationService();
+    service.setProvider(chainId, new (fromBackend("ethers").BrowserProvider)(network.provider));
+
+    return { chainId, factory, owner, service, stranger, wallet };
+  }
+
+  // Wrap a signature for a wallet the factory has not deployed yet (ERC-6492)
+  async function counterfactualSignature(factory, owner, signer) {
+    const salt = formatBytes32String("chainweave");
+    const predicted = await factory.computeAddress(owner.address, salt);
+    const factoryCalldata = factory.interface.encodeFunctionData("deploy", [owner.address, salt]);
+    const signature = await signer.signMessage(message);
+
+    return {
+      predicted,
+      signature: hexConcat([
+        defaultAbiCoder.encode(["address", "bytes", "bytes"], [factory.address, factoryCalldata, signature]),
+        backend.ERC6492_MAGIC_SUFFIX,
+      ]),
+    };
+  }
+
+  describe("EIP-1271", function () {
+    it("Should accept the owner's signature for a deployed wallet", async function () {
+      const { chainId, owner, service, wallet } = await loadFixture(deployWalletFixture);
+      const signature = await owner.signMessage(message);
+
+      expect(await service.verifyMessage(wallet.address, message, signature, chainId)).to.deep.equal({
+        isValid: true,
+        type: "erc1271",
+      });
+    });
+
+    it("Should reject a signature from an account that does not own the wallet", async function () {
+      const { chainId, service, stranger, wallet } = await loadFixture(deployWalletFixture);
+      const signature = await stranger.signMessage(message);
+
+      expect(await service.verifyMessage(wallet.address, message, signature, chainId)).to.deep.equal({
+        error: "Invalid contract wallet signature",
+        isValid: false,
+      });
+    });
+  });
+
+  describe("ERC-6492", function () {
+    it("Should accept the owner's wrapped signature without deploying the wallet", async function () {
+      const { chainId, factory, owner, service } = await loadFixture(deployWalletFixture);
+      const { predicted, signature } = await counterfactualSignature(factory, owner, owner);
+
+      expect(await service.verifyMessage(predicted, message, signature, chainId)).to.deep.equal({
+        isValid: true,
+        type: "erc6492",
+      });
+      // The validator runs in a deployless call, so nothing is left on chain
+      expect(await ethers.provider.getCode(predicted)).to.equal("0x");
+    });
+
+    it("Should reject a wrapped signature from an account that does not own the wallet", async function () {
+      const { chainId, factory, owner, service, stranger } = await loadFixture(deployWalletFixture);
+      const { predicted, signature } = await counterfactualSignature(factory, owner, stranger);
+
+      expect(await service.verifyMessage(predicted, message, signature, chainId)).to.deep.equal({
+        error: "Invalid counterfactual wallet signature",
+        isValid: false,
+      });
+    });
+  });
+});
@@ -20,6 +20,8 @@ import {
   DropdownMenuItem, 
   DropdownMenuTrigger 
 } from "@/components/ui/dropdown-menu"
+import { useEventStream, StreamEvent, RequestStatusEvent, ChainEvent } from "@/hooks/use-event-stream"
+import { getChainName } from "@/lib/utils"
 
 const activityData = [
   {
@@ -213,11 +215,68 @@ const recentNotifications = [
   }
 ]
 
+type ActivityEntry = typeof activityData[number]
+type NotificationEntry = typeof recentNotifications[number]
+
+const REQUEST_STATUS_LABELS: Record<string, string> = {
+  pending: "queued",
+  processing: "is being generated",
+  awaiting_selection: "is waiting for you to pick a variant",
+  under_review: "is being reviewed",
+  ai_completed: "artwork generated",
+  cross_chain_pending: "is minting cross-chain",
+  completed: "minted",
+  failed: "failed",
+  cancelled: "cancelled",
+  rejected: "was rejected in review",
+}
+
+const shortId = (requestId: string) => `${requestId.slice(0, 8)}...`
+
+const requestStatusToActivity = ({ data, timestamp }: StreamEvent<RequestStatusEvent>): ActivityEntry => ({
+  id: Date.parse(timestamp),
+  type: data.status === "completed" ? "mint" : "view",
+  title: `Request ${shortId(data.requestId)} ${REQUEST_STATUS_LABELS[data.status] || data.status}`,
+  description: data.errorMessage || `Status changed from ${data.previousStatus} to ${data.status}`,
+  timestamp: "Just now",
+  value: data.status === "completed" ? "+1 NFT" : "Update",
+  trend: data.status === "failed" ? "down" : "neutral",
+  nft: data.requestId,
+  chain: getChainName(data.destinationChainId),
+})
+
+const chainEventToNotification = ({ data, timestamp }: StreamEvent<ChainEvent>): NotificationEntry => {
+  const messages: Record<ChainEvent["event"], string> = {
+    NFTMintRequested: `Mint request ${shortId(data.requestId)} confirmed on-chain`,
+    NFTMinted: `Token #${data.tokenId} minted for request ${shortId(data.requestId)}`,
+    NFTMintReverted: `Mint for request ${shortId(data.requestId)} reverted: ${data.reason}`,
+  }
+
+  return {
+    id: Date.parse(timestamp),
+    message: messages[data.event],
+    timestamp: "Just now",
+    read: false,
+  }
+}
+
 export function ActivityFeed() {
   const [filter, setFilter] = useState("all")
   const [timeRange, setTimeRange] = useState("7d")
+  const [activityList, setActivityList] = useState<ActivityEntry[]>(activityData)
+  const [notificationList, setNotificationList] = useState<NotificationEntry[]>(recentNotifications)
+
+  // Live request status transitions and on-chain events
+  useEventStream({
+    onRequestStatus: (event) => {
+      setActivityList(prev => [requestStatusToActivity(event), ...prev])
+    },
+    onChainEvent: (event) => {
+      setNotificationList(prev => [chainEventToNotification(event), ...prev])
+    },
+  })
 
-  const filteredActivity = activityData.filter(item => {
+  const filteredActivity = activityList.filter(item => {
     if (filter === "all") return true
     return item.type === filter
   })
@@ -355,7 +414,7 @@ export function ActivityFeed() {
         <TabsContent value="notifications" className="space-y-4">
           {/* Notifications List */}
           <div className="space-y-3">
-            {recentNotifications.map((notification, index) => (
+            {notificationList.map((notification, index) => (
               <motion.div
                 key={notification.id}
                 initial={{ opacity: 0, y: 20 }}
@@ -22,6 +22,7 @@ import {
 } from "@/components/ui/dialog"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useEventStream, NotificationEvent } from "@/hooks/use-event-stream"
 
 const notifications = [
   {
@@ -86,14 +87,42 @@ const notifications = [
   }
 ]
 
+type NotificationEntry = typeof notifications[number] & { live?: boolean }
+
+const streamNotificationStyles: Record<string, { icon: string; color: string }> = {
+  generation: { icon: "🎨", color: "bg-blue-500" },
+  mint: { icon: "✨", color: "bg-purple-500" },
+  failure: { icon: "⚠️", color: "bg-red-500" },
+  collection: { icon: "🗂️", color: "bg-emerald-500" },
+  system: { icon: "📊", color: "bg-orange-500" },
+}
+
+const toNotificationEntry = (notification: NotificationEvent): NotificationEntry => ({
+  id: Date.now(),
+  type: notification.type,
+  title: notification.title,
+  description: notification.message,
+  timestamp: "Just now",
+  read: notification.read,
+  live: true,
+  ...(streamNotificationStyles[notification.type] || streamNotificationStyles.system),
+})
+
 interface NotificationsDropdownProps {
   unreadCount?: number
 }
 
 export function NotificationsDropdown({ unreadCount = 3 }: NotificationsDropdownProps) {
-  const [notificationList, setNotificationList] = useState(notifications)
+  const [notificationList, setNotificationList] = useState<NotificationEntry[]>(notifications)
   const [isModalOpen, setIsModalOpen] = useState(false)
 
+  // New notifications are pushed by the backend as they are created
+  useEventStream({
+    onNotification: (event) => {
+      setNotificationList(prev => [toNotificationEntry(event.data), ...prev])
+    },
+  })
+
   const markAsRead = (id: number) => {
     setNotificationList(prev => 
       prev.map(notif => 
@@ -115,6 +144,7 @@ export function NotificationsDropdown({ unreadCount = 3 }: NotificationsDropdown
   const recentNotifications = notificationList.slice(0, 3)
   const unreadNotifications = notificationList.filter(n => !n.read)
   const readNotifications = notificationList.filter(n => n.read)
+  const badgeCount = unreadCount + notificationList.filter(n => n.live && !n.read).length
 
   return (
     <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
@@ -122,12 +152,12 @@ export function NotificationsDropdown({ unreadCount = 3 }: NotificationsDropdown
         <DropdownMenuTrigger asChild>
           <Button variant="ghost" size="icon" className="relative">
             <Bell className="w-5 h-5" />
-            {unreadCount > 0 && (
+            {badgeCount > 0 && (
               <Badge 
                 variant="destructive" 
                 className="absolute -top-1 -right-1 w-5 h-5 flex items-center justify-center p-0 text-xs"
               >
-                {unreadCount > 9 ? "9+" : unreadCount}
+                {badgeCount > 9 ? "9+" : badgeCount}
               </Badge>
             )}
           </Button>
@@ -282,7 +312,7 @@ export function NotificationsDropdown({ unreadCount = 3 }: NotificationsDropdown
 }
 
 interface NotificationItemProps {
-  notification: typeof notifications[0]
+  notification: NotificationEntry
   onMarkAsRead: () => void
   onDelete: () => void
 }
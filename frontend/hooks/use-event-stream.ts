@@ -0,0 +1,115 @@
+"use client"
+
+import * as React from "react"
+import { getAccessToken, refreshSession } from "@/lib/auth-session"
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000"
+const RECONNECT_DELAY_MS = 5000
+
+export type StreamEventType = "request.status" | "chain.event" | "notification"
+
+export interface StreamEvent<T = Record<string, unknown>> {
+  type: StreamEventType
+  data: T
+  timestamp: string
+}
+
+export interface RequestStatusEvent {
+  requestId: string
+  status: string
+  previousStatus: string
+  destinationChainId: number
+  errorMessage?: string
+}
+
+export interface ChainEvent {
+  event: "NFTMintRequested" | "NFTMinted" | "NFTMintReverted"
+  requestId: string
+  destinationChainId?: number
+  tokenId?: number
+  transactionHash?: string
+  reason?: string
+}
+
+export interface NotificationEvent {
+  id: string
+  type: string
+  title: string
+  message: string
+  actionUrl?: string
+  read: boolean
+  createdAt: string
+}
+
+interface EventStreamHandlers {
+  onRequestStatus?: (event: StreamEvent<RequestStatusEvent>) => void
+  onChainEvent?: (event: StreamEvent<ChainEvent>) => void
+  onNotification?: (event: StreamEvent<NotificationEvent>) => void
+}
+
+/**
+ * Subscribe to the backend's real-time stream for the signed-in wallet.
+ * Uses the access token stored by signIn (lib/auth-session) and reconnects
+ * with a refreshed one whenever the server closes the stream (for example
+ * when the token it was opened with expires).
+ */
+export function useEventStream(handlers: EventStreamHandlers) {
+  const [connected, setConnected] = React.useState(false)
+  const handlersRef = React.useRef(handlers)
+  handlersRef.current = handlers
+
+  React.useEffect(() => {
+    let source: EventSource | null = null
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+    let disposed = false
+
+    const connect = () => {
+      const token = getAccessToken()
+      if (!token || disposed) {
+        return
+      }
+
+      source = new EventSource(
+        `${API_URL}/api/v1/stream?access_token=${encodeURIComponent(token)}`
+      )
+
+      source.addEventListener("ready", () => setConnected(true))
+
+      source.addEventListener("request.status", (message) => {
+        handlersRef.current.onRequestStatus?.(JSON.parse((message as MessageEvent).data))
+      })
+
+      source.addEventListener("chain.event", (message) => {
+        handlersRef.current.onChainEvent?.(JSON.parse((message as MessageEvent).data))
+      })
+
+      source.addEventListener("notification", (message) => {
+        handlersRef.current.onNotification?.(JSON.parse((message as MessageEvent).data))
+      })
+
+      source.onerror = () => {
+        setConnected(false)
+
+        // EventSource gives up on non-200 responses; refresh the session and retry with the new token
+        if (source?.readyState === EventSource.CLOSED && !disposed) {
+          source.close()
+          void refreshSession().finally(() => {
+            if (!disposed) {
+              reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS)
+            }
+          })
+        }
+      }
+    }
+
+    connect()
+
+    return () => {
+      disposed = true
+      if (reconnectTimer) clearTimeout(reconnectTimer)
+      source?.close()
+    }
+  }, [])
+
+  return { connected }
+}
@@ -0,0 +1,901 @@
+// Generated from the ChainWeave AI Backend API OpenAPI document (v1.0.0) by `npm run generate:api` in backend/.
+// Do not edit by hand; regenerate after changing backend routes or validators.
+
+export interface ApiResponse<T = unknown> {
+  success: boolean
+  data?: T
+  message?: string
+  error?: string
+  details?: ValidationError[]
+  pagination?: Pagination
+}
+
+export interface ValidationError {
+  field: string
+  message: string
+  /** Rejected value */
+  value?: unknown
+}
+
+export interface Pagination {
+  currentPage: number
+  totalPages: number
+  totalItems: number
+  itemsPerPage?: number
+  hasNext: boolean
+  hasPrev: boolean
+}
+
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly response: ApiResponse
+  ) {
+    super(response.error || `Request failed with status ${status}`)
+    this.name = "ApiError"
+  }
+}
+
+export interface ApiClientOptions {
+  /** API root, e.g. `${API_URL}/api/v1` */
+  baseUrl?: string
+  /** Access token sent as a bearer token when present */
+  getAccessToken?: () => string | null | undefined | Promise<string | null | undefined>
+  fetch?: typeof fetch
+}
+
+type QueryParams = object
+
+export interface GetChallengeBody {
+  /** Valid wallet address is required */
+  walletAddress: string
+  /** Chain ID must be a positive integer */
+  chainId?: number
+}
+
+export interface ConnectWalletBody {
+  /** Valid wallet address is required */
+  walletAddress: string
+  /** Invalid signature format */
+  signature: string
+  /** Signed SIWE challenge message is required */
+  challenge: string
+  /** Username must be 3-30 alphanumeric characters */
+  username?: string
+  /** Valid email address required */
+  email?: string
+}
+
+export interface RefreshTokenBody {
+  /** Valid refresh token is required */
+  refreshToken: string
+}
+
+export interface GenerateNFTArtworkBody {
+  /** Prompt must be between 5 and 1000 characters */
+  prompt: string
+  /** Valid destination chain ID is required */
+  destinationChainId: number
+  /** Invalid recipient address */
+  recipient?: string
+  /** Style must be 1-50 letters, numbers, spaces or dashes */
+  style?: string
+  attributes?: unknown
+  /** Invalid image provider */
+  provider?: "openai" | "stability" | "local" | "test"
+  /** Model must be 1-100 characters */
+  model?: string
+  /** Size must be one of 256x256, 512x512, 1024x1024, 1792x1024, 1024x1792 */
+  size?: "256x256" | "512x512" | "1024x1024" | "1792x1024" | "1024x1792"
+  /** Quality must be one of standard, hd */
+  quality?: "standard" | "hd"
+  /** Variants must be between 1 and 4 */
+  variants?: number
+  /** Reference mode must be one of variation, inpaint, style */
+  referenceMode?: "variation" | "inpaint" | "style"
+  /** Reference strength must be between 0 and 1 */
+  referenceStrength?: number
+  /** reuseCached must be a boolean */
+  reuseCached?: boolean
+  /** Metadata profile must be one of opensea, erc1155, rarible */
+  metadataProfile?: "opensea" | "erc1155" | "rarible"
+}
+
+export interface GeneratePromptSuggestionsBody {
+  /** User input must be between 2 and 100 characters */
+  userInput: string
+  style?: string
+}
+
+export interface ValidateMetadataBody {
+  /** Metadata must be an object */
+  metadata: Array<unknown>
+  /** Profile must be one of opensea, erc1155, rarible */
+  profile?: "opensea" | "erc1155" | "rarible"
+  /** Token ID must be a non-negative integer */
+  tokenId?: number
+}
+
+export interface CreateOrGetUserBody {
+  /** Invalid wallet address format */
+  walletAddress: string
+}
+
+export interface UpdateUserBody {
+  /** Invalid email format */
+  email?: string
+  /** Username must be 3-50 characters */
+  username?: string
+  /** Avatar must be a valid URL */
+  avatar?: string
+  /** Preferences must be an object */
+  preferences?: Array<unknown>
+}
+
+export interface CreateRequestBody {
+  /** Prompt must be 10-1000 characters */
+  prompt: string
+  /** Destination chain ID must be a positive integer */
+  destinationChainId: number
+  /** Recipient must be a valid wallet address */
+  recipient?: string
+  /** Style must be 1-50 letters, numbers, spaces or dashes */
+  style?: string
+  attributes?: unknown
+  /** Invalid image provider */
+  provider?: "openai" | "stability" | "local" | "test"
+  /** Model must be 1-100 characters */
+  model?: string
+  /** Size must be one of 256x256, 512x512, 1024x1024, 1792x1024, 1024x1792 */
+  size?: "256x256" | "512x512" | "1024x1024" | "1792x1024" | "1024x1792"
+  /** Quality must be one of standard, hd */
+  quality?: "standard" | "hd"
+  /** Variants must be between 1 and 4 */
+  variants?: number
+  /** Reference mode must be one of variation, inpaint, style */
+  referenceMode?: "variation" | "inpaint" | "style"
+  /** Reference strength must be between 0 and 1 */
+  referenceStrength?: number
+  /** reuseCached must be a boolean */
+  reuseCached?: boolean
+  /** Metadata profile must be one of opensea, erc1155, rarible */
+  metadataProfile?: "opensea" | "erc1155" | "rarible"
+}
+
+export interface GetFavoritesQuery {
+  /** Page must be a positive integer */
+  page?: number
+  /** Limit must be between 1 and 50 */
+  limit?: number
+}
+
+export interface ToggleLikeBody {
+  /** liked must be a boolean */
+  liked?: unknown
+}
+
+export interface SubmitSelectionBody {
+  /** regenerate must be a boolean */
+  regenerate?: boolean
+  /** A valid variant ID is required unless regenerating */
+  variantId: string
+}
+
+export interface GetRequestsByWalletQuery {
+  /** Page must be a positive integer */
+  page?: number
+  /** Limit must be between 1 and 50 */
+  limit?: number
+  /** Sort must be a string */
+  sort?: string
+  /** Order must be asc or desc */
+  order?: "asc" | "desc"
+}
+
+export interface SearchRequestsQuery {
+  /** Search query must be 3-100 characters */
+  query: string
+  /** Page must be a positive integer */
+  page?: number
+  /** Limit must be between 1 and 50 */
+  limit?: number
+}
+
+export interface GetRequestsByStatusQuery {
+  /** Page must be a positive integer */
+  page?: number
+  /** Limit must be between 1 and 100 */
+  limit?: number
+}
+
+export interface ProcessPendingRequestsQuery {
+  /** Batch size must be between 1 and 20 */
+  batchSize?: number
+}
+
+export interface CreateCollectionBody {
+  /** Name must be 1-100 characters */
+  name: string
+  /** Description must be 1-1000 characters */
+  description: string
+  /** Chain ID must be a positive integer */
+  chainId: number
+  /** Invalid contract address format */
+  contractAddress: string
+  /** Royalty must be between 0 and 1000 (0-10%) */
+  royalty?: number
+  /** Metadata must be an object */
+  metadata?: Array<unknown>
+}
+
+export interface GetAllCollectionsQuery {
+  /** Page must be a positive integer */
+  page?: number
+  /** Limit must be between 1 and 100 */
+  limit?: number
+  /** Sort must be a string */
+  sort?: string
+  /** Order must be asc or desc */
+  order?: "asc" | "desc"
+}
+
+export interface GetFeaturedCollectionsQuery {
+  /** Limit must be between 1 and 50 */
+  limit?: number
+}
+
+export interface GetTrendingCollectionsQuery {
+  /** Period must be day, week, or month */
+  period?: "day" | "week" | "month"
+  /** Limit must be between 1 and 50 */
+  limit?: number
+}
+
+export interface SearchCollectionsQuery {
+  /** Search query must be 2-100 characters */
+  query: string
+  /** Page must be a positive integer */
+  page?: number
+  /** Limit must be between 1 and 50 */
+  limit?: number
+}
+
+export interface UpdateCollectionBody {
+  /** Name must be 1-100 characters */
+  name?: string
+  /** Description must be 1-1000 characters */
+  description?: string
+  /** Royalty must be between 0 and 1000 (0-10%) */
+  royalty?: number
+  /** Metadata must be an object */
+  metadata?: Array<unknown>
+}
+
+export interface GetCollectionsByChainQuery {
+  /** Page must be a positive integer */
+  page?: number
+  /** Limit must be between 1 and 50 */
+  limit?: number
+}
+
+export interface GetCollectionsByCreatorQuery {
+  /** Page must be a positive integer */
+  page?: number
+  /** Limit must be between 1 and 50 */
+  limit?: number
+}
+
+export interface GetPlatformStatsQuery {
+  /** Start date must be in ISO 8601 format */
+  startDate?: string
+  /** End date must be in ISO 8601 format */
+  endDate?: string
+}
+
+export interface GetUserAnalyticsQuery {
+  /** Start date must be in ISO 8601 format */
+  startDate?: string
+  /** End date must be in ISO 8601 format */
+  endDate?: string
+}
+
+export interface GetTopUsersQuery {
+  /** Metric must be requests, completed, or spent */
+  metric?: "requests" | "completed" | "spent"
+  /** Limit must be between 1 and 100 */
+  limit?: number
+}
+
+export interface GenerateAnalyticsReportQuery {
+  /** Start date must be in ISO 8601 format */
+  startDate?: string
+  /** End date must be in ISO 8601 format */
+  endDate?: string
+  /** Report type must be summary or detailed */
+  reportType?: "summary" | "detailed"
+}
+
+export interface GenerateDailyStatsQuery {
+  /** Date must be in ISO 8601 format */
+  date?: string
+}
+
+export interface GetUserAnalyticsByWalletQuery {
+  /** Start date must be in ISO 8601 format */
+  startDate?: string
+  /** End date must be in ISO 8601 format */
+  endDate?: string
+}
+
+export interface GetUserActivityFeedQuery {
+  /** Page must be positive integer */
+  page?: number
+  /** Limit must be between 1-50 */
+  limit?: number
+}
+
+export interface GetPublicActivityFeedQuery {
+  /** Page must be positive integer */
+  page?: number
+  /** Limit must be between 1-50 */
+  limit?: number
+}
+
+export interface GetUserNotificationsQuery {
+  /** Page must be positive integer */
+  page?: number
+  /** Limit must be between 1-50 */
+  limit?: number
+  /** unreadOnly must be boolean */
+  unreadOnly?: boolean
+  /** Invalid notification type */
+  type?: "generation" | "mint" | "failure" | "collection" | "system"
+}
+
+export interface GetReviewQueueQuery {
+  /** Page must be a positive integer */
+  page?: number
+  /** Limit must be between 1 and 100 */
+  limit?: number
+}
+
+export interface GetDecisionsQuery {
+  /** Page must be a positive integer */
+  page?: number
+  /** Limit must be between 1 and 100 */
+  limit?: number
+  /** Invalid request ID format */
+  requestId?: string
+  /** Invalid wallet address */
+  walletAddress?: string
+  /** Invalid subject */
+  subject?: "prompt" | "reference" | "image"
+  /** Invalid action */
+  action?: "allow" | "review" | "block"
+}
+
+export interface ApproveDecisionBody {
+  /** Note cannot exceed 1000 characters */
+  note?: string
+}
+
+export interface RejectDecisionBody {
+  /** Note cannot exceed 1000 characters */
+  note?: string
+}
+
+export interface SetTierBody {
+  /** Tier is required */
+  tier: string
+}
+
+export interface CreateEndpointBody {
+  /** URL must be a valid http or https URL */
+  url: string
+  /** Events must be a non-empty array */
+  events: Array<"request.created" | "request.status_changed" | "nft.minted" | "nft.reverted" | "collection.updated">
+  /** Description must be at most 200 characters */
+  description?: string
+  /** allWallets must be a boolean */
+  allWallets?: boolean
+}
+
+export interface UpdateEndpointBody {
+  /** URL must be a valid http or https URL */
+  url?: string
+  /** Events must be a non-empty array */
+  events?: Array<"request.created" | "request.status_changed" | "nft.minted" | "nft.reverted" | "collection.updated">
+  /** Description must be at most 200 characters */
+  description?: string
+  /** isActive must be a boolean */
+  isActive?: boolean
+}
+
+export interface GetDeliveriesQuery {
+  /** Invalid delivery status */
+  status?: "pending" | "delivering" | "delivered" | "failed"
+  /** Page must be a positive integer */
+  page?: number
+  /** Limit must be between 1 and 100 */
+  limit?: number
+}
+
+export interface ListUsersQuery {
+  /** Page must be a positive integer */
+  page?: number
+  /** Limit must be between 1 and 100 */
+  limit?: number
+  /** Query must be 2-100 characters */
+  query?: string
+  /** Invalid role */
+  role?: "admin" | "moderator" | "support"
+  /** isActive must be boolean */
+  isActive?: boolean
+}
+
+export interface AdminDeactivateUserBody {
+  /** Reason cannot exceed 1000 characters */
+  reason?: string
+}
+
+export interface ReactivateUserBody {
+  /** Reason cannot exceed 1000 characters */
+  reason?: string
+}
+
+export interface UpdateUserAccessBody {
+  /** Roles must be an array */
+  roles?: Array<"admin" | "moderator" | "support">
+  /** Permissions must be an array */
+  permissions?: Array<"users:read" | "users:manage" | "roles:manage" | "requests:read" | "requests:manage" | "collections:manage" | "moderation:review" | "usage:read" | "usage:manage" | "audit:read">
+  /** Reason cannot exceed 1000 characters */
+  reason?: string
+}
+
+export interface ListRequestsQuery {
+  /** Page must be a positive integer */
+  page?: number
+  /** Limit must be between 1 and 100 */
+  limit?: number
+  /** From must be in ISO 8601 format */
+  from?: string
+  /** To must be in ISO 8601 format */
+  to?: string
+  /** Invalid status */
+  status?: "pending" | "processing" | "awaiting_selection" | "under_review" | "ai_completed" | "cross_chain_pending" | "completed" | "failed" | "cancelled" | "rejected"
+  /** Invalid wallet address */
+  walletAddress?: string
+}
+
+export interface AdminRetryRequestBody {
+  /** Reason cannot exceed 1000 characters */
+  reason?: string
+}
+
+export interface FailRequestBody {
+  /** Reason must be 1-500 characters */
+  reason: string
+}
+
+export interface FeatureCollectionBody {
+  /** Reason cannot exceed 1000 characters */
+  reason?: string
+}
+
+export interface UnfeatureCollectionBody {
+  /** Reason cannot exceed 1000 characters */
+  reason?: string
+}
+
+export interface GetAuditLogsQuery {
+  /** Page must be a positive integer */
+  page?: number
+  /** Limit must be between 1 and 100 */
+  limit?: number
+  /** From must be in ISO 8601 format */
+  from?: string
+  /** To must be in ISO 8601 format */
+  to?: string
+  /** Invalid wallet address */
+  actorWallet?: string
+  /** Invalid action */
+  action?: "user.deactivated" | "user.reactivated" | "user.access_updated" | "user.tier_updated" | "request.retried" | "request.failed" | "collection.featured" | "collection.unfeatured"
+  /** Invalid target type */
+  targetType?: "user" | "request" | "collection"
+  /** Invalid target ID */
+  targetId?: string
+}
+
+export function createApiClient(options: ApiClientOptions = {}) {
+  const baseUrl = options.baseUrl ?? "/api/v1"
+
+  const request = async <T = unknown>(
+    method: string,
+    path: string,
+    init: { body?: unknown; query?: QueryParams } = {}
+  ): Promise<ApiResponse<T>> => {
+    const search = new URLSearchParams()
+    for (const [key, value] of Object.entries(init.query ?? {})) {
+      if (value !== undefined && value !== null) {
+        search.set(key, String(value))
+      }
+    }
+
+    const headers: Record<string, string> = {}
+    const token = await options.getAccessToken?.()
+    if (token) {
+      headers.Authorization = `Bearer ${token}`
+    }
+
+    let body: BodyInit | undefined
+    if (init.body instanceof FormData) {
+      body = init.body
+    } else if (init.body !== undefined) {
+      headers["Content-Type"] = "application/json"
+      body = JSON.stringify(init.body)
+    }
+
+    const query = search.toString()
+    const response = await (options.fetch ?? fetch)(`${baseUrl}${path}${query ? `?${query}` : ""}`, {
+      method,
+      headers,
+      body,
+    })
+
+    const payload = (await response.json().catch(() => ({ success: response.ok }))) as ApiResponse<T>
+    if (!response.ok) {
+      throw new ApiError(response.status, payload)
+    }
+
+    return payload
+  }
+
+  return {
+    api: {
+      /** Get health (GET /health) */
+      getHealth: () =>
+        request("GET", `/health`),
+    },
+    auth: {
+      /** Get challenge (POST /auth/challenge) */
+      getChallenge: (body: GetChallengeBody) =>
+        request("POST", `/auth/challenge`, { body }),
+      /** Connect wallet (POST /auth/wallet/connect) */
+      connectWallet: (body: ConnectWalletBody) =>
+        request("POST", `/auth/wallet/connect`, { body }),
+      /** Auth get current user (GET /auth/profile) */
+      authGetCurrentUser: () =>
+        request("GET", `/auth/profile`),
+      /** Refresh token (POST /auth/refresh) */
+      refreshToken: (body: RefreshTokenBody) =>
+        request("POST", `/auth/refresh`, { body }),
+      /** Logout (POST /auth/logout) */
+      logout: () =>
+        request("POST", `/auth/logout`),
+      /** Get sessions (GET /auth/sessions) */
+      getSessions: () =>
+        request("GET", `/auth/sessions`),
+      /** Revoke other sessions (DELETE /auth/sessions) */
+      revokeOtherSessions: () =>
+        request("DELETE", `/auth/sessions`),
+      /** Revoke session (DELETE /auth/sessions/{sessionId}) */
+      revokeSession: (sessionId: string | number) =>
+        request("DELETE", `/auth/sessions/${encodeURIComponent(sessionId)}`),
+    },
+    ai: {
+      /** Generate nftartwork (POST /ai/generate) */
+      generateNFTArtwork: (body: GenerateNFTArtworkBody | FormData) =>
+        request("POST", `/ai/generate`, { body }),
+      /** Generate prompt suggestions (POST /ai/suggestions) */
+      generatePromptSuggestions: (body: GeneratePromptSuggestionsBody) =>
+        request("POST", `/ai/suggestions`, { body }),
+      /** Analyze user preferences (GET /ai/preferences) */
+      analyzeUserPreferences: () =>
+        request("GET", `/ai/preferences`),
+      /** Validate metadata (POST /ai/metadata/validate) */
+      validateMetadata: (body: ValidateMetadataBody) =>
+        request("POST", `/ai/metadata/validate`, { body }),
+      /** Get image providers (GET /ai/providers) */
+      getImageProviders: () =>
+        request("GET", `/ai/providers`),
+      /** Health check (GET /ai/health) */
+      healthCheck: () =>
+        request("GET", `/ai/health`),
+    },
+    users: {
+      /** Create or get user (POST /users/wallet) */
+      createOrGetUser: (body: CreateOrGetUserBody) =>
+        request("POST", `/users/wallet`, { body }),
+      /** Users get current user (GET /users/me) */
+      usersGetCurrentUser: () =>
+        request("GET", `/users/me`),
+      /** Update user (PATCH /users/me) */
+      updateUser: (body?: UpdateUserBody) =>
+        request("PATCH", `/users/me`, { body }),
+      /** Users deactivate user (DELETE /users/me) */
+      usersDeactivateUser: () =>
+        request("DELETE", `/users/me`),
+      /** Get user stats (GET /users/me/stats) */
+      getUserStats: () =>
+        request("GET", `/users/me/stats`),
+      /** Get user nfthistory (GET /users/me/nfts) */
+      getUserNFTHistory: () =>
+        request("GET", `/users/me/nfts`),
+      /** Get user by id (GET /users/id/{userId}) */
+      getUserById: (userId: string | number) =>
+        request("GET", `/users/id/${encodeURIComponent(userId)}`),
+      /** Get user by wallet (GET /users/wallet/{walletAddress}) */
+      getUserByWallet: (walletAddress: string | number) =>
+        request("GET", `/users/wallet/${encodeURIComponent(walletAddress)}`),
+      /** Get user stats by wallet (GET /users/wallet/{walletAddress}/stats) */
+      getUserStatsByWallet: (walletAddress: string | number) =>
+        request("GET", `/users/wallet/${encodeURIComponent(walletAddress)}/stats`),
+      /** Get public nfthistory (GET /users/wallet/{walletAddress}/nfts) */
+      getPublicNFTHistory: (walletAddress: string | number) =>
+        request("GET", `/users/wallet/${encodeURIComponent(walletAddress)}/nfts`),
+      /** Search users (GET /users/search) */
+      searchUsers: () =>
+        request("GET", `/users/search`),
+      /** Get all users (GET /users) */
+      getAllUsers: () =>
+        request("GET", `/users`),
+    },
+    requests: {
+      /** Create request (POST /requests) */
+      createRequest: (body: CreateRequestBody | FormData) =>
+        request("POST", `/requests`, { body }),
+      /** Get user requests (GET /requests/me) */
+      getUserRequests: () =>
+        request("GET", `/requests/me`),
+      /** Get user collection (GET /requests/collection) */
+      getUserCollection: () =>
+        request("GET", `/requests/collection`),
+      /** Get favorites (GET /requests/favorites) */
+      getFavorites: (query?: GetFavoritesQuery) =>
+        request("GET", `/requests/favorites`, { query }),
+      /** Toggle like (POST /requests/{requestId}/like) */
+      toggleLike: (requestId: string | number, body?: ToggleLikeBody) =>
+        request("POST", `/requests/${encodeURIComponent(requestId)}/like`, { body }),
+      /** Get request by id (GET /requests/id/{requestId}) */
+      getRequestById: (requestId: string | number) =>
+        request("GET", `/requests/id/${encodeURIComponent(requestId)}`),
+      /** Cancel request (PATCH /requests/{requestId}/cancel) */
+      cancelRequest: (requestId: string | number) =>
+        request("PATCH", `/requests/${encodeURIComponent(requestId)}/cancel`),
+      /** Requests retry request (PATCH /requests/{requestId}/retry) */
+      requestsRetryRequest: (requestId: string | number) =>
+        request("PATCH", `/requests/${encodeURIComponent(requestId)}/retry`),
+      /** Get variants (GET /requests/{requestId}/variants) */
+      getVariants: (requestId: string | number) =>
+        request("GET", `/requests/${encodeURIComponent(requestId)}/variants`),
+      /** Get variant image (GET /requests/{requestId}/variants/{variantId}/image) */
+      getVariantImage: (requestId: string | number, variantId: string | number) =>
+        request("GET", `/requests/${encodeURIComponent(requestId)}/variants/${encodeURIComponent(variantId)}/image`),
+      /** Submit selection (POST /requests/{requestId}/selection) */
+      submitSelection: (requestId: string | number, body: SubmitSelectionBody) =>
+        request("POST", `/requests/${encodeURIComponent(requestId)}/selection`, { body }),
+      /** Get requests by wallet (GET /requests/wallet/{walletAddress}) */
+      getRequestsByWallet: (walletAddress: string | number, query?: GetRequestsByWalletQuery) =>
+        request("GET", `/requests/wallet/${encodeURIComponent(walletAddress)}`, { query }),
+      /** Search requests (GET /requests/search) */
+      searchRequests: (query: SearchRequestsQuery) =>
+        request("GET", `/requests/search`, { query }),
+      /** Get requests by status (GET /requests/status/{status}) */
+      getRequestsByStatus: (status: string | number, query?: GetRequestsByStatusQuery) =>
+        request("GET", `/requests/status/${encodeURIComponent(status)}`, { query }),
+      /** Get request statistics (GET /requests/stats) */
+      getRequestStatistics: () =>
+        request("GET", `/requests/stats`),
+      /** Process pending requests (POST /requests/process) */
+      processPendingRequests: (query?: ProcessPendingRequestsQuery) =>
+        request("POST", `/requests/process`, { query }),
+    },
+    collections: {
+      /** Create collection (POST /collections) */
+      createCollection: (body: CreateCollectionBody) =>
+        request("POST", `/collections`, { body }),
+      /** Get all collections (GET /collections) */
+      getAllCollections: (query?: GetAllCollectionsQuery) =>
+        request("GET", `/collections`, { query }),
+      /** Get user collections (GET /collections/me) */
+      getUserCollections: () =>
+        request("GET", `/collections/me`),
+      /** Get featured collections (GET /collections/featured) */
+      getFeaturedCollections: (query?: GetFeaturedCollectionsQuery) =>
+        request("GET", `/collections/featured`, { query }),
+      /** Get trending collections (GET /collections/trending) */
+      getTrendingCollections: (query?: GetTrendingCollectionsQuery) =>
+        request("GET", `/collections/trending`, { query }),
+      /** Search collections (GET /collections/search) */
+      searchCollections: (query: SearchCollectionsQuery) =>
+        request("GET", `/collections/search`, { query }),
+      /** Get collection by id (GET /collections/id/{collectionId}) */
+      getCollectionById: (collectionId: string | number) =>
+        request("GET", `/collections/id/${encodeURIComponent(collectionId)}`),
+      /** Get collection by contract (GET /collections/contract/{contractAddress}) */
+      getCollectionByContract: (contractAddress: string | number) =>
+        request("GET", `/collections/contract/${encodeURIComponent(contractAddress)}`),
+      /** Get collection stats (GET /collections/{collectionId}/stats) */
+      getCollectionStats: (collectionId: string | number) =>
+        request("GET", `/collections/${encodeURIComponent(collectionId)}/stats`),
+      /** Update collection (PATCH /collections/{collectionId}) */
+      updateCollection: (collectionId: string | number, body?: UpdateCollectionBody) =>
+        request("PATCH", `/collections/${encodeURIComponent(collectionId)}`, { body }),
+      /** Deactivate collection (DELETE /collections/{collectionId}) */
+      deactivateCollection: (collectionId: string | number) =>
+        request("DELETE", `/collections/${encodeURIComponent(collectionId)}`),
+      /** Freeze metadata (POST /collections/{collectionId}/freeze) */
+      freezeMetadata: (collectionId: string | number) =>
+        request("POST", `/collections/${encodeURIComponent(collectionId)}/freeze`),
+      /** Get collections by chain (GET /collections/chain/{chainId}) */
+      getCollectionsByChain: (chainId: string | number, query?: GetCollectionsByChainQuery) =>
+        request("GET", `/collections/chain/${encodeURIComponent(chainId)}`, { query }),
+      /** Get collections by creator (GET /collections/creator/{creatorWallet}) */
+      getCollectionsByCreator: (creatorWallet: string | number, query?: GetCollectionsByCreatorQuery) =>
+        request("GET", `/collections/creator/${encodeURIComponent(creatorWallet)}`, { query }),
+    },
+    analytics: {
+      /** Get dashboard data (GET /analytics/dashboard) */
+      getDashboardData: () =>
+        request("GET", `/analytics/dashboard`),
+      /** Get system health (GET /analytics/health) */
+      getSystemHealth: () =>
+        request("GET", `/analytics/health`),
+      /** Get platform stats (GET /analytics/platform) */
+      getPlatformStats: (query?: GetPlatformStatsQuery) =>
+        request("GET", `/analytics/platform`, { query }),
+      /** Get user analytics (GET /analytics/me) */
+      getUserAnalytics: (query?: GetUserAnalyticsQuery) =>
+        request("GET", `/analytics/me`, { query }),
+      /** Get top users (GET /analytics/users/top) */
+      getTopUsers: (query?: GetTopUsersQuery) =>
+        request("GET", `/analytics/users/top`, { query }),
+      /** Get chain usage stats (GET /analytics/chains) */
+      getChainUsageStats: () =>
+        request("GET", `/analytics/chains`),
+      /** Generate analytics report (GET /analytics/report) */
+      generateAnalyticsReport: (query?: GenerateAnalyticsReportQuery) =>
+        request("GET", `/analytics/report`, { query }),
+      /** Generate daily stats (POST /analytics/generate/daily) */
+      generateDailyStats: (query?: GenerateDailyStatsQuery) =>
+        request("POST", `/analytics/generate/daily`, { query }),
+      /** Get user analytics by wallet (GET /analytics/users/{walletAddress}) */
+      getUserAnalyticsByWallet: (walletAddress: string | number, query?: GetUserAnalyticsByWalletQuery) =>
+        request("GET", `/analytics/users/${encodeURIComponent(walletAddress)}`, { query }),
+    },
+    activity: {
+      /** Get user activity feed (GET /activity/feed) */
+      getUserActivityFeed: (query?: GetUserActivityFeedQuery) =>
+        request("GET", `/activity/feed`, { query }),
+      /** Get public activity feed (GET /activity/public) */
+      getPublicActivityFeed: (query?: GetPublicActivityFeedQuery) =>
+        request("GET", `/activity/public`, { query }),
+      /** Get user notifications (GET /activity/notifications) */
+      getUserNotifications: (query?: GetUserNotificationsQuery) =>
+        request("GET", `/activity/notifications`, { query }),
+      /** Mark all notifications read (PATCH /activity/notifications/read-all) */
+      markAllNotificationsRead: () =>
+        request("PATCH", `/activity/notifications/read-all`),
+      /** Mark notification read (PATCH /activity/notifications/{notificationId}/read) */
+      markNotificationRead: (notificationId: string | number) =>
+        request("PATCH", `/activity/notifications/${encodeURIComponent(notificationId)}/read`),
+    },
+    stream: {
+      /** Stream events (GET /stream) */
+      streamEvents: () =>
+        request("GET", `/stream`),
+    },
+    moderation: {
+      /** Get rules (GET /moderation/rules) */
+      getRules: () =>
+        request("GET", `/moderation/rules`),
+      /** Get review queue (GET /moderation/queue) */
+      getReviewQueue: (query?: GetReviewQueueQuery) =>
+        request("GET", `/moderation/queue`, { query }),
+      /** Get decisions (GET /moderation/decisions) */
+      getDecisions: (query?: GetDecisionsQuery) =>
+        request("GET", `/moderation/decisions`, { query }),
+      /** Get decision (GET /moderation/decisions/{decisionId}) */
+      getDecision: (decisionId: string | number) =>
+        request("GET", `/moderation/decisions/${encodeURIComponent(decisionId)}`),
+      /** Get decision image (GET /moderation/decisions/{decisionId}/image) */
+      getDecisionImage: (decisionId: string | number) =>
+        request("GET", `/moderation/decisions/${encodeURIComponent(decisionId)}/image`),
+      /** Approve decision (POST /moderation/decisions/{decisionId}/approve) */
+      approveDecision: (decisionId: string | number, body?: ApproveDecisionBody) =>
+        request("POST", `/moderation/decisions/${encodeURIComponent(decisionId)}/approve`, { body }),
+      /** Reject decision (POST /moderation/decisions/{decisionId}/reject) */
+      rejectDecision: (decisionId: string | number, body?: RejectDecisionBody) =>
+        request("POST", `/moderation/decisions/${encodeURIComponent(decisionId)}/reject`, { body }),
+    },
+    usage: {
+      /** Get tiers (GET /usage/tiers) */
+      getTiers: () =>
+        request("GET", `/usage/tiers`),
+      /** Get my allowance (GET /usage/me) */
+      getMyAllowance: () =>
+        request("GET", `/usage/me`),
+      /** Get allowance (GET /usage/users/{walletAddress}) */
+      getAllowance: (walletAddress: string | number) =>
+        request("GET", `/usage/users/${encodeURIComponent(walletAddress)}`),
+      /** Set tier (PUT /usage/users/{walletAddress}/tier) */
+      setTier: (walletAddress: string | number, body: SetTierBody) =>
+        request("PUT", `/usage/users/${encodeURIComponent(walletAddress)}/tier`, { body }),
+    },
+    webhooks: {
+      /** Get events (GET /webhooks/events) */
+      getEvents: () =>
+        request("GET", `/webhooks/events`),
+      /** Create endpoint (POST /webhooks) */
+      createEndpoint: (body: CreateEndpointBody) =>
+        request("POST", `/webhooks`, { body }),
+      /** List endpoints (GET /webhooks) */
+      listEndpoints: () =>
+        request("GET", `/webhooks`),
+      /** Get endpoint (GET /webhooks/{endpointId}) */
+      getEndpoint: (endpointId: string | number) =>
+        request("GET", `/webhooks/${encodeURIComponent(endpointId)}`),
+      /** Update endpoint (PATCH /webhooks/{endpointId}) */
+      updateEndpoint: (endpointId: string | number, body?: UpdateEndpointBody) =>
+        request("PATCH", `/webhooks/${encodeURIComponent(endpointId)}`, { body }),
+      /** Delete endpoint (DELETE /webhooks/{endpointId}) */
+      deleteEndpoint: (endpointId: string | number) =>
+        request("DELETE", `/webhooks/${encodeURIComponent(endpointId)}`),
+      /** Get secret (GET /webhooks/{endpointId}/secret) */
+      getSecret: (endpointId: string | number) =>
+        request("GET", `/webhooks/${encodeURIComponent(endpointId)}/secret`),
+      /** Rotate secret (POST /webhooks/{endpointId}/secret/rotate) */
+      rotateSecret: (endpointId: string | number) =>
+        request("POST", `/webhooks/${encodeURIComponent(endpointId)}/secret/rotate`),
+      /** Send test (POST /webhooks/{endpointId}/test) */
+      sendTest: (endpointId: string | number) =>
+        request("POST", `/webhooks/${encodeURIComponent(endpointId)}/test`),
+      /** Get deliveries (GET /webhooks/{endpointId}/deliveries) */
+      getDeliveries: (endpointId: string | number, query?: GetDeliveriesQuery) =>
+        request("GET", `/webhooks/${encodeURIComponent(endpointId)}/deliveries`, { query }),
+      /** Replay delivery (POST /webhooks/{endpointId}/deliveries/{deliveryId}/replay) */
+      replayDelivery: (endpointId: string | number, deliveryId: string | number) =>
+        request("POST", `/webhooks/${encodeURIComponent(endpointId)}/deliveries/${encodeURIComponent(deliveryId)}/replay`),
+    },
+    admin: {
+      /** Get roles (GET /admin/roles) */
+      getRoles: () =>
+        request("GET", `/admin/roles`),
+      /** List users (GET /admin/users) */
+      listUsers: (query?: ListUsersQuery) =>
+        request("GET", `/admin/users`, { query }),
+      /** Get user (GET /admin/users/{walletAddress}) */
+      getUser: (walletAddress: string | number) =>
+        request("GET", `/admin/users/${encodeURIComponent(walletAddress)}`),
+      /** Admin deactivate user (POST /admin/users/{walletAddress}/deactivate) */
+      adminDeactivateUser: (walletAddress: string | number, body?: AdminDeactivateUserBody) =>
+        request("POST", `/admin/users/${encodeURIComponent(walletAddress)}/deactivate`, { body }),
+      /** Reactivate user (POST /admin/users/{walletAddress}/reactivate) */
+      reactivateUser: (walletAddress: string | number, body?: ReactivateUserBody) =>
+        request("POST", `/admin/users/${encodeURIComponent(walletAddress)}/reactivate`, { body }),
+      /** Update user access (PUT /admin/users/{walletAddress}/access) */
+      updateUserAccess: (walletAddress: string | number, body?: UpdateUserAccessBody) =>
+        request("PUT", `/admin/users/${encodeURIComponent(walletAddress)}/access`, { body }),
+      /** List requests (GET /admin/requests) */
+      listRequests: (query?: ListRequestsQuery) =>
+        request("GET", `/admin/requests`, { query }),
+      /** Admin retry request (POST /admin/requests/{requestId}/retry) */
+      adminRetryRequest: (requestId: string | number, body?: AdminRetryRequestBody) =>
+        request("POST", `/admin/requests/${encodeURIComponent(requestId)}/retry`, { body }),
+      /** Fail request (POST /admin/requests/{requestId}/fail) */
+      failRequest: (requestId: string | number, body: FailRequestBody) =>
+        request("POST", `/admin/requests/${encodeURIComponent(requestId)}/fail`, { body }),
+      /** Feature collection (POST /admin/collections/{collectionId}/feature) */
+      featureCollection: (collectionId: string | number, body?: FeatureCollectionBody) =>
+        request("POST", `/admin/collections/${encodeURIComponent(collectionId)}/feature`, { body }),
+      /** Unfeature collection (DELETE /admin/collections/{collectionId}/feature) */
+      unfeatureCollection: (collectionId: string | number, body?: UnfeatureCollectionBody) =>
+        request("DELETE", `/admin/collections/${encodeURIComponent(collectionId)}/feature`, { body }),
+      /** Get audit logs (GET /admin/audit) */
+      getAuditLogs: (query?: GetAuditLogsQuery) =>
+        request("GET", `/admin/audit`, { query }),
+    },
+  }
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>
@@ -0,0 +1,70 @@
+import { createApiClient, type ConnectWalletBody } from "@/lib/api-client"
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000"
+const ACCESS_TOKEN_KEY = "chainweave_access_token"
+const REFRESH_TOKEN_KEY = "chainweave_refresh_token"
+
+// Token pair returned by POST /auth/wallet/connect and POST /auth/refresh
+export interface SessionTokens {
+  token: string
+  expiresAt: string
+  refreshToken: string
+  refreshTokenExpiresAt: string
+  sessionId: string
+}
+
+export function getAccessToken(): string | null {
+  return typeof window === "undefined" ? null : window.localStorage.getItem(ACCESS_TOKEN_KEY)
+}
+
+function storeSession(tokens: SessionTokens) {
+  window.localStorage.setItem(ACCESS_TOKEN_KEY, tokens.token)
+  window.localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken)
+}
+
+function clearSession() {
+  window.localStorage.removeItem(ACCESS_TOKEN_KEY)
+  window.localStorage.removeItem(REFRESH_TOKEN_KEY)
+}
+
+export const apiClient = createApiClient({
+  baseUrl: `${API_URL}/api/v1`,
+  getAccessToken,
+})
+
+/**
+ * Exchange a signed sign-in challenge for a session and remember its tokens
+ */
+export async function signIn(body: ConnectWalletBody) {
+  const response = await apiClient.auth.connectWallet(body)
+  storeSession(response.data as SessionTokens)
+  return response
+}
+
+/**
+ * Rotate the stored refresh token. Returns false (and signs out) when the
+ * session can no longer be refreshed.
+ */
+export async function refreshSession(): Promise<boolean> {
+  const refreshToken = window.localStorage.getItem(REFRESH_TOKEN_KEY)
+  if (!refreshToken) {
+    return false
+  }
+
+  try {
+    const response = await apiClient.auth.refreshToken({ refreshToken })
+    storeSession(response.data as SessionTokens)
+    return true
+  } catch {
+    clearSession()
+    return false
+  }
+}
+
+export async function signOut() {
+  try {
+    await apiClient.auth.logout()
+  } finally {
+    clearSession()
+  }
+}